@@ -1,3 +1,6 @@
+-- Legacy finance module schema. Superseded by the unified ledger (financial_expenses,
+-- partner_settlements); see docs/SQL_QUERIES_FOR_SUPABASE.md section 18 for the migration.
+
 -- Drop existing tables if they exist
 DROP TABLE IF EXISTS expenses CASCADE;
 DROP TABLE IF EXISTS settlements CASCADE;
@@ -5,6 +5,12 @@ import cors from 'cors';
 import express from 'express';
 import path from 'path';
 import orders from './routes/orders';
+import operationsRoutes from './routes/operations';
+import orderViewsRoutes from './routes/orderViews';
+import productionRoutes from './routes/production';
+import makersRoutes from './routes/makers';
+import materialsRoutes from './routes/materials';
+import publicRoutes from './routes/public';
 import financeRoutes from './routes/financeRoutes';
 import financialRoutes from './routes/financial';
 import shippingRoutes from './routes/shipping';
@@ -12,6 +18,7 @@ import whatsappWebhook from './routes/whatsappWebhook';
 import whatsappWebRoutes from './routes/whatsappWeb';
 import whatsappHubRoutes from './routes/whatsappHub';
 import discordInteractions from './routes/discordInteractions';
+import shopifyWebhooks from './routes/shopifyWebhooks';
 import { errorHandler } from './middleware/errorHandler';
 import { corsOptions, getConfig } from './config';
 import { logger } from './utils/logger';
@@ -21,6 +28,9 @@ const app = express();
 
 app.set('trust proxy', 1);
 
+// Public storefront API has its own CORS policy (shop domain only)
+app.use('/api/public', publicRoutes);
+
 // CORS first — required for browser preflight before any other middleware
 app.use(cors(corsOptions));
 
@@ -34,6 +44,10 @@ app.use(morgan('dev'));
 // Discord needs raw body for signature verification
 app.use('/api/discord', discordInteractions);
 
+// Shopify webhooks need raw body for HMAC verification (legacy order webhook URLs included)
+app.use('/api/shopify/webhooks', shopifyWebhooks);
+app.use('/api/orders/webhook', shopifyWebhooks);
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use('/uploads', express.static(path.resolve(process.cwd(), 'uploads')));
@@ -68,6 +82,11 @@ app.use((req, res, next) => {
 });
 
 app.use('/api/orders', orders);
+app.use('/api/operations', operationsRoutes);
+app.use('/api/order-views', orderViewsRoutes);
+app.use('/api/production', productionRoutes);
+app.use('/api/makers', makersRoutes);
+app.use('/api/materials', materialsRoutes);
 app.use('/api/finance', financeRoutes);
 app.use('/api/financial', financialRoutes);
 app.use('/api/shipping', shippingRoutes);
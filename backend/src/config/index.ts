@@ -10,6 +10,15 @@ interface ShippingConfig {
   password: string;
   merchantId: string;
   memberId: string;
+  warehouseName: string;
+  /** Provider for `shipping_method:other-company` orders: 'manual' until that carrier is integrated. */
+  otherCompanyProvider: string;
+  /** Public tracking page of the other company, with `{barcode}` where the tracking number goes. */
+  otherCompanyTrackingUrl: string;
+  otherCompanyFlatFee: number | null;
+  scooterFlatFee: number | null;
+  /** Alert Discord once a package has this many failed delivery attempts (Mylerz returns it after 3). */
+  failedAttemptAlertThreshold: number;
 }
 
 interface Config {
@@ -78,11 +87,23 @@ export function getConfig(): Config {
       password: process.env.SHIPPING_PASSWORD || 'H@ni2003',
       merchantId: process.env.SHIPPING_MERCHANT_ID || '',
       memberId: process.env.SHIPPING_MEMBER_ID || '',
+      warehouseName: process.env.SHIPPING_WAREHOUSE_NAME || '',
+      otherCompanyProvider: process.env.SHIPPING_OTHER_COMPANY_PROVIDER || 'manual',
+      otherCompanyTrackingUrl: process.env.SHIPPING_OTHER_COMPANY_TRACKING_URL || '',
+      otherCompanyFlatFee: optionalNumber(process.env.SHIPPING_OTHER_COMPANY_FEE),
+      scooterFlatFee: optionalNumber(process.env.SCOOTER_SHIPPING_FEE),
+      failedAttemptAlertThreshold: optionalNumber(process.env.SHIPPING_FAILED_ATTEMPT_ALERT_THRESHOLD) ?? 2,
     },
     allowedOrigins: buildAllowedOrigins(),
   };
 }
 
+function optionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
 const DEFAULT_PRODUCTION_ORIGINS = [
   'https://ocdcrochet.qzz.io',
   'https://www.ocdcrochet.qzz.io',
@@ -133,6 +154,44 @@ export function isAllowedCorsOrigin(origin: string | undefined): boolean {
   return false;
 }
 
+/**
+ * Storefront origins allowed to call /api/public: STOREFRONT_ORIGINS (comma-separated),
+ * SHOPIFY_SHOP_DOMAIN and the shop's myshopify.com domain.
+ */
+export function buildStorefrontOrigins(): string[] {
+  const shopName = process.env.SHOPIFY_SHOP_NAME?.trim().replace(/\.myshopify\.com$/i, '');
+  return [
+    ...new Set(
+      [
+        ...(process.env.STOREFRONT_ORIGINS || '').split(','),
+        process.env.SHOPIFY_SHOP_DOMAIN || '',
+        shopName ? `${shopName}.myshopify.com` : '',
+      ]
+        .map(normalizeOrigin)
+        .filter(Boolean)
+        .flatMap((origin) => {
+          // Shop domains are served with and without www
+          const host = origin.replace(/^https?:\/\/(www\.)?/, '');
+          return host.includes('myshopify.com') ? [origin] : [`https://${host}`, `https://www.${host}`];
+        })
+    ),
+  ];
+}
+
+/** CORS for the public storefront API: shop domain only, no credentials, GET only. */
+export const storefrontCorsOptions = {
+  origin: (
+    origin: string | undefined,
+    callback: (err: Error | null, allow?: boolean) => void
+  ) => {
+    callback(null, !!origin && buildStorefrontOrigins().includes(normalizeOrigin(origin)));
+  },
+  credentials: false,
+  methods: ['GET', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Accept'],
+  maxAge: 86400,
+};
+
 // Also export the config object directly for modules that prefer to import it
 export const config = getConfig();
 
@@ -155,5 +214,8 @@ export const corsOptions = {
     'Pragma',
     'Priority',
     'X-WhatsApp-Web-Secret',
+    'X-Order-Source',
+    'X-Order-Actor',
+    'X-App-Role',
   ],
 }; 
\ No newline at end of file
@@ -2,7 +2,7 @@ import Queue from 'bull';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 
-const queuesEnabled = process.env.VERCEL !== '1';
+export const queuesEnabled = process.env.VERCEL !== '1';
 
 function createStubQueue(): Queue.Queue {
   const stub = {
@@ -55,14 +55,11 @@ if (queuesEnabled) {
     }
   });
 
-  shippingQueue.process(async (job) => {
-    try {
-      logger.info('Processing shipping job', { jobId: job.id, data: job.data });
-      logger.info('Shipping job completed', { jobId: job.id });
-    } catch (error) {
-      logger.error('Error processing shipping job', { jobId: job.id, error });
-      throw error;
-    }
+  shippingQueue.process('create-shipment', async (job) => {
+    const { shipmentCreationService } = await import('../services/shipping/shipmentCreationService');
+    const outcome = await shipmentCreationService.createForOrder(job.data.orderId, job.attemptsMade + 1);
+    logger.info('Shipment creation job completed', { jobId: job.id, orderId: job.data.orderId, outcome });
+    return outcome;
   });
 
   orderConfirmationQueue.process('send-order-confirmation', async (job) => {
@@ -155,6 +152,25 @@ if (queuesEnabled) {
     }
   });
 
+  shippingQueue.on('failed', async (job, error) => {
+    if (!job || job.name !== 'create-shipment') return;
+    const maxAttempts = job.opts.attempts ?? 1;
+    logger.warn('Shipment creation attempt failed', {
+      jobId: job.id,
+      orderId: job.data?.orderId,
+      attempt: job.attemptsMade,
+      error: error?.message,
+    });
+    if (job.attemptsMade < maxAttempts) return;
+
+    try {
+      const { shipmentCreationService } = await import('../services/shipping/shipmentCreationService');
+      await shipmentCreationService.recordFailure(job.data.orderId, null, error?.message || 'Unknown error', job.attemptsMade, false);
+    } catch (recordErr) {
+      logger.error('Failed to record shipment failure', { recordErr });
+    }
+  });
+
   shippingQueue.on('completed', (job) => {
     logger.info('Job completed', { jobId: job.id, queue: 'shipping-operations' });
   });
@@ -1,6 +1,7 @@
 import { CronJob } from 'cron';
 import { ShippingStatusChecker } from '../services/shipping/ShippingStatusChecker';
 import { logger } from '../utils/logger';
+import { runWithOrderEventContext } from '../services/orders/orderEventService';
 import { shippingQueue } from './queue';
 import { ShippingService } from '../services/shipping/ShippingService';
 
@@ -16,7 +17,9 @@ export const startShippingStatusChecker = (): void => {
     async () => {
       logger.info('Starting shipping status check job');
       try {
-        await ShippingStatusChecker.checkAndUpdateStatuses();
+        await runWithOrderEventContext({ source: 'cron', actor: 'shippingStatusChecker' }, () =>
+          ShippingStatusChecker.checkAndUpdateStatuses()
+        );
         logger.info('Completed shipping status check job');
       } catch (error) {
         logger.error('Error in shipping status check job:', error);
@@ -0,0 +1,9 @@
+import { Request } from 'express';
+
+/**
+ * Whether the dashboard sent the request as an admin.
+ * The dashboard sends X-App-Role (admin | courier) from the login cookie; requests without it are not admin.
+ */
+export function isAdminRequest(req: Request): boolean {
+  return (req.header('x-app-role') || '').trim().toLowerCase() === 'admin';
+}
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  ORDER_EVENT_SOURCES,
+  OrderEventSource,
+  runWithOrderEventContext
+} from '../services/orders/orderEventService';
+
+/**
+ * Attach the caller to every order write made while handling the request.
+ * The dashboard sends X-Order-Source (dashboard | courier_map) and X-Order-Actor (signed-in user);
+ * requests without them are recorded as the dashboard.
+ */
+export function orderEventContext(req: Request, _res: Response, next: NextFunction): void {
+  const header = (req.header('x-order-source') || '').trim().toLowerCase();
+  const source = ORDER_EVENT_SOURCES.includes(header as OrderEventSource)
+    ? (header as OrderEventSource)
+    : 'dashboard';
+  const actor = (req.header('x-order-actor') || '').trim().slice(0, 100) || undefined;
+
+  runWithOrderEventContext({ source, actor }, next);
+}
@@ -1,9 +1,18 @@
 import { Router } from 'express';
 import { FinanceController } from '../controllers/financeController';
+import { logger } from '../utils/logger';
 
 const router = Router();
 const financeController = new FinanceController();
 
+// Deprecated: served from the unified ledger behind /api/financial until removed
+router.use((req, res, next) => {
+  res.setHeader('Deprecation', 'true');
+  res.setHeader('Link', '</api/financial>; rel="successor-version"');
+  logger.warn(`Deprecated /api/finance call: ${req.method} ${req.path}`);
+  next();
+});
+
 // Expense routes
 router.post('/expenses', (req, res) => financeController.createExpense(req, res));
 router.get('/expenses', (req, res) => financeController.getExpenses(req, res));
@@ -1,20 +1,52 @@
 import { Router, Request, Response } from 'express';
+import multer from 'multer';
 import { expenseService } from '../services/financial/expenseService';
+import { productionCostService } from '../services/financial/productionCostService';
 import { shippingLedgerService } from '../services/financial/shippingLedgerService';
 import { profitEngineService } from '../services/financial/profitEngineService';
 import { financeMonthService, getShippingRecordsForMonth } from '../services/financial/financeMonthService';
 import { financeMonthSnapshotService } from '../services/financial/financeMonthSnapshotService';
+import { productMarginService } from '../services/financial/productMarginService';
+import { payoutService } from '../services/financial/payoutService';
+import { partnerSettlementService } from '../services/financial/partnerSettlementService';
+import { partnerService } from '../services/financial/partnerService';
+import { recurringExpenseService } from '../services/financial/recurringExpenseService';
+import { adSpendService } from '../services/financial/adSpendService';
+import { financeMonthCloseService } from '../services/financial/financeMonthCloseService';
+import { getOrderEventContext } from '../services/orders/orderEventService';
+import { orderEventContext } from '../middleware/orderEventContext';
+import { ExpensePaidBy, ExpensePartner, ExpenseType } from '../types/financial';
 import { isPastFinanceMonth } from '../utils/financeMonth';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+// X-Order-Actor identifies who changed the payout config, approved payouts or closed a month
+router.use(orderEventContext);
+
+function errorStatus(error: unknown): number {
+  if (error instanceof Error && error.name === 'ValidationError') return 400;
+  const statusCode = error instanceof Error ? (error as Error & { statusCode?: number }).statusCode : undefined;
+  return statusCode === 404 || statusCode === 409 ? statusCode : 500;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
 // ==================== Expenses ====================
 router.get('/expenses', async (req: Request, res: Response) => {
   try {
     const month = req.query.month as string | undefined;
     const expenseType = req.query.expense_type as string | undefined;
-    const expenses = await expenseService.getAll(month, expenseType as any);
+    const paidBy = req.query.paid_by as ExpensePaidBy | undefined;
+    const settled = req.query.settled as string | undefined;
+    const expenses = await expenseService.list({
+      month,
+      expense_type: expenseType as ExpenseType | undefined,
+      paid_by: paidBy,
+      settled: settled ? settled === 'true' : undefined,
+    });
     res.json(expenses);
   } catch (error: any) {
     logger.error('Error fetching expenses:', error);
@@ -39,9 +71,10 @@ router.post('/expenses', async (req: Request, res: Response) => {
   try {
     const expense = await expenseService.create(req.body);
     res.status(201).json(expense);
-  } catch (error: any) {
-    logger.error('Error creating expense:', error);
-    res.status(500).json({ error: error.message || 'Failed to create expense' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error creating expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to create expense') });
   }
 });
 
@@ -49,9 +82,10 @@ router.put('/expenses/:id', async (req: Request, res: Response) => {
   try {
     const expense = await expenseService.update(req.params.id, req.body);
     res.json(expense);
-  } catch (error: any) {
-    logger.error('Error updating expense:', error);
-    res.status(500).json({ error: error.message || 'Failed to update expense' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error updating expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to update expense') });
   }
 });
 
@@ -59,9 +93,357 @@ router.delete('/expenses/:id', async (req: Request, res: Response) => {
   try {
     await expenseService.delete(req.params.id);
     res.json({ success: true });
-  } catch (error: any) {
-    logger.error('Error deleting expense:', error);
-    res.status(500).json({ error: error.message || 'Failed to delete expense' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error deleting expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to delete expense') });
+  }
+});
+
+// Body: { partner } — required for shared expenses. Records a reimbursement for that partner's share
+router.patch('/expenses/:id/settle', async (req: Request, res: Response) => {
+  try {
+    res.json(await partnerSettlementService.settleExpense(req.params.id, req.body?.partner));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error settling expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to settle expense') });
+  }
+});
+
+// ==================== Recurring Expenses ====================
+router.get('/recurring-expenses', async (_req: Request, res: Response) => {
+  try {
+    res.json(await recurringExpenseService.getAll());
+  } catch (error: unknown) {
+    logger.error('Error fetching recurring expenses:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch recurring expenses') });
+  }
+});
+
+// Upcoming occurrences of the active templates; ?months= how far ahead (default 3)
+router.get('/recurring-expenses/preview', async (req: Request, res: Response) => {
+  try {
+    const months = req.query.months ? Math.min(Math.max(Number(req.query.months) || 3, 0), 24) : 3;
+    res.json(await recurringExpenseService.preview(months));
+  } catch (error: unknown) {
+    logger.error('Error previewing recurring expenses:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to preview recurring expenses') });
+  }
+});
+
+// Post due occurrences now instead of waiting for the nightly job
+router.post('/recurring-expenses/run', async (_req: Request, res: Response) => {
+  try {
+    res.json(await recurringExpenseService.materializeDue());
+  } catch (error: unknown) {
+    logger.error('Error posting recurring expenses:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to post recurring expenses') });
+  }
+});
+
+// Body: { name, category, amount, cadence?, day_of_month, start_date, end_date?, expense_type?, paid_by?, notes? }
+router.post('/recurring-expenses', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await recurringExpenseService.create(req.body));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error creating recurring expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to create recurring expense') });
+  }
+});
+
+router.put('/recurring-expenses/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await recurringExpenseService.update(req.params.id, req.body));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error updating recurring expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to update recurring expense') });
+  }
+});
+
+router.delete('/recurring-expenses/:id', async (req: Request, res: Response) => {
+  try {
+    await recurringExpenseService.delete(req.params.id);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error deleting recurring expense:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to delete recurring expense') });
+  }
+});
+
+// Body: { skip: true } or { amount?, notes? } for one occurrence (date = YYYY-MM-DD)
+router.put('/recurring-expenses/:id/occurrences/:date', async (req: Request, res: Response) => {
+  try {
+    res.json(await recurringExpenseService.setOccurrence(req.params.id, req.params.date, req.body ?? {}));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error updating recurring expense occurrence:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to update occurrence') });
+  }
+});
+
+router.delete('/recurring-expenses/:id/occurrences/:date', async (req: Request, res: Response) => {
+  try {
+    await recurringExpenseService.resetOccurrence(req.params.id, req.params.date);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error resetting recurring expense occurrence:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to reset occurrence') });
+  }
+});
+
+// ==================== Ad Spend and ROAS ====================
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+// Multipart field `file`: a Meta Ads Manager CSV/XLSX export
+router.post('/ads/import', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+    const { actor } = getOrderEventContext();
+    res.status(201).json(await adSpendService.importFile(req.file.buffer, req.file.originalname, actor));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error importing ad spend:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to import ad spend') });
+  }
+});
+
+router.get('/ads/imports', async (_req: Request, res: Response) => {
+  try {
+    res.json(await adSpendService.getImports());
+  } catch (error: unknown) {
+    logger.error('Error fetching ad spend imports:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch ad spend imports') });
+  }
+});
+
+router.delete('/ads/imports/:id', async (req: Request, res: Response) => {
+  try {
+    await adSpendService.deleteImport(req.params.id);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Error deleting ad spend import:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to delete ad spend import') });
+  }
+});
+
+router.get('/ads/discount-codes', async (_req: Request, res: Response) => {
+  try {
+    res.json(await adSpendService.getDiscountCodes());
+  } catch (error: unknown) {
+    logger.error('Error fetching ad discount codes:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch discount codes') });
+  }
+});
+
+// Body: { campaign_name }
+router.put('/ads/discount-codes/:code', async (req: Request, res: Response) => {
+  try {
+    res.json(await adSpendService.setDiscountCode(req.params.code, req.body?.campaign_name));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error saving ad discount code:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to save discount code') });
+  }
+});
+
+router.delete('/ads/discount-codes/:code', async (req: Request, res: Response) => {
+  try {
+    await adSpendService.deleteDiscountCode(req.params.code);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Error deleting ad discount code:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to delete discount code') });
+  }
+});
+
+// ?from=YYYY-MM&to=YYYY-MM — ROAS and cost per order by campaign and month
+router.get('/ads/performance', async (req: Request, res: Response) => {
+  try {
+    const to = (req.query.to as string) || (req.query.from as string);
+    const from = (req.query.from as string) || to;
+    res.json(await adSpendService.getPerformance(from, to));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error fetching ad performance:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to fetch ad performance') });
+  }
+});
+
+// ==================== Partner Settlements ====================
+router.get('/settlements', async (req: Request, res: Response) => {
+  try {
+    const partner = req.query.partner as ExpensePartner | undefined;
+    res.json(await partnerSettlementService.getAll({ partner }));
+  } catch (error: unknown) {
+    logger.error('Error fetching settlements:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch settlements') });
+  }
+});
+
+// Body: { partner, kind?, counterparty?, amount, date, expense_ids?, note? }
+// kind: reimbursement (default) | draw | contribution | transfer (to counterparty)
+router.post('/settlements', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await partnerSettlementService.create(req.body));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error creating settlement:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to create settlement') });
+  }
+});
+
+// ==================== Partners ====================
+router.get('/partners', async (req: Request, res: Response) => {
+  try {
+    res.json(await partnerService.getAll({ activeOnly: req.query.active === 'true' }));
+  } catch (error: unknown) {
+    logger.error('Error fetching partners:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch partners') });
+  }
+});
+
+// Body: { name, ownership_percent, active? }
+router.post('/partners', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await partnerService.create(req.body));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error creating partner:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to create partner') });
+  }
+});
+
+// Body: { ownership_percent?, active? }
+router.put('/partners/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await partnerService.update(req.params.id, req.body));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error updating partner:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to update partner') });
+  }
+});
+
+// Balances against ownership shares, with suggested transfers to even them out
+router.get('/partners/balances', async (_req: Request, res: Response) => {
+  try {
+    res.json(await partnerService.getBalancesReport());
+  } catch (error: unknown) {
+    logger.error('Error fetching partner balances:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch partner balances') });
+  }
+});
+
+router.get('/partners/:partner/ledger', async (req: Request, res: Response) => {
+  try {
+    res.json(await partnerService.getLedger(req.params.partner));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error fetching partner ledger:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to fetch partner ledger') });
+  }
+});
+
+router.get('/partners/:partner/balance', async (req: Request, res: Response) => {
+  try {
+    res.json(await partnerSettlementService.getBalance(req.params.partner));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error fetching partner balance:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to fetch partner balance') });
+  }
+});
+
+// ==================== Product Costs ====================
+function productCostErrorStatus(error: unknown): number {
+  if (error instanceof Error && error.name === 'ValidationError') return 400;
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'PGRST116' ? 404 : code === '23505' ? 409 : errorStatus(error);
+}
+
+function productCostErrorMessage(error: unknown, fallback: string): string {
+  const code = (error as { code?: string } | null)?.code;
+  if (code === 'PGRST116') return 'Product cost not found';
+  if (code === '23505') return 'This product already has a cost version with that effective date';
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// Cost per product in effect today (?asOf=YYYY-MM-DD for another day)
+router.get('/product-costs', async (req: Request, res: Response) => {
+  try {
+    const asOf = typeof req.query.asOf === 'string' ? req.query.asOf : undefined;
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return res.status(400).json({ error: 'asOf must be YYYY-MM-DD' });
+    }
+    const costs = await productionCostService.getAll(asOf);
+    res.json(costs);
+  } catch (error) {
+    logger.error('Error fetching product costs:', error);
+    res.status(500).json({ error: productCostErrorMessage(error, 'Failed to fetch product costs') });
+  }
+});
+
+// Every cost version of a product, newest first
+router.get('/product-costs/history/:productId', async (req: Request, res: Response) => {
+  try {
+    const versions = await productionCostService.getHistory(req.params.productId);
+    res.json(versions);
+  } catch (error) {
+    logger.error('Error fetching product cost history:', error);
+    res.status(500).json({ error: productCostErrorMessage(error, 'Failed to fetch product cost history') });
+  }
+});
+
+router.get('/product-costs/:id', async (req: Request, res: Response) => {
+  try {
+    const cost = await productionCostService.getById(req.params.id);
+    if (!cost) {
+      return res.status(404).json({ error: 'Product cost not found' });
+    }
+    res.json(cost);
+  } catch (error) {
+    logger.error('Error fetching product cost:', error);
+    res.status(500).json({ error: productCostErrorMessage(error, 'Failed to fetch product cost') });
+  }
+});
+
+// New version: { product_id, product_name, <unit costs>, effective_from? (default today) }
+router.post('/product-costs', async (req: Request, res: Response) => {
+  try {
+    const cost = await productionCostService.create(req.body || {});
+    res.status(201).json(cost);
+  } catch (error) {
+    const status = productCostErrorStatus(error);
+    if (status === 500) logger.error('Error creating product cost:', error);
+    res.status(status).json({ error: productCostErrorMessage(error, 'Failed to create product cost') });
+  }
+});
+
+// Correct an existing version in place
+router.put('/product-costs/:id', async (req: Request, res: Response) => {
+  try {
+    const cost = await productionCostService.update(req.params.id, req.body || {});
+    res.json(cost);
+  } catch (error) {
+    const status = productCostErrorStatus(error);
+    if (status === 500) logger.error('Error updating product cost:', error);
+    res.status(status).json({ error: productCostErrorMessage(error, 'Failed to update product cost') });
+  }
+});
+
+router.delete('/product-costs/:id', async (req: Request, res: Response) => {
+  try {
+    await productionCostService.delete(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    const status = productCostErrorStatus(error);
+    if (status === 500) logger.error('Error deleting product cost:', error);
+    res.status(status).json({ error: productCostErrorMessage(error, 'Failed to delete product cost') });
   }
 });
 
@@ -101,9 +483,10 @@ router.post('/shipping', async (req: Request, res: Response) => {
   try {
     const record = await shippingLedgerService.create(req.body);
     res.status(201).json(record);
-  } catch (error: any) {
-    logger.error('Error creating shipping record:', error);
-    res.status(500).json({ error: error.message || 'Failed to create shipping record' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error creating shipping record:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to create shipping record') });
   }
 });
 
@@ -111,9 +494,10 @@ router.put('/shipping/:id', async (req: Request, res: Response) => {
   try {
     const record = await shippingLedgerService.update(req.params.id, req.body);
     res.json(record);
-  } catch (error: any) {
-    logger.error('Error updating shipping record:', error);
-    res.status(500).json({ error: error.message || 'Failed to update shipping record' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error updating shipping record:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to update shipping record') });
   }
 });
 
@@ -121,9 +505,10 @@ router.delete('/shipping/:id', async (req: Request, res: Response) => {
   try {
     await shippingLedgerService.delete(req.params.id);
     res.json({ success: true });
-  } catch (error: any) {
-    logger.error('Error deleting shipping record:', error);
-    res.status(500).json({ error: error.message || 'Failed to delete shipping record' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error deleting shipping record:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to delete shipping record') });
   }
 });
 
@@ -152,10 +537,10 @@ router.post('/month/:month/calculate', async (req: Request, res: Response) => {
     }
     const bundle = await financeMonthService.calculateAndSaveMonth(month);
     res.json(bundle);
-  } catch (error: any) {
-    const msg = error?.message || 'Failed to calculate finance month';
+  } catch (error: unknown) {
+    const msg = errorMessage(error, 'Failed to calculate finance month');
     logger.error(`Error calculating finance month: ${msg}`);
-    res.status(500).json({ error: msg });
+    res.status(errorStatus(error)).json({ error: msg });
   }
 });
 
@@ -185,9 +570,10 @@ router.post('/profit/calculate', async (req: Request, res: Response) => {
     }
     const bundle = await financeMonthService.calculateAndSaveMonth(month);
     res.json(bundle.profit);
-  } catch (error: any) {
-    logger.error('Error calculating profit:', error);
-    res.status(500).json({ error: error.message || 'Failed to calculate profit' });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error calculating profit:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to calculate profit') });
   }
 });
 
@@ -234,15 +620,160 @@ router.get('/profit/cancelled-orders', async (req: Request, res: Response) => {
   }
 });
 
+// ==================== Payouts ====================
+// Config in force for ?month=YYYY-MM (default: current month)
+router.get('/payout-config', async (req: Request, res: Response) => {
+  try {
+    const config = await payoutService.getConfig(req.query.month as string | undefined);
+    if (!config) {
+      return res.status(404).json({ error: 'No payout config in force for this month' });
+    }
+    res.json(config);
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error fetching payout config:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to fetch payout config') });
+  }
+});
+
+router.get('/payout-config/history', async (_req: Request, res: Response) => {
+  try {
+    res.json(await payoutService.getConfigHistory());
+  } catch (error: unknown) {
+    logger.error('Error fetching payout config history:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch payout config history') });
+  }
+});
+
+// New config version from body.effective_from (YYYY-MM, default current month) on
+router.put('/payout-config', async (req: Request, res: Response) => {
+  try {
+    res.json(await payoutService.saveConfig(req.body, getOrderEventContext().actor));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error saving payout config:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to save payout config') });
+  }
+});
+
+router.get('/payouts', async (req: Request, res: Response) => {
+  try {
+    const month = req.query.month as string;
+    if (!month) {
+      return res.status(400).json({ error: 'Month parameter is required (YYYY-MM)' });
+    }
+    const payout = await payoutService.getPayout(month);
+    if (!payout) {
+      return res.status(404).json({ error: 'Payouts not calculated for this month' });
+    }
+    res.json(payout);
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error fetching payouts:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to fetch payouts') });
+  }
+});
+
+router.post('/payouts/calculate', async (req: Request, res: Response) => {
+  try {
+    const month = (req.query.month as string) || req.body?.month;
+    if (!month) {
+      return res.status(400).json({ error: 'Month parameter is required (YYYY-MM)' });
+    }
+    res.json(await payoutService.calculate(month));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error calculating payouts:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to calculate payouts') });
+  }
+});
+
+// Approve the draft and lock the month
+router.post('/payouts/:month/approve', async (req: Request, res: Response) => {
+  try {
+    res.json(await payoutService.approve(req.params.month, getOrderEventContext().actor));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error approving payouts:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to approve payouts') });
+  }
+});
+
+// ==================== Month Close ====================
+// Close status and the close/reopen audit trail
+router.get('/month/:month/close', async (req: Request, res: Response) => {
+  try {
+    const [close, events] = await Promise.all([
+      financeMonthCloseService.getStatus(req.params.month),
+      financeMonthCloseService.getEvents(req.params.month),
+    ]);
+    res.json({ month: req.params.month, close, events });
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error fetching month close:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to fetch month close') });
+  }
+});
+
+router.get('/month/:month/close-check', async (req: Request, res: Response) => {
+  try {
+    res.json(await financeMonthCloseService.check(req.params.month));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error checking month close:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to check month close') });
+  }
+});
+
+router.get('/month/:month/close/verify', async (req: Request, res: Response) => {
+  try {
+    res.json(await financeMonthCloseService.verify(req.params.month));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error verifying month close:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to verify month close') });
+  }
+});
+
+router.post('/month/:month/close', async (req: Request, res: Response) => {
+  try {
+    res.json(await financeMonthCloseService.close(req.params.month, getOrderEventContext().actor));
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error closing month:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to close month') });
+  }
+});
+
+// Body: { reason }
+router.post('/month/:month/reopen', async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await financeMonthCloseService.reopen(req.params.month, req.body?.reason, getOrderEventContext().actor)
+    );
+  } catch (error: unknown) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error reopening month:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to reopen month') });
+  }
+});
+
 // ==================== Dashboard Endpoints ====================
+// Per product and variant for ?month=YYYY-MM or ?from=YYYY-MM&to=YYYY-MM, with the trend vs the period before
 router.get('/dashboard/product-margins', async (req: Request, res: Response) => {
   try {
-    // This will be implemented to calculate product margins
-    // For now, return empty array
-    res.json([]);
-  } catch (error: any) {
+    const month = req.query.month as string | undefined;
+    const from = (req.query.from as string | undefined) ?? month;
+    const to = (req.query.to as string | undefined) ?? from;
+    if (!from) {
+      return res.status(400).json({ error: 'Month parameter is required (YYYY-MM), or from and to' });
+    }
+    res.json(await productMarginService.getReport(from, to));
+  } catch (error: unknown) {
     logger.error('Error fetching product margins:', error);
-    res.status(500).json({ error: error.message || 'Failed to fetch product margins' });
+    res
+      .status(error instanceof Error && error.name === 'ValidationError' ? 400 : 500)
+      .json({ error: error instanceof Error && error.message ? error.message : 'Failed to fetch product margins' });
   }
 });
 
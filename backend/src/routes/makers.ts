@@ -0,0 +1,129 @@
+import express, { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { makerService } from '../services/orders/makerService';
+import { getOrderEventContext } from '../services/orders/orderEventService';
+import { orderEventContext } from '../middleware/orderEventContext';
+
+const router = express.Router();
+
+// X-Order-Actor identifies who posted a labor statement
+router.use(orderEventContext);
+
+function errorStatus(error: unknown): number {
+  if (error instanceof Error && error.name === 'ValidationError') return 400;
+  const statusCode = error instanceof Error ? (error as Error & { statusCode?: number }).statusCode : undefined;
+  return statusCode === 404 || statusCode === 409 ? statusCode : 500;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// Active makers (?includeInactive=1 for all)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const makers = await makerService.list(req.query.includeInactive === '1');
+    res.set('Cache-Control', 'no-store');
+    res.json({ makers });
+  } catch (error) {
+    logger.error('Error fetching makers:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch makers') });
+  }
+});
+
+// { name, phone?, default_rate_per_unit? }
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const maker = await makerService.create(req.body || {});
+    res.status(201).json({ maker });
+  } catch (error) {
+    logger.error('Error creating maker:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to create maker') });
+  }
+});
+
+// Line item assignments: ?orderIds=1,2,3, or every in-production assignment
+router.get('/assignments', async (req: Request, res: Response) => {
+  try {
+    const orderIds = typeof req.query.orderIds === 'string'
+      ? req.query.orderIds.split(',').map(Number).filter(Number.isSafeInteger)
+      : undefined;
+    const assignments = await makerService.getAssignments(orderIds);
+    res.set('Cache-Control', 'no-store');
+    res.json({ assignments });
+  } catch (error) {
+    logger.error('Error fetching maker assignments:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch maker assignments') });
+  }
+});
+
+// Assign a line item: { orderName, lineItemKey, title, variantTitle?, productId?, quantity, makerId | null }
+router.put('/assignments/:orderId', async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    const assignment = await makerService.assign({
+      orderId: Number(req.params.orderId),
+      orderName: String(body.orderName || ''),
+      lineItemKey: String(body.lineItemKey || ''),
+      title: String(body.title || ''),
+      variantTitle: body.variantTitle ?? null,
+      productId: body.productId ?? null,
+      quantity: Number(body.quantity),
+      makerId: body.makerId ? String(body.makerId) : null,
+    });
+    res.json({ assignment });
+  } catch (error) {
+    logger.error('Error assigning maker:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to assign maker') });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const maker = await makerService.update(req.params.id, req.body || {});
+    res.json({ maker });
+  } catch (error) {
+    logger.error('Error updating maker:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to update maker') });
+  }
+});
+
+// The maker's open work, earliest due first
+router.get('/:id/queue', async (req: Request, res: Response) => {
+  try {
+    const items = await makerService.getQueue(req.params.id);
+    res.set('Cache-Control', 'no-store');
+    res.json({ items });
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to fetch maker queue') });
+  }
+});
+
+// Monthly labor statement: ?month=YYYY-MM
+router.get('/:id/statement', async (req: Request, res: Response) => {
+  try {
+    const statement = await makerService.getStatement(req.params.id, String(req.query.month || ''));
+    res.set('Cache-Control', 'no-store');
+    res.json(statement);
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to build labor statement') });
+  }
+});
+
+// Post the statement as a Production Labor expense: { month }
+router.post('/:id/statement/post', async (req: Request, res: Response) => {
+  try {
+    const result = await makerService.postStatement(
+      req.params.id,
+      String(req.body?.month || ''),
+      getOrderEventContext().actor
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error posting labor statement:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to post labor statement') });
+  }
+});
+
+export default router;
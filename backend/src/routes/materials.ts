@@ -0,0 +1,164 @@
+import express, { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { materialService } from '../services/orders/materialService';
+import { MaterialLineItem } from '../utils/materialsInventory';
+import { getOrderEventContext } from '../services/orders/orderEventService';
+import { orderEventContext } from '../middleware/orderEventContext';
+
+const router = express.Router();
+
+// X-Order-Actor identifies who recorded a purchase or stock count
+router.use(orderEventContext);
+
+function errorStatus(error: unknown): number {
+  if (error instanceof Error && error.name === 'ValidationError') return 400;
+  const statusCode = error instanceof Error ? (error as Error & { statusCode?: number }).statusCode : undefined;
+  return statusCode === 404 ? statusCode : 500;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// Materials catalog (?includeInactive=1 for all)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const materials = await materialService.list(req.query.includeInactive === '1');
+    res.set('Cache-Control', 'no-store');
+    res.json({ materials });
+  } catch (error) {
+    logger.error('Error fetching materials:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch materials') });
+  }
+});
+
+// { name, kind, color?, weight?, unit, low_stock_threshold?, unit_cost? }
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const material = await materialService.create(req.body || {});
+    res.status(201).json({ material });
+  } catch (error) {
+    logger.error('Error creating material:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to create material') });
+  }
+});
+
+// Products and variants from recent orders, for the BOM editor
+router.get('/products', async (_req: Request, res: Response) => {
+  try {
+    const products = await materialService.listProducts();
+    res.json({ products });
+  } catch (error) {
+    logger.error('Error listing products for BOMs:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to list products') });
+  }
+});
+
+// Bills of materials (?productId= for one product)
+router.get('/boms', async (req: Request, res: Response) => {
+  try {
+    const productId = typeof req.query.productId === 'string' ? req.query.productId : undefined;
+    const boms = await materialService.getBoms(productId);
+    res.set('Cache-Control', 'no-store');
+    res.json({ boms });
+  } catch (error) {
+    logger.error('Error fetching BOMs:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch bills of materials') });
+  }
+});
+
+// Replace a BOM: { variantId?: string | null, lines: [{ material_id, quantity_per_unit }] }
+router.put('/boms/:productId', async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    const boms = await materialService.setBom(
+      req.params.productId,
+      body.variantId ? String(body.variantId) : null,
+      Array.isArray(body.lines) ? body.lines : []
+    );
+    res.json({ boms });
+  } catch (error) {
+    logger.error('Error saving BOM:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to save bill of materials') });
+  }
+});
+
+// Can these line items be made from available stock? { lineItems: [{ title, variant_title, quantity, product_id, variant_id }] }
+router.post('/availability', async (req: Request, res: Response) => {
+  try {
+    const lineItems: MaterialLineItem[] = Array.isArray(req.body?.lineItems)
+      ? req.body.lineItems
+          .map((item: Record<string, unknown>) => ({
+            title: String(item.title || ''),
+            variant_title: typeof item.variant_title === 'string' ? item.variant_title : null,
+            quantity: Number(item.quantity),
+            product_id: item.product_id ? String(item.product_id) : null,
+            variant_id: item.variant_id ? String(item.variant_id) : null,
+          }))
+          .filter((item: MaterialLineItem) => Number.isFinite(item.quantity) && item.quantity > 0)
+      : [];
+    const availability = await materialService.checkAvailability(lineItems);
+    res.set('Cache-Control', 'no-store');
+    res.json(availability);
+  } catch (error) {
+    logger.error('Error checking material availability:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to check material availability') });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const material = await materialService.update(req.params.id, req.body || {});
+    res.json({ material });
+  } catch (error) {
+    logger.error('Error updating material:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to update material') });
+  }
+});
+
+// Latest stock movements for a material
+router.get('/:id/movements', async (req: Request, res: Response) => {
+  try {
+    const movements = await materialService.getMovements(req.params.id);
+    res.set('Cache-Control', 'no-store');
+    res.json({ movements });
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to fetch stock movements') });
+  }
+});
+
+// Purchase receipt, recorded as a production expense: { quantity, amount, date, notes? }
+router.post('/:id/purchases', async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    const result = await materialService.recordPurchase(
+      req.params.id,
+      { quantity: Number(body.quantity), amount: Number(body.amount), date: String(body.date || ''), notes: body.notes },
+      getOrderEventContext().actor
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error recording material purchase:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to record purchase') });
+  }
+});
+
+// Stock count: { counted, notes? }
+router.post('/:id/count', async (req: Request, res: Response) => {
+  try {
+    const material = await materialService.countStock(
+      req.params.id,
+      Number(req.body?.counted),
+      req.body?.notes,
+      getOrderEventContext().actor
+    );
+    res.json({ material });
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) logger.error('Error recording stock count:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to record stock count') });
+  }
+});
+
+export default router;
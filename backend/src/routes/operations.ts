@@ -0,0 +1,38 @@
+import express, { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { bulkOperationService } from '../services/orders/bulkOperationService';
+import { orderEventContext } from '../middleware/orderEventContext';
+
+const router = express.Router();
+
+// Reverts are order writes; record who undid what
+router.use(orderEventContext);
+
+// List recent bulk operations (newest first)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20'), 10) || 20, 1), 100);
+    const operations = await bulkOperationService.list(limit);
+    res.set('Cache-Control', 'no-store');
+    res.json({ operations });
+  } catch (error) {
+    logger.error('Error fetching bulk operations:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to fetch bulk operations' });
+  }
+});
+
+// Undo a bulk operation: restore each order's tags from the snapshot
+router.post('/:id/revert', async (req: Request, res: Response) => {
+  try {
+    const result = await bulkOperationService.revert(req.params.id, { force: req.body?.force === true });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof Error && (error as Error & { statusCode?: number }).statusCode === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    logger.error('Error reverting bulk operation:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to revert bulk operation' });
+  }
+});
+
+export default router;
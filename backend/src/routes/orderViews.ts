@@ -0,0 +1,96 @@
+import express, { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { orderViewService } from '../services/orders/orderViewService';
+import { getOrderEventContext } from '../services/orders/orderEventService';
+import { orderEventContext } from '../middleware/orderEventContext';
+
+const router = express.Router();
+
+// The dashboard identifies the signed-in user with X-Order-Actor (per-user default view)
+router.use(orderEventContext);
+
+function errorStatus(error: unknown): number {
+  if (error instanceof Error && error.name === 'ValidationError') return 400;
+  if (error instanceof Error && (error as Error & { statusCode?: number }).statusCode === 404) return 404;
+  return 500;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// List saved views and the caller's default
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const actor = getOrderEventContext().actor;
+    const [views, defaultViewId] = await Promise.all([
+      orderViewService.list(),
+      actor ? orderViewService.getDefaultViewId(actor) : Promise.resolve(null),
+    ]);
+    res.set('Cache-Control', 'no-store');
+    res.json({ views, defaultViewId });
+  } catch (error) {
+    logger.error('Error fetching order views:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch order views') });
+  }
+});
+
+// Set or clear (viewId: null) the caller's default view
+router.put('/default', async (req: Request, res: Response) => {
+  try {
+    const actor = getOrderEventContext().actor;
+    if (!actor) {
+      return res.status(400).json({ error: 'X-Order-Actor header is required' });
+    }
+    const viewId = req.body?.viewId ? String(req.body.viewId) : null;
+    await orderViewService.setDefaultView(actor, viewId);
+    res.json({ success: true, defaultViewId: viewId });
+  } catch (error) {
+    logger.error('Error setting default order view:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to set default order view') });
+  }
+});
+
+// Get one view (shared links: /orders?view=<id>)
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const view = await orderViewService.get(req.params.id);
+    res.json({ view });
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to fetch order view') });
+  }
+});
+
+// Create a view: { name, filters: { status, search?, quickFilters }, pinned? }
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const view = await orderViewService.create(req.body || {}, getOrderEventContext().actor);
+    res.status(201).json({ view });
+  } catch (error) {
+    logger.error('Error creating order view:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to create order view') });
+  }
+});
+
+// Rename, replace filters or pin/unpin
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const view = await orderViewService.update(req.params.id, req.body || {});
+    res.json({ view });
+  } catch (error) {
+    logger.error('Error updating order view:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to update order view') });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await orderViewService.delete(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting order view:', error);
+    res.status(errorStatus(error)).json({ error: errorMessage(error, 'Failed to delete order view') });
+  }
+});
+
+export default router;
@@ -3,23 +3,54 @@ import multer from 'multer';
 import xlsx from 'xlsx';
 import { ShopifyOrder, ShopifyService } from '../services/shopify';
 import { logger } from '../utils/logger';
-import { stripTagsForBulkPaidFulfillment } from '../utils/orderWorkflowStatusTags';
+import {
+  getOrderWorkflowStatusFromTags,
+  OrderWorkflowStatus,
+  readOrderWorkflowState
+} from '../utils/orderWorkflowState';
+import { parseOrderTags } from '../utils/financeMonth';
+import { normalizeOrderStatus, OrderStatusTransitionError } from '../utils/orderStatusTransitions';
+import {
+  applyOrderListQuery,
+  hasOrderListQueryParams,
+  OrderListStatusView,
+  parseOrderListQuery,
+} from '../utils/orderListQuery';
 // REMOVED: Mylerz-specific location tags import (no longer used)
 // import { addLocationTags } from '../services/shopify';
 import { shopifyService } from '../services/shopify';
-import { OrderConfirmationService } from '../services/orderConfirmation.service';
 import { WhatsAppService } from '../services/whatsapp';
 import { AxiosError } from 'axios';
 import { discordNotificationService } from '../services/discordNotifications';
-import {
-  fulfilledReviewMessaging,
-  tagsIncludeCancelledAfterShipping,
-  tagsIncludeFulfilled
-} from '../services/fulfilledReviewMessaging.service';
+import { OrderMirrorQuery, orderMirrorService } from '../services/orders/orderMirrorService';
+import { orderStatusService } from '../services/orders/orderStatusService';
+import { orderEventService } from '../services/orders/orderEventService';
+import { bulkOperationService } from '../services/orders/bulkOperationService';
+import { financeMonthCloseService } from '../services/financial/financeMonthCloseService';
+import { orderEventContext } from '../middleware/orderEventContext';
+import { isAdminRequest } from '../middleware/appRole';
+import { fulfilledReviewMessaging } from '../services/fulfilledReviewMessaging.service';
 
 const router = express.Router();
+const OVERRIDE_FORBIDDEN = 'Only admins can override the order status rules';
 const shopifyServiceInstance = new ShopifyService();
-const orderConfirmationService = OrderConfirmationService.getInstance();
+
+// Record who made each order change (order_events)
+router.use(orderEventContext);
+
+/** Memoized closed-month lookup for bulk operations touching many orders. */
+function closedMonthLookup(): (month: string | undefined) => Promise<boolean> {
+  const cache = new Map<string, Promise<boolean>>();
+  return (month) => {
+    if (!month) return Promise.resolve(false);
+    let closed = cache.get(month);
+    if (!closed) {
+      closed = financeMonthCloseService.isClosed(month);
+      cache.set(month, closed);
+    }
+    return closed;
+  };
+}
 
 // Configure multer for file upload
 const upload = multer({ storage: multer.memoryStorage() });
@@ -33,8 +64,9 @@ function invalidateCourierMapCache(): void {
 }
 
 /** Default admin list: pipeline orders only (no terminal tags). */
-const ACTIVE_ORDERS_QUERY =
-  'status:any NOT tag:cancelled NOT tag:deleted NOT tag:fulfilled';
+const ACTIVE_ORDERS_FILTER: OrderMirrorQuery = {
+  withoutTags: ['cancelled', 'deleted', 'fulfilled'],
+};
 
 type OrdersListScope = 'active' | 'all' | 'fulfilled' | 'cancelled';
 
@@ -44,21 +76,39 @@ function resolveOrdersListScope(raw: unknown): OrdersListScope {
   return 'active';
 }
 
-function ordersQueryForScope(scope: OrdersListScope): string {
+function ordersFilterForScope(scope: OrdersListScope): OrderMirrorQuery {
   switch (scope) {
     case 'all':
-      return 'status:any';
+      return {};
     case 'fulfilled':
-      return 'tag:fulfilled NOT tag:deleted';
+      return { withTags: ['fulfilled'], withoutTags: ['deleted'] };
     case 'cancelled':
-      return 'tag:cancelled NOT tag:deleted';
+      return { withTags: ['cancelled'], withoutTags: ['deleted'] };
     case 'active':
     default:
-      return ACTIVE_ORDERS_QUERY;
+      return ACTIVE_ORDERS_FILTER;
   }
 }
 
-// Get all orders with optional filters
+/** Narrowest mirror read for a list status view (the rest is filtered in memory). */
+function ordersFilterForStatusView(status: OrderListStatusView): OrderMirrorQuery {
+  switch (status) {
+    case 'fulfilled':
+      return { withTags: ['fulfilled'], withoutTags: ['deleted', 'paid'] };
+    case 'paid':
+      return { withTags: ['paid'], withoutTags: ['deleted'] };
+    case 'cancelled':
+      return { withTags: ['cancelled'], withoutTags: ['deleted'] };
+    case 'all':
+      return { withoutTags: ['deleted'] };
+    default:
+      return ACTIVE_ORDERS_FILTER;
+  }
+}
+
+// Get all orders with optional filters.
+// With list params (status, q, facets, sort, cursor, limit) returns one page:
+// { orders, nextCursor, total, facets }; without them, the whole scope as an array.
 router.get('/', async (req: Request, res: Response) => {
   try {
     // Disable caching for dynamic orders data to ensure fresh responses
@@ -67,20 +117,45 @@ router.get('/', async (req: Request, res: Response) => {
     });
 
     const scope = resolveOrdersListScope(req.query.scope);
-    const ordersQuery = ordersQueryForScope(scope);
+
+    if (hasOrderListQueryParams(req.query)) {
+      let listQuery;
+      try {
+        listQuery = parseOrderListQuery(req.query);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid list query' });
+      }
+
+      const filter = req.query.scope ? ordersFilterForScope(scope) : ordersFilterForStatusView(listQuery.status);
+      const orders = await orderMirrorService.getOrders({
+        ...filter,
+        created_at_min: req.query.created_at_min as string,
+        created_at_max: req.query.created_at_max as string,
+      });
+      const page = applyOrderListQuery(orders, listQuery);
+      logger.info(`[GET /api/orders] Returning ${page.orders.length} of ${page.total} orders`, {
+        status: listQuery.status,
+        q: listQuery.q,
+        sort: listQuery.sort,
+        cursor: !!listQuery.cursor,
+      });
+      return res.json(page);
+    }
+
+    const filter = ordersFilterForScope(scope);
 
     logger.info(`[GET /api/orders] Fetching orders`, {
       scope,
-      ordersQuery,
+      filter,
       created_at_min: req.query.created_at_min,
       created_at_max: req.query.created_at_max,
     });
-    const orders = await shopifyServiceInstance.getOrders({
-      ordersQuery,
+    const orders = await orderMirrorService.getOrders({
+      ...filter,
       created_at_min: req.query.created_at_min as string,
       created_at_max: req.query.created_at_max as string,
     });
-    logger.info(`[GET /api/orders] Successfully fetched ${orders.length} orders from Shopify (scope=${scope})`);
+    logger.info(`[GET /api/orders] Successfully fetched ${orders.length} orders (scope=${scope})`);
     console.log(`[GET /api/orders] Total orders returned: ${orders.length} (scope=${scope})`);
     res.json(orders);
   } catch (error) {
@@ -103,11 +178,11 @@ router.get('/courier-map', async (req: Request, res: Response) => {
       return;
     }
 
-    logger.info('[GET /api/orders/courier-map] Fetching from Shopify');
-    const orders = await shopifyServiceInstance.getOrders({
-      ordersQuery: 'tag:courier_assigned NOT tag:marked NOT tag:mark',
+    logger.info('[GET /api/orders/courier-map] Fetching courier orders');
+    const orders = await orderMirrorService.getOrders({
+      withTags: ['courier_assigned'],
+      withoutTags: ['marked', 'mark'],
       limit: 55,
-      lineItemsFirst: 25,
     });
     courierMapCache = { orders, expiresAt: now + COURIER_MAP_CACHE_TTL_MS };
     logger.info(`[GET /api/orders/courier-map] Returning ${orders.length} orders (cached ${COURIER_MAP_CACHE_TTL_MS}ms)`);
@@ -131,27 +206,22 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Helper function to determine current status from tags
-function getCurrentStatusFromTags(tags: string[] | string | null | undefined): string {
-  if (!tags) return 'pending';
-  
-  const tagArray = Array.isArray(tags)
-    ? tags.map((t: string) => t.trim().toLowerCase())
-    : typeof tags === 'string'
-      ? tags.split(',').map((t: string) => t.trim().toLowerCase())
-      : [];
-
-  if (tagArray.includes('cancelled')) return 'cancelled';
-  if (tagArray.includes('paid')) return 'paid';
-  if (tagArray.includes('fulfilled')) return 'fulfilled';
-  if (tagArray.includes('shipped')) return 'shipped';
-  // Check for both ready_to_ship and ready-to-ship variations
-  if (tagArray.includes('ready_to_ship') || tagArray.includes('ready-to-ship')) return 'ready_to_ship';
-  if (tagArray.includes('customer_confirmed')) return 'customer_confirmed';
-  if (tagArray.includes('on_hold')) return 'on_hold';
-  if (tagArray.includes('order_ready')) return 'order_ready';
-  return 'pending';
-}
+// Change history for an order (order_events audit log), newest first
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const orderId = Number(req.params.id);
+    if (!Number.isFinite(orderId)) {
+      return res.status(400).json({ error: 'Invalid order id' });
+    }
+    const limit = Math.min(Number(req.query.limit) || 100, 500);
+    const events = await orderEventService.getHistory(orderId, limit);
+    res.set('Cache-Control', 'no-store');
+    res.json({ events });
+  } catch (error) {
+    logger.error('Error fetching order history:', error);
+    res.status(500).json({ error: 'Failed to fetch order history' });
+  }
+});
 
 function hasDeliveredMarkTag(tags: string[] | string | null | undefined): boolean {
   if (!tags) return false;
@@ -169,7 +239,7 @@ function hasDeliveredMarkTag(tags: string[] | string | null | undefined): boolea
 // Bulk update order status
 router.put('/bulk/status', async (req: Request, res: Response) => {
   try {
-    const { orderIds, status } = req.body;
+    const { orderIds, status, override } = req.body;
     
     if (!Array.isArray(orderIds) || orderIds.length === 0) {
       return res.status(400).json({ error: 'orderIds must be a non-empty array' });
@@ -179,68 +249,57 @@ router.put('/bulk/status', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'status is required' });
     }
     
-    // Normalize incoming status values (trimmed and case-insensitive)
-    let normalizedStatus: string = status.toString().trim();
-    const statusLower = normalizedStatus.toLowerCase();
-    if (statusLower === 'confirmed') normalizedStatus = 'customer_confirmed';
-    else if (statusLower === 'fulfill') normalizedStatus = 'fulfilled';
-    else if (statusLower === 'order-ready') normalizedStatus = 'order_ready';
-    else if (statusLower === 'ready-to-ship') normalizedStatus = 'ready_to_ship';
+    const normalizedStatus = normalizeOrderStatus(status.toString().split(',')[0]);
+    if (!normalizedStatus) {
+      return res.status(400).json({ error: `Unknown order status "${status}"` });
+    }
+    
+    if (override === true && !isAdminRequest(req)) {
+      return res.status(403).json({ error: OVERRIDE_FORBIDDEN });
+    }
     
     const results = {
       successful: [] as number[],
-      failed: [] as Array<{ orderId: number; error: string }>
+      failed: [] as Array<{
+        orderId: number;
+        error: string;
+        from?: OrderWorkflowStatus;
+        to?: OrderWorkflowStatus;
+      }>
     };
     
-    // Get all orders before update to determine previous statuses
-    const ordersBefore = await Promise.allSettled(
-      orderIds.map((id: number) => shopifyServiceInstance.getOrder(Number(id)))
-    );
-    
-    // Determine previous status (use first successful order's status as reference)
-    let previousStatus = 'pending';
-    const successfulOrdersBefore = ordersBefore
-      .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-      .map(result => result.value);
-    
-    if (successfulOrdersBefore.length > 0) {
-      previousStatus = getCurrentStatusFromTags(successfulOrdersBefore[0].tags);
-    }
-    
+    // Previous status for the bulk notification (first successfully moved order)
+    let previousStatus: OrderWorkflowStatus | null = null;
     const orderNames: string[] = [];
     
-    // Update each order
+    // Snapshot of prior tags so the whole run can be undone
+    const operation = bulkOperationService.start(
+      'bulk_status',
+      `Bulk status → ${normalizedStatus} (${orderIds.length} orders)`
+    );
+    
+    // Update each order; illegal moves are reported per order instead of failing the batch
     let reviewBulkIndex = 0;
-    for (let i = 0; i < orderIds.length; i++) {
-      const orderId = Number(orderIds[i]);
-      const orderBeforeResult = ordersBefore[i];
-      
+    for (const rawId of orderIds) {
+      const orderId = Number(rawId);
       try {
-        // Get previous status for this specific order
-        let orderPreviousStatus = 'pending';
-        if (orderBeforeResult.status === 'fulfilled') {
-          orderPreviousStatus = getCurrentStatusFromTags(orderBeforeResult.value.tags);
-          orderNames.push(orderBeforeResult.value.name);
-        }
-        
-        await shopifyServiceInstance.updateOrderStatus(orderId, normalizedStatus, orderPreviousStatus);
+        const event = await orderStatusService.transition(orderId, status.toString(), {
+          override: override === true,
+          notify: false,
+          bulkIndex: reviewBulkIndex
+        });
+        operation.track({ id: orderId, name: event.orderName }, event.tagsBefore, event.tagsAfter);
         results.successful.push(orderId);
-
-        if (
-          normalizedStatus === 'fulfilled' &&
-          orderBeforeResult.status === 'fulfilled' &&
-          !tagsIncludeFulfilled(orderBeforeResult.value.tags)
-        ) {
-          await fulfilledReviewMessaging.scheduleReviewForOrder({
-            orderId,
-            bulkIndex: reviewBulkIndex
-          });
+        orderNames.push(event.orderName);
+        previousStatus = previousStatus ?? event.from;
+        if (event.to === 'fulfilled' && event.from !== 'fulfilled') {
           reviewBulkIndex += 1;
         }
       } catch (error: any) {
         results.failed.push({
           orderId,
-          error: error.message || 'Unknown error'
+          error: error.message || 'Unknown error',
+          ...(error instanceof OrderStatusTransitionError ? { from: error.from, to: error.to } : {})
         });
       }
     }
@@ -249,7 +308,7 @@ router.put('/bulk/status', async (req: Request, res: Response) => {
     if (results.successful.length > 0 && orderNames.length > 0) {
       discordNotificationService.notifyBulkStatusChange({
         orderCount: results.successful.length,
-        previousStatus,
+        previousStatus: previousStatus ?? 'pending',
         newStatus: normalizedStatus,
         orderNames
       }).catch(err => {
@@ -257,11 +316,14 @@ router.put('/bulk/status', async (req: Request, res: Response) => {
       });
     }
     
+    const operationId = await operation.commit();
+    
     res.json({
       success: true,
       successful: results.successful.length,
       failed: results.failed.length,
-      details: results
+      details: results,
+      operationId
     });
   } catch (error) {
     logger.error('Error bulk updating order status:', error);
@@ -273,50 +335,34 @@ router.put('/bulk/status', async (req: Request, res: Response) => {
 router.put('/:id/status', async (req: Request, res: Response) => {
   try {
     const orderId = Number(req.params.id);
-    
-    // Get order before update to determine previous status
-    const orderBefore = await shopifyServiceInstance.getOrder(orderId);
-    const previousStatus = getCurrentStatusFromTags(orderBefore.tags);
-    
-    // Normalize incoming status values from frontend (trimmed and case-insensitive)
-    let status: string = (req.body.status || '').toString().trim();
-    const statusLower = status.toLowerCase();
-    if (statusLower === 'confirmed') status = 'customer_confirmed';
-    else if (statusLower === 'fulfill') status = 'fulfilled';
-    else if (statusLower === 'order-ready') status = 'order_ready';
-    else if (statusLower === 'ready-to-ship') status = 'ready_to_ship';
+    const status: string = (req.body.status || '').toString().trim();
     
     logger.info('Updating order status', {
       orderId,
-      previousStatus,
       incomingStatus: req.body.status,
-      normalizedStatus: status
+      override: req.body.override === true
     });
     
-    // Update the order status (pass previous status to check for ready_to_ship -> shipped transition)
-    await shopifyServiceInstance.updateOrderStatus(orderId, status, previousStatus);
-    
-    if (status === 'fulfilled' && !tagsIncludeFulfilled(orderBefore.tags)) {
-      await fulfilledReviewMessaging.scheduleReviewForOrder({ orderId });
+    if (req.body.override === true && !isAdminRequest(req)) {
+      return res.status(403).json({ error: OVERRIDE_FORBIDDEN });
     }
     
-    // Get updated order for notification
-    const orderAfter = await shopifyServiceInstance.getOrder(orderId);
-    
-    // Send Discord notification (non-blocking)
-    discordNotificationService.notifyOrderStatusChange({
-      orderId: orderAfter.id,
-      orderName: orderAfter.name,
-      customerName: `${orderAfter.customer?.first_name || ''} ${orderAfter.customer?.last_name || ''}`.trim() || 'N/A',
-      previousStatus,
-      newStatus: status
-    }).catch(err => {
-      logger.error('Failed to send Discord notification', err);
-      // Don't fail the request if notification fails
+    await orderStatusService.transition(orderId, status, {
+      override: req.body.override === true
     });
     
     res.json({ success: true });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof OrderStatusTransitionError) {
+      return res.status(409).json({ error: error.message, from: error.from, to: error.to });
+    }
+    // Closed finance month
+    if (error?.name === 'ConflictError') {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error?.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
     logger.error('Error updating order status:', error);
     res.status(500).json({ error: 'Failed to update order status' });
   }
@@ -448,6 +494,7 @@ router.post('/upload-paid-orders', upload.single('file'), async (req: Request, r
     // Get today's date in YYYY-MM-DD format
     const today = new Date();
     const formattedDate = today.toISOString().split('T')[0];
+    let reviewBulkIndex = 0;
 
     // Process each valid row
     for (const row of validRows) {
@@ -469,13 +516,27 @@ router.post('/upload-paid-orders', upload.single('file'), async (req: Request, r
         const matchingOrder = await shopifyServiceInstance.findOrderByBarcode(barcode);
         
         if (matchingOrder) {
-          // Use current date for payment_date tag
-          const paymentDateTag = `payment_date:${formattedDate}`.trim();
+          // Use current date for paid_date tag (read by finance month reports)
+          const paymentDateTag = `paid_date:${formattedDate}`.trim();
           
           try {
-            // Update order with paid status and payment date
-            await shopifyServiceInstance.updateOrderStatus(matchingOrder.id, 'paid');
-            await shopifyServiceInstance.addOrderTag(matchingOrder.id, paymentDateTag);
+            // Like the shipping cost import: the courier paid for the parcel, so the order is
+            // settled whatever stage it was left in (e.g. the status checker has not caught up)
+            const context = { source: 'payment_import' as const, actor: 'Courier payment upload' };
+            let current: ShopifyOrder = matchingOrder;
+            const status = getOrderWorkflowStatusFromTags(matchingOrder.tags);
+            if (status !== 'fulfilled' && status !== 'paid') {
+              const fulfilled = await orderStatusService.transition(current, 'fulfilled', {
+                ...context,
+                override: true,
+                notify: false,
+                bulkIndex: reviewBulkIndex,
+                extraTags: [`fulfillment_date:${formattedDate}`]
+              });
+              current = { ...current, tags: fulfilled.tagsAfter };
+              reviewBulkIndex += 1;
+            }
+            await orderStatusService.transition(current, `paid,${paymentDateTag}`, { ...context, override: true });
             
             results.updated++;
           } catch (updateError) {
@@ -483,7 +544,9 @@ router.post('/upload-paid-orders', upload.single('file'), async (req: Request, r
             results.failedTransfers.push({
               customerName: matchingOrder.customer?.first_name || 'N/A',
               customerPhone: matchingOrder.customer?.phone || 'N/A',
-              reason: 'Failed to update order status'
+              reason: updateError instanceof OrderStatusTransitionError
+                ? updateError.message
+                : 'Failed to update order status'
             });
             logger.error('Error updating order status:', updateError);
           }
@@ -576,7 +639,9 @@ router.put('/:id/tags', async (req: Request, res: Response) => {
     const reviewBulkIndex =
       typeof req.body.reviewBulkIndex === 'number' ? req.body.reviewBulkIndex : undefined;
 
-    await shopifyServiceInstance.updateOrderTags(orderId, newTags);
+    await shopifyServiceInstance.updateOrderTags(orderId, newTags, {
+      tagsBefore: parseOrderTags(orderBefore.tags)
+    });
     invalidateCourierMapCache();
 
     await fulfilledReviewMessaging.scheduleIfNewlyFulfilled({
@@ -625,19 +690,34 @@ router.post('/bulk-import-shipping-costs', async (req: Request, res: Response) =
       return res.status(400).json({ error: 'Transaction date is required' });
     }
 
+    const transactionMonth = String(transactionDate).substring(0, 7);
+    const isMonthClosed = closedMonthLookup();
+    if (await isMonthClosed(transactionMonth)) {
+      return res.status(409).json({
+        error: `${transactionMonth} is closed — reopen it before importing shipping costs into it`,
+      });
+    }
+
     // orderIdMappings is optional: { orderNumber: orderId }
     const orderIdMap = orderIdMappings || {};
 
     // Get all orders to match by order number (no limit to fetch all orders)
-    logger.info(`Bulk import: Fetching all orders from Shopify...`);
-    const allOrders = await shopifyServiceInstance.getOrders({});
-    logger.info(`Bulk import: Fetched ${allOrders.length} orders from Shopify`);
+    logger.info(`Bulk import: Fetching all orders...`);
+    const allOrders = await orderMirrorService.getOrders();
+    logger.info(`Bulk import: Fetched ${allOrders.length} orders`);
     
     const results = {
       successful: [] as Array<{ orderId: number; orderName: string; cost: number }>,
       failed: [] as Array<{ orderNumber: string; reason: string }>,
+      // Already-paid orders whose paid_date moves to another (open) month
+      movedMonth: [] as Array<{ orderId: number; orderName: string; fromMonth: string; toMonth: string }>,
     };
 
+    const operation = bulkOperationService.start(
+      'bulk_shipping_cost_import',
+      `Shipping cost import for ${transactionDate} (${entries.length} entries)`
+    );
+
     // Process each entry
     let reviewBulkIndex = 0;
     for (const entry of entries) {
@@ -690,22 +770,15 @@ router.post('/bulk-import-shipping-costs', async (req: Request, res: Response) =
             ? order.tags.split(',').map((t: string) => t.trim())
             : [];
 
-        // Remove old cost/paid/fulfillment tags and shipment workflow tags (shipped, shipped_date, etc.)
-        const filteredTags = stripTagsForBulkPaidFulfillment(
-          existingTags.filter((tag: string) => {
-            const trimmedTag = tag.trim().toLowerCase();
-            return (
-              !trimmedTag.startsWith('shipping_company_cost:') &&
-              !trimmedTag.startsWith('shipping_company_cost_date:') &&
-              trimmedTag !== 'paid' &&
-              !trimmedTag.startsWith('paid_date:') &&
-              trimmedTag !== 'fulfilled' &&
-              !trimmedTag.startsWith('fulfillment_date:') &&
-              !trimmedTag.startsWith('fulfilled_at:') &&
-              trimmedTag !== 'priority'
-            );
-          })
-        );
+        // A late invoice must not silently move an order out of a month that was already reported
+        const previousMonth = readOrderWorkflowState(existingTags).paidDate?.substring(0, 7);
+        if (previousMonth && previousMonth !== transactionMonth && (await isMonthClosed(previousMonth))) {
+          results.failed.push({
+            orderNumber,
+            reason: `Paid in closed month ${previousMonth} — reopen it first`,
+          });
+          continue;
+        }
 
         // Store the parsed carrier cost as-is (no VAT markup)
         const parsedCost = parseFloat(String(cost));
@@ -718,32 +791,44 @@ router.post('/bulk-import-shipping-costs', async (req: Request, res: Response) =
         }
         const formattedCost = parsedCost.toFixed(2);
 
-        filteredTags.push(`shipping_company_cost:${formattedCost}`);
-        filteredTags.push(`shipping_company_cost_date:${transactionDate}`);
-        filteredTags.push('paid');
-        filteredTags.push(`paid_date:${transactionDate}`);
-        filteredTags.push('fulfilled');
-        filteredTags.push(`fulfillment_date:${transactionDate}`);
-
-        // Update order tags
-        await shopifyServiceInstance.updateOrderTags(order.id.toString(), filteredTags);
-
-        if (
-          !tagsIncludeFulfilled(existingTags) &&
-          !tagsIncludeCancelledAfterShipping(existingTags)
-        ) {
-          await fulfilledReviewMessaging.scheduleReviewForOrder({
-            orderId: order.id,
-            bulkIndex: reviewBulkIndex
+        // The carrier statement settles the order whatever stage it was left in, so the
+        // moves skip the transition table; hooks (review WhatsApp, makers, stock) still run.
+        let current: ShopifyOrder = order;
+        const status = getOrderWorkflowStatusFromTags(existingTags);
+        if (status !== 'fulfilled' && status !== 'paid') {
+          const fulfilled = await orderStatusService.transition(current, 'fulfilled', {
+            override: true,
+            notify: false,
+            bulkIndex: reviewBulkIndex,
+            extraTags: [`fulfillment_date:${transactionDate}`]
           });
+          current = { ...current, tags: fulfilled.tagsAfter };
           reviewBulkIndex += 1;
         }
+        const paid = await orderStatusService.transition(current, 'paid', {
+          override: true,
+          notify: false,
+          extraTags: [
+            `paid_date:${transactionDate}`,
+            `shipping_company_cost:${formattedCost}`,
+            `shipping_company_cost_date:${transactionDate}`
+          ]
+        });
+        operation.track(order, existingTags, paid.tagsAfter);
 
         results.successful.push({
           orderId: order.id,
           orderName: order.name,
           cost: parseFloat(formattedCost),
         });
+        if (previousMonth && previousMonth !== transactionMonth) {
+          results.movedMonth.push({
+            orderId: order.id,
+            orderName: order.name,
+            fromMonth: previousMonth,
+            toMonth: transactionMonth,
+          });
+        }
 
         logger.info('Updated shipping company cost for order', {
           orderId: order.id,
@@ -764,13 +849,17 @@ router.post('/bulk-import-shipping-costs', async (req: Request, res: Response) =
       }
     }
 
+    const operationId = await operation.commit();
+
     res.json({
       success: true,
       results,
+      operationId,
       summary: {
         total: entries.length,
         successful: results.successful.length,
         failed: results.failed.length,
+        movedMonth: results.movedMonth.length,
       },
     });
   } catch (error: any) {
@@ -789,14 +878,20 @@ router.post('/bulk-revert-shipping-costs', async (req: Request, res: Response) =
     }
 
     // Get all orders to match by order ID
-    logger.info(`Bulk revert: Fetching orders from Shopify...`);
-    const allOrders = await shopifyServiceInstance.getOrders({});
-    logger.info(`Bulk revert: Fetched ${allOrders.length} orders from Shopify`);
+    logger.info(`Bulk revert: Fetching orders...`);
+    const allOrders = await orderMirrorService.getOrders();
+    logger.info(`Bulk revert: Fetched ${allOrders.length} orders`);
     
     const results = {
       successful: [] as Array<{ orderId: number; orderName: string }>,
       failed: [] as Array<{ orderId: number; reason: string }>,
     };
+    const isMonthClosed = closedMonthLookup();
+
+    const operation = bulkOperationService.start(
+      'bulk_shipping_cost_revert',
+      `Shipping cost revert (${orderIds.length} orders)`
+    );
 
     // Process each order ID
     for (const orderId of orderIds) {
@@ -818,6 +913,15 @@ router.post('/bulk-revert-shipping-costs', async (req: Request, res: Response) =
             ? order.tags.split(',').map((t: string) => t.trim())
             : [];
 
+        const paidMonth = readOrderWorkflowState(existingTags).paidDate?.substring(0, 7);
+        if (await isMonthClosed(paidMonth)) {
+          results.failed.push({
+            orderId,
+            reason: `Paid in closed month ${paidMonth} — reopen it first`,
+          });
+          continue;
+        }
+
         // Remove shipping_company_cost, shipping_company_cost_date, paid, and paid_date tags
         const filteredTags = existingTags.filter(
           (tag: string) => {
@@ -832,7 +936,10 @@ router.post('/bulk-revert-shipping-costs', async (req: Request, res: Response) =
         );
 
         // Update order tags (removing the shipping cost tags)
-        await shopifyServiceInstance.updateOrderTags(order.id.toString(), filteredTags);
+        await shopifyServiceInstance.updateOrderTags(order.id.toString(), filteredTags, {
+          tagsBefore: existingTags
+        });
+        operation.track(order, existingTags, filteredTags);
 
         results.successful.push({
           orderId: order.id,
@@ -856,9 +963,12 @@ router.post('/bulk-revert-shipping-costs', async (req: Request, res: Response) =
       }
     }
 
+    const operationId = await operation.commit();
+
     res.json({
       success: true,
       results,
+      operationId,
       summary: {
         total: orderIds.length,
         successful: results.successful.length,
@@ -875,70 +985,4 @@ router.post('/bulk-revert-shipping-costs', async (req: Request, res: Response) =
 // Add location tags (DEPRECATED - Mylerz removed)
 // router.post('/:orderId/location-tags', ...)
 
-// Webhook for new orders
-router.post('/webhook/order-created', async (req: Request, res: Response) => {
-  try {
-    const order = req.body;
-    
-    // Verify Shopify webhook
-    const hmac = req.get('X-Shopify-Hmac-Sha256');
-    const topic = req.get('X-Shopify-Topic');
-    
-    if (!hmac || topic !== 'orders/create') {
-      logger.warn('Invalid webhook request', { hmac, topic });
-      return res.sendStatus(401);
-    }
-
-    // Auto-tag orders with specific provinces as "shipping_method:other-company"
-    const otherCompanyProvinces = [
-      'New Valley',
-      'North Sinai',
-      'South Sinai',
-      'Red Sea',
-      'Matrouh',
-      'Qena',
-      'Luxor',
-      'Aswan',
-      'Asyut',
-      'Beni Suef',
-      'Fayoum',
-      'Minya',
-      'Sohag'
-    ];
-    
-    const province = order.shipping_address?.province;
-    if (province && otherCompanyProvinces.includes(province)) {
-      const tags = Array.isArray(order.tags) 
-        ? order.tags 
-        : typeof order.tags === 'string'
-          ? order.tags.split(',').map((t: string) => t.trim())
-          : [];
-      
-      // Check if shipping_method:other-company tag already exists
-      const hasOtherCompanyTag = tags.some((tag: string) => 
-        tag.trim().toLowerCase() === 'shipping_method:other-company'
-      );
-      
-      if (!hasOtherCompanyTag) {
-        const updatedTags = [...tags, 'shipping_method:other-company'];
-        await shopifyServiceInstance.updateOrderTags(order.id.toString(), updatedTags);
-        logger.info('Auto-tagged order with shipping_method:other-company', {
-          orderId: order.id,
-          orderName: order.name,
-          province
-        });
-      }
-    }
-
-    // Process the new order
-    await orderConfirmationService.handleNewOrder(order);
-    
-    res.sendStatus(200);
-  } catch (error) {
-    logger.error('Error processing order webhook:', error);
-    // Always return 200 to acknowledge webhook receipt
-    res.sendStatus(200);
-  }
-});
-
 export default router;
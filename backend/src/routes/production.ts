@@ -0,0 +1,61 @@
+import express, { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { productionPlannerService } from '../services/orders/productionPlannerService';
+import { orderEventContext } from '../middleware/orderEventContext';
+
+const router = express.Router();
+
+// Reflows write due/start date tags, which are recorded in the order history
+router.use(orderEventContext);
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+router.get('/settings', async (_req: Request, res: Response) => {
+  try {
+    const settings = await productionPlannerService.getSettings();
+    res.json({ settings });
+  } catch (error) {
+    logger.error('Error fetching production planner settings:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to fetch production planner settings') });
+  }
+});
+
+// Save capacity settings (partial updates allowed) and reflow planner-scheduled orders
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    const settings = await productionPlannerService.updateSettings(req.body || {});
+    const reflow = await productionPlannerService.reflow();
+    res.json({ settings, reflow });
+  } catch (error) {
+    const status = error instanceof Error && error.name === 'ValidationError' ? 400 : 500;
+    if (status === 500) logger.error('Error saving production planner settings:', error);
+    res.status(status).json({ error: errorMessage(error, 'Failed to save production planner settings') });
+  }
+});
+
+// Current queue with planned dates and infeasible due dates (read-only)
+router.get('/plan', async (_req: Request, res: Response) => {
+  try {
+    const plan = await productionPlannerService.getPlan();
+    res.set('Cache-Control', 'no-store');
+    res.json(plan);
+  } catch (error) {
+    logger.error('Error building production plan:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to build production plan') });
+  }
+});
+
+// Write planned dates; { includeUnscheduled: true } also schedules orders without dates
+router.post('/reflow', async (req: Request, res: Response) => {
+  try {
+    const result = await productionPlannerService.reflow({ includeUnscheduled: req.body?.includeUnscheduled === true });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error reflowing production plan:', error);
+    res.status(500).json({ error: errorMessage(error, 'Failed to reflow production plan') });
+  }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+import express, { Request, Response } from 'express';
+import cors from 'cors';
+import rateLimit from 'express-rate-limit';
+import { logger } from '../utils/logger';
+import { storefrontCorsOptions } from '../config';
+import { productionPlannerService } from '../services/orders/productionPlannerService';
+import { DELIVERY_ESTIMATE_SCHEMA } from '../utils/deliveryEstimate';
+
+/** Unauthenticated storefront API. Mounted before the dashboard CORS policy. */
+const router = express.Router();
+
+router.use(cors(storefrontCorsOptions));
+router.use(
+  rateLimit({
+    windowMs: 60 * 1000,
+    max: 60,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { error: 'Too many requests' },
+  })
+);
+
+const MAX_QUANTITY = 50;
+
+// Replaces delivery-estimator.liquid: ?variant_id=<id>&quantity=1&rush=1
+router.get('/delivery-estimate', async (req: Request, res: Response) => {
+  const variantId = Number(req.query.variant_id);
+  const quantity = req.query.quantity === undefined ? 1 : Number(req.query.quantity);
+  if (!Number.isSafeInteger(variantId) || variantId <= 0) {
+    return res.status(400).json({ error: 'variant_id must be a Shopify variant ID' });
+  }
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+    return res.status(400).json({ error: `quantity must be between 1 and ${MAX_QUANTITY}` });
+  }
+  const rush = req.query.rush === '1' || req.query.rush === 'true';
+
+  try {
+    const estimate = await productionPlannerService.estimateDelivery(variantId, quantity, rush);
+    if (!estimate) {
+      return res.status(404).json({ error: 'Unknown variant_id' });
+    }
+    res.set('Cache-Control', 'public, max-age=300, stale-while-revalidate=600');
+    res.json(estimate);
+  } catch (error) {
+    logger.error('Error computing delivery estimate:', error);
+    res.status(500).json({ error: 'Failed to compute delivery estimate' });
+  }
+});
+
+router.get('/delivery-estimate/schema', (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.type('application/schema+json').send(JSON.stringify(DELIVERY_ESTIMATE_SCHEMA));
+});
+
+export default router;
@@ -8,6 +8,14 @@ import { logger } from '../utils/logger';
 import { shopifyService } from '../services/shopify';
 import { ShippingStatusChecker } from '../services/shipping/ShippingStatusChecker';
 import { OrderDTO } from '../services/shipping/types';
+import { shippingProviders } from '../services/shipping/providers';
+import { shipmentCreationService } from '../services/shipping/shipmentCreationService';
+import { shipmentTrackingService } from '../services/shipping/shipmentTrackingService';
+import { deliveryAttemptService } from '../services/shipping/deliveryAttemptService';
+import { awbBatchService } from '../services/shipping/awbBatchService';
+import { CARRIER_STATUS_ACTIONS } from '../utils/carrierStatusMapping';
+import { orderMirrorService } from '../services/orders/orderMirrorService';
+import { readOrderWorkflowState } from '../utils/orderWorkflowState';
 
 const router = express.Router();
 const shippingController = new ShippingController();
@@ -63,6 +71,28 @@ router.post('/packages/awb', async (req, res) => {
   }
 });
 
+// Body: { orderIds, sort?: 'route' | 'selection' } — one merged label PDF for a packing run.
+// Responds { included, failed: [{ orderId, orderName, reason }], pdf } with the PDF base64-encoded,
+// so a long failure list never has to fit in a response header.
+router.post('/awb/batch', async (req, res) => {
+  try {
+    const { orderIds, sort } = req.body || {};
+    if (!Array.isArray(orderIds)) return res.status(400).json({ error: 'orderIds must be an array' });
+    const { pdf, report } = await awbBatchService.buildBatch(orderIds, sort === 'selection' ? 'selection' : 'route');
+    if (!pdf) return res.status(422).json({ error: 'No labels could be fetched', ...report });
+
+    res.json({
+      included: report.included.length,
+      failed: report.failed,
+      pdf: Buffer.from(pdf).toString('base64'),
+    });
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error building AWB batch:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to build AWB batch' });
+  }
+});
+
 // Get warehouses
 router.get('/warehouses', async (req, res) => {
   try {
@@ -154,6 +184,213 @@ router.get('/locations', async (req: Request, res: Response) => {
   }
 });
 
+// ==================== Shipping providers ====================
+
+function providerErrorStatus(error: unknown): number {
+  const err = error as { statusCode?: number; name?: string };
+  if (err?.statusCode) return err.statusCode;
+  return err?.name === 'ValidationError' ? 400 : 500;
+}
+
+async function loadOrder(orderId: number) {
+  return (await orderMirrorService.getOrder(orderId)) ?? (await shopifyService.getOrder(orderId));
+}
+
+// Providers and which one serves each shipping_method: tag
+router.get('/providers', (_req, res) => {
+  res.json({
+    providers: shippingProviders.list().map(({ id, name }) => ({ id, name })),
+    methods: shippingProviders.methods(),
+  });
+});
+
+router.get('/providers/:provider/locations', async (req, res) => {
+  try {
+    res.json(await shippingProviders.get(req.params.provider).listLocations());
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error fetching provider locations:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to fetch locations' });
+  }
+});
+
+// Body: { codValue, weightKg?, city? }
+router.post('/providers/:provider/quote', async (req, res) => {
+  try {
+    const { codValue, weightKg, city } = req.body || {};
+    const quote = await shippingProviders.get(req.params.provider).quote({
+      codValue: Number(codValue) || 0,
+      weightKg: Number(weightKg) || 0.5,
+      city,
+    });
+    res.json({ quote });
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error quoting shipment:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to quote shipment' });
+  }
+});
+
+// Tracking for an order's shipping_barcode: tag, from the provider its shipping_method: selects
+router.get('/orders/:orderId/tracking', async (req, res) => {
+  try {
+    const order = await loadOrder(Number(req.params.orderId));
+    const provider = shippingProviders.forOrder(order.tags);
+    const barcode = readOrderWorkflowState(order.tags).shippingBarcode;
+    if (!provider) return res.status(400).json({ error: 'Pickup orders are not shipped' });
+    if (!barcode) return res.status(404).json({ error: 'Order has no shipping barcode' });
+    res.json(await provider.track(barcode));
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error tracking order shipment:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to track shipment' });
+  }
+});
+
+router.get('/orders/:orderId/label', async (req, res) => {
+  try {
+    const order = await loadOrder(Number(req.params.orderId));
+    const provider = shippingProviders.forOrder(order.tags);
+    const barcode = readOrderWorkflowState(order.tags).shippingBarcode;
+    if (!provider) return res.status(400).json({ error: 'Pickup orders are not shipped' });
+    if (!barcode) return res.status(404).json({ error: 'Order has no shipping barcode' });
+    const label = await provider.getLabel(barcode, order.name.replace('#', ''));
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=awb-${barcode}.pdf`);
+    res.send(label);
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error fetching order label:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to fetch label' });
+  }
+});
+
+router.post('/orders/:orderId/cancel-shipment', async (req, res) => {
+  try {
+    const order = await loadOrder(Number(req.params.orderId));
+    const provider = shippingProviders.forOrder(order.tags);
+    const barcode = readOrderWorkflowState(order.tags).shippingBarcode;
+    if (!provider) return res.status(400).json({ error: 'Pickup orders are not shipped' });
+    if (!barcode) return res.status(404).json({ error: 'Order has no shipping barcode' });
+    await provider.cancelShipment(barcode);
+    res.json({ success: true, provider: provider.id, barcode });
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error cancelling order shipment:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to cancel shipment' });
+  }
+});
+
+// ==================== Automatic shipment creation ====================
+
+// Ready-to-ship orders whose shipment could not be created
+router.get('/needs-attention', async (_req, res) => {
+  try {
+    res.json(await shipmentCreationService.getNeedsAttention());
+  } catch (error) {
+    logger.error('Error fetching shipments needing attention:', error);
+    res.status(500).json({ error: 'Failed to fetch shipments needing attention' });
+  }
+});
+
+// Create (or retry) the shipment for one order now
+router.post('/orders/:orderId/shipment', async (req, res) => {
+  try {
+    res.json(await shipmentCreationService.retry(Number(req.params.orderId)));
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error creating order shipment:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to create shipment' });
+  }
+});
+
+// Drop an order from the list and stop retrying it (e.g. shipped another way)
+router.delete('/needs-attention/:orderId', async (req, res) => {
+  try {
+    await shipmentCreationService.dismiss(Number(req.params.orderId));
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Error dismissing shipment failure:', error);
+    res.status(500).json({ error: 'Failed to dismiss shipment failure' });
+  }
+});
+
+// ==================== Carrier status mapping and tracking history ====================
+
+// Effective carrier status → workflow rules ("*" matches unmapped statuses)
+router.get('/providers/:provider/status-mappings', async (req, res) => {
+  try {
+    const provider = shippingProviders.get(req.params.provider);
+    res.json({
+      rules: await shipmentTrackingService.getStatusRules(provider.id),
+      actions: CARRIER_STATUS_ACTIONS,
+    });
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error fetching carrier status mappings:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to fetch status mappings' });
+  }
+});
+
+// Body: { status, action }
+router.put('/providers/:provider/status-mappings', async (req, res) => {
+  try {
+    const provider = shippingProviders.get(req.params.provider);
+    const { status, action } = req.body || {};
+    res.json(await shipmentTrackingService.saveStatusRule(provider.id, status, action));
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error saving carrier status mapping:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to save status mapping' });
+  }
+});
+
+router.delete('/providers/:provider/status-mappings/:status', async (req, res) => {
+  try {
+    const provider = shippingProviders.get(req.params.provider);
+    await shipmentTrackingService.deleteStatusRule(provider.id, req.params.status);
+    res.json({ success: true });
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === 500) logger.error('Error deleting carrier status mapping:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Failed to delete status mapping' });
+  }
+});
+
+// Carrier statuses recorded by the status checker, oldest first
+router.get('/orders/:orderId/tracking-history', async (req, res) => {
+  try {
+    res.json({ events: await shipmentTrackingService.getHistory(Number(req.params.orderId)) });
+  } catch (error) {
+    logger.error('Error fetching shipment tracking history:', error);
+    res.status(500).json({ error: 'Failed to fetch tracking history' });
+  }
+});
+
+// ==================== Failed delivery attempts ====================
+
+router.get('/orders/:orderId/delivery-attempts', async (req, res) => {
+  try {
+    res.json({ attempts: await deliveryAttemptService.getAttempts(Number(req.params.orderId)) });
+  } catch (error) {
+    logger.error('Error fetching delivery attempts:', error);
+    res.status(500).json({ error: 'Failed to fetch delivery attempts' });
+  }
+});
+
+// Body: { text } — a customer's answer received outside the WhatsApp webhook (e.g. WhatsApp Web)
+router.post('/orders/:orderId/delivery-reply', async (req, res) => {
+  try {
+    const text = typeof req.body?.text === 'string' ? req.body.text : '';
+    const reply = await deliveryAttemptService.applyReply(Number(req.params.orderId), text);
+    if (!reply) return res.status(400).json({ error: 'Reply has no delivery date or confirmation, or the order is no longer in transit' });
+    res.json(reply);
+  } catch (error) {
+    logger.error('Error applying delivery reply:', error);
+    res.status(500).json({ error: 'Failed to apply delivery reply' });
+  }
+});
+
 // Helper to extract tag value (with trimming)
 function getTagValue(tags: string[], prefix: string): string | null {
   const tag = tags.find(t => t.trim().startsWith(prefix));
@@ -0,0 +1,80 @@
+/**
+ * Shopify Webhooks Receiver
+ *
+ * Single endpoint for every subscribed topic; the topic comes from `X-Shopify-Topic`.
+ *
+ * SETUP INSTRUCTIONS:
+ * 1. Set SHOPIFY_WEBHOOK_SECRET (or SHOPIFY_API_SECRET for a custom app) in your .env file
+ * 2. In Shopify admin, subscribe these topics (JSON format) to
+ *    https://your-domain.com/api/shopify/webhooks:
+ *    orders/create, orders/updated, orders/cancelled, orders/paid,
+ *    fulfillments/create, customers/update
+ *
+ * The legacy /api/orders/webhook/order-* URLs are mounted on the same router so
+ * existing subscriptions keep working, but they are now signature-checked too.
+ */
+
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { shopifyWebhookService, verifyShopifyWebhookHmac } from '../services/shopifyWebhookService';
+
+const router = express.Router();
+
+// IMPORTANT: express.raw() keeps the exact bytes for HMAC verification.
+// The main app's express.json() middleware must NOT run before this router.
+const handleWebhook = async (req: Request, res: Response) => {
+  const topic = req.get('X-Shopify-Topic') || '';
+  const hmac = req.get('X-Shopify-Hmac-Sha256');
+  const rawBody = req.body instanceof Buffer ? req.body : Buffer.from('');
+
+  if (!verifyShopifyWebhookHmac(rawBody, hmac)) {
+    logger.warn('Shopify webhook signature verification failed', {
+      topic,
+      hasHmac: !!hmac,
+      bodyLength: rawBody.length,
+      path: req.originalUrl
+    });
+    return res.sendStatus(401);
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(rawBody.toString('utf8'));
+  } catch (parseError) {
+    logger.error('Failed to parse Shopify webhook body', {
+      topic,
+      error: parseError instanceof Error ? parseError.message : parseError
+    });
+    return res.sendStatus(400);
+  }
+
+  const webhookId =
+    req.get('X-Shopify-Webhook-Id') ||
+    crypto.createHash('sha256').update(topic).update(rawBody).digest('hex');
+
+  const result = await shopifyWebhookService.process({
+    webhookId,
+    topic,
+    shopDomain: req.get('X-Shopify-Shop-Domain'),
+    payload
+  });
+
+  logger.info('Shopify webhook handled', { topic, webhookId, status: result.status });
+
+  // A failed handler gets a 5xx so Shopify redelivers it, and so does a retry that arrives while
+  // the first attempt is still running (it may yet fail); everything else is done
+  if (result.status === 'failed') return res.sendStatus(500);
+  res.sendStatus(result.status === 'in_progress' ? 503 : 200);
+};
+
+const rawJson = express.raw({ type: 'application/json', limit: '2mb' });
+
+router.post('/', rawJson, handleWebhook);
+
+// Legacy per-topic URLs (mounted at /api/orders/webhook)
+router.post('/order-created', rawJson, handleWebhook);
+router.post('/order-updated', rawJson, handleWebhook);
+router.post('/order-cancelled', rawJson, handleWebhook);
+
+export default router;
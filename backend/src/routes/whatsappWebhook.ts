@@ -5,15 +5,18 @@ import path from 'path';
 import { WhatsAppMonitor } from '../services/monitoring/WhatsAppMonitor';
 import { WhatsAppService } from '../services/whatsapp';
 import { sendOrderConfirmationMessage } from '../services/orderConfirmationMessaging';
+import { deliveryAttemptService } from '../services/shipping/deliveryAttemptService';
 import { MessageService } from '../services/messageService';
 import { logger } from '../utils/logger';
-import { ShopifyService } from '../services/shopify';
+import { ShopifyOrder, ShopifyService } from '../services/shopify';
 import { supabase } from '../config/supabase';
 import { discordNotificationService } from '../services/discordNotifications';
 import { whatsappTemplateService } from '../services/whatsappTemplateService';
 import { isWabaEnabled } from '../config/whatsappConfig';
 import { OrderConfirmationService } from '../services/orderConfirmation.service';
 import { whatsappWebService } from '../services/whatsappWeb.service';
+import { getOrderWorkflowStatusFromTags } from '../utils/orderWorkflowState';
+import { orderStatusService } from '../services/orders/orderStatusService';
 
 const wabaDisabled = (_req: express.Request, res: express.Response) =>
   res.status(410).json({
@@ -212,7 +215,7 @@ async function findOrderNumberFromPreviousMessage(customerPhone: string): Promis
 }
 
 // Helper method to update order with customer confirmation
-async function updateOrderWithCustomerConfirmation(targetOrder: any, customerPhone: string): Promise<void> {
+async function updateOrderWithCustomerConfirmation(targetOrder: ShopifyOrder, customerPhone: string): Promise<void> {
   logger.info('=== FOUND TARGET ORDER TO UPDATE ===', {
     orderId: targetOrder.id,
     orderName: targetOrder.name,
@@ -220,55 +223,22 @@ async function updateOrderWithCustomerConfirmation(targetOrder: any, customerPho
     timestamp: new Date().toISOString()
   });
 
-  // Get current tags
-  const currentTags = Array.isArray(targetOrder.tags) 
-    ? targetOrder.tags.map((t: string) => t.trim())
-    : typeof targetOrder.tags === 'string'
-      ? targetOrder.tags.split(',').map((t: string) => t.trim())
-      : [];
-
-  // Remove order_ready and on_hold tags, add customer_confirmed tag
-  const statusTags = ['order_ready', 'on_hold', 'customer_confirmed', 'ready_to_ship', 'shipped', 'fulfilled'];
-  let filtered = currentTags.filter((t: string) => {
-    const trimmed = t.trim().toLowerCase();
-    return !statusTags.some(st => st.trim().toLowerCase() === trimmed);
+  // The state machine replaces order_ready / on_hold with customer_confirmed, stamps the
+  // confirmation date, clears on_hold_reason and sends the Discord notification
+  const wasOnHold = getOrderWorkflowStatusFromTags(targetOrder.tags) === 'on_hold';
+  const event = await orderStatusService.transition(targetOrder, 'customer_confirmed', {
+    source: 'whatsapp_button',
+    actor: 'Automated WhatsApp Confirmation',
+    // If order was in on_hold, add tag to highlight it was confirmed from on_hold
+    extraTags: wasOnHold ? ['confirmed_from_on_hold'] : []
   });
-  
-  // Remove on_hold_reason tag if it exists (order is now confirmed)
-  filtered = filtered.filter((t: string) => !t.trim().toLowerCase().startsWith('on_hold_reason:'));
-  
-  // Remove existing customer_confirmed_date tag if it exists
-  filtered = filtered.filter((t: string) => !t.trim().toLowerCase().startsWith('customer_confirmed_date:'));
-  
-  // Add customer_confirmed tag
-  filtered = [...filtered, 'customer_confirmed'];
-  
-  // Add customer_confirmed_date tag with today's date
-  const today = new Date();
-  const confirmedDate = today.toISOString().split('T')[0]; // Get only YYYY-MM-DD
-  filtered = [...filtered, `customer_confirmed_date:${confirmedDate}`];
-  
-  // If order was in on_hold, add tag to highlight it was confirmed from on_hold
-  const wasOnHold = currentTags.some((t: string) => t.trim().toLowerCase() === 'on_hold');
-  if (wasOnHold) {
-    filtered = [...filtered, 'confirmed_from_on_hold'];
-  }
-  
-  logger.info('=== UPDATING ORDER TAGS ===', {
-    orderId: targetOrder.id,
-    orderName: targetOrder.name,
-    oldTags: currentTags,
-    newTags: filtered,
-    timestamp: new Date().toISOString()
-  });
-
-  await shopifyService.updateOrderTags(targetOrder.id.toString(), filtered);
 
   logger.info('=== SUCCESSFULLY UPDATED ORDER TAGS ===', {
     orderId: targetOrder.id,
     orderName: targetOrder.name,
     phone: customerPhone,
-    newTags: filtered,
+    previousStatus: event.from,
+    newTags: event.tagsAfter,
     timestamp: new Date().toISOString()
   });
 }
@@ -825,6 +795,13 @@ router.post('/webhook', express.json(), async (req, res) => {
                 phone: message.from
               });
 
+              // Reply to a failed delivery message: a date or "yes" reschedules the delivery
+              if (message.type === 'text' && message.text?.body) {
+                deliveryAttemptService.handleCustomerReply(message.from, message.text.body).catch(err => {
+                  logger.error('Failed to handle delivery reschedule reply', err);
+                });
+              }
+
               // Try to find customer information and order number
               let customerName: string | undefined;
               let orderNumber: string | undefined;
@@ -1030,29 +1007,7 @@ router.post('/webhook', express.json(), async (req, res) => {
                     const hasOrderReady = currentTags.includes('order_ready');
                     
                     if (hasOrderReady) {
-                      // Get previous status for notification
-                      const previousStatus = 'order_ready';
-                      
                       await updateOrderWithCustomerConfirmation(targetOrder, customerPhone);
-                      
-                      // Get updated order to ensure we have latest customer info
-                      const updatedOrder = await shopifyService.getOrder(targetOrder.id);
-                      const customerName = updatedOrder.customer 
-                        ? `${updatedOrder.customer.first_name || ''} ${updatedOrder.customer.last_name || ''}`.trim() || 'N/A'
-                        : 'N/A';
-                      
-                      // Send Discord notification for order status change (automated)
-                      discordNotificationService.notifyOrderStatusChange({
-                        orderId: updatedOrder.id,
-                        orderName: updatedOrder.name,
-                        customerName,
-                        previousStatus,
-                        newStatus: 'customer_confirmed',
-                        updatedBy: 'Automated WhatsApp Confirmation'
-                      }).catch(err => {
-                        logger.error('Failed to send Discord order status notification', err);
-                        // Don't fail the webhook if notification fails
-                      });
                     } else {
                       logger.warn('Order does not have order_ready tag, skipping update', {
                         orderId: targetOrder.id,
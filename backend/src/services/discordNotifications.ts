@@ -33,6 +33,25 @@ interface OrderMarkedDeliveredNotification {
   customerName: string;
 }
 
+interface FailedDeliveryNotification {
+  orderId: number;
+  orderName: string;
+  customerName: string;
+  phone: string | null;
+  attempts: number;
+  carrierStatus: string;
+  barcode: string;
+}
+
+interface LowStockNotification {
+  materials: Array<{
+    name: string;
+    unit: string;
+    available: number;
+    threshold: number;
+  }>;
+}
+
 export class DiscordNotificationService {
   private webhookUrl: string | null;
   private whatsappWebhookUrl: string | null;
@@ -343,6 +362,114 @@ export class DiscordNotificationService {
     }
   }
 
+  /**
+   * Send an alert when a package keeps failing delivery, so someone calls the
+   * customer before the carrier returns it.
+   */
+  async notifyFailedDeliveryAttempts(notification: FailedDeliveryNotification): Promise<void> {
+    if (!this.webhookUrl) {
+      return;
+    }
+
+    const { orderId, orderName, customerName, phone, attempts, carrierStatus, barcode } = notification;
+
+    try {
+      const embed = {
+        title: '📦 Delivery Failing',
+        description: `Courier failed to deliver **${attempts}** time(s) — call the customer before the parcel is returned`,
+        color: 0xef4444, // Red
+        fields: [
+          {
+            name: 'Order',
+            value: `**${orderName}**`,
+            inline: true
+          },
+          {
+            name: 'Customer',
+            value: customerName || 'N/A',
+            inline: true
+          },
+          {
+            name: 'Phone',
+            value: phone || 'N/A',
+            inline: true
+          },
+          {
+            name: 'Carrier status',
+            value: `\`${carrierStatus}\` (${barcode})`,
+            inline: false
+          }
+        ],
+        timestamp: new Date().toISOString(),
+        footer: {
+          text: `Order ID: ${orderId}`
+        }
+      };
+
+      await axios.post(this.webhookUrl, {
+        embeds: [embed]
+      }, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      logger.info('Discord failed delivery alert sent', {
+        orderId,
+        orderName,
+        attempts
+      });
+    } catch (error) {
+      logger.error('Failed to send failed delivery Discord alert', {
+        error,
+        orderId,
+        orderName
+      });
+    }
+  }
+
+  /**
+   * Send a notification when materials drop to their low-stock threshold.
+   */
+  async notifyLowStock(notification: LowStockNotification): Promise<void> {
+    if (!this.webhookUrl || notification.materials.length === 0) {
+      return;
+    }
+
+    const { materials } = notification;
+
+    try {
+      const embed = {
+        title: '🧶 Low Stock',
+        description: `${materials.length} material(s) at or below the reorder level`,
+        color: 0xf59e0b, // Amber
+        fields: materials.slice(0, 25).map((material) => ({
+          name: material.name,
+          value: `**${material.available} ${material.unit}** available (alert at ${material.threshold} ${material.unit})`,
+          inline: false
+        })),
+        timestamp: new Date().toISOString()
+      };
+
+      await axios.post(this.webhookUrl, {
+        embeds: [embed]
+      }, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      logger.info('Discord low stock notification sent', {
+        materials: materials.map((material) => material.name)
+      });
+    } catch (error) {
+      logger.error('Failed to send low stock Discord notification', {
+        error,
+        materials: materials.map((material) => material.name)
+      });
+    }
+  }
+
   /**
    * Send a notification for an incoming WhatsApp message
    */
@@ -0,0 +1,252 @@
+import xlsx from 'xlsx';
+import { supabase } from '../../config/supabase';
+import {
+  AdDiscountCode,
+  AdPerformanceReport,
+  AdSpendImport,
+  AdSpendImportResult,
+  AdSpendRow,
+} from '../../types/financial';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { financeMonthsBetween } from '../../utils/financeMonth';
+import { parseMetaAdsRows } from '../../utils/metaAdsImport';
+import { AttributedOrder, attributeOrder, summarizeAdPerformance } from '../../utils/adAttribution';
+import { readOrderWorkflowState } from '../../utils/orderWorkflowState';
+import { orderMirrorService } from '../orders/orderMirrorService';
+
+const SPEND_TABLE = 'ad_spend';
+const IMPORTS_TABLE = 'ad_spend_imports';
+const DISCOUNT_CODES_TABLE = 'ad_discount_codes';
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+/** Supabase caps a single select at 1000 rows; page through with range(). */
+const PAGE_SIZE = 1000;
+const UPSERT_CHUNK_SIZE = 500;
+
+/** Statuses an order only reaches after the customer confirmed it. */
+const CONFIRMED_STATUSES = ['customer_confirmed', 'ready_to_ship', 'shipped', 'fulfilled', 'paid'];
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/** Last day of YYYY-MM as YYYY-MM-DD. */
+function monthEnd(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return `${month}-${String(new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()).padStart(2, '0')}`;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+/**
+ * Ad spend imported from Meta Ads Manager exports, and how it performs against
+ * the Shopify orders attributed to each campaign (ROAS, cost per confirmed and
+ * per paid order). The "Ads" expense category stays the accounting record;
+ * this is for judging campaigns and the media buyer's share.
+ */
+export class AdSpendService {
+  /** Import a CSV/XLSX export; rows for the same campaign, ad set and day replace earlier imports. */
+  async importFile(buffer: Buffer, filename: string, importedBy?: string | null): Promise<AdSpendImportResult> {
+    let sheetRows: unknown[][];
+    try {
+      // raw: keep CSV dates as text rather than letting xlsx guess their format
+      const workbook = xlsx.read(buffer, { type: 'buffer', raw: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      sheetRows = sheet ? (xlsx.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null }) as unknown[][]) : [];
+    } catch {
+      throw validationError('Could not read the file — upload the CSV or XLSX export from Ads Manager');
+    }
+
+    const { rows, errors } = parseMetaAdsRows(sheetRows as Parameters<typeof parseMetaAdsRows>[0]);
+    if (rows.length === 0) {
+      throw validationError(errors[0]?.reason ?? 'No ad spend rows found in the file');
+    }
+
+    const dates = rows.map((row) => row.date).sort();
+    const { data: importRow, error: importError } = await supabase
+      .from(IMPORTS_TABLE)
+      .insert({
+        platform: 'meta',
+        filename,
+        row_count: rows.length,
+        date_from: dates[0],
+        date_to: dates[dates.length - 1],
+        total_spend: Math.round(rows.reduce((sum, row) => sum + row.spend, 0) * 100) / 100,
+        imported_by: importedBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (importError) {
+      logger.error(`Error recording ad spend import: ${formatSupabaseError(importError)}`);
+      throw importError;
+    }
+
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + UPSERT_CHUNK_SIZE).map((row) => ({
+        ...row,
+        platform: 'meta',
+        import_id: importRow.id,
+      }));
+      const { error } = await supabase
+        .from(SPEND_TABLE)
+        .upsert(chunk, { onConflict: 'platform,campaign_name,ad_set_name,date' });
+
+      if (error) {
+        logger.error(`Error saving ad spend rows: ${formatSupabaseError(error)}`);
+        throw error;
+      }
+    }
+
+    logger.info('Ad spend imported', { filename, rows: rows.length, skipped: errors.length });
+    return { import: importRow as AdSpendImport, imported: rows.length, errors };
+  }
+
+  async getImports(): Promise<AdSpendImport[]> {
+    const { data, error } = await supabase.from(IMPORTS_TABLE).select('*').order('created_at', { ascending: false });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('ad_spend_imports table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching ad spend imports: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as AdSpendImport[];
+  }
+
+  /** Remove an import and the spend rows it last wrote. */
+  async deleteImport(id: string): Promise<void> {
+    const { error } = await supabase.from(IMPORTS_TABLE).delete().eq('id', id);
+
+    if (error) {
+      logger.error(`Error deleting ad spend import: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  async getSpend(from: string, to: string): Promise<AdSpendRow[]> {
+    const rows: AdSpendRow[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(SPEND_TABLE)
+        .select('*')
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        if (isMissingTableError(error)) {
+          logger.warn('ad_spend table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+          return [];
+        }
+        logger.error(`Error fetching ad spend: ${formatSupabaseError(error)}`);
+        throw error;
+      }
+
+      rows.push(...((data || []) as AdSpendRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  async getDiscountCodes(): Promise<AdDiscountCode[]> {
+    const { data, error } = await supabase.from(DISCOUNT_CODES_TABLE).select('*').order('code', { ascending: true });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('ad_discount_codes table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching ad discount codes: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as AdDiscountCode[];
+  }
+
+  /** Attribute orders using `code` to `campaignName`. Codes match case-insensitively. */
+  async setDiscountCode(code: string, campaignName: string): Promise<AdDiscountCode> {
+    const normalized = String(code ?? '').trim().toUpperCase();
+    const campaign = String(campaignName ?? '').trim();
+    if (!normalized) throw validationError('code is required');
+    if (!campaign) throw validationError('campaign_name is required');
+
+    const { data, error } = await supabase
+      .from(DISCOUNT_CODES_TABLE)
+      .upsert({ code: normalized, campaign_name: campaign }, { onConflict: 'code' })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error saving ad discount code: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as AdDiscountCode;
+  }
+
+  async deleteDiscountCode(code: string): Promise<void> {
+    const { error } = await supabase
+      .from(DISCOUNT_CODES_TABLE)
+      .delete()
+      .eq('code', String(code).trim().toUpperCase());
+
+    if (error) {
+      logger.error(`Error deleting ad discount code: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  /** ROAS and cost per order by campaign and month, for orders placed from `from` to `to` (YYYY-MM). */
+  async getPerformance(from: string, to: string): Promise<AdPerformanceReport> {
+    if (!MONTH_PATTERN.test(from) || !MONTH_PATTERN.test(to) || from > to) {
+      throw validationError('from and to must be YYYY-MM with from <= to');
+    }
+    if (financeMonthsBetween(from, to).length > 24) throw validationError('Choose at most 24 months');
+
+    const startDate = `${from}-01`;
+    const endDate = monthEnd(to);
+    const [spend, codes, orders] = await Promise.all([
+      this.getSpend(startDate, endDate),
+      this.getDiscountCodes(),
+      orderMirrorService.getOrders({
+        withoutTags: ['cancelled'],
+        created_at_min: `${startDate}T00:00:00Z`,
+        created_at_max: `${endDate}T23:59:59Z`,
+      }),
+    ]);
+
+    const campaigns = new Map<string, { campaign_name: string; campaign_id?: string | null }>();
+    for (const row of spend) campaigns.set(row.campaign_name, row);
+    const codeMap = Object.fromEntries(codes.map((code) => [code.code.toLowerCase(), code.campaign_name]));
+
+    const attributed: AttributedOrder[] = orders
+      .filter((order) => order.created_at)
+      .map((order) => {
+        const state = readOrderWorkflowState(order.tags);
+        return {
+          month: order.created_at.substring(0, 7),
+          campaign: attributeOrder(order, [...campaigns.values()], codeMap).campaign,
+          revenue: Number(order.total_price) || 0,
+          confirmed:
+            Boolean(state.customerConfirmedDate) || state.statusFlags.some((flag) => CONFIRMED_STATUSES.includes(flag)),
+          paid: state.statusFlags.includes('paid'),
+        };
+      });
+
+    return { from, to, ...summarizeAdPerformance(spend, attributed) };
+  }
+}
+
+export const adSpendService = new AdSpendService();
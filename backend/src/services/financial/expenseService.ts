@@ -1,6 +1,42 @@
 import { supabase } from '../../config/supabase';
-import { FinancialExpense, FinancialExpenseInput, ExpenseType } from '../../types/financial';
+import {
+  ExpensePaidBy,
+  ExpensePartner,
+  ExpenseType,
+  FinancialExpense,
+  FinancialExpenseFilters,
+  FinancialExpenseInput,
+} from '../../types/financial';
 import { logger } from '../../utils/logger';
+import { BUSINESS_PAYER, SHARED_PAYER, partnersToSettle, splitByOwnership } from '../../utils/partners';
+import { financeMonthCloseService } from './financeMonthCloseService';
+import { partnerService } from './partnerService';
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/** 'Business', 'Shared' or the name of an active partner. */
+async function parsePaidBy(paidBy: ExpensePaidBy | undefined): Promise<ExpensePaidBy | undefined> {
+  if (paidBy === undefined || paidBy === BUSINESS_PAYER || paidBy === SHARED_PAYER) return paidBy;
+  const partners = await partnerService.getAll({ activeOnly: true });
+  if (!partners.some((partner) => partner.name === paidBy)) {
+    const allowed = [BUSINESS_PAYER, SHARED_PAYER, ...partners.map((partner) => partner.name)];
+    throw validationError(`paid_by must be one of ${allowed.join(', ')}`);
+  }
+  return paidBy;
+}
+
+/** The given split of a shared expense, or one by ownership of the active partners. */
+async function sharedSplit(
+  amount: number,
+  splitPayment: Record<ExpensePartner, number> | null | undefined
+): Promise<Record<ExpensePartner, number>> {
+  if (splitPayment && Object.keys(splitPayment).length > 0) return splitPayment;
+  return splitByOwnership(amount, await partnerService.getAll({ activeOnly: true }));
+}
 
 export class ExpenseService {
   async getAll(month?: string, expenseType?: ExpenseType): Promise<FinancialExpense[]> {
@@ -27,6 +63,32 @@ export class ExpenseService {
     return data || [];
   }
 
+  /** Expenses matching every given filter, newest first. */
+  async list(filters: FinancialExpenseFilters = {}): Promise<FinancialExpense[]> {
+    let query = supabase
+      .from('financial_expenses')
+      .select('*')
+      .order('date', { ascending: false });
+
+    if (filters.month) query = query.eq('month', filters.month);
+    if (filters.from) query = query.gte('date', filters.from);
+    if (filters.to) query = query.lte('date', filters.to);
+    if (filters.category) query = query.eq('category', filters.category);
+    if (filters.expense_type) query = query.eq('expense_type', filters.expense_type);
+    if (filters.paid_by) query = query.eq('paid_by', filters.paid_by);
+    if (filters.partner_paid) query = query.neq('paid_by', BUSINESS_PAYER);
+    if (filters.settled !== undefined) query = query.eq('settled', filters.settled);
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Error fetching expenses:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
   async getById(id: string): Promise<FinancialExpense | null> {
     const { data, error } = await supabase
       .from('financial_expenses')
@@ -49,15 +111,19 @@ export class ExpenseService {
     // Extract month from date (YYYY-MM-DD -> YYYY-MM)
     const date = new Date(input.date);
     const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    await financeMonthCloseService.assertOpen(month, 'new expenses');
 
     // Default expense_type to 'operating' if not provided
     const expenseType = input.expense_type || 'operating';
+    const paidBy = (await parsePaidBy(input.paid_by)) ?? BUSINESS_PAYER;
 
     const { data, error } = await supabase
       .from('financial_expenses')
       .insert([{
         ...input,
         expense_type: expenseType,
+        paid_by: paidBy,
+        split_payment: paidBy === SHARED_PAYER ? await sharedSplit(Number(input.amount), input.split_payment) : null,
         month,
       }])
       .select()
@@ -73,6 +139,14 @@ export class ExpenseService {
 
   async update(id: string, input: Partial<FinancialExpenseInput>): Promise<FinancialExpense> {
     const updateData: any = { ...input };
+    const existing = await this.getById(id);
+    const paidBy = (await parsePaidBy(input.paid_by)) ?? existing?.paid_by;
+    if (paidBy !== SHARED_PAYER) {
+      if (input.paid_by) updateData.split_payment = null;
+    } else if (input.paid_by !== undefined || input.amount !== undefined || input.split_payment !== undefined) {
+      // Re-split by ownership unless the caller gave the split
+      updateData.split_payment = await sharedSplit(Number(input.amount ?? existing?.amount ?? 0), input.split_payment);
+    }
 
     // If date is updated, recalculate month
     if (input.date) {
@@ -80,6 +154,10 @@ export class ExpenseService {
       updateData.month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
     }
 
+    // Neither the month it was in nor the one it moves to may be closed
+    await financeMonthCloseService.assertOpen(existing?.month ?? null, 'expense edits');
+    await financeMonthCloseService.assertOpen(updateData.month ?? null, 'expense edits');
+
     const { data, error } = await supabase
       .from('financial_expenses')
       .update(updateData)
@@ -96,6 +174,9 @@ export class ExpenseService {
   }
 
   async delete(id: string): Promise<void> {
+    const existing = await this.getById(id);
+    await financeMonthCloseService.assertOpen(existing?.month ?? null, 'expense deletions');
+
     const { error } = await supabase
       .from('financial_expenses')
       .delete()
@@ -107,6 +188,53 @@ export class ExpenseService {
     }
   }
 
+  /**
+   * Mark a partner-paid expense as paid back. A shared expense is settled per
+   * partner and counts as settled once everyone in its split is.
+   */
+  async settle(id: string, partner?: ExpensePartner): Promise<FinancialExpense> {
+    const expense = await this.getById(id);
+    if (!expense) {
+      const error = new Error('Expense not found') as Error & { statusCode: number };
+      error.statusCode = 404;
+      error.name = 'NotFoundError';
+      throw error;
+    }
+
+    const update: Partial<FinancialExpense> = {};
+    if (expense.paid_by === SHARED_PAYER) {
+      const splitPartners = partnersToSettle(expense);
+      if (!partner || !splitPartners.includes(partner)) {
+        throw validationError(`Partner must be one of ${splitPartners.join(', ')} for this shared expense`);
+      }
+      const settledPartners = Array.from(new Set([...(expense.settled_partners ?? []), partner]));
+      update.settled_partners = settledPartners;
+      if (splitPartners.every((p) => settledPartners.includes(p))) {
+        update.settled = true;
+        update.settled_at = new Date().toISOString();
+      }
+    } else if (expense.paid_by !== BUSINESS_PAYER) {
+      update.settled = true;
+      update.settled_at = new Date().toISOString();
+    } else {
+      throw validationError('Expenses paid by the business have nothing to settle');
+    }
+
+    const { data, error } = await supabase
+      .from('financial_expenses')
+      .update(update)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error settling expense:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
   async getMonthlyTotal(month: string, expenseType?: ExpenseType): Promise<number> {
     let query = supabase
       .from('financial_expenses')
@@ -0,0 +1,295 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { isPastFinanceMonth } from '../../utils/financeMonth';
+import {
+  FinanceMonthCloseContents,
+  financeMonthChecksum,
+  OrderMissingShippingCost,
+  ordersMissingShippingCost,
+} from '../../utils/financeMonthClose';
+import { expenseService } from './expenseService';
+import { financeMonthService } from './financeMonthService';
+import { financeMonthSnapshotService } from './financeMonthSnapshotService';
+import { payoutService } from './payoutService';
+import { profitEngineService } from './profitEngineService';
+import { shippingLedgerService } from './shippingLedgerService';
+
+const CLOSES_TABLE = 'finance_month_closes';
+const CLOSE_EVENTS_TABLE = 'finance_month_close_events';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MIN_REOPEN_REASON_LENGTH = 5;
+
+export type FinanceMonthCloseStatus = 'closed' | 'open';
+
+export interface FinanceMonthClose {
+  month: string;
+  status: FinanceMonthCloseStatus;
+  checksum: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  reopened_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+}
+
+export interface FinanceMonthCloseEvent {
+  id: string;
+  month: string;
+  action: 'close' | 'reopen';
+  actor: string | null;
+  reason: string | null;
+  checksum: string | null;
+  created_at: string;
+}
+
+export interface FinanceMonthCloseCheck {
+  month: string;
+  canClose: boolean;
+  problems: string[];
+  missingShippingCost: OrderMissingShippingCost[];
+}
+
+class FinanceMonthNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+class FinanceMonthClosedError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function assertMonth(month: string): void {
+  if (!MONTH_PATTERN.test(month)) throw validationError('Month must be YYYY-MM');
+}
+
+/**
+ * Explicit month close. Closing recalculates the month one last time, checks
+ * every paid order has its shipping cost, and pins the snapshot, profit,
+ * expenses and shipping records with a checksum. A closed month rejects edits
+ * and recalculation until it is reopened with a reason; both are audited.
+ */
+export class FinanceMonthCloseService {
+  async getStatus(month: string): Promise<FinanceMonthClose | null> {
+    assertMonth(month);
+    const { data, error } = await supabase
+      .from(CLOSES_TABLE)
+      .select('*')
+      .eq('month', month)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('finance_month_closes table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return null;
+      }
+      logger.error(`Error fetching finance month close: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data as FinanceMonthClose | null) ?? null;
+  }
+
+  async isClosed(month: string): Promise<boolean> {
+    return (await this.getStatus(month))?.status === 'closed';
+  }
+
+  /** Throws a 409 when `month` is closed; `what` names the change for the message. */
+  async assertOpen(month: string | null, what = 'Changes'): Promise<void> {
+    if (!month || !MONTH_PATTERN.test(month)) return;
+    if (await this.isClosed(month)) {
+      throw new FinanceMonthClosedError(`${month} is closed — ${what} are blocked until it is reopened`);
+    }
+  }
+
+  async getEvents(month: string): Promise<FinanceMonthCloseEvent[]> {
+    assertMonth(month);
+    const { data, error } = await supabase
+      .from(CLOSE_EVENTS_TABLE)
+      .select('*')
+      .eq('month', month)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      logger.error(`Error fetching finance month close events: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as FinanceMonthCloseEvent[];
+  }
+
+  /** What would stop the month from closing, from live order data. */
+  async check(month: string): Promise<FinanceMonthCloseCheck> {
+    assertMonth(month);
+    const problems: string[] = [];
+    if (!isPastFinanceMonth(month)) problems.push('The month has not ended yet');
+    if (await this.isClosed(month)) problems.push('The month is already closed');
+
+    const { paid } = await profitEngineService.loadFinanceOrdersForMonth(month, { fresh: true });
+    const missingShippingCost = ordersMissingShippingCost(paid);
+    if (missingShippingCost.length > 0) {
+      problems.push(`${missingShippingCost.length} paid order(s) have no shipping cost`);
+    }
+
+    return { month, canClose: problems.length === 0, problems, missingShippingCost };
+  }
+
+  async close(month: string, actor?: string): Promise<FinanceMonthClose> {
+    const check = await this.check(month);
+    if (!check.canClose) {
+      const names = check.missingShippingCost.slice(0, 20).map((order) => order.name);
+      throw new FinanceMonthClosedError(
+        `Cannot close ${month}: ${check.problems.join('; ')}${names.length ? ` (${names.join(', ')})` : ''}`
+      );
+    }
+
+    // Approved payouts already froze the profit; otherwise recalculate one last time
+    if (!(await payoutService.isLocked(month))) {
+      await financeMonthService.calculateAndSaveMonth(month);
+    }
+
+    const checksum = financeMonthChecksum(await this.loadContents(month));
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from(CLOSES_TABLE)
+      .upsert(
+        {
+          month,
+          status: 'closed',
+          checksum,
+          closed_by: actor ?? null,
+          closed_at: now,
+        },
+        { onConflict: 'month' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error closing finance month: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    await this.recordEvent({ month, action: 'close', actor, checksum });
+    logger.info(`Finance month ${month} closed by ${actor ?? 'unknown'} (checksum ${checksum.slice(0, 12)})`);
+    return data as FinanceMonthClose;
+  }
+
+  /** Reopen for corrections; revokes a payout approval since the profit may now change. */
+  async reopen(month: string, reason: string, actor?: string): Promise<FinanceMonthClose> {
+    assertMonth(month);
+    const trimmedReason = String(reason ?? '').trim();
+    if (trimmedReason.length < MIN_REOPEN_REASON_LENGTH) {
+      throw validationError('A reason is required to reopen a closed month');
+    }
+
+    const status = await this.getStatus(month);
+    if (status?.status !== 'closed') throw new FinanceMonthClosedError(`${month} is not closed`);
+
+    const payoutsRevoked = await payoutService.revokeApproval(month);
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from(CLOSES_TABLE)
+      .update({
+        status: 'open',
+        reopened_by: actor ?? null,
+        reopened_at: now,
+        reopen_reason: trimmedReason,
+      })
+      .eq('month', month)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error reopening finance month: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    await this.recordEvent({
+      month,
+      action: 'reopen',
+      actor,
+      reason: payoutsRevoked ? `${trimmedReason} (payout approval revoked)` : trimmedReason,
+      checksum: status.checksum,
+    });
+    logger.info(`Finance month ${month} reopened by ${actor ?? 'unknown'}: ${trimmedReason}`);
+    return data as FinanceMonthClose;
+  }
+
+  /** Recompute the checksum of a closed month and compare it with the one stored at close. */
+  async verify(month: string): Promise<{ month: string; checksum: string; matches: boolean }> {
+    const status = await this.getStatus(month);
+    if (status?.status !== 'closed' || !status.checksum) {
+      throw new FinanceMonthNotFoundError(`${month} is not closed`);
+    }
+    const checksum = financeMonthChecksum(await this.loadContents(month));
+    return { month, checksum, matches: checksum === status.checksum };
+  }
+
+  private async loadContents(month: string): Promise<FinanceMonthCloseContents> {
+    const [snapshot, profit, expenses, shipping] = await Promise.all([
+      financeMonthSnapshotService.get(month),
+      profitEngineService.getMonthlyProfitRow(month),
+      expenseService.getAll(month),
+      shippingLedgerService.getAll(month),
+    ]);
+    if (!snapshot || !profit) throw new FinanceMonthNotFoundError(`No saved figures for ${month}`);
+
+    return {
+      month,
+      paidOrders: snapshot.paid_orders_json,
+      cancelledOrders: snapshot.cancelled_orders_json,
+      shippingSummary: snapshot.shipping_summary,
+      shippingRecords: snapshot.shipping_records_json,
+      profit: { ...profit },
+      expenses: [...expenses].sort((a, b) => a.id.localeCompare(b.id)),
+      manualShipping: shipping.filter((record) => !record.isFromTag).sort((a, b) => a.id.localeCompare(b.id)),
+    };
+  }
+
+  private async recordEvent(event: {
+    month: string;
+    action: FinanceMonthCloseEvent['action'];
+    actor?: string;
+    reason?: string;
+    checksum: string | null;
+  }): Promise<void> {
+    const { error } = await supabase.from(CLOSE_EVENTS_TABLE).insert({
+      month: event.month,
+      action: event.action,
+      actor: event.actor ?? null,
+      reason: event.reason ?? null,
+      checksum: event.checksum,
+    });
+
+    if (error) {
+      logger.error(`Error recording finance month close event: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+}
+
+export const financeMonthCloseService = new FinanceMonthCloseService();
@@ -7,7 +7,9 @@ import {
   parseOrderTags,
 } from '../../utils/financeMonth';
 import { expenseService } from './expenseService';
+import { FinanceMonthClose, financeMonthCloseService } from './financeMonthCloseService';
 import { financeMonthSnapshotService } from './financeMonthSnapshotService';
+import { payoutService } from './payoutService';
 import { profitEngineService } from './profitEngineService';
 import { shippingLedgerService } from './shippingLedgerService';
 
@@ -31,6 +33,7 @@ export type FinanceMonthBundle = {
   isFinalized: boolean;
   fromCache: boolean;
   needsCalculation: boolean;
+  close: FinanceMonthClose | null;
 };
 
 function buildTagShippingRecords(
@@ -129,6 +132,7 @@ async function assembleBundle(params: {
   needsCalculation: boolean;
 }): Promise<FinanceMonthBundle> {
   const expenses = await expenseService.getAll(params.month);
+  const close = await financeMonthCloseService.getStatus(params.month);
   const manualShipping = await shippingLedgerService.getAll(params.month);
   const manualOnly = manualShipping.filter((r) => !r.isFromTag);
   const tagShipping = params.shippingRecords.length
@@ -150,6 +154,7 @@ async function assembleBundle(params: {
     isFinalized: params.isFinalized,
     fromCache: params.fromCache,
     needsCalculation: params.needsCalculation,
+    close,
   };
 }
 
@@ -181,8 +186,8 @@ export class FinanceMonthService {
       return this.calculateAndSaveMonth(month);
     }
 
-    // Past month: read Supabase cache (survives Shopify plan renewal)
-    if (!options.force) {
+    // Past month: read Supabase cache (survives Shopify plan renewal); a closed month always does
+    if (!options.force || (await financeMonthCloseService.isClosed(month))) {
       const snapshot = await financeMonthSnapshotService.get(month);
       const profit = await profitEngineService.getMonthlyProfitRow(month);
 
@@ -218,6 +223,9 @@ export class FinanceMonthService {
   }
 
   async calculateAndSaveMonth(month: string): Promise<FinanceMonthBundle> {
+    // Approved payouts were paid from this month's profit; it must not move under them
+    await payoutService.assertUnlocked(month);
+    await financeMonthCloseService.assertOpen(month, 'recalculations');
     logger.info(`Calculating and saving finance month bundle: ${month}`);
 
     const { paid, cancelled } = await profitEngineService.loadFinanceOrdersForMonth(month, {
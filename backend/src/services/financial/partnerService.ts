@@ -0,0 +1,184 @@
+import { supabase } from '../../config/supabase';
+import { Partner, PartnerBalancesReport, PartnerInput, PartnerLedger } from '../../types/financial';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { buildPartnerLedger, partnerPositions, suggestSettlements } from '../../utils/partners';
+import { expenseService } from './expenseService';
+import { partnerSettlementService } from './partnerSettlementService';
+
+const PARTNERS_TABLE = 'partners';
+
+class PartnerNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+class PartnerConflictError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function parsePartnerInput(input: Partial<PartnerInput>): Partial<PartnerInput> {
+  const parsed: Partial<PartnerInput> = {};
+  if (input.name !== undefined) {
+    const name = String(input.name).trim();
+    if (!name) throw validationError('name is required');
+    if (['business', 'shared', 'both'].includes(name.toLowerCase())) {
+      throw validationError(`"${name}" is reserved and cannot be a partner name`);
+    }
+    parsed.name = name;
+  }
+  if (input.ownership_percent !== undefined) {
+    const percent = Number(input.ownership_percent);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw validationError('ownership_percent must be between 0 and 100');
+    }
+    parsed.ownership_percent = percent;
+  }
+  if (input.active !== undefined) parsed.active = Boolean(input.active);
+  return parsed;
+}
+
+/**
+ * Partners and investors with their ownership share. Shared expenses are split
+ * by it, and it sets what each partner's balance should be when settling up.
+ */
+export class PartnerService {
+  async getAll(options: { activeOnly?: boolean } = {}): Promise<Partner[]> {
+    let query = supabase.from(PARTNERS_TABLE).select('*').order('created_at', { ascending: true });
+    if (options.activeOnly) query = query.eq('active', true);
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('partners table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching partners: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as Partner[];
+  }
+
+  async getByName(name: string): Promise<Partner | null> {
+    return (await this.getAll()).find((partner) => partner.name === name) ?? null;
+  }
+
+  /** Throws a 400 unless `name` is a partner (active or not). */
+  async assertPartner(name: string | undefined | null): Promise<Partner> {
+    const partner = name ? await this.getByName(name) : null;
+    if (!partner) throw validationError(`Unknown partner: ${name ?? '(none)'}`);
+    return partner;
+  }
+
+  async create(input: PartnerInput): Promise<Partner> {
+    const parsed = parsePartnerInput(input);
+    if (!parsed.name) throw validationError('name is required');
+    await this.assertOwnershipFits(null, parsed.ownership_percent ?? 0, parsed.active ?? true);
+
+    const { data, error } = await supabase
+      .from(PARTNERS_TABLE)
+      .insert({ name: parsed.name, ownership_percent: parsed.ownership_percent ?? 0, active: parsed.active ?? true })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new PartnerConflictError(`A partner named ${parsed.name} already exists`);
+      logger.error(`Error creating partner: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as Partner;
+  }
+
+  /** Renaming is not supported: expenses and settlements refer to partners by name. */
+  async update(id: string, input: Partial<PartnerInput>): Promise<Partner> {
+    const existing = (await this.getAll()).find((partner) => partner.id === id);
+    if (!existing) throw new PartnerNotFoundError('Partner not found');
+
+    const parsed = parsePartnerInput({ ...input, name: undefined });
+    await this.assertOwnershipFits(
+      id,
+      parsed.ownership_percent ?? Number(existing.ownership_percent),
+      parsed.active ?? existing.active
+    );
+
+    const { data, error } = await supabase
+      .from(PARTNERS_TABLE)
+      .update({ ...parsed, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating partner: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as Partner;
+  }
+
+  async getLedger(name: string): Promise<PartnerLedger> {
+    const partner = await this.getByName(name);
+    if (!partner) throw new PartnerNotFoundError(`Unknown partner: ${name}`);
+
+    const [expenses, settlements] = await Promise.all([
+      expenseService.list({ partner_paid: true }),
+      partnerSettlementService.getAll(),
+    ]);
+    return buildPartnerLedger(partner.name, expenses, settlements);
+  }
+
+  /** Every partner's balance against their ownership share, and the transfers that even them out. */
+  async getBalancesReport(): Promise<PartnerBalancesReport> {
+    const [partners, expenses, settlements] = await Promise.all([
+      this.getAll(),
+      expenseService.list({ partner_paid: true }),
+      partnerSettlementService.getAll(),
+    ]);
+
+    const balances: Record<string, number> = {};
+    for (const partner of partners) {
+      balances[partner.name] = buildPartnerLedger(partner.name, expenses, settlements).balance;
+    }
+    const positions = partnerPositions(partners, balances);
+
+    return {
+      total_balance: Math.round(positions.reduce((sum, p) => sum + p.balance, 0) * 100) / 100,
+      ownership_total: partners.reduce((sum, p) => sum + (Number(p.ownership_percent) || 0), 0),
+      positions,
+      suggestions: suggestSettlements(positions),
+    };
+  }
+
+  private async assertOwnershipFits(id: string | null, percent: number, active: boolean): Promise<void> {
+    if (!active) return;
+    const others = (await this.getAll({ activeOnly: true })).filter((partner) => partner.id !== id);
+    const total = others.reduce((sum, partner) => sum + (Number(partner.ownership_percent) || 0), 0) + percent;
+    if (total > 100) {
+      throw validationError(`Ownership would add up to ${total}% — lower another partner's share first`);
+    }
+  }
+}
+
+export const partnerService = new PartnerService();
@@ -0,0 +1,153 @@
+import { supabase } from '../../config/supabase';
+import {
+  ExpensePartner,
+  FinancialExpense,
+  PartnerBalanceSummary,
+  PartnerSettlement,
+  PartnerSettlementInput,
+  PartnerSettlementKind,
+} from '../../types/financial';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { BUSINESS_PAYER, partnerOwedForExpense, SHARED_PAYER } from '../../utils/partners';
+import { expenseService } from './expenseService';
+import { partnerService } from './partnerService';
+
+const SETTLEMENTS_TABLE = 'partner_settlements';
+const SETTLEMENT_KINDS: PartnerSettlementKind[] = ['reimbursement', 'draw', 'contribution', 'transfer'];
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+/**
+ * Money moving between the business and its partners: reimbursements for
+ * expenses they covered, draws, capital contributions and partner-to-partner
+ * transfers. The owed side is derived from partner-paid rows in financial_expenses.
+ */
+export class PartnerSettlementService {
+  async getAll(filters: { partner?: ExpensePartner; from?: string; to?: string } = {}): Promise<PartnerSettlement[]> {
+    let query = supabase.from(SETTLEMENTS_TABLE).select('*').order('date', { ascending: false });
+    if (filters.partner) query = query.eq('partner', filters.partner);
+    if (filters.from) query = query.gte('date', filters.from);
+    if (filters.to) query = query.lte('date', filters.to);
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('partner_settlements table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching partner settlements: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as PartnerSettlement[];
+  }
+
+  /** Record a settlement; a reimbursement also marks the expenses it covers as paid back to that partner. */
+  async create(input: PartnerSettlementInput): Promise<PartnerSettlement> {
+    await partnerService.assertPartner(input.partner);
+    const kind = input.kind ?? 'reimbursement';
+    if (!SETTLEMENT_KINDS.includes(kind)) throw validationError(`kind must be one of ${SETTLEMENT_KINDS.join(', ')}`);
+    const amount = Number(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0) throw validationError('amount must be a positive number');
+    if (!input.date) throw validationError('date is required');
+
+    let counterparty: ExpensePartner | null = null;
+    if (kind === 'transfer') {
+      counterparty = (await partnerService.assertPartner(input.counterparty)).name;
+      if (counterparty === input.partner) throw validationError('A transfer needs two different partners');
+    }
+
+    // Only reimbursements pay back specific expenses
+    const expenseIds = kind === 'reimbursement' ? input.expense_ids ?? [] : [];
+    const { data, error } = await supabase
+      .from(SETTLEMENTS_TABLE)
+      .insert({
+        partner: input.partner,
+        kind,
+        counterparty,
+        amount,
+        date: input.date.substring(0, 10),
+        expense_ids: expenseIds,
+        note: input.note ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating partner settlement: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    for (const id of expenseIds) {
+      await expenseService.settle(id, input.partner);
+    }
+
+    return data as PartnerSettlement;
+  }
+
+  /**
+   * Pay a partner back for one expense (the Expenses tab "settle" button): records a
+   * reimbursement for their share dated today, which also flags the expense as settled.
+   */
+  async settleExpense(id: string, partner?: ExpensePartner): Promise<FinancialExpense> {
+    const expense = await expenseService.getById(id);
+    if (!expense) {
+      const error = new Error('Expense not found') as Error & { statusCode: number };
+      error.statusCode = 404;
+      error.name = 'NotFoundError';
+      throw error;
+    }
+    if (expense.paid_by === BUSINESS_PAYER) {
+      throw validationError('Expenses paid by the business have nothing to settle');
+    }
+
+    const payee = expense.paid_by === SHARED_PAYER ? partner : expense.paid_by;
+    if (!payee) throw validationError('partner is required for a shared expense');
+    const amount = partnerOwedForExpense(expense, payee);
+    if (amount <= 0) {
+      // Already paid back (or not part of the split): let settle() report it
+      return expenseService.settle(id, payee);
+    }
+
+    await this.create({
+      partner: payee,
+      kind: 'reimbursement',
+      amount,
+      date: new Date().toISOString().substring(0, 10),
+      expense_ids: [id],
+      note: expense.notes ? `${expense.category} — ${expense.notes}` : expense.category,
+    });
+
+    return (await expenseService.getById(id)) as FinancialExpense;
+  }
+
+  async getBalance(partner: string): Promise<PartnerBalanceSummary> {
+    await partnerService.assertPartner(partner);
+    const [unsettled, settlements] = await Promise.all([
+      expenseService.list({ settled: false }),
+      this.getAll({ partner }),
+    ]);
+
+    const owed = unsettled.reduce((sum, expense) => sum + partnerOwedForExpense(expense, partner), 0);
+    return {
+      partner,
+      owed_amount: Math.round(owed * 100) / 100,
+      settled_amount: settlements
+        .filter((settlement) => (settlement.kind ?? 'reimbursement') === 'reimbursement')
+        .reduce((sum, settlement) => sum + Number(settlement.amount), 0),
+      last_settlement: settlements[0]?.date ?? null,
+    };
+  }
+}
+
+export const partnerSettlementService = new PartnerSettlementService();
@@ -0,0 +1,302 @@
+import { supabase } from '../../config/supabase';
+import { MonthlyPayout, PayoutConfig, PayoutConfigInput } from '../../types/financial';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { getCurrentFinanceMonth, isPastFinanceMonth } from '../../utils/financeMonth';
+import { calculatePayoutAmounts, isPayoutDraftCurrent, payoutConfigForMonth } from '../../utils/payouts';
+import { profitEngineService } from './profitEngineService';
+
+const PAYOUT_CONFIG_TABLE = 'payout_config';
+const MONTHLY_PAYOUTS_TABLE = 'monthly_payouts';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+class PayoutNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+class PayoutLockedError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+class PayoutStaleError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function assertMonth(month: string): void {
+  if (!MONTH_PATTERN.test(month)) throw validationError('Month must be YYYY-MM');
+}
+
+function parsePercent(value: unknown, field: string): number {
+  const percent = Number(value);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw validationError(`${field} must be between 0 and 100`);
+  }
+  return percent;
+}
+
+function parsePayoutConfigInput(input: PayoutConfigInput): Omit<PayoutConfig, 'id' | 'created_by' | 'updated_at'> {
+  const effectiveFrom = input.effective_from ?? getCurrentFinanceMonth();
+  assertMonth(effectiveFrom);
+
+  const basis = input.basis ?? 'dpp';
+  if (basis !== 'dpp' && basis !== 'cash_dpp') throw validationError("basis must be 'dpp' or 'cash_dpp'");
+  if (input.owner_pay_type !== 'fixed' && input.owner_pay_type !== 'percent') {
+    throw validationError("owner_pay_type must be 'fixed' or 'percent'");
+  }
+
+  const ownerPayValue = Number(input.owner_pay_value);
+  if (!Number.isFinite(ownerPayValue) || ownerPayValue < 0) {
+    throw validationError('owner_pay_value must be a non-negative number');
+  }
+
+  const config = {
+    effective_from: effectiveFrom,
+    basis,
+    media_buyer_percent: parsePercent(input.media_buyer_percent, 'media_buyer_percent'),
+    ops_percent: parsePercent(input.ops_percent, 'ops_percent'),
+    crm_percent: parsePercent(input.crm_percent, 'crm_percent'),
+    owner_pay_type: input.owner_pay_type,
+    owner_pay_value:
+      input.owner_pay_type === 'percent' ? parsePercent(ownerPayValue, 'owner_pay_value') : ownerPayValue,
+  };
+
+  const percentTotal =
+    config.media_buyer_percent +
+    config.ops_percent +
+    config.crm_percent +
+    (config.owner_pay_type === 'percent' ? config.owner_pay_value : 0);
+  if (percentTotal > 100) throw validationError('Payout percentages add up to more than 100%');
+
+  return config;
+}
+
+/**
+ * Commissions and owner pay from each month's profit pool. Config changes are
+ * new versions effective from a month, so earlier months keep their percentages;
+ * approving a month's payouts locks it against recalculation.
+ */
+export class PayoutService {
+  /** Every config version, newest first. */
+  async getConfigHistory(): Promise<PayoutConfig[]> {
+    const { data, error } = await supabase
+      .from(PAYOUT_CONFIG_TABLE)
+      .select('*')
+      .order('effective_from', { ascending: false });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('payout_config table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching payout config: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as PayoutConfig[];
+  }
+
+  /** The version in force for `month` (default: current month). */
+  async getConfig(month: string = getCurrentFinanceMonth()): Promise<PayoutConfig | null> {
+    assertMonth(month);
+    return payoutConfigForMonth(await this.getConfigHistory(), month);
+  }
+
+  /** Save a config version from input.effective_from on (replacing one from the same month). */
+  async saveConfig(input: PayoutConfigInput, actor?: string): Promise<PayoutConfig> {
+    const config = parsePayoutConfigInput(input);
+
+    const { data: locked, error: lockedError } = await supabase
+      .from(MONTHLY_PAYOUTS_TABLE)
+      .select('month')
+      .eq('status', 'approved')
+      .gte('month', config.effective_from)
+      .order('month', { ascending: false })
+      .limit(1);
+
+    if (lockedError) {
+      logger.error(`Error checking approved payouts: ${formatSupabaseError(lockedError)}`);
+      throw lockedError;
+    }
+    if (locked && locked.length > 0) {
+      throw new PayoutLockedError(
+        `Payouts for ${locked[0].month} are approved — a config change must take effect after that month`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from(PAYOUT_CONFIG_TABLE)
+      .upsert(
+        { ...config, created_by: actor ?? null, updated_at: new Date().toISOString() },
+        { onConflict: 'effective_from' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error saving payout config: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as PayoutConfig;
+  }
+
+  async getPayout(month: string): Promise<MonthlyPayout | null> {
+    assertMonth(month);
+    const { data, error } = await supabase
+      .from(MONTHLY_PAYOUTS_TABLE)
+      .select('*')
+      .eq('month', month)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('monthly_payouts table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return null;
+      }
+      logger.error(`Error fetching monthly payout: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data as MonthlyPayout | null) ?? null;
+  }
+
+  async isLocked(month: string): Promise<boolean> {
+    return (await this.getPayout(month))?.status === 'approved';
+  }
+
+  /** Throws a 409 when the month's payouts are approved. */
+  async assertUnlocked(month: string): Promise<void> {
+    if (await this.isLocked(month)) {
+      throw new PayoutLockedError(`Payouts for ${month} are approved — the month is locked`);
+    }
+  }
+
+  /** (Re)calculate a draft from the month's stored profit and the config in force for it. */
+  async calculate(month: string): Promise<MonthlyPayout> {
+    assertMonth(month);
+    await this.assertUnlocked(month);
+
+    const profit = await profitEngineService.getMonthlyProfitRow(month);
+    if (!profit) throw new PayoutNotFoundError(`No profit calculated for ${month} yet`);
+
+    const config = await this.getConfig(month);
+    if (!config) throw new PayoutNotFoundError(`No payout config in force for ${month}`);
+
+    const { data, error } = await supabase
+      .from(MONTHLY_PAYOUTS_TABLE)
+      .upsert(
+        {
+          month,
+          basis: config.basis,
+          config_id: config.id,
+          media_buyer_percent: config.media_buyer_percent,
+          ops_percent: config.ops_percent,
+          crm_percent: config.crm_percent,
+          owner_pay_type: config.owner_pay_type,
+          owner_pay_value: config.owner_pay_value,
+          ...calculatePayoutAmounts(profit, config),
+          status: 'draft',
+          approved_by: null,
+          approved_at: null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'month' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error saving monthly payout: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as MonthlyPayout;
+  }
+
+  /** Approve a finished month's draft; it can no longer be recalculated. Rejects a draft older than the month's profit. */
+  async approve(month: string, actor?: string): Promise<MonthlyPayout> {
+    assertMonth(month);
+    if (!isPastFinanceMonth(month)) throw validationError('Payouts can be approved once the month has ended');
+
+    const payout = await this.getPayout(month);
+    if (!payout) throw new PayoutNotFoundError(`Calculate payouts for ${month} before approving`);
+    if (payout.status === 'approved') throw new PayoutLockedError(`Payouts for ${month} are already approved`);
+
+    // Profit recalculated (or the config changed) after the draft: approve what is current, not the old numbers
+    const [profit, config] = await Promise.all([profitEngineService.getMonthlyProfitRow(month), this.getConfig(month)]);
+    if (!profit) throw new PayoutNotFoundError(`No profit calculated for ${month} yet`);
+    if (!config) throw new PayoutNotFoundError(`No payout config in force for ${month}`);
+    if (!isPayoutDraftCurrent(payout, config, profit)) {
+      throw new PayoutStaleError(
+        `Profit or payout config for ${month} changed since the payouts were calculated — recalculate before approving`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from(MONTHLY_PAYOUTS_TABLE)
+      .update({
+        status: 'approved',
+        approved_by: actor ?? null,
+        approved_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('month', month)
+      .eq('status', 'draft')
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error approving monthly payout: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    logger.info(`Payouts for ${month} approved by ${actor ?? 'unknown'}`);
+    return data as MonthlyPayout;
+  }
+
+  /** Back to draft when the month is reopened; true when an approval was revoked. */
+  async revokeApproval(month: string): Promise<boolean> {
+    if (!(await this.isLocked(month))) return false;
+
+    const { error } = await supabase
+      .from(MONTHLY_PAYOUTS_TABLE)
+      .update({ status: 'draft', approved_by: null, approved_at: null, updated_at: new Date().toISOString() })
+      .eq('month', month);
+
+    if (error) {
+      logger.error(`Error revoking payout approval: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    logger.info(`Payout approval for ${month} revoked`);
+    return true;
+  }
+}
+
+export const payoutService = new PayoutService();
@@ -0,0 +1,74 @@
+import { ProductMarginsReport } from '../../types/financial';
+import { financeMonthsBetween, isPastFinanceMonth, shiftFinanceMonth } from '../../utils/financeMonth';
+import { readOrderWorkflowState } from '../../utils/orderWorkflowState';
+import { buildProductMarginsReport, MarginOrder } from '../../utils/productMargins';
+import { orderMirrorService } from '../orders/orderMirrorService';
+import { financeMonthSnapshotService } from './financeMonthSnapshotService';
+import { productionCostService } from './productionCostService';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MAX_RANGE_MONTHS = 24;
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/**
+ * Product margins for a month or a range of months. Closed months read the paid
+ * orders frozen in their finance snapshot; open months read the order mirror.
+ */
+export class ProductMarginService {
+  async getReport(from: string, to: string = from): Promise<ProductMarginsReport> {
+    if (!MONTH_PATTERN.test(from) || !MONTH_PATTERN.test(to)) {
+      throw validationError('Months must be YYYY-MM');
+    }
+    if (from > to) throw validationError('from must not be after to');
+
+    const months = financeMonthsBetween(from, to);
+    if (months.length > MAX_RANGE_MONTHS) {
+      throw validationError(`A range can cover at most ${MAX_RANGE_MONTHS} months`);
+    }
+
+    // Same number of months immediately before — the previous month for a single month
+    const previousFrom = shiftFinanceMonth(from, -months.length);
+    const previousTo = shiftFinanceMonth(from, -1);
+
+    const [orders, previousOrders, versions] = await Promise.all([
+      this.loadPaidOrders(months),
+      this.loadPaidOrders(financeMonthsBetween(previousFrom, previousTo)),
+      productionCostService.getAllVersions(),
+    ]);
+
+    return buildProductMarginsReport({ from, to, previousFrom, previousTo }, orders, previousOrders, versions);
+  }
+
+  private async loadPaidOrders(months: string[]): Promise<MarginOrder[]> {
+    const orders: MarginOrder[] = [];
+    const liveMonths = new Set<string>();
+
+    for (const month of months) {
+      const snapshot = isPastFinanceMonth(month) ? await financeMonthSnapshotService.get(month) : null;
+      if (snapshot) {
+        orders.push(...(snapshot.paid_orders_json as MarginOrder[]));
+      } else {
+        liveMonths.add(month);
+      }
+    }
+
+    if (liveMonths.size > 0) {
+      // One mirror read for every open month in the range
+      const candidates = await orderMirrorService.getOrders({ withTags: ['paid'], withoutTags: ['cancelled'] });
+      for (const order of candidates) {
+        const state = readOrderWorkflowState(order.tags);
+        if (!state.statusFlags.includes('paid') || state.statusFlags.includes('cancelled')) continue;
+        if (state.paidDate && liveMonths.has(state.paidDate.substring(0, 7))) orders.push(order);
+      }
+    }
+
+    return orders;
+  }
+}
+
+export const productMarginService = new ProductMarginService();
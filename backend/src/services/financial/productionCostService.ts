@@ -0,0 +1,209 @@
+import { supabase } from '../../config/supabase';
+import { ProductCost, ProductCostInput } from '../../types/financial';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { cairoDateString } from '../../utils/orderListQuery';
+import {
+  calculateCogs,
+  CogsOrder,
+  CogsResult,
+  effectiveProductCost,
+  effectiveProductCosts,
+  PRODUCT_COST_COMPONENTS,
+} from '../../utils/productCosts';
+import { financeMonthCloseService } from './financeMonthCloseService';
+
+const PRODUCT_COSTS_TABLE = 'product_costs';
+
+function isMissingTableError(error: { code?: string; message?: string }): boolean {
+  return (
+    error.code === '42P01' ||
+    error.code === 'PGRST205' ||
+    (error.message?.includes('does not exist') ?? false)
+  );
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/** YYYY-MM of a version's effective_from. */
+function effectiveMonth(effectiveFrom: unknown): string | null {
+  return typeof effectiveFrom === 'string' ? effectiveFrom.slice(0, 7) : null;
+}
+
+function parseProductCostInput(input: Partial<ProductCostInput>, requireAll: boolean): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.product_id !== undefined || requireAll) {
+    const productId = String(input.product_id ?? '').trim();
+    if (!/^\d+$/.test(productId)) throw validationError('product_id must be a Shopify product ID');
+    row.product_id = productId;
+  }
+  if (input.product_name !== undefined || requireAll) {
+    const name = String(input.product_name ?? '').trim();
+    if (!name) throw validationError('product_name is required');
+    row.product_name = name;
+  }
+  for (const field of PRODUCT_COST_COMPONENTS) {
+    if (input[field] === undefined) {
+      if (requireAll) row[field] = 0;
+      continue;
+    }
+    const value = Number(input[field]);
+    if (!Number.isFinite(value) || value < 0) throw validationError(`${field} must be a non-negative number`);
+    row[field] = value;
+  }
+  if (input.effective_from !== undefined || requireAll) {
+    const effectiveFrom = input.effective_from ?? cairoDateString(new Date());
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) throw validationError('effective_from must be YYYY-MM-DD');
+    row.effective_from = effectiveFrom;
+  }
+  return row;
+}
+
+/**
+ * Per-product unit cost configuration. Each row is a version that applies from
+ * its effective_from date; a cost change is a new version, so months already
+ * closed keep the cost they were calculated with. Versions effective in a closed
+ * month cannot be added, edited or deleted until the month is reopened.
+ */
+export class ProductionCostService {
+  /** Every version, newest first per product. */
+  async getAllVersions(productIds?: string[]): Promise<ProductCost[]> {
+    let query = supabase
+      .from(PRODUCT_COSTS_TABLE)
+      .select('*')
+      .order('product_id', { ascending: true })
+      .order('effective_from', { ascending: false });
+
+    if (productIds) {
+      if (productIds.length === 0) return [];
+      query = query.in('product_id', productIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('product_costs table missing — COGS will be 0. See docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching product costs: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as ProductCost[];
+  }
+
+  /** One cost per product: the version in effect on `asOf` (YYYY-MM-DD, default today). */
+  async getAll(asOf?: string): Promise<ProductCost[]> {
+    const date = asOf ?? cairoDateString(new Date());
+    const costs = effectiveProductCosts(await this.getAllVersions(), date);
+    return costs.sort((a, b) => a.product_name.localeCompare(b.product_name));
+  }
+
+  async getHistory(productId: string): Promise<ProductCost[]> {
+    return this.getAllVersions([productId]);
+  }
+
+  async getById(id: string): Promise<ProductCost | null> {
+    const { data, error } = await supabase
+      .from(PRODUCT_COSTS_TABLE)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116' || error.code === '22P02') {
+        return null;
+      }
+      logger.error('Error fetching product cost:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /** Product ID → cost version in effect on `asOf`, for the given products. */
+  async getEffectiveCosts(productIds: string[], asOf: string): Promise<Map<string, ProductCost>> {
+    const versions = await this.getAllVersions(productIds);
+    const costs = new Map<string, ProductCost>();
+    for (const productId of productIds) {
+      const cost = effectiveProductCost(versions, productId, asOf);
+      if (cost) costs.set(productId, cost);
+    }
+    return costs;
+  }
+
+  /** Add a cost version (a product's first cost, or a change from effective_from on). */
+  async create(input: ProductCostInput): Promise<ProductCost> {
+    const row = parseProductCostInput(input, true);
+    await financeMonthCloseService.assertOpen(effectiveMonth(row.effective_from), 'new product cost versions');
+
+    const { data, error } = await supabase
+      .from(PRODUCT_COSTS_TABLE)
+      .insert([row])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating product cost: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /** Correct a version in place (use create for a cost change). */
+  async update(id: string, input: Partial<ProductCostInput>): Promise<ProductCost> {
+    const row = parseProductCostInput(input, false);
+    const existing = await this.getById(id);
+    // Neither the month the version was effective in nor the one it moves to may be closed
+    await financeMonthCloseService.assertOpen(effectiveMonth(existing?.effective_from), 'product cost edits');
+    await financeMonthCloseService.assertOpen(effectiveMonth(row.effective_from), 'product cost edits');
+
+    const { data, error } = await supabase
+      .from(PRODUCT_COSTS_TABLE)
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating product cost: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async delete(id: string): Promise<void> {
+    const existing = await this.getById(id);
+    await financeMonthCloseService.assertOpen(effectiveMonth(existing?.effective_from), 'product cost deletions');
+
+    const { error } = await supabase
+      .from(PRODUCT_COSTS_TABLE)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      logger.error('Error deleting product cost:', error);
+      throw error;
+    }
+  }
+
+  /** Accrual COGS for paid orders at the cost versions in effect when each was paid. */
+  async calculateCogs(orders: CogsOrder[]): Promise<CogsResult> {
+    const result = calculateCogs(orders, await this.getAllVersions());
+    if (result.uncostedUnits > 0) {
+      logger.warn(
+        `COGS: ${result.uncostedUnits} unit(s) without a product cost (${result.uncostedProducts.slice(0, 10).join(', ')})`
+      );
+    }
+    return result;
+  }
+}
+
+export const productionCostService = new ProductionCostService();
@@ -1,47 +1,47 @@
 import { supabase } from '../../config/supabase';
 import { MonthlyProfit } from '../../types/financial';
 import { expenseService } from './expenseService';
-import { shopifyService } from '../shopify';
+import { productionCostService } from './productionCostService';
+import { orderMirrorService } from '../orders/orderMirrorService';
 import { logger } from '../../utils/logger';
-import { isPastFinanceMonth, orderMonthFromTag, parseOrderTags } from '../../utils/financeMonth';
+import { isPastFinanceMonth } from '../../utils/financeMonth';
 import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { parseOrderWorkflowState, readOrderWorkflowState } from '../../utils/orderWorkflowState';
 import { financeMonthSnapshotService } from './financeMonthSnapshotService';
 
-const PAID_DATE_PREFIXES = ['paid_date:'];
-const CANCELLED_DATE_PREFIXES = [
-  'paid_date:',
-  'fulfillment_date:',
-  'shipping_company_cost_date:',
-  'scooter_shipping_cost_date:',
-];
+function monthOf(date: string | undefined): string | null {
+  return date ? date.substring(0, 7) : null;
+}
 
 function filterPaidOrdersForMonth(orders: any[], month: string): any[] {
   return orders.filter((order) => {
-    const tags = parseOrderTags(order.tags);
-    if (!tags.some((t) => t.toLowerCase() === 'paid')) return false;
-    if (tags.some((t) => t.toLowerCase() === 'cancelled')) return false;
-    const orderMonth = orderMonthFromTag(tags, PAID_DATE_PREFIXES);
-    return orderMonth === month;
+    const state = readOrderWorkflowState(order.tags);
+    if (!state.statusFlags.includes('paid')) return false;
+    if (state.statusFlags.includes('cancelled')) return false;
+    return monthOf(state.paidDate) === month;
   });
 }
 
 function filterCancelledOrdersForMonth(orders: any[], month: string): any[] {
   return orders.filter((order) => {
-    const tags = parseOrderTags(order.tags);
-    if (!tags.some((t) => t.toLowerCase() === 'cancelled')) return false;
-    const hasShippingCost = tags.some(
-      (t) =>
-        t.startsWith('shipping_company_cost:') || t.startsWith('scooter_shipping_cost:')
-    );
+    const state = readOrderWorkflowState(order.tags);
+    if (!state.statusFlags.includes('cancelled')) return false;
+    const hasShippingCost =
+      state.shippingCompanyCost !== undefined || state.scooterShippingCost !== undefined;
     if (!hasShippingCost) return false;
-    const orderMonth = orderMonthFromTag(tags, CANCELLED_DATE_PREFIXES);
+    const orderMonth = monthOf(
+      state.paidDate ??
+        state.fulfillmentDate ??
+        state.shippingCompanyCostDate ??
+        state.scooterShippingCostDate
+    );
     return orderMonth === month;
   });
 }
 
 export class ProfitEngineService {
   /**
-   * One scoped Shopify fetch per order set (not the full catalog).
+   * One scoped order-mirror read per order set (not the full catalog).
    */
   async loadFinanceOrdersForMonth(
     month: string,
@@ -57,8 +57,8 @@ export class ProfitEngineService {
     }
 
     const [paidCandidates, cancelledCandidates] = await Promise.all([
-      shopifyService.getOrders({ ordersQuery: 'tag:paid NOT tag:cancelled' }),
-      shopifyService.getOrders({ ordersQuery: 'tag:cancelled' }),
+      orderMirrorService.getOrders({ withTags: ['paid'], withoutTags: ['cancelled'] }),
+      orderMirrorService.getOrders({ withTags: ['cancelled'] }),
     ]);
 
     return {
@@ -83,8 +83,9 @@ export class ProfitEngineService {
     logger.info(`Calculating profit for month: ${month}`);
 
     const revenue = this.calculateRevenue(fulfilledOrders);
-    const cogs = 0;
-    const grossProfit = revenue;
+    // Accrual: paid units at the product cost in effect when each order was paid
+    const { cogs } = await productionCostService.calculateCogs(fulfilledOrders);
+    const grossProfit = revenue - cogs;
     const monthlyExpenses = await expenseService.getMonthlyTotal(month, 'operating');
     const productionCostsPaid = await expenseService.getMonthlyTotal(month, 'production');
     const shippingCostFromFulfilled = await this.calculateTotalShippingCostsFromTags(
@@ -168,33 +169,18 @@ export class ProfitEngineService {
 
     for (const order of orders) {
       // Check if order has scooter shipping method
-      const tags = Array.isArray(order.tags)
-        ? order.tags
-        : typeof order.tags === 'string'
-          ? order.tags.split(',').map((t: string) => t.trim())
-          : [];
-
-      // Check for scooter shipping method tag
-      const isScooter = tags.some((tag: string) => 
-        tag.trim().toLowerCase().startsWith('shipping_method:') && 
-        tag.trim().toLowerCase().includes('scooter')
-      );
-
-      if (!isScooter) continue;
+      const { state, issues } = parseOrderWorkflowState(order.tags);
+      if (state.shippingMethod !== 'scooter') continue;
 
       // Get scooter shipping cost from tag
-      const scooterCostTag = tags.find((tag: string) => 
-        tag.trim().startsWith('scooter_shipping_cost:')
-      );
-
-      if (!scooterCostTag) {
-        logger.warn(`Scooter order ${order.name} missing scooter_shipping_cost tag`);
-        continue;
-      }
-
-      const actualCost = parseFloat(scooterCostTag.split(':')[1]?.trim() || '0');
-      if (isNaN(actualCost)) {
-        logger.warn(`Invalid scooter_shipping_cost for order ${order.name}: ${scooterCostTag}`);
+      const actualCost = state.scooterShippingCost;
+      if (actualCost === undefined) {
+        const invalid = issues.find((issue) => issue.field === 'scooterShippingCost');
+        if (invalid) {
+          logger.warn(`Invalid scooter_shipping_cost for order ${order.name}: ${invalid.tag}`);
+        } else {
+          logger.warn(`Scooter order ${order.name} missing scooter_shipping_cost tag`);
+        }
         continue;
       }
 
@@ -238,29 +224,18 @@ export class ProfitEngineService {
     let totalProfitLoss = 0;
 
     for (const order of orders) {
-      const tags = Array.isArray(order.tags)
-        ? order.tags
-        : typeof order.tags === 'string'
-          ? order.tags.split(',').map((t: string) => t.trim())
-          : [];
-
-      // Check for shipping company cost tag
-      const companyCostTag = tags.find((tag: string) => 
-        tag.trim().startsWith('shipping_company_cost:')
-      );
-
-      if (!companyCostTag) {
+      // Get actual shipping cost from shipping_company_cost tag
+      const { state, issues } = parseOrderWorkflowState(order.tags);
+      const actualCost = state.shippingCompanyCost;
+      if (actualCost === undefined) {
+        const invalid = issues.find((issue) => issue.field === 'shippingCompanyCost');
+        if (invalid) {
+          logger.warn(`Invalid shipping_company_cost for order ${order.name}: ${invalid.tag}`);
+        }
         // Skip orders without shipping company cost tag
         continue;
       }
 
-      // Get actual shipping cost from tag
-      const actualCost = parseFloat(companyCostTag.split(':')[1]?.trim() || '0');
-      if (isNaN(actualCost)) {
-        logger.warn(`Invalid shipping_company_cost for order ${order.name}: ${companyCostTag}`);
-        continue;
-      }
-
       // Get customer shipping charged
       // Try to get shipping price from order (if available in Shopify API response)
       let customerCharged = 0;
@@ -299,29 +274,18 @@ export class ProfitEngineService {
     let totalLosses = 0;
 
     for (const order of orders) {
-      const tags = Array.isArray(order.tags)
-        ? order.tags
-        : typeof order.tags === 'string'
-          ? order.tags.split(',').map((t: string) => t.trim())
-          : [];
-
-      // Check for shipping company cost tag
-      const companyCostTag = tags.find((tag: string) => 
-        tag.trim().startsWith('shipping_company_cost:')
-      );
-
-      if (!companyCostTag) {
+      // Get actual shipping cost from shipping_company_cost tag
+      const { state, issues } = parseOrderWorkflowState(order.tags);
+      const actualCost = state.shippingCompanyCost;
+      if (actualCost === undefined) {
+        const invalid = issues.find((issue) => issue.field === 'shippingCompanyCost');
+        if (invalid) {
+          logger.warn(`Invalid shipping_company_cost for cancelled order ${order.name}: ${invalid.tag}`);
+        }
         // Skip orders without shipping company cost tag
         continue;
       }
 
-      // Get actual shipping cost from tag
-      const actualCost = parseFloat(companyCostTag.split(':')[1]?.trim() || '0');
-      if (isNaN(actualCost)) {
-        logger.warn(`Invalid shipping_company_cost for cancelled order ${order.name}: ${companyCostTag}`);
-        continue;
-      }
-
       // For cancelled orders, customer was not charged (order was cancelled)
       // So the loss is the full shipping cost
       const loss = -actualCost; // Negative because it's a loss
@@ -341,33 +305,9 @@ export class ProfitEngineService {
     let totalCosts = 0;
 
     for (const order of orders) {
-      const tags = Array.isArray(order.tags)
-        ? order.tags
-        : typeof order.tags === 'string'
-          ? order.tags.split(',').map((t: string) => t.trim())
-          : [];
-
-      // Get scooter shipping cost
-      const scooterCostTag = tags.find((tag: string) => 
-        tag.trim().startsWith('scooter_shipping_cost:')
-      );
-      if (scooterCostTag) {
-        const cost = parseFloat(scooterCostTag.split(':')[1]?.trim() || '0');
-        if (!isNaN(cost)) {
-          totalCosts += cost;
-        }
-      }
-
-      // Get company shipping cost
-      const companyCostTag = tags.find((tag: string) => 
-        tag.trim().startsWith('shipping_company_cost:')
-      );
-      if (companyCostTag) {
-        const cost = parseFloat(companyCostTag.split(':')[1]?.trim() || '0');
-        if (!isNaN(cost)) {
-          totalCosts += cost;
-        }
-      }
+      const state = readOrderWorkflowState(order.tags);
+      totalCosts += state.scooterShippingCost ?? 0;
+      totalCosts += state.shippingCompanyCost ?? 0;
     }
 
     return totalCosts;
@@ -0,0 +1,426 @@
+import { supabase } from '../../config/supabase';
+import {
+  RecurringExpense,
+  RecurringExpenseInput,
+  RecurringExpenseOccurrence,
+  RecurringMaterializeResult,
+  RecurringOccurrencePreview,
+} from '../../types/financial';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { getCurrentFinanceMonth, shiftFinanceMonth } from '../../utils/financeMonth';
+import {
+  CADENCE_MONTHS,
+  firstPostableDate,
+  occurrenceDateInMonth,
+  occurrenceDates,
+  previewOccurrences,
+} from '../../utils/recurringExpenses';
+import { expenseService } from './expenseService';
+
+const TEMPLATES_TABLE = 'recurring_expenses';
+const OCCURRENCES_TABLE = 'recurring_expense_occurrences';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TEMPLATE_FIELDS: (keyof RecurringExpenseInput)[] = [
+  'name',
+  'category',
+  'amount',
+  'expense_type',
+  'paid_by',
+  'cadence',
+  'day_of_month',
+  'start_date',
+  'end_date',
+  'notes',
+  'active',
+  'backfill',
+];
+
+class RecurringExpenseNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+class RecurringOccurrencePostedError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+/** Today as YYYY-MM-DD in local server time, like getCurrentFinanceMonth. */
+function todayString(): string {
+  const now = new Date();
+  return `${getCurrentFinanceMonth()}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function parseTemplateInput(input: Partial<RecurringExpenseInput>): Partial<RecurringExpenseInput> {
+  const parsed: Partial<RecurringExpenseInput> = {};
+  for (const key of TEMPLATE_FIELDS) {
+    if (input[key] !== undefined) (parsed as Record<string, unknown>)[key] = input[key];
+  }
+  if (input.name !== undefined) {
+    parsed.name = String(input.name).trim();
+    if (!parsed.name) throw validationError('name is required');
+  }
+  if (input.amount !== undefined) {
+    const amount = Number(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0) throw validationError('amount must be a positive number');
+    parsed.amount = amount;
+  }
+  if (input.cadence !== undefined && !(input.cadence in CADENCE_MONTHS)) {
+    throw validationError(`cadence must be one of ${Object.keys(CADENCE_MONTHS).join(', ')}`);
+  }
+  if (input.day_of_month !== undefined) {
+    const day = Number(input.day_of_month);
+    if (!Number.isInteger(day) || day < 1 || day > 31) throw validationError('day_of_month must be between 1 and 31');
+    parsed.day_of_month = day;
+  }
+  if (input.start_date !== undefined && !DATE_PATTERN.test(String(input.start_date))) {
+    throw validationError('start_date must be YYYY-MM-DD');
+  }
+  if (input.end_date && !DATE_PATTERN.test(String(input.end_date))) {
+    throw validationError('end_date must be YYYY-MM-DD');
+  }
+  if (input.end_date === '') parsed.end_date = null;
+  if (input.backfill !== undefined) parsed.backfill = input.backfill === true;
+  return parsed;
+}
+
+/**
+ * Templates for expenses that repeat (rent, utilities, the media buyer fixed
+ * fee). The scheduler posts each due occurrence as a financial_expenses row;
+ * single occurrences can be skipped or adjusted before they post.
+ */
+export class RecurringExpenseService {
+  async getAll(options: { activeOnly?: boolean } = {}): Promise<RecurringExpense[]> {
+    let query = supabase.from(TEMPLATES_TABLE).select('*').order('name', { ascending: true });
+    if (options.activeOnly) query = query.eq('active', true);
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('recurring_expenses table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching recurring expenses: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as RecurringExpense[];
+  }
+
+  async getById(id: string): Promise<RecurringExpense> {
+    const { data, error } = await supabase.from(TEMPLATES_TABLE).select('*').eq('id', id).single();
+
+    if (error) {
+      if (error.code === 'PGRST116') throw new RecurringExpenseNotFoundError('Recurring expense not found');
+      logger.error(`Error fetching recurring expense: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as RecurringExpense;
+  }
+
+  async create(input: RecurringExpenseInput): Promise<RecurringExpense> {
+    const parsed = parseTemplateInput(input);
+    if (!parsed.name || parsed.amount === undefined || !parsed.category) {
+      throw validationError('name, category and amount are required');
+    }
+    if (parsed.day_of_month === undefined || !parsed.start_date) {
+      throw validationError('day_of_month and start_date are required');
+    }
+    if (parsed.end_date && parsed.end_date < parsed.start_date) throw validationError('end_date is before start_date');
+
+    const { data, error } = await supabase
+      .from(TEMPLATES_TABLE)
+      .insert({
+        name: parsed.name,
+        category: parsed.category,
+        amount: parsed.amount,
+        expense_type: parsed.expense_type ?? 'operating',
+        paid_by: parsed.paid_by ?? 'Business',
+        cadence: parsed.cadence ?? 'monthly',
+        day_of_month: parsed.day_of_month,
+        start_date: parsed.start_date,
+        end_date: parsed.end_date ?? null,
+        notes: parsed.notes ?? null,
+        active: parsed.active ?? true,
+        backfill: parsed.backfill ?? false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating recurring expense: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as RecurringExpense;
+  }
+
+  /** Changes apply to occurrences not posted yet; posted expenses keep their values. */
+  async update(id: string, input: Partial<RecurringExpenseInput>): Promise<RecurringExpense> {
+    const existing = await this.getById(id);
+    const parsed = parseTemplateInput(input);
+    const startDate = parsed.start_date ?? existing.start_date;
+    const endDate = parsed.end_date !== undefined ? parsed.end_date : existing.end_date;
+    if (endDate && endDate < startDate) throw validationError('end_date is before start_date');
+
+    const { data, error } = await supabase
+      .from(TEMPLATES_TABLE)
+      .update({ ...parsed, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating recurring expense: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as RecurringExpense;
+  }
+
+  /** Removes the template and its skips/adjustments; expenses it already posted stay. */
+  async delete(id: string): Promise<void> {
+    await this.getById(id);
+    const { error } = await supabase.from(TEMPLATES_TABLE).delete().eq('id', id);
+
+    if (error) {
+      logger.error(`Error deleting recurring expense: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  async getOccurrences(filters: { recurringExpenseId?: string; from?: string; to?: string } = {}): Promise<RecurringExpenseOccurrence[]> {
+    let query = supabase.from(OCCURRENCES_TABLE).select('*').order('occurrence_date', { ascending: true });
+    if (filters.recurringExpenseId) query = query.eq('recurring_expense_id', filters.recurringExpenseId);
+    if (filters.from) query = query.gte('occurrence_date', filters.from);
+    if (filters.to) query = query.lte('occurrence_date', filters.to);
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('recurring_expense_occurrences table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching recurring expense occurrences: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as RecurringExpenseOccurrence[];
+  }
+
+  /** Skip one occurrence, or post it with a different amount or notes. */
+  async setOccurrence(
+    id: string,
+    date: string,
+    change: { skip?: boolean; amount?: number | null; notes?: string | null }
+  ): Promise<RecurringExpenseOccurrence> {
+    const template = await this.getById(id);
+    await this.assertNotPosted(template, date);
+
+    let amount: number | null = null;
+    if (change.amount !== undefined && change.amount !== null) {
+      amount = Number(change.amount);
+      if (!Number.isFinite(amount) || amount <= 0) throw validationError('amount must be a positive number');
+    }
+
+    const { data, error } = await supabase
+      .from(OCCURRENCES_TABLE)
+      .upsert(
+        {
+          recurring_expense_id: id,
+          occurrence_date: date,
+          status: change.skip ? 'skipped' : 'pending',
+          amount,
+          notes: change.notes ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'recurring_expense_id,occurrence_date' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error saving recurring expense occurrence: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return data as RecurringExpenseOccurrence;
+  }
+
+  /** Drop a skip or adjustment so the occurrence posts from the template again. */
+  async resetOccurrence(id: string, date: string): Promise<void> {
+    const template = await this.getById(id);
+    await this.assertNotPosted(template, date);
+
+    const { error } = await supabase
+      .from(OCCURRENCES_TABLE)
+      .delete()
+      .eq('recurring_expense_id', id)
+      .eq('occurrence_date', date);
+
+    if (error) {
+      logger.error(`Error resetting recurring expense occurrence: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  /** Occurrences from the start of the current month through `months` ahead, plus anything still due. */
+  async preview(months = 3): Promise<RecurringOccurrencePreview[]> {
+    const today = todayString();
+    const currentMonth = getCurrentFinanceMonth();
+    const to = occurrenceDateInMonth(shiftFinanceMonth(currentMonth, Math.max(months, 0)), 31);
+    const templates = await this.getAll({ activeOnly: true });
+    if (templates.length === 0) return [];
+
+    const earliestStart = templates.reduce((min, t) => (t.start_date < min ? t.start_date : min), `${currentMonth}-01`);
+    const rows = previewOccurrences(templates, await this.getOccurrences({ from: earliestStart, to }), earliestStart, to, today);
+    return rows.filter((row) => row.date >= `${currentMonth}-01` || row.status === 'due');
+  }
+
+  /**
+   * Post every due occurrence of the active templates that is neither posted nor
+   * skipped, from firstPostableDate. Occurrences in closed finance months are left
+   * due and reported.
+   */
+  async materializeDue(today = todayString()): Promise<RecurringMaterializeResult> {
+    const result: RecurringMaterializeResult = { posted: 0, skipped: 0, blocked: [] };
+    const templates = await this.getAll({ activeOnly: true });
+
+    for (const template of templates) {
+      const dates = occurrenceDates(template, firstPostableDate(template), today);
+      if (dates.length === 0) continue;
+      const occurrences = new Map(
+        (await this.getOccurrences({ recurringExpenseId: template.id, from: dates[0], to: today })).map((o) => [
+          o.occurrence_date,
+          o,
+        ])
+      );
+
+      for (const date of dates) {
+        const occurrence = occurrences.get(date);
+        if (occurrence?.status === 'posted') continue;
+        if (occurrence?.status === 'skipped') {
+          result.skipped += 1;
+          continue;
+        }
+
+        // Claim the occurrence first so two runs (scheduler and the manual button) cannot both post it
+        if (!(await this.claimOccurrence(template.id, date, occurrence))) continue;
+
+        try {
+          const expense = await expenseService.create({
+            category: template.category,
+            amount: Number(occurrence?.amount ?? template.amount),
+            date,
+            notes: occurrence?.notes ?? template.notes ?? template.name,
+            expense_type: template.expense_type,
+            paid_by: template.paid_by,
+            recurring_expense_id: template.id,
+          });
+          await this.markPosted(template.id, date, expense.id);
+          result.posted += 1;
+        } catch (error: unknown) {
+          await this.releaseOccurrence(template.id, date, occurrence);
+          const reason = error instanceof Error ? error.message : String(error);
+          logger.warn('Recurring expense occurrence not posted', { recurringExpenseId: template.id, date, reason });
+          result.blocked.push({ recurring_expense_id: template.id, date, reason });
+        }
+      }
+    }
+
+    if (result.posted > 0 || result.blocked.length > 0) {
+      logger.info('Recurring expenses materialized', {
+        posted: result.posted,
+        blocked: result.blocked.length,
+      });
+    }
+    return result;
+  }
+
+  /** Mark a due occurrence posted before its expense exists; false when another run got there first. */
+  private async claimOccurrence(id: string, date: string, occurrence?: RecurringExpenseOccurrence): Promise<boolean> {
+    if (!occurrence) {
+      const { error } = await supabase
+        .from(OCCURRENCES_TABLE)
+        .insert({ recurring_expense_id: id, occurrence_date: date, status: 'posted' });
+      if (!error) return true;
+      if (error.code === '23505') return false;
+      logger.error(`Error claiming recurring expense occurrence: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    // A pending row carries an adjustment; only the run that flips it posts
+    const { data, error } = await supabase
+      .from(OCCURRENCES_TABLE)
+      .update({ status: 'posted', updated_at: new Date().toISOString() })
+      .eq('id', occurrence.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) {
+      logger.error(`Error claiming recurring expense occurrence: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return (data ?? []).length > 0;
+  }
+
+  /** Undo a claim whose expense could not be created, keeping any adjustment. */
+  private async releaseOccurrence(id: string, date: string, occurrence?: RecurringExpenseOccurrence): Promise<void> {
+    const query = occurrence
+      ? supabase.from(OCCURRENCES_TABLE).update({ status: 'pending', updated_at: new Date().toISOString() }).eq('id', occurrence.id)
+      : supabase.from(OCCURRENCES_TABLE).delete().eq('recurring_expense_id', id).eq('occurrence_date', date);
+    const { error } = await query;
+    if (error) logger.error(`Error releasing recurring expense occurrence: ${formatSupabaseError(error)}`);
+  }
+
+  private async markPosted(id: string, date: string, expenseId: string): Promise<void> {
+    const { error } = await supabase.from(OCCURRENCES_TABLE).upsert(
+      {
+        recurring_expense_id: id,
+        occurrence_date: date,
+        status: 'posted',
+        expense_id: expenseId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'recurring_expense_id,occurrence_date' }
+    );
+
+    if (error) {
+      logger.error(`Error marking recurring expense occurrence posted: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  private async assertNotPosted(template: RecurringExpense, date: string): Promise<void> {
+    if (!DATE_PATTERN.test(date) || !occurrenceDates(template, date, date).includes(date)) {
+      throw validationError(`${date} is not an occurrence of ${template.name}`);
+    }
+    const [occurrence] = await this.getOccurrences({ recurringExpenseId: template.id, from: date, to: date });
+    if (occurrence?.status === 'posted') {
+      throw new RecurringOccurrencePostedError(`${template.name} on ${date} is already posted — edit the expense instead`);
+    }
+  }
+}
+
+export const recurringExpenseService = new RecurringExpenseService();
@@ -2,6 +2,7 @@ import { supabase } from '../../config/supabase';
 import { ShippingRecord, ShippingRecordInput } from '../../types/financial';
 import { logger } from '../../utils/logger';
 import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { financeMonthCloseService } from './financeMonthCloseService';
 
 function isMissingTableError(error: { code?: string; message?: string }): boolean {
   return (
@@ -60,6 +61,7 @@ export class ShippingLedgerService {
     // Extract month from date (YYYY-MM-DD -> YYYY-MM)
     const date = new Date(input.date);
     const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    await financeMonthCloseService.assertOpen(month, 'new shipping records');
 
     const { data, error } = await supabase
       .from('shipping_records')
@@ -87,6 +89,11 @@ export class ShippingLedgerService {
       updateData.month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
     }
 
+    // Neither the month it was in nor the one it moves to may be closed
+    const existing = await this.getById(id);
+    await financeMonthCloseService.assertOpen(existing?.month ?? null, 'shipping record edits');
+    await financeMonthCloseService.assertOpen(updateData.month ?? null, 'shipping record edits');
+
     const { data, error } = await supabase
       .from('shipping_records')
       .update(updateData)
@@ -103,6 +110,9 @@ export class ShippingLedgerService {
   }
 
   async delete(id: string): Promise<void> {
+    const existing = await this.getById(id);
+    await financeMonthCloseService.assertOpen(existing?.month ?? null, 'shipping record deletions');
+
     const { error } = await supabase
       .from('shipping_records')
       .delete()
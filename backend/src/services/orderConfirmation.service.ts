@@ -2,6 +2,7 @@ import { sendOrderConfirmationMessage } from './orderConfirmationMessaging';
 import { ShopifyService } from './shopify';
 import { logger } from '../utils/logger';
 import { ShopifyOrder } from './shopify';
+import { orderMirrorService } from './orders/orderMirrorService';
 import { orderConfirmationQueue } from '../jobs/queue';
 
 const CONFIRMATION_SENT_TAG = 'confirmation_sent';
@@ -139,9 +140,17 @@ export class OrderConfirmationService {
 
   /** Orders eligible for first confirmation (same filter as scheduler). */
   public async getPendingConfirmationOrders(): Promise<ShopifyOrder[]> {
-    return this.shopifyService.getOrders({
-      excluded_tags:
-        'confirmed,ready_to_ship,shipped,fulfilled,paid,cancelled,confirmation_sent,confirmation_scheduled'
+    return orderMirrorService.getOrders({
+      withoutTags: [
+        'confirmed',
+        'ready_to_ship',
+        'shipped',
+        'fulfilled',
+        'paid',
+        'cancelled',
+        'confirmation_sent',
+        'confirmation_scheduled',
+      ],
     });
   }
 
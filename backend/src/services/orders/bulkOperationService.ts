@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { paidMonthsChanged, parseOrderTags } from '../../utils/financeMonth';
+import { getOrderWorkflowStatusFromTags, OrderWorkflowStatus, readOrderWorkflowState } from '../../utils/orderWorkflowState';
+import { shopifyService } from '../shopify';
+import { getOrderEventContext } from './orderEventService';
+import { orderStatusService } from './orderStatusService';
+import { financeMonthCloseService } from '../financial/financeMonthCloseService';
+import { shipmentCreationService } from '../shipping/shipmentCreationService';
+
+const OPERATIONS_TABLE = 'bulk_operations';
+const OPERATION_ORDERS_TABLE = 'bulk_operation_orders';
+const INSERT_CHUNK_SIZE = 500;
+
+export type BulkOperationType = 'bulk_status' | 'bulk_shipping_cost_import' | 'bulk_shipping_cost_revert';
+
+export type BulkOperationStatus = 'applied' | 'reverted' | 'partially_reverted';
+
+export interface BulkOperation {
+  id: string;
+  type: BulkOperationType;
+  description: string;
+  source: string;
+  actor: string | null;
+  order_count: number;
+  status: BulkOperationStatus;
+  created_at: string;
+  reverted_at: string | null;
+}
+
+interface BulkOperationOrderRow {
+  operation_id: string;
+  order_id: number;
+  order_name: string | null;
+  tags_before: string[];
+  tags_after: string[];
+  reverted_at: string | null;
+  revert_error: string | null;
+}
+
+export interface BulkOperationRevertResult {
+  operationId: string;
+  reverted: number[];
+  /** Orders changed again after the bulk operation; skipped unless `force` is set. */
+  conflicts: Array<{ orderId: number; orderName: string | null }>;
+  failed: Array<{ orderId: number; error: string }>;
+  /** Shipments booked after the operation whose orders went back before ready_to_ship. */
+  shipments: Array<{ orderId: number; orderName: string | null; barcode: string; cancelled: boolean; error?: string }>;
+  status: BulkOperationStatus;
+}
+
+class BulkOperationNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(operationId: string) {
+    super(`Bulk operation ${operationId} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+/**
+ * Tags the carrier integration writes on its own (a shipment booked when the bulk
+ * move reached ready_to_ship, delivery attempts). They never make an order a
+ * conflict and are kept on revert, except the barcode of a shipment the revert cancels.
+ */
+const CARRIER_TAG_PREFIXES = ['shipping_barcode:', 'delivery_attempt:', 'delivery_reschedule_date:'];
+
+function isCarrierTag(tag: string): boolean {
+  const lower = tag.trim().toLowerCase();
+  return CARRIER_TAG_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
+
+function withoutCarrierTags(tags: string[]): string[] {
+  return tags.filter((tag) => !isCarrierTag(tag));
+}
+
+/** Statuses an order has a booked shipment in; reverting to any other cancels one booked since. */
+const SHIPMENT_STATUSES: OrderWorkflowStatus[] = ['ready_to_ship', 'shipped', 'fulfilled', 'paid'];
+
+function sameTags(a: string[], b: string[]): boolean {
+  const left = new Set(a.map((tag) => tag.trim().toLowerCase()).filter(Boolean));
+  const right = new Set(b.map((tag) => tag.trim().toLowerCase()).filter(Boolean));
+  if (left.size !== right.size) return false;
+  for (const tag of left) if (!right.has(tag)) return false;
+  return true;
+}
+
+/**
+ * Collects the tags of every order a bulk route touches; `commit()` stores the
+ * snapshot so the whole operation can be undone from the Orders page.
+ */
+export class BulkOperationRecorder {
+  readonly id = crypto.randomUUID();
+  private orders: Array<Omit<BulkOperationOrderRow, 'operation_id' | 'reverted_at' | 'revert_error'>> = [];
+
+  constructor(
+    private readonly type: BulkOperationType,
+    private readonly description: string
+  ) {}
+
+  track(order: { id: number; name?: string }, tagsBefore: string[], tagsAfter: string[]): void {
+    if (sameTags(tagsBefore, tagsAfter)) return;
+    this.orders.push({
+      order_id: order.id,
+      order_name: order.name ?? null,
+      tags_before: tagsBefore,
+      tags_after: tagsAfter
+    });
+  }
+
+  get size(): number {
+    return this.orders.length;
+  }
+
+  /** Store the snapshot. Returns the operation ID, or null when nothing changed or storage is unavailable. */
+  async commit(): Promise<string | null> {
+    if (this.orders.length === 0) return null;
+    const context = getOrderEventContext();
+
+    const { error } = await supabase.from(OPERATIONS_TABLE).insert({
+      id: this.id,
+      type: this.type,
+      description: this.description,
+      source: context.source,
+      actor: context.actor ?? null,
+      order_count: this.orders.length,
+      status: 'applied'
+    });
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[bulkOperations] bulk_operations table missing; undo is unavailable');
+      } else {
+        logger.error(`[bulkOperations] Error saving operation ${this.id}: ${formatSupabaseError(error)}`);
+      }
+      return null;
+    }
+
+    const rows = this.orders.map((row) => ({ ...row, operation_id: this.id }));
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const { error: rowsError } = await supabase
+        .from(OPERATION_ORDERS_TABLE)
+        .insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+      if (rowsError) {
+        logger.error(`[bulkOperations] Error saving snapshot for ${this.id}: ${formatSupabaseError(rowsError)}`);
+        // A partial snapshot would undo only some orders; drop the operation instead
+        await supabase.from(OPERATIONS_TABLE).delete().eq('id', this.id);
+        return null;
+      }
+    }
+
+    logger.info('[bulkOperations] Recorded bulk operation', {
+      operationId: this.id,
+      type: this.type,
+      orders: rows.length
+    });
+    return this.id;
+  }
+}
+
+/** Bulk operation snapshots (bulk_operations + bulk_operation_orders) and their undo. */
+export class BulkOperationService {
+  start(type: BulkOperationType, description: string): BulkOperationRecorder {
+    return new BulkOperationRecorder(type, description);
+  }
+
+  /** Newest first. */
+  async list(limit = 20): Promise<BulkOperation[]> {
+    const { data, error } = await supabase
+      .from(OPERATIONS_TABLE)
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[bulkOperations] bulk_operations table missing; returning empty list');
+        return [];
+      }
+      throw error;
+    }
+    return (data || []) as BulkOperation[];
+  }
+
+  /**
+   * Put every order of the operation back to its snapshot tags. Orders whose tags
+   * changed since the operation are reported as conflicts and left alone unless `force`.
+   * Status changes go through orderStatusService so their hooks run for the move
+   * back; carrier tags added since the operation are kept. A shipment booked since
+   * the operation is cancelled when the order goes back before ready_to_ship; if the
+   * carrier refuses, its barcode stays on the order and is reported in `shipments`.
+   */
+  async revert(operationId: string, options: { force?: boolean } = {}): Promise<BulkOperationRevertResult> {
+    const { data: operation, error } = await supabase
+      .from(OPERATIONS_TABLE)
+      .select('*')
+      .eq('id', operationId)
+      .single();
+
+    if (error || !operation) {
+      if (!error || error.code === 'PGRST116' || isMissingTableError(error)) {
+        throw new BulkOperationNotFoundError(operationId);
+      }
+      throw error;
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from(OPERATION_ORDERS_TABLE)
+      .select('*')
+      .eq('operation_id', operationId)
+      .is('reverted_at', null);
+    if (rowsError) throw rowsError;
+
+    const result: BulkOperationRevertResult = {
+      operationId,
+      reverted: [],
+      conflicts: [],
+      failed: [],
+      shipments: [],
+      status: (operation as BulkOperation).status
+    };
+
+    for (const row of (rows || []) as BulkOperationOrderRow[]) {
+      try {
+        const current = await shopifyService.getOrder(row.order_id);
+        let currentTags = parseOrderTags(current.tags);
+
+        if (!options.force && !sameTags(withoutCarrierTags(currentTags), withoutCarrierTags(row.tags_after))) {
+          result.conflicts.push({ orderId: row.order_id, orderName: row.order_name });
+          continue;
+        }
+
+        let restoredTags = [...withoutCarrierTags(row.tags_before), ...currentTags.filter(isCarrierTag)];
+        for (const month of paidMonthsChanged(currentTags, restoredTags)) {
+          await financeMonthCloseService.assertOpen(month, 'paid order changes');
+        }
+        const statusBefore = getOrderWorkflowStatusFromTags(restoredTags);
+        if (getOrderWorkflowStatusFromTags(currentTags) !== statusBefore) {
+          const event = await orderStatusService.transition(current, statusBefore, { override: true, notify: false });
+          currentTags = event.tagsAfter;
+        }
+
+        const barcode = readOrderWorkflowState(currentTags).shippingBarcode;
+        if (
+          barcode &&
+          !SHIPMENT_STATUSES.includes(statusBefore) &&
+          readOrderWorkflowState(row.tags_before).shippingBarcode !== barcode
+        ) {
+          try {
+            await shipmentCreationService.cancel(row.order_id, currentTags, barcode);
+            restoredTags = restoredTags.filter((tag) => !tag.trim().toLowerCase().startsWith('shipping_barcode:'));
+            result.shipments.push({ orderId: row.order_id, orderName: row.order_name, barcode, cancelled: true });
+          } catch (cancelError) {
+            const message = cancelError instanceof Error ? cancelError.message : String(cancelError);
+            logger.warn(`[bulkOperations] Could not cancel shipment ${barcode} of order ${row.order_id}: ${message}`);
+            result.shipments.push({
+              orderId: row.order_id,
+              orderName: row.order_name,
+              barcode,
+              cancelled: false,
+              error: message
+            });
+          }
+        }
+
+        // Dates and other tags the status move does not restore
+        if (!sameTags(currentTags, restoredTags)) {
+          await shopifyService.updateOrderTags(String(row.order_id), restoredTags, {
+            tagsBefore: currentTags
+          });
+        }
+        await this.markOrderReverted(operationId, row.order_id, null);
+        result.reverted.push(row.order_id);
+      } catch (revertError) {
+        const message = revertError instanceof Error ? revertError.message : String(revertError);
+        await this.markOrderReverted(operationId, row.order_id, message, false);
+        result.failed.push({ orderId: row.order_id, error: message });
+      }
+    }
+
+    const { count } = await supabase
+      .from(OPERATION_ORDERS_TABLE)
+      .select('order_id', { count: 'exact', head: true })
+      .eq('operation_id', operationId)
+      .is('reverted_at', null);
+
+    result.status = (count ?? 0) === 0 ? 'reverted' : result.reverted.length > 0 || operation.status !== 'applied'
+      ? 'partially_reverted'
+      : 'applied';
+
+    const { error: updateError } = await supabase
+      .from(OPERATIONS_TABLE)
+      .update({
+        status: result.status,
+        reverted_at: result.status === 'applied' ? null : new Date().toISOString()
+      })
+      .eq('id', operationId);
+    if (updateError) {
+      logger.error(`[bulkOperations] Error updating operation ${operationId}: ${formatSupabaseError(updateError)}`);
+    }
+
+    logger.info('[bulkOperations] Reverted bulk operation', {
+      operationId,
+      reverted: result.reverted.length,
+      conflicts: result.conflicts.length,
+      failed: result.failed.length,
+      shipments: result.shipments.length
+    });
+    return result;
+  }
+
+  private async markOrderReverted(
+    operationId: string,
+    orderId: number,
+    revertError: string | null,
+    reverted = true
+  ): Promise<void> {
+    const { error } = await supabase
+      .from(OPERATION_ORDERS_TABLE)
+      .update({
+        ...(reverted ? { reverted_at: new Date().toISOString() } : {}),
+        revert_error: revertError
+      })
+      .eq('operation_id', operationId)
+      .eq('order_id', orderId);
+    if (error) {
+      logger.error(`[bulkOperations] Error marking order ${orderId} reverted: ${formatSupabaseError(error)}`);
+    }
+  }
+}
+
+export const bulkOperationService = new BulkOperationService();
@@ -0,0 +1,381 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { isPastFinanceMonth, parseOrderTags } from '../../utils/financeMonth';
+import { cairoDateString } from '../../utils/orderListQuery';
+import { getOrderWorkflowStatusFromTags, OrderWorkflowStatus, readOrderWorkflowState } from '../../utils/orderWorkflowState';
+import { buildMakerLaborStatement, MakerAssignment, MakerLaborStatement } from '../../utils/makerLabor';
+import { FinancialExpense } from '../../types/financial';
+import { expenseService } from '../financial/expenseService';
+import { productionCostService } from '../financial/productionCostService';
+import { orderMirrorService } from './orderMirrorService';
+
+const MAKERS_TABLE = 'makers';
+const ASSIGNMENTS_TABLE = 'maker_assignments';
+const STATEMENTS_TABLE = 'maker_labor_statements';
+const MAX_NAME_LENGTH = 80;
+
+export interface Maker {
+  id: string;
+  name: string;
+  phone: string | null;
+  /** EGP per unit when the product has no labor cost configured. */
+  default_rate_per_unit: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MakerInput {
+  name?: unknown;
+  phone?: unknown;
+  default_rate_per_unit?: unknown;
+  active?: unknown;
+}
+
+export interface MakerAssignmentInput {
+  orderId: number;
+  orderName: string;
+  lineItemKey: string;
+  title: string;
+  variantTitle?: string | null;
+  productId?: string | number | null;
+  quantity: number;
+  /** null unassigns the line item. */
+  makerId: string | null;
+}
+
+export interface MakerQueueItem extends MakerAssignment {
+  status: OrderWorkflowStatus | null;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export interface PostedMakerStatement {
+  maker_id: string;
+  month: string;
+  units: number;
+  amount: number;
+  expense_id: string | null;
+  posted_by: string | null;
+  posted_at: string;
+}
+
+class MakerNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(makerId: string) {
+    super(`Maker ${makerId} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+class MakerStatementPostedError extends Error {
+  statusCode = 409;
+
+  constructor(month: string) {
+    super(`The labor statement for ${month} was already posted`);
+    this.name = 'ConflictError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function parseMonth(month: string): string {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) throw validationError('month must be YYYY-MM');
+  return month;
+}
+
+function lastDayOfMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m, 0)).toISOString().split('T')[0];
+}
+
+function parseMakerPatch(input: MakerInput, requireName: boolean): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  if (input.name !== undefined || requireName) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) throw validationError('name is required');
+    if (name.length > MAX_NAME_LENGTH) throw validationError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    patch.name = name;
+  }
+  if (input.phone !== undefined) {
+    patch.phone = typeof input.phone === 'string' && input.phone.trim() ? input.phone.trim() : null;
+  }
+  if (input.default_rate_per_unit !== undefined) {
+    const rate = Number(input.default_rate_per_unit);
+    if (!Number.isFinite(rate) || rate < 0) throw validationError('default_rate_per_unit must be a non-negative number');
+    patch.default_rate_per_unit = rate;
+  }
+  if (input.active !== undefined) patch.active = input.active !== false;
+  return patch;
+}
+
+/**
+ * Makers (crocheters), line item assignments and monthly labor statements.
+ * Assigned units count as made on the day the order is ready (order_ready, or
+ * ready_to_ship / shipped when it skipped it; see the hook in orderStatusService).
+ */
+export class MakerService {
+  async list(includeInactive = false): Promise<Maker[]> {
+    let query = supabase.from(MAKERS_TABLE).select('*').order('name', { ascending: true });
+    if (!includeInactive) query = query.eq('active', true);
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[makers] makers table missing; returning empty list');
+        return [];
+      }
+      throw error;
+    }
+    return (data || []) as Maker[];
+  }
+
+  async get(makerId: string): Promise<Maker> {
+    const { data, error } = await supabase.from(MAKERS_TABLE).select('*').eq('id', makerId).maybeSingle();
+    if (error && !isMissingTableError(error) && error.code !== '22P02') throw error;
+    if (!data) throw new MakerNotFoundError(makerId);
+    return data as Maker;
+  }
+
+  async create(input: MakerInput): Promise<Maker> {
+    const { data, error } = await supabase
+      .from(MAKERS_TABLE)
+      .insert(parseMakerPatch(input, true))
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`[makers] Error creating maker: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return data as Maker;
+  }
+
+  /** Deactivate with { active: false }; makers are never deleted (statements reference them). */
+  async update(makerId: string, input: MakerInput): Promise<Maker> {
+    const patch = { ...parseMakerPatch(input, false), updated_at: new Date().toISOString() };
+    const { data, error } = await supabase.from(MAKERS_TABLE).update(patch).eq('id', makerId).select().maybeSingle();
+    if (error) {
+      logger.error(`[makers] Error updating maker ${makerId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    if (!data) throw new MakerNotFoundError(makerId);
+    return data as Maker;
+  }
+
+  /** Assignments for the given orders, or all in-production assignments when `orderIds` is omitted. */
+  async getAssignments(orderIds?: number[]): Promise<MakerAssignment[]> {
+    let query = supabase.from(ASSIGNMENTS_TABLE).select('*');
+    query = orderIds ? query.in('order_id', orderIds) : query.is('completed_on', null);
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      throw error;
+    }
+    return (data || []) as MakerAssignment[];
+  }
+
+  async assign(input: MakerAssignmentInput): Promise<MakerAssignment | null> {
+    if (!Number.isSafeInteger(input.orderId) || !input.lineItemKey) {
+      throw validationError('orderId and lineItemKey are required');
+    }
+
+    if (input.makerId === null) {
+      const { error } = await supabase
+        .from(ASSIGNMENTS_TABLE)
+        .delete()
+        .eq('order_id', input.orderId)
+        .eq('line_item_key', input.lineItemKey);
+      if (error) throw error;
+      return null;
+    }
+
+    const quantity = Number(input.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) throw validationError('quantity must be a positive integer');
+    const maker = await this.get(input.makerId);
+    if (!maker.active) throw validationError(`${maker.name} is inactive`);
+
+    const { data, error } = await supabase
+      .from(ASSIGNMENTS_TABLE)
+      .upsert(
+        {
+          order_id: input.orderId,
+          order_name: input.orderName,
+          line_item_key: input.lineItemKey,
+          title: input.title,
+          variant_title: input.variantTitle ?? null,
+          product_id: input.productId ? String(input.productId) : null,
+          quantity,
+          maker_id: maker.id,
+          assigned_at: new Date().toISOString(),
+        },
+        { onConflict: 'order_id,line_item_key' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`[makers] Error assigning order ${input.orderId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return data as MakerAssignment;
+  }
+
+  /** Order left production: its assigned units count as made today. */
+  async completeOrder(orderId: number): Promise<void> {
+    const { error } = await supabase
+      .from(ASSIGNMENTS_TABLE)
+      .update({ completed_on: cairoDateString(new Date()) })
+      .eq('order_id', orderId)
+      .is('completed_on', null);
+    if (error && !isMissingTableError(error)) throw error;
+  }
+
+  /** Order moved back to production. Units in a posted statement stay completed. */
+  async reopenOrder(orderId: number): Promise<void> {
+    const assignments = await this.getAssignments([orderId]);
+    for (const assignment of assignments) {
+      if (!assignment.completed_on) continue;
+      if (await this.getPostedStatement(assignment.maker_id, assignment.completed_on.substring(0, 7))) continue;
+      const { error } = await supabase.from(ASSIGNMENTS_TABLE).update({ completed_on: null }).eq('id', assignment.id);
+      if (error) throw error;
+    }
+  }
+
+  /** A maker's open work with the order's status and dates, earliest due first. */
+  async getQueue(makerId: string): Promise<MakerQueueItem[]> {
+    await this.get(makerId);
+    const { data, error } = await supabase
+      .from(ASSIGNMENTS_TABLE)
+      .select('*')
+      .eq('maker_id', makerId)
+      .is('completed_on', null);
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      throw error;
+    }
+
+    const assignments = (data || []) as MakerAssignment[];
+    const orders = await Promise.all(assignments.map((a) => orderMirrorService.getOrder(a.order_id)));
+    const items = assignments.map((assignment, index): MakerQueueItem => {
+      const order = orders[index];
+      const tags = order ? parseOrderTags(order.tags) : [];
+      const state = readOrderWorkflowState(tags);
+      return {
+        ...assignment,
+        status: order ? getOrderWorkflowStatusFromTags(tags) : null,
+        start_date: state.customStartDate?.substring(0, 10) ?? null,
+        due_date: state.customDueDate?.substring(0, 10) ?? null,
+      };
+    });
+
+    return items
+      .filter((item) => item.status !== 'cancelled')
+      .sort((a, b) => (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999') || a.order_id - b.order_id);
+  }
+
+  /** Product labor rates in effect on `asOf` (the product cost version's crochet labor). */
+  private async getLaborRates(productIds: string[], asOf: string): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    const costs = await productionCostService.getEffectiveCosts(productIds, asOf);
+    for (const [productId, cost] of costs) rates.set(productId, Number(cost.crochet_labor_per_unit) || 0);
+    return rates;
+  }
+
+  async getPostedStatement(makerId: string, month: string): Promise<PostedMakerStatement | null> {
+    const { data, error } = await supabase
+      .from(STATEMENTS_TABLE)
+      .select('*')
+      .eq('maker_id', makerId)
+      .eq('month', month)
+      .maybeSingle();
+    if (error) {
+      if (isMissingTableError(error)) return null;
+      throw error;
+    }
+    return (data as PostedMakerStatement) ?? null;
+  }
+
+  async getStatement(
+    makerId: string,
+    month: string
+  ): Promise<MakerLaborStatement & { maker: Maker; posted: PostedMakerStatement | null }> {
+    parseMonth(month);
+    const maker = await this.get(makerId);
+    const { data, error } = await supabase
+      .from(ASSIGNMENTS_TABLE)
+      .select('*')
+      .eq('maker_id', makerId)
+      .gte('completed_on', `${month}-01`)
+      .lte('completed_on', lastDayOfMonth(month));
+    if (error && !isMissingTableError(error)) throw error;
+
+    const assignments = (data || []) as MakerAssignment[];
+    const productIds = Array.from(new Set(assignments.map((a) => a.product_id).filter((id): id is string => !!id)));
+    const [rates, posted] = await Promise.all([
+      this.getLaborRates(productIds, lastDayOfMonth(month)),
+      this.getPostedStatement(makerId, month),
+    ]);
+    const statement = buildMakerLaborStatement(makerId, month, assignments, rates, Number(maker.default_rate_per_unit) || 0);
+    return { ...statement, maker, posted };
+  }
+
+  /** Post a finished month's statement as a Production Labor expense (once per maker and month). */
+  async postStatement(
+    makerId: string,
+    month: string,
+    postedBy?: string
+  ): Promise<{ statement: MakerLaborStatement; expense: FinancialExpense }> {
+    const statement = await this.getStatement(makerId, month);
+    if (!isPastFinanceMonth(month)) throw validationError('Only finished months can be posted');
+    if (statement.posted) throw new MakerStatementPostedError(month);
+    if (statement.totalAmount <= 0) throw validationError(`${statement.maker.name} has no completed units in ${month}`);
+
+    // Claim the month first so two clicks cannot post twice
+    const { error: claimError } = await supabase.from(STATEMENTS_TABLE).insert({
+      maker_id: makerId,
+      month,
+      units: statement.totalUnits,
+      amount: statement.totalAmount,
+      posted_by: postedBy ?? null,
+    });
+    if (claimError) {
+      if (claimError.code === '23505') throw new MakerStatementPostedError(month);
+      throw claimError;
+    }
+
+    try {
+      const expense = await expenseService.create({
+        category: 'Production Labor',
+        amount: statement.totalAmount,
+        date: lastDayOfMonth(month),
+        expense_type: 'production',
+        quantity: statement.totalUnits,
+        unit_cost: Math.round((statement.totalAmount / statement.totalUnits) * 100) / 100,
+        notes: `Labor statement — ${statement.maker.name} (${month}, ${statement.totalUnits} units)`,
+      });
+      await supabase
+        .from(STATEMENTS_TABLE)
+        .update({ expense_id: expense.id })
+        .eq('maker_id', makerId)
+        .eq('month', month);
+      return { statement, expense };
+    } catch (error) {
+      await supabase.from(STATEMENTS_TABLE).delete().eq('maker_id', makerId).eq('month', month);
+      throw error;
+    }
+  }
+}
+
+export const makerService = new MakerService();
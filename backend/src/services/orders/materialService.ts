@@ -0,0 +1,530 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import {
+  availableQuantity,
+  checkMaterialAvailability,
+  isLowStock,
+  Material,
+  MATERIAL_KINDS,
+  MATERIAL_UNITS,
+  MaterialAvailability,
+  MaterialBomLine,
+  MaterialLineItem,
+  materialRequirements,
+} from '../../utils/materialsInventory';
+import { FinancialExpense } from '../../types/financial';
+import { expenseService } from '../financial/expenseService';
+import { discordNotificationService } from '../discordNotifications';
+import { orderMirrorService } from './orderMirrorService';
+
+const MATERIALS_TABLE = 'materials';
+const BOMS_TABLE = 'material_boms';
+const MOVEMENTS_TABLE = 'material_movements';
+const APPLY_STOCK_FUNCTION = 'apply_material_stock';
+const MAX_NAME_LENGTH = 80;
+/** How far back mirrored orders are scanned for the BOM product picker. */
+const PRODUCT_LOOKBACK_DAYS = 365;
+
+export type MaterialMovementKind = 'purchase' | 'reserve' | 'release' | 'consume' | 'adjust';
+
+export interface MaterialMovement {
+  id: string;
+  material_id: string;
+  kind: MaterialMovementKind;
+  /** Positive for every kind except `adjust`, which is a signed correction. */
+  quantity: number;
+  order_id: number | null;
+  expense_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface MaterialInput {
+  name?: unknown;
+  kind?: unknown;
+  color?: unknown;
+  weight?: unknown;
+  unit?: unknown;
+  low_stock_threshold?: unknown;
+  unit_cost?: unknown;
+  active?: unknown;
+}
+
+export interface MaterialPurchaseInput {
+  quantity: number;
+  /** Total paid (EGP). */
+  amount: number;
+  date: string;
+  notes?: string;
+}
+
+export interface MaterialProduct {
+  product_id: string;
+  variant_id: string | null;
+  title: string;
+  variant_title: string | null;
+}
+
+class MaterialNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(materialId: string) {
+    super(`Material ${materialId} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseMaterialPatch(input: MaterialInput, requireName: boolean): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  if (input.name !== undefined || requireName) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) throw validationError('name is required');
+    if (name.length > MAX_NAME_LENGTH) throw validationError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    patch.name = name;
+  }
+  if (input.kind !== undefined) {
+    if (!MATERIAL_KINDS.includes(input.kind as Material['kind'])) {
+      throw validationError(`kind must be one of ${MATERIAL_KINDS.join(', ')}`);
+    }
+    patch.kind = input.kind;
+  }
+  if (input.unit !== undefined) {
+    if (!MATERIAL_UNITS.includes(input.unit as Material['unit'])) {
+      throw validationError(`unit must be one of ${MATERIAL_UNITS.join(', ')}`);
+    }
+    patch.unit = input.unit;
+  }
+  if (input.color !== undefined) patch.color = optionalText(input.color);
+  if (input.weight !== undefined) patch.weight = optionalText(input.weight);
+  if (input.low_stock_threshold !== undefined) {
+    if (input.low_stock_threshold === null || input.low_stock_threshold === '') {
+      patch.low_stock_threshold = null;
+    } else {
+      const threshold = Number(input.low_stock_threshold);
+      if (!Number.isFinite(threshold) || threshold < 0) throw validationError('low_stock_threshold must be a non-negative number');
+      patch.low_stock_threshold = threshold;
+    }
+  }
+  if (input.unit_cost !== undefined) {
+    const cost = Number(input.unit_cost);
+    if (!Number.isFinite(cost) || cost < 0) throw validationError('unit_cost must be a non-negative number');
+    patch.unit_cost = cost;
+  }
+  if (input.active !== undefined) patch.active = input.active !== false;
+  return patch;
+}
+
+/**
+ * Materials catalog (yarn, felt, zippers, cards, ...), bills of materials per
+ * Shopify product/variant and the stock ledger. Stock is reserved when an order
+ * is customer-confirmed and consumed when it is made (see the hook in
+ * orderStatusService); purchases are recorded as production expenses.
+ */
+export class MaterialService {
+  async list(includeInactive = false): Promise<Material[]> {
+    let query = supabase.from(MATERIALS_TABLE).select('*').order('kind').order('name');
+    if (!includeInactive) query = query.eq('active', true);
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[materials] materials table missing; returning empty list');
+        return [];
+      }
+      throw error;
+    }
+    return (data || []) as Material[];
+  }
+
+  async get(materialId: string): Promise<Material> {
+    const { data, error } = await supabase.from(MATERIALS_TABLE).select('*').eq('id', materialId).maybeSingle();
+    if (error && !isMissingTableError(error) && error.code !== '22P02') throw error;
+    if (!data) throw new MaterialNotFoundError(materialId);
+    return data as Material;
+  }
+
+  async create(input: MaterialInput): Promise<Material> {
+    const { data, error } = await supabase
+      .from(MATERIALS_TABLE)
+      .insert({ kind: 'yarn', unit: 'g', ...parseMaterialPatch(input, true) })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`[materials] Error creating material: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return data as Material;
+  }
+
+  /** Catalog fields only; stock changes go through purchases, counts and orders. */
+  async update(materialId: string, input: MaterialInput): Promise<Material> {
+    const patch = { ...parseMaterialPatch(input, false), updated_at: new Date().toISOString() };
+    const { data, error } = await supabase
+      .from(MATERIALS_TABLE)
+      .update(patch)
+      .eq('id', materialId)
+      .select()
+      .maybeSingle();
+    if (error) {
+      logger.error(`[materials] Error updating material ${materialId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    if (!data) throw new MaterialNotFoundError(materialId);
+    return data as Material;
+  }
+
+  async getMovements(materialId: string, limit = 50): Promise<MaterialMovement[]> {
+    const { data, error } = await supabase
+      .from(MOVEMENTS_TABLE)
+      .select('*')
+      .eq('material_id', materialId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      throw error;
+    }
+    return (data || []) as MaterialMovement[];
+  }
+
+  /** BOM lines, optionally for one product. */
+  async getBoms(productId?: string): Promise<MaterialBomLine[]> {
+    let query = supabase.from(BOMS_TABLE).select('*');
+    if (productId) query = query.eq('product_id', productId);
+    const { data, error } = await query;
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      throw error;
+    }
+    return (data || []).map((line) => ({ ...line, quantity_per_unit: Number(line.quantity_per_unit) })) as MaterialBomLine[];
+  }
+
+  /** Replace the BOM of a product (variantId '' or null) or of one variant. An empty list removes it. */
+  async setBom(
+    productId: string,
+    variantId: string | null,
+    lines: Array<{ material_id: string; quantity_per_unit: number }>
+  ): Promise<MaterialBomLine[]> {
+    if (!/^\d+$/.test(productId)) throw validationError('productId must be a Shopify product ID');
+    const variant = variantId ?? '';
+    if (variant && !/^\d+$/.test(variant)) throw validationError('variantId must be a Shopify variant ID');
+
+    const rows = new Map<string, number>();
+    for (const line of lines) {
+      const quantity = Number(line.quantity_per_unit);
+      if (!line.material_id || !Number.isFinite(quantity) || quantity <= 0) {
+        throw validationError('Each BOM line needs a material_id and a positive quantity_per_unit');
+      }
+      rows.set(line.material_id, round3((rows.get(line.material_id) ?? 0) + quantity));
+    }
+
+    const { error: deleteError } = await supabase
+      .from(BOMS_TABLE)
+      .delete()
+      .eq('product_id', productId)
+      .eq('variant_id', variant);
+    if (deleteError) throw deleteError;
+    if (rows.size === 0) return [];
+
+    const { data, error } = await supabase
+      .from(BOMS_TABLE)
+      .insert(
+        Array.from(rows, ([materialId, quantity]) => ({
+          product_id: productId,
+          variant_id: variant,
+          material_id: materialId,
+          quantity_per_unit: quantity,
+        }))
+      )
+      .select();
+    if (error) {
+      logger.error(`[materials] Error saving BOM for product ${productId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return (data || []) as MaterialBomLine[];
+  }
+
+  /** Products and variants seen on recent orders (the BOM picker; there is no products scope). */
+  async listProducts(): Promise<MaterialProduct[]> {
+    const since = new Date(Date.now() - PRODUCT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const orders = await orderMirrorService.getOrders({ created_at_min: since });
+    const products = new Map<string, MaterialProduct>();
+
+    for (const order of orders) {
+      for (const item of order.line_items || []) {
+        if (!item.product_id) continue;
+        const key = `${item.product_id}:${item.variant_id ?? ''}`;
+        if (products.has(key)) continue;
+        products.set(key, {
+          product_id: String(item.product_id),
+          variant_id: item.variant_id ? String(item.variant_id) : null,
+          title: item.title,
+          variant_title: item.variant_title,
+        });
+      }
+    }
+
+    return Array.from(products.values()).sort(
+      (a, b) => a.title.localeCompare(b.title) || (a.variant_title ?? '').localeCompare(b.variant_title ?? '')
+    );
+  }
+
+  /** "Can we make this with what we have": line items against available (unreserved) stock. */
+  async checkAvailability(items: MaterialLineItem[]): Promise<MaterialAvailability> {
+    const [boms, materials] = await Promise.all([this.getBoms(), this.list(true)]);
+    return checkMaterialAvailability(items, boms, materials);
+  }
+
+  /** Record a purchase receipt: a production expense plus the stock it added. */
+  async recordPurchase(
+    materialId: string,
+    input: MaterialPurchaseInput,
+    createdBy?: string
+  ): Promise<{ material: Material; expense: FinancialExpense }> {
+    const quantity = Number(input.quantity);
+    const amount = Number(input.amount);
+    if (!Number.isFinite(quantity) || quantity <= 0) throw validationError('quantity must be a positive number');
+    if (!Number.isFinite(amount) || amount < 0) throw validationError('amount must be a non-negative number');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) throw validationError('date must be YYYY-MM-DD');
+
+    const material = await this.get(materialId);
+    const unitCost = Math.round((amount / quantity) * 100) / 100;
+    const expense = await expenseService.create({
+      category: material.kind === 'zipper' || material.kind === 'card' || material.kind === 'packaging'
+        ? 'Packaging Bulk'
+        : 'Raw Materials',
+      amount,
+      date: input.date,
+      expense_type: 'production',
+      product_id: `material-${material.id}`,
+      product_name: material.name,
+      quantity,
+      unit_cost: unitCost,
+      notes: input.notes?.trim() || `Purchase — ${material.name} (${quantity} ${material.unit})`,
+    });
+
+    const [updated] = await this.applyMovements(
+      [{ material, kind: 'purchase', quantity, expenseId: expense.id, notes: input.notes ?? null }],
+      createdBy,
+      { unit_cost: unitCost }
+    );
+    return { material: updated, expense };
+  }
+
+  /** Stock count: set on hand to the counted quantity (logged as an adjustment). */
+  async countStock(materialId: string, counted: number, notes?: string, createdBy?: string): Promise<Material> {
+    if (!Number.isFinite(counted) || counted < 0) throw validationError('counted must be a non-negative number');
+    const material = await this.get(materialId);
+    const delta = round3(counted - Number(material.on_hand));
+    if (delta === 0) return material;
+    const [updated] = await this.applyMovements(
+      [{ material, kind: 'adjust', quantity: delta, notes: notes?.trim() || 'Stock count' }],
+      createdBy
+    );
+    return updated;
+  }
+
+  /** Hold the order's materials (customer confirmed). No-op once reserved or consumed. */
+  async reserveForOrder(orderId: number): Promise<void> {
+    const movements = await this.getOrderMovements(orderId);
+    if (movements.some((m) => m.kind === 'reserve' || m.kind === 'consume')) return;
+
+    const requirements = await this.getOrderRequirements(orderId);
+    if (requirements.size === 0) return;
+    const materials = await this.getMaterials(Array.from(requirements.keys()));
+    await this.applyMovements(
+      materials.map((material) => ({ material, kind: 'reserve', quantity: requirements.get(material.id)!, orderId }))
+    );
+  }
+
+  /**
+   * The order was made: release its reservation and deduct its materials from
+   * stock. No-op once consumed; with `onlyIfReserved`, also when nothing was held.
+   */
+  async consumeForOrder(orderId: number, options: { onlyIfReserved?: boolean } = {}): Promise<void> {
+    const movements = await this.getOrderMovements(orderId);
+    if (movements.some((m) => m.kind === 'consume')) return;
+    const held = this.heldByOrder(movements);
+    if (options.onlyIfReserved && held.size === 0) return;
+
+    const requirements = await this.getOrderRequirements(orderId);
+    const materials = await this.getMaterials(Array.from(new Set([...held.keys(), ...requirements.keys()])));
+    await this.applyMovements(
+      materials.flatMap((material) => [
+        ...(held.get(material.id) ? [{ material, kind: 'release' as const, quantity: held.get(material.id)!, orderId }] : []),
+        ...(requirements.get(material.id)
+          ? [{ material, kind: 'consume' as const, quantity: requirements.get(material.id)!, orderId }]
+          : []),
+      ])
+    );
+  }
+
+  /** Give back an order's reservation (e.g. cancelled). Consumed stock stays consumed. */
+  async releaseForOrder(orderId: number): Promise<void> {
+    const held = this.heldByOrder(await this.getOrderMovements(orderId));
+    if (held.size === 0) return;
+    const materials = await this.getMaterials(Array.from(held.keys()));
+    await this.applyMovements(
+      materials.map((material) => ({ material, kind: 'release', quantity: held.get(material.id)!, orderId }))
+    );
+  }
+
+  private async getMaterials(materialIds: string[]): Promise<Material[]> {
+    if (materialIds.length === 0) return [];
+    const { data, error } = await supabase.from(MATERIALS_TABLE).select('*').in('id', materialIds);
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      throw error;
+    }
+    return (data || []) as Material[];
+  }
+
+  private async getOrderMovements(orderId: number): Promise<MaterialMovement[]> {
+    const { data, error } = await supabase.from(MOVEMENTS_TABLE).select('*').eq('order_id', orderId);
+    if (error) {
+      if (isMissingTableError(error)) return [];
+      throw error;
+    }
+    return (data || []) as MaterialMovement[];
+  }
+
+  /** Material ID → quantity still reserved for the order. */
+  private heldByOrder(movements: MaterialMovement[]): Map<string, number> {
+    const held = new Map<string, number>();
+    for (const movement of movements) {
+      const sign = movement.kind === 'reserve' ? 1 : movement.kind === 'release' ? -1 : 0;
+      if (sign) held.set(movement.material_id, round3((held.get(movement.material_id) ?? 0) + sign * Number(movement.quantity)));
+    }
+    for (const [materialId, quantity] of held) if (quantity <= 0) held.delete(materialId);
+    return held;
+  }
+
+  private async getOrderRequirements(orderId: number): Promise<Map<string, number>> {
+    const order = await orderMirrorService.getOrder(orderId);
+    if (!order) return new Map();
+    const { requirements } = materialRequirements(order.line_items || [], await this.getBoms());
+    return requirements;
+  }
+
+  /**
+   * Write movements to the ledger and add them to each material's on hand / reserved
+   * (apply_material_stock, a single UPDATE, so concurrent calls cannot lose each other's changes).
+   * Alerts Discord for materials that dropped to their low-stock threshold.
+   */
+  private async applyMovements(
+    movements: Array<{
+      material: Material;
+      kind: MaterialMovementKind;
+      quantity: number;
+      orderId?: number;
+      expenseId?: string;
+      notes?: string | null;
+    }>,
+    createdBy?: string,
+    extraPatch: Record<string, unknown> = {}
+  ): Promise<Material[]> {
+    if (movements.length === 0) return [];
+
+    const { error: ledgerError } = await supabase.from(MOVEMENTS_TABLE).insert(
+      movements.map((m) => ({
+        material_id: m.material.id,
+        kind: m.kind,
+        quantity: m.quantity,
+        order_id: m.orderId ?? null,
+        expense_id: m.expenseId ?? null,
+        notes: m.notes ?? null,
+        created_by: createdBy ?? null,
+      }))
+    );
+    if (ledgerError) {
+      logger.error(`[materials] Error writing stock movements: ${formatSupabaseError(ledgerError)}`);
+      throw ledgerError;
+    }
+
+    const stock = new Map<string, { onHand: number; reserved: number }>();
+    for (const m of movements) {
+      const entry = stock.get(m.material.id) ?? { onHand: 0, reserved: 0 };
+      if (m.kind === 'purchase' || m.kind === 'adjust') entry.onHand += m.quantity;
+      else if (m.kind === 'consume') entry.onHand -= m.quantity;
+      else if (m.kind === 'reserve') entry.reserved += m.quantity;
+      else entry.reserved -= m.quantity;
+      stock.set(m.material.id, entry);
+    }
+
+    const updated: Material[] = [];
+    const newlyLow: Material[] = [];
+    for (const [materialId, entry] of stock) {
+      const { data, error } = await supabase
+        .rpc(APPLY_STOCK_FUNCTION, {
+          p_material_id: materialId,
+          p_on_hand_delta: round3(entry.onHand),
+          p_reserved_delta: round3(entry.reserved),
+        })
+        .single();
+      if (error) {
+        if (error.code === 'PGRST202' || error.code === '42883') {
+          logger.warn(`${APPLY_STOCK_FUNCTION} function missing — see docs/SQL_QUERIES_FOR_SUPABASE.md`);
+        }
+        logger.error(`[materials] Error updating stock for ${materialId}: ${formatSupabaseError(error)}`);
+        throw error;
+      }
+      let material = data as Material;
+      if (Object.keys(extraPatch).length > 0) {
+        const { data: patched, error: patchError } = await supabase
+          .from(MATERIALS_TABLE)
+          .update(extraPatch)
+          .eq('id', materialId)
+          .select()
+          .single();
+        if (patchError) {
+          logger.error(`[materials] Error updating ${materialId}: ${formatSupabaseError(patchError)}`);
+          throw patchError;
+        }
+        material = patched as Material;
+      }
+      // Compare with the stock just before this update, not the row read earlier
+      const before = {
+        ...material,
+        on_hand: Number(material.on_hand) - entry.onHand,
+        reserved: Number(material.reserved) - entry.reserved,
+      };
+      updated.push(material);
+      if (material.active && isLowStock(material) && !isLowStock(before)) newlyLow.push(material);
+    }
+
+    if (newlyLow.length > 0) {
+      void discordNotificationService.notifyLowStock({
+        materials: newlyLow.map((material) => ({
+          name: material.name,
+          unit: material.unit,
+          available: availableQuantity(material),
+          threshold: Number(material.low_stock_threshold),
+        })),
+      });
+    }
+    return updated;
+  }
+}
+
+export const materialService = new MaterialService();
@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { parseOrderTags } from '../../utils/financeMonth';
+import { getOrderWorkflowStatusFromTags } from '../../utils/orderWorkflowState';
+import { onShopifyOrderWrite, ShopifyOrderWriteKind, ShopifyOrderWritePatch } from '../shopify';
+import { orderMirrorService } from './orderMirrorService';
+
+const EVENTS_TABLE = 'order_events';
+
+/** Where an order change came from. */
+export type OrderEventSource =
+  | 'dashboard'
+  | 'courier_map'
+  | 'cron'
+  | 'whatsapp_button'
+  | 'discord'
+  | 'payment_import'
+  | 'shopify'
+  | 'system';
+
+export const ORDER_EVENT_SOURCES: OrderEventSource[] = [
+  'dashboard',
+  'courier_map',
+  'cron',
+  'whatsapp_button',
+  'discord',
+  'payment_import',
+  'shopify',
+  'system',
+];
+
+/** Who/what is making order writes in the current async call chain. */
+export interface OrderEventContext {
+  source: OrderEventSource;
+  /** Person, role or job name (e.g. "admin", "courier", "runOrderStatusAutoMove"). */
+  actor?: string;
+}
+
+export interface OrderEvent {
+  id: number;
+  order_id: number;
+  event_type: ShopifyOrderWriteKind;
+  source: OrderEventSource;
+  actor: string | null;
+  from_status: string | null;
+  to_status: string | null;
+  tags_before: string[] | null;
+  tags_after: string[] | null;
+  /** Derived on read from tags_before/tags_after. */
+  added_tags?: string[];
+  removed_tags?: string[];
+  note: string | null;
+  created_at: string;
+}
+
+type OrderEventInsert = Omit<OrderEvent, 'id' | 'created_at' | 'added_tags' | 'removed_tags'>;
+
+const contextStorage = new AsyncLocalStorage<OrderEventContext>();
+
+/**
+ * Run `fn` with an actor/source attached; every Shopify order write inside it
+ * (including awaited calls) is recorded with that context.
+ */
+export function runWithOrderEventContext<T>(context: OrderEventContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+export function getOrderEventContext(): OrderEventContext {
+  return contextStorage.getStore() ?? { source: 'system' };
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function diffTags(before: string[] | null, after: string[] | null): { added: string[]; removed: string[] } {
+  if (!before || !after) return { added: [], removed: [] };
+  const beforeSet = new Set(before.map((tag) => tag.toLowerCase()));
+  const afterSet = new Set(after.map((tag) => tag.toLowerCase()));
+  return {
+    added: after.filter((tag) => !beforeSet.has(tag.toLowerCase())),
+    removed: before.filter((tag) => !afterSet.has(tag.toLowerCase())),
+  };
+}
+
+/**
+ * Audit log of order changes (order_events). Every tag/status/note/date write that
+ * goes through ShopifyService is recorded with the actor and source of the
+ * surrounding runWithOrderEventContext call.
+ */
+export class OrderEventService {
+  private missingTableWarned = false;
+
+  async record(event: OrderEventInsert): Promise<void> {
+    const { error } = await supabase.from(EVENTS_TABLE).insert(event);
+    if (!error) return;
+
+    if (isMissingTableError(error)) {
+      if (!this.missingTableWarned) {
+        logger.warn('[orderEvents] order_events table missing; run the SQL in docs/SQL_QUERIES_FOR_SUPABASE.md');
+        this.missingTableWarned = true;
+      }
+      return;
+    }
+    logger.error(`[orderEvents] Error recording event for order ${event.order_id}: ${formatSupabaseError(error)}`);
+  }
+
+  /** Newest first. */
+  async getHistory(orderId: number, limit = 100): Promise<OrderEvent[]> {
+    const { data, error } = await supabase
+      .from(EVENTS_TABLE)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[orderEvents] order_events table missing; returning empty history');
+        return [];
+      }
+      throw error;
+    }
+
+    return ((data || []) as OrderEvent[]).map((event) => {
+      const { added, removed } = diffTags(event.tags_before, event.tags_after);
+      return { ...event, added_tags: added, removed_tags: removed };
+    });
+  }
+
+  /** Build and store the event for one Shopify write (called from the write listener). */
+  async recordWrite(orderId: number, patch: ShopifyOrderWritePatch, context: OrderEventContext): Promise<void> {
+    let tagsBefore = patch.tagsBefore ?? null;
+    if (!tagsBefore && patch.tags) {
+      // Best effort: the mirror still holds the pre-write tags unless a webhook beat us to it
+      const mirrored = await orderMirrorService.getOrder(orderId).catch(() => null);
+      tagsBefore = mirrored ? parseOrderTags(mirrored.tags) : null;
+    }
+    const tagsAfter = patch.tags ?? (patch.deleted ? null : tagsBefore);
+
+    const fromStatus = tagsBefore ? getOrderWorkflowStatusFromTags(tagsBefore) : null;
+    const toStatus = tagsAfter ? getOrderWorkflowStatusFromTags(tagsAfter) : null;
+
+    await this.record({
+      order_id: orderId,
+      event_type: patch.kind ?? (patch.deleted ? 'delete' : patch.note !== undefined ? 'note' : 'tags'),
+      source: context.source,
+      actor: context.actor ?? null,
+      from_status: fromStatus,
+      to_status: toStatus,
+      tags_before: tagsBefore,
+      tags_after: tagsAfter,
+      note: patch.note !== undefined ? patch.note : null,
+    });
+  }
+}
+
+export const orderEventService = new OrderEventService();
+
+onShopifyOrderWrite((orderId, patch) => {
+  // Listeners run synchronously inside the writer's call, so this is the writer's context
+  const context = getOrderEventContext();
+  orderEventService.recordWrite(orderId, patch, context).catch((error) => {
+    logger.error(`[orderEvents] Failed to record write for order ${orderId}: ${formatSupabaseError(error)}`);
+  });
+});
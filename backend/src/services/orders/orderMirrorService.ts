@@ -0,0 +1,532 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { parseOrderTags } from '../../utils/financeMonth';
+import { lineItemDiscountTotal, normalizeShopifyOrder } from '../../utils/shopifyOrderNormalize';
+import { onShopifyOrderWrite, ShopifyOrder, ShopifyOrderWritePatch, shopifyService } from '../shopify';
+
+const ORDERS_TABLE = 'shopify_orders';
+const SYNC_STATE_TABLE = 'shopify_order_sync_state';
+const SYNC_STATE_ID = 'orders';
+
+/** Supabase caps a single select at 1000 rows; page through with range(). */
+const PAGE_SIZE = 1000;
+const UPSERT_CHUNK_SIZE = 500;
+
+/** Re-read sync state at most this often when deciding mirror vs Shopify. */
+const READY_CACHE_TTL_MS = 60_000;
+
+/** Incremental sweeps overlap the previous run so late Shopify writes are not missed. */
+const INCREMENTAL_OVERLAP_MS = 10 * 60 * 1000;
+
+/** Orders per `id:>` batch of a full sweep (getOrders stops at 50 pages of 250). */
+const FULL_SYNC_BATCH_SIZE = 5000;
+const DELETE_CHUNK_SIZE = 500;
+const MAX_PRUNE_SHARE = 0.1;
+
+/** Tag filters shared by the mirror query and the Shopify fallback. */
+export interface OrderMirrorQuery {
+  /** Every tag must be present (case-insensitive). */
+  withTags?: string[];
+  /** None of these tags may be present (case-insensitive). */
+  withoutTags?: string[];
+  created_at_min?: string;
+  created_at_max?: string;
+  limit?: number;
+}
+
+type MirrorRow = {
+  id: number;
+  name: string;
+  tags_lc: string[];
+  order_json: ShopifyOrder;
+  shopify_created_at: string | null;
+  shopify_updated_at: string | null;
+  synced_at: string;
+};
+
+type SyncStateRow = {
+  id: string;
+  last_full_sync_at: string | null;
+  last_incremental_sync_at: string | null;
+};
+
+function isMissingTableError(error: { code?: string; message?: string } | null): boolean {
+  if (!error) return false;
+  return (
+    error.code === '42P01' ||
+    error.code === 'PGRST205' ||
+    (error.message?.includes('does not exist') ?? false)
+  );
+}
+
+function lowerTags(tags: string[]): string[] {
+  return [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+/** Postgres array literal for PostgREST `cs` / `ov` filters. */
+function pgArrayLiteral(values: string[]): string {
+  return `{${values.map((v) => `"${v.replace(/["\\]/g, '\\$&')}"`).join(',')}}`;
+}
+
+/** Same filter expressed as a Shopify Admin `orders(query:)` string. */
+export function shopifyQueryForMirrorFilter(filter: OrderMirrorQuery): string {
+  const parts = ['status:any'];
+  for (const tag of filter.withTags ?? []) parts.push(`tag:${tag}`);
+  for (const tag of filter.withoutTags ?? []) parts.push(`NOT tag:${tag}`);
+  return parts.join(' ');
+}
+
+/** REST order payload as delivered by Shopify order webhooks. */
+export type ShopifyOrderWebhookPayload = Omit<
+  Partial<ShopifyOrder>,
+  'id' | 'customer' | 'shipping_address' | 'fulfillments' | 'line_items' | 'discount_codes'
+> & {
+  id: number | string;
+  discount_codes?: Array<{ code?: string } | string>;
+  current_total_price?: string;
+  note_attributes?: Array<{ name?: string; value?: string }>;
+  line_items?: Array<
+    ShopifyOrder['line_items'][number] & {
+      current_quantity?: number;
+      discount_allocations?: Array<{ amount?: string }>;
+    }
+  >;
+  customer?: Partial<ShopifyOrder['customer']> & { default_address?: { phone?: string } } | null;
+  shipping_address?: Partial<ShopifyOrder['shipping_address']> | null;
+  fulfillments?: Array<
+    Omit<NonNullable<ShopifyOrder['fulfillments']>[number], 'id'> & {
+      id: number | string;
+      shipment_status?: string | null;
+    }
+  >;
+};
+
+/**
+ * Shape REST webhook payloads (note_attributes, comma-separated tags) like the
+ * GraphQL orders returned by ShopifyService.getOrders so readers see one format.
+ */
+export function toMirrorOrder(raw: ShopifyOrderWebhookPayload): ShopifyOrder {
+  const normalized = normalizeShopifyOrder(raw);
+  const customer: NonNullable<ShopifyOrderWebhookPayload['customer']> = raw.customer || {};
+  const shipping: NonNullable<ShopifyOrderWebhookPayload['shipping_address']> = raw.shipping_address || {};
+
+  return {
+    id: Number(raw.id),
+    name: String(raw.name || ''),
+    email: raw.email || '',
+    phone: raw.phone || customer.phone || shipping.phone || '',
+    total_price: String(normalized.total_price ?? '0'),
+    financial_status: raw.financial_status || '',
+    fulfillment_status: raw.fulfillment_status || '',
+    tags: parseOrderTags(raw.tags),
+    created_at: raw.created_at || '',
+    updated_at: raw.updated_at || '',
+    payment_gateway_names: raw.payment_gateway_names || [],
+    note: raw.note ?? null,
+    custom_attributes:
+      raw.custom_attributes ??
+      (raw.note_attributes || []).map((attr) => ({
+        key: String(attr.name ?? ''),
+        value: String(attr.value ?? ''),
+      })),
+    landing_site: raw.landing_site ?? null,
+    discount_codes: (raw.discount_codes || [])
+      .map((discount) => (typeof discount === 'string' ? discount : String(discount.code ?? '')))
+      .filter(Boolean),
+    line_items: (normalized.line_items || []).map((item) => ({
+      title: item.title,
+      quantity: item.quantity,
+      price: String(item.price ?? '0'),
+      // REST total_discount is line-level only; allocations include order-level codes
+      total_discount: item.discount_allocations
+        ? lineItemDiscountTotal(item.discount_allocations)
+        : item.total_discount,
+      variant_title: item.variant_title ?? null,
+      product_id: item.product_id ?? undefined,
+      variant_id: item.variant_id ?? undefined,
+      properties: item.properties || [],
+    })),
+    customer: {
+      id: Number(customer.id) || 0,
+      first_name: customer.first_name || '',
+      last_name: customer.last_name || '',
+      phone: customer.phone || customer.default_address?.phone || shipping.phone || '',
+    },
+    shipping_address: {
+      phone: shipping.phone || '',
+      address1: shipping.address1 || '',
+      address2: shipping.address2 || '',
+      city: shipping.city || '',
+      province: shipping.province || '',
+      zip: shipping.zip || '',
+      country: shipping.country || '',
+    },
+    fulfillments: (raw.fulfillments || []).map((f) => ({
+      id: Number(f.id),
+      status: f.status,
+      displayStatus: f.displayStatus ?? f.shipment_status ?? undefined,
+      tracking_company: f.tracking_company ?? undefined,
+      tracking_number: f.tracking_number ?? undefined,
+      created_at: f.created_at,
+      updated_at: f.updated_at,
+    })),
+    shipping_lines: (raw.shipping_lines || []).map((line: { price?: string; title?: string }) => ({
+      price: String(line.price ?? '0'),
+      title: line.title,
+    })),
+    total_shipping_price_set: normalized.total_shipping_price_set,
+  };
+}
+
+function toRow(order: ShopifyOrder): Omit<MirrorRow, 'synced_at'> & { synced_at: string } {
+  return {
+    id: order.id,
+    name: order.name,
+    tags_lc: lowerTags(parseOrderTags(order.tags)),
+    order_json: { ...order, tags: parseOrderTags(order.tags) },
+    shopify_created_at: order.created_at || null,
+    shopify_updated_at: order.updated_at || null,
+    synced_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Supabase copy of Shopify orders, kept current by order webhooks and a periodic
+ * reconciliation sweep. Jobs and list routes read here instead of paging the
+ * Admin API; until the first full sync completes every read falls back to Shopify.
+ */
+export class OrderMirrorService {
+  private readyCache: { ready: boolean; checkedAt: number } | null = null;
+  private reconcileInFlight: Promise<{ mode: 'full' | 'incremental'; upserted: number }> | null = null;
+
+  async isReady(): Promise<boolean> {
+    const now = Date.now();
+    if (this.readyCache && now - this.readyCache.checkedAt < READY_CACHE_TTL_MS) {
+      return this.readyCache.ready;
+    }
+    const state = await this.getSyncState();
+    const ready = Boolean(state?.last_full_sync_at);
+    this.readyCache = { ready, checkedAt: now };
+    return ready;
+  }
+
+  /** Orders matching the filter — from the mirror when synced, else from Shopify. */
+  async getOrders(filter: OrderMirrorQuery = {}): Promise<ShopifyOrder[]> {
+    if (await this.isReady()) {
+      try {
+        return await this.queryMirror(filter);
+      } catch (error) {
+        logger.error(`[orderMirror] Mirror read failed, falling back to Shopify: ${formatSupabaseError(error)}`);
+      }
+    }
+
+    return shopifyService.getOrders({
+      ordersQuery: shopifyQueryForMirrorFilter(filter),
+      created_at_min: filter.created_at_min,
+      created_at_max: filter.created_at_max,
+      limit: filter.limit,
+    });
+  }
+
+  /** Single order from the mirror, or null when missing / not synced. */
+  async getOrder(id: number): Promise<ShopifyOrder | null> {
+    const { data, error } = await supabase
+      .from(ORDERS_TABLE)
+      .select('order_json')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) return null;
+      logger.error(`[orderMirror] Error fetching order ${id}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return (data?.order_json as ShopifyOrder) ?? null;
+  }
+
+  /** Most recent mirrored line item for a variant (title lookup without a products scope). */
+  async findLineItemByVariantId(variantId: number): Promise<ShopifyOrder['line_items'][number] | null> {
+    const { data, error } = await supabase
+      .from(ORDERS_TABLE)
+      .select('order_json')
+      .contains('order_json', { line_items: [{ variant_id: variantId }] })
+      .order('shopify_created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      if (isMissingTableError(error)) return null;
+      logger.error(`[orderMirror] Error finding variant ${variantId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    const order = data?.[0]?.order_json as ShopifyOrder | undefined;
+    return order?.line_items.find((item) => Number(item.variant_id) === variantId) ?? null;
+  }
+
+  private async queryMirror(filter: OrderMirrorQuery): Promise<ShopifyOrder[]> {
+    const withTags = lowerTags(filter.withTags ?? []);
+    const withoutTags = lowerTags(filter.withoutTags ?? []);
+    const orders: ShopifyOrder[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const to = filter.limit
+        ? Math.min(from + PAGE_SIZE, filter.limit) - 1
+        : from + PAGE_SIZE - 1;
+      if (to < from) break;
+
+      let query = supabase
+        .from(ORDERS_TABLE)
+        .select('order_json')
+        .order('id', { ascending: true })
+        .range(from, to);
+
+      if (withTags.length) query = query.contains('tags_lc', withTags);
+      if (withoutTags.length) query = query.not('tags_lc', 'ov', pgArrayLiteral(withoutTags));
+      if (filter.created_at_min) query = query.gte('shopify_created_at', filter.created_at_min);
+      if (filter.created_at_max) query = query.lte('shopify_created_at', filter.created_at_max);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const page = (data || []).map((row) => row.order_json as ShopifyOrder);
+      orders.push(...page);
+      if (page.length < to - from + 1) break;
+    }
+
+    return orders;
+  }
+
+  /**
+   * Upsert one order from a webhook payload. Skips payloads older than the
+   * stored copy (Shopify does not guarantee webhook delivery order).
+   */
+  async upsertFromWebhook(raw: ShopifyOrderWebhookPayload): Promise<void> {
+    const order = toMirrorOrder(raw);
+    if (!order.id) return;
+
+    const { data: existing, error: readError } = await supabase
+      .from(ORDERS_TABLE)
+      .select('shopify_updated_at')
+      .eq('id', order.id)
+      .maybeSingle();
+
+    if (readError) {
+      if (isMissingTableError(readError)) {
+        logger.warn('shopify_orders table missing — order mirror disabled. See docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return;
+      }
+      throw readError;
+    }
+
+    if (
+      existing?.shopify_updated_at &&
+      order.updated_at &&
+      new Date(order.updated_at).getTime() < new Date(existing.shopify_updated_at).getTime()
+    ) {
+      logger.info('[orderMirror] Ignoring stale webhook payload', {
+        orderId: order.id,
+        payloadUpdatedAt: order.updated_at,
+        storedUpdatedAt: existing.shopify_updated_at,
+      });
+      return;
+    }
+
+    await this.upsertOrders([order]);
+  }
+
+  async upsertOrders(orders: ShopifyOrder[]): Promise<number> {
+    let upserted = 0;
+    for (let i = 0; i < orders.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = orders.slice(i, i + UPSERT_CHUNK_SIZE).map(toRow);
+      const { error } = await supabase.from(ORDERS_TABLE).upsert(chunk, { onConflict: 'id' });
+      if (error) {
+        logger.error(`[orderMirror] Error upserting orders: ${formatSupabaseError(error)}`);
+        throw error;
+      }
+      upserted += chunk.length;
+    }
+    return upserted;
+  }
+
+  /** Apply a dashboard-side write immediately so reads don't wait for the webhook. */
+  async patchOrder(orderId: number, patch: ShopifyOrderWritePatch): Promise<void> {
+    if (patch.deleted) {
+      await this.removeOrder(orderId);
+      return;
+    }
+
+    const current = await this.getOrder(orderId);
+    if (!current) return;
+
+    // updated_at stays Shopify's: a local clock stamp would be later than the
+    // orders/updated webhook for this same write, which would then be dropped as stale
+    const next: ShopifyOrder = {
+      ...current,
+      ...(patch.tags ? { tags: patch.tags.map((t) => t.trim()).filter(Boolean) } : {}),
+      ...(patch.note !== undefined ? { note: patch.note } : {}),
+    };
+    await this.upsertOrders([next]);
+  }
+
+  /** Copy a Shopify customer edit onto every mirrored order placed by that customer. */
+  async applyCustomerUpdate(customer: ShopifyOrder['customer']): Promise<number> {
+    const { data, error } = await supabase
+      .from(ORDERS_TABLE)
+      .select('order_json')
+      .eq('order_json->customer->>id', String(customer.id));
+
+    if (error) {
+      if (isMissingTableError(error)) return 0;
+      throw error;
+    }
+
+    const orders = (data || []).map((row) => {
+      const order = row.order_json as ShopifyOrder;
+      return { ...order, customer: { ...order.customer, ...customer } };
+    });
+    return this.upsertOrders(orders);
+  }
+
+  async removeOrder(orderId: number): Promise<void> {
+    const { error } = await supabase.from(ORDERS_TABLE).delete().eq('id', orderId);
+    if (error && !isMissingTableError(error)) {
+      logger.error(`[orderMirror] Error removing order ${orderId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Full sweep when the mirror has never been populated (or when forced),
+   * otherwise only orders updated since the last sweep.
+   */
+  async reconcile(options: { full?: boolean } = {}): Promise<{ mode: 'full' | 'incremental'; upserted: number }> {
+    if (this.reconcileInFlight) return this.reconcileInFlight;
+
+    this.reconcileInFlight = (async () => {
+      const state = await this.getSyncState();
+      const startedAt = new Date();
+      const full = options.full || !state?.last_full_sync_at;
+
+      let upserted: number;
+      if (full) {
+        logger.info('[orderMirror] Starting full reconciliation');
+        upserted = await this.fullSweep(startedAt);
+      } else {
+        const lastSync = state?.last_incremental_sync_at || state?.last_full_sync_at;
+        const since = new Date(new Date(lastSync as string).getTime() - INCREMENTAL_OVERLAP_MS);
+        const ordersQuery = `status:any AND updated_at:>='${since.toISOString()}'`;
+        logger.info('[orderMirror] Starting incremental reconciliation', { ordersQuery });
+        upserted = await this.upsertOrders(await shopifyService.getOrders({ ordersQuery }));
+      }
+
+      await this.saveSyncState({
+        id: SYNC_STATE_ID,
+        last_full_sync_at: full ? startedAt.toISOString() : state?.last_full_sync_at ?? null,
+        last_incremental_sync_at: startedAt.toISOString(),
+      });
+      this.readyCache = null;
+
+      logger.info(`[orderMirror] Reconciliation done (${full ? 'full' : 'incremental'}): ${upserted} orders`);
+      return { mode: full ? 'full' as const : 'incremental' as const, upserted };
+    })();
+
+    try {
+      return await this.reconcileInFlight;
+    } finally {
+      this.reconcileInFlight = null;
+    }
+  }
+
+  /**
+   * Every Shopify order, in `id:>` batches so no page limit truncates the sweep,
+   * then drop mirrored orders Shopify no longer has. Orders created after the
+   * sweep started are never pruned (their webhook may have beaten the last batch).
+   */
+  private async fullSweep(startedAt: Date): Promise<number> {
+    const seen = new Set<number>();
+    let upserted = 0;
+    let afterId = 0;
+
+    for (;;) {
+      const batch = await shopifyService.getOrders({
+        ordersQuery: afterId ? `status:any AND id:>${afterId}` : 'status:any',
+        limit: FULL_SYNC_BATCH_SIZE,
+        sortById: true,
+      });
+      if (batch.length === 0) break;
+
+      upserted += await this.upsertOrders(batch);
+      for (const order of batch) seen.add(order.id);
+      afterId = Math.max(afterId, ...batch.map((order) => order.id));
+      if (batch.length < FULL_SYNC_BATCH_SIZE) break;
+    }
+
+    const removed = await this.pruneMissing(seen, startedAt);
+    if (removed > 0) logger.info(`[orderMirror] Removed ${removed} orders deleted in Shopify`);
+    return upserted;
+  }
+
+  private async pruneMissing(seen: Set<number>, startedAt: Date): Promise<number> {
+    const missing: number[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(ORDERS_TABLE)
+        .select('id')
+        .lt('shopify_created_at', startedAt.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      for (const row of data || []) {
+        if (!seen.has(Number(row.id))) missing.push(Number(row.id));
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // A sweep that saw far fewer orders than the mirror holds is more likely broken than right
+    if (missing.length > Math.max(MAX_PRUNE_SHARE * seen.size, 50)) {
+      logger.error(`[orderMirror] Not pruning: ${missing.length} mirrored orders missing from a sweep of ${seen.size}`);
+      return 0;
+    }
+
+    for (let i = 0; i < missing.length; i += DELETE_CHUNK_SIZE) {
+      const { error } = await supabase.from(ORDERS_TABLE).delete().in('id', missing.slice(i, i + DELETE_CHUNK_SIZE));
+      if (error) {
+        logger.error(`[orderMirror] Error pruning deleted orders: ${formatSupabaseError(error)}`);
+        throw error;
+      }
+    }
+    return missing.length;
+  }
+
+  async getSyncState(): Promise<SyncStateRow | null> {
+    const { data, error } = await supabase
+      .from(SYNC_STATE_TABLE)
+      .select('*')
+      .eq('id', SYNC_STATE_ID)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) return null;
+      logger.error(`[orderMirror] Error reading sync state: ${formatSupabaseError(error)}`);
+      return null;
+    }
+    return (data as SyncStateRow) ?? null;
+  }
+
+  private async saveSyncState(row: SyncStateRow): Promise<void> {
+    const { error } = await supabase.from(SYNC_STATE_TABLE).upsert(row, { onConflict: 'id' });
+    if (error) {
+      logger.error(`[orderMirror] Error saving sync state: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+}
+
+export const orderMirrorService = new OrderMirrorService();
+
+onShopifyOrderWrite((orderId, patch) => {
+  orderMirrorService.patchOrder(orderId, patch).catch((error) => {
+    logger.error(`[orderMirror] Failed to apply write-through for order ${orderId}: ${formatSupabaseError(error)}`);
+  });
+});
@@ -0,0 +1,217 @@
+import { logger } from '../../utils/logger';
+import { paidMonthsChanged, parseOrderTags } from '../../utils/financeMonth';
+import { OrderWorkflowStatus } from '../../utils/orderWorkflowState';
+import {
+  applyOrderStatusTransition,
+  normalizeOrderStatus,
+  OrderStatusTransitionOptions
+} from '../../utils/orderStatusTransitions';
+import { ShopifyOrder, shopifyService } from '../shopify';
+import { discordNotificationService } from '../discordNotifications';
+import { fulfilledReviewMessaging } from '../fulfilledReviewMessaging.service';
+import { getOrderEventContext, OrderEventSource, runWithOrderEventContext } from './orderEventService';
+import { makerService } from './makerService';
+import { materialService } from './materialService';
+import { shipmentCreationService } from '../shipping/shipmentCreationService';
+import { financeMonthCloseService } from '../financial/financeMonthCloseService';
+
+/** Where a status change came from (recorded in order_events). */
+export type OrderStatusChangeSource = OrderEventSource;
+
+export interface OrderStatusChangeOptions extends OrderStatusTransitionOptions {
+  /** Defaults to the surrounding order event context (e.g. set per request by the orders router). */
+  source?: OrderStatusChangeSource;
+  /** Person or process shown as "updated by"; defaults like `source`. */
+  actor?: string;
+  /** Send the per-order Discord notification (bulk routes send one summary instead). */
+  notify?: boolean;
+  /** Queue the review request WhatsApp when the order becomes fulfilled (default true). */
+  reviewRequest?: boolean;
+  /** Position in a bulk run; staggers fulfilled review WhatsApps. */
+  bulkIndex?: number;
+}
+
+export interface OrderStatusChangeEvent {
+  orderId: number;
+  orderName: string;
+  customerName: string;
+  from: OrderWorkflowStatus;
+  to: OrderWorkflowStatus;
+  tagsBefore: string[];
+  tagsAfter: string[];
+  source: OrderStatusChangeSource;
+  actor?: string;
+  override: boolean;
+  notify: boolean;
+  reviewRequest: boolean;
+  bulkIndex?: number;
+}
+
+export type OrderStatusChangeHook = (event: OrderStatusChangeEvent) => Promise<void> | void;
+
+/**
+ * Single entry point for order status changes. Applies the state machine
+ * (utils/orderStatusTransitions), writes the tags, then runs the side-effect hooks
+ * (Discord, fulfilled review WhatsApp, ...) for real status changes only.
+ */
+export class OrderStatusService {
+  private hooks: OrderStatusChangeHook[] = [];
+
+  /** Register a hook run after every committed status change. Returns an unsubscribe function. */
+  onStatusChange(hook: OrderStatusChangeHook): () => void {
+    this.hooks.push(hook);
+    return () => {
+      this.hooks = this.hooks.filter((h) => h !== hook);
+    };
+  }
+
+  /**
+   * Move an order to `status` ("fulfilled" or "fulfilled,fulfillment_date:2026-01-01").
+   * Pass the order when the caller already has it to skip a Shopify read.
+   * Throws OrderStatusTransitionError (409) for illegal moves unless `override` is set, and
+   * FinanceMonthClosedError (409) when the move changes a closed month's paid orders.
+   */
+  async transition(
+    orderOrId: number | ShopifyOrder,
+    status: string,
+    options: OrderStatusChangeOptions
+  ): Promise<OrderStatusChangeEvent> {
+    const order = typeof orderOrId === 'number' ? await shopifyService.getOrder(orderOrId) : orderOrId;
+
+    const [rawStatus, ...additionalTags] = status.split(',').map((part) => part.trim());
+    const targetStatus = normalizeOrderStatus(rawStatus);
+    if (!targetStatus) {
+      const error = new Error(`Unknown order status "${rawStatus}"`);
+      error.name = 'ValidationError';
+      throw error;
+    }
+
+    const ambient = getOrderEventContext();
+    const context = { source: options.source ?? ambient.source, actor: options.actor ?? ambient.actor };
+    const tagsBefore = parseOrderTags(order.tags);
+    const result = applyOrderStatusTransition(tagsBefore, targetStatus, {
+      override: options.override,
+      today: options.today,
+      extraTags: [...additionalTags.filter(Boolean), ...(options.extraTags ?? [])]
+    });
+
+    // Paid orders of a closed finance month stay as reported (override does not lift this)
+    for (const month of paidMonthsChanged(tagsBefore, result.tags)) {
+      await financeMonthCloseService.assertOpen(month, 'paid order changes');
+    }
+
+    if (result.changed) {
+      await runWithOrderEventContext(context, () =>
+        shopifyService.updateOrderTags(order.id.toString(), result.tags, { kind: 'status', tagsBefore })
+      );
+    }
+
+    const event: OrderStatusChangeEvent = {
+      orderId: order.id,
+      orderName: order.name,
+      customerName: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim() || 'N/A',
+      from: result.from,
+      to: result.to,
+      tagsBefore,
+      tagsAfter: result.tags,
+      source: context.source,
+      actor: context.actor,
+      override: !!options.override,
+      notify: options.notify !== false,
+      reviewRequest: options.reviewRequest !== false,
+      bulkIndex: options.bulkIndex
+    };
+
+    logger.info('Order status transition', {
+      orderId: event.orderId,
+      orderName: event.orderName,
+      from: event.from,
+      to: event.to,
+      source: event.source,
+      actor: event.actor,
+      override: event.override,
+      changed: result.changed
+    });
+
+    if (event.from !== event.to) {
+      await this.runHooks(event);
+    }
+
+    return event;
+  }
+
+  private async runHooks(event: OrderStatusChangeEvent): Promise<void> {
+    for (const hook of this.hooks) {
+      try {
+        await hook(event);
+      } catch (error) {
+        // Side effects never undo a committed status change
+        logger.error('Order status hook failed', {
+          orderId: event.orderId,
+          from: event.from,
+          to: event.to,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }
+  }
+}
+
+export const orderStatusService = new OrderStatusService();
+
+// Discord notification (non-blocking)
+orderStatusService.onStatusChange((event) => {
+  if (!event.notify) return;
+  discordNotificationService
+    .notifyOrderStatusChange({
+      orderId: event.orderId,
+      orderName: event.orderName,
+      customerName: event.customerName,
+      previousStatus: event.from,
+      newStatus: event.to,
+      updatedBy: event.actor
+    })
+    .catch((err) => {
+      logger.error('Failed to send Discord notification', err);
+    });
+});
+
+// Review request WhatsApp when an order is delivered
+orderStatusService.onStatusChange(async (event) => {
+  if (event.to !== 'fulfilled' || !event.reviewRequest) return;
+  await fulfilledReviewMessaging.scheduleReviewForOrder({
+    orderId: event.orderId,
+    bulkIndex: event.bulkIndex
+  });
+});
+
+// Maker labor: assigned units count as made when the order is ready. Confirming
+// only puts it in production; orders that skip order_ready complete on the way out.
+orderStatusService.onStatusChange(async (event) => {
+  if (event.to === 'order_ready' || event.to === 'ready_to_ship' || event.to === 'shipped') {
+    // Units already completed keep their date
+    await makerService.completeOrder(event.orderId);
+  } else if (event.to === 'pending') {
+    await makerService.reopenOrder(event.orderId);
+  }
+});
+
+// Materials: hold stock when the customer confirms, deduct it once the order is made
+orderStatusService.onStatusChange(async (event) => {
+  if (event.to === 'order_ready') {
+    await materialService.consumeForOrder(event.orderId);
+  } else if (event.to === 'customer_confirmed') {
+    await materialService.reserveForOrder(event.orderId);
+  } else if (event.to === 'ready_to_ship' || event.to === 'shipped') {
+    // Confirmed before it was made and never passed through order_ready
+    await materialService.consumeForOrder(event.orderId, { onlyIfReserved: true });
+  } else if (event.to === 'cancelled') {
+    await materialService.releaseForOrder(event.orderId);
+  }
+});
+
+// Shipping: book the carrier shipment once the order is ready to ship
+orderStatusService.onStatusChange(async (event) => {
+  if (event.to !== 'ready_to_ship') return;
+  await shipmentCreationService.enqueue(event.orderId);
+});
@@ -0,0 +1,193 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { ORDER_LIST_FACETS, ORDER_LIST_STATUS_VIEWS, OrderListFacet, OrderListStatusView } from '../../utils/orderListQuery';
+
+const VIEWS_TABLE = 'order_views';
+const DEFAULTS_TABLE = 'order_view_defaults';
+const MAX_NAME_LENGTH = 80;
+const MAX_VALUES_PER_FILTER = 200;
+
+/** Filter state of the Orders page saved in a view (values exactly as the page stores them). */
+export interface OrderViewFilters {
+  status: OrderListStatusView;
+  search?: string;
+  quickFilters: Partial<Record<OrderListFacet, string[]>>;
+}
+
+export interface OrderView {
+  id: string;
+  name: string;
+  filters: OrderViewFilters;
+  pinned: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderViewInput {
+  name?: unknown;
+  filters?: unknown;
+  pinned?: unknown;
+}
+
+class OrderViewNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(viewId: string) {
+    super(`Order view ${viewId} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function parseName(raw: unknown): string {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  if (!name) throw validationError('name is required');
+  if (name.length > MAX_NAME_LENGTH) throw validationError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  return name;
+}
+
+/** Keep only known facets with string values; status defaults to the page default (pending). */
+export function parseOrderViewFilters(raw: unknown): OrderViewFilters {
+  if (!raw || typeof raw !== 'object') throw validationError('filters must be an object');
+  const input = raw as Record<string, unknown>;
+
+  const status = String(input.status || 'pending') as OrderListStatusView;
+  if (!ORDER_LIST_STATUS_VIEWS.includes(status)) throw validationError(`Unknown status "${input.status}"`);
+
+  const quickFilters: OrderViewFilters['quickFilters'] = {};
+  const rawQuick = (input.quickFilters && typeof input.quickFilters === 'object' ? input.quickFilters : {}) as Record<
+    string,
+    unknown
+  >;
+  for (const [facet, values] of Object.entries(rawQuick)) {
+    if (!ORDER_LIST_FACETS.includes(facet as OrderListFacet)) throw validationError(`Unknown quick filter "${facet}"`);
+    if (!Array.isArray(values) || values.some((value) => typeof value !== 'string')) {
+      throw validationError(`${facet} must be an array of strings`);
+    }
+    const unique = Array.from(new Set(values as string[]));
+    if (unique.length > MAX_VALUES_PER_FILTER) throw validationError(`${facet} has too many values`);
+    if (unique.length > 0) quickFilters[facet as OrderListFacet] = unique;
+  }
+
+  const search = typeof input.search === 'string' && input.search.trim() ? input.search.trim() : undefined;
+  return { status, ...(search ? { search } : {}), quickFilters };
+}
+
+/**
+ * Named Orders page filter combinations (order_views) shared by the whole team,
+ * plus each user's default view (order_view_defaults).
+ */
+export class OrderViewService {
+  /** Pinned first, then by name. */
+  async list(): Promise<OrderView[]> {
+    const { data, error } = await supabase
+      .from(VIEWS_TABLE)
+      .select('*')
+      .order('pinned', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[orderViews] order_views table missing; returning empty list');
+        return [];
+      }
+      throw error;
+    }
+    return (data || []) as OrderView[];
+  }
+
+  async get(viewId: string): Promise<OrderView> {
+    const { data, error } = await supabase.from(VIEWS_TABLE).select('*').eq('id', viewId).maybeSingle();
+    if (error && !isMissingTableError(error) && error.code !== '22P02') throw error;
+    if (!data) throw new OrderViewNotFoundError(viewId);
+    return data as OrderView;
+  }
+
+  async create(input: OrderViewInput, createdBy?: string): Promise<OrderView> {
+    const { data, error } = await supabase
+      .from(VIEWS_TABLE)
+      .insert({
+        name: parseName(input.name),
+        filters: parseOrderViewFilters(input.filters),
+        pinned: input.pinned === true,
+        created_by: createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`[orderViews] Error creating view: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return data as OrderView;
+  }
+
+  async update(viewId: string, input: OrderViewInput): Promise<OrderView> {
+    const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (input.name !== undefined) patch.name = parseName(input.name);
+    if (input.filters !== undefined) patch.filters = parseOrderViewFilters(input.filters);
+    if (input.pinned !== undefined) patch.pinned = input.pinned === true;
+
+    const { data, error } = await supabase.from(VIEWS_TABLE).update(patch).eq('id', viewId).select().maybeSingle();
+    if (error) {
+      logger.error(`[orderViews] Error updating view ${viewId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    if (!data) throw new OrderViewNotFoundError(viewId);
+    return data as OrderView;
+  }
+
+  /** Users who had it as default fall back to no default (FK cascade). */
+  async delete(viewId: string): Promise<void> {
+    const { error } = await supabase.from(VIEWS_TABLE).delete().eq('id', viewId);
+    if (error) {
+      logger.error(`[orderViews] Error deleting view ${viewId}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  async getDefaultViewId(userName: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from(DEFAULTS_TABLE)
+      .select('view_id')
+      .eq('user_name', userName)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) return null;
+      throw error;
+    }
+    return data?.view_id ?? null;
+  }
+
+  /** Pass null to clear the user's default. */
+  async setDefaultView(userName: string, viewId: string | null): Promise<void> {
+    if (viewId === null) {
+      const { error } = await supabase.from(DEFAULTS_TABLE).delete().eq('user_name', userName);
+      if (error) throw error;
+      return;
+    }
+
+    await this.get(viewId);
+    const { error } = await supabase
+      .from(DEFAULTS_TABLE)
+      .upsert({ user_name: userName, view_id: viewId, updated_at: new Date().toISOString() }, { onConflict: 'user_name' });
+    if (error) {
+      logger.error(`[orderViews] Error setting default view for ${userName}: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+}
+
+export const orderViewService = new OrderViewService();
@@ -0,0 +1,255 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { parseOrderTags } from '../../utils/financeMonth';
+import { cairoDateString } from '../../utils/orderListQuery';
+import {
+  applyPlannedDates,
+  DEFAULT_PRODUCTION_PLANNER_SETTINGS,
+  isAwaitingProduction,
+  planProduction,
+  ProductionPlan,
+  ProductionPlanEntry,
+  ProductionPlannerSettings,
+} from '../../utils/productionPlanner';
+import { DeliveryEstimate, estimateDelivery } from '../../utils/deliveryEstimate';
+import { ShopifyOrder, shopifyService } from '../shopify';
+import { orderMirrorService } from './orderMirrorService';
+
+const SETTINGS_TABLE = 'production_planner_settings';
+const SETTINGS_ID = 'default';
+
+/** Storefront estimates reuse one backlog snapshot for this long. */
+const ESTIMATE_BACKLOG_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_VARIANTS = 1000;
+
+export interface ProductionReflowResult {
+  updated: Array<{ orderId: number; orderName: string; start: string; due: string }>;
+  failed: Array<{ orderId: number; error: string }>;
+  /** Orders whose due date cannot be met with the current capacity. */
+  infeasible: ProductionPlanEntry[];
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function nonNegativeNumber(raw: unknown, field: string): number {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) throw validationError(`${field} must be a non-negative number`);
+  return value;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Validate a full or partial settings payload on top of `base`. */
+export function parseProductionPlannerSettings(
+  raw: Record<string, unknown>,
+  base: ProductionPlannerSettings = DEFAULT_PRODUCTION_PLANNER_SETTINGS
+): ProductionPlannerSettings {
+  const settings: ProductionPlannerSettings = { ...base };
+
+  if (raw.dailyCapacityHours !== undefined) {
+    settings.dailyCapacityHours = nonNegativeNumber(raw.dailyCapacityHours, 'dailyCapacityHours');
+  }
+  if (raw.defaultHoursPerUnit !== undefined) {
+    settings.defaultHoursPerUnit = nonNegativeNumber(raw.defaultHoursPerUnit, 'defaultHoursPerUnit');
+  }
+  if (raw.defaultMakingDays !== undefined) {
+    settings.defaultMakingDays = Math.round(nonNegativeNumber(raw.defaultMakingDays, 'defaultMakingDays'));
+  }
+  if (raw.priorityMakingDays !== undefined) {
+    settings.priorityMakingDays = Math.round(nonNegativeNumber(raw.priorityMakingDays, 'priorityMakingDays'));
+  }
+  if (raw.shippingDays !== undefined) {
+    settings.shippingDays = Math.round(nonNegativeNumber(raw.shippingDays, 'shippingDays'));
+  }
+  if (raw.autoAssign !== undefined) settings.autoAssign = raw.autoAssign === true;
+
+  if (raw.weeklyDaysOff !== undefined) {
+    if (!Array.isArray(raw.weeklyDaysOff) || raw.weeklyDaysOff.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw validationError('weeklyDaysOff must be weekday numbers 0-6');
+    }
+    settings.weeklyDaysOff = Array.from(new Set(raw.weeklyDaysOff as number[])).sort();
+  }
+  if (raw.holidays !== undefined) {
+    if (!Array.isArray(raw.holidays) || !raw.holidays.every(isDate)) {
+      throw validationError('holidays must be YYYY-MM-DD dates');
+    }
+    settings.holidays = Array.from(new Set(raw.holidays as string[])).sort();
+  }
+  if (raw.capacityOverrides !== undefined) {
+    if (!raw.capacityOverrides || typeof raw.capacityOverrides !== 'object') {
+      throw validationError('capacityOverrides must be an object of date → hours');
+    }
+    const overrides: Record<string, number> = {};
+    for (const [date, hours] of Object.entries(raw.capacityOverrides as Record<string, unknown>)) {
+      if (!isDate(date)) throw validationError(`Invalid capacity override date "${date}"`);
+      overrides[date] = nonNegativeNumber(hours, `capacityOverrides.${date}`);
+    }
+    settings.capacityOverrides = overrides;
+  }
+  if (raw.productTypes !== undefined) {
+    if (!Array.isArray(raw.productTypes)) throw validationError('productTypes must be an array');
+    settings.productTypes = raw.productTypes.map((type: Record<string, unknown>, index: number) => {
+      const match = typeof type?.match === 'string' ? type.match.trim() : '';
+      if (!match) throw validationError(`productTypes[${index}].match is required`);
+      return {
+        name: typeof type.name === 'string' && type.name.trim() ? type.name.trim() : match,
+        match,
+        hoursPerUnit: nonNegativeNumber(type.hoursPerUnit, `productTypes[${index}].hoursPerUnit`),
+        makingDays: Math.round(nonNegativeNumber(type.makingDays, `productTypes[${index}].makingDays`)),
+      };
+    });
+  }
+
+  return settings;
+}
+
+/**
+ * Production capacity planner (utils/productionPlanner) over the mirrored orders
+ * still to be made (pending, or confirmed and not yet ready). Settings live in production_planner_settings.
+ */
+export class ProductionPlannerService {
+  private estimateBacklog: { queue: ShopifyOrder[]; settings: ProductionPlannerSettings; expiresAt: number } | null = null;
+  private variantTitles = new Map<number, { title: string | null; variantTitle: string | null } | null>();
+
+  async getSettings(): Promise<ProductionPlannerSettings> {
+    const { data, error } = await supabase
+      .from(SETTINGS_TABLE)
+      .select('settings')
+      .eq('id', SETTINGS_ID)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('[productionPlanner] production_planner_settings table missing; using defaults');
+        return { ...DEFAULT_PRODUCTION_PLANNER_SETTINGS };
+      }
+      throw error;
+    }
+    return { ...DEFAULT_PRODUCTION_PLANNER_SETTINGS, ...((data?.settings as Partial<ProductionPlannerSettings>) || {}) };
+  }
+
+  async updateSettings(raw: Record<string, unknown>): Promise<ProductionPlannerSettings> {
+    const settings = parseProductionPlannerSettings(raw, await this.getSettings());
+    const { error } = await supabase
+      .from(SETTINGS_TABLE)
+      .upsert({ id: SETTINGS_ID, settings, updated_at: new Date().toISOString() }, { onConflict: 'id' });
+    if (error) {
+      logger.error(`[productionPlanner] Error saving settings: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    this.estimateBacklog = null;
+    return settings;
+  }
+
+  /** Orders waiting to be made, including confirmed ones not yet ready. */
+  private async getQueue(): Promise<ShopifyOrder[]> {
+    const orders = await orderMirrorService.getOrders({ withoutTags: ['cancelled', 'deleted', 'fulfilled'] });
+    return orders.filter((order) => isAwaitingProduction(order.tags));
+  }
+
+  async getPlan(settings?: ProductionPlannerSettings): Promise<ProductionPlan> {
+    const [queue, resolved] = await Promise.all([this.getQueue(), settings ? Promise.resolve(settings) : this.getSettings()]);
+    return planProduction(queue, resolved, cairoDateString(new Date()));
+  }
+
+  /**
+   * Write the planned dates. Planner-scheduled orders always move; orders without
+   * any dates are scheduled only with `includeUnscheduled`. Hand-set dates never move.
+   */
+  async reflow(options: { includeUnscheduled?: boolean; orderIds?: number[] } = {}): Promise<ProductionReflowResult> {
+    const queue = await this.getQueue();
+    const plan = planProduction(queue, await this.getSettings(), cairoDateString(new Date()));
+    const ordersById = new Map(queue.map((order) => [order.id, order]));
+    const result: ProductionReflowResult = {
+      updated: [],
+      failed: [],
+      infeasible: plan.entries.filter((entry) => !entry.feasible),
+    };
+
+    for (const entry of plan.entries) {
+      if (options.orderIds && !options.orderIds.includes(entry.orderId)) continue;
+      const order = ordersById.get(entry.orderId);
+      if (!order) continue;
+      const tags = parseOrderTags(order.tags);
+      const unscheduled = entry.currentStart === null && entry.currentDue === null;
+      if (unscheduled && !options.includeUnscheduled) continue;
+
+      const nextTags = applyPlannedDates(tags, entry);
+      if (!nextTags) continue;
+      try {
+        await shopifyService.updateOrderTags(order.id.toString(), nextTags, { kind: 'due_date', tagsBefore: tags });
+        result.updated.push({ orderId: order.id, orderName: order.name, start: entry.plannedStart!, due: entry.plannedDue! });
+      } catch (error) {
+        result.failed.push({ orderId: order.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    logger.info('[productionPlanner] Reflow complete', {
+      updated: result.updated.length,
+      failed: result.failed.length,
+      infeasible: result.infeasible.length,
+    });
+    return result;
+  }
+
+  /**
+   * Public delivery estimate for one variant, or null when the store has no such
+   * variant. The variant's title (for product type matching) comes from past
+   * orders, else from Shopify.
+   */
+  async estimateDelivery(variantId: number, quantity: number, rush: boolean): Promise<DeliveryEstimate | null> {
+    const titles = await this.getVariantTitles(variantId);
+    if (!titles) return null;
+
+    if (!this.estimateBacklog || this.estimateBacklog.expiresAt < Date.now()) {
+      const [queue, settings] = await Promise.all([this.getQueue(), this.getSettings()]);
+      this.estimateBacklog = { queue, settings, expiresAt: Date.now() + ESTIMATE_BACKLOG_TTL_MS };
+    }
+
+    const { queue, settings } = this.estimateBacklog;
+    return estimateDelivery(queue, { variantId, quantity, rush, ...titles }, settings, cairoDateString(new Date()));
+  }
+
+  private async getVariantTitles(variantId: number): Promise<{ title: string | null; variantTitle: string | null } | null> {
+    const cached = this.variantTitles.get(variantId);
+    if (cached !== undefined) return cached;
+
+    const item = await orderMirrorService.findLineItemByVariantId(variantId);
+    const titles = item
+      ? { title: item.title ?? null, variantTitle: item.variant_title ?? null }
+      : await shopifyService.getVariantTitles(variantId);
+
+    // Unknown ids are cached too, so repeating one costs no lookups
+    if (this.variantTitles.size >= MAX_CACHED_VARIANTS) this.variantTitles.clear();
+    this.variantTitles.set(variantId, titles);
+    return titles;
+  }
+
+  /** New order webhook: propose dates when auto-assign is on. Never throws. */
+  async scheduleNewOrder(orderId: number): Promise<void> {
+    try {
+      const settings = await this.getSettings();
+      if (!settings.autoAssign) return;
+      const result = await this.reflow({ includeUnscheduled: true, orderIds: [orderId] });
+      const scheduled = result.updated[0];
+      if (scheduled) {
+        logger.info('[productionPlanner] Scheduled new order', scheduled);
+      }
+    } catch (error) {
+      logger.error(`[productionPlanner] Failed to schedule order ${orderId}: ${formatSupabaseError(error)}`);
+    }
+  }
+}
+
+export const productionPlannerService = new ProductionPlannerService();
@@ -2,6 +2,10 @@ import { CronJob } from 'cron';
 import { logger } from '../utils/logger';
 import { OrderConfirmationService } from './orderConfirmation.service';
 import { runOrderStatusAutoMove } from '../jobs/orderStatusAutoMove';
+import { orderMirrorService } from './orders/orderMirrorService';
+import { runWithOrderEventContext } from './orders/orderEventService';
+import { recurringExpenseService } from './financial/recurringExpenseService';
+import { shipmentCreationService } from './shipping/shipmentCreationService';
 
 const CRON_TIMEZONE = 'Africa/Cairo';
 
@@ -33,6 +37,16 @@ export class SchedulerService {
     // Auto-move orders: order_ready → on_hold (2 days) → cancelled (2 more days) — every 6 hours
     this.addJob('0 */6 * * *', this.runOrderStatusAutoMove);
 
+    // Order mirror: catch webhooks Shopify dropped — incremental every 15 min, full sweep nightly
+    this.addJob('*/15 * * * *', this.reconcileOrderMirror);
+    this.addJob('30 3 * * *', this.fullReconcileOrderMirror);
+
+    // Recurring expenses: post occurrences that fell due — daily at 06:00 Cairo time
+    this.addJob('0 6 * * *', this.postRecurringExpenses);
+
+    // Shipments: book ready-to-ship company orders the status hook missed — every 30 min
+    this.addJob('*/30 * * * *', this.createPendingShipments);
+
     // Daily cleanup at midnight Cairo time (placeholder for future logic)
     this.addJob('0 0 * * *', this.dailyCleanup);
   }
@@ -42,7 +56,8 @@ export class SchedulerService {
       cronTime,
       async () => {
         try {
-          await callback.call(this);
+          // Order writes made by the job are recorded as cron in order_events
+          await runWithOrderEventContext({ source: 'cron', actor: callback.name }, () => callback.call(this));
         } catch (error) {
           logger.error('Scheduled job failed', { 
             cronTime, 
@@ -68,6 +83,22 @@ export class SchedulerService {
     }
   }
 
+  private async reconcileOrderMirror(): Promise<void> {
+    try {
+      await orderMirrorService.reconcile();
+    } catch (error) {
+      logger.error('Error reconciling order mirror:', error);
+    }
+  }
+
+  private async fullReconcileOrderMirror(): Promise<void> {
+    try {
+      await orderMirrorService.reconcile({ full: true });
+    } catch (error) {
+      logger.error('Error in full order mirror reconciliation:', error);
+    }
+  }
+
   private async runOrderStatusAutoMove(): Promise<void> {
     logger.info('Starting order status auto-move job');
     try {
@@ -78,6 +109,22 @@ export class SchedulerService {
     }
   }
 
+  private async postRecurringExpenses(): Promise<void> {
+    try {
+      await recurringExpenseService.materializeDue();
+    } catch (error) {
+      logger.error('Error posting recurring expenses:', error);
+    }
+  }
+
+  private async createPendingShipments(): Promise<void> {
+    try {
+      await shipmentCreationService.sweep();
+    } catch (error) {
+      logger.error('Error creating pending shipments:', error);
+    }
+  }
+
   private async dailyCleanup() {
     logger.info('Running daily cleanup');
     // Add cleanup logic
@@ -144,6 +144,22 @@ export class ShippingService {
     }
   }
 
+  public async cancelPackage(barcode: string): Promise<void> {
+    await this.ensureAuthenticated();
+    try {
+      const response = await this.client.post<{ IsErrorState?: boolean; ErrorDescription?: string | null }>(
+        '/api/Packages/CancelPackage',
+        { Barcode: barcode }
+      );
+      if (response.data?.IsErrorState) {
+        throw new Error(response.data.ErrorDescription || 'Cancel rejected');
+      }
+    } catch (error) {
+      logger.error('Failed to cancel package:', error);
+      throw new Error('Failed to cancel shipping package');
+    }
+  }
+
   public async getWarehouses(): Promise<Warehouse[]> {
     await this.ensureAuthenticated();
     try {
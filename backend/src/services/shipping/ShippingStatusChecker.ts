@@ -1,11 +1,36 @@
 import { ShippingService } from './ShippingService';
 import { ShopifyOrder, ShopifyService } from '../../services/shopify';
 import { logger } from '../../utils/logger';
+import { orderMirrorService } from '../orders/orderMirrorService';
+import {
+  getOrderWorkflowStatusFromTags,
+  readOrderWorkflowState,
+  updateOrderWorkflowTags
+} from '../../utils/orderWorkflowState';
+import { planCarrierStatusTransition, resolveCarrierStatusAction } from '../../utils/carrierStatusMapping';
+import { orderStatusService } from '../orders/orderStatusService';
+import { shippingProviders } from './providers';
+import { shipmentTrackingService } from './shipmentTrackingService';
+import { deliveryAttemptService } from './deliveryAttemptService';
+
+/**
+ * Carrier updates older than this are catch-up (e.g. parcels delivered while the
+ * checker skipped shipped orders): the order still moves, without Discord or the review WhatsApp.
+ */
+const STALE_CARRIER_UPDATE_MS = 3 * 24 * 60 * 60 * 1000;
 
 interface ShippingStatusResponse {
-  tabOneOrders: any[];
-  tabTwoOrders: any[];
-  tabThreeOrders: any[];
+  tabOneOrders: MylerzPackageStatus[];
+  tabTwoOrders: MylerzPackageStatus[];
+  tabThreeOrders: MylerzPackageStatus[];
+}
+
+/** The fields we read from a GetPackagesList row. */
+interface MylerzPackageStatus {
+  Barcode: string;
+  PackageENStatus: string;
+  AttemptsNumber?: number | null;
+  LastUpdated?: string | null;
 }
 
 export class ShippingStatusChecker {
@@ -16,17 +41,17 @@ export class ShippingStatusChecker {
     try {
       logger.info('Starting shipping status check');
       
-      // Get all orders
-      const orders = await this.shopifyService.getOrders({ status: 'any' });
+      // Cancelled orders may be on their way back; ready-to-ship and shipped ones move with the carrier
+      const [cancelledCandidates, readyToShipCandidates, shippedCandidates] = await Promise.all([
+        orderMirrorService.getOrders({ withTags: ['cancelled'] }),
+        orderMirrorService.getOrders({ withTags: ['ready_to_ship'] }),
+        orderMirrorService.getOrders({ withTags: ['shipped'] }),
+      ]);
       
       // Filter cancelled orders with shipping barcodes
-      const cancelledOrders = orders.filter(order => {
-        const tags = Array.isArray(order.tags) ? 
-          order.tags.map(t => t.trim()) : 
-          typeof order.tags === 'string' ? 
-            order.tags.split(',').map(t => t.trim()) : 
-            [];
-        return tags.includes('cancelled') && tags.some(tag => tag.startsWith('shipping_barcode:'));
+      const cancelledOrders = cancelledCandidates.filter(order => {
+        const state = readOrderWorkflowState(order.tags);
+        return state.statusFlags.includes('cancelled') && !!state.shippingBarcode;
       });
 
       // Get all shipping statuses
@@ -36,30 +61,24 @@ export class ShippingStatusChecker {
         ...shippingResponse.tabTwoOrders,
         ...shippingResponse.tabThreeOrders
       ];
+      const statusByBarcode = new Map(shippingStatuses.map(status => [status.Barcode, status]));
 
       // Process cancelled orders
       await Promise.all(cancelledOrders.map(async (order) => {
         try {
           // Get barcode from order tags
-          const tags = Array.isArray(order.tags) ? 
-            order.tags : 
-            typeof order.tags === 'string' ? 
-              order.tags.split(',').map(t => t.trim()) : 
-              [];
-          const barcodeTag = tags.find(tag => tag.startsWith('shipping_barcode:'));
-          const barcode = barcodeTag ? barcodeTag.split(':')[1] : null;
+          const state = readOrderWorkflowState(order.tags);
+          const barcode = state.shippingBarcode;
 
           if (!barcode) return;
 
           // Find matching shipping status
-          const shippingStatus = shippingStatuses.find(
-            (status: { Barcode: string; PackageENStatus: string }) => status.Barcode === barcode
-          );
+          const shippingStatus = statusByBarcode.get(barcode);
 
           if (shippingStatus && shippingStatus.PackageENStatus === "Confirmed received by merchant") {
             // Add deleted tag if not already present
-            if (!tags.includes('deleted')) {
-              const newTags = [...tags, 'deleted'];
+            if (!state.otherTags.includes('deleted')) {
+              const newTags = updateOrderWorkflowTags(order.tags, { otherTags: [...state.otherTags, 'deleted'] });
               
               // Update order tags
               await this.shopifyService.updateOrderTags(order.id.toString(), newTags);
@@ -78,94 +97,80 @@ export class ShippingStatusChecker {
         }
       }));
 
-      // Ready to ship → shipped when carrier picks up (auto-fulfill on delivery removed)
-      const readyToShipOrders = orders.filter(order => {
-        const tags = Array.isArray(order.tags) ? 
-          order.tags.map(t => t.trim()) : 
-          typeof order.tags === 'string' ? 
-            order.tags.split(',').map(t => t.trim()) : 
-            [];
-        return tags.includes('ready_to_ship');
+      // Ready to ship / shipped → next status per the carrier status mapping
+      const activeOrders = [...readyToShipCandidates, ...shippedCandidates].filter(order => {
+        const state = readOrderWorkflowState(order.tags);
+        return !!state.shippingBarcode && shippingProviders.forOrder(order.tags)?.id === 'mylerz';
       });
 
-      logger.info(`Found ${readyToShipOrders.length} ready to ship orders`);
+      logger.info(`Found ${activeOrders.length} ready to ship / shipped orders with a Mylerz barcode`);
       
-      if (readyToShipOrders.length === 0) {
-        logger.info('No ready to ship orders to check');
+      if (activeOrders.length === 0) {
+        logger.info('No shipped orders to check');
         return;
       }
 
-      // Get barcodes from ready to ship orders
-      const barcodes = readyToShipOrders.map(order => {
-        const tags = Array.isArray(order.tags) ? 
-          order.tags : 
-          typeof order.tags === 'string' ? 
-            order.tags.split(',').map(t => t.trim()) : 
-            [];
-        const barcodeTag = tags.find(tag => tag.startsWith('shipping_barcode:'));
-        return barcodeTag ? barcodeTag.split(':')[1] : null;
-      }).filter(Boolean);
+      const rules = await shipmentTrackingService.getStatusRules('mylerz');
+      const latestEvents = await shipmentTrackingService.getLatestEvents(
+        activeOrders.map(order => readOrderWorkflowState(order.tags).shippingBarcode as string)
+      );
 
-      // Fetch shipping statuses for all barcodes
-      const shippingData = await this.fetchAllShippingStatuses(new Date());
-      const allShippingOrders = [
-        ...shippingData.tabOneOrders,
-        ...shippingData.tabTwoOrders,
-        ...shippingData.tabThreeOrders
-      ];
-
-      // Process each ready to ship order
-      await Promise.all(readyToShipOrders.map(async (order) => {
+      // Sequential: each order may write tags and run status hooks
+      for (const order of activeOrders) {
         try {
-          // Get barcode from order tags
-          const tags = Array.isArray(order.tags) ? 
-            order.tags : 
-            typeof order.tags === 'string' ? 
-              order.tags.split(',').map(t => t.trim()) : 
-              [];
-          const barcodeTag = tags.find(tag => tag.startsWith('shipping_barcode:'));
-          const barcode = barcodeTag ? barcodeTag.split(':')[1] : null;
-
-          if (!barcode) return;
+          const barcode = readOrderWorkflowState(order.tags).shippingBarcode as string;
+          const listed = statusByBarcode.get(barcode);
+          const shippingStatus = listed ?? (await this.trackOutsideWindow(barcode));
+          if (!shippingStatus) continue;
 
-          // Find matching shipping status
-          const shippingStatus = allShippingOrders.find(
-            status => status.Barcode === barcode
+          const action = resolveCarrierStatusAction(shippingStatus.PackageENStatus, rules);
+          const isNewStatus = await shipmentTrackingService.record(
+            {
+              order_id: order.id,
+              barcode,
+              provider: 'mylerz',
+              status: shippingStatus.PackageENStatus,
+              action,
+              attempts: shippingStatus.AttemptsNumber ?? null,
+              carrier_updated_at: shippingStatus.LastUpdated || null,
+            },
+            latestEvents.get(barcode)
           );
 
-          if (shippingStatus) {
-            // If package is picked up (status is not "Pending pickup" or similar)
-            if (shippingStatus.PackageENStatus !== 'Pending pickup' && 
-                shippingStatus.PackageENStatus !== 'Waiting for pickup') {
-              // Remove ready to ship tag and add shipped tag
-              const newTags = tags.filter(tag => 
-                tag !== 'ready_to_ship' && !tag.startsWith('shipping_date:')
-              );
-              
-              // Add shipped tag
-              newTags.push('shipped');
-              
-              // Add shipping date tag with current date
-              const today = new Date().toISOString().split('T')[0];
-              newTags.push(`shipping_date:${today}`);
-
-              // Update order tags
-              await this.shopifyService.updateOrderTags(order.id.toString(), newTags);
-              
-              logger.info('Updated order status to shipped', {
-                orderId: order.id,
-                shippingDate: today,
-                shippingStatus: shippingStatus.PackageENStatus
-              });
-            }
+          // Only failed-attempt statuses count: delivered and returned packages carry AttemptsNumber too.
+          // Mylerz counts attempts itself; without a count, each new failed-attempt status is one more
+          let attemptTagged = false;
+          if (action === 'failed_attempt') {
+            const knownAttempts = readOrderWorkflowState(order.tags).deliveryAttempts ?? 0;
+            const attempts = shippingStatus.AttemptsNumber ?? (isNewStatus ? knownAttempts + 1 : knownAttempts);
+            attemptTagged =
+              attempts > knownAttempts &&
+              (await deliveryAttemptService.recordAttempt(order, attempts, shippingStatus.PackageENStatus, barcode));
           }
+
+          const transition = planCarrierStatusTransition(getOrderWorkflowStatusFromTags(order.tags), action);
+          if (!transition) continue;
+
+          const stale = this.isStaleUpdate(shippingStatus.LastUpdated, !!listed);
+          // Re-read the order when its tags just changed so the attempt tag is kept
+          const event = await orderStatusService.transition(attemptTagged ? order.id : order, transition.to, {
+            extraTags: transition.extraTags,
+            ...(stale ? { notify: false, reviewRequest: false } : {})
+          });
+          logger.info('Moved order with carrier status', {
+            orderId: order.id,
+            from: event.from,
+            to: event.to,
+            shippingStatus: shippingStatus.PackageENStatus,
+            stale
+          });
         } catch (error) {
           logger.error('Error processing order', {
             orderId: order.id,
             error
           });
         }
-      }));
+      }
       
       logger.info('Completed shipping status check');
     } catch (error) {
@@ -173,27 +178,39 @@ export class ShippingStatusChecker {
     }
   }
 
+  /** Without a carrier date, only packages outside the list window (shipped over a week ago) count as stale. */
+  private static isStaleUpdate(lastUpdated: string | null | undefined, listed: boolean): boolean {
+    const updatedAt = lastUpdated ? new Date(lastUpdated).getTime() : NaN;
+    if (Number.isNaN(updatedAt)) return !listed;
+    return Date.now() - updatedAt > STALE_CARRIER_UPDATE_MS;
+  }
+
+  /** Packages shipped before the list window (the last week) are tracked one by one. */
+  private static async trackOutsideWindow(barcode: string): Promise<MylerzPackageStatus | null> {
+    try {
+      const response = await this.shippingService.trackPackage(barcode);
+      if (response.IsErrorState) return null;
+      return {
+        Barcode: barcode,
+        PackageENStatus: response.Value.PackageENStatus,
+        LastUpdated: response.Value.LastUpdated
+      };
+    } catch (error) {
+      logger.warn('Could not track package', { barcode, error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
   private static findOldestShippedOrderDate(orders: ShopifyOrder[]): Date {
     const shippingDates = orders
       .map(order => {
-        const tags = Array.isArray(order.tags) ? 
-          order.tags : 
-          typeof order.tags === 'string' ? 
-            order.tags.split(',').map(t => t.trim()) : 
-            [];
-            
-        const shippingDateTag = tags
-          .find((tag: string) => tag.trim().startsWith('shipping_date:'));
-        
-        if (shippingDateTag) {
-          const dateStr = shippingDateTag.trim().split(':')[1]?.trim();
-          if (dateStr) {
-            logger.info('Found shipping date for order:', {
-              orderName: order.name,
-              shippingDate: dateStr
-            });
-            return new Date(dateStr);
-          }
+        const dateStr = readOrderWorkflowState(order.tags).shippedDate;
+        if (dateStr) {
+          logger.info('Found shipping date for order:', {
+            orderName: order.name,
+            shippingDate: dateStr
+          });
+          return new Date(dateStr);
         }
         return null;
       })
@@ -0,0 +1,183 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { logger } from '../../utils/logger';
+import { readOrderWorkflowState } from '../../utils/orderWorkflowState';
+import { getPackingRoute, PackingSort, sortForPacking } from '../../utils/packingOrder';
+import { ShopifyOrder, shopifyService } from '../shopify';
+import { orderMirrorService } from '../orders/orderMirrorService';
+import { ShippingProvider, shippingProviders } from './providers';
+
+/** Labels fetched from the carrier at once; Mylerz throttles bursts. */
+const AWB_FETCH_CONCURRENCY = 4;
+export const AWB_BATCH_MAX_ORDERS = 200;
+/** Cached labels are kept this long (a barcode's label never changes). */
+const AWB_CACHE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface AwbBatchFailure {
+  orderId: number;
+  orderName: string | null;
+  reason: string;
+}
+
+export interface AwbBatchReport {
+  /** Orders in the PDF, in page order. */
+  included: Array<{ orderId: number; orderName: string; barcode: string; route: string | null; cached: boolean }>;
+  failed: AwbBatchFailure[];
+}
+
+export interface AwbBatchResult {
+  pdf: Buffer | null; // null when no label could be fetched
+  report: AwbBatchReport;
+}
+
+type LabelFetch =
+  | { order: ShopifyOrder; barcode: string; pdf: Buffer; cached: boolean }
+  | { order: ShopifyOrder; error: string };
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function cacheDir(): string {
+  if (process.env.AWB_CACHE_DIR) return path.resolve(process.cwd(), process.env.AWB_CACHE_DIR);
+  // Serverless functions can only write to the temp dir
+  return process.env.VERCEL === '1' ? path.join(os.tmpdir(), 'awb-cache') : path.resolve(process.cwd(), 'data/awb-cache');
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * One printable PDF of carrier labels (AWBs) for a packing run: labels are
+ * fetched a few at a time, cached on disk by barcode, and merged in route order.
+ */
+export class AwbBatchService {
+  async buildBatch(orderIds: number[], sort: PackingSort = 'route'): Promise<AwbBatchResult> {
+    const ids = Array.from(new Set(orderIds.map(Number).filter((id) => Number.isInteger(id) && id > 0)));
+    if (ids.length === 0) throw validationError('Select at least one order');
+    if (ids.length > AWB_BATCH_MAX_ORDERS) {
+      throw validationError(`At most ${AWB_BATCH_MAX_ORDERS} orders per batch`);
+    }
+
+    const failed: AwbBatchFailure[] = [];
+    const orders: ShopifyOrder[] = [];
+    for (const id of ids) {
+      try {
+        orders.push((await orderMirrorService.getOrder(id)) ?? (await shopifyService.getOrder(id)));
+      } catch {
+        failed.push({ orderId: id, orderName: null, reason: 'Order not found' });
+      }
+    }
+
+    const labels = await mapWithConcurrency(sortForPacking(orders, sort), AWB_FETCH_CONCURRENCY, async (order): Promise<LabelFetch> => {
+      const barcode = readOrderWorkflowState(order.tags).shippingBarcode;
+      const provider = shippingProviders.forOrder(order.tags);
+      if (!provider) return { order, error: 'Pickup orders have no shipping label' };
+      if (!barcode) return { order, error: 'Order has no shipping barcode' };
+
+      try {
+        const { pdf, cached } = await this.getLabel(provider, barcode, order.name.replace('#', ''));
+        return { order, barcode, pdf, cached };
+      } catch (error) {
+        return { order, error: error instanceof Error ? error.message : 'Failed to fetch label' };
+      }
+    });
+
+    const merged = await PDFDocument.create();
+    const included: AwbBatchReport['included'] = [];
+    for (const label of labels) {
+      if ('error' in label) {
+        failed.push({ orderId: label.order.id, orderName: label.order.name, reason: label.error });
+        continue;
+      }
+      try {
+        const source = await PDFDocument.load(label.pdf);
+        const pages = await merged.copyPages(source, source.getPageIndices());
+        pages.forEach((page) => merged.addPage(page));
+        included.push({
+          orderId: label.order.id,
+          orderName: label.order.name,
+          barcode: label.barcode,
+          route: getPackingRoute(label.order.tags),
+          cached: label.cached,
+        });
+      } catch (error) {
+        logger.warn('Unreadable AWB label', { orderId: label.order.id, barcode: label.barcode, error });
+        await this.evict(label.barcode);
+        failed.push({ orderId: label.order.id, orderName: label.order.name, reason: 'Carrier returned an unreadable label' });
+      }
+    }
+
+    logger.info('AWB batch built', { requested: ids.length, included: included.length, failed: failed.length });
+    void this.pruneCache();
+
+    return {
+      pdf: included.length > 0 ? Buffer.from(await merged.save()) : null,
+      report: { included, failed },
+    };
+  }
+
+  /** Label PDF from the disk cache, else from the carrier (then cached). */
+  private async getLabel(
+    provider: ShippingProvider,
+    barcode: string,
+    reference: string
+  ): Promise<{ pdf: Buffer; cached: boolean }> {
+    const file = this.cacheFile(barcode);
+    try {
+      return { pdf: await fs.readFile(file), cached: true };
+    } catch {
+      // Not cached yet
+    }
+
+    const pdf = await provider.getLabel(barcode, reference);
+    if (pdf.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new Error('Carrier returned something other than a PDF');
+    }
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, pdf);
+    } catch (error) {
+      logger.warn('Could not cache AWB label', { barcode, error: error instanceof Error ? error.message : error });
+    }
+    return { pdf, cached: false };
+  }
+
+  private cacheFile(barcode: string): string {
+    return path.join(cacheDir(), `${barcode.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`);
+  }
+
+  private async evict(barcode: string): Promise<void> {
+    await fs.rm(this.cacheFile(barcode), { force: true }).catch(() => undefined);
+  }
+
+  private async pruneCache(): Promise<void> {
+    try {
+      const dir = cacheDir();
+      const cutoff = Date.now() - AWB_CACHE_TTL_MS;
+      for (const name of await fs.readdir(dir)) {
+        const file = path.join(dir, name);
+        if ((await fs.stat(file)).mtimeMs < cutoff) await fs.rm(file, { force: true });
+      }
+    } catch {
+      // Nothing cached yet
+    }
+  }
+}
+
+export const awbBatchService = new AwbBatchService();
@@ -0,0 +1,235 @@
+import { supabase } from '../../config/supabase';
+import { config } from '../../config';
+import { isWabaEnabled, isWhatsAppWebEnabled } from '../../config/whatsappConfig';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { formatPhoneNumber } from '../../utils/formatPhoneNumber';
+import { cairoDateString } from '../../utils/orderListQuery';
+import { buildTemplateMessageByKey } from '../../utils/templateMessage';
+import { DeliveryReply, parseDeliveryReply } from '../../utils/deliveryReschedule';
+import { getOrderWorkflowStatusFromTags, readOrderWorkflowState, updateOrderWorkflowTags } from '../../utils/orderWorkflowState';
+import { ShopifyOrder, shopifyService } from '../shopify';
+import { discordNotificationService } from '../discordNotifications';
+import { WhatsAppService } from '../whatsapp';
+import { whatsappWebService } from '../whatsappWeb.service';
+import { runWithOrderEventContext } from '../orders/orderEventService';
+
+const ATTEMPTS_TABLE = 'delivery_attempts';
+
+/** Template key in whatsapp_message_templates; the default below is used until one is saved. */
+export const DELIVERY_FAILED_TEMPLATE_KEY = 'delivery_failed';
+
+const DEFAULT_DELIVERY_FAILED_BODY = `Hi {{customer_first_name}}
+Our courier couldn't deliver your order {{order_number}} today (attempt {{delivery_attempt}}) 📦
+Please reply with a day that suits you (e.g. tomorrow, Saturday or 15/3), or reply "yes" if your address is correct and we'll try again tomorrow.`;
+
+/** Customer replies are matched to the latest attempt message for their phone for this long. */
+const REPLY_WINDOW_DAYS = 7;
+
+export interface DeliveryAttempt {
+  id: number;
+  order_id: number;
+  order_name: string;
+  phone: string | null; // formatPhoneNumber form, for matching replies
+  attempt: number;
+  barcode: string;
+  carrier_status: string;
+  notified_at: string | null;
+  alerted_at: string | null;
+  reply_text: string | null;
+  reschedule_date: string | null;
+  replied_at: string | null;
+  created_at: string;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+function orderPhone(order: ShopifyOrder): string | null {
+  return order.shipping_address?.phone?.trim() || order.customer?.phone?.trim() || null;
+}
+
+/** Sends like the order confirmation: WhatsApp Web when linked, otherwise the Cloud API. */
+async function sendWhatsAppText(phone: string, message: string, orderNumber: string): Promise<void> {
+  if (isWhatsAppWebEnabled()) {
+    whatsappWebService.ensureStarted();
+    await whatsappWebService.sendTextMessage(phone, message, orderNumber);
+    return;
+  }
+  if (!isWabaEnabled()) {
+    throw new Error('WhatsApp is not configured. Enable WHATSAPP_WEB_ENABLED or WHATSAPP_WABA_ENABLED.');
+  }
+  await new WhatsAppService().sendTextMessage(phone, message);
+}
+
+/**
+ * Failed delivery attempts reported by the carrier: tags the order `delivery_attempt:N`,
+ * asks the customer for a new date on WhatsApp, turns the reply into
+ * `delivery_reschedule_date:`, and alerts Discord once attempts reach the threshold.
+ */
+export class DeliveryAttemptService {
+  /** Handle a carrier attempt count for a shipped order; repeats of a known count are ignored. */
+  async recordAttempt(order: ShopifyOrder, attempts: number, carrierStatus: string, barcode: string): Promise<boolean> {
+    const state = readOrderWorkflowState(order.tags);
+    if (!Number.isInteger(attempts) || attempts < 1 || (state.deliveryAttempts ?? 0) >= attempts) return false;
+
+    // A new attempt supersedes the date the customer gave for the previous one
+    const tags = updateOrderWorkflowTags(order.tags, { deliveryAttempts: attempts, deliveryRescheduleDate: undefined });
+    await shopifyService.updateOrderTags(order.id.toString(), tags);
+
+    const phone = orderPhone(order);
+    const { data: row, error } = await supabase
+      .from(ATTEMPTS_TABLE)
+      .upsert(
+        {
+          order_id: order.id,
+          order_name: order.name,
+          phone: phone ? formatPhoneNumber(phone) : null,
+          attempt: attempts,
+          barcode,
+          carrier_status: carrierStatus,
+        },
+        { onConflict: 'order_id,attempt' }
+      )
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('delivery_attempts table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+      } else {
+        logger.error(`Error recording delivery attempt: ${formatSupabaseError(error)}`);
+      }
+    }
+
+    logger.info('Failed delivery attempt recorded', { orderId: order.id, orderName: order.name, attempts, carrierStatus });
+
+    if (phone) {
+      try {
+        const message = await buildTemplateMessageByKey(
+          DELIVERY_FAILED_TEMPLATE_KEY,
+          {
+            customer_first_name: order.customer?.first_name?.trim() || 'Customer',
+            order_number: order.name,
+            delivery_attempt: String(attempts),
+          },
+          DEFAULT_DELIVERY_FAILED_BODY
+        );
+        await sendWhatsAppText(phone, message, order.name);
+        if (row) await this.update(row.id, { notified_at: new Date().toISOString() });
+      } catch (sendError) {
+        logger.error('Failed delivery WhatsApp not sent', {
+          orderId: order.id,
+          error: sendError instanceof Error ? sendError.message : sendError,
+        });
+      }
+    } else {
+      logger.warn('Failed delivery WhatsApp skipped — no phone', { orderId: order.id, orderName: order.name });
+    }
+
+    if (attempts >= config.shipping.failedAttemptAlertThreshold) {
+      await discordNotificationService.notifyFailedDeliveryAttempts({
+        orderId: order.id,
+        orderName: order.name,
+        customerName: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim(),
+        phone,
+        attempts,
+        carrierStatus,
+        barcode,
+      });
+      if (row) await this.update(row.id, { alerted_at: new Date().toISOString() });
+    }
+
+    return true;
+  }
+
+  /**
+   * Match an incoming WhatsApp text to the customer's latest unanswered attempt message.
+   * Returns the reply when it was understood and applied.
+   */
+  async handleCustomerReply(phone: string, text: string): Promise<DeliveryReply | null> {
+    if (!text?.trim()) return null;
+
+    const since = new Date(Date.now() - REPLY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from(ATTEMPTS_TABLE)
+      .select('*')
+      .eq('phone', formatPhoneNumber(phone))
+      .is('replied_at', null)
+      .not('notified_at', 'is', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      if (!isMissingTableError(error)) logger.error(`Error matching delivery reply: ${formatSupabaseError(error)}`);
+      return null;
+    }
+
+    const attempt = (data?.[0] as DeliveryAttempt | undefined) ?? null;
+    if (!attempt) return null;
+    return this.applyReply(attempt.order_id, text, attempt);
+  }
+
+  /**
+   * Apply a customer's answer (e.g. pasted from the inbox) to an order: writes
+   * `delivery_reschedule_date:`. Returns null when the text has no date or confirmation.
+   */
+  async applyReply(orderId: number, text: string, attempt?: DeliveryAttempt): Promise<DeliveryReply | null> {
+    const reply = parseDeliveryReply(text, cairoDateString(new Date()));
+    if (!reply) return null;
+
+    const order = await shopifyService.getOrder(orderId);
+    const status = getOrderWorkflowStatusFromTags(order.tags);
+    if (status !== 'shipped' && status !== 'ready_to_ship') {
+      logger.info('Delivery reply ignored — order no longer in transit', { orderId, status });
+      return null;
+    }
+
+    const tags = updateOrderWorkflowTags(order.tags, { deliveryRescheduleDate: reply.date });
+    await runWithOrderEventContext({ source: 'whatsapp_button', actor: 'customer reply' }, () =>
+      shopifyService.updateOrderTags(order.id.toString(), tags)
+    );
+
+    if (attempt) {
+      await this.update(attempt.id, {
+        reply_text: text.trim(),
+        reschedule_date: reply.date,
+        replied_at: new Date().toISOString(),
+      });
+    }
+
+    logger.info('Delivery rescheduled from customer reply', { orderId, orderName: order.name, date: reply.date, kind: reply.kind });
+    return reply;
+  }
+
+  /** Attempts recorded for an order, newest first. */
+  async getAttempts(orderId: number): Promise<DeliveryAttempt[]> {
+    const { data, error } = await supabase
+      .from(ATTEMPTS_TABLE)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('attempt', { ascending: false });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('delivery_attempts table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching delivery attempts: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return (data || []) as DeliveryAttempt[];
+  }
+
+  private async update(id: number, patch: Partial<DeliveryAttempt>): Promise<void> {
+    const { error } = await supabase.from(ATTEMPTS_TABLE).update(patch).eq('id', id);
+    if (error) logger.error(`Error updating delivery attempt: ${formatSupabaseError(error)}`);
+  }
+}
+
+export const deliveryAttemptService = new DeliveryAttemptService();
+
+// Replies to attempt messages sent over WhatsApp Web arrive there, not on the Cloud API webhook
+whatsappWebService.onIncomingText((phone, text) => deliveryAttemptService.handleCustomerReply(phone, text));
@@ -0,0 +1,117 @@
+import { config } from '../../../config';
+import { ShopifyOrder } from '../../shopify';
+import { logger } from '../../../utils/logger';
+import { parseOrderTags } from '../../../utils/financeMonth';
+import { OrderShippingMethod, readOrderWorkflowState } from '../../../utils/orderWorkflowState';
+import { ManualShippingProvider } from './manualProvider';
+import { MylerzShippingProvider } from './mylerzProvider';
+import { ScooterShippingProvider } from './scooterProvider';
+import { ShipmentRequest, ShippingProvider, ShippingProviderId } from './types';
+
+export * from './types';
+
+/** Weight sent to carriers; orders carry no weight of their own. */
+const DEFAULT_PACKAGE_WEIGHT_KG = 0.5;
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/**
+ * The shipping providers and which one serves each `shipping_method:` tag.
+ * Orders without the tag ship with the company (Mylerz); pickups have none.
+ */
+export class ShippingProviderRegistry {
+  private readonly providers = new Map<ShippingProviderId, ShippingProvider>();
+  private readonly methodProviders: Record<OrderShippingMethod, ShippingProviderId | null>;
+
+  constructor(providers: ShippingProvider[], otherCompanyProvider: string) {
+    for (const provider of providers) this.providers.set(provider.id, provider);
+
+    let otherCompany = otherCompanyProvider as ShippingProviderId;
+    if (!this.providers.has(otherCompany)) {
+      logger.warn(`Unknown SHIPPING_OTHER_COMPANY_PROVIDER "${otherCompanyProvider}" — using manual`);
+      otherCompany = 'manual';
+    }
+    this.methodProviders = {
+      company: 'mylerz',
+      'other-company': otherCompany,
+      scooter: 'scooter',
+      pickup: null,
+    };
+  }
+
+  list(): ShippingProvider[] {
+    return [...this.providers.values()];
+  }
+
+  get(id: string): ShippingProvider {
+    const provider = this.providers.get(id as ShippingProviderId);
+    if (!provider) throw validationError(`Unknown shipping provider: ${id}`);
+    return provider;
+  }
+
+  /** Provider serving a shipping method, or null for pickups. */
+  forMethod(method: OrderShippingMethod | undefined): ShippingProvider | null {
+    const id = this.methodProviders[method ?? 'company'];
+    return id ? this.get(id) : null;
+  }
+
+  forOrder(tags: string[] | string | null | undefined): ShippingProvider | null {
+    return this.forMethod(readOrderWorkflowState(parseOrderTags(tags)).shippingMethod);
+  }
+
+  /** Shipping method → provider id, for the UI. */
+  methods(): Record<OrderShippingMethod, ShippingProviderId | null> {
+    return { ...this.methodProviders };
+  }
+}
+
+function tagValue(tags: string[], prefix: string): string | null {
+  const tag = tags.find((t) => t.toLowerCase().startsWith(prefix));
+  const value = tag?.substring(prefix.length).trim();
+  return value && value !== 'null' ? value : null;
+}
+
+/** Carrier-neutral shipment details for an order; InstaPay-paid orders ship without COD. */
+export function buildShipmentRequest(order: ShopifyOrder): ShipmentRequest {
+  const tags = parseOrderTags(order.tags);
+  const isPrepaid = tags.some((tag) => tag.toLowerCase() === 'instapay_paid');
+  const address = order.shipping_address;
+
+  return {
+    orderId: order.id,
+    orderName: order.name,
+    customerName: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim(),
+    phone: address?.phone || order.customer?.phone || order.phone || '',
+    address: {
+      street: `${address?.address1 || ''} ${address?.address2 || ''}`.trim(),
+      city: address?.city || '',
+      province: address?.province || '',
+      country: address?.country || 'Egypt',
+    },
+    codValue: isPrepaid ? 0 : Number(order.total_price) || 0,
+    weightKg: DEFAULT_PACKAGE_WEIGHT_KG,
+    description: 'crochet',
+    notes: order.note ?? null,
+    mylerzLocation: {
+      cityId: tagValue(tags, 'mylerz_city_id:'),
+      neighborhoodId: tagValue(tags, 'mylerz_neighborhood_id:'),
+      subZoneId: tagValue(tags, 'mylerz_subzone_id:'),
+    },
+  };
+}
+
+export const shippingProviders = new ShippingProviderRegistry(
+  [
+    new MylerzShippingProvider(),
+    new ManualShippingProvider({
+      trackingUrl: config.shipping.otherCompanyTrackingUrl || undefined,
+      flatFee: config.shipping.otherCompanyFlatFee,
+    }),
+    new ScooterShippingProvider(config.shipping.scooterFlatFee),
+  ],
+  config.shipping.otherCompanyProvider
+);
@@ -0,0 +1,67 @@
+import {
+  ShipmentRequest,
+  ShipmentResult,
+  ShipmentTracking,
+  ShippingLocation,
+  ShippingOperationUnsupportedError,
+  ShippingProvider,
+  ShippingQuote,
+} from './types';
+
+export interface ManualProviderOptions {
+  trackingUrl?: string; // `{barcode}` is replaced with the tracking number
+  flatFee?: number | null;
+}
+
+/**
+ * A carrier booked outside the dashboard (the "other company" serving far
+ * provinces). The shipment is the tracking number the carrier gave; status is
+ * followed on the carrier's own tracking page.
+ */
+export class ManualShippingProvider implements ShippingProvider {
+  readonly id = 'manual' as const;
+  readonly name = 'Other company';
+
+  constructor(private readonly options: ManualProviderOptions = {}) {}
+
+  async createShipment(request: ShipmentRequest): Promise<ShipmentResult> {
+    const barcode = request.trackingNumber?.trim();
+    if (!barcode) {
+      throw new ShippingOperationUnsupportedError(this.name, 'booking shipments — enter the tracking number it gave you');
+    }
+    return { provider: this.id, barcode, reference: null };
+  }
+
+  async findShipment(): Promise<ShipmentResult | null> {
+    return null; // Nothing is booked through the dashboard
+  }
+
+  async track(barcode: string): Promise<ShipmentTracking> {
+    return {
+      provider: this.id,
+      barcode,
+      status: 'Tracked by the carrier',
+      updatedAt: null,
+      trackingUrl: this.options.trackingUrl
+        ? this.options.trackingUrl.replace('{barcode}', encodeURIComponent(barcode))
+        : null,
+    };
+  }
+
+  async getLabel(): Promise<Buffer> {
+    throw new ShippingOperationUnsupportedError(this.name, 'shipping labels');
+  }
+
+  async cancelShipment(): Promise<void> {
+    throw new ShippingOperationUnsupportedError(this.name, 'cancelling from the dashboard — cancel with the carrier');
+  }
+
+  async listLocations(): Promise<ShippingLocation[]> {
+    return [];
+  }
+
+  async quote(): Promise<ShippingQuote | null> {
+    const fee = this.options.flatFee;
+    return fee === null || fee === undefined ? null : { provider: this.id, fee, vat: 0, total: fee };
+  }
+}
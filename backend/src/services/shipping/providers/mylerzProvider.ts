@@ -0,0 +1,201 @@
+import { config } from '../../../config';
+import { ShippingService } from '../ShippingService';
+import { MylerzLocation, OrderDTO } from '../types';
+import {
+  ShipmentRequest,
+  ShipmentRequestError,
+  ShipmentResult,
+  ShipmentTracking,
+  ShippingLocation,
+  ShippingProvider,
+  ShippingQuote,
+  ShippingQuoteRequest,
+} from './types';
+
+/** The pickup area list barely changes; refetch it a few times a day. */
+const LOCATIONS_TTL_MS = 6 * 60 * 60 * 1000;
+
+/** How far back findShipment looks for an earlier booking of the same order. */
+const SHIPMENT_LOOKUP_DAYS = 30;
+
+/** The GetPackagesList fields findShipment reads. */
+interface MylerzPackage {
+  Barcode: string;
+  RefrenceNumber?: string | null; // sic
+  CustomerReferenceNumber?: string | null;
+}
+
+export interface MylerzArea {
+  city: string;
+  neighborhood: string;
+  district?: string;
+}
+
+/** Mylerz through its merchant API; auth and retries live in ShippingService. */
+export class MylerzShippingProvider implements ShippingProvider {
+  readonly id = 'mylerz' as const;
+  readonly name = 'Mylerz';
+  private locations: { value: MylerzLocation[]; fetchedAt: number } | null = null;
+
+  constructor(private readonly api: ShippingService = ShippingService.getInstance()) {}
+
+  /** Mylerz's order payload for a shipment request, addressed to `area` (names Mylerz knows). */
+  toOrderDTO(request: ShipmentRequest, area: MylerzArea): OrderDTO {
+    const serial = request.orderName.replace('#', '');
+    return {
+      WarehouseName: config.shipping.warehouseName || undefined,
+      PickupDueDate: new Date().toISOString(),
+      Package_Serial: serial,
+      Reference: serial,
+      Description: request.description,
+      Service_Type: 'DTD',
+      Service: 'SD',
+      Payment_Type: request.codValue > 0 ? 'COD' : 'PP',
+      COD_Value: request.codValue,
+      Total_Weight: request.weightKg,
+      Customer_Name: request.customerName,
+      Mobile_No: request.phone,
+      Street: request.address.street,
+      Country: request.address.country || 'Egypt',
+      City: area.city,
+      Neighborhood: area.neighborhood,
+      District: area.district,
+      Special_Notes: request.notes || undefined,
+    };
+  }
+
+  /** Area names for the order's `mylerz_*_id:` tags. */
+  async resolveArea(request: ShipmentRequest): Promise<MylerzArea> {
+    const ids = request.mylerzLocation;
+    if (!ids?.cityId || !ids.neighborhoodId) {
+      throw new ShipmentRequestError(`${request.orderName} has no Mylerz city/neighborhood — set the address area`);
+    }
+
+    if (!this.locations || Date.now() - this.locations.fetchedAt > LOCATIONS_TTL_MS) {
+      const response = await this.api.getAllLocations();
+      this.locations = { value: response.Value, fetchedAt: Date.now() };
+    }
+
+    const city = this.locations.value.find((c) => String(c.Id) === ids.cityId);
+    const neighborhood = city?.Neighborhoods.find((n) => String(n.Id) === ids.neighborhoodId);
+    if (!city || !neighborhood) {
+      throw new ShipmentRequestError(`${request.orderName} has a Mylerz area that no longer exists — set the address area again`);
+    }
+    const subZone = ids.subZoneId ? neighborhood.SubZones.find((z) => String(z.Id) === ids.subZoneId) : undefined;
+
+    return { city: city.NameEn, neighborhood: neighborhood.NameEn, district: subZone?.NameEn };
+  }
+
+  async createShipment(request: ShipmentRequest): Promise<ShipmentResult> {
+    if (!request.phone.trim()) {
+      throw new ShipmentRequestError(`${request.orderName} has no phone number`);
+    }
+    if (!request.address.street) {
+      throw new ShipmentRequestError(`${request.orderName} has no street address`);
+    }
+
+    const area = await this.resolveArea(request);
+    const response = await this.api.createOrder(this.toOrderDTO(request, area));
+    const barcode = response.Packages?.[0]?.BarCode;
+    if (!barcode) {
+      throw new ShipmentRequestError(`Mylerz accepted ${request.orderName} but returned no barcode — check the Mylerz portal`);
+    }
+    return { provider: this.id, barcode, reference: response.PickupOrderCode ?? null };
+  }
+
+  /**
+   * Package booked in the last month whose reference is `reference` (the order
+   * number, sent as Reference by toOrderDTO). Used before booking so a retry
+   * after a timeout or failed tag write does not book the order twice.
+   */
+  async findShipment(reference: string): Promise<ShipmentResult | null> {
+    const to = new Date();
+    const from = new Date(to.getTime() - SHIPMENT_LOOKUP_DAYS * 24 * 60 * 60 * 1000);
+
+    for (const tab of [1, 2, 3]) {
+      const response = await this.api.getPackagesList({
+        FilterModel: { PageFilter: { PageIndex: 1, PageSize: 50 }, SearchKeyword: reference },
+        From: from.toISOString(),
+        To: to.toISOString(),
+        SelectedTab: tab,
+        MerchantIds: [parseInt(config.shipping.merchantId || '16677')],
+        WarehouseIds: [],
+        SubscriberIds: [],
+        HubId: [],
+        HubTypeId: 0,
+        PhaseId: [],
+        MylerIds: [],
+        TransferBy: [],
+        ServiceTypeId: [],
+        ServiceCategoryId: [],
+        PaymentTypeId: [],
+        StatusId: [],
+        PackageServiceId: [],
+        AttemptsNumber: null,
+        MemberId: parseInt(config.shipping.memberId || '22376'),
+        Barcodes: [],
+        PreferedTimeSlot: 0,
+        AvailableTimeslotId: 0,
+        DateTypeId: 3,
+        SearchOptionId: 1,
+        MemberCategoryID: 2,
+      });
+
+      const packages: MylerzPackage[] = response?.Value?.Result ?? [];
+      const match = packages.find(
+        (pkg) => pkg.Barcode && (pkg.RefrenceNumber === reference || pkg.CustomerReferenceNumber === reference)
+      );
+      if (match) return { provider: this.id, barcode: match.Barcode, reference: null };
+    }
+    return null;
+  }
+
+  async track(barcode: string): Promise<ShipmentTracking> {
+    const response = await this.api.trackPackage(barcode);
+    if (response.IsErrorState) {
+      throw new Error(response.ErrorDescription || `Mylerz could not track ${barcode}`);
+    }
+    return {
+      provider: this.id,
+      barcode,
+      status: response.Value.PackageENStatus,
+      updatedAt: response.Value.LastUpdated || null,
+    };
+  }
+
+  getLabel(barcode: string, reference: string): Promise<Buffer> {
+    return this.api.getAWB(barcode, reference);
+  }
+
+  cancelShipment(barcode: string): Promise<void> {
+    return this.api.cancelPackage(barcode);
+  }
+
+  async listLocations(): Promise<ShippingLocation[]> {
+    const response = await this.api.getAllLocations();
+    return response.Value.map((city) => ({
+      id: String(city.Id),
+      name: city.Name,
+      nameEn: city.NameEn,
+      children: city.Neighborhoods.map((neighborhood) => ({
+        id: String(neighborhood.Id),
+        name: neighborhood.Name,
+        nameEn: neighborhood.NameEn,
+      })),
+    }));
+  }
+
+  async quote(request: ShippingQuoteRequest): Promise<ShippingQuote> {
+    const charges = await this.api.getExpectedCharges(
+      request.codValue,
+      config.shipping.warehouseName,
+      request.weightKg
+    );
+    return {
+      provider: this.id,
+      fee: Number(charges.shippingFee) || 0,
+      vat: Number(charges.vat) || 0,
+      total: Number(charges.totalCharges) || 0,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  ShipmentRequest,
+  ShipmentResult,
+  ShipmentTracking,
+  ShippingLocation,
+  ShippingOperationUnsupportedError,
+  ShippingProvider,
+  ShippingQuote,
+} from './types';
+
+/**
+ * In-house scooter delivery. There is no carrier to book with: the order name
+ * is the shipment reference and the order's own status is its tracking.
+ */
+export class ScooterShippingProvider implements ShippingProvider {
+  readonly id = 'scooter' as const;
+  readonly name = 'Scooter';
+
+  constructor(private readonly flatFee: number | null = null) {}
+
+  async createShipment(request: ShipmentRequest): Promise<ShipmentResult> {
+    return { provider: this.id, barcode: request.orderName.replace('#', ''), reference: null };
+  }
+
+  async findShipment(): Promise<ShipmentResult | null> {
+    return null; // Nothing is booked through the dashboard
+  }
+
+  async track(barcode: string): Promise<ShipmentTracking> {
+    return { provider: this.id, barcode, status: 'Delivered by our scooter — see the order status', updatedAt: null };
+  }
+
+  async getLabel(): Promise<Buffer> {
+    throw new ShippingOperationUnsupportedError(this.name, 'shipping labels');
+  }
+
+  async cancelShipment(): Promise<void> {
+    // Nothing was booked
+  }
+
+  async listLocations(): Promise<ShippingLocation[]> {
+    return [];
+  }
+
+  async quote(): Promise<ShippingQuote | null> {
+    return this.flatFee === null ? null : { provider: this.id, fee: this.flatFee, vat: 0, total: this.flatFee };
+  }
+}
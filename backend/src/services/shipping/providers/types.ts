@@ -0,0 +1,100 @@
+export type ShippingProviderId = 'mylerz' | 'manual' | 'scooter';
+
+/** Carrier-neutral shipment details, built from a Shopify order by buildShipmentRequest. */
+export interface ShipmentRequest {
+  orderId: number;
+  orderName: string; // e.g. #1120
+  customerName: string;
+  phone: string;
+  address: {
+    street: string;
+    city: string;
+    province: string;
+    country: string;
+  };
+  codValue: number; // 0 when prepaid (InstaPay)
+  weightKg: number;
+  description?: string;
+  notes?: string | null;
+  /** Carrier-assigned tracking number, for carriers booked outside the dashboard. */
+  trackingNumber?: string | null;
+  /** Mylerz area ids from the order's `mylerz_*_id:` tags. */
+  mylerzLocation?: {
+    cityId: string | null;
+    neighborhoodId: string | null;
+    subZoneId: string | null;
+  };
+}
+
+export interface ShipmentResult {
+  provider: ShippingProviderId;
+  barcode: string;
+  reference?: string | null; // Carrier pickup/order reference, if any
+}
+
+export interface ShipmentTracking {
+  provider: ShippingProviderId;
+  barcode: string;
+  status: string; // The carrier's own status label
+  updatedAt: string | null;
+  attempts?: number | null; // Delivery attempts so far, when the carrier reports them
+  trackingUrl?: string | null;
+}
+
+export interface ShippingLocation {
+  id: string;
+  name: string;
+  nameEn?: string;
+  children?: ShippingLocation[];
+}
+
+export interface ShippingQuoteRequest {
+  codValue: number;
+  weightKg: number;
+  city?: string;
+}
+
+export interface ShippingQuote {
+  provider: ShippingProviderId;
+  fee: number;
+  vat: number;
+  total: number;
+}
+
+/**
+ * One carrier (or in-house delivery). Operations a provider cannot do throw
+ * ShippingOperationUnsupportedError rather than returning placeholders.
+ */
+export interface ShippingProvider {
+  readonly id: ShippingProviderId;
+  readonly name: string;
+  createShipment(request: ShipmentRequest): Promise<ShipmentResult>;
+  /** A shipment already booked under this order reference (e.g. `1120`), or null. */
+  findShipment(reference: string): Promise<ShipmentResult | null>;
+  track(barcode: string): Promise<ShipmentTracking>;
+  /** Airway bill / label PDF. */
+  getLabel(barcode: string, reference: string): Promise<Buffer>;
+  cancelShipment(barcode: string): Promise<void>;
+  listLocations(): Promise<ShippingLocation[]>;
+  /** Expected charges, or null when the provider has no rate card. */
+  quote(request: ShippingQuoteRequest): Promise<ShippingQuote | null>;
+}
+
+export class ShippingOperationUnsupportedError extends Error {
+  statusCode = 400;
+
+  constructor(providerName: string, operation: string) {
+    super(`${providerName} does not support ${operation}`);
+    this.name = 'ValidationError';
+  }
+}
+
+/** The order cannot be shipped as it is (missing address data, rejected by the carrier); retrying will not help. */
+export class ShipmentRequestError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
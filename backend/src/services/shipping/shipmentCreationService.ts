@@ -0,0 +1,354 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import { readOrderWorkflowState, updateOrderWorkflowTags } from '../../utils/orderWorkflowState';
+import { queuesEnabled, shippingQueue } from '../../jobs/queue';
+import { shopifyService } from '../shopify';
+import { orderMirrorService } from '../orders/orderMirrorService';
+import { runWithOrderEventContext } from '../orders/orderEventService';
+import { buildShipmentRequest, ShipmentRequestError, shippingProviders } from './providers';
+
+const FAILURES_TABLE = 'shipment_failures';
+const SHIPMENTS_TABLE = 'shipments';
+
+/** A booking claim older than this belongs to a call that died, and may be taken over. */
+const SHIPMENT_CLAIM_TIMEOUT_MS = 5 * 60_000;
+
+export const CREATE_SHIPMENT_JOB = 'create-shipment';
+
+/** Tries per order before it lands on the needs-attention list: 1, 2, 4, 8 minutes apart. */
+export const CREATE_SHIPMENT_ATTEMPTS = 5;
+const CREATE_SHIPMENT_BACKOFF_MS = 60_000;
+
+export interface ShipmentFailure {
+  order_id: number;
+  order_name: string;
+  provider: string;
+  reason: string;
+  attempts: number;
+  permanent: boolean; // Needs an order fix (address, phone) rather than another try
+  first_failed_at: string;
+  last_failed_at: string;
+  dismissed_at: string | null; // Dismissed orders are neither listed nor retried by the sweep
+}
+
+/** One row per order booked through the dashboard; claimed before the carrier is called. */
+export interface ShipmentRecord {
+  order_id: number;
+  order_name: string;
+  provider: string;
+  state: 'booking' | 'booked';
+  barcode: string | null;
+  claimed_at: string;
+  booked_at: string | null;
+}
+
+export type ShipmentCreationOutcome =
+  | { status: 'created'; barcode: string }
+  | { status: 'skipped'; reason: string }
+  | { status: 'needs_attention'; reason: string };
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+/**
+ * Books the carrier shipment when an order becomes ready to ship. Runs on the
+ * shipping queue so transient carrier errors are retried with backoff; orders
+ * that still fail, or cannot be shipped as they are, go on the needs-attention
+ * list until a retry succeeds or someone dismisses them. Each order is booked
+ * at most once: it is claimed in `shipments` first and looked up at the carrier
+ * before a new booking.
+ */
+export class ShipmentCreationService {
+  /** Queue shipment creation for an order (runs inline where queues are off). */
+  async enqueue(orderId: number): Promise<void> {
+    if (!queuesEnabled) {
+      await this.createForOrder(orderId).catch((error) =>
+        this.recordFailure(orderId, null, error instanceof Error ? error.message : String(error), 1, false)
+      );
+      return;
+    }
+
+    await shippingQueue.add(
+      CREATE_SHIPMENT_JOB,
+      { orderId },
+      {
+        jobId: `${CREATE_SHIPMENT_JOB}-${orderId}`,
+        attempts: CREATE_SHIPMENT_ATTEMPTS,
+        backoff: { type: 'exponential', delay: CREATE_SHIPMENT_BACKOFF_MS },
+        // Failures are kept in shipment_failures; a finished job must not block the next enqueue
+        removeOnComplete: true,
+        removeOnFail: true,
+      }
+    );
+    logger.info('Shipment creation queued', { orderId });
+  }
+
+  /**
+   * Create the shipment if the order still needs one. Throws on errors worth
+   * retrying; orders that cannot be shipped as they are are recorded and returned.
+   */
+  async createForOrder(orderId: number, attempt = 1): Promise<ShipmentCreationOutcome> {
+    // Read Shopify, not the mirror: our own barcode write may not have been mirrored yet
+    const order = await shopifyService.getOrder(orderId);
+    const state = readOrderWorkflowState(order.tags);
+
+    if (!state.statusFlags.includes('ready_to_ship')) {
+      return { status: 'skipped', reason: 'Order is no longer ready to ship' };
+    }
+    if (state.shippingBarcode) {
+      await this.clearFailure(orderId);
+      return { status: 'skipped', reason: `Order already has shipment ${state.shippingBarcode}` };
+    }
+    const provider = shippingProviders.forOrder(order.tags);
+    if (provider?.id !== 'mylerz') {
+      return { status: 'skipped', reason: `Shipments for ${provider?.name ?? 'pickup'} orders are not created automatically` };
+    }
+
+    const claim = await this.claim(orderId, order.name, provider.id);
+    if (claim === 'held') {
+      return { status: 'skipped', reason: 'Shipment is already being booked' };
+    }
+
+    let barcode = claim.barcode;
+    if (!barcode) {
+      try {
+        // An earlier try may have been booked by the carrier before it timed out
+        const existing = await provider.findShipment(order.name.replace('#', ''));
+        const result = existing ?? (await provider.createShipment(buildShipmentRequest(order)));
+        barcode = result.barcode;
+        if (existing) logger.info('Found existing shipment for order', { orderId, orderName: order.name, barcode });
+        await this.markBooked(orderId, barcode);
+      } catch (error) {
+        await this.releaseClaim(orderId);
+        if (error instanceof ShipmentRequestError) {
+          await this.recordFailure(orderId, order.name, error.message, attempt, true);
+          return { status: 'needs_attention', reason: error.message };
+        }
+        throw error;
+      }
+    }
+
+    // A failed tag write is retried with the recorded barcode, never by booking again
+    const tags = updateOrderWorkflowTags(order.tags, { shippingBarcode: barcode });
+    await runWithOrderEventContext({ source: 'system', actor: 'shipmentCreation' }, () =>
+      shopifyService.updateOrderTags(order.id.toString(), tags)
+    );
+    await this.clearFailure(orderId);
+    logger.info('Shipment created', { orderId, orderName: order.name, provider: provider.id, barcode });
+    return { status: 'created', barcode };
+  }
+
+  /**
+   * Claim the order before calling the carrier, so the queue, the sweep and the
+   * status hook cannot book it at the same time. Returns the barcode when it
+   * was already booked, or 'held' when another call is booking it right now.
+   */
+  private async claim(
+    orderId: number,
+    orderName: string,
+    providerId: string
+  ): Promise<{ barcode: string | null } | 'held'> {
+    const now = new Date().toISOString();
+    const { error } = await supabase.from(SHIPMENTS_TABLE).insert({
+      order_id: orderId,
+      order_name: orderName,
+      provider: providerId,
+      state: 'booking',
+      claimed_at: now,
+    });
+
+    if (!error) return { barcode: null };
+    if (isMissingTableError(error)) {
+      logger.warn('shipments table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+      return { barcode: null };
+    }
+    if (error.code !== '23505') {
+      logger.error(`Error claiming shipment: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    const { data: existing, error: readError } = await supabase
+      .from(SHIPMENTS_TABLE)
+      .select('*')
+      .eq('order_id', orderId)
+      .single();
+    if (readError) {
+      logger.error(`Error reading shipment claim: ${formatSupabaseError(readError)}`);
+      throw readError;
+    }
+
+    const record = existing as ShipmentRecord;
+    if (record.state === 'booked' && record.barcode) return { barcode: record.barcode };
+    if (Date.now() - new Date(record.claimed_at).getTime() < SHIPMENT_CLAIM_TIMEOUT_MS) return 'held';
+
+    // Take over a dead claim; only one caller can match the old claimed_at
+    const { data: taken, error: takeError } = await supabase
+      .from(SHIPMENTS_TABLE)
+      .update({ claimed_at: now })
+      .eq('order_id', orderId)
+      .eq('state', 'booking')
+      .eq('claimed_at', record.claimed_at)
+      .select('order_id');
+    if (takeError) {
+      logger.error(`Error taking over shipment claim: ${formatSupabaseError(takeError)}`);
+      throw takeError;
+    }
+    return taken && taken.length > 0 ? { barcode: null } : 'held';
+  }
+
+  private async markBooked(orderId: number, barcode: string): Promise<void> {
+    const { error } = await supabase
+      .from(SHIPMENTS_TABLE)
+      .update({ state: 'booked', barcode, booked_at: new Date().toISOString() })
+      .eq('order_id', orderId);
+
+    // The tag write that follows also records the barcode, and findShipment finds it otherwise
+    if (error && !isMissingTableError(error)) {
+      logger.error(`Error recording booked shipment: ${formatSupabaseError(error)}`, { orderId, barcode });
+    }
+  }
+
+  private async releaseClaim(orderId: number): Promise<void> {
+    const { error } = await supabase
+      .from(SHIPMENTS_TABLE)
+      .delete()
+      .eq('order_id', orderId)
+      .eq('state', 'booking');
+
+    if (error && !isMissingTableError(error)) {
+      logger.error(`Error releasing shipment claim: ${formatSupabaseError(error)}`, { orderId });
+    }
+  }
+
+  /** Queue every ready-to-ship company order that has no shipment and is not waiting on someone. */
+  async sweep(): Promise<number> {
+    const [orders, failures] = await Promise.all([
+      orderMirrorService.getOrders({ withTags: ['ready_to_ship'] }),
+      this.getNeedsAttention({ includeDismissed: true }),
+    ]);
+    const waiting = new Set(failures.map((failure) => failure.order_id));
+
+    const pending = orders.filter((order) => {
+      if (waiting.has(order.id)) return false;
+      if (readOrderWorkflowState(order.tags).shippingBarcode) return false;
+      return shippingProviders.forOrder(order.tags)?.id === 'mylerz';
+    });
+
+    for (const order of pending) await this.enqueue(order.id);
+    if (pending.length > 0) logger.info(`Queued shipment creation for ${pending.length} ready-to-ship order(s)`);
+    return pending.length;
+  }
+
+  async getNeedsAttention(options: { includeDismissed?: boolean } = {}): Promise<ShipmentFailure[]> {
+    let query = supabase.from(FAILURES_TABLE).select('*').order('last_failed_at', { ascending: false });
+    if (!options.includeDismissed) query = query.is('dismissed_at', null);
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('shipment_failures table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching shipment failures: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    return (data || []) as ShipmentFailure[];
+  }
+
+  async recordFailure(
+    orderId: number,
+    orderName: string | null,
+    reason: string,
+    attempts: number,
+    permanent: boolean
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const { data: existing } = await supabase
+      .from(FAILURES_TABLE)
+      .select('order_name, first_failed_at')
+      .eq('order_id', orderId)
+      .maybeSingle();
+
+    const { error } = await supabase.from(FAILURES_TABLE).upsert(
+      {
+        order_id: orderId,
+        order_name: orderName ?? existing?.order_name ?? String(orderId),
+        provider: 'mylerz',
+        reason,
+        attempts,
+        permanent,
+        first_failed_at: existing?.first_failed_at ?? now,
+        last_failed_at: now,
+        dismissed_at: null,
+      },
+      { onConflict: 'order_id' }
+    );
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('shipment_failures table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return;
+      }
+      logger.error(`Error recording shipment failure: ${formatSupabaseError(error)}`);
+      return;
+    }
+
+    logger.warn('Shipment needs attention', { orderId, orderName, reason, attempts, permanent });
+  }
+
+  /** Hide an order from the list and stop the sweep retrying it (e.g. shipped another way). */
+  async dismiss(orderId: number): Promise<void> {
+    const { error } = await supabase
+      .from(FAILURES_TABLE)
+      .update({ dismissed_at: new Date().toISOString() })
+      .eq('order_id', orderId);
+
+    if (error) {
+      logger.error(`Error dismissing shipment failure: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  async clearFailure(orderId: number): Promise<void> {
+    const { error } = await supabase.from(FAILURES_TABLE).delete().eq('order_id', orderId);
+
+    if (error && !isMissingTableError(error)) {
+      logger.error(`Error clearing shipment failure: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order's shipment at the carrier and drop its `shipments` row, so a
+   * later move to ready_to_ship books a new one. The caller removes the barcode tag.
+   */
+  async cancel(orderId: number, tags: string[], barcode: string): Promise<void> {
+    const provider = shippingProviders.forOrder(tags);
+    if (provider) await provider.cancelShipment(barcode);
+
+    const { error } = await supabase.from(SHIPMENTS_TABLE).delete().eq('order_id', orderId);
+    if (error && !isMissingTableError(error)) {
+      logger.error(`Error removing cancelled shipment: ${formatSupabaseError(error)}`, { orderId, barcode });
+    }
+    logger.info('Shipment cancelled', { orderId, provider: provider?.id, barcode });
+  }
+
+  /** Try an order on the needs-attention list again now; still-failing orders stay on it. */
+  async retry(orderId: number): Promise<ShipmentCreationOutcome> {
+    try {
+      const outcome = await this.createForOrder(orderId);
+      if (outcome.status === 'skipped') await this.clearFailure(orderId);
+      return outcome;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const { data } = await supabase.from(FAILURES_TABLE).select('attempts').eq('order_id', orderId).maybeSingle();
+      await this.recordFailure(orderId, null, reason, (data?.attempts ?? 0) + 1, false);
+      return { status: 'needs_attention', reason };
+    }
+  }
+}
+
+export const shipmentCreationService = new ShipmentCreationService();
@@ -0,0 +1,174 @@
+import { supabase } from '../../config/supabase';
+import { logger } from '../../utils/logger';
+import { formatSupabaseError } from '../../utils/financeOrderSnapshot';
+import {
+  CarrierStatusAction,
+  CarrierStatusRule,
+  DEFAULT_MYLERZ_STATUS_RULES,
+  isCarrierStatusAction,
+  UNMAPPED_CARRIER_STATUS,
+} from '../../utils/carrierStatusMapping';
+import { ShippingProviderId } from './providers';
+
+const MAPPINGS_TABLE = 'carrier_status_mappings';
+const TRACKING_TABLE = 'shipment_tracking_events';
+
+export interface ShipmentTrackingEvent {
+  id: number;
+  order_id: number;
+  barcode: string;
+  provider: ShippingProviderId;
+  status: string;
+  action: CarrierStatusAction;
+  attempts: number | null;
+  carrier_updated_at: string | null;
+  recorded_at: string;
+}
+
+export type ShipmentTrackingInput = Omit<ShipmentTrackingEvent, 'id' | 'recorded_at'>;
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function isMissingTableError(error: { code?: string } | null): boolean {
+  return error?.code === '42P01' || error?.code === 'PGRST205';
+}
+
+const DEFAULT_RULES: Partial<Record<ShippingProviderId, CarrierStatusRule[]>> = {
+  mylerz: DEFAULT_MYLERZ_STATUS_RULES,
+};
+
+/**
+ * Carrier status → workflow mapping (carrier_status_mappings, on top of the built-in
+ * defaults) and the per-barcode tracking history the status checker records.
+ */
+export class ShipmentTrackingService {
+  /** Effective rules for a carrier: saved rules override the defaults with the same status. */
+  async getStatusRules(provider: ShippingProviderId = 'mylerz'): Promise<CarrierStatusRule[]> {
+    const defaults = DEFAULT_RULES[provider] ?? [{ status: UNMAPPED_CARRIER_STATUS, action: 'none' as const }];
+    const { data, error } = await supabase
+      .from(MAPPINGS_TABLE)
+      .select('carrier_status, action')
+      .eq('provider', provider);
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('carrier_status_mappings table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return defaults;
+      }
+      logger.error(`Error fetching carrier status mappings: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    const saved = new Map<string, CarrierStatusRule>();
+    for (const row of data || []) {
+      if (isCarrierStatusAction(row.action)) saved.set(row.carrier_status, { status: row.carrier_status, action: row.action });
+    }
+    const merged = defaults.map((rule) => saved.get(rule.status) ?? rule);
+    for (const rule of saved.values()) {
+      if (!defaults.some((d) => d.status === rule.status)) merged.push(rule);
+    }
+    return merged;
+  }
+
+  async saveStatusRule(provider: ShippingProviderId, status: string, action: unknown): Promise<CarrierStatusRule> {
+    const carrierStatus = String(status || '').trim();
+    if (!carrierStatus) throw validationError('Carrier status is required');
+    if (!isCarrierStatusAction(action)) throw validationError(`Unknown action "${String(action)}"`);
+
+    const { error } = await supabase
+      .from(MAPPINGS_TABLE)
+      .upsert(
+        { provider, carrier_status: carrierStatus, action, updated_at: new Date().toISOString() },
+        { onConflict: 'provider,carrier_status' }
+      );
+
+    if (error) {
+      logger.error(`Error saving carrier status mapping: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return { status: carrierStatus, action };
+  }
+
+  /** Drop a saved rule; a built-in default for the same status applies again. */
+  async deleteStatusRule(provider: ShippingProviderId, status: string): Promise<void> {
+    const { error } = await supabase
+      .from(MAPPINGS_TABLE)
+      .delete()
+      .eq('provider', provider)
+      .eq('carrier_status', status);
+
+    if (error) {
+      logger.error(`Error deleting carrier status mapping: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+  }
+
+  /** Latest recorded event per barcode. */
+  async getLatestEvents(barcodes: string[]): Promise<Map<string, ShipmentTrackingEvent>> {
+    const latest = new Map<string, ShipmentTrackingEvent>();
+    if (barcodes.length === 0) return latest;
+
+    const { data, error } = await supabase
+      .from(TRACKING_TABLE)
+      .select('*')
+      .in('barcode', barcodes)
+      .order('recorded_at', { ascending: false });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('shipment_tracking_events table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return latest;
+      }
+      logger.error(`Error fetching shipment tracking events: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+
+    for (const event of (data || []) as ShipmentTrackingEvent[]) {
+      if (!latest.has(event.barcode)) latest.set(event.barcode, event);
+    }
+    return latest;
+  }
+
+  /** Append a tracking event unless it repeats the barcode's latest status and attempt count. */
+  async record(event: ShipmentTrackingInput, latest?: ShipmentTrackingEvent): Promise<boolean> {
+    if (latest && latest.status === event.status && (latest.attempts ?? null) === (event.attempts ?? null)) {
+      return false;
+    }
+
+    const { error } = await supabase.from(TRACKING_TABLE).insert(event);
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('shipment_tracking_events table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return false;
+      }
+      logger.error(`Error recording shipment tracking event: ${formatSupabaseError(error)}`);
+      return false;
+    }
+    return true;
+  }
+
+  /** Carrier status history for an order, oldest first. */
+  async getHistory(orderId: number): Promise<ShipmentTrackingEvent[]> {
+    const { data, error } = await supabase
+      .from(TRACKING_TABLE)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        logger.warn('shipment_tracking_events table missing — see docs/SQL_QUERIES_FOR_SUPABASE.md');
+        return [];
+      }
+      logger.error(`Error fetching shipment tracking history: ${formatSupabaseError(error)}`);
+      throw error;
+    }
+    return (data || []) as ShipmentTrackingEvent[];
+  }
+}
+
+export const shipmentTrackingService = new ShipmentTrackingService();
@@ -67,6 +67,13 @@ export interface OrderDTO {
   Street: string;
   Country: string;
   Neighborhood: string;
+  City?: string;
+  District?: string;
+  Reference?: string;
+  Description?: string;
+  Total_Weight?: number;
+  Payment_Type?: 'COD' | 'PP';
+  Special_Notes?: string;
 }
 
 export interface OrderResponse {
@@ -2,7 +2,8 @@ import '@shopify/shopify-api/adapters/node';
 import { shopifyApi, ApiVersion, Session, RequestReturn, AuthScopes } from '@shopify/shopify-api';
 import { OrderStatus } from '../types/order';
 import { logger } from '../utils/logger';
-import { normalizeShopifyLineItems, normalizeShopifyOrder } from '../utils/shopifyOrderNormalize';
+import { lineItemDiscountTotal, normalizeShopifyLineItems, normalizeShopifyOrder } from '../utils/shopifyOrderNormalize';
+import { PLANNER_SCHEDULED_TAG } from '../utils/productionPlanner';
 
 interface CustomerDetails {
   id: string;
@@ -33,10 +34,16 @@ export interface ShopifyOrder {
   note?: string | null; // Order note from Shopify
   /** Order-level checkout attributes (REST: note_attributes). */
   custom_attributes?: Array<{ key: string; value: string }>;
+  /** Landing page of the customer's first visit, with its UTM parameters (REST: landing_site). */
+  landing_site?: string | null;
+  /** Discount codes applied at checkout. */
+  discount_codes?: string[];
   line_items: {
     title: string;
     quantity: number;
     price: string;
+    /** Discounts allocated to the whole line (all units), as a decimal string. */
+    total_discount?: string;
     variant_title: string | null;
     product_id?: number;
     variant_id?: number;
@@ -81,6 +88,53 @@ export interface ShopifyOrder {
   };
 }
 
+/** What a write changed, recorded in the order_events audit log. */
+export type ShopifyOrderWriteKind =
+  | 'tags'
+  | 'status'
+  | 'note'
+  | 'due_date'
+  | 'start_date'
+  | 'priority'
+  | 'fulfillment'
+  | 'delete';
+
+/** Fields the dashboard writes back to Shopify, reported to order write listeners. */
+export type ShopifyOrderWritePatch = {
+  tags?: string[];
+  note?: string | null;
+  deleted?: boolean;
+  kind?: ShopifyOrderWriteKind;
+  /** Tags before the write, when the writer already had the order. */
+  tagsBefore?: string[];
+};
+
+export interface UpdateOrderTagsOptions {
+  kind?: ShopifyOrderWriteKind;
+  tagsBefore?: string[];
+}
+
+type ShopifyOrderWriteListener = (orderId: number, patch: ShopifyOrderWritePatch) => void;
+
+const orderWriteListeners: ShopifyOrderWriteListener[] = [];
+
+/** Subscribe to successful order tag/note writes (e.g. to keep the local order mirror current). */
+export function onShopifyOrderWrite(listener: ShopifyOrderWriteListener): void {
+  orderWriteListeners.push(listener);
+}
+
+function emitShopifyOrderWrite(orderId: number | string, patch: ShopifyOrderWritePatch): void {
+  const id = Number(orderId);
+  if (!Number.isFinite(id)) return;
+  for (const listener of orderWriteListeners) {
+    try {
+      listener(id, patch);
+    } catch (error) {
+      logger.error('Order write listener failed', { orderId: id, error });
+    }
+  }
+}
+
 const SHOPIFY_SCOPES = new AuthScopes([
   'read_orders',
   'write_orders',
@@ -175,6 +229,8 @@ export class ShopifyService {
     ordersQuery?: string;
     /** Max line items per order in GraphQL (default 250). Use a small value for lightweight views. */
     lineItemsFirst?: number;
+    /** Ascending order ID, for callers that page on `id:>` themselves (Shopify's default order is unspecified). */
+    sortById?: boolean;
   }): Promise<ShopifyOrder[]> {
     try {
       const allOrders: ShopifyOrder[] = [];
@@ -252,7 +308,7 @@ export class ShopifyService {
         // Note: cursor is optional, so we only include it if it exists
         const graphqlQuery = `
           query GetOrders {
-            orders(first: ${limit}${escapedCursor ? `, after: "${escapedCursor}"` : ''}, query: "${escapedQueryString}") {
+            orders(first: ${limit}${escapedCursor ? `, after: "${escapedCursor}"` : ''}, query: "${escapedQueryString}"${params.sortById ? ', sortKey: ID' : ''}) {
               edges {
                 cursor
                 node {
@@ -271,6 +327,12 @@ export class ShopifyService {
                     key
                     value
                   }
+                  discountCodes
+                  customerJourneySummary {
+                    firstVisit {
+                      landingPage
+                    }
+                  }
                   totalPriceSet {
                     shopMoney {
                       amount
@@ -317,6 +379,13 @@ export class ShopifyService {
                             amount
                           }
                         }
+                        discountAllocations {
+                          allocatedAmountSet {
+                            shopMoney {
+                              amount
+                            }
+                          }
+                        }
                         variant {
                           id
                           title
@@ -457,6 +526,13 @@ export class ShopifyService {
                 quantity: item.quantity,
                 currentQuantity: item.currentQuantity,
                 price: item.originalUnitPriceSet?.shopMoney?.amount || '0',
+                total_discount: lineItemDiscountTotal(
+                  (item.discountAllocations || []).map(
+                    (allocation: { allocatedAmountSet?: { shopMoney?: { amount?: string } } }) => ({
+                      amount: allocation.allocatedAmountSet?.shopMoney?.amount,
+                    })
+                  )
+                ),
                 variant_title: item.variant?.title || null,
                 product_id: item.variant?.product?.id
                   ? parseInt(item.variant.product.id.split('/').pop() || '0', 10)
@@ -520,6 +596,9 @@ export class ShopifyService {
                 key: String(attr.key ?? ''),
                 value: String(attr.value ?? ''),
               })) ?? [],
+            // First visit, like REST/webhook landing_site, so both mirror paths attribute the same campaign
+            landing_site: node.customerJourneySummary?.firstVisit?.landingPage ?? null,
+            discount_codes: node.discountCodes || [],
             line_items: lineItems,
             customer: customerId ? {
               id: customerId,
@@ -629,200 +708,18 @@ export class ShopifyService {
     }
   }
 
-  async updateOrderStatus(orderId: number, status: string, previousStatus?: string): Promise<void> {
-    try {
-      // Get the current order to check existing tags
-      const order = await this.getOrder(orderId);
-      if (!order) {
-        throw new Error('Order not found');
-      }
-
-      // Get existing tags and ensure they are trimmed
-      const existingTags = typeof order.tags === 'string' 
-        ? order.tags.split(',').map((tag: string) => tag.trim())
-        : Array.isArray(order.tags)
-          ? order.tags.map((tag: string) => tag.trim())
-          : [];
-      
-      // Determine previous status if not provided
-      if (!previousStatus) {
-        const statusTags = ['order_ready', 'customer_confirmed', 'ready_to_ship', 'ready-to-ship', 'shipped', 'fulfilled', 'cancelled', 'on_hold'];
-        const existingStatusTag = existingTags.find((tag: string) => 
-          statusTags.some(st => tag.trim().toLowerCase() === st.trim().toLowerCase())
-        );
-        if (existingStatusTag) {
-          const trimmed = existingStatusTag.trim().toLowerCase();
-          // Normalize ready-to-ship to ready_to_ship
-          previousStatus = trimmed === 'ready-to-ship' ? 'ready_to_ship' : trimmed;
-        } else {
-          previousStatus = 'pending';
-        }
-      } else {
-        // Normalize previous status (handle ready-to-ship -> ready_to_ship)
-        const trimmed = previousStatus.trim().toLowerCase();
-        previousStatus = trimmed === 'ready-to-ship' ? 'ready_to_ship' : trimmed;
-      }
-      
-      // Parse status string - it might contain additional tags like "fulfilled,fulfillment_date:2026-01-01"
-      const statusParts = status.split(',').map(s => s.trim());
-      const actualStatus = statusParts[0]; // First part is the status
-      const additionalTags = statusParts.slice(1); // Rest are additional tags
-
-      // Filter out existing status tags and date tags (case-insensitive)
-      const statusTags = ['order_ready', 'customer_confirmed', 'ready_to_ship', 'ready-to-ship', 'shipped', 'fulfilled', 'cancelled', 'on_hold'].map(tag => tag.trim().toLowerCase());
-      const filteredTags = existingTags.filter((tag: string) => {
-        const trimmed = tag.trim().toLowerCase();
-        return !statusTags.includes(trimmed) && 
-               !tag.trim().startsWith('shipping_date:') &&
-               !tag.trim().startsWith('shipped_date:') &&
-               !tag.trim().startsWith('customer_confirmed_date:') &&
-               !tag.trim().startsWith('fulfilled_at:') &&
-               !tag.trim().startsWith('fulfillment_date:');
-      });
-
-      // Add new status tag if not pending (ensure it's trimmed)
-      const trimmedStatus = actualStatus.trim().toLowerCase();
-      if (trimmedStatus !== 'pending') {
-        filteredTags.push(actualStatus.trim());
-      }
-
-      // Add any additional tags from the status string (like fulfillment_date:)
-      additionalTags.forEach(tag => {
-        if (tag && tag.trim()) {
-          filteredTags.push(tag.trim());
-        }
-      });
-
-      // Add customer_confirmed_date tag when order is confirmed
-      if (actualStatus.trim().toLowerCase() === 'customer_confirmed') {
-        // Check if customer_confirmed_date tag already exists
-        const existingConfirmedDateTag = filteredTags.find(tag => 
-          tag.trim().startsWith('customer_confirmed_date:')
-        );
-        if (!existingConfirmedDateTag) {
-          const today = new Date();
-          const confirmedDate = today.toISOString().split('T')[0]; // Get only YYYY-MM-DD
-          const confirmedDateTag = `customer_confirmed_date:${confirmedDate}`;
-          filteredTags.push(confirmedDateTag);
-          logger.info('Added customer_confirmed_date tag', {
-            orderId,
-            confirmedDate,
-            confirmedDateTag,
-          });
-        }
-      }
-
-      // Add shipped_date tag when order is shipped
-      if (actualStatus.trim().toLowerCase() === 'shipped') {
-        // Check if shipped_date tag already exists
-        const existingShippedDateTag = filteredTags.find(tag => 
-          tag.trim().startsWith('shipped_date:') || tag.trim().startsWith('shipping_date:')
-        );
-        if (!existingShippedDateTag) {
-          const today = new Date();
-          const shippedDate = today.toISOString().split('T')[0]; // Get only YYYY-MM-DD
-          const shippedDateTag = `shipped_date:${shippedDate}`;
-          filteredTags.push(shippedDateTag);
-          logger.info('Added shipped_date tag', {
-            orderId,
-            shippedDate,
-            shippedDateTag,
-          });
-        }
-      }
-
-      // Remove priority tag if status is fulfilled or cancelled
-      if (actualStatus.trim() === 'fulfilled' || actualStatus.trim() === 'cancelled') {
-        const priorityIndex = filteredTags.findIndex(tag => tag.trim() === 'priority');
-        if (priorityIndex > -1) {
-          filteredTags.splice(priorityIndex, 1);
-        }
-      }
-
-      const hadShippedTag = existingTags.some(
-        (tag: string) => tag.trim().toLowerCase() === 'shipped'
-      );
-
-      // Cancelled after shipping: preserve tag when cancelling a shipped order via status API
-      if (actualStatus.trim().toLowerCase() === 'cancelled' && hadShippedTag) {
-        const hasAfterShipping = filteredTags.some(
-          (tag: string) => tag.trim().toLowerCase() === 'cancelled_after_shipping'
-        );
-        if (!hasAfterShipping) {
-          filteredTags.push('cancelled_after_shipping');
-        }
-        const hasCancelledDate = filteredTags.some((tag: string) =>
-          tag.trim().toLowerCase().startsWith('cancelled_date:')
-        );
-        if (!hasCancelledDate) {
-          const cancelledDate = new Date().toISOString().split('T')[0];
-          filteredTags.push(`cancelled_date:${cancelledDate}`);
-        }
-      }
-
-      // Add fulfilled_date tag when order is fulfilled
-      if (actualStatus.trim().toLowerCase() === 'fulfilled') {
-        // Check if fulfilled_at or fulfillment_date tag already exists (from additional tags or existing)
-        const existingFulfilledDateTag = filteredTags.find(tag => 
-          tag.trim().startsWith('fulfilled_at:') || tag.trim().startsWith('fulfillment_date:')
-        );
-        if (!existingFulfilledDateTag) {
-          const today = new Date();
-          const fulfilledDate = today.toISOString().split('T')[0]; // Get only YYYY-MM-DD
-          const fulfilledDateTag = `fulfillment_date:${fulfilledDate}`;
-          filteredTags.push(fulfilledDateTag);
-          logger.info('Added fulfillment_date tag', {
-            orderId,
-            fulfilledDate,
-            fulfilledDateTag,
-          });
-        }
-
-        // Check if order is a pickup order - automatically mark as paid with 0 shipping cost
-        const isPickup = existingTags.some((tag: string) => 
-          tag.trim().toLowerCase().startsWith('shipping_method:') && 
-          tag.trim().toLowerCase().includes('pickup')
-        ) || filteredTags.some((tag: string) => 
-          tag.trim().toLowerCase().startsWith('shipping_method:') && 
-          tag.trim().toLowerCase().includes('pickup')
-        );
-
-        if (isPickup) {
-          // Remove any existing paid and paid_date tags
-          const paidTagIndex = filteredTags.findIndex(tag => tag.trim() === 'paid');
-          if (paidTagIndex > -1) {
-            filteredTags.splice(paidTagIndex, 1);
-          }
-          const paidDateTagIndex = filteredTags.findIndex(tag => tag.trim().startsWith('paid_date:'));
-          if (paidDateTagIndex > -1) {
-            filteredTags.splice(paidDateTagIndex, 1);
-          }
-
-          // Add paid and paid_date tags for pickup orders
-          const today = new Date();
-          const paidDate = today.toISOString().split('T')[0]; // Get only YYYY-MM-DD
-          filteredTags.push('paid');
-          filteredTags.push(`paid_date:${paidDate}`);
-          logger.info('Added paid and paid_date tags for pickup order', {
-            orderId,
-            paidDate,
-          });
-        }
-      }
-
-      // Update the order with new tags (ensure all tags are trimmed before joining)
-      await this.client.put({
-        path: `orders/${orderId}`,
-        data: {
-          order: {
-            tags: filteredTags.map(tag => tag.trim()).join(', ')
-          }
-        }
-      });
-    } catch (error: unknown) {
-      console.error('Error updating order status:', error);
-      throw error;
-    }
+  /** Product and variant title of a variant, or null when Shopify has no such variant. */
+  async getVariantTitles(variantId: number): Promise<{ title: string; variantTitle: string | null } | null> {
+    const response = await this.graphqlClient.query({
+      data: {
+        query: `query VariantTitles($id: ID!) { productVariant(id: $id) { title product { title } } }`,
+        variables: { id: `gid://shopify/ProductVariant/${variantId}` },
+      },
+    }) as unknown as RequestReturn<{ data?: { productVariant: { title: string; product: { title: string } } | null } }>;
+
+    const variant = response.body.data?.productVariant;
+    if (!variant) return null;
+    return { title: variant.product.title, variantTitle: variant.title === 'Default Title' ? null : variant.title };
   }
 
   async updateOrderDueDate(orderId: number, customDueDate: string): Promise<void> {
@@ -841,9 +738,10 @@ export class ShopifyService {
           : [];
       
       // Remove any existing custom due date tags and trim all tags
+      // (a manual date also takes the order out of the production planner's hands)
       const filteredTags = existingTags
         .map((tag: string) => tag.trim())
-        .filter((tag: string) => !tag.startsWith('custom_due_date:'));
+        .filter((tag: string) => !tag.startsWith('custom_due_date:') && tag !== PLANNER_SCHEDULED_TAG);
       
       // Add the new custom due date tag
       const finalTags = [...filteredTags, `custom_due_date:${formattedDate}`];
@@ -858,6 +756,11 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(orderId, {
+        tags: finalTags,
+        kind: 'due_date',
+        tagsBefore: existingTags.map((tag: string) => tag.trim())
+      });
     } catch (error) {
       console.error('Error updating order due date:', error);
       throw new Error('Failed to update order due date in Shopify');
@@ -884,7 +787,9 @@ export class ShopifyService {
       console.log('Existing tags:', existingTags);
       
       // Remove any existing custom start date tags
-      const filteredTags = existingTags.filter((tag: string) => !tag.startsWith('custom_start_date:'));
+      const filteredTags = existingTags.filter(
+        (tag: string) => !tag.startsWith('custom_start_date:') && tag.trim() !== PLANNER_SCHEDULED_TAG
+      );
       console.log('Filtered tags:', filteredTags);
       
       const finalTags = [...filteredTags, `custom_start_date:${formattedDate}`];
@@ -901,6 +806,11 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(orderId, {
+        tags: finalTags.map((tag: string) => tag.trim()),
+        kind: 'start_date',
+        tagsBefore: existingTags.map((tag: string) => tag.trim())
+      });
       console.log('Order successfully updated with new start date tag');
     } catch (error) {
       console.error('Error updating order start date:', error);
@@ -919,6 +829,7 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(id, { note, kind: 'note' });
     } catch (error) {
       console.error('Error updating order note:', error);
       throw new Error('Failed to update order note in Shopify');
@@ -953,6 +864,7 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(id, { tags: newTags, kind: 'priority', tagsBefore: existingTags });
     } catch (error) {
       console.error('Error updating order priority:', error);
       throw new Error('Failed to update order priority in Shopify');
@@ -1031,6 +943,7 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(id, { tags: filteredTags, kind: 'fulfillment', tagsBefore: existingTags });
     } catch (error: unknown) {
       // Type guard to check if error is an object with response property
       interface ShopifyError {
@@ -1077,6 +990,7 @@ export class ShopifyService {
       await this.client.delete({
         path: `/admin/api/2023-10/orders/${id}.json`
       });
+      emitShopifyOrderWrite(id, { deleted: true, kind: 'delete', tagsBefore: tags });
     } catch (error: unknown) {
       console.error('Error deleting order:', {
         error,
@@ -1217,6 +1131,8 @@ export class ShopifyService {
           ? order.tags.map((tag: string) => tag.trim())
           : [];
 
+      const tagsBefore = [...existingTags];
+
       // Add new tag if it doesn't exist
       if (!existingTags.includes(tag.trim())) {
         existingTags.push(tag.trim());
@@ -1231,13 +1147,15 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(orderId, { tags: existingTags, kind: 'tags', tagsBefore });
     } catch (error) {
       console.error('Error adding order tag:', error);
       throw error;
     }
   }
 
-  async updateOrderTags(orderId: string, tags: string[]): Promise<void> {
+  /** Replace all tags. Pass `tagsBefore` when known so the audit log does not have to guess. */
+  async updateOrderTags(orderId: string, tags: string[], options: UpdateOrderTagsOptions = {}): Promise<void> {
     try {
       await this.client.put({
         path: `orders/${orderId}`,
@@ -1248,6 +1166,7 @@ export class ShopifyService {
           }
         }
       });
+      emitShopifyOrderWrite(orderId, { tags, kind: options.kind ?? 'tags', tagsBefore: options.tagsBefore });
     } catch (error) {
       logger.error('Error updating order tags:', error);
       throw error;
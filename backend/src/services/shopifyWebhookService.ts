@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { formatSupabaseError } from '../utils/financeOrderSnapshot';
+import { parseOrderTags } from '../utils/financeMonth';
+import { ShopifyOrder, shopifyService } from './shopify';
+import { OrderConfirmationService } from './orderConfirmation.service';
+import { orderMirrorService, ShopifyOrderWebhookPayload } from './orders/orderMirrorService';
+import { runWithOrderEventContext } from './orders/orderEventService';
+import { productionPlannerService } from './orders/productionPlannerService';
+
+const DELIVERIES_TABLE = 'shopify_webhook_deliveries';
+
+/** In-memory dedupe when the deliveries table is missing (single droplet). */
+const MEMORY_DEDUPE_LIMIT = 5000;
+
+/** A delivery still 'processing' after this belongs to an attempt that died, and may be taken over. */
+const WEBHOOK_CLAIM_TIMEOUT_MS = 5 * 60_000;
+
+/** Provinces served by the other shipping company; new orders there are auto-tagged. */
+const OTHER_COMPANY_PROVINCES = [
+  'New Valley',
+  'North Sinai',
+  'South Sinai',
+  'Red Sea',
+  'Matrouh',
+  'Qena',
+  'Luxor',
+  'Aswan',
+  'Asyut',
+  'Beni Suef',
+  'Fayoum',
+  'Minya',
+  'Sohag'
+];
+
+export type ShopifyWebhookTopic =
+  | 'orders/create'
+  | 'orders/updated'
+  | 'orders/cancelled'
+  | 'orders/paid'
+  | 'fulfillments/create'
+  | 'customers/update';
+
+export interface ShopifyWebhookDelivery {
+  webhookId: string;
+  topic: string;
+  shopDomain?: string;
+  payload: Record<string, unknown>;
+}
+
+export type ShopifyWebhookResult =
+  | { status: 'processed' }
+  | { status: 'duplicate' }
+  | { status: 'in_progress' }
+  | { status: 'ignored'; reason: string }
+  | { status: 'failed'; error: string };
+
+type WebhookHandler = (payload: Record<string, unknown>) => Promise<void>;
+
+type WebhookClaim = 'claimed' | 'duplicate' | 'in_progress';
+
+type FulfillmentWebhookPayload = {
+  id: number;
+  order_id: number;
+  status?: string;
+  tracking_company?: string | null;
+  tracking_number?: string | null;
+};
+
+type CustomerWebhookPayload = {
+  id: number;
+  first_name?: string | null;
+  last_name?: string | null;
+  phone?: string | null;
+  default_address?: { phone?: string | null } | null;
+};
+
+function isMissingTableError(error: { code?: string; message?: string } | null): boolean {
+  if (!error) return false;
+  return (
+    error.code === '42P01' ||
+    error.code === 'PGRST205' ||
+    (error.message?.includes('does not exist') ?? false)
+  );
+}
+
+/** Secret used by Shopify to sign webhooks (custom app: the API secret key). */
+function getWebhookSecret(): string {
+  return process.env.SHOPIFY_WEBHOOK_SECRET || process.env.SHOPIFY_API_SECRET || '';
+}
+
+/**
+ * Verify `X-Shopify-Hmac-Sha256` against the raw request body.
+ * Must run on the exact bytes Shopify sent — re-serialized JSON will not match.
+ */
+export function verifyShopifyWebhookHmac(rawBody: Buffer, hmacHeader: string | undefined): boolean {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    logger.error('Shopify webhook secret not configured - set SHOPIFY_WEBHOOK_SECRET or SHOPIFY_API_SECRET');
+    return false;
+  }
+  if (!hmacHeader) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+  let received: Buffer;
+  try {
+    received = Buffer.from(hmacHeader, 'base64');
+  } catch {
+    return false;
+  }
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Shopify webhook subsystem: dedupes deliveries on `X-Shopify-Webhook-Id`
+ * and dispatches each topic to its handler. Signature checks happen in the route,
+ * before the body is parsed.
+ */
+export class ShopifyWebhookService {
+  private handlers = new Map<string, WebhookHandler>();
+  /** Deliveries claimed by this process: still running, or done. */
+  private seenWebhookIds = new Map<string, 'processing' | 'processed'>();
+  private orderConfirmationService = OrderConfirmationService.getInstance();
+
+  constructor() {
+    this.handlers.set('orders/create', (payload) => this.handleOrderCreated(payload as ShopifyOrderWebhookPayload));
+    this.handlers.set('orders/updated', (payload) => this.handleOrderChanged(payload as ShopifyOrderWebhookPayload));
+    this.handlers.set('orders/cancelled', (payload) => this.handleOrderChanged(payload as ShopifyOrderWebhookPayload));
+    this.handlers.set('orders/paid', (payload) => this.handleOrderChanged(payload as ShopifyOrderWebhookPayload));
+    this.handlers.set('fulfillments/create', (payload) => this.handleFulfillmentCreated(payload as FulfillmentWebhookPayload));
+    this.handlers.set('customers/update', (payload) => this.handleCustomerUpdated(payload as CustomerWebhookPayload));
+  }
+
+  isSupportedTopic(topic: string): topic is ShopifyWebhookTopic {
+    return this.handlers.has(topic);
+  }
+
+  async process(delivery: ShopifyWebhookDelivery): Promise<ShopifyWebhookResult> {
+    const { webhookId, topic } = delivery;
+    const handler = this.handlers.get(topic);
+    if (!handler) {
+      logger.info('Ignoring unsupported Shopify webhook topic', { topic, webhookId });
+      return { status: 'ignored', reason: `Unsupported topic ${topic}` };
+    }
+
+    const claim = await this.claimDelivery(delivery);
+    if (claim === 'duplicate') {
+      logger.info('Skipping duplicate Shopify webhook delivery', { topic, webhookId });
+      return { status: 'duplicate' };
+    }
+    if (claim === 'in_progress') {
+      // Answered with a 5xx: if the running attempt fails, Shopify's next retry can still claim it
+      logger.info('Shopify webhook delivery is still being processed', { topic, webhookId });
+      return { status: 'in_progress' };
+    }
+
+    try {
+      await runWithOrderEventContext({ source: 'shopify', actor: `webhook:${topic}` }, () =>
+        handler(delivery.payload)
+      );
+      await this.finishDelivery(webhookId, 'processed');
+      this.rememberWebhookId(webhookId, 'processed');
+      return { status: 'processed' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Error handling Shopify webhook', { topic, webhookId, error: message });
+      await this.finishDelivery(webhookId, 'failed', message);
+      // Shopify redelivers on a 5xx; the retry may claim the delivery again
+      this.seenWebhookIds.delete(webhookId);
+      return { status: 'failed', error: message };
+    }
+  }
+
+  /**
+   * Record the delivery before handling it. A delivery that failed, or whose attempt
+   * died while 'processing', can be claimed again by Shopify's retry; one that is
+   * still running is reported as in progress, and one that was processed as a duplicate.
+   */
+  private async claimDelivery(delivery: ShopifyWebhookDelivery): Promise<WebhookClaim> {
+    const seen = this.seenWebhookIds.get(delivery.webhookId);
+    if (seen) return seen === 'processed' ? 'duplicate' : 'in_progress';
+
+    const now = new Date().toISOString();
+    const { error } = await supabase.from(DELIVERIES_TABLE).insert({
+      webhook_id: delivery.webhookId,
+      topic: delivery.topic,
+      shop_domain: delivery.shopDomain || null,
+      status: 'processing',
+      claimed_at: now,
+    });
+
+    if (error) {
+      if (error.code === '23505') {
+        const claim = await this.reclaimDelivery(delivery, now);
+        if (claim !== 'claimed') return claim;
+      } else if (!isMissingTableError(error)) {
+        logger.error(`Error recording Shopify webhook delivery: ${formatSupabaseError(error)}`);
+      }
+    }
+
+    this.rememberWebhookId(delivery.webhookId, 'processing');
+    return 'claimed';
+  }
+
+  /** Take over a failed or abandoned delivery; only one retry can match the row it read. */
+  private async reclaimDelivery(delivery: ShopifyWebhookDelivery, now: string): Promise<WebhookClaim> {
+    const { data: existing, error: readError } = await supabase
+      .from(DELIVERIES_TABLE)
+      .select('status, claimed_at')
+      .eq('webhook_id', delivery.webhookId)
+      .maybeSingle();
+    if (readError || !existing) {
+      if (readError) logger.error(`Error reading Shopify webhook delivery: ${formatSupabaseError(readError)}`);
+      return 'in_progress';
+    }
+
+    if (existing.status === 'processed') return 'duplicate';
+    const abandoned =
+      existing.status === 'processing' &&
+      Date.now() - new Date(existing.claimed_at).getTime() >= WEBHOOK_CLAIM_TIMEOUT_MS;
+    if (existing.status !== 'failed' && !abandoned) return 'in_progress';
+
+    const { data: reclaimed, error: reclaimError } = await supabase
+      .from(DELIVERIES_TABLE)
+      .update({ status: 'processing', error: null, processed_at: null, claimed_at: now })
+      .eq('webhook_id', delivery.webhookId)
+      .eq('status', existing.status)
+      .eq('claimed_at', existing.claimed_at)
+      .select('webhook_id');
+    if (reclaimError) {
+      logger.error(`Error reclaiming Shopify webhook delivery: ${formatSupabaseError(reclaimError)}`);
+      return 'in_progress';
+    }
+    if (!reclaimed?.length) return 'in_progress';
+
+    logger.info(abandoned ? 'Taking over abandoned Shopify webhook delivery' : 'Retrying failed Shopify webhook delivery', {
+      topic: delivery.topic,
+      webhookId: delivery.webhookId
+    });
+    return 'claimed';
+  }
+
+  private async finishDelivery(webhookId: string, status: 'processed' | 'failed', errorMessage?: string): Promise<void> {
+    const { error } = await supabase
+      .from(DELIVERIES_TABLE)
+      .update({ status, error: errorMessage || null, processed_at: new Date().toISOString() })
+      .eq('webhook_id', webhookId);
+
+    if (error && !isMissingTableError(error)) {
+      logger.error(`Error updating Shopify webhook delivery: ${formatSupabaseError(error)}`);
+    }
+  }
+
+  private rememberWebhookId(webhookId: string, status: 'processing' | 'processed'): void {
+    this.seenWebhookIds.set(webhookId, status);
+    if (this.seenWebhookIds.size > MEMORY_DEDUPE_LIMIT) {
+      const oldest = this.seenWebhookIds.keys().next().value;
+      if (oldest !== undefined) this.seenWebhookIds.delete(oldest);
+    }
+  }
+
+  private async handleOrderCreated(order: ShopifyOrderWebhookPayload): Promise<void> {
+    const province = order.shipping_address?.province;
+    if (province && OTHER_COMPANY_PROVINCES.includes(province)) {
+      const tags = parseOrderTags(order.tags);
+      const hasOtherCompanyTag = tags.some(
+        (tag) => tag.trim().toLowerCase() === 'shipping_method:other-company'
+      );
+
+      if (!hasOtherCompanyTag) {
+        const updatedTags = [...tags, 'shipping_method:other-company'];
+        await shopifyService.updateOrderTags(order.id.toString(), updatedTags);
+        order = { ...order, tags: updatedTags };
+        logger.info('Auto-tagged order with shipping_method:other-company', {
+          orderId: order.id,
+          orderName: order.name,
+          province
+        });
+      }
+    }
+
+    await orderMirrorService.upsertFromWebhook(order).catch((error) => {
+      logger.error('Failed to mirror new order', { orderId: order.id, error });
+    });
+
+    // Propose start/due dates from the capacity planner (only when auto-assign is on)
+    await productionPlannerService.scheduleNewOrder(Number(order.id));
+
+    await this.orderConfirmationService.handleNewOrder(order as unknown as ShopifyOrder);
+  }
+
+  private async handleOrderChanged(order: ShopifyOrderWebhookPayload): Promise<void> {
+    await orderMirrorService.upsertFromWebhook(order);
+  }
+
+  /** Fulfillment payloads carry only the order ID; refresh the mirrored order from Shopify. */
+  private async handleFulfillmentCreated(fulfillment: FulfillmentWebhookPayload): Promise<void> {
+    if (!fulfillment.order_id) return;
+    const order = await shopifyService.getOrder(fulfillment.order_id);
+    await orderMirrorService.upsertFromWebhook(order);
+    logger.info('Mirrored order after fulfillment webhook', {
+      orderId: fulfillment.order_id,
+      fulfillmentId: fulfillment.id,
+      trackingNumber: fulfillment.tracking_number
+    });
+  }
+
+  private async handleCustomerUpdated(customer: CustomerWebhookPayload): Promise<void> {
+    if (!customer.id) return;
+    const updated = await orderMirrorService.applyCustomerUpdate({
+      id: Number(customer.id),
+      first_name: customer.first_name || '',
+      last_name: customer.last_name || '',
+      phone: customer.phone || customer.default_address?.phone || '',
+    });
+    logger.info('Applied customer update to mirrored orders', { customerId: customer.id, updated });
+  }
+}
+
+export const shopifyWebhookService = new ShopifyWebhookService();
@@ -2,6 +2,7 @@ import makeWASocket, {
   DisconnectReason,
   fetchLatestBaileysVersion,
   useMultiFileAuthState,
+  type WAMessage,
   type WASocket
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
@@ -20,6 +21,14 @@ export type WhatsAppWebConnectionStatus =
   | 'connected'
   | 'disconnected';
 
+export type WhatsAppWebIncomingTextHandler = (phone: string, text: string) => Promise<unknown> | void;
+
+/** Sender phone (digits) of a customer's 1:1 message; LID chats carry the number in remoteJidAlt. */
+function senderPhone(message: WAMessage): string | null {
+  const jid = [message.key.remoteJid, message.key.remoteJidAlt].find((j) => j?.endsWith('@s.whatsapp.net'));
+  return jid ? jid.split('@')[0].split(':')[0] : null;
+}
+
 class WhatsAppWebService {
   private socket: WASocket | null = null;
   private status: WhatsAppWebConnectionStatus = 'disabled';
@@ -28,6 +37,7 @@ class WhatsAppWebService {
   private connectedPhone: string | null = null;
   private connectPromise: Promise<void> | null = null;
   private isStarting = false;
+  private incomingTextHandlers: WhatsAppWebIncomingTextHandler[] = [];
 
   isEnabled(): boolean {
     return isWhatsAppWebEnabled();
@@ -113,6 +123,31 @@ class WhatsAppWebService {
     }
   }
 
+  /** Run `handler` for every text a customer sends to the linked number. */
+  onIncomingText(handler: WhatsAppWebIncomingTextHandler): void {
+    this.incomingTextHandlers.push(handler);
+  }
+
+  private handleIncomingMessages(messages: WAMessage[]): void {
+    for (const message of messages) {
+      if (message.key.fromMe) continue;
+      const phone = senderPhone(message);
+      const text = message.message?.conversation || message.message?.extendedTextMessage?.text;
+      if (!phone || !text?.trim()) continue;
+
+      for (const handler of this.incomingTextHandlers) {
+        Promise.resolve()
+          .then(() => handler(phone, text))
+          .catch((error) => {
+            logger.error('WhatsApp Web incoming message handler failed', {
+              phone: formatPhoneNumber(phone),
+              error: error instanceof Error ? error.message : error
+            });
+          });
+      }
+    }
+  }
+
   async getQrDataUrl(): Promise<string | null> {
     return this.latestQrDataUrl;
   }
@@ -187,6 +222,10 @@ class WhatsAppWebService {
     this.socket = sock;
 
     sock.ev.on('creds.update', saveCreds);
+    // 'append' is history sync; only live messages are handled
+    sock.ev.on('messages.upsert', ({ messages, type }) => {
+      if (type === 'notify') this.handleIncomingMessages(messages);
+    });
 
     await new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
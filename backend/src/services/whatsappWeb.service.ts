@@ -14,6 +14,8 @@ type WhatsAppWebStatus = {
   hasQr: boolean;
 };
 
+type WhatsAppWebIncomingTextHandler = (phone: string, text: string) => Promise<unknown> | void;
+
 type WhatsAppWebImpl = {
   isEnabled(): boolean;
   getStatus(): WhatsAppWebStatus;
@@ -22,6 +24,7 @@ type WhatsAppWebImpl = {
   getQrDataUrl(): Promise<string | null>;
   start(): Promise<void>;
   sendTextMessage(phone: string, message: string, orderNumber?: string): Promise<string>;
+  onIncomingText(handler: WhatsAppWebIncomingTextHandler): void;
   logout(): Promise<void>;
 };
 
@@ -34,6 +37,8 @@ const disabledStatus: WhatsAppWebStatus = {
 
 let implInstance: WhatsAppWebImpl | null = null;
 let implPromise: Promise<WhatsAppWebImpl | null> | null = null;
+// Registered before Baileys loads; handed to the implementation once it does
+const incomingTextHandlers: WhatsAppWebIncomingTextHandler[] = [];
 
 async function loadImpl(): Promise<WhatsAppWebImpl | null> {
   if (!canRunWhatsAppWeb()) return null;
@@ -42,6 +47,7 @@ async function loadImpl(): Promise<WhatsAppWebImpl | null> {
     implPromise = import('./whatsappWeb.impl')
       .then((m) => {
         implInstance = m.whatsappWebServiceImpl;
+        for (const handler of incomingTextHandlers) implInstance.onIncomingText(handler);
         return implInstance;
       })
       .catch(() => null);
@@ -100,6 +106,12 @@ export const whatsappWebService = {
     return impl.sendTextMessage(phone, message, orderNumber);
   },
 
+  /** Run `handler` for every text a customer sends to the linked number. */
+  onIncomingText(handler: WhatsAppWebIncomingTextHandler): void {
+    incomingTextHandlers.push(handler);
+    implInstance?.onIncomingText(handler);
+  },
+
   async logout(): Promise<void> {
     const impl = await loadImpl();
     if (impl) await impl.logout();
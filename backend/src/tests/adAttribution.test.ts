@@ -0,0 +1,117 @@
+import { parseMetaAdsRows } from '../utils/metaAdsImport';
+import { attributeOrder, landingSiteParams, summarizeAdPerformance } from '../utils/adAttribution';
+
+describe('Meta Ads import', () => {
+  it('should find the header, read the spend column and merge ad-level rows', () => {
+    const { rows, errors } = parseMetaAdsRows([
+      ['Report: Last 30 days'],
+      ['Campaign name', 'Ad set name', 'Day', 'Amount spent (EGP)', 'Results', 'Result indicator'],
+      [null, null, null, 1234.5, 30, null],
+      ['Summer Sale', 'Broad', '2026-03-01', '100.25', '4', 'actions:purchase'],
+      ['Summer Sale', 'Broad', '2026-03-01', 50, 1, 'actions:purchase'],
+      ['Retargeting', '', '3/2/2026', 80, 2, null],
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        campaign_id: null,
+        campaign_name: 'Summer Sale',
+        ad_set_name: 'Broad',
+        date: '2026-03-01',
+        spend: 150.25,
+        results: 5,
+        result_type: 'actions:purchase',
+      },
+      {
+        campaign_id: null,
+        campaign_name: 'Retargeting',
+        ad_set_name: '',
+        date: '2026-03-02',
+        spend: 80,
+        results: 2,
+        result_type: null,
+      },
+    ]);
+  });
+
+  it('should reject rows whose reporting range spans months', () => {
+    const { rows, errors } = parseMetaAdsRows([
+      ['Campaign name', 'Reporting starts', 'Reporting ends', 'Amount spent (USD)'],
+      ['Summer Sale', '2026-03-01', '2026-03-31', 500],
+      ['Winter Sale', '2026-03-15', '2026-04-14', 300],
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([{ row: 3, reason: expect.stringContaining('spans more than one month') }]);
+  });
+
+  it('should explain a file that is not an Ads Manager export', () => {
+    expect(parseMetaAdsRows([['Order', 'Total']]).errors[0].reason).toContain('Campaign name');
+  });
+});
+
+describe('Ad attribution', () => {
+  const campaigns = [{ campaign_name: 'Summer Sale', campaign_id: '120200' }, { campaign_name: 'Retargeting' }];
+
+  it('should read UTM parameters from a relative landing page', () => {
+    expect(landingSiteParams('/products/mug?UTM_Source=facebook&utm_campaign=Summer%20Sale#top')).toEqual({
+      utm_source: 'facebook',
+      utm_campaign: 'Summer Sale',
+    });
+    expect(landingSiteParams(null)).toEqual({});
+  });
+
+  it('should prefer mapped discount codes, then UTM name or id', () => {
+    const codes = { ramadan10: 'Retargeting' };
+
+    expect(attributeOrder({ landing_site: '/?utm_campaign=summer sale', discount_codes: ['RAMADAN10'] }, campaigns, codes)).toEqual({
+      campaign: 'Retargeting',
+      via: 'discount_code',
+    });
+    expect(attributeOrder({ landing_site: '/?utm_campaign=SUMMER SALE' }, campaigns, codes).campaign).toBe('Summer Sale');
+    expect(attributeOrder({ landing_site: '/?utm_campaign=120200' }, campaigns, codes).campaign).toBe('Summer Sale');
+    // Unknown Meta campaign keeps its UTM name; other sources stay unattributed
+    expect(attributeOrder({ landing_site: '/?utm_source=ig&utm_campaign=Old Promo' }, campaigns, codes).campaign).toBe(
+      'Old Promo'
+    );
+    expect(attributeOrder({ landing_site: '/?utm_source=google&utm_campaign=Old Promo' }, campaigns, codes).campaign).toBeNull();
+  });
+
+  it('should compute ROAS and cost per confirmed and paid order by month', () => {
+    const { campaigns: rows, totals } = summarizeAdPerformance(
+      [
+        { campaign_name: 'Summer Sale', date: '2026-03-01', spend: 300, results: 6 },
+        { campaign_name: 'Summer Sale', date: '2026-03-02', spend: 300, results: 4 },
+        { campaign_name: 'Retargeting', date: '2026-04-01', spend: 100, results: 1 },
+      ],
+      [
+        { month: '2026-03', campaign: 'Summer Sale', revenue: 1000, confirmed: true, paid: true },
+        { month: '2026-03', campaign: 'Summer Sale', revenue: 800, confirmed: true, paid: false },
+        { month: '2026-03', campaign: 'Summer Sale', revenue: 500, confirmed: false, paid: false },
+        { month: '2026-03', campaign: null, revenue: 400, confirmed: true, paid: true },
+      ]
+    );
+
+    const summer = rows.find((row) => row.campaign === 'Summer Sale');
+    expect(summer).toMatchObject({
+      month: '2026-03',
+      spend: 600,
+      results: 10,
+      orders: 3,
+      confirmed_orders: 2,
+      paid_orders: 1,
+      roas: 3.83,
+      paid_roas: 1.67,
+      cost_per_confirmed_order: 300,
+      cost_per_paid_order: 600,
+    });
+    expect(rows.find((row) => row.campaign === 'Retargeting')).toMatchObject({ orders: 0, roas: 0, cost_per_paid_order: null });
+    expect(rows.map((row) => [row.month, row.campaign])).toEqual([
+      ['2026-04', 'Retargeting'],
+      ['2026-03', 'Summer Sale'],
+      ['2026-03', null],
+    ]);
+    expect(totals.find((row) => row.month === '2026-03')).toMatchObject({ spend: 600, orders: 4, revenue: 2700, roas: 4.5 });
+  });
+});
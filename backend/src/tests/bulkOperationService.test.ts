@@ -0,0 +1,125 @@
+import { supabase } from '../config/supabase';
+import { bulkOperationService } from '../services/orders/bulkOperationService';
+import { orderStatusService } from '../services/orders/orderStatusService';
+import { shipmentCreationService } from '../services/shipping/shipmentCreationService';
+import { shopifyService } from '../services/shopify';
+import { SupabaseFake } from './supabaseFake';
+
+jest.mock('../config/supabase', () => ({ supabase: new (jest.requireActual('./supabaseFake').SupabaseFake)() }));
+jest.mock('../services/shopify', () => ({ shopifyService: { getOrder: jest.fn(), updateOrderTags: jest.fn() } }));
+jest.mock('../services/orders/orderEventService', () => ({ getOrderEventContext: () => ({ source: 'system' }) }));
+jest.mock('../services/orders/orderStatusService', () => ({ orderStatusService: { transition: jest.fn() } }));
+jest.mock('../services/financial/financeMonthCloseService', () => ({
+  financeMonthCloseService: { assertOpen: jest.fn() },
+}));
+jest.mock('../services/shipping/shipmentCreationService', () => ({
+  shipmentCreationService: { cancel: jest.fn() },
+}));
+
+const db = supabase as unknown as SupabaseFake;
+const shopify = shopifyService as jest.Mocked<typeof shopifyService>;
+const statusService = orderStatusService as jest.Mocked<typeof orderStatusService>;
+const shipments = shipmentCreationService as jest.Mocked<typeof shipmentCreationService>;
+
+const STATUS_TAGS = ['customer_confirmed', 'ready_to_ship', 'shipped'];
+
+/** Shopify orders by id; the status and tag mocks read and write these. */
+let orders: Record<number, string[]>;
+
+async function bulkMove(tagsAfter: Record<number, string[]>): Promise<string> {
+  const recorder = bulkOperationService.start('bulk_status', 'Moved to ready to ship');
+  for (const [id, tags] of Object.entries(tagsAfter)) {
+    recorder.track({ id: Number(id), name: `#${id}` }, orders[Number(id)], tags);
+    orders[Number(id)] = tags;
+  }
+  return (await recorder.commit())!;
+}
+
+describe('Bulk operation undo', () => {
+  beforeEach(() => {
+    db.reset();
+    jest.clearAllMocks();
+    orders = { 1120: ['customer_confirmed'], 1121: ['customer_confirmed'] };
+    shopify.getOrder.mockImplementation(async (id) => ({ id, tags: orders[Number(id)].join(', ') }) as never);
+    shopify.updateOrderTags.mockImplementation(async (id, tags) => {
+      orders[Number(id)] = tags as string[];
+      return {} as never;
+    });
+    statusService.transition.mockImplementation(async (order, status) => {
+      const tags = (order as { id: number; tags: string }).tags.split(', ');
+      const tagsAfter = [status as string, ...tags.filter((tag) => !STATUS_TAGS.includes(tag))];
+      orders[(order as { id: number }).id] = tagsAfter;
+      return { tagsAfter } as never;
+    });
+    shipments.cancel.mockResolvedValue(undefined);
+  });
+
+  it('should snapshot only the orders the operation changed', async () => {
+    const recorder = bulkOperationService.start('bulk_status', 'Moved to ready to ship');
+    recorder.track({ id: 1120, name: '#1120' }, ['customer_confirmed'], ['ready_to_ship']);
+    recorder.track({ id: 1121, name: '#1121' }, ['ready_to_ship'], ['ready_to_ship']);
+
+    const operationId = await recorder.commit();
+
+    expect(db.rows('bulk_operations')).toEqual([
+      expect.objectContaining({ id: operationId, type: 'bulk_status', order_count: 1, status: 'applied' }),
+    ]);
+    expect(db.rows('bulk_operation_orders')).toEqual([
+      expect.objectContaining({ operation_id: operationId, order_id: 1120, tags_before: ['customer_confirmed'] }),
+    ]);
+  });
+
+  it('should put orders back and leave the ones changed since unless forced', async () => {
+    const operationId = await bulkMove({ 1120: ['ready_to_ship'], 1121: ['ready_to_ship'] });
+    orders[1121] = ['ready_to_ship', 'priority'];
+
+    const result = await bulkOperationService.revert(operationId);
+    expect(result).toMatchObject({ reverted: [1120], conflicts: [{ orderId: 1121 }], status: 'partially_reverted' });
+    expect(statusService.transition).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1120 }),
+      'customer_confirmed',
+      { override: true, notify: false }
+    );
+    expect(orders[1120]).toEqual(['customer_confirmed']);
+
+    const forced = await bulkOperationService.revert(operationId, { force: true });
+    expect(forced).toMatchObject({ reverted: [1121], conflicts: [], status: 'reverted' });
+    expect(orders[1121]).toEqual(['customer_confirmed']);
+  });
+
+  it('should cancel the shipment booked by the move and drop its barcode', async () => {
+    const operationId = await bulkMove({ 1120: ['ready_to_ship'] });
+    orders[1120] = ['ready_to_ship', 'shipping_barcode:MZ1'];
+
+    const result = await bulkOperationService.revert(operationId);
+
+    expect(shipments.cancel).toHaveBeenCalledWith(1120, ['customer_confirmed', 'shipping_barcode:MZ1'], 'MZ1');
+    expect(result.shipments).toEqual([{ orderId: 1120, orderName: '#1120', barcode: 'MZ1', cancelled: true }]);
+    expect(orders[1120]).toEqual(['customer_confirmed']);
+  });
+
+  it('should keep and report the barcode when the carrier refuses the cancellation', async () => {
+    const operationId = await bulkMove({ 1120: ['ready_to_ship'] });
+    orders[1120] = ['ready_to_ship', 'shipping_barcode:MZ1'];
+    shipments.cancel.mockRejectedValue(new Error('Package already picked up'));
+
+    const result = await bulkOperationService.revert(operationId);
+
+    expect(result).toMatchObject({
+      reverted: [1120],
+      shipments: [{ orderId: 1120, barcode: 'MZ1', cancelled: false, error: 'Package already picked up' }],
+    });
+    expect(orders[1120]).toEqual(['customer_confirmed', 'shipping_barcode:MZ1']);
+  });
+
+  it('should leave a shipment the order already had before the operation', async () => {
+    orders[1120] = ['customer_confirmed', 'shipping_barcode:MZ0'];
+    const operationId = await bulkMove({ 1120: ['ready_to_ship', 'shipping_barcode:MZ0'] });
+
+    const result = await bulkOperationService.revert(operationId);
+
+    expect(shipments.cancel).not.toHaveBeenCalled();
+    expect(result.shipments).toEqual([]);
+    expect(orders[1120]).toEqual(['customer_confirmed', 'shipping_barcode:MZ0']);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  CarrierStatusRule,
+  DEFAULT_MYLERZ_STATUS_RULES,
+  planCarrierStatusTransition,
+  resolveCarrierStatusAction,
+} from '../utils/carrierStatusMapping';
+
+describe('Carrier status mapping', () => {
+  it('should resolve Mylerz statuses regardless of case and spacing', () => {
+    expect(resolveCarrierStatusAction('Delivered', DEFAULT_MYLERZ_STATUS_RULES)).toBe('fulfilled');
+    expect(resolveCarrierStatusAction('  out  for delivery ', DEFAULT_MYLERZ_STATUS_RULES)).toBe('shipped');
+    expect(resolveCarrierStatusAction('Pending pickup', DEFAULT_MYLERZ_STATUS_RULES)).toBe('none');
+    expect(resolveCarrierStatusAction('Return to merchant', DEFAULT_MYLERZ_STATUS_RULES)).toBe('returned');
+  });
+
+  it('should fall back to the * rule, then to no action', () => {
+    // Unknown statuses count as picked up, as before the mapping existed
+    expect(resolveCarrierStatusAction('Sorted at hub', DEFAULT_MYLERZ_STATUS_RULES)).toBe('shipped');
+
+    const rules: CarrierStatusRule[] = [{ status: 'Delivered', action: 'fulfilled' }];
+    expect(resolveCarrierStatusAction('Sorted at hub', rules)).toBe('none');
+  });
+
+  it('should only move orders forward from ready to ship or shipped', () => {
+    expect(planCarrierStatusTransition('ready_to_ship', 'shipped')).toEqual({ to: 'shipped', extraTags: [] });
+    expect(planCarrierStatusTransition('shipped', 'shipped')).toBeNull();
+    expect(planCarrierStatusTransition('ready_to_ship', 'fulfilled')).toEqual({ to: 'fulfilled', extraTags: [] });
+    expect(planCarrierStatusTransition('shipped', 'fulfilled')).toEqual({ to: 'fulfilled', extraTags: [] });
+    expect(planCarrierStatusTransition('paid', 'fulfilled')).toBeNull();
+    expect(planCarrierStatusTransition('shipped', 'failed_attempt')).toBeNull();
+  });
+
+  it('should cancel returned packages with a returned reason', () => {
+    expect(planCarrierStatusTransition('shipped', 'returned')).toEqual({
+      to: 'cancelled',
+      extraTags: ['cancellation_reason:returned'],
+    });
+    expect(planCarrierStatusTransition('cancelled', 'returned')).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import type { ShopifyOrder } from '../services/shopify';
+import { estimateDelivery } from '../utils/deliveryEstimate';
+import { DEFAULT_PRODUCTION_PLANNER_SETTINGS, ProductionPlannerSettings } from '../utils/productionPlanner';
+
+// Tuesday; Friday is the weekly day off
+const today = '2026-03-10';
+const now = new Date('2026-03-10T10:00:00Z');
+
+const settings: ProductionPlannerSettings = {
+  ...DEFAULT_PRODUCTION_PLANNER_SETTINGS,
+  dailyCapacityHours: 8,
+  defaultHoursPerUnit: 8,
+  defaultMakingDays: 3,
+  priorityMakingDays: 1,
+  shippingDays: 2,
+  productTypes: [{ name: 'Keychain', match: 'keychain', hoursPerUnit: 1, makingDays: 1 }],
+};
+
+function backlogOrder(id: number): ShopifyOrder {
+  return {
+    id,
+    name: `#${1000 + id}`,
+    email: '',
+    phone: '',
+    total_price: '100.00',
+    financial_status: 'pending',
+    fulfillment_status: '',
+    tags: [],
+    created_at: `2026-03-0${id}T08:00:00Z`,
+    updated_at: `2026-03-0${id}T08:00:00Z`,
+    line_items: [{ title: 'Bunny Plushie', quantity: 1, price: '100.00', variant_title: null }],
+    customer: { id, first_name: '', last_name: '', phone: '' },
+    shipping_address: { phone: '', address1: '', city: '', province: '', zip: '', country: '' },
+  };
+}
+
+const backlog = [backlogOrder(1), backlogOrder(2), backlogOrder(3)];
+
+describe('Delivery estimate', () => {
+  it('should queue a new order behind the backlog and add shipping days', () => {
+    const estimate = estimateDelivery(
+      backlog,
+      { variantId: 42, title: 'Bunny Plushie', variantTitle: null, quantity: 1, rush: false },
+      settings,
+      today,
+      now
+    );
+    // Backlog fills Tue–Thu; Friday off; the new order is made Saturday, due 3 days after
+    expect(estimate.backlog).toEqual({ orders: 3, hours: 24 });
+    expect(estimate.ready_by).toBe('2026-03-17');
+    expect(estimate.delivery_by).toBe('2026-03-19');
+    expect(estimate.days_until_delivery).toBe(9);
+    expect(estimate.variant_id).toBe('42');
+  });
+
+  it('should jump the queue for rush orders and use product type making time', () => {
+    const estimate = estimateDelivery(
+      backlog,
+      { variantId: 7, title: 'Bear Keychain', variantTitle: 'Brown', quantity: 2, rush: true },
+      settings,
+      today,
+      now
+    );
+    expect(estimate.making_days).toBe(1);
+    expect(estimate.ready_by).toBe('2026-03-11');
+    expect(estimate.delivery_by).toBe('2026-03-13');
+  });
+});
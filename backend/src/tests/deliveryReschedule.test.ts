@@ -0,0 +1,38 @@
+import { parseDeliveryReply } from '../utils/deliveryReschedule';
+
+// A Tuesday
+const today = '2026-03-10';
+
+describe('Delivery reschedule replies', () => {
+  it('should read relative days in English and Egyptian Arabic', () => {
+    expect(parseDeliveryReply('Tomorrow please', today)).toEqual({ kind: 'date', date: '2026-03-11' });
+    expect(parseDeliveryReply('بكرة إن شاء الله', today)).toEqual({ kind: 'date', date: '2026-03-11' });
+    expect(parseDeliveryReply('بعد بكره', today)).toEqual({ kind: 'date', date: '2026-03-12' });
+    expect(parseDeliveryReply('today after 5', today)).toEqual({ kind: 'date', date: '2026-03-10' });
+  });
+
+  it('should read weekdays as the next one to come', () => {
+    expect(parseDeliveryReply('Saturday', today)).toEqual({ kind: 'date', date: '2026-03-14' });
+    expect(parseDeliveryReply('يوم السبت', today)).toEqual({ kind: 'date', date: '2026-03-14' });
+    expect(parseDeliveryReply('tuesday', today)).toEqual({ kind: 'date', date: '2026-03-17' });
+  });
+
+  it('should read day/month dates, including Arabic digits', () => {
+    expect(parseDeliveryReply('15/3', today)).toEqual({ kind: 'date', date: '2026-03-15' });
+    expect(parseDeliveryReply('١٥-٣', today)).toEqual({ kind: 'date', date: '2026-03-15' });
+    // Without a year, a past day means next year's
+    expect(parseDeliveryReply('2/1', today)).toEqual({ kind: 'date', date: '2027-01-02' });
+    expect(parseDeliveryReply('2026-03-01', today)).toBeNull();
+    expect(parseDeliveryReply('31/2', today)).toBeNull();
+  });
+
+  it('should treat a confirmation as delivering again tomorrow', () => {
+    expect(parseDeliveryReply('Yes', today)).toEqual({ kind: 'confirmed', date: '2026-03-11' });
+    expect(parseDeliveryReply('تمام', today)).toEqual({ kind: 'confirmed', date: '2026-03-11' });
+  });
+
+  it('should leave anything else for a person', () => {
+    expect(parseDeliveryReply('I moved, new address is 5 Tahrir St', today)).toBeNull();
+    expect(parseDeliveryReply('', today)).toBeNull();
+  });
+});
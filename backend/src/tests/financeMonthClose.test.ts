@@ -0,0 +1,57 @@
+import { paidMonthsChanged } from '../utils/financeMonth';
+import { FinanceMonthCloseContents, financeMonthChecksum, ordersMissingShippingCost, stableStringify } from '../utils/financeMonthClose';
+
+function contents(overrides: Partial<FinanceMonthCloseContents> = {}): FinanceMonthCloseContents {
+  return {
+    month: '2026-03',
+    paidOrders: [{ id: 1, name: '#1001', tags: ['paid', 'shipping_company_cost:80'] }],
+    cancelledOrders: [],
+    shippingSummary: { totalCosts: 80, totalCustomerCharged: 100 },
+    shippingRecords: [],
+    profit: { month: '2026-03', dpp: 5000, calculated_at: '2026-04-01T00:00:00Z' },
+    expenses: [{ id: 'e1', amount: 300, created_at: '2026-03-05T10:00:00Z' }],
+    manualShipping: [],
+    ...overrides,
+  };
+}
+
+describe('Finance month close', () => {
+  it('should serialize independent of key order and without volatile timestamps', () => {
+    expect(stableStringify({ b: 1, a: [{ y: 2, x: null }] })).toBe(stableStringify({ a: [{ x: null, y: 2 }], b: 1 }));
+    expect(stableStringify({ a: 1, updated_at: 'now', created_at: 'then' })).toBe('{"a":1}');
+  });
+
+  it('should checksum equal figures equally and changed figures differently', () => {
+    const closed = financeMonthChecksum(contents());
+    expect(closed).toMatch(/^[0-9a-f]{64}$/);
+    expect(financeMonthChecksum(contents({ profit: { dpp: 5000, month: '2026-03', calculated_at: 'later' } }))).toBe(
+      closed
+    );
+    expect(financeMonthChecksum(contents({ expenses: [{ id: 'e1', amount: 350 }] }))).not.toBe(closed);
+  });
+
+  it('should list paid orders without a shipping cost, except pickups', () => {
+    const missing = ordersMissingShippingCost([
+      { id: 1, name: '#1001', tags: ['paid', 'shipping_company_cost:80'] },
+      { id: 2, name: '#1002', tags: 'paid, scooter_shipping_cost:50' },
+      { id: 3, name: '#1003', tags: ['paid'] },
+      { id: 4, name: '#1004', tags: ['paid', 'shipping_method:pickup'] },
+    ]);
+    expect(missing).toEqual([{ id: 3, name: '#1003' }]);
+  });
+
+  it('should report the paid months an order change touches', () => {
+    const paidMarch = ['fulfilled', 'paid', 'paid_date:2026-03-20', 'shipping_company_cost:80'];
+    expect(paidMonthsChanged(['shipped'], paidMarch)).toEqual(['2026-03']);
+    expect(paidMonthsChanged(paidMarch, ['fulfilled', 'paid', 'paid_date:2026-04-02', 'shipping_company_cost:80'])).toEqual([
+      '2026-03',
+      '2026-04',
+    ]);
+    expect(paidMonthsChanged(paidMarch, ['fulfilled', 'paid', 'paid_date:2026-03-20', 'shipping_company_cost:95'])).toEqual([
+      '2026-03',
+    ]);
+    // Unrelated tags and unpaid orders leave reported months alone
+    expect(paidMonthsChanged(paidMarch, [...paidMarch, 'priority'])).toEqual([]);
+    expect(paidMonthsChanged(['shipped'], ['fulfilled', 'fulfillment_date:2026-03-20'])).toEqual([]);
+  });
+});
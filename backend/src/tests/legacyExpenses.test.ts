@@ -0,0 +1,95 @@
+import { FinancialExpense } from '../types/financial';
+import { financialExpenseToLegacy, legacyExpenseToInput } from '../utils/legacyExpenses';
+
+function expense(overrides: Partial<FinancialExpense> = {}): FinancialExpense {
+  return {
+    id: 'e1',
+    category: 'Raw Materials',
+    amount: 900,
+    date: '2026-03-14',
+    month: '2026-03',
+    notes: 'Yarn restock',
+    expense_type: 'operating',
+    paid_by: 'Business',
+    split_payment: null,
+    settled: false,
+    settled_at: null,
+    settled_partners: [],
+    created_at: '2026-03-14T10:00:00Z',
+    updated_at: '2026-03-14T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Legacy expenses', () => {
+  it('should map a legacy expense into the unified ledger', () => {
+    expect(
+      legacyExpenseToInput({
+        title: 'Yarn restock',
+        amount: 900,
+        date: new Date('2026-03-14T10:00:00Z'),
+        category: 'Yarn & Materials',
+        paidBy: 'Mariam',
+        note: 'Cairo supplier',
+      })
+    ).toEqual({
+      category: 'Raw Materials',
+      amount: 900,
+      date: '2026-03-14',
+      notes: 'Yarn restock — Cairo supplier',
+      expense_type: 'production',
+      paid_by: 'Mariam',
+      split_payment: null,
+    });
+  });
+
+  it('should keep legacy categories without their own unified category in the notes', () => {
+    const input = legacyExpenseToInput({
+      title: 'Courier',
+      amount: 60,
+      date: new Date('2026-03-02'),
+      category: 'Shipping & Delivery',
+      paidBy: 'Both',
+      splitPayment: { mohamed: 20, mariam: 40 },
+    }, ['Mohamed', 'Mariam']);
+    expect(input.category).toBe('Other');
+    expect(input.expense_type).toBe('operating');
+    expect(input.notes).toBe('[Shipping & Delivery] Courier');
+    expect(input.paid_by).toBe('Shared');
+    expect(input.split_payment).toEqual({ Mohamed: 20, Mariam: 40 });
+  });
+
+  it('should leave an empty legacy split to the ownership split', () => {
+    const input = legacyExpenseToInput({
+      title: 'Courier',
+      amount: 60,
+      date: new Date('2026-03-02'),
+      category: 'Labor',
+      paidBy: 'Both',
+      splitPayment: { mohamed: 0, mariam: 0 },
+    });
+    expect(input.split_payment).toBeNull();
+  });
+
+  it('should serve unified rows in the legacy shape', () => {
+    const legacy = financialExpenseToLegacy(
+      expense({
+        paid_by: 'Shared',
+        split_payment: { Mohamed: 450, Mariam: 450 },
+        settled_partners: ['Mohamed'],
+        category: 'Tools & Misc',
+      })
+    );
+    expect(legacy).toMatchObject({
+      title: 'Yarn restock',
+      category: 'Equipment',
+      paidBy: 'Both',
+      shared: true,
+      settled: false,
+      settledMohamed: true,
+      settledMariam: false,
+    });
+    expect(legacy.splitPayment).toEqual({ mohamed: 450, mariam: 450 });
+    expect(legacy.date).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,45 @@
+import { buildMakerLaborStatement, MakerAssignment, makerLineItemKey } from '../utils/makerLabor';
+
+function assignment(id: string, overrides: Partial<MakerAssignment> = {}): MakerAssignment {
+  return {
+    id,
+    order_id: 1,
+    order_name: '#1001',
+    line_item_key: 'v:1',
+    title: 'Bunny Plushie',
+    variant_title: null,
+    product_id: 'p1',
+    quantity: 1,
+    maker_id: 'm1',
+    assigned_at: '2026-03-01T10:00:00Z',
+    completed_on: '2026-03-05',
+    ...overrides,
+  };
+}
+
+describe('Maker labor', () => {
+  it('should key line items by variant, else by title', () => {
+    expect(makerLineItemKey({ variant_id: 42, title: 'Bunny' })).toBe('v:42');
+    expect(makerLineItemKey({ title: ' Bunny ', variant_title: 'Pink' })).toBe('t:bunny|pink');
+  });
+
+  it('should total completed units in the month at product or default rates', () => {
+    const statement = buildMakerLaborStatement(
+      'm1',
+      '2026-03',
+      [
+        assignment('a', { quantity: 2 }),
+        assignment('b', { order_id: 2, product_id: 'unknown', completed_on: '2026-03-20' }),
+        assignment('c', { completed_on: null }),
+        assignment('d', { completed_on: '2026-04-01' }),
+        assignment('e', { maker_id: 'm2' }),
+      ],
+      new Map([['p1', 150]]),
+      100
+    );
+    expect(statement.lines.map((line) => line.assignmentId)).toEqual(['a', 'b']);
+    expect(statement.lines[1]).toMatchObject({ ratePerUnit: 100, defaultRate: true, amount: 100 });
+    expect(statement.totalUnits).toBe(3);
+    expect(statement.totalAmount).toBe(400);
+  });
+});
@@ -0,0 +1,121 @@
+import { supabase } from '../config/supabase';
+import { discordNotificationService } from '../services/discordNotifications';
+import { orderMirrorService } from '../services/orders/orderMirrorService';
+import { materialService } from '../services/orders/materialService';
+import { Material } from '../utils/materialsInventory';
+import { SupabaseFake } from './supabaseFake';
+
+jest.mock('../config/supabase', () => ({ supabase: new (jest.requireActual('./supabaseFake').SupabaseFake)() }));
+jest.mock('../services/orders/orderMirrorService', () => ({ orderMirrorService: { getOrder: jest.fn() } }));
+jest.mock('../services/discordNotifications', () => ({ discordNotificationService: { notifyLowStock: jest.fn() } }));
+jest.mock('../services/financial/expenseService', () => ({ expenseService: {} }));
+
+const db = supabase as unknown as SupabaseFake;
+const mirror = orderMirrorService as jest.Mocked<typeof orderMirrorService>;
+const discord = discordNotificationService as jest.Mocked<typeof discordNotificationService>;
+
+function material(id: string, overrides: Partial<Material> = {}): Material {
+  return {
+    id,
+    name: id,
+    kind: 'yarn',
+    color: null,
+    weight: null,
+    unit: 'g',
+    on_hand: 0,
+    reserved: 0,
+    low_stock_threshold: null,
+    unit_cost: 0,
+    active: true,
+    created_at: '2026-03-01T10:00:00Z',
+    updated_at: '2026-03-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function stock(id: string): { on_hand: unknown; reserved: unknown } {
+  const row = db.rows('materials').find((m) => m.id === id)!;
+  return { on_hand: row.on_hand, reserved: row.reserved };
+}
+
+function movementKinds(): string[] {
+  return db.rows('material_movements').map((m) => `${m.kind}:${m.material_id}:${m.quantity}`);
+}
+
+describe('Material stock movements', () => {
+  beforeEach(() => {
+    db.reset();
+    jest.clearAllMocks();
+    db.seed('materials', [
+      material('white-yarn', { on_hand: 500, low_stock_threshold: 420 }),
+      material('card', { unit: 'pcs', on_hand: 10 }),
+    ]);
+    db.seed('material_boms', [
+      { id: 'b1', product_id: '10', variant_id: '', material_id: 'white-yarn', quantity_per_unit: 50 },
+      { id: 'b2', product_id: '10', variant_id: '', material_id: 'card', quantity_per_unit: 1 },
+    ]);
+    // Same arithmetic as the apply_material_stock SQL function
+    db.rpcs.apply_material_stock = (args) => {
+      const row = db.rows('materials').find((m) => m.id === args.p_material_id);
+      if (!row) return { data: null, error: { code: 'PGRST116', message: 'material not found' } };
+      row.on_hand = Number(row.on_hand) + Number(args.p_on_hand_delta);
+      row.reserved = Number(row.reserved) + Number(args.p_reserved_delta);
+      return { data: { ...row }, error: null };
+    };
+    mirror.getOrder.mockResolvedValue({
+      id: 1120,
+      line_items: [{ title: 'Bunny', quantity: 2, price: '425.00', variant_title: null, product_id: 10 }],
+    } as never);
+  });
+
+  it('should reserve once, then consume by releasing the hold and deducting stock', async () => {
+    await materialService.reserveForOrder(1120);
+    await materialService.reserveForOrder(1120);
+    expect(stock('white-yarn')).toEqual({ on_hand: 500, reserved: 100 });
+    expect(stock('card')).toEqual({ on_hand: 10, reserved: 2 });
+
+    await materialService.consumeForOrder(1120);
+    await materialService.consumeForOrder(1120);
+    await materialService.releaseForOrder(1120);
+    expect(stock('white-yarn')).toEqual({ on_hand: 400, reserved: 0 });
+    expect(stock('card')).toEqual({ on_hand: 8, reserved: 0 });
+    expect(movementKinds()).toEqual([
+      'reserve:white-yarn:100',
+      'reserve:card:2',
+      'release:white-yarn:100',
+      'consume:white-yarn:100',
+      'release:card:2',
+      'consume:card:2',
+    ]);
+  });
+
+  it('should give back the reservation of a cancelled order', async () => {
+    await materialService.reserveForOrder(1120);
+    await materialService.releaseForOrder(1120);
+
+    expect(stock('white-yarn')).toEqual({ on_hand: 500, reserved: 0 });
+    expect(stock('card')).toEqual({ on_hand: 10, reserved: 0 });
+    // Nothing held any more, so an onlyIfReserved consume (made without confirmation) is a no-op
+    await materialService.consumeForOrder(1120, { onlyIfReserved: true });
+    expect(stock('white-yarn')).toEqual({ on_hand: 500, reserved: 0 });
+  });
+
+  it('should alert once when a reservation brings a material down to its low-stock threshold', async () => {
+    await materialService.reserveForOrder(1120);
+    expect(discord.notifyLowStock).toHaveBeenCalledTimes(1);
+    expect(discord.notifyLowStock).toHaveBeenCalledWith({
+      materials: [{ name: 'white-yarn', unit: 'g', available: 400, threshold: 420 }],
+    });
+
+    // Consuming held stock leaves the available quantity where it was: no second alert
+    await materialService.consumeForOrder(1120);
+    expect(discord.notifyLowStock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the movement when the stock function is missing', async () => {
+    delete db.rpcs.apply_material_stock;
+
+    await expect(materialService.reserveForOrder(1120)).rejects.toMatchObject({ code: 'PGRST202' });
+    expect(stock('white-yarn')).toEqual({ on_hand: 500, reserved: 0 });
+  });
+});
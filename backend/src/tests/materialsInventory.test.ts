@@ -0,0 +1,68 @@
+import { bomForLineItem, checkMaterialAvailability, isLowStock, Material, MaterialBomLine } from '../utils/materialsInventory';
+
+function material(id: string, overrides: Partial<Material> = {}): Material {
+  return {
+    id,
+    name: id,
+    kind: 'yarn',
+    color: null,
+    weight: null,
+    unit: 'g',
+    on_hand: 0,
+    reserved: 0,
+    low_stock_threshold: null,
+    unit_cost: 0,
+    active: true,
+    created_at: '2026-03-01T10:00:00Z',
+    updated_at: '2026-03-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+const boms: MaterialBomLine[] = [
+  { id: 'b1', product_id: '10', variant_id: '', material_id: 'white-yarn', quantity_per_unit: 50 },
+  { id: 'b2', product_id: '10', variant_id: '', material_id: 'card', quantity_per_unit: 1 },
+  { id: 'b3', product_id: '10', variant_id: '101', material_id: 'pink-yarn', quantity_per_unit: 60 },
+  { id: 'b4', product_id: '10', variant_id: '101', material_id: 'card', quantity_per_unit: 1 },
+];
+
+describe('Materials inventory', () => {
+  it('should prefer the variant BOM over the product-wide one', () => {
+    expect(bomForLineItem(boms, { title: 'Bunny', quantity: 1, product_id: 10, variant_id: 101 }).map((l) => l.id)).toEqual([
+      'b3',
+      'b4',
+    ]);
+    expect(bomForLineItem(boms, { title: 'Bunny', quantity: 1, product_id: 10, variant_id: 102 }).map((l) => l.id)).toEqual([
+      'b1',
+      'b2',
+    ]);
+    expect(bomForLineItem(boms, { title: 'Custom', quantity: 1 })).toEqual([]);
+  });
+
+  it('should report shortages against on hand minus reserved', () => {
+    const result = checkMaterialAvailability(
+      [
+        { title: 'Bunny', variant_title: 'Pink', quantity: 2, product_id: 10, variant_id: 101 },
+        { title: 'Bunny', variant_title: 'White', quantity: 1, product_id: 10, variant_id: 102 },
+        { title: 'Gift wrap', quantity: 1 },
+      ],
+      boms,
+      [
+        material('white-yarn', { on_hand: 500 }),
+        material('pink-yarn', { on_hand: 200, reserved: 100 }),
+        material('card', { unit: 'pcs', on_hand: 10 }),
+      ]
+    );
+
+    expect(result.requirements).toEqual({ 'pink-yarn': 120, card: 3, 'white-yarn': 50 });
+    expect(result.canMake).toBe(false);
+    expect(result.shortages).toEqual([{ materialId: 'pink-yarn', name: 'pink-yarn', unit: 'g', required: 120, available: 100 }]);
+    expect(result.missingBom).toEqual(['Gift wrap']);
+  });
+
+  it('should flag low stock at or below the threshold', () => {
+    expect(isLowStock(material('m', { on_hand: 120, reserved: 20, low_stock_threshold: 100 }))).toBe(true);
+    expect(isLowStock(material('m', { on_hand: 120, low_stock_threshold: 100 }))).toBe(false);
+    expect(isLowStock(material('m', { on_hand: 0, low_stock_threshold: null }))).toBe(false);
+  });
+});
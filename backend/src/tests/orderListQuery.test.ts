@@ -0,0 +1,133 @@
+import type { ShopifyOrder } from '../services/shopify';
+import {
+  applyOrderListQuery,
+  getDayRangeLabel,
+  hasOrderListQueryParams,
+  parseOrderListQuery,
+  SHIPPING_ROUTE_NONE_KEY,
+} from '../utils/orderListQuery';
+
+// Noon in Cairo on 2026-03-10
+const now = new Date('2026-03-10T10:00:00Z');
+
+function order(id: number, overrides: Partial<ShopifyOrder> = {}): ShopifyOrder {
+  return {
+    id,
+    name: `#${1000 + id}`,
+    email: '',
+    phone: '',
+    total_price: '100.00',
+    financial_status: 'pending',
+    fulfillment_status: '',
+    tags: [],
+    created_at: '2026-03-05T08:00:00Z',
+    updated_at: '2026-03-05T08:00:00Z',
+    line_items: [{ title: 'Bunny', quantity: 1, price: '100.00', variant_title: 'Pink' }],
+    customer: { id, first_name: 'Mona', last_name: `Customer${id}`, phone: `+2010000000${id}` },
+    shipping_address: {
+      phone: '',
+      address1: '',
+      city: 'Nasr City',
+      province: 'Cairo',
+      zip: '',
+      country: 'Egypt',
+    },
+    ...overrides,
+  };
+}
+
+describe('Order list query', () => {
+  it('should parse params with defaults and reject unknown values', () => {
+    const query = parseOrderListQuery({ status: 'pending', city: 'Cairo,Giza', days: ['today', '1 day'], limit: '9999' });
+    expect(query.filters.city).toEqual(['Cairo', 'Giza']);
+    expect(query.filters.days).toEqual(['today', '1 day']);
+    expect(query.sort).toBe('default');
+    expect(query.limit).toBe(500);
+
+    expect(() => parseOrderListQuery({ status: 'delivered' })).toThrow('Unknown status');
+    expect(() => parseOrderListQuery({ cursor: 'not-a-cursor' })).toThrow('Invalid cursor');
+    expect(hasOrderListQueryParams({ scope: 'active' })).toBe(false);
+    expect(hasOrderListQueryParams({ scope: 'active', q: '1001' })).toBe(true);
+  });
+
+  it('should filter by status view and free text', () => {
+    const orders = [
+      order(1),
+      order(2, { tags: ['order_ready'] }),
+      order(3, { tags: ['fulfilled', 'paid'] }),
+      order(4, { tags: ['deleted'] }),
+    ];
+
+    const pending = applyOrderListQuery(orders, parseOrderListQuery({ status: 'pending' }), now);
+    expect(pending.orders.map((o) => o.id)).toEqual([1]);
+
+    const all = applyOrderListQuery(orders, parseOrderListQuery({ status: 'all' }), now);
+    expect(all.total).toBe(3);
+
+    const byPhoneDigits = applyOrderListQuery(orders, parseOrderListQuery({ q: '0100000002' }), now);
+    expect(byPhoneDigits.orders.map((o) => o.id)).toEqual([2]);
+
+    const byItem = applyOrderListQuery(orders, parseOrderListQuery({ q: 'bunny - pink' }), now);
+    expect(byItem.total).toBe(3);
+
+    const byTag = applyOrderListQuery(orders, parseOrderListQuery({ q: 'order_ready' }), now);
+    expect(byTag.orders.map((o) => o.id)).toEqual([2]);
+  });
+
+  it('should count facets over the other active filters only', () => {
+    const orders = [
+      order(1),
+      order(2, { shipping_address: { ...order(2).shipping_address, province: 'Giza' } }),
+      order(3, { tags: ['shipping_method:scooter', 'shipping_route:East'] }),
+    ];
+
+    const page = applyOrderListQuery(orders, parseOrderListQuery({ status: 'pending', city: 'Cairo' }), now);
+    expect(page.total).toBe(2);
+    // City tab ignores its own selection
+    expect(page.facets.city).toEqual({ Cairo: 2, Giza: 1 });
+    // Other tabs count the Cairo orders only
+    expect(page.facets.shipping).toEqual({ Company: 1, Scooter: 1 });
+    expect(page.facets.routes).toEqual({ [SHIPPING_ROUTE_NONE_KEY]: 1, East: 1 });
+  });
+
+  it('should use the due date for day ranges', () => {
+    expect(getDayRangeLabel(-3)).toBe('-3 days');
+    expect(getDayRangeLabel(0)).toBe('today');
+    expect(getDayRangeLabel(9)).toBe('+7 days');
+
+    const orders = [
+      order(1, { tags: ['custom_due_date:2026-03-10'] }),
+      order(2),
+      order(3, { line_items: [{ title: 'Rush Making [3 days]', quantity: 1, price: '0', variant_title: null }] }),
+    ];
+    const page = applyOrderListQuery(orders, parseOrderListQuery({ status: 'pending' }), now);
+    // created 2026-03-05 + 7 = 03-12, rush + 3 = 03-08
+    expect(page.facets.days).toEqual({ today: 1, '2 days': 1, '-2 days': 1 });
+    expect(page.facets.rushed).toEqual({ Standard: 2, Rushed: 1 });
+    // Default sort: fewest days left first
+    expect(page.orders.map((o) => o.id)).toEqual([3, 1, 2]);
+  });
+
+  it('should page with a cursor and pin priority orders first', () => {
+    const orders = [1, 2, 3, 4, 5].map((id) => order(id, id === 4 ? { tags: ['priority'] } : {}));
+    const first = applyOrderListQuery(orders, parseOrderListQuery({ status: 'pending', limit: '2' }), now);
+    expect(first.orders.map((o) => o.id)).toEqual([4, 1]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = applyOrderListQuery(
+      orders,
+      parseOrderListQuery({ status: 'pending', limit: '2', cursor: first.nextCursor }),
+      now
+    );
+    expect(second.orders.map((o) => o.id)).toEqual([2, 3]);
+
+    const last = applyOrderListQuery(
+      orders,
+      parseOrderListQuery({ status: 'pending', limit: '2', cursor: second.nextCursor }),
+      now
+    );
+    expect(last.orders.map((o) => o.id)).toEqual([5]);
+    expect(last.nextCursor).toBeNull();
+    expect(last.total).toBe(5);
+  });
+});
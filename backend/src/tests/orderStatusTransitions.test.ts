@@ -0,0 +1,109 @@
+import {
+  applyOrderStatusTransition,
+  isOrderStatusTransitionAllowed,
+  normalizeOrderStatus,
+  OrderStatusTransitionError,
+} from '../utils/orderStatusTransitions';
+import { getOrderWorkflowStatusFromTags } from '../utils/orderWorkflowState';
+
+const today = '2026-03-10';
+
+describe('Order status transitions', () => {
+  it('should normalize dashboard status spellings', () => {
+    expect(normalizeOrderStatus('confirmed')).toBe('customer_confirmed');
+    expect(normalizeOrderStatus(' Order-Ready ')).toBe('order_ready');
+    expect(normalizeOrderStatus('ready-to-ship')).toBe('ready_to_ship');
+    expect(normalizeOrderStatus('delivered')).toBeNull();
+  });
+
+  it('should allow pipeline moves and same-status no-ops', () => {
+    expect(isOrderStatusTransitionAllowed('pending', 'order_ready')).toBe(true);
+    expect(isOrderStatusTransitionAllowed('ready_to_ship', 'shipped')).toBe(true);
+    expect(isOrderStatusTransitionAllowed('fulfilled', 'paid')).toBe(true);
+    expect(isOrderStatusTransitionAllowed('order_ready', 'order_ready')).toBe(true);
+    expect(isOrderStatusTransitionAllowed('cancelled', 'shipped')).toBe(false);
+    expect(isOrderStatusTransitionAllowed('pending', 'shipped')).toBe(false);
+  });
+
+  it('should reject illegal moves with a 409 error', () => {
+    expect(() => applyOrderStatusTransition(['cancelled'], 'shipped', { today })).toThrow(OrderStatusTransitionError);
+
+    try {
+      applyOrderStatusTransition(['order_ready'], 'fulfilled', { today });
+    } catch (error) {
+      expect(error).toMatchObject({ statusCode: 409, from: 'order_ready', to: 'fulfilled' });
+    }
+  });
+
+  it('should allow illegal moves with the override flag', () => {
+    const result = applyOrderStatusTransition(['cancelled', 'cancelled_date:2026-03-01'], 'customer_confirmed', {
+      today,
+      override: true,
+    });
+
+    expect(result.tags).toEqual(['customer_confirmed', 'customer_confirmed_date:2026-03-10']);
+  });
+
+  it('should leave exactly one pipeline status', () => {
+    const result = applyOrderStatusTransition(['shipped', 'shipped_date:2026-03-01', 'priority'], 'cancelled', {
+      today,
+    });
+
+    expect(result.tags).toEqual([
+      'cancelled_after_shipping',
+      'cancelled',
+      'shipped_date:2026-03-01',
+      'cancelled_date:2026-03-10',
+    ]);
+    expect(getOrderWorkflowStatusFromTags(result.tags)).toBe('cancelled');
+  });
+
+  it('should stamp dates and drop dates of stages moved back out of', () => {
+    const shipped = applyOrderStatusTransition(['ready_to_ship', 'customer_confirmed_date:2026-03-01'], 'shipped', {
+      today,
+    });
+    expect(shipped.tags).toEqual(['shipped', 'customer_confirmed_date:2026-03-01', 'shipped_date:2026-03-10']);
+
+    const back = applyOrderStatusTransition(shipped.tags, 'ready_to_ship', { today });
+    expect(back.tags).toEqual(['ready_to_ship', 'customer_confirmed_date:2026-03-01']);
+  });
+
+  it('should clear on_hold_reason when confirming an on-hold order', () => {
+    const result = applyOrderStatusTransition(
+      ['on_hold', 'moved_to_on_hold:2026-03-05', 'on_hold_reason:no_confirmation'],
+      'customer_confirmed',
+      { today, extraTags: ['confirmed_from_on_hold'] }
+    );
+
+    expect(result.tags).toEqual([
+      'confirmed_from_on_hold',
+      'customer_confirmed',
+      'customer_confirmed_date:2026-03-10',
+      'moved_to_on_hold:2026-03-05',
+    ]);
+  });
+
+  it('should mark pickup orders paid when fulfilled and honour an explicit fulfillment date', () => {
+    const result = applyOrderStatusTransition(
+      ['ready_to_ship', 'shipping_method:pickup', 'priority'],
+      'fulfilled',
+      { today, extraTags: ['fulfillment_date:2026-03-08'] }
+    );
+
+    expect(result.tags).toEqual([
+      'fulfilled',
+      'paid',
+      'fulfillment_date:2026-03-08',
+      'paid_date:2026-03-08',
+      'shipping_method:pickup',
+    ]);
+  });
+
+  it('should treat a same-status move as a no-op', () => {
+    const tags = ['order_ready', 'order_ready_date:2026-03-01'];
+    const result = applyOrderStatusTransition(tags, 'order_ready', { today });
+
+    expect(result.changed).toBe(false);
+    expect(result.tags).toEqual(tags);
+  });
+});
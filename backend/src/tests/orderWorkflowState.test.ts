@@ -0,0 +1,102 @@
+import {
+  getOrderWorkflowStatusFromTags,
+  parseOrderWorkflowState,
+  serializeOrderWorkflowState,
+  updateOrderWorkflowTags,
+} from '../utils/orderWorkflowState';
+
+describe('Order workflow state', () => {
+  describe('parseOrderWorkflowState', () => {
+    it('should parse known prefixes into typed fields', () => {
+      const { state, issues } = parseOrderWorkflowState(
+        'shipped, shipped_date:2026-01-05, shipping_barcode:ABC123, shipping_company_cost:85.5, shipping_method:scooter, priority'
+      );
+
+      expect(issues).toEqual([]);
+      expect(state.statusFlags).toEqual(['shipped']);
+      expect(state.shippedDate).toBe('2026-01-05');
+      expect(state.shippingBarcode).toBe('ABC123');
+      expect(state.shippingCompanyCost).toBe(85.5);
+      expect(state.shippingMethod).toBe('scooter');
+      expect(state.otherTags).toEqual(['priority']);
+    });
+
+    it('should read legacy shipping_date: and payment_date: under canonical fields', () => {
+      const { state } = parseOrderWorkflowState(['shipping_date:2026-01-05', 'payment_date:2026-02-01']);
+
+      expect(state.shippedDate).toBe('2026-01-05');
+      expect(state.paidDate).toBe('2026-02-01');
+      expect(serializeOrderWorkflowState(state)).toEqual([
+        'shipped_date:2026-01-05',
+        'paid_date:2026-02-01',
+      ]);
+    });
+
+    it('should report malformed values and keep the raw tag', () => {
+      const { state, issues } = parseOrderWorkflowState(['paid_date:yesterday', 'shipping_company_cost:abc']);
+
+      expect(issues.map((issue) => issue.field)).toEqual(['paidDate', 'shippingCompanyCost']);
+      expect(state.paidDate).toBeUndefined();
+      expect(state.otherTags).toEqual(['paid_date:yesterday', 'shipping_company_cost:abc']);
+    });
+
+    it('should keep a repeated field tag as a raw tag so serializing does not drop it', () => {
+      const tags = ['paid', 'paid_date:2026-02-01', 'paid_date:2026-02-03'];
+      const { state, issues } = parseOrderWorkflowState(tags);
+
+      expect(state.paidDate).toBe('2026-02-01');
+      expect(state.otherTags).toEqual(['paid_date:2026-02-03']);
+      expect(issues).toEqual([expect.objectContaining({ tag: 'paid_date:2026-02-03', field: 'paidDate' })]);
+      expect([...serializeOrderWorkflowState(state)].sort()).toEqual([...tags].sort());
+    });
+
+    it('should parse failed delivery attempts as a whole count', () => {
+      const { state, issues } = parseOrderWorkflowState(
+        'shipped, delivery_attempt:2, delivery_reschedule_date:2026-03-12, delivery_attempt:1.5'
+      );
+
+      expect(state.deliveryAttempts).toBe(2);
+      expect(state.deliveryRescheduleDate).toBe('2026-03-12');
+      expect(issues).toEqual([
+        expect.objectContaining({ field: 'deliveryAttempts', message: '"1.5" is not a positive whole number' }),
+      ]);
+    });
+  });
+
+  describe('serializeOrderWorkflowState', () => {
+    it('should round-trip tags', () => {
+      const tags = [
+        'vip',
+        'customer_confirmed',
+        'order_ready_date:2026-01-01',
+        'customer_confirmed_date:2026-01-02',
+        'on_hold_reason:no_confirmation',
+        'pin:30.119117;31.352819',
+      ];
+      const { state } = parseOrderWorkflowState(tags);
+
+      expect(parseOrderWorkflowState(serializeOrderWorkflowState(state)).state).toEqual(state);
+    });
+
+    it('should throw a ValidationError for invalid values', () => {
+      const { state } = parseOrderWorkflowState([]);
+
+      expect(() => serializeOrderWorkflowState({ ...state, paidDate: '2026-13-45x' })).toThrow(
+        expect.objectContaining({ name: 'ValidationError' })
+      );
+    });
+  });
+
+  describe('updateOrderWorkflowTags', () => {
+    it('should set and clear fields', () => {
+      const tags = updateOrderWorkflowTags(['on_hold', 'on_hold_reason:no_confirmation'], {
+        statusFlags: ['customer_confirmed'],
+        customerConfirmedDate: '2026-03-01',
+        onHoldReason: undefined,
+      });
+
+      expect(tags).toEqual(['customer_confirmed', 'customer_confirmed_date:2026-03-01']);
+      expect(getOrderWorkflowStatusFromTags(tags)).toBe('customer_confirmed');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { sortForPacking } from '../utils/packingOrder';
+
+const order = (name: string, tags: string[]) => ({ name, tags });
+
+describe('Packing order', () => {
+  const orders = [
+    order('#1001', ['shipped']),
+    order('#1002', ['shipping_route:Nasr City']),
+    order('#1003', ['shipping_route:maadi']),
+    order('#1004', ['shipping_route:Nasr City']),
+    order('#1005', ['shipping_route:Heliopolis']),
+  ];
+
+  it('should group orders by route A-Z with unrouted orders last', () => {
+    expect(sortForPacking(orders).map((o) => o.name)).toEqual(['#1005', '#1003', '#1002', '#1004', '#1001']);
+  });
+
+  it('should keep the selection order when asked', () => {
+    expect(sortForPacking(orders, 'selection').map((o) => o.name)).toEqual(orders.map((o) => o.name));
+  });
+});
@@ -0,0 +1,163 @@
+import { FinancialExpense, PartnerSettlement } from '../types/financial';
+import {
+  buildPartnerLedger,
+  partnerOwedForExpense,
+  partnerPositions,
+  partnerShareOfExpense,
+  splitByOwnership,
+  suggestSettlements,
+} from '../utils/partners';
+
+function expense(overrides: Partial<FinancialExpense> = {}): FinancialExpense {
+  return {
+    id: 'e1',
+    category: 'Raw Materials',
+    amount: 900,
+    date: '2026-03-14',
+    month: '2026-03',
+    notes: 'Yarn restock',
+    expense_type: 'operating',
+    paid_by: 'Business',
+    split_payment: null,
+    settled: false,
+    settled_at: null,
+    settled_partners: [],
+    created_at: '2026-03-14T10:00:00Z',
+    updated_at: '2026-03-14T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function settlement(overrides: Partial<PartnerSettlement> = {}): PartnerSettlement {
+  return {
+    id: 's1',
+    partner: 'Mohamed',
+    kind: 'reimbursement',
+    counterparty: null,
+    amount: 100,
+    date: '2026-03-20',
+    expense_ids: [],
+    note: null,
+    created_at: '2026-03-20T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Partners', () => {
+  it('should split an amount by ownership and give leftover cents to the largest share', () => {
+    expect(
+      splitByOwnership(100, [
+        { name: 'Mohamed', ownership_percent: 60 },
+        { name: 'Mariam', ownership_percent: 40 },
+      ])
+    ).toEqual({ Mohamed: 60, Mariam: 40 });
+
+    const thirds = splitByOwnership(100, [
+      { name: 'A', ownership_percent: 40 },
+      { name: 'B', ownership_percent: 30 },
+      { name: 'C', ownership_percent: 30 },
+    ]);
+    expect(thirds).toEqual({ A: 40, B: 30, C: 30 });
+
+    const uneven = splitByOwnership(10, [
+      { name: 'A', ownership_percent: 33.34 },
+      { name: 'B', ownership_percent: 33.33 },
+      { name: 'C', ownership_percent: 33.33 },
+    ]);
+    expect(uneven).toEqual({ A: 3.34, B: 3.33, C: 3.33 });
+    expect(splitByOwnership(50, [{ name: 'A', ownership_percent: 0 }, { name: 'B', ownership_percent: 0 }])).toEqual({
+      A: 25,
+      B: 25,
+    });
+  });
+
+  it('should work out what each partner fronted and is still owed', () => {
+    const shared = expense({ paid_by: 'Shared', split_payment: { Mohamed: 300, Mariam: 600 } });
+    expect(partnerShareOfExpense(expense({ paid_by: 'Mohamed' }), 'Mohamed')).toBe(900);
+    expect(partnerShareOfExpense(expense({ paid_by: 'Mohamed' }), 'Mariam')).toBe(0);
+    expect(partnerShareOfExpense(shared, 'Mariam')).toBe(600);
+
+    expect(partnerOwedForExpense({ ...shared, settled_partners: ['Mariam'] }, 'Mariam')).toBe(0);
+    expect(partnerOwedForExpense({ ...shared, settled_partners: ['Mariam'] }, 'Mohamed')).toBe(300);
+    expect(partnerOwedForExpense(expense({ paid_by: 'Mohamed', settled: true }), 'Mohamed')).toBe(0);
+  });
+
+  it('should build a running balance ledger per partner', () => {
+    const ledger = buildPartnerLedger(
+      'Mohamed',
+      [
+        expense({ id: 'e1', date: '2026-03-01', paid_by: 'Mohamed', amount: 500 }),
+        expense({ id: 'e2', date: '2026-03-05', paid_by: 'Shared', split_payment: { Mohamed: 100, Mariam: 100 } }),
+        expense({ id: 'e3', date: '2026-03-06', paid_by: 'Mariam', amount: 700 }),
+      ],
+      [
+        settlement({ id: 's1', date: '2026-03-10', amount: 200 }),
+        settlement({ id: 's2', date: '2026-03-12', kind: 'draw', amount: 50 }),
+        settlement({ id: 's3', date: '2026-03-15', kind: 'transfer', partner: 'Mariam', counterparty: 'Mohamed', amount: 75 }),
+        settlement({ id: 's4', date: '2026-03-03', kind: 'contribution', amount: 1000 }),
+      ]
+    );
+
+    expect(ledger.entries.map((entry) => [entry.date, entry.amount, entry.balance])).toEqual([
+      ['2026-03-01', 500, 500],
+      ['2026-03-03', 1000, 1500],
+      ['2026-03-05', 100, 1600],
+      ['2026-03-10', -200, 1400],
+      ['2026-03-12', -50, 1350],
+      ['2026-03-15', -75, 1275],
+    ]);
+    expect(ledger.fronted).toBe(1600);
+    expect(ledger.taken_out).toBe(325);
+    expect(ledger.balance).toBe(1275);
+    expect(ledger.entries[5].description).toBe('Received from Mariam');
+  });
+
+  it('should not count expenses flagged as settled without a reimbursement row', () => {
+    const ledger = buildPartnerLedger(
+      'Mohamed',
+      [
+        expense({ id: 'e1', date: '2026-03-01', paid_by: 'Mohamed', amount: 500, settled: true }),
+        expense({ id: 'e2', date: '2026-03-02', paid_by: 'Mohamed', amount: 300, settled: true }),
+        expense({ id: 'e3', date: '2026-03-03', paid_by: 'Shared', split_payment: { Mohamed: 100, Mariam: 100 }, settled_partners: ['Mohamed'] }),
+      ],
+      [settlement({ id: 's1', date: '2026-03-04', amount: 300, expense_ids: ['e2'] })]
+    );
+
+    expect(ledger.entries.map((entry) => [entry.date, entry.amount])).toEqual([
+      ['2026-03-02', 300],
+      ['2026-03-04', -300],
+    ]);
+    expect(ledger.balance).toBe(0);
+  });
+
+  it('should suggest transfers that bring partners to their ownership share', () => {
+    const positions = partnerPositions(
+      [
+        { name: 'Mohamed', ownership_percent: 50 },
+        { name: 'Mariam', ownership_percent: 50 },
+      ],
+      { Mohamed: 1000, Mariam: 200 }
+    );
+    expect(positions).toEqual([
+      { partner: 'Mohamed', ownership_percent: 50, balance: 1000, target: 600, difference: 400 },
+      { partner: 'Mariam', ownership_percent: 50, balance: 200, target: 600, difference: -400 },
+    ]);
+    expect(suggestSettlements(positions)).toEqual([{ from: 'Mariam', to: 'Mohamed', amount: 400 }]);
+  });
+
+  it('should net balances across three partners', () => {
+    const positions = partnerPositions(
+      [
+        { name: 'A', ownership_percent: 50 },
+        { name: 'B', ownership_percent: 25 },
+        { name: 'C', ownership_percent: 25 },
+      ],
+      { A: 0, B: 600, C: 200 }
+    );
+    // Total 800: A should hold 400, B and C 200 each
+    expect(suggestSettlements(positions)).toEqual([{ from: 'A', to: 'B', amount: 400 }]);
+
+    const balanced = partnerPositions([{ name: 'A', ownership_percent: 100 }], { A: 300 });
+    expect(suggestSettlements(balanced)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { supabase } from '../config/supabase';
+import { payoutService } from '../services/financial/payoutService';
+import { profitEngineService } from '../services/financial/profitEngineService';
+import { SupabaseFake } from './supabaseFake';
+
+jest.mock('../config/supabase', () => ({ supabase: new (jest.requireActual('./supabaseFake').SupabaseFake)() }));
+jest.mock('../services/financial/profitEngineService', () => ({
+  profitEngineService: { getMonthlyProfitRow: jest.fn() },
+}));
+
+const db = supabase as unknown as SupabaseFake;
+const profitEngine = profitEngineService as jest.Mocked<typeof profitEngineService>;
+
+const MONTH = '2026-01';
+
+describe('Payout approval', () => {
+  beforeEach(() => {
+    db.reset();
+    db.primaryKeys = { payout_config: 'effective_from', monthly_payouts: 'month' };
+    jest.clearAllMocks();
+    profitEngine.getMonthlyProfitRow.mockResolvedValue({ month: MONTH, dpp: 10000, cash_dpp: 8000 } as never);
+  });
+
+  async function saveConfig(overrides: Record<string, unknown> = {}) {
+    await payoutService.saveConfig({
+      effective_from: MONTH,
+      basis: 'dpp',
+      media_buyer_percent: 3,
+      ops_percent: 10,
+      crm_percent: 7.5,
+      owner_pay_type: 'percent',
+      owner_pay_value: 20,
+      ...overrides,
+    });
+    // The database assigns the id once; upserts on effective_from keep it
+    const row = db.rows('payout_config').find((config) => config.effective_from === MONTH)!;
+    row.id ??= 'config-1';
+  }
+
+  it('should approve a draft calculated from the current profit and config', async () => {
+    await saveConfig();
+    await payoutService.calculate(MONTH);
+
+    const approved = await payoutService.approve(MONTH, 'ocd');
+    expect(approved).toMatchObject({ status: 'approved', approved_by: 'ocd', ops_amount: 1000 });
+  });
+
+  it('should reject a draft after the same-month config was edited in place', async () => {
+    await saveConfig();
+    await payoutService.calculate(MONTH);
+
+    await saveConfig({ ops_percent: 15 });
+    expect(db.rows('payout_config')).toHaveLength(1);
+
+    await expect(payoutService.approve(MONTH)).rejects.toMatchObject({ statusCode: 409 });
+    expect(db.rows('monthly_payouts')[0]).toMatchObject({ status: 'draft', ops_amount: 1000 });
+
+    await payoutService.calculate(MONTH);
+    await expect(payoutService.approve(MONTH)).resolves.toMatchObject({ status: 'approved', ops_amount: 1500 });
+  });
+
+  it('should reject a draft after a fixed owner pay changed without touching the pool', async () => {
+    await saveConfig({ owner_pay_type: 'fixed', owner_pay_value: 3000 });
+    await payoutService.calculate(MONTH);
+    await saveConfig({ owner_pay_type: 'fixed', owner_pay_value: 3500 });
+
+    await expect(payoutService.approve(MONTH)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should reject a draft after the month profit was recalculated', async () => {
+    await saveConfig();
+    await payoutService.calculate(MONTH);
+    profitEngine.getMonthlyProfitRow.mockResolvedValue({ month: MONTH, dpp: 12000, cash_dpp: 8000 } as never);
+
+    await expect(payoutService.approve(MONTH)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
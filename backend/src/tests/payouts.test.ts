@@ -0,0 +1,54 @@
+import { PayoutConfig } from '../types/financial';
+import { calculatePayoutAmounts, payoutConfigForMonth } from '../utils/payouts';
+
+function config(id: string, effectiveFrom: string, overrides: Partial<PayoutConfig> = {}): PayoutConfig {
+  return {
+    id,
+    effective_from: effectiveFrom,
+    basis: 'dpp',
+    media_buyer_percent: 3,
+    ops_percent: 10,
+    crm_percent: 7.5,
+    owner_pay_type: 'percent',
+    owner_pay_value: 20,
+    created_by: null,
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const versions = [config('c1', '2000-01'), config('c2', '2026-04', { ops_percent: 12 })];
+
+describe('Payouts', () => {
+  it('should use the config version in force for the month', () => {
+    expect(payoutConfigForMonth(versions, '2026-03')?.id).toBe('c1');
+    expect(payoutConfigForMonth(versions, '2026-04')?.id).toBe('c2');
+    expect(payoutConfigForMonth([config('c3', '2026-06')], '2026-05')).toBeNull();
+  });
+
+  it('should pay commissions and owner share from the chosen pool', () => {
+    const amounts = calculatePayoutAmounts({ dpp: 10000, cash_dpp: 8000 }, versions[0]);
+    expect(amounts).toEqual({
+      dpp: 10000,
+      media_buyer_amount: 300,
+      ops_amount: 1000,
+      crm_amount: 750,
+      owner_amount: 2000,
+      net_business_profit: 5950,
+    });
+
+    const cash = calculatePayoutAmounts({ dpp: 10000, cash_dpp: 8000 }, { ...versions[0], basis: 'cash_dpp' });
+    expect(cash.dpp).toBe(8000);
+    expect(cash.ops_amount).toBe(800);
+  });
+
+  it('should not pay percentages from a negative pool but still owe fixed owner pay', () => {
+    const amounts = calculatePayoutAmounts(
+      { dpp: -500, cash_dpp: 0 },
+      config('c4', '2026-01', { owner_pay_type: 'fixed', owner_pay_value: 3000 })
+    );
+    expect(amounts.media_buyer_amount).toBe(0);
+    expect(amounts.owner_amount).toBe(3000);
+    expect(amounts.net_business_profit).toBe(-3500);
+  });
+});
@@ -0,0 +1,59 @@
+import { ProductCost } from '../types/financial';
+import { calculateCogs, effectiveProductCost, unitCostTotal } from '../utils/productCosts';
+
+function cost(id: string, productId: string, effectiveFrom: string, yarn: number): ProductCost {
+  return {
+    id,
+    product_id: productId,
+    product_name: `Product ${productId}`,
+    crochet_labor_per_unit: 100,
+    yarn_cost_per_unit: yarn,
+    helper_colors_cost_per_unit: 0,
+    laser_felt_cost_per_unit: 5,
+    packaging_per_unit: 10,
+    total_unit_cost: 115 + yarn,
+    effective_from: effectiveFrom,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+const versions = [cost('v1', '10', '2026-01-01', 40), cost('v2', '10', '2026-03-15', 60)];
+
+describe('Product costs', () => {
+  it('should pick the latest version effective on the date', () => {
+    expect(effectiveProductCost(versions, '10', '2026-03-14')?.id).toBe('v1');
+    expect(effectiveProductCost(versions, '10', '2026-03-15')?.id).toBe('v2');
+    expect(effectiveProductCost(versions, '10', '2025-12-31')).toBeNull();
+    expect(unitCostTotal(versions[1])).toBe(175);
+  });
+
+  it('should cost paid units at the version in effect on the paid date', () => {
+    const result = calculateCogs(
+      [
+        {
+          name: '#1001',
+          tags: ['paid', 'paid_date:2026-03-10'],
+          line_items: [
+            { title: 'Bunny', quantity: 2, product_id: 10 },
+            { title: 'Priority Making', quantity: 1, product_id: 10411161747637 },
+          ],
+        },
+        {
+          name: '#1002',
+          tags: ['paid', 'paid_date:2026-03-20'],
+          line_items: [
+            { title: 'Bunny', quantity: 1, product_id: 10 },
+            { title: 'Bear', quantity: 3, product_id: 20 },
+          ],
+        },
+      ],
+      versions
+    );
+
+    expect(result.cogs).toBe(2 * 155 + 175);
+    expect(result.units).toBe(6);
+    expect(result.uncostedUnits).toBe(3);
+    expect(result.uncostedProducts).toEqual(['Bear']);
+  });
+});
@@ -0,0 +1,86 @@
+import { ProductCost } from '../types/financial';
+import { buildProductMarginsReport, calculateProductMargins, MarginOrder } from '../utils/productMargins';
+import { financeMonthsBetween, shiftFinanceMonth } from '../utils/financeMonth';
+
+function cost(productId: string, effectiveFrom: string, labor: number): ProductCost {
+  return {
+    id: `${productId}-${effectiveFrom}`,
+    product_id: productId,
+    product_name: `Product ${productId}`,
+    crochet_labor_per_unit: labor,
+    yarn_cost_per_unit: 0,
+    helper_colors_cost_per_unit: 0,
+    laser_felt_cost_per_unit: 0,
+    packaging_per_unit: 0,
+    total_unit_cost: labor,
+    effective_from: effectiveFrom,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+const versions = [cost('10', '2026-01-01', 200), cost('10', '2026-03-15', 300)];
+
+function order(paidDate: string, lineItems: NonNullable<MarginOrder['line_items']>): MarginOrder {
+  return { tags: ['paid', `paid_date:${paidDate}`], line_items: lineItems };
+}
+
+const march: MarginOrder[] = [
+  order('2026-03-10', [
+    { title: 'Bunny', quantity: 2, price: '500', total_discount: '100', product_id: 10, variant_id: 1, variant_title: 'Pink' },
+    { title: 'Priority Making', quantity: 1, price: '150', product_id: 10411161747637 },
+  ]),
+  order('2026-03-20', [
+    { title: 'Bunny', quantity: 1, price: '600', product_id: 10, variant_id: 2, variant_title: 'Blue' },
+    { title: 'Bear', quantity: 1, price: '300', product_id: 20 },
+  ]),
+];
+
+describe('Product margins', () => {
+  it('should net discounts and cost units at the version in effect when paid', () => {
+    const [bunny, bear] = calculateProductMargins(march, versions);
+
+    expect(bunny.product_id).toBe('10');
+    expect(bunny.units_sold).toBe(3);
+    expect(bunny.total_revenue).toBe(1500);
+    expect(bunny.average_selling_price).toBe(500);
+    expect(bunny.total_cost).toBe(2 * 200 + 300);
+    expect(bunny.margin_percent).toBe(53.3);
+    expect(bunny.revenue_share).toBe(83.3);
+    expect(bunny.variants.map((variant) => variant.variant_title)).toEqual(['Pink', 'Blue']);
+    expect(bunny.variants[0].average_selling_price).toBe(450);
+
+    expect(bear.cost_per_unit).toBeNull();
+    expect(bear.margin_percent).toBeNull();
+    expect(bear.uncosted_units).toBe(1);
+  });
+
+  it('should compare each product and variant with the previous period', () => {
+    const february = [
+      order('2026-02-05', [
+        { title: 'Bunny', quantity: 2, price: '400', product_id: 10, variant_id: 1, variant_title: 'Pink' },
+      ]),
+    ];
+    const report = buildProductMarginsReport(
+      { from: '2026-03', to: '2026-03', previousFrom: '2026-02', previousTo: '2026-02' },
+      march,
+      february,
+      versions
+    );
+    const bunny = report.products[0];
+
+    expect(report.total_revenue).toBe(1800);
+    expect(report.uncosted_units).toBe(1);
+    expect(bunny.trend?.units_sold_change_percent).toBe(50);
+    expect(bunny.trend?.average_selling_price_change_percent).toBe(25);
+    expect(bunny.trend?.margin_percent_change).toBe(3.3);
+    expect(bunny.variants[0].trend?.previous_units_sold).toBe(2);
+    expect(bunny.variants[1].trend).toBeNull();
+    expect(report.products[1].trend).toBeNull();
+  });
+
+  it('should step months across year boundaries', () => {
+    expect(shiftFinanceMonth('2026-01', -1)).toBe('2025-12');
+    expect(financeMonthsBetween('2025-11', '2026-02')).toEqual(['2025-11', '2025-12', '2026-01', '2026-02']);
+  });
+});
@@ -0,0 +1,70 @@
+import { supabase } from '../config/supabase';
+import { financeMonthCloseService } from '../services/financial/financeMonthCloseService';
+import { productionCostService } from '../services/financial/productionCostService';
+import { SupabaseFake } from './supabaseFake';
+
+jest.mock('../config/supabase', () => ({ supabase: new (jest.requireActual('./supabaseFake').SupabaseFake)() }));
+jest.mock('../services/financial/financeMonthCloseService', () => ({
+  financeMonthCloseService: { assertOpen: jest.fn() },
+}));
+
+const db = supabase as unknown as SupabaseFake;
+const monthClose = financeMonthCloseService as jest.Mocked<typeof financeMonthCloseService>;
+
+const CLOSED_MONTH = '2026-01';
+
+function version(id: string, effectiveFrom: string) {
+  return {
+    id,
+    product_id: '10',
+    product_name: 'Bunny',
+    crochet_labor_per_unit: 80,
+    yarn_cost_per_unit: 120,
+    helper_colors_cost_per_unit: 0,
+    laser_felt_cost_per_unit: 0,
+    packaging_per_unit: 15,
+    effective_from: effectiveFrom,
+  };
+}
+
+describe('Product cost versions in closed months', () => {
+  beforeEach(() => {
+    db.reset();
+    jest.clearAllMocks();
+    db.seed('product_costs', [version('jan', '2026-01-01'), version('mar', '2026-03-01')]);
+    monthClose.assertOpen.mockImplementation(async (month) => {
+      if (month === CLOSED_MONTH) {
+        throw Object.assign(new Error(`${CLOSED_MONTH} is closed`), { name: 'ConflictError', statusCode: 409 });
+      }
+    });
+  });
+
+  function costs(id: string) {
+    return db.rows('product_costs').find((row) => row.id === id);
+  }
+
+  it('should correct a version effective in an open month', async () => {
+    await expect(productionCostService.update('mar', { crochet_labor_per_unit: 90 })).resolves.toMatchObject({
+      crochet_labor_per_unit: 90,
+    });
+  });
+
+  it('should not edit or delete a version effective in a closed month', async () => {
+    await expect(productionCostService.update('jan', { crochet_labor_per_unit: 90 })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(productionCostService.delete('jan')).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(costs('jan')).toMatchObject({ crochet_labor_per_unit: 80 });
+  });
+
+  it('should not move a version into a closed month or add one there', async () => {
+    await expect(productionCostService.update('mar', { effective_from: '2026-01-15' })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(productionCostService.create(version('new', '2026-01-20'))).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(costs('mar')).toMatchObject({ effective_from: '2026-03-01' });
+    expect(db.rows('product_costs')).toHaveLength(2);
+  });
+});
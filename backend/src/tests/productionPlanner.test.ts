@@ -0,0 +1,103 @@
+import type { ShopifyOrder } from '../services/shopify';
+import {
+  applyPlannedDates,
+  capacityForDay,
+  DEFAULT_PRODUCTION_PLANNER_SETTINGS,
+  isAwaitingProduction,
+  planProduction,
+  PLANNER_SCHEDULED_TAG,
+  ProductionPlannerSettings,
+} from '../utils/productionPlanner';
+
+// Tuesday; Friday 2026-03-13 is the weekly day off
+const today = '2026-03-10';
+
+const settings: ProductionPlannerSettings = {
+  ...DEFAULT_PRODUCTION_PLANNER_SETTINGS,
+  dailyCapacityHours: 8,
+  defaultHoursPerUnit: 4,
+  defaultMakingDays: 7,
+  priorityMakingDays: 3,
+};
+
+function order(id: number, overrides: Partial<ShopifyOrder> = {}): ShopifyOrder {
+  return {
+    id,
+    name: `#${1000 + id}`,
+    email: '',
+    phone: '',
+    total_price: '100.00',
+    financial_status: 'pending',
+    fulfillment_status: '',
+    tags: [],
+    created_at: `2026-03-0${id}T08:00:00Z`,
+    updated_at: `2026-03-0${id}T08:00:00Z`,
+    line_items: [{ title: 'Bunny Plushie', quantity: 2, price: '100.00', variant_title: 'Pink' }],
+    customer: { id, first_name: 'Mona', last_name: `Customer${id}`, phone: `+2010000000${id}` },
+    shipping_address: { phone: '', address1: '', city: 'Nasr City', province: 'Cairo', zip: '', country: 'Egypt' },
+    ...overrides,
+  };
+}
+
+describe('Production planner', () => {
+  it('should give no capacity on Fridays, holidays and overridden days', () => {
+    const withDaysOff = { ...settings, holidays: ['2026-03-11'], capacityOverrides: { '2026-03-12': 4 } };
+    expect(capacityForDay('2026-03-10', withDaysOff)).toBe(8);
+    expect(capacityForDay('2026-03-11', withDaysOff)).toBe(0);
+    expect(capacityForDay('2026-03-12', withDaysOff)).toBe(4);
+    expect(capacityForDay('2026-03-13', withDaysOff)).toBe(0);
+  });
+
+  it('should fill days in queue order and skip days off', () => {
+    const plan = planProduction([order(1), order(2), order(3), order(4)], settings, today);
+    const starts = plan.entries.map((e) => e.plannedStart);
+    // 8h per order, 8h per day: Tue, Wed, Thu, (Fri off) Sat
+    expect(starts).toEqual(['2026-03-10', '2026-03-11', '2026-03-12', '2026-03-14']);
+    expect(plan.entries[0].plannedDue).toBe('2026-03-17');
+    expect(plan.entries.every((e) => e.feasible)).toBe(true);
+  });
+
+  it('should put Priority Making orders first with the shorter making time', () => {
+    const rush = order(5, {
+      line_items: [
+        { title: 'Bunny Plushie', quantity: 1, price: '100.00', variant_title: 'Blue' },
+        { title: 'Priority Making', quantity: 1, price: '50.00', variant_title: null },
+      ],
+    });
+    const plan = planProduction([order(1), rush], settings, today);
+    expect(plan.entries[0].orderId).toBe(5);
+    expect(plan.entries[0].hours).toBe(4);
+    expect(plan.entries[0].plannedDue).toBe('2026-03-13');
+    expect(plan.entries[1].plannedStart).toBe('2026-03-10');
+  });
+
+  it('should keep manual dates and flag them when capacity cannot meet them', () => {
+    const manual = order(1, { tags: ['custom_start_date:2026-03-10', 'custom_due_date:2026-03-10'] });
+    const big = { ...manual, line_items: [{ title: 'Bunny Plushie', quantity: 4, price: '100.00', variant_title: '' }] };
+    const plan = planProduction([big, order(2)], settings, today);
+    const locked = plan.entries.find((e) => e.orderId === 1)!;
+    expect(locked.locked).toBe(true);
+    expect(locked.plannedDue).toBe('2026-03-10');
+    expect(locked.plannedFinish).toBe('2026-03-11');
+    expect(locked.feasible).toBe(false);
+    // The locked order holds Tue and Wed
+    expect(plan.entries.find((e) => e.orderId === 2)!.plannedStart).toBe('2026-03-12');
+  });
+
+  it('should keep confirmed orders in the queue until they are ready', () => {
+    expect(isAwaitingProduction([])).toBe(true);
+    expect(isAwaitingProduction(['customer_confirmed'])).toBe(true);
+    expect(isAwaitingProduction(['customer_confirmed', 'order_ready_date:2026-03-09'])).toBe(false);
+    expect(isAwaitingProduction(['order_ready'])).toBe(false);
+    expect(isAwaitingProduction(['shipped'])).toBe(false);
+  });
+
+  it('should write planner tags and leave locked orders alone', () => {
+    const plan = planProduction([order(1)], settings, today);
+    const tags = applyPlannedDates(['custom_due_date:2026-03-01', PLANNER_SCHEDULED_TAG, 'vip'], plan.entries[0]);
+    expect(tags).toEqual(['vip', 'custom_start_date:2026-03-10', 'custom_due_date:2026-03-17', PLANNER_SCHEDULED_TAG]);
+
+    const locked = planProduction([order(2, { tags: ['custom_due_date:2026-03-20'] })], settings, today);
+    expect(applyPlannedDates(['custom_due_date:2026-03-20'], locked.entries[0])).toBeNull();
+  });
+});
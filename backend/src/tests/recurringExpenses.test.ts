@@ -0,0 +1,117 @@
+import { RecurringExpense, RecurringExpenseOccurrence } from '../types/financial';
+import {
+  firstPostableDate,
+  occurrenceDateInMonth,
+  occurrenceDates,
+  previewOccurrences,
+} from '../utils/recurringExpenses';
+
+function template(overrides: Partial<RecurringExpense> = {}): RecurringExpense {
+  return {
+    id: 'rent',
+    name: 'Workshop rent',
+    category: 'Utilities & Rent',
+    amount: 5000,
+    expense_type: 'operating',
+    paid_by: 'Business',
+    cadence: 'monthly',
+    day_of_month: 1,
+    start_date: '2026-01-01',
+    end_date: null,
+    notes: null,
+    active: true,
+    backfill: false,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function occurrence(overrides: Partial<RecurringExpenseOccurrence>): RecurringExpenseOccurrence {
+  return {
+    id: 'o1',
+    recurring_expense_id: 'rent',
+    occurrence_date: '2026-03-01',
+    status: 'pending',
+    amount: null,
+    notes: null,
+    expense_id: null,
+    created_at: '2026-02-20T00:00:00Z',
+    updated_at: '2026-02-20T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Recurring expenses', () => {
+  it('should clamp the day to the end of shorter months', () => {
+    expect(occurrenceDateInMonth('2026-02', 31)).toBe('2026-02-28');
+    expect(occurrenceDateInMonth('2028-02', 30)).toBe('2028-02-29');
+    expect(occurrenceDateInMonth('2026-04', 15)).toBe('2026-04-15');
+  });
+
+  it('should list occurrences by cadence within start and end', () => {
+    expect(occurrenceDates(template(), '2026-01-01', '2026-04-30')).toEqual([
+      '2026-01-01',
+      '2026-02-01',
+      '2026-03-01',
+      '2026-04-01',
+    ]);
+    // Starts after this month's day: first occurrence is next month
+    expect(occurrenceDates(template({ start_date: '2026-01-10', day_of_month: 5 }), '2026-01-01', '2026-03-31')).toEqual([
+      '2026-02-05',
+      '2026-03-05',
+    ]);
+    expect(
+      occurrenceDates(template({ cadence: 'quarterly', day_of_month: 31, start_date: '2026-01-01' }), '2026-01-01', '2026-12-31')
+    ).toEqual(['2026-01-31', '2026-04-30', '2026-07-31', '2026-10-31']);
+    expect(occurrenceDates(template({ cadence: 'yearly', start_date: '2025-06-01' }), '2026-01-01', '2027-12-31')).toEqual([
+      '2026-06-01',
+      '2027-06-01',
+    ]);
+    expect(occurrenceDates(template({ end_date: '2026-02-15' }), '2026-01-01', '2026-06-30')).toEqual([
+      '2026-01-01',
+      '2026-02-01',
+    ]);
+  });
+
+  it('should apply skips, adjustments and postings to the preview', () => {
+    const rows = previewOccurrences(
+      [template()],
+      [
+        occurrence({ occurrence_date: '2026-01-01', status: 'posted', expense_id: 'e1' }),
+        occurrence({ occurrence_date: '2026-03-01', status: 'skipped' }),
+        occurrence({ occurrence_date: '2026-04-01', amount: 5500 }),
+      ],
+      '2026-01-01',
+      '2026-04-30',
+      '2026-02-10'
+    );
+
+    expect(rows.map((row) => [row.date, row.status, row.amount])).toEqual([
+      ['2026-01-01', 'posted', 5000],
+      ['2026-02-01', 'due', 5000],
+      ['2026-03-01', 'skipped', 5000],
+      ['2026-04-01', 'adjusted', 5500],
+    ]);
+    expect(rows[0].expense_id).toBe('e1');
+  });
+
+  it('should only post occurrences from the day the template was created unless backfilled', () => {
+    const late = template({ start_date: '2026-01-01', created_at: '2026-03-15T09:00:00Z' });
+    expect(firstPostableDate(late)).toBe('2026-03-15');
+    expect(firstPostableDate({ ...late, backfill: true })).toBe('2026-01-01');
+    expect(firstPostableDate(template({ start_date: '2026-05-01', created_at: '2026-03-15T09:00:00Z' }))).toBe('2026-05-01');
+
+    const rows = previewOccurrences(
+      [late],
+      [occurrence({ occurrence_date: '2026-02-01', status: 'skipped' })],
+      '2026-01-01',
+      '2026-04-30',
+      '2026-04-10'
+    );
+    expect(rows.map((row) => [row.date, row.status])).toEqual([
+      ['2026-02-01', 'skipped'],
+      ['2026-04-01', 'due'],
+    ]);
+  });
+});
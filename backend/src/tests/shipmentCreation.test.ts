@@ -0,0 +1,138 @@
+import { supabase } from '../config/supabase';
+import { shopifyService, ShopifyOrder } from '../services/shopify';
+import { ShipmentRequestError, ShippingProvider, shippingProviders } from '../services/shipping/providers';
+import { shipmentCreationService } from '../services/shipping/shipmentCreationService';
+import { SupabaseFake } from './supabaseFake';
+
+jest.mock('../config/supabase', () => ({ supabase: new (jest.requireActual('./supabaseFake').SupabaseFake)() }));
+jest.mock('../services/shopify', () => ({
+  shopifyService: { getOrder: jest.fn(), updateOrderTags: jest.fn() },
+}));
+jest.mock('../jobs/queue', () => ({ queuesEnabled: false, shippingQueue: { add: jest.fn() } }));
+jest.mock('../services/orders/orderMirrorService', () => ({ orderMirrorService: { getOrders: jest.fn() } }));
+jest.mock('../services/orders/orderEventService', () => ({
+  runWithOrderEventContext: (_context: unknown, fn: () => unknown) => fn(),
+}));
+
+const db = supabase as unknown as SupabaseFake;
+const shopify = shopifyService as jest.Mocked<typeof shopifyService>;
+
+function order(tags: string[] = ['ready_to_ship', 'mylerz_city_id:1']): ShopifyOrder {
+  return {
+    id: 1120,
+    name: '#1120',
+    email: '',
+    phone: '',
+    total_price: '850.00',
+    financial_status: 'pending',
+    fulfillment_status: '',
+    tags,
+    created_at: '2026-03-01T10:00:00Z',
+    updated_at: '2026-03-01T10:00:00Z',
+    line_items: [],
+    customer: { id: 1, first_name: 'Mona', last_name: 'Adel', phone: '' },
+    shipping_address: {
+      phone: '01001234567',
+      address1: '12 Nile St',
+      address2: '',
+      city: 'Maadi',
+      province: 'Cairo',
+      zip: '',
+      country: 'Egypt',
+    },
+  } as ShopifyOrder;
+}
+
+describe('Shipment creation', () => {
+  const provider = {
+    id: 'mylerz',
+    name: 'Mylerz',
+    findShipment: jest.fn(),
+    createShipment: jest.fn(),
+  };
+
+  beforeEach(() => {
+    db.reset();
+    db.primaryKeys = { shipments: 'order_id', shipment_failures: 'order_id' };
+    jest.clearAllMocks();
+    jest.spyOn(shippingProviders, 'forOrder').mockReturnValue(provider as unknown as ShippingProvider);
+    shopify.getOrder.mockResolvedValue(order());
+    shopify.updateOrderTags.mockResolvedValue(undefined as never);
+    provider.findShipment.mockResolvedValue(null);
+    provider.createShipment.mockResolvedValue({ provider: 'mylerz', barcode: 'MZ1' });
+  });
+
+  it('should claim the order, book it and store the barcode tag', async () => {
+    await expect(shipmentCreationService.createForOrder(1120)).resolves.toEqual({ status: 'created', barcode: 'MZ1' });
+
+    expect(provider.findShipment).toHaveBeenCalledWith('1120');
+    expect(provider.createShipment).toHaveBeenCalledTimes(1);
+    expect(db.rows('shipments')).toEqual([expect.objectContaining({ order_id: 1120, state: 'booked', barcode: 'MZ1' })]);
+    expect(shopify.updateOrderTags).toHaveBeenCalledWith('1120', expect.arrayContaining(['shipping_barcode:MZ1']));
+  });
+
+  it('should reuse a package the carrier already has instead of booking again', async () => {
+    provider.findShipment.mockResolvedValue({ provider: 'mylerz', barcode: 'MZ9' });
+
+    await expect(shipmentCreationService.createForOrder(1120)).resolves.toEqual({ status: 'created', barcode: 'MZ9' });
+    expect(provider.createShipment).not.toHaveBeenCalled();
+    expect(shopify.updateOrderTags).toHaveBeenCalledWith('1120', expect.arrayContaining(['shipping_barcode:MZ9']));
+  });
+
+  it('should skip while another call holds a fresh claim, and take over a dead one', async () => {
+    db.rows('shipments').push({ order_id: 1120, state: 'booking', barcode: null, claimed_at: new Date().toISOString() });
+    await expect(shipmentCreationService.createForOrder(1120)).resolves.toEqual({
+      status: 'skipped',
+      reason: 'Shipment is already being booked',
+    });
+    expect(provider.createShipment).not.toHaveBeenCalled();
+
+    db.rows('shipments')[0].claimed_at = new Date(Date.now() - 10 * 60_000).toISOString();
+    await expect(shipmentCreationService.createForOrder(1120)).resolves.toEqual({ status: 'created', barcode: 'MZ1' });
+  });
+
+  it('should retry a failed tag write with the recorded barcode without booking again', async () => {
+    shopify.updateOrderTags.mockRejectedValueOnce(new Error('Shopify timeout'));
+
+    await expect(shipmentCreationService.createForOrder(1120, 1)).rejects.toThrow('Shopify timeout');
+    expect(db.rows('shipments')).toEqual([expect.objectContaining({ state: 'booked', barcode: 'MZ1' })]);
+
+    await expect(shipmentCreationService.createForOrder(1120, 2)).resolves.toEqual({ status: 'created', barcode: 'MZ1' });
+    expect(provider.findShipment).toHaveBeenCalledTimes(1);
+    expect(provider.createShipment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the claim on carrier errors so the next try can book', async () => {
+    provider.createShipment.mockRejectedValueOnce(new Error('Mylerz 503'));
+
+    await expect(shipmentCreationService.createForOrder(1120, 1)).rejects.toThrow('Mylerz 503');
+    expect(db.rows('shipments')).toEqual([]);
+
+    await expect(shipmentCreationService.createForOrder(1120, 2)).resolves.toEqual({ status: 'created', barcode: 'MZ1' });
+  });
+
+  it('should put orders the carrier rejects on the needs-attention list', async () => {
+    provider.createShipment.mockRejectedValueOnce(new ShipmentRequestError('Missing Mylerz neighborhood'));
+
+    await expect(shipmentCreationService.createForOrder(1120, 3)).resolves.toEqual({
+      status: 'needs_attention',
+      reason: 'Missing Mylerz neighborhood',
+    });
+    expect(db.rows('shipments')).toEqual([]);
+    expect(db.rows('shipment_failures')).toEqual([
+      expect.objectContaining({ order_id: 1120, order_name: '#1120', attempts: 3, permanent: true }),
+    ]);
+  });
+
+  it('should skip orders that already have a barcode and clear their failure', async () => {
+    shopify.getOrder.mockResolvedValue(order(['ready_to_ship', 'shipping_barcode:MZ7']));
+    db.rows('shipment_failures').push({ order_id: 1120, reason: 'old' });
+
+    await expect(shipmentCreationService.createForOrder(1120)).resolves.toEqual({
+      status: 'skipped',
+      reason: 'Order already has shipment MZ7',
+    });
+    expect(db.rows('shipment_failures')).toEqual([]);
+    expect(provider.findShipment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import { ShopifyOrder } from '../services/shopify';
+import { buildShipmentRequest, ShipmentRequestError, ShippingProviderRegistry } from '../services/shipping/providers';
+import { ManualShippingProvider } from '../services/shipping/providers/manualProvider';
+import { MylerzShippingProvider } from '../services/shipping/providers/mylerzProvider';
+import { ScooterShippingProvider } from '../services/shipping/providers/scooterProvider';
+import { ShippingService } from '../services/shipping/ShippingService';
+
+function order(overrides: Partial<ShopifyOrder> = {}): ShopifyOrder {
+  return {
+    id: 1120,
+    name: '#1120',
+    email: '',
+    phone: '',
+    total_price: '850.00',
+    financial_status: 'pending',
+    fulfillment_status: '',
+    tags: ['ready_to_ship'],
+    created_at: '2026-03-01T10:00:00Z',
+    updated_at: '2026-03-01T10:00:00Z',
+    payment_gateway_names: ['Cash on Delivery (COD)'],
+    note: null,
+    line_items: [],
+    customer: { id: 1, first_name: 'Mona', last_name: 'Adel', phone: '' },
+    shipping_address: {
+      phone: '01001234567',
+      address1: '12 Nile St',
+      address2: 'Apt 4',
+      city: 'Maadi',
+      province: 'Cairo',
+      zip: '',
+      country: 'Egypt',
+    },
+    ...overrides,
+  } as ShopifyOrder;
+}
+
+describe('Shipping providers', () => {
+  const mylerz = new MylerzShippingProvider({} as ShippingService);
+  const registry = (otherCompany = 'manual') =>
+    new ShippingProviderRegistry(
+      [mylerz, new ManualShippingProvider({ trackingUrl: 'https://track.example/{barcode}' }), new ScooterShippingProvider(40)],
+      otherCompany
+    );
+
+  it('should pick the provider from the shipping_method tag', () => {
+    const providers = registry();
+    expect(providers.forOrder(['ready_to_ship'])?.id).toBe('mylerz');
+    expect(providers.forOrder(['shipping_method:company'])?.id).toBe('mylerz');
+    expect(providers.forOrder(['shipping_method:other-company'])?.id).toBe('manual');
+    expect(providers.forOrder('ready_to_ship, shipping_method:scooter')?.id).toBe('scooter');
+    expect(providers.forOrder(['shipping_method:pickup'])).toBeNull();
+  });
+
+  it('should route other-company orders to a configured carrier', () => {
+    expect(registry('mylerz').forOrder(['shipping_method:other-company'])?.id).toBe('mylerz');
+    // Unknown ids fall back to manual rather than breaking shipping
+    expect(registry('aramex').forOrder(['shipping_method:other-company'])?.id).toBe('manual');
+    expect(() => registry().get('aramex')).toThrow('Unknown shipping provider');
+  });
+
+  it('should build a shipment request without COD for InstaPay-paid orders', () => {
+    const request = buildShipmentRequest(order());
+    expect(request).toMatchObject({
+      orderName: '#1120',
+      customerName: 'Mona Adel',
+      phone: '01001234567',
+      address: { street: '12 Nile St Apt 4', city: 'Maadi', province: 'Cairo', country: 'Egypt' },
+      codValue: 850,
+    });
+    expect(buildShipmentRequest(order({ tags: ['instapay', 'instapay_paid'] })).codValue).toBe(0);
+  });
+
+  it('should address Mylerz shipments by the area named in the mylerz_*_id tags', async () => {
+    const createOrder = jest.fn().mockResolvedValue({ PickupOrderCode: 'P1', Packages: [{ packageNo: 1, BarCode: 'MYL123', Status: 'New' }] });
+    const api = {
+      getAllLocations: jest.fn().mockResolvedValue({
+        IsErrorState: false,
+        ErrorDescription: null,
+        Value: [
+          {
+            Id: 1,
+            Name: 'القاهرة',
+            NameEn: 'Cairo',
+            Neighborhoods: [{ Id: 20, Name: 'المعادي', NameEn: 'Maadi', SubZones: [{ Id: 300, Name: 'دجلة', NameEn: 'Degla', IsActive: true }] }],
+          },
+        ],
+      }),
+      createOrder,
+    } as unknown as ShippingService;
+    const provider = new MylerzShippingProvider(api);
+
+    const tagged = buildShipmentRequest(
+      order({ tags: ['ready_to_ship', 'mylerz_city_id:1', 'mylerz_neighborhood_id:20', 'mylerz_subzone_id:300'] })
+    );
+    await expect(provider.createShipment(tagged)).resolves.toEqual({ provider: 'mylerz', barcode: 'MYL123', reference: 'P1' });
+    expect(createOrder.mock.calls[0][0]).toMatchObject({
+      Package_Serial: '1120',
+      Payment_Type: 'COD',
+      COD_Value: 850,
+      Customer_Name: 'Mona Adel',
+      Mobile_No: '01001234567',
+      Street: '12 Nile St Apt 4',
+      City: 'Cairo',
+      Neighborhood: 'Maadi',
+      District: 'Degla',
+    });
+
+    // Missing or stale area ids need a person, not a retry
+    await expect(provider.createShipment(buildShipmentRequest(order()))).rejects.toBeInstanceOf(ShipmentRequestError);
+    await expect(
+      provider.createShipment(buildShipmentRequest(order({ tags: ['mylerz_city_id:1', 'mylerz_neighborhood_id:99'] })))
+    ).rejects.toThrow('no longer exists');
+    expect(api.getAllLocations).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record manual shipments by tracking number and refuse labels', async () => {
+    const manual = registry().get('manual');
+    const request = buildShipmentRequest(order());
+
+    await expect(manual.createShipment(request)).rejects.toThrow('enter the tracking number');
+    await expect(manual.createShipment({ ...request, trackingNumber: ' EG123 ' })).resolves.toEqual({
+      provider: 'manual',
+      barcode: 'EG123',
+      reference: null,
+    });
+    expect((await manual.track('EG 123')).trackingUrl).toBe('https://track.example/EG%20123');
+    await expect(manual.getLabel('EG123', '1120')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(manual.quote({ codValue: 0, weightKg: 0.5 })).resolves.toBeNull();
+  });
+
+  it('should quote scooter deliveries at the flat fee', async () => {
+    await expect(registry().get('scooter').quote({ codValue: 850, weightKg: 0.5 })).resolves.toEqual({
+      provider: 'scooter',
+      fee: 40,
+      vat: 0,
+      total: 40,
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { ShopifyOrder } from '../services/shopify';
+import { ShippingService } from '../services/shipping/ShippingService';
+import { ShippingStatusChecker } from '../services/shipping/ShippingStatusChecker';
+import { deliveryAttemptService } from '../services/shipping/deliveryAttemptService';
+import { orderMirrorService } from '../services/orders/orderMirrorService';
+import { orderStatusService } from '../services/orders/orderStatusService';
+
+jest.mock('../services/shipping/ShippingService', () => {
+  const instance = { getPackagesList: jest.fn(), trackPackage: jest.fn() };
+  return { ShippingService: { getInstance: () => instance } };
+});
+jest.mock('../services/shopify', () => ({
+  ShopifyService: jest.fn().mockImplementation(() => ({ updateOrderTags: jest.fn() })),
+}));
+jest.mock('../services/orders/orderMirrorService', () => ({ orderMirrorService: { getOrders: jest.fn() } }));
+jest.mock('../services/orders/orderStatusService', () => ({ orderStatusService: { transition: jest.fn() } }));
+jest.mock('../services/shipping/providers', () => ({ shippingProviders: { forOrder: () => ({ id: 'mylerz' }) } }));
+jest.mock('../services/shipping/shipmentTrackingService', () => ({
+  shipmentTrackingService: {
+    getStatusRules: jest.fn(async () => jest.requireActual('../utils/carrierStatusMapping').DEFAULT_MYLERZ_STATUS_RULES),
+    getLatestEvents: jest.fn(async () => new Map()),
+    record: jest.fn(async () => true),
+  },
+}));
+jest.mock('../services/shipping/deliveryAttemptService', () => ({
+  deliveryAttemptService: { recordAttempt: jest.fn(async () => true) },
+}));
+
+const mylerz = ShippingService.getInstance() as unknown as { getPackagesList: jest.Mock; trackPackage: jest.Mock };
+const mirror = orderMirrorService as jest.Mocked<typeof orderMirrorService>;
+const statusService = orderStatusService as jest.Mocked<typeof orderStatusService>;
+const attempts = deliveryAttemptService as jest.Mocked<typeof deliveryAttemptService>;
+
+function shippedOrder(tags: string[]): ShopifyOrder {
+  return { id: 1120, name: '#1120', tags } as ShopifyOrder;
+}
+
+/** Mylerz package list with these rows in the first tab. */
+function packagesList(rows: Array<{ Barcode: string; PackageENStatus: string; AttemptsNumber?: number; LastUpdated?: string }>) {
+  mylerz.getPackagesList.mockImplementation(async (payload: { SelectedTab: number }) => ({
+    Value: { Result: payload.SelectedTab === 1 ? rows : [] },
+  }));
+}
+
+describe('Shipping status checker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mirror.getOrders.mockImplementation(async (options) =>
+      options?.withTags?.[0] === 'shipped' ? [shippedOrder(['shipped', 'shipping_barcode:MZ1'])] : []
+    );
+    statusService.transition.mockResolvedValue({ from: 'shipped', to: 'fulfilled' } as never);
+  });
+
+  it('should record a failed delivery attempt with the carrier count', async () => {
+    packagesList([{ Barcode: 'MZ1', PackageENStatus: 'Delivery failed', AttemptsNumber: 1 }]);
+
+    await ShippingStatusChecker.checkAndUpdateStatuses();
+
+    expect(attempts.recordAttempt).toHaveBeenCalledWith(expect.objectContaining({ id: 1120 }), 1, 'Delivery failed', 'MZ1');
+    expect(statusService.transition).not.toHaveBeenCalled();
+  });
+
+  it('should not treat the attempt count of a delivered package as a failed attempt', async () => {
+    packagesList([{ Barcode: 'MZ1', PackageENStatus: 'Delivered', AttemptsNumber: 2, LastUpdated: new Date().toISOString() }]);
+
+    await ShippingStatusChecker.checkAndUpdateStatuses();
+
+    expect(attempts.recordAttempt).not.toHaveBeenCalled();
+    expect(statusService.transition).toHaveBeenCalledWith(expect.objectContaining({ id: 1120 }), 'fulfilled', {
+      extraTags: [],
+    });
+  });
+
+  it('should fulfill parcels delivered long ago without Discord or the review WhatsApp', async () => {
+    packagesList([]);
+    const threeWeeksAgo = new Date(Date.now() - 21 * 24 * 60 * 60 * 1000).toISOString();
+    mylerz.trackPackage.mockResolvedValue({
+      IsErrorState: false,
+      Value: { PackageENStatus: 'Delivered', LastUpdated: threeWeeksAgo },
+    });
+
+    await ShippingStatusChecker.checkAndUpdateStatuses();
+
+    expect(mylerz.trackPackage).toHaveBeenCalledWith('MZ1');
+    expect(statusService.transition).toHaveBeenCalledWith(expect.objectContaining({ id: 1120 }), 'fulfilled', {
+      extraTags: [],
+      notify: false,
+      reviewRequest: false,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { supabase } from '../config/supabase';
+import { orderMirrorService } from '../services/orders/orderMirrorService';
+import { ShopifyWebhookService, verifyShopifyWebhookHmac } from '../services/shopifyWebhookService';
+import { SupabaseFake } from './supabaseFake';
+
+jest.mock('../config/supabase', () => ({ supabase: new (jest.requireActual('./supabaseFake').SupabaseFake)() }));
+jest.mock('../services/shopify', () => ({ shopifyService: { updateOrderTags: jest.fn(), getOrder: jest.fn() } }));
+jest.mock('../services/orderConfirmation.service', () => ({
+  OrderConfirmationService: { getInstance: () => ({ handleNewOrder: jest.fn() }) },
+}));
+jest.mock('../services/orders/orderMirrorService', () => ({
+  orderMirrorService: { upsertFromWebhook: jest.fn(), applyCustomerUpdate: jest.fn() },
+}));
+jest.mock('../services/orders/orderEventService', () => ({
+  runWithOrderEventContext: (_context: unknown, fn: () => unknown) => fn(),
+}));
+jest.mock('../services/orders/productionPlannerService', () => ({ productionPlannerService: {} }));
+
+const db = supabase as unknown as SupabaseFake;
+const mirror = orderMirrorService as jest.Mocked<typeof orderMirrorService>;
+
+const SECRET = 'test-webhook-secret';
+const delivery = { webhookId: 'wh-1', topic: 'orders/updated', payload: { id: 1120, tags: '' } };
+
+function sign(body: Buffer, secret = SECRET): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('base64');
+}
+
+describe('Shopify webhooks', () => {
+  describe('verifyShopifyWebhookHmac', () => {
+    const env = { ...process.env };
+    const body = Buffer.from('{"id":1120}');
+
+    beforeEach(() => {
+      process.env.SHOPIFY_WEBHOOK_SECRET = SECRET;
+    });
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should accept the signature of the exact raw body', () => {
+      expect(verifyShopifyWebhookHmac(body, sign(body))).toBe(true);
+    });
+
+    it('should reject a changed body, another secret, or a missing or malformed header', () => {
+      expect(verifyShopifyWebhookHmac(Buffer.from('{"id": 1120}'), sign(body))).toBe(false);
+      expect(verifyShopifyWebhookHmac(body, sign(body, 'other-secret'))).toBe(false);
+      expect(verifyShopifyWebhookHmac(body, undefined)).toBe(false);
+      expect(verifyShopifyWebhookHmac(body, 'not-a-signature')).toBe(false);
+    });
+
+    it('should reject everything when no secret is configured', () => {
+      delete process.env.SHOPIFY_WEBHOOK_SECRET;
+      delete process.env.SHOPIFY_API_SECRET;
+      expect(verifyShopifyWebhookHmac(body, sign(body, ''))).toBe(false);
+    });
+  });
+
+  describe('delivery dedupe', () => {
+    let service: ShopifyWebhookService;
+
+    beforeEach(() => {
+      db.reset();
+      db.primaryKeys = { shopify_webhook_deliveries: 'webhook_id' };
+      jest.clearAllMocks();
+      mirror.upsertFromWebhook.mockResolvedValue(undefined as never);
+      service = new ShopifyWebhookService();
+    });
+
+    function deliveryRow() {
+      return db.rows('shopify_webhook_deliveries')[0];
+    }
+
+    it('should process a delivery once and skip re-deliveries', async () => {
+      await expect(service.process(delivery)).resolves.toEqual({ status: 'processed' });
+      expect(deliveryRow()).toMatchObject({ webhook_id: 'wh-1', status: 'processed' });
+
+      await expect(service.process(delivery)).resolves.toEqual({ status: 'duplicate' });
+      // Another instance (restart) finds it in the table
+      await expect(new ShopifyWebhookService().process(delivery)).resolves.toEqual({ status: 'duplicate' });
+      expect(mirror.upsertFromWebhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer a retry that arrives mid-processing as in progress, not as a duplicate', async () => {
+      let finish: () => void = () => undefined;
+      mirror.upsertFromWebhook.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)) as never);
+
+      const first = service.process(delivery);
+      await new Promise((resolve) => setImmediate(resolve));
+      await expect(service.process(delivery)).resolves.toEqual({ status: 'in_progress' });
+      await expect(new ShopifyWebhookService().process(delivery)).resolves.toEqual({ status: 'in_progress' });
+
+      finish();
+      await expect(first).resolves.toEqual({ status: 'processed' });
+    });
+
+    it('should let the retry claim a delivery whose handler failed', async () => {
+      mirror.upsertFromWebhook.mockRejectedValueOnce(new Error('mirror down'));
+
+      await expect(service.process(delivery)).resolves.toEqual({ status: 'failed', error: 'mirror down' });
+      expect(deliveryRow()).toMatchObject({ status: 'failed', error: 'mirror down' });
+
+      await expect(service.process(delivery)).resolves.toEqual({ status: 'processed' });
+      expect(deliveryRow()).toMatchObject({ status: 'processed', error: null });
+    });
+
+    it('should take over a delivery left processing by an attempt that died', async () => {
+      db.seed('shopify_webhook_deliveries', [
+        {
+          webhook_id: 'wh-1',
+          topic: 'orders/updated',
+          status: 'processing',
+          claimed_at: new Date(Date.now() - 10 * 60_000).toISOString(),
+        },
+      ]);
+
+      await expect(service.process(delivery)).resolves.toEqual({ status: 'processed' });
+      expect(mirror.upsertFromWebhook).toHaveBeenCalledTimes(1);
+      expect(deliveryRow()).toMatchObject({ status: 'processed' });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * In-memory stand-in for the Supabase client, for service tests that
+ * `jest.mock('../config/supabase')`. Supports the query builder calls the
+ * services use (select / insert / update / upsert / delete, eq / in / is / gte / lte,
+ * single / maybeSingle, select counts) plus rpc handlers registered by the test.
+ */
+
+type Row = Record<string, unknown>;
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface FakeError {
+  code?: string;
+  message: string;
+}
+
+export interface FakeResult {
+  data: unknown;
+  error: FakeError | null;
+  count?: number;
+}
+
+export class SupabaseFake {
+  tables: Record<string, Row[]> = {};
+  /** Column that must be unique per table (inserts report 23505, upserts replace). */
+  primaryKeys: Record<string, string> = {};
+  rpcs: Record<string, (args: Row) => FakeResult> = {};
+
+  reset(): void {
+    this.tables = {};
+    this.primaryKeys = {};
+    this.rpcs = {};
+  }
+
+  /** Replace a table's rows (copies, so tests can keep their fixtures). */
+  seed(table: string, rows: object[]): void {
+    this.tables[table] = rows.map((row) => ({ ...row }) as Row);
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  rpc(name: string, args: Row) {
+    const run = (): FakeResult =>
+      this.rpcs[name] ? this.rpcs[name](args) : { data: null, error: { code: 'PGRST202', message: `${name} not found` } };
+    return {
+      single: () => Promise.resolve(run()),
+      then: <T>(resolve: (result: FakeResult) => T, reject?: (error: unknown) => T) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+  }
+}
+
+class FakeQuery {
+  private operation: Operation | null = null;
+  private payload: Row[] = [];
+  private conflictColumn: string | undefined;
+  private returning = false;
+  private counting: { head: boolean } | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private readonly filters: Array<(row: Row) => boolean> = [];
+
+  constructor(
+    private readonly db: SupabaseFake,
+    private readonly table: string
+  ) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}): this {
+    if (this.operation) this.returning = true;
+    else this.operation = 'select';
+    if (options.count) this.counting = { head: options.head === true };
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.conflictColumn = options.onConflict;
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.operation = 'update';
+    this.payload = [patch];
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  gte(column: string, value: string | number): this {
+    this.filters.push((row) => (row[column] as string | number) >= value);
+    return this;
+  }
+
+  lte(column: string, value: string | number): this {
+    this.filters.push((row) => (row[column] as string | number) <= value);
+    return this;
+  }
+
+  order(): this {
+    return this;
+  }
+
+  limit(): this {
+    return this;
+  }
+
+  single(): Promise<FakeResult> {
+    this.mode = 'single';
+    return Promise.resolve(this.execute());
+  }
+
+  maybeSingle(): Promise<FakeResult> {
+    this.mode = 'maybeSingle';
+    return Promise.resolve(this.execute());
+  }
+
+  then<T>(resolve: (result: FakeResult) => T, reject?: (error: unknown) => T): Promise<T> {
+    return Promise.resolve(this.execute()).then(resolve, reject);
+  }
+
+  private execute(): FakeResult {
+    const operation = this.operation ?? 'select';
+
+    const rows = this.db.rows(this.table);
+    const matches = (row: Row) => this.filters.every((filter) => filter(row));
+    const key = this.conflictColumn ?? this.db.primaryKeys[this.table];
+    let affected: Row[];
+
+    switch (operation) {
+      case 'select':
+        affected = rows.filter(matches);
+        break;
+      case 'insert':
+        if (key && this.payload.some((row) => rows.some((existing) => existing[key] === row[key]))) {
+          return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${key}` } };
+        }
+        affected = this.payload.map((row) => ({ ...row }));
+        rows.push(...affected);
+        break;
+      case 'upsert':
+        affected = this.payload.map((row) => {
+          const existing = key ? rows.find((candidate) => candidate[key] === row[key]) : undefined;
+          if (existing) return Object.assign(existing, row);
+          rows.push({ ...row });
+          return rows[rows.length - 1];
+        });
+        break;
+      case 'update':
+        affected = rows.filter(matches).map((row) => Object.assign(row, this.payload[0]));
+        break;
+      case 'delete':
+        affected = rows.filter(matches);
+        this.db.tables[this.table] = rows.filter((row) => !matches(row));
+        break;
+    }
+
+    if (operation !== 'select' && !this.returning) return { data: null, error: null };
+    const data = affected.map((row) => ({ ...row }));
+    if (this.mode === 'single') {
+      return data.length === 1
+        ? { data: data[0], error: null }
+        : { data: null, error: { code: 'PGRST116', message: `expected 1 row, got ${data.length}` } };
+    }
+    if (this.mode === 'maybeSingle') return { data: data[0] ?? null, error: null };
+    if (this.counting) return { data: this.counting.head ? null : data, error: null, count: data.length };
+    return { data, error: null };
+  }
+}
@@ -7,7 +7,8 @@ export type ExpenseCategory =
   | 'Shipping & Delivery'
   | 'Miscellaneous';
 
-export type Partner = 'Mohamed' | 'Mariam';
+// Legacy /api/finance shapes. Partners are rows in the partners table (see types/financial.ts).
+export type Partner = string;
 export type PaymentSource = Partner | 'Both' | 'Business';
 
 export interface Order {
@@ -35,7 +36,7 @@ export interface Expense {
   settledAt?: Date;
   settledMohamed?: boolean;
   settledMariam?: boolean;
-  splitPayment?: { mohamed: number; mariam: number };
+  splitPayment?: Record<string, number>; // Lower-case partner name → amount paid
 }
 
 export interface Settlement {
@@ -17,9 +17,16 @@ export type FinancialExpenseCategory =
 
 export type ExpenseType = "production" | "operating";
 
+// Who paid an expense: 'Business', 'Shared' (all partners, split by ownership)
+// or a partner's name. Partners are rows in the partners table.
+export type ExpensePartner = string;
+export type ExpensePaidBy = string;
+
 export type ShippingType = "Company" | "Uber";
 export type ShippingStatus = "Delivered" | "Cancelled";
 export type OwnerPayType = "fixed" | "percent";
+export type PayoutBasis = "dpp" | "cash_dpp";
+export type PayoutStatus = "draft" | "approved";
 
 // Product Cost Configuration
 export interface ProductCost {
@@ -32,6 +39,7 @@ export interface ProductCost {
   laser_felt_cost_per_unit: number; // EGP
   packaging_per_unit: number; // EGP (cards + zipper only)
   total_unit_cost: number; // Calculated: sum of above
+  effective_from: string; // YYYY-MM-DD: this version applies to orders paid on or after it
   updated_at: string; // ISO date
   created_at: string; // ISO date
 }
@@ -44,6 +52,7 @@ export interface ProductCostInput {
   helper_colors_cost_per_unit: number;
   laser_felt_cost_per_unit: number;
   packaging_per_unit: number;
+  effective_from?: string; // Defaults to today
 }
 
 // Financial Expense (unified - includes both production costs and operating expenses)
@@ -59,6 +68,13 @@ export interface FinancialExpense {
   product_name?: string; // Only for production expenses
   quantity?: number; // Only for production expenses
   unit_cost?: number; // Only for production expenses
+  paid_by: ExpensePaidBy;
+  split_payment?: Record<ExpensePartner, number> | null; // Amount per partner when paid_by is 'Shared'
+  settled: boolean; // Partners paid back in full
+  settled_at?: string | null;
+  settled_partners: ExpensePartner[]; // Partners already paid back for a 'Shared' expense
+  legacy_expense_id?: string | null; // Row migrated from the legacy expenses table
+  recurring_expense_id?: string | null; // Posted by this recurring expense template
   created_at: string;
   updated_at: string;
 }
@@ -73,6 +89,240 @@ export interface FinancialExpenseInput {
   product_name?: string;
   quantity?: number;
   unit_cost?: number;
+  paid_by?: ExpensePaidBy; // Defaults to 'Business'
+  split_payment?: Record<ExpensePartner, number> | null; // Defaults to the ownership split
+  recurring_expense_id?: string | null;
+}
+
+export interface FinancialExpenseFilters {
+  month?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  category?: FinancialExpenseCategory;
+  expense_type?: ExpenseType;
+  paid_by?: ExpensePaidBy;
+  partner_paid?: boolean; // paid by a partner or shared, i.e. not the business
+  settled?: boolean;
+}
+
+export type RecurringExpenseCadence = "monthly" | "quarterly" | "yearly";
+
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  category: FinancialExpenseCategory;
+  amount: number;
+  expense_type: ExpenseType;
+  paid_by: ExpensePaidBy;
+  cadence: RecurringExpenseCadence;
+  day_of_month: number; // 1–31, clamped to the last day of shorter months
+  start_date: string; // YYYY-MM-DD — first occurrence on or after it
+  end_date?: string | null; // YYYY-MM-DD — no occurrences after it
+  notes?: string | null;
+  active: boolean;
+  backfill: boolean; // Also post occurrences that fell due before the template was created
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringExpenseInput {
+  name: string;
+  category: FinancialExpenseCategory;
+  amount: number;
+  expense_type?: ExpenseType; // Defaults to 'operating'
+  paid_by?: ExpensePaidBy; // Defaults to 'Business'
+  cadence?: RecurringExpenseCadence; // Defaults to 'monthly'
+  day_of_month: number;
+  start_date: string;
+  end_date?: string | null;
+  notes?: string | null;
+  active?: boolean;
+  backfill?: boolean; // Defaults to false
+}
+
+// pending: adjusted ahead of time; skipped: will not post; posted: expense created
+export type RecurringOccurrenceStatus = "pending" | "skipped" | "posted";
+
+export interface RecurringExpenseOccurrence {
+  id: string;
+  recurring_expense_id: string;
+  occurrence_date: string; // YYYY-MM-DD — the scheduled date
+  status: RecurringOccurrenceStatus;
+  amount?: number | null; // Overrides the template amount
+  notes?: string | null; // Overrides the template notes
+  expense_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringOccurrencePreview {
+  recurring_expense_id: string;
+  name: string;
+  category: FinancialExpenseCategory;
+  date: string;
+  amount: number;
+  status: "scheduled" | "adjusted" | "skipped" | "posted" | "due";
+  expense_id?: string | null;
+}
+
+export interface RecurringMaterializeResult {
+  posted: number;
+  skipped: number;
+  blocked: { recurring_expense_id: string; date: string; reason: string }[];
+}
+
+export type AdPlatform = "meta";
+
+export interface AdSpendRow {
+  id: string;
+  platform: AdPlatform;
+  campaign_id?: string | null;
+  campaign_name: string;
+  ad_set_name: string; // '' when the export has no ad set breakdown
+  date: string; // YYYY-MM-DD
+  spend: number;
+  results: number;
+  result_type?: string | null; // Meta "Result indicator", e.g. actions:offsite_conversion.fb_pixel_purchase
+  import_id?: string | null;
+  created_at: string;
+}
+
+export type AdSpendRowInput = Omit<AdSpendRow, "id" | "platform" | "import_id" | "created_at">;
+
+export interface AdSpendImport {
+  id: string;
+  platform: AdPlatform;
+  filename: string;
+  row_count: number;
+  date_from: string | null;
+  date_to: string | null;
+  total_spend: number;
+  imported_by?: string | null;
+  created_at: string;
+}
+
+export interface AdSpendImportResult {
+  import: AdSpendImport;
+  imported: number;
+  errors: { row: number; reason: string }[];
+}
+
+/** A discount code handed out by one campaign; orders using it are attributed to it. */
+export interface AdDiscountCode {
+  code: string;
+  campaign_name: string;
+  created_at: string;
+}
+
+export interface CampaignPerformance {
+  campaign: string | null; // null: orders not attributed to any campaign
+  month: string; // YYYY-MM
+  spend: number;
+  results: number; // As reported by Meta
+  orders: number; // Attributed orders, cancelled excluded
+  confirmed_orders: number;
+  paid_orders: number;
+  revenue: number; // Attributed orders, cancelled excluded
+  paid_revenue: number;
+  roas: number | null; // revenue / spend
+  paid_roas: number | null; // paid_revenue / spend
+  cost_per_confirmed_order: number | null;
+  cost_per_paid_order: number | null;
+}
+
+export interface AdPerformanceReport {
+  from: string; // YYYY-MM
+  to: string; // YYYY-MM
+  campaigns: CampaignPerformance[];
+  totals: CampaignPerformance[]; // One per month across all orders and spend (campaign 'All')
+}
+
+export interface Partner {
+  id: string;
+  name: string;
+  ownership_percent: number; // Share of profit and of shared expenses
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PartnerInput {
+  name: string;
+  ownership_percent: number;
+  active?: boolean;
+}
+
+// reimbursement: business paid the partner back; draw: partner took money out;
+// contribution: partner put money in; transfer: partner paid counterparty directly
+export type PartnerSettlementKind = "reimbursement" | "draw" | "contribution" | "transfer";
+
+export interface PartnerSettlement {
+  id: string;
+  partner: ExpensePartner;
+  kind: PartnerSettlementKind;
+  counterparty?: ExpensePartner | null; // Receiving partner of a transfer
+  amount: number;
+  date: string; // YYYY-MM-DD
+  expense_ids: string[];
+  note?: string | null;
+  legacy_settlement_id?: string | null;
+  created_at: string;
+}
+
+export interface PartnerSettlementInput {
+  partner: ExpensePartner;
+  kind?: PartnerSettlementKind; // Defaults to 'reimbursement'
+  counterparty?: ExpensePartner;
+  amount: number;
+  date: string;
+  expense_ids?: string[];
+  note?: string;
+}
+
+export interface PartnerBalanceSummary {
+  partner: ExpensePartner;
+  owed_amount: number; // Unsettled expenses the business owes back
+  settled_amount: number; // Total of reimbursements paid
+  last_settlement: string | null;
+}
+
+export interface PartnerLedgerEntry {
+  date: string; // YYYY-MM-DD
+  kind: "expense" | PartnerSettlementKind;
+  description: string;
+  amount: number; // + fronted / put in, − taken out
+  balance: number; // Running balance after this entry
+  expense_id?: string;
+  settlement_id?: string;
+}
+
+export interface PartnerLedger {
+  partner: ExpensePartner;
+  fronted: number;
+  taken_out: number;
+  balance: number;
+  entries: PartnerLedgerEntry[];
+}
+
+export interface PartnerPosition {
+  partner: ExpensePartner;
+  ownership_percent: number;
+  balance: number;
+  target: number; // Their ownership share of the partners' combined balance
+  difference: number; // balance − target; negative means they owe the others
+}
+
+export interface SettlementSuggestion {
+  from: ExpensePartner;
+  to: ExpensePartner;
+  amount: number;
+}
+
+export interface PartnerBalancesReport {
+  total_balance: number;
+  ownership_total: number; // Should be 100
+  positions: PartnerPosition[];
+  suggestions: SettlementSuggestion[];
 }
 
 // Shipping Ledger
@@ -143,18 +393,23 @@ export interface MonthlyProfit {
   updated_at: string;
 }
 
-// Payout Configuration
+// Payout Configuration (one version per effective month)
 export interface PayoutConfig {
   id: string;
+  effective_from: string; // YYYY-MM — applies to this month and later until the next version
+  basis: PayoutBasis; // Which MonthlyProfit figure is the pool
   media_buyer_percent: number; // Default: 3
   ops_percent: number; // Default: 10
   crm_percent: number; // Default: 7.5
   owner_pay_type: OwnerPayType;
   owner_pay_value: number; // Fixed amount or percentage
+  created_by: string | null;
   updated_at: string;
 }
 
 export interface PayoutConfigInput {
+  effective_from?: string; // Default: current month
+  basis?: PayoutBasis; // Default: dpp
   media_buyer_percent: number;
   ops_percent: number;
   crm_percent: number;
@@ -166,26 +421,69 @@ export interface PayoutConfigInput {
 export interface MonthlyPayout {
   id: string;
   month: string; // YYYY-MM
+  basis: PayoutBasis;
+  config_id: string | null; // Config version the amounts were calculated with
+  media_buyer_percent: number;
+  ops_percent: number;
+  crm_percent: number;
+  owner_pay_type: OwnerPayType;
+  owner_pay_value: number;
   dpp: number; // Distributable Profit Pool (before payouts)
   media_buyer_amount: number; // Payout FROM DPP (not an expense)
   ops_amount: number; // Payout FROM DPP (not an expense)
   crm_amount: number; // Payout FROM DPP (not an expense)
   owner_amount: number; // Owner payout FROM DPP
   net_business_profit: number; // Final profit for owner = DPP - All Payouts
+  status: PayoutStatus; // approved = locked
+  approved_by: string | null;
+  approved_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
 // Dashboard Data Types
-export interface ProductMarginData {
+export interface ProductMarginTrend {
+  previous_units_sold: number;
+  previous_average_selling_price: number;
+  previous_margin_percent: number | null;
+  units_sold_change_percent: number;
+  average_selling_price_change_percent: number;
+  margin_percent_change: number | null; // Percentage points
+}
+
+export interface ProductMarginMetrics {
+  units_sold: number;
+  total_revenue: number; // Net of discounts
+  average_selling_price: number; // Net of discounts
+  total_cost: number; // Costed units only
+  cost_per_unit: number | null; // Null when no unit had a cost version
+  margin_percent: number | null; // Over costed units
+  gross_profit: number | null;
+  revenue_share: number; // % of the period's product revenue
+  uncosted_units: number;
+  trend: ProductMarginTrend | null; // Null when nothing sold in the previous period
+}
+
+export interface ProductVariantMarginData extends ProductMarginMetrics {
+  variant_id: string; // '' when the line item has no variant
+  variant_title: string;
+}
+
+export interface ProductMarginData extends ProductMarginMetrics {
   product_id: string;
   product_name: string;
-  cost_per_unit: number;
-  average_selling_price: number;
-  margin_percent: number;
-  units_sold: number;
+  variants: ProductVariantMarginData[];
+}
+
+export interface ProductMarginsReport {
+  from: string; // YYYY-MM
+  to: string; // YYYY-MM
+  previous_from: string;
+  previous_to: string;
   total_revenue: number;
-  total_cost: number;
+  total_units: number;
+  uncosted_units: number;
+  products: ProductMarginData[];
 }
 
 export interface ShippingPerformanceData {
@@ -0,0 +1,159 @@
+/**
+ * Attributing Shopify orders to ad campaigns and rolling spend and orders up
+ * into ROAS and cost per order by campaign and month.
+ *
+ * An order belongs to a campaign when it used a discount code mapped to that
+ * campaign, otherwise when its landing page's utm_campaign names the campaign
+ * (by name or Meta campaign id). Meta-sourced UTMs that match no imported
+ * campaign keep their utm_campaign so naming mismatches stay visible.
+ */
+import { AdSpendRow, CampaignPerformance } from '../types/financial';
+
+const META_SOURCES = ['facebook', 'fb', 'instagram', 'ig', 'meta', 'an', 'msg'];
+
+export interface AttributableCampaign {
+  campaign_name: string;
+  campaign_id?: string | null;
+}
+
+export interface AttributedOrder {
+  month: string; // YYYY-MM the order was placed
+  campaign: string | null;
+  revenue: number;
+  confirmed: boolean;
+  paid: boolean;
+}
+
+/** Query parameters of a landing page (`/products/x?utm_campaign=…` or a full URL), keys lower-cased. */
+export function landingSiteParams(landingSite: string | null | undefined): Record<string, string> {
+  if (!landingSite) return {};
+  const query = landingSite.includes('?') ? landingSite.substring(landingSite.indexOf('?') + 1) : '';
+  const params: Record<string, string> = {};
+  try {
+    new URLSearchParams(query.split('#')[0]).forEach((value, key) => {
+      params[key.toLowerCase()] = value.trim();
+    });
+  } catch {
+    return {};
+  }
+  return params;
+}
+
+/** Campaign an order came from, and how it was matched. */
+export function attributeOrder(
+  order: { landing_site?: string | null; discount_codes?: string[] },
+  campaigns: AttributableCampaign[],
+  discountCodes: Record<string, string>
+): { campaign: string | null; via: 'discount_code' | 'utm' | null } {
+  for (const code of order.discount_codes ?? []) {
+    const campaign = discountCodes[code.trim().toLowerCase()];
+    if (campaign) return { campaign, via: 'discount_code' };
+  }
+
+  const params = landingSiteParams(order.landing_site);
+  const utmCampaign = params.utm_campaign?.toLowerCase();
+  if (!utmCampaign) return { campaign: null, via: null };
+
+  const match = campaigns.find(
+    (c) => c.campaign_name.toLowerCase() === utmCampaign || (c.campaign_id && c.campaign_id === params.utm_campaign)
+  );
+  if (match) return { campaign: match.campaign_name, via: 'utm' };
+  if (META_SOURCES.includes(params.utm_source?.toLowerCase() ?? '')) {
+    return { campaign: params.utm_campaign, via: 'utm' };
+  }
+  return { campaign: null, via: null };
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ratio(numerator: number, denominator: number, places = 2): number | null {
+  if (denominator <= 0) return null;
+  const factor = 10 ** places;
+  return Math.round((numerator / denominator) * factor) / factor;
+}
+
+function emptyPerformance(campaign: string | null, month: string): CampaignPerformance {
+  return {
+    campaign,
+    month,
+    spend: 0,
+    results: 0,
+    orders: 0,
+    confirmed_orders: 0,
+    paid_orders: 0,
+    revenue: 0,
+    paid_revenue: 0,
+    roas: null,
+    paid_roas: null,
+    cost_per_confirmed_order: null,
+    cost_per_paid_order: null,
+  };
+}
+
+function withRatios(row: CampaignPerformance): CampaignPerformance {
+  const spend = roundMoney(row.spend);
+  return {
+    ...row,
+    spend,
+    revenue: roundMoney(row.revenue),
+    paid_revenue: roundMoney(row.paid_revenue),
+    roas: ratio(row.revenue, spend),
+    paid_roas: ratio(row.paid_revenue, spend),
+    cost_per_confirmed_order: row.confirmed_orders > 0 && spend > 0 ? roundMoney(spend / row.confirmed_orders) : null,
+    cost_per_paid_order: row.paid_orders > 0 && spend > 0 ? roundMoney(spend / row.paid_orders) : null,
+  };
+}
+
+/**
+ * Spend and attributed orders per campaign and month, biggest spend first
+ * within each month, plus a per-month total over all spend and all orders.
+ */
+export function summarizeAdPerformance(
+  spend: Pick<AdSpendRow, 'campaign_name' | 'date' | 'spend' | 'results'>[],
+  orders: AttributedOrder[]
+): { campaigns: CampaignPerformance[]; totals: CampaignPerformance[] } {
+  const rows = new Map<string, CampaignPerformance>();
+  const totals = new Map<string, CampaignPerformance>();
+  const rowFor = (campaign: string | null, month: string) => {
+    const key = `${month}\u0000${campaign ?? ''}`;
+    if (!rows.has(key)) rows.set(key, emptyPerformance(campaign, month));
+    return rows.get(key) as CampaignPerformance;
+  };
+  const totalFor = (month: string) => {
+    if (!totals.has(month)) totals.set(month, emptyPerformance('All', month));
+    return totals.get(month) as CampaignPerformance;
+  };
+
+  for (const row of spend) {
+    const month = row.date.substring(0, 7);
+    for (const target of [rowFor(row.campaign_name, month), totalFor(month)]) {
+      target.spend += Number(row.spend) || 0;
+      target.results += Number(row.results) || 0;
+    }
+  }
+
+  for (const order of orders) {
+    for (const target of [rowFor(order.campaign, order.month), totalFor(order.month)]) {
+      target.orders += 1;
+      target.revenue += order.revenue;
+      if (order.confirmed) target.confirmed_orders += 1;
+      if (order.paid) {
+        target.paid_orders += 1;
+        target.paid_revenue += order.revenue;
+      }
+    }
+  }
+
+  const byMonthThenSpend = (a: CampaignPerformance, b: CampaignPerformance) =>
+    b.month.localeCompare(a.month) ||
+    Number(a.campaign === null) - Number(b.campaign === null) ||
+    b.spend - a.spend ||
+    b.revenue - a.revenue;
+
+  return {
+    campaigns: [...rows.values()].map(withRatios).sort(byMonthThenSpend),
+    totals: [...totals.values()].map(withRatios).sort((a, b) => b.month.localeCompare(a.month)),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Carrier package status → order workflow action.
+ *
+ * The shipping status checker reads each shipped package's carrier status (Mylerz
+ * PackageENStatus) and applies the mapped action. Rules live in carrier_status_mappings;
+ * the `*` rule catches statuses nobody has mapped yet.
+ *
+ *   shipped        ready_to_ship → shipped (the carrier has the package)
+ *   fulfilled      ready_to_ship / shipped → fulfilled (delivered)
+ *   returned       ready_to_ship / shipped → cancelled, cancellation_reason:returned
+ *   failed_attempt recorded only; the order stays shipped
+ *   none           recorded only
+ */
+
+import { OrderWorkflowStatus } from './orderWorkflowState';
+
+export type CarrierStatusAction = 'shipped' | 'fulfilled' | 'returned' | 'failed_attempt' | 'none';
+
+export const CARRIER_STATUS_ACTIONS: CarrierStatusAction[] = ['shipped', 'fulfilled', 'returned', 'failed_attempt', 'none'];
+
+/** Rule status matching any carrier status without its own rule. */
+export const UNMAPPED_CARRIER_STATUS = '*';
+
+export const RETURNED_CANCELLATION_REASON = 'returned';
+
+export interface CarrierStatusRule {
+  status: string;
+  action: CarrierStatusAction;
+}
+
+/**
+ * Mylerz statuses seen on our packages. Anything else counts as picked up, which is
+ * what the checker did before the mapping existed.
+ */
+export const DEFAULT_MYLERZ_STATUS_RULES: CarrierStatusRule[] = [
+  { status: 'Pending pickup', action: 'none' },
+  { status: 'Waiting for pickup', action: 'none' },
+  { status: 'Picked up', action: 'shipped' },
+  { status: 'In transit', action: 'shipped' },
+  { status: 'Out for delivery', action: 'shipped' },
+  { status: 'Delivered', action: 'fulfilled' },
+  { status: 'Delivery failed', action: 'failed_attempt' },
+  { status: 'Failed delivery attempt', action: 'failed_attempt' },
+  { status: 'Rescheduled', action: 'failed_attempt' },
+  { status: 'Returned', action: 'returned' },
+  { status: 'Return to merchant', action: 'returned' },
+  { status: 'Confirmed received by merchant', action: 'returned' },
+  { status: UNMAPPED_CARRIER_STATUS, action: 'shipped' },
+];
+
+export interface CarrierStatusTransition {
+  to: OrderWorkflowStatus;
+  extraTags: string[];
+}
+
+const normalizeStatus = (status: string) => status.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function isCarrierStatusAction(value: unknown): value is CarrierStatusAction {
+  return CARRIER_STATUS_ACTIONS.includes(value as CarrierStatusAction);
+}
+
+/** Action for a carrier status: exact rule (case/space-insensitive), then `*`, then none. */
+export function resolveCarrierStatusAction(status: string, rules: CarrierStatusRule[]): CarrierStatusAction {
+  const key = normalizeStatus(status);
+  const rule =
+    rules.find((r) => r.status !== UNMAPPED_CARRIER_STATUS && normalizeStatus(r.status) === key) ??
+    rules.find((r) => r.status === UNMAPPED_CARRIER_STATUS);
+  return rule?.action ?? 'none';
+}
+
+/**
+ * Status move for an order currently at `current`, or null when the action does not
+ * move it (already there, further along, or not shipped through the carrier).
+ */
+export function planCarrierStatusTransition(
+  current: OrderWorkflowStatus,
+  action: CarrierStatusAction
+): CarrierStatusTransition | null {
+  const inTransit = current === 'ready_to_ship' || current === 'shipped';
+
+  switch (action) {
+    case 'shipped':
+      return current === 'ready_to_ship' ? { to: 'shipped', extraTags: [] } : null;
+    case 'fulfilled':
+      return inTransit ? { to: 'fulfilled', extraTags: [] } : null;
+    case 'returned':
+      return inTransit
+        ? { to: 'cancelled', extraTags: [`cancellation_reason:${RETURNED_CANCELLATION_REASON}`] }
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Storefront delivery estimate: where a new order for one variant would land in
+ * the production plan today, plus shipping days.
+ */
+import type { ShopifyOrder } from '../services/shopify';
+import { addDays, getOrderMakingDays, planProduction, ProductionPlannerSettings } from './productionPlanner';
+
+export interface DeliveryEstimateItem {
+  variantId: number;
+  /** Product title / variant title of the variant (from past orders); null when unknown. */
+  title: string | null;
+  variantTitle: string | null;
+  quantity: number;
+  /** Priority Making */
+  rush: boolean;
+}
+
+export interface DeliveryEstimate {
+  variant_id: string;
+  quantity: number;
+  rush: boolean;
+  backlog: { orders: number; hours: number };
+  making_days: number;
+  /** YYYY-MM-DD (Cairo) */
+  ready_by: string | null;
+  delivery_by: string | null;
+  days_until_delivery: number | null;
+  generated_at: string;
+}
+
+/** JSON schema of GET /api/public/delivery-estimate (served at …/delivery-estimate/schema). */
+export const DELIVERY_ESTIMATE_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'delivery-estimate',
+  title: 'Delivery estimate',
+  type: 'object',
+  required: [
+    'variant_id',
+    'quantity',
+    'rush',
+    'backlog',
+    'making_days',
+    'ready_by',
+    'delivery_by',
+    'days_until_delivery',
+    'generated_at',
+  ],
+  additionalProperties: false,
+  properties: {
+    variant_id: { type: 'string', pattern: '^[0-9]+$' },
+    quantity: { type: 'integer', minimum: 1 },
+    rush: { type: 'boolean', description: 'Estimate with Priority Making' },
+    backlog: {
+      type: 'object',
+      required: ['orders', 'hours'],
+      additionalProperties: false,
+      properties: {
+        orders: { type: 'integer', minimum: 0, description: 'Orders waiting to be made' },
+        hours: { type: 'number', minimum: 0, description: 'Maker hours they need' },
+      },
+    },
+    making_days: { type: 'integer', minimum: 0 },
+    ready_by: { type: ['string', 'null'], format: 'date' },
+    delivery_by: { type: ['string', 'null'], format: 'date', description: 'Null when no capacity is left within a year' },
+    days_until_delivery: { type: ['integer', 'null'], minimum: 0 },
+    generated_at: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+/** Order id used for the hypothetical new order in the plan. */
+const ESTIMATE_ORDER_ID = -1;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Plan `backlog` plus one new order for `item` starting `today` (YYYY-MM-DD, Cairo). */
+export function estimateDelivery(
+  backlog: ShopifyOrder[],
+  item: DeliveryEstimateItem,
+  settings: ProductionPlannerSettings,
+  today: string,
+  now: Date = new Date()
+): DeliveryEstimate {
+  const newOrder: ShopifyOrder = {
+    id: ESTIMATE_ORDER_ID,
+    name: 'estimate',
+    email: '',
+    phone: '',
+    total_price: '0',
+    financial_status: 'pending',
+    fulfillment_status: '',
+    // Rush orders jump the queue like Priority Making
+    tags: item.rush ? ['priority'] : [],
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    line_items: [
+      {
+        title: item.title || '',
+        quantity: item.quantity,
+        price: '0',
+        variant_title: item.variantTitle,
+        variant_id: item.variantId,
+      },
+    ],
+    customer: { id: 0, first_name: '', last_name: '', phone: '' },
+    shipping_address: { phone: '', address1: '', city: '', province: '', zip: '', country: '' },
+  };
+
+  const plan = planProduction([...backlog, newOrder], settings, today);
+  const entry = plan.entries.find((e) => e.orderId === ESTIMATE_ORDER_ID)!;
+  const others = plan.entries.filter((e) => e.orderId !== ESTIMATE_ORDER_ID);
+  const deliveryBy = entry.plannedDue ? addDays(entry.plannedDue, settings.shippingDays) : null;
+
+  return {
+    variant_id: String(item.variantId),
+    quantity: item.quantity,
+    rush: item.rush,
+    backlog: {
+      orders: others.length,
+      hours: Math.round(others.reduce((sum, e) => sum + e.hours, 0) * 10) / 10,
+    },
+    making_days: getOrderMakingDays(newOrder, settings),
+    ready_by: entry.plannedDue,
+    delivery_by: deliveryBy,
+    days_until_delivery: deliveryBy ? daysBetween(today, deliveryBy) : null,
+    generated_at: now.toISOString(),
+  };
+}
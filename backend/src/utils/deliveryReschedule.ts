@@ -0,0 +1,97 @@
+/**
+ * Customer replies to the failed delivery WhatsApp: a new delivery date ("tomorrow",
+ * "Saturday", "15/3", "بكرة", "السبت") or a plain confirmation that the address is right,
+ * which we treat as "deliver again tomorrow". Anything else is left for a person to read.
+ */
+
+export type DeliveryReply =
+  | { kind: 'date'; date: string }
+  | { kind: 'confirmed'; date: string };
+
+const ARABIC_DIGITS = '٠١٢٣٤٥٦٧٨٩';
+
+/** Day offsets from today; longer phrases first so "بعد بكرة" wins over "بكرة". */
+const RELATIVE_DAYS: Array<[RegExp, number]> = [
+  [/day after tomorrow|بعد\s*بكر[ةه]|بعد\s*غد/, 2],
+  [/\btoday\b|النهارد[ةه]|النهاردا|اليوم/, 0],
+  [/\btomorrow\b|\btmrw\b|بكر[ةه]|غدا|غدًا/, 1],
+];
+
+/** getUTCDay() index → names customers use. */
+const WEEKDAYS: Array<[number, RegExp]> = [
+  [0, /\bsun(day)?\b|الحد|الأحد|الاحد/],
+  [1, /\bmon(day)?\b|الاتنين|الإثنين|الاثنين/],
+  [2, /\btue(s|sday)?\b|التلات|الثلاثاء|الثلاثا/],
+  [3, /\bwed(nesday)?\b|الأربع|الاربع/],
+  [4, /\bthu(rs|rsday)?\b|الخميس/],
+  [5, /\bfri(day)?\b|الجمع[ةه]/],
+  [6, /\bsat(urday)?\b|السبت/],
+];
+
+const CONFIRMATION = /^(yes|yeah|yep|ok(ay)?|sure|confirm(ed)?|correct|right|نعم|اي[وه]+|أي[وه]+|تمام|صح|مظبوط|مضبوط|اه|آه)(?=$|[\s.,!?؟،])/;
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(today: string, days: number): string {
+  const date = new Date(`${today}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+}
+
+function normalizeReply(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, (digit) => String(ARABIC_DIGITS.indexOf(digit)))
+    .trim()
+    .toLowerCase();
+}
+
+/** dd/mm, dd-mm or dd.mm with an optional year; past dates without a year roll to next year. */
+function parseNumericDate(text: string, today: string): string | null {
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  const dayFirst = text.match(/\b(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?\b/);
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    day = Number(dayFirst[1]);
+    month = Number(dayFirst[2]);
+    year = dayFirst[3] ? Number(dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3]) : Number(today.slice(0, 4));
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  if (!iso && !dayFirst?.[3] && toIsoDate(date) < today) date.setUTCFullYear(year + 1);
+  return toIsoDate(date);
+}
+
+/**
+ * Read a reply as a delivery date (YYYY-MM-DD, never before `today`), or null when
+ * it says neither a date nor a confirmation.
+ */
+export function parseDeliveryReply(text: string, today: string): DeliveryReply | null {
+  const reply = normalizeReply(text);
+  if (!reply) return null;
+
+  const numeric = parseNumericDate(reply, today);
+  if (numeric) return numeric >= today ? { kind: 'date', date: numeric } : null;
+
+  for (const [pattern, offset] of RELATIVE_DAYS) {
+    if (pattern.test(reply)) return { kind: 'date', date: addDays(today, offset) };
+  }
+
+  const todayIndex = new Date(`${today}T00:00:00Z`).getUTCDay();
+  for (const [weekday, pattern] of WEEKDAYS) {
+    // "Saturday" on a Saturday means next week's
+    if (pattern.test(reply)) return { kind: 'date', date: addDays(today, (weekday - todayIndex + 7) % 7 || 7) };
+  }
+
+  if (CONFIRMATION.test(reply)) return { kind: 'confirmed', date: addDays(today, 1) };
+  return null;
+}
@@ -1,3 +1,5 @@
+import { OrderWorkflowState, readOrderWorkflowState } from './orderWorkflowState';
+
 /** Current month as YYYY-MM (local server time). */
 export function getCurrentFinanceMonth(): string {
   const now = new Date();
@@ -27,3 +29,47 @@ export function orderMonthFromTag(tags: string[], prefixes: string[]): string |
   }
   return null;
 }
+
+/** YYYY-MM moved by `delta` months. */
+export function shiftFinanceMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + delta, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Every month from `from` to `to` inclusive (YYYY-MM). */
+export function financeMonthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  for (let month = from; month <= to; month = shiftFinanceMonth(month, 1)) months.push(month);
+  return months;
+}
+
+/** Order fields a month's reported numbers are built from once the order is paid. */
+const PAID_MONTH_FIELDS: (keyof OrderWorkflowState)[] = [
+  'paidDate',
+  'shippingCompanyCost',
+  'shippingCompanyCostDate',
+  'scooterShippingCost',
+  'scooterShippingCostDate',
+];
+
+/**
+ * Paid months (YYYY-MM) whose figures change when an order's tags go from `before`
+ * to `after`: the paid month on either side, when the paid flag, paid date or
+ * shipping costs differ. Empty when the order is not paid on either side.
+ */
+export function paidMonthsChanged(
+  before: string[] | string | null | undefined,
+  after: string[] | string | null | undefined
+): string[] {
+  const from = readOrderWorkflowState(before);
+  const to = readOrderWorkflowState(after);
+  const paidMonth = (state: OrderWorkflowState) =>
+    state.statusFlags.includes('paid') ? state.paidDate?.substring(0, 7) : undefined;
+
+  const months = [paidMonth(from), paidMonth(to)].filter((month): month is string => !!month);
+  const changed =
+    from.statusFlags.includes('paid') !== to.statusFlags.includes('paid') ||
+    PAID_MONTH_FIELDS.some((field) => from[field] !== to[field]);
+  return changed ? Array.from(new Set(months)) : [];
+}
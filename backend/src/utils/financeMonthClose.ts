@@ -0,0 +1,58 @@
+/**
+ * Month close: the pre-close check (paid orders need a shipping cost) and the
+ * checksum that pins what a closed month reported.
+ */
+import { createHash } from 'crypto';
+import { readOrderWorkflowState } from './orderWorkflowState';
+
+export interface FinanceMonthCloseContents {
+  month: string;
+  paidOrders: unknown[];
+  cancelledOrders: unknown[];
+  shippingSummary: Record<string, number>;
+  shippingRecords: unknown[];
+  profit: Record<string, unknown> | null;
+  expenses: unknown[];
+  manualShipping: unknown[];
+}
+
+export interface OrderMissingShippingCost {
+  id: number | string;
+  name: string;
+}
+
+/**
+ * Row metadata that changes without the reported figures changing, including
+ * partner settlement state (who is owed, not what the month cost).
+ */
+const VOLATILE_KEYS = new Set(['created_at', 'updated_at', 'calculated_at', 'settled', 'settled_at', 'settled_partners']);
+
+/** JSON with sorted keys and volatile timestamps dropped, so equal content hashes equally. */
+export function stableStringify(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key, entry]) => entry !== undefined && !VOLATILE_KEYS.has(key))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function financeMonthChecksum(contents: FinanceMonthCloseContents): string {
+  return createHash('sha256').update(stableStringify(contents)).digest('hex');
+}
+
+/** Paid orders shipped by company or scooter with no cost tag yet (pickups cost nothing). */
+export function ordersMissingShippingCost(
+  paidOrders: Array<{ id?: number | string; name?: string; tags?: string[] | string | null }>
+): OrderMissingShippingCost[] {
+  return paidOrders
+    .filter((order) => {
+      const state = readOrderWorkflowState(order.tags);
+      if (state.shippingMethod === 'pickup') return false;
+      return state.shippingCompanyCost === undefined && state.scooterShippingCost === undefined;
+    })
+    .map((order) => ({ id: order.id ?? '', name: order.name ?? String(order.id ?? '') }));
+}
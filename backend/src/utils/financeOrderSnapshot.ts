@@ -20,6 +20,7 @@ export function slimOrderForFinanceSnapshot(order: Record<string, unknown>): Rec
       title: item.title,
       quantity: item.quantity,
       price: item.price,
+      total_discount: item.total_discount,
       variant_title: item.variant_title,
       product_id: item.product_id,
       variant_id: item.variant_id,
@@ -0,0 +1,112 @@
+/**
+ * Mapping between the legacy `/api/finance` expense shape (`expenses` table,
+ * camelCase, Date objects) and the unified `financial_expenses` ledger. The
+ * legacy routes are served from the unified ledger through these until removed.
+ */
+import { Expense, ExpenseCategory } from '../types/finance';
+import { FinancialExpense, FinancialExpenseCategory, FinancialExpenseInput } from '../types/financial';
+import { SHARED_PAYER } from './partners';
+
+/** Legacy clients say 'Both' for an expense shared by the partners. */
+const LEGACY_SHARED_PAYER = 'Both';
+
+const LEGACY_TO_FINANCIAL_CATEGORY: Record<ExpenseCategory, FinancialExpenseCategory> = {
+  'Yarn & Materials': 'Raw Materials',
+  Packaging: 'Packaging',
+  'Marketing & Ads': 'Ads',
+  Equipment: 'Tools & Equipment',
+  Labor: 'Production Labor',
+  'Shipping & Delivery': 'Other',
+  Miscellaneous: 'Other',
+};
+
+/** Production costs: only cash DPP subtracts them (accrual COGS already covers them in operating profit). */
+const LEGACY_PRODUCTION_CATEGORIES: ExpenseCategory[] = ['Yarn & Materials', 'Labor', 'Packaging'];
+
+const FINANCIAL_TO_LEGACY_CATEGORY: Partial<Record<FinancialExpenseCategory, ExpenseCategory>> = {
+  'Raw Materials': 'Yarn & Materials',
+  'Material Shipping': 'Yarn & Materials',
+  'Material Delivery': 'Yarn & Materials',
+  Packaging: 'Packaging',
+  'Packaging Bulk': 'Packaging',
+  Ads: 'Marketing & Ads',
+  'Media Buyer Fixed': 'Marketing & Ads',
+  'Tools & Equipment': 'Equipment',
+  'Tools & Misc': 'Equipment',
+  'Production Labor': 'Labor',
+};
+
+export function legacyCategoryToFinancial(category: ExpenseCategory): FinancialExpenseCategory {
+  return LEGACY_TO_FINANCIAL_CATEGORY[category] ?? 'Other';
+}
+
+export function financialCategoryToLegacy(category: FinancialExpenseCategory): ExpenseCategory {
+  return FINANCIAL_TO_LEGACY_CATEGORY[category] ?? 'Miscellaneous';
+}
+
+/** Legacy categories that share a unified one keep their name in the notes. */
+function legacyNotes(expense: Pick<Expense, 'title' | 'note' | 'category'>): string {
+  const prefix = legacyCategoryToFinancial(expense.category) === 'Other' ? `[${expense.category}] ` : '';
+  const note = expense.note?.trim();
+  return `${prefix}${expense.title}${note ? ` — ${note}` : ''}`;
+}
+
+function isoDate(date: Date | string): string {
+  return (date instanceof Date ? date : new Date(date)).toISOString().substring(0, 10);
+}
+
+/** Legacy split keys are lower-case partner names; match them to `partnerNames`. */
+function splitFromLegacy(
+  splitPayment: Record<string, number> | undefined,
+  partnerNames: string[]
+): Record<string, number> | null {
+  const entries = Object.entries(splitPayment ?? {}).filter(([, amount]) => Number(amount) > 0);
+  if (entries.length === 0) return null; // Let the ownership split apply
+  return Object.fromEntries(
+    entries.map(([key, amount]) => [
+      partnerNames.find((name) => name.toLowerCase() === key.toLowerCase()) ?? key,
+      Number(amount),
+    ])
+  );
+}
+
+/** Legacy create/update body → unified expense input. */
+export function legacyExpenseToInput(
+  expense: Pick<Expense, 'title' | 'amount' | 'date' | 'category' | 'paidBy' | 'note' | 'splitPayment'>,
+  partnerNames: string[] = []
+): FinancialExpenseInput {
+  const shared = expense.paidBy === LEGACY_SHARED_PAYER;
+  return {
+    category: legacyCategoryToFinancial(expense.category),
+    amount: Number(expense.amount),
+    date: isoDate(expense.date),
+    notes: legacyNotes(expense),
+    expense_type: LEGACY_PRODUCTION_CATEGORIES.includes(expense.category) ? 'production' : 'operating',
+    paid_by: shared ? SHARED_PAYER : expense.paidBy,
+    split_payment: shared ? splitFromLegacy(expense.splitPayment, partnerNames) : null,
+  };
+}
+
+/** Unified row → the shape legacy `/api/finance` clients expect. */
+export function financialExpenseToLegacy(expense: FinancialExpense): Expense {
+  const settledPartners = expense.settled_partners ?? [];
+  const splitPayment: Record<string, number> = { mohamed: 0, mariam: 0 };
+  for (const [name, amount] of Object.entries(expense.split_payment ?? {})) {
+    splitPayment[name.toLowerCase()] = Number(amount);
+  }
+  return {
+    id: expense.id,
+    title: expense.notes || expense.category,
+    amount: Number(expense.amount),
+    date: new Date(expense.date),
+    category: financialCategoryToLegacy(expense.category),
+    paidBy: expense.paid_by === SHARED_PAYER ? LEGACY_SHARED_PAYER : expense.paid_by ?? 'Business',
+    shared: expense.paid_by === SHARED_PAYER,
+    recurring: Boolean(expense.recurring_expense_id),
+    settled: Boolean(expense.settled),
+    settledAt: expense.settled_at ? new Date(expense.settled_at) : undefined,
+    settledMohamed: settledPartners.includes('Mohamed'),
+    settledMariam: settledPartners.includes('Mariam'),
+    splitPayment,
+  };
+}
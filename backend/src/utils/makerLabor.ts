@@ -0,0 +1,91 @@
+/**
+ * Maker (crocheter) labor: line item assignment keys and the monthly labor
+ * statement (completed units × per-unit labor rate).
+ */
+
+/** Identifies a line item within an order (Shopify line items have no stable id in our order shape). */
+export function makerLineItemKey(item: { variant_id?: number | null; title?: string; variant_title?: string | null }): string {
+  if (item.variant_id) return `v:${item.variant_id}`;
+  return `t:${(item.title || '').trim().toLowerCase()}|${(item.variant_title || '').trim().toLowerCase()}`;
+}
+
+export interface MakerAssignment {
+  id: string;
+  order_id: number;
+  order_name: string;
+  line_item_key: string;
+  title: string;
+  variant_title: string | null;
+  product_id: string | null;
+  quantity: number;
+  maker_id: string;
+  assigned_at: string;
+  /** YYYY-MM-DD (Cairo) when the order was marked made; null while in production. */
+  completed_on: string | null;
+}
+
+export interface MakerLaborLine {
+  assignmentId: string;
+  orderId: number;
+  orderName: string;
+  title: string;
+  variantTitle: string | null;
+  quantity: number;
+  ratePerUnit: number;
+  /** Rate came from the maker's default (no product labor cost configured). */
+  defaultRate: boolean;
+  amount: number;
+  completedOn: string;
+}
+
+export interface MakerLaborStatement {
+  makerId: string;
+  month: string;
+  lines: MakerLaborLine[];
+  totalUnits: number;
+  totalAmount: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Statement for `month` (YYYY-MM) from a maker's assignments. Rates come from the
+ * product's labor cost (`laborRates` by product ID), else `defaultRate`.
+ */
+export function buildMakerLaborStatement(
+  makerId: string,
+  month: string,
+  assignments: MakerAssignment[],
+  laborRates: Map<string, number>,
+  defaultRate: number
+): MakerLaborStatement {
+  const lines = assignments
+    .filter((a) => a.maker_id === makerId && a.completed_on?.startsWith(month))
+    .sort((a, b) => a.completed_on!.localeCompare(b.completed_on!) || a.order_id - b.order_id)
+    .map((a): MakerLaborLine => {
+      const productRate = a.product_id ? laborRates.get(a.product_id) : undefined;
+      const ratePerUnit = productRate ?? defaultRate;
+      return {
+        assignmentId: a.id,
+        orderId: a.order_id,
+        orderName: a.order_name,
+        title: a.title,
+        variantTitle: a.variant_title,
+        quantity: a.quantity,
+        ratePerUnit,
+        defaultRate: productRate === undefined,
+        amount: round2(a.quantity * ratePerUnit),
+        completedOn: a.completed_on!,
+      };
+    });
+
+  return {
+    makerId,
+    month,
+    lines,
+    totalUnits: lines.reduce((sum, line) => sum + line.quantity, 0),
+    totalAmount: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Materials inventory: bill of materials lookup per line item, the material
+ * requirements of a set of line items, and stock availability checks.
+ */
+
+export type MaterialKind = 'yarn' | 'felt' | 'zipper' | 'card' | 'packaging' | 'other';
+
+export const MATERIAL_KINDS: MaterialKind[] = ['yarn', 'felt', 'zipper', 'card', 'packaging', 'other'];
+
+export type MaterialUnit = 'g' | 'm' | 'pcs';
+
+export const MATERIAL_UNITS: MaterialUnit[] = ['g', 'm', 'pcs'];
+
+export interface Material {
+  id: string;
+  name: string;
+  kind: MaterialKind;
+  color: string | null;
+  /** Yarn weight (e.g. "DK", "4ply") or felt thickness. */
+  weight: string | null;
+  unit: MaterialUnit;
+  on_hand: number;
+  /** Held for customer-confirmed orders that have not been made yet. */
+  reserved: number;
+  /** Alert when available stock drops to or below this; null disables the alert. */
+  low_stock_threshold: number | null;
+  /** EGP per unit, from the last purchase. */
+  unit_cost: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MaterialBomLine {
+  id: string;
+  product_id: string;
+  /** '' applies to every variant of the product. */
+  variant_id: string;
+  material_id: string;
+  quantity_per_unit: number;
+}
+
+export interface MaterialLineItem {
+  title: string;
+  variant_title?: string | null;
+  quantity: number;
+  product_id?: number | string | null;
+  variant_id?: number | string | null;
+}
+
+export interface MaterialShortage {
+  materialId: string;
+  name: string;
+  unit: MaterialUnit;
+  required: number;
+  available: number;
+}
+
+export interface MaterialAvailability {
+  canMake: boolean;
+  /** Material ID → quantity the line items need. */
+  requirements: Record<string, number>;
+  shortages: MaterialShortage[];
+  /** Line items without a bill of materials (not checked). */
+  missingBom: string[];
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function availableQuantity(material: Pick<Material, 'on_hand' | 'reserved'>): number {
+  return round3(Number(material.on_hand) - Number(material.reserved));
+}
+
+export function isLowStock(material: Pick<Material, 'on_hand' | 'reserved' | 'low_stock_threshold'>): boolean {
+  return material.low_stock_threshold !== null && availableQuantity(material) <= Number(material.low_stock_threshold);
+}
+
+/** BOM lines for a line item: the variant's own lines when it has any, else the product-wide ones. */
+export function bomForLineItem(boms: MaterialBomLine[], item: MaterialLineItem): MaterialBomLine[] {
+  if (!item.product_id) return [];
+  const productId = String(item.product_id);
+  const variantId = item.variant_id ? String(item.variant_id) : '';
+  const productLines = boms.filter((line) => line.product_id === productId);
+  const variantLines = variantId ? productLines.filter((line) => line.variant_id === variantId) : [];
+  return variantLines.length > 0 ? variantLines : productLines.filter((line) => line.variant_id === '');
+}
+
+/** Total material quantities for the line items, plus the items with no BOM. */
+export function materialRequirements(
+  items: MaterialLineItem[],
+  boms: MaterialBomLine[]
+): { requirements: Map<string, number>; missingBom: string[] } {
+  const requirements = new Map<string, number>();
+  const missingBom: string[] = [];
+
+  for (const item of items) {
+    const lines = bomForLineItem(boms, item);
+    if (lines.length === 0) {
+      const label = item.variant_title ? `${item.title} - ${item.variant_title}` : item.title;
+      if (!missingBom.includes(label)) missingBom.push(label);
+      continue;
+    }
+    for (const line of lines) {
+      const quantity = Number(line.quantity_per_unit) * item.quantity;
+      requirements.set(line.material_id, round3((requirements.get(line.material_id) ?? 0) + quantity));
+    }
+  }
+
+  return { requirements, missingBom };
+}
+
+/** Can the line items be made from available stock (on hand minus reserved)? */
+export function checkMaterialAvailability(
+  items: MaterialLineItem[],
+  boms: MaterialBomLine[],
+  materials: Material[]
+): MaterialAvailability {
+  const { requirements, missingBom } = materialRequirements(items, boms);
+  const byId = new Map(materials.map((material) => [material.id, material]));
+  const shortages: MaterialShortage[] = [];
+
+  for (const [materialId, required] of requirements) {
+    const material = byId.get(materialId);
+    const available = material ? availableQuantity(material) : 0;
+    if (required > available) {
+      shortages.push({
+        materialId,
+        name: material?.name ?? 'Unknown material',
+        unit: material?.unit ?? 'pcs',
+        required,
+        available,
+      });
+    }
+  }
+
+  return {
+    canMake: shortages.length === 0,
+    requirements: Object.fromEntries(requirements),
+    shortages: shortages.sort((a, b) => a.name.localeCompare(b.name)),
+    missingBom,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Parses Meta Ads Manager exports (CSV or XLSX, read into rows by xlsx) into
+ * ad spend rows. Columns are found by header name, so exports with extra or
+ * reordered columns work; a "Day" breakdown is needed unless each row's
+ * reporting range stays within one month.
+ */
+import { AdSpendRowInput } from '../types/financial';
+
+type Cell = string | number | boolean | Date | null | undefined;
+
+const HEADER_ALIASES: Record<keyof AdSpendRowInput | 'reporting_end', string[]> = {
+  campaign_name: ['campaign name'],
+  campaign_id: ['campaign id'],
+  ad_set_name: ['ad set name'],
+  date: ['day', 'date', 'reporting starts'],
+  reporting_end: ['reporting ends'],
+  spend: ['amount spent'],
+  results: ['results'],
+  result_type: ['result indicator', 'result type'],
+};
+
+function normalizeHeader(value: Cell): string {
+  return String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
+
+/** Column index per field; "Amount spent (EGP)" matches on its prefix. */
+function findColumns(header: Cell[]): Partial<Record<keyof typeof HEADER_ALIASES, number>> {
+  const names = header.map(normalizeHeader);
+  const columns: Partial<Record<keyof typeof HEADER_ALIASES, number>> = {};
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [keyof typeof HEADER_ALIASES, string[]][]) {
+    for (const alias of aliases) {
+      const index = names.findIndex((name) => name === alias || name.startsWith(`${alias} (`));
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+/** YYYY-MM-DD from a Date, an Excel serial day number or a date string. */
+export function parseAdsDate(value: Cell): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+  if (typeof value === 'number') {
+    const date = new Date(Math.round((value - 25569) * 86400000));
+    return isNaN(date.getTime()) ? null : date.toISOString().substring(0, 10);
+  }
+  const text = String(value ?? '').trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  return null;
+}
+
+function parseNumber(value: Cell): number {
+  if (typeof value === 'number') return value;
+  const cleaned = String(value ?? '').replace(/[^\d.-]/g, '');
+  return cleaned ? Number(cleaned) || 0 : 0;
+}
+
+/**
+ * Ad spend rows from a sheet (first row with a "Campaign name" column is the
+ * header). Rows are 1-based sheet rows in `errors`; total rows are skipped.
+ */
+export function parseMetaAdsRows(rows: Cell[][]): { rows: AdSpendRowInput[]; errors: { row: number; reason: string }[] } {
+  const headerIndex = rows.findIndex((row) => row.some((cell) => normalizeHeader(cell) === 'campaign name'));
+  if (headerIndex === -1) {
+    return { rows: [], errors: [{ row: 1, reason: 'No "Campaign name" column — export from Meta Ads Manager' }] };
+  }
+
+  const columns = findColumns(rows[headerIndex]);
+  if (columns.spend === undefined || columns.date === undefined) {
+    return {
+      rows: [],
+      errors: [{ row: headerIndex + 1, reason: 'Export needs "Amount spent" and a "Day" (or "Reporting starts") column' }],
+    };
+  }
+
+  const parsed: AdSpendRowInput[] = [];
+  const errors: { row: number; reason: string }[] = [];
+  const cell = (row: Cell[], field: keyof typeof HEADER_ALIASES) =>
+    columns[field] === undefined ? undefined : row[columns[field] as number];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const rowNumber = headerIndex + offset + 2;
+    const campaignName = String(cell(row, 'campaign_name') ?? '').trim();
+    // Blank rows and the summary row Ads Manager adds have no campaign name
+    if (!campaignName) return;
+
+    const date = parseAdsDate(cell(row, 'date'));
+    if (!date) {
+      errors.push({ row: rowNumber, reason: `${campaignName}: missing or unreadable date` });
+      return;
+    }
+    const end = parseAdsDate(cell(row, 'reporting_end'));
+    if (end && end.substring(0, 7) !== date.substring(0, 7)) {
+      errors.push({ row: rowNumber, reason: `${campaignName}: spans more than one month — export with a "Day" breakdown` });
+      return;
+    }
+
+    parsed.push({
+      campaign_id: String(cell(row, 'campaign_id') ?? '').trim() || null,
+      campaign_name: campaignName,
+      ad_set_name: String(cell(row, 'ad_set_name') ?? '').trim(),
+      date,
+      spend: Math.round(parseNumber(cell(row, 'spend')) * 100) / 100,
+      results: parseNumber(cell(row, 'results')),
+      result_type: String(cell(row, 'result_type') ?? '').trim() || null,
+    });
+  });
+
+  // Ad-level exports repeat campaign/ad set/day once per ad: add those up
+  const merged = new Map<string, AdSpendRowInput>();
+  for (const row of parsed) {
+    const key = `${row.campaign_name}\u0000${row.ad_set_name}\u0000${row.date}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, row);
+      continue;
+    }
+    existing.spend = Math.round((existing.spend + row.spend) * 100) / 100;
+    existing.results += row.results;
+  }
+
+  return { rows: [...merged.values()], errors };
+}
@@ -0,0 +1,516 @@
+/**
+ * Server-side version of the Orders page filters (status view, quick filters,
+ * free-text search), sort and keyset pagination for GET /api/orders.
+ * Facet counts follow the page's quick-filter tabs: each facet is counted over
+ * the orders matching every other active filter, so a tab shows what picking
+ * one of its values would return.
+ */
+import type { ShopifyOrder } from '../services/shopify';
+import { parseOrderTags } from './financeMonth';
+import { readOrderWorkflowState } from './orderWorkflowState';
+import { analyzePriorityMakingLineItems, mergeRushTypeWithPriorityMaking } from './priorityMakingRush';
+
+export const ORDER_LIST_STATUS_VIEWS = [
+  'pending',
+  'order-ready',
+  'on_hold',
+  'confirmed',
+  'ready-to-ship',
+  'shipped',
+  'fulfilled',
+  'cancelled',
+  'paid',
+  'all',
+] as const;
+
+export type OrderListStatusView = (typeof ORDER_LIST_STATUS_VIEWS)[number];
+
+export const ORDER_LIST_SORT_KEYS = ['default', 'days_left', 'order_number', 'created_at', 'shipped_days'] as const;
+
+export type OrderListSortKey = (typeof ORDER_LIST_SORT_KEYS)[number];
+
+/** Quick-filter dimensions (same names as the Orders page tabs). */
+export const ORDER_LIST_FACETS = [
+  'production',
+  'city',
+  'routes',
+  'days',
+  'shipping',
+  'rushed',
+  'fulfillment_status',
+  'fulfillment_month',
+  'paid_month',
+  'cancelled_calendar',
+  'cancelled_reason',
+] as const;
+
+export type OrderListFacet = (typeof ORDER_LIST_FACETS)[number];
+
+/** Route facet value for orders without a shipping_route: tag. */
+export const SHIPPING_ROUTE_NONE_KEY = '__shipping_route_none__';
+
+export const ORDER_LIST_DEFAULT_LIMIT = 50;
+export const ORDER_LIST_MAX_LIMIT = 500;
+
+export interface OrderListQuery {
+  status: OrderListStatusView;
+  /** Free text: order name/number, customer name, phone, line item title, tag. */
+  q?: string;
+  /** Selected values per quick filter; empty or missing = no filter. Months are YYYY-MM. */
+  filters: Partial<Record<OrderListFacet, string[]>>;
+  sort: OrderListSortKey;
+  direction: 'asc' | 'desc';
+  cursor?: string;
+  limit: number;
+}
+
+export interface OrderListPage<T extends ShopifyOrder = ShopifyOrder> {
+  orders: T[];
+  /** Pass as `cursor` for the next page; null on the last page. */
+  nextCursor: string | null;
+  /** Orders matching all filters (all pages). */
+  total: number;
+  facets: Record<OrderListFacet, Record<string, number>>;
+}
+
+/** Per-order values the filters, facets and sort work on (computed once per request). */
+interface OrderListKeys {
+  items: string[];
+  city: string;
+  route: string;
+  dayRange: string;
+  daysLeft: number;
+  shippingMethod: string;
+  rushType: string;
+  fulfillmentStatus: string;
+  fulfillmentMonth: string | null;
+  paidMonth: string | null;
+  cancelledMonth: string | null;
+  cancelledReason: string;
+  priority: boolean;
+  orderNumber: number;
+  createdAt: number;
+  daysSinceShipped: number;
+  search: string;
+  tagsLc: string[];
+}
+
+const STATUS_TAGS = [
+  'order_ready',
+  'on_hold',
+  'shipped',
+  'ready_to_ship',
+  'fulfilled',
+  'cancelled',
+  'paid',
+  'customer_confirmed',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Calendar date (YYYY-MM-DD) in Cairo, where the shop works. */
+export function cairoDateString(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'Africa/Cairo',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function isDateString(value: string | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value.substring(0, 10)));
+}
+
+type LineItem = ShopifyOrder['line_items'][number];
+
+/** Making days from "[N days]" titles/properties; Rush add-ons are always 3. */
+export function detectLegacyMakingTime(lineItems: LineItem[]): number | null {
+  for (const item of lineItems) {
+    const title = item.title || '';
+
+    if (/rush.*?\[(\d+)\s*days?\]/i.test(title)) return 3;
+    const handmadeMatch = title.match(/handmade.*?\[(\d+)\s*days?\]/i);
+    if (handmadeMatch) return parseInt(handmadeMatch[1], 10);
+
+    for (const prop of item.properties || []) {
+      const propName = (prop.name || '').toLowerCase();
+      const propValue = prop.value || '';
+      if (!propName.includes('making time') && !propName.includes('timeline') && !propName.includes('rush')) continue;
+
+      if (/rush.*?\[(\d+)\s*days?\]/i.test(propValue)) return 3;
+      const handmadePropMatch = propValue.match(/handmade.*?\[(\d+)\s*days?\]/i);
+      if (handmadePropMatch) return parseInt(handmadePropMatch[1], 10);
+      const daysMatch = propValue.match(/(\d+)\s*days?/i);
+      const valueLc = propValue.toLowerCase();
+      if (daysMatch && (valueLc.includes('rush') || valueLc.includes('3'))) {
+        return valueLc.includes('rush') ? 3 : parseInt(daysMatch[1], 10);
+      }
+      if (daysMatch && (valueLc.includes('handmade') || valueLc.includes('7'))) {
+        return parseInt(daysMatch[1], 10);
+      }
+    }
+
+    const titleLc = title.toLowerCase();
+    if (titleLc.includes('making time') || titleLc.includes('choose your')) {
+      if (titleLc.includes('rush') || /3\s*days?/i.test(title)) return 3;
+      if (titleLc.includes('handmade') || /7\s*days?/i.test(title)) return 7;
+    }
+  }
+  return null;
+}
+
+/** Due date (YYYY-MM-DD): custom_due_date, else start date + making time (Priority Making → 3, default 7). */
+export function getOrderDueDate(order: ShopifyOrder): string {
+  const state = readOrderWorkflowState(order.tags);
+  if (isDateString(state.customDueDate)) return state.customDueDate.substring(0, 10);
+
+  const start = isDateString(state.customStartDate)
+    ? state.customStartDate.substring(0, 10)
+    : cairoDateString(order.created_at ? new Date(order.created_at) : new Date());
+
+  const pm = analyzePriorityMakingLineItems(order.line_items || []);
+  const makingDays = pm.hasPriorityMaking && pm.quantitiesMatch ? 3 : detectLegacyMakingTime(order.line_items || []);
+  return addDays(start, makingDays || 7);
+}
+
+export function getDayRangeLabel(daysLeft: number): string {
+  if (daysLeft < 0) return daysLeft === -1 ? '-1 day' : `${daysLeft} days`;
+  if (daysLeft === 0) return 'today';
+  if (daysLeft === 1) return '1 day';
+  if (daysLeft <= 7) return `${daysLeft} days`;
+  return '+7 days';
+}
+
+export function getShippingMethodLabel(tags: string[]): 'Company' | 'Scooter' | 'Pickup' {
+  const method = readOrderWorkflowState(tags).shippingMethod;
+  if (method === 'scooter') return 'Scooter';
+  if (method === 'pickup') return 'Pickup';
+  return 'Company';
+}
+
+export function getRushType(order: ShopifyOrder): 'Rushed' | 'Standard' | 'Mix' {
+  const lineItems = order.line_items || [];
+  let hasRushed = false;
+  let hasStandard = false;
+  for (const item of lineItems) {
+    const makingDays = detectLegacyMakingTime([item]);
+    if (makingDays === 3) hasRushed = true;
+    else if (makingDays === 7 || makingDays === null) hasStandard = true;
+  }
+  const legacy = hasRushed && hasStandard ? 'Mix' : hasRushed ? 'Rushed' : 'Standard';
+  return mergeRushTypeWithPriorityMaking(legacy, analyzePriorityMakingLineItems(lineItems));
+}
+
+function getFulfillmentDisplayStatus(order: ShopifyOrder): string {
+  const latest = (order.fulfillments || [])
+    .filter((f) => f.displayStatus)
+    .sort((a, b) => (b.updated_at ? Date.parse(b.updated_at) : 0) - (a.updated_at ? Date.parse(a.updated_at) : 0))[0];
+  return latest?.displayStatus ?? 'NO_STATUS';
+}
+
+function lineItemKey(item: LineItem): string {
+  return item.variant_title ? `${item.title} - ${item.variant_title}` : item.title;
+}
+
+function getOrderNumber(name: string | undefined): number {
+  const match = name?.match(/\d+/);
+  return match ? parseInt(match[0], 10) : 0;
+}
+
+function computeKeys(order: ShopifyOrder, today: string): OrderListKeys {
+  const tags = parseOrderTags(order.tags);
+  const tagsLc = tags.map((tag) => tag.toLowerCase());
+  const state = readOrderWorkflowState(tags);
+  const daysLeft = daysBetween(today, getOrderDueDate(order));
+  const monthOf = (date: string | undefined) => (isDateString(date) ? date.substring(0, 7) : null);
+
+  const customerName = `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`;
+  const phones = [order.customer?.phone, order.shipping_address?.phone, order.phone].filter(Boolean) as string[];
+  const search = [
+    order.name,
+    customerName,
+    ...phones,
+    ...phones.map((phone) => phone.replace(/\D/g, '')),
+    ...(order.line_items || []).map(lineItemKey),
+    ...tags,
+  ]
+    .join('\n')
+    .toLowerCase();
+
+  return {
+    items: (order.line_items || []).map(lineItemKey),
+    city: order.shipping_address?.province || 'Unknown',
+    route: state.shippingRoute?.trim() || SHIPPING_ROUTE_NONE_KEY,
+    daysLeft,
+    dayRange: getDayRangeLabel(daysLeft),
+    shippingMethod: getShippingMethodLabel(tags),
+    rushType: getRushType(order),
+    fulfillmentStatus: getFulfillmentDisplayStatus(order),
+    fulfillmentMonth: tagsLc.includes('fulfilled') ? monthOf(state.fulfillmentDate) : null,
+    paidMonth: tagsLc.includes('paid') ? monthOf(state.paidDate) : null,
+    cancelledMonth: tagsLc.includes('cancelled') ? monthOf(state.cancelledDate) : null,
+    cancelledReason: tagsLc.includes('cancelled_after_shipping')
+      ? 'Cancelled After shipping'
+      : tagsLc.includes('no_reply_cancelled')
+        ? 'No response'
+        : 'Other',
+    priority: tagsLc.includes('priority'),
+    orderNumber: getOrderNumber(order.name),
+    createdAt: order.created_at ? Date.parse(order.created_at) || 0 : 0,
+    daysSinceShipped: isDateString(state.shippedDate) ? Math.max(0, daysBetween(state.shippedDate.substring(0, 10), today)) : -1,
+    search,
+    tagsLc,
+  };
+}
+
+/** Status tab of the Orders page (deleted orders never match). */
+export function matchesStatusView(tagsLc: string[], status: OrderListStatusView): boolean {
+  if (tagsLc.includes('deleted')) return false;
+  switch (status) {
+    case 'pending':
+      return !tagsLc.some((tag) => STATUS_TAGS.includes(tag));
+    case 'order-ready':
+      return tagsLc.includes('order_ready');
+    case 'on_hold':
+      return tagsLc.includes('on_hold');
+    case 'confirmed':
+      return tagsLc.includes('customer_confirmed');
+    case 'ready-to-ship':
+      return tagsLc.includes('ready_to_ship');
+    case 'shipped':
+      return tagsLc.includes('shipped');
+    case 'fulfilled':
+      return tagsLc.includes('fulfilled') && !tagsLc.includes('paid');
+    case 'cancelled':
+      return tagsLc.includes('cancelled');
+    case 'paid':
+      return tagsLc.includes('paid');
+    case 'all':
+    default:
+      return true;
+  }
+}
+
+/** Facet values of one order (an order can carry several production items). */
+function facetValues(keys: OrderListKeys, facet: OrderListFacet): Array<string | null> {
+  switch (facet) {
+    case 'production':
+      return keys.items;
+    case 'city':
+      return [keys.city];
+    case 'routes':
+      return [keys.route];
+    case 'days':
+      return [keys.dayRange];
+    case 'shipping':
+      return [keys.shippingMethod];
+    case 'rushed':
+      return [keys.rushType];
+    case 'fulfillment_status':
+      return [keys.fulfillmentStatus];
+    case 'fulfillment_month':
+      return [keys.fulfillmentMonth];
+    case 'paid_month':
+      return [keys.paidMonth];
+    case 'cancelled_calendar':
+      return [keys.cancelledMonth];
+    case 'cancelled_reason':
+      return [keys.cancelledReason];
+  }
+}
+
+/** Filters that only apply in one status view (as on the Orders page). */
+const FACET_STATUS_VIEW: Partial<Record<OrderListFacet, OrderListStatusView>> = {
+  fulfillment_status: 'shipped',
+  fulfillment_month: 'fulfilled',
+  cancelled_calendar: 'cancelled',
+  cancelled_reason: 'cancelled',
+};
+
+function activeFacets(query: OrderListQuery): OrderListFacet[] {
+  return ORDER_LIST_FACETS.filter((facet) => {
+    if (!query.filters[facet]?.length) return false;
+    const view = FACET_STATUS_VIEW[facet];
+    return !view || view === query.status;
+  });
+}
+
+function matchesFacet(keys: OrderListKeys, facet: OrderListFacet, selected: string[]): boolean {
+  return facetValues(keys, facet).some((value) => value !== null && selected.includes(value));
+}
+
+function sortTuple(keys: OrderListKeys, id: number, query: OrderListQuery): number[] {
+  let tuple: number[];
+  switch (query.sort) {
+    case 'days_left':
+      tuple = [keys.daysLeft];
+      break;
+    case 'order_number':
+      tuple = [keys.orderNumber];
+      break;
+    case 'created_at':
+      tuple = [keys.createdAt];
+      break;
+    case 'shipped_days':
+      tuple = [-keys.daysSinceShipped, keys.orderNumber];
+      break;
+    case 'default':
+    default:
+      // Same order as the Orders page for each status tab
+      if (query.status === 'fulfilled') tuple = [keys.priority ? 0 : 1, keys.orderNumber];
+      else if (query.status === 'shipped') tuple = [-keys.daysSinceShipped, keys.orderNumber];
+      else tuple = [keys.priority ? 0 : 1, keys.daysLeft];
+  }
+  const sign = query.direction === 'desc' ? -1 : 1;
+  // Order ID last keeps the tuple unique, which the cursor relies on
+  return [...tuple, id].map((value) => value * sign);
+}
+
+function compareTuples(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+export function encodeOrderListCursor(tuple: number[]): string {
+  return Buffer.from(JSON.stringify(tuple)).toString('base64url');
+}
+
+export function decodeOrderListCursor(cursor: string): number[] | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Array.isArray(parsed) && parsed.every((value) => typeof value === 'number') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function listParam(raw: unknown): string[] {
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  return values
+    .flatMap((value) => String(value).split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/**
+ * Read the list query from request query params:
+ * status, q, sort, direction, cursor, limit, plus one param per facet
+ * (comma-separated or repeated, e.g. `city=Cairo,Giza&days=today`).
+ * Production items may contain commas, so `production` is repeat-only.
+ */
+export function parseOrderListQuery(params: Record<string, unknown>): OrderListQuery {
+  const status = String(params.status || 'all').toLowerCase() as OrderListStatusView;
+  if (!ORDER_LIST_STATUS_VIEWS.includes(status)) {
+    throw validationError(`Unknown status "${params.status}"`);
+  }
+
+  const sort = String(params.sort || 'default').toLowerCase() as OrderListSortKey;
+  if (!ORDER_LIST_SORT_KEYS.includes(sort)) {
+    throw validationError(`Unknown sort "${params.sort}"`);
+  }
+
+  const cursor = params.cursor ? String(params.cursor) : undefined;
+  if (cursor && !decodeOrderListCursor(cursor)) {
+    throw validationError('Invalid cursor');
+  }
+
+  const limit = params.limit === undefined ? ORDER_LIST_DEFAULT_LIMIT : parseInt(String(params.limit), 10);
+  if (!Number.isFinite(limit) || limit < 1) {
+    throw validationError('limit must be a positive number');
+  }
+
+  const filters: OrderListQuery['filters'] = {};
+  for (const facet of ORDER_LIST_FACETS) {
+    const values =
+      facet === 'production'
+        ? (Array.isArray(params.production) ? params.production : params.production ? [params.production] : []).map(String)
+        : listParam(params[facet]);
+    if (values.length > 0) filters[facet] = values;
+  }
+
+  return {
+    status,
+    q: params.q ? String(params.q).trim() || undefined : undefined,
+    filters,
+    sort,
+    direction: String(params.direction || 'asc').toLowerCase() === 'desc' ? 'desc' : 'asc',
+    cursor,
+    limit: Math.min(limit, ORDER_LIST_MAX_LIMIT),
+  };
+}
+
+/** True when the request uses any list-query param (plain GET /api/orders keeps returning an array). */
+export function hasOrderListQueryParams(params: Record<string, unknown>): boolean {
+  const keys = ['status', 'q', 'sort', 'direction', 'cursor', 'limit', ...ORDER_LIST_FACETS];
+  return keys.some((key) => params[key] !== undefined && params[key] !== '');
+}
+
+/** Filter, count facets, sort and cut one page. `now` is injectable for tests. */
+export function applyOrderListQuery<T extends ShopifyOrder>(
+  orders: T[],
+  query: OrderListQuery,
+  now: Date = new Date()
+): OrderListPage<T> {
+  const today = cairoDateString(now);
+  const needle = query.q?.toLowerCase();
+  const needleDigits = needle?.replace(/\D/g, '');
+  const facets = activeFacets(query);
+
+  const base = orders
+    .map((order) => ({ order, keys: computeKeys(order, today) }))
+    .filter(({ keys }) => {
+      if (!matchesStatusView(keys.tagsLc, query.status)) return false;
+      if (!needle) return true;
+      // Phone numbers are typed in many formats; also match on digits alone
+      return keys.search.includes(needle) || (!!needleDigits && needleDigits.length >= 4 && keys.search.includes(needleDigits));
+    });
+
+  // Facet counts: every other active filter applies, the facet's own does not
+  const facetCounts = Object.fromEntries(ORDER_LIST_FACETS.map((facet) => [facet, {}])) as OrderListPage['facets'];
+  for (const { keys } of base) {
+    const failing = facets.filter((facet) => !matchesFacet(keys, facet, query.filters[facet]!));
+    if (failing.length > 1) continue;
+    for (const facet of ORDER_LIST_FACETS) {
+      if (failing.length === 1 && failing[0] !== facet) continue;
+      for (const value of new Set(facetValues(keys, facet))) {
+        if (value === null) continue;
+        facetCounts[facet][value] = (facetCounts[facet][value] || 0) + 1;
+      }
+    }
+  }
+
+  const matching = base
+    .filter(({ keys }) => facets.every((facet) => matchesFacet(keys, facet, query.filters[facet]!)))
+    .map(({ order, keys }) => ({ order, tuple: sortTuple(keys, order.id, query) }))
+    .sort((a, b) => compareTuples(a.tuple, b.tuple));
+
+  const after = query.cursor ? decodeOrderListCursor(query.cursor) : null;
+  const remaining = after ? matching.filter(({ tuple }) => compareTuples(tuple, after) > 0) : matching;
+  const page = remaining.slice(0, query.limit);
+
+  return {
+    orders: page.map(({ order }) => order),
+    nextCursor: remaining.length > query.limit ? encodeOrderListCursor(page[page.length - 1].tuple) : null,
+    total: matching.length,
+    facets: facetCounts,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Order status state machine.
+ *
+ * Every status change (dashboard, bulk, auto-move job, WhatsApp confirmation, courier
+ * payment import) goes through applyOrderStatusTransition so the tag side effects are
+ * identical everywhere and an order can never carry two pipeline statuses at once.
+ *
+ *   pending → order_ready → customer_confirmed / on_hold → ready_to_ship → shipped → fulfilled → paid
+ *   (any pre-delivery status) → cancelled
+ *
+ * Backward moves are allowed one step at a time so mistakes can be corrected from the
+ * dashboard; anything else needs the explicit admin `override` flag.
+ */
+
+import {
+  OrderWorkflowState,
+  OrderWorkflowStatus,
+  getOrderWorkflowStatus,
+  parseOrderWorkflowState,
+  serializeOrderWorkflowState,
+} from './orderWorkflowState';
+
+type StatusFlag = Exclude<OrderWorkflowStatus, 'pending'>;
+
+/** Legal target statuses for each current status. Same-status moves are always allowed (no-op). */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderWorkflowStatus, OrderWorkflowStatus[]> = {
+  pending: ['order_ready', 'customer_confirmed', 'on_hold', 'cancelled'],
+  order_ready: ['pending', 'customer_confirmed', 'on_hold', 'cancelled'],
+  customer_confirmed: ['order_ready', 'on_hold', 'ready_to_ship', 'cancelled'],
+  on_hold: ['order_ready', 'customer_confirmed', 'cancelled'],
+  // ready_to_ship → fulfilled is the pickup / hand-delivery path
+  ready_to_ship: ['customer_confirmed', 'shipped', 'fulfilled', 'cancelled'],
+  // shipped → paid: courier payment statements settle orders that were never marked fulfilled
+  shipped: ['ready_to_ship', 'fulfilled', 'paid', 'cancelled'],
+  fulfilled: ['shipped', 'paid'],
+  paid: [],
+  cancelled: [],
+};
+
+/** Pipeline order used to drop date tags of stages an order is moved back out of. */
+const PIPELINE: OrderWorkflowStatus[] = [
+  'pending',
+  'order_ready',
+  'on_hold',
+  'customer_confirmed',
+  'ready_to_ship',
+  'shipped',
+  'fulfilled',
+  'paid',
+];
+
+/** Date field stamped when an order enters a status. */
+const STATUS_DATE_FIELD: Partial<Record<OrderWorkflowStatus, keyof OrderWorkflowState>> = {
+  order_ready: 'orderReadyDate',
+  on_hold: 'movedToOnHoldDate',
+  customer_confirmed: 'customerConfirmedDate',
+  shipped: 'shippedDate',
+  fulfilled: 'fulfillmentDate',
+  paid: 'paidDate',
+  cancelled: 'cancelledDate',
+};
+
+const STATUS_INPUT_ALIASES: Record<string, OrderWorkflowStatus> = {
+  confirmed: 'customer_confirmed',
+  fulfill: 'fulfilled',
+  'order-ready': 'order_ready',
+  'ready-to-ship': 'ready_to_ship',
+};
+
+/** Thrown for a move the state machine does not allow; routes answer 409 with from/to. */
+export class OrderStatusTransitionError extends Error {
+  statusCode = 409;
+  from: OrderWorkflowStatus;
+  to: OrderWorkflowStatus;
+
+  constructor(from: OrderWorkflowStatus, to: OrderWorkflowStatus) {
+    super(`Cannot move order from ${from} to ${to}`);
+    this.name = 'OrderStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/** Map dashboard spellings (confirmed, order-ready, ...) to a workflow status; null when unknown. */
+export function normalizeOrderStatus(raw: string | null | undefined): OrderWorkflowStatus | null {
+  const value = String(raw || '').trim().toLowerCase();
+  if (!value) return null;
+  if (STATUS_INPUT_ALIASES[value]) return STATUS_INPUT_ALIASES[value];
+  return value in ORDER_STATUS_TRANSITIONS ? (value as OrderWorkflowStatus) : null;
+}
+
+export function isOrderStatusTransitionAllowed(from: OrderWorkflowStatus, to: OrderWorkflowStatus): boolean {
+  return from === to || ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export interface OrderStatusTransitionOptions {
+  /** Admin override: skip the transition table (tag side effects still apply). */
+  override?: boolean;
+  /**
+   * Extra tags written with the status, e.g. `fulfillment_date:2026-01-01` or `confirmed_from_on_hold`.
+   * Known workflow prefixes replace the stamped value; anything else is appended.
+   */
+  extraTags?: string[];
+  /** YYYY-MM-DD used for date stamps (defaults to today). */
+  today?: string;
+}
+
+export interface OrderStatusTransitionResult {
+  from: OrderWorkflowStatus;
+  to: OrderWorkflowStatus;
+  /** False when the resulting tags equal the current ones (nothing to write). */
+  changed: boolean;
+  tags: string[];
+}
+
+/**
+ * Compute the tags after moving an order to `to`. Pure; throws OrderStatusTransitionError
+ * for illegal moves unless `override` is set.
+ */
+export function applyOrderStatusTransition(
+  tags: string[] | string | null | undefined,
+  to: OrderWorkflowStatus,
+  options: OrderStatusTransitionOptions = {}
+): OrderStatusTransitionResult {
+  const { state } = parseOrderWorkflowState(tags);
+  const from = getOrderWorkflowStatus(state);
+
+  if (!options.override && !isOrderStatusTransitionAllowed(from, to)) {
+    throw new OrderStatusTransitionError(from, to);
+  }
+
+  const extras = parseOrderWorkflowState(options.extraTags ?? []).state;
+  const today = options.today ?? new Date().toISOString().split('T')[0];
+  const next: OrderWorkflowState = { ...state, otherTags: [...state.otherTags] };
+
+  if (from === to) {
+    // Keep the existing flags and dates; only merge the extras
+    return finish(from, to, state, mergeExtras(next, extras));
+  }
+
+  // Exactly one pipeline status, except fulfilled + paid which are recorded together
+  let flags: StatusFlag[] = to === 'pending' ? [] : [to as StatusFlag];
+  if (to === 'paid' && state.statusFlags.includes('fulfilled')) flags = ['fulfilled', 'paid'];
+  next.statusFlags = flags;
+
+  // Moving back drops the dates of the stages being undone; earlier dates stay as history
+  if (to !== 'cancelled') {
+    const targetIndex = PIPELINE.indexOf(to);
+    for (const status of PIPELINE.slice(targetIndex + 1)) {
+      const field = STATUS_DATE_FIELD[status];
+      if (field) delete next[field];
+    }
+    delete next.cancelledDate;
+  }
+
+  // paid_date may already come from a payment import; every other stage is stamped on entry
+  const dateField = STATUS_DATE_FIELD[to];
+  if (dateField && !(to === 'paid' && next.paidDate)) {
+    (next as unknown as Record<string, unknown>)[dateField] = today;
+  }
+
+  if (from === 'on_hold' && to !== 'cancelled') {
+    delete next.onHoldReason;
+  }
+
+  if (to === 'fulfilled' || to === 'cancelled') {
+    next.otherTags = next.otherTags.filter((tag) => tag.trim().toLowerCase() !== 'priority');
+  }
+
+  if (to === 'cancelled' && from === 'shipped' && !hasTag(next.otherTags, 'cancelled_after_shipping')) {
+    next.otherTags.push('cancelled_after_shipping');
+  }
+
+  // Pickup orders are paid at hand-over
+  if (to === 'fulfilled' && (extras.shippingMethod ?? state.shippingMethod) === 'pickup') {
+    next.statusFlags = ['fulfilled', 'paid'];
+    next.paidDate = extras.fulfillmentDate ?? today;
+  }
+
+  return finish(from, to, state, mergeExtras(next, extras));
+}
+
+function hasTag(tags: string[], tag: string): boolean {
+  return tags.some((t) => t.trim().toLowerCase() === tag);
+}
+
+function mergeExtras(next: OrderWorkflowState, extras: OrderWorkflowState): OrderWorkflowState {
+  const merged = { ...next } as unknown as Record<string, unknown>;
+  for (const [key, value] of Object.entries(extras)) {
+    if (key === 'statusFlags' || key === 'otherTags' || value === undefined) continue;
+    merged[key] = value;
+  }
+  const otherTags = [...next.otherTags];
+  for (const tag of extras.otherTags) {
+    if (!hasTag(otherTags, tag.trim().toLowerCase())) otherTags.push(tag);
+  }
+  merged.otherTags = otherTags;
+  return merged as unknown as OrderWorkflowState;
+}
+
+function finish(
+  from: OrderWorkflowStatus,
+  to: OrderWorkflowStatus,
+  before: OrderWorkflowState,
+  after: OrderWorkflowState
+): OrderStatusTransitionResult {
+  const tags = serializeOrderWorkflowState(after);
+  const beforeTags = serializeOrderWorkflowState(before);
+  const changed = tags.length !== beforeTags.length || tags.some((tag, i) => tag !== beforeTags[i]);
+  return { from, to, changed, tags };
+}
@@ -0,0 +1,322 @@
+/**
+ * Typed view of the workflow state stored in Shopify order tags.
+ * Same file in backend/src/utils and frontend/src/utils — keep them identical.
+ *
+ * parseOrderWorkflowState(tags) → state (+ issues for malformed values)
+ * serializeOrderWorkflowState(state) → tags
+ * Unknown, malformed and duplicate field tags are kept in `otherTags`, so parse → serialize never drops data.
+ */
+
+export type OrderWorkflowStatus =
+  | 'pending'
+  | 'order_ready'
+  | 'customer_confirmed'
+  | 'on_hold'
+  | 'ready_to_ship'
+  | 'shipped'
+  | 'fulfilled'
+  | 'paid'
+  | 'cancelled';
+
+/** Status flag tags, highest precedence first (matches the Orders page tabs). */
+const STATUS_PRECEDENCE: Exclude<OrderWorkflowStatus, 'pending'>[] = [
+  'cancelled',
+  'paid',
+  'fulfilled',
+  'shipped',
+  'ready_to_ship',
+  'customer_confirmed',
+  'on_hold',
+  'order_ready',
+];
+
+const STATUS_TAG_ALIASES: Record<string, Exclude<OrderWorkflowStatus, 'pending'>> = {
+  'ready-to-ship': 'ready_to_ship',
+};
+
+export type OrderShippingMethod = 'company' | 'other-company' | 'scooter' | 'pickup';
+
+const SHIPPING_METHODS: OrderShippingMethod[] = ['company', 'other-company', 'scooter', 'pickup'];
+
+export interface OrderWorkflowState {
+  /** Status flag tags present on the order (an order may carry several, e.g. paid + fulfilled). */
+  statusFlags: Exclude<OrderWorkflowStatus, 'pending'>[];
+  orderReadyDate?: string;
+  customerConfirmedDate?: string;
+  movedToOnHoldDate?: string;
+  shippedDate?: string;
+  fulfillmentDate?: string;
+  paidDate?: string;
+  cancelledDate?: string;
+  manualPaidDate?: string;
+  customStartDate?: string;
+  customDueDate?: string;
+  shippingCompanyCostDate?: string;
+  scooterShippingCostDate?: string;
+  shippingCompanyCost?: number;
+  scooterShippingCost?: number;
+  shippingBarcode?: string;
+  shippingMethod?: OrderShippingMethod;
+  shippingRoute?: string;
+  /** Failed delivery attempts reported by the carrier so far. */
+  deliveryAttempts?: number;
+  /** Date the customer asked for after a failed attempt (WhatsApp reply). */
+  deliveryRescheduleDate?: string;
+  onHoldReason?: string;
+  cancellationReason?: string;
+  pin?: { lat: number; lng: number };
+  /** Tags not modelled above (or malformed), preserved verbatim. */
+  otherTags: string[];
+}
+
+export interface OrderWorkflowTagIssue {
+  tag: string;
+  field: keyof OrderWorkflowState;
+  message: string;
+}
+
+/** Thrown by serializeOrderWorkflowState; `name` maps to 400 in the API error handler. */
+export class OrderWorkflowValidationError extends Error {
+  issues: OrderWorkflowTagIssue[];
+
+  constructor(issues: OrderWorkflowTagIssue[]) {
+    super(issues.map((issue) => `${issue.field}: ${issue.message}`).join('; '));
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+type FieldKind = 'date' | 'money' | 'count' | 'text' | 'shippingMethod' | 'pin';
+
+type FieldSpec = {
+  field: Exclude<keyof OrderWorkflowState, 'statusFlags' | 'otherTags'>;
+  /** Prefix written by the serializer. */
+  prefix: string;
+  /** Legacy prefixes still accepted when parsing (rewritten to `prefix`). */
+  aliases?: string[];
+  kind: FieldKind;
+};
+
+const FIELD_SPECS: FieldSpec[] = [
+  { field: 'orderReadyDate', prefix: 'order_ready_date:', kind: 'date' },
+  { field: 'customerConfirmedDate', prefix: 'customer_confirmed_date:', kind: 'date' },
+  { field: 'movedToOnHoldDate', prefix: 'moved_to_on_hold:', kind: 'date' },
+  { field: 'shippedDate', prefix: 'shipped_date:', aliases: ['shipping_date:'], kind: 'date' },
+  { field: 'fulfillmentDate', prefix: 'fulfillment_date:', aliases: ['fulfilled_at:'], kind: 'date' },
+  { field: 'paidDate', prefix: 'paid_date:', aliases: ['payment_date:'], kind: 'date' },
+  { field: 'cancelledDate', prefix: 'cancelled_date:', kind: 'date' },
+  { field: 'manualPaidDate', prefix: 'manual_paid_date:', kind: 'date' },
+  { field: 'customStartDate', prefix: 'custom_start_date:', kind: 'date' },
+  { field: 'customDueDate', prefix: 'custom_due_date:', kind: 'date' },
+  { field: 'shippingCompanyCostDate', prefix: 'shipping_company_cost_date:', kind: 'date' },
+  { field: 'scooterShippingCostDate', prefix: 'scooter_shipping_cost_date:', kind: 'date' },
+  { field: 'shippingCompanyCost', prefix: 'shipping_company_cost:', kind: 'money' },
+  { field: 'scooterShippingCost', prefix: 'scooter_shipping_cost:', kind: 'money' },
+  { field: 'shippingBarcode', prefix: 'shipping_barcode:', kind: 'text' },
+  { field: 'shippingMethod', prefix: 'shipping_method:', kind: 'shippingMethod' },
+  { field: 'shippingRoute', prefix: 'shipping_route:', kind: 'text' },
+  { field: 'deliveryAttempts', prefix: 'delivery_attempt:', kind: 'count' },
+  { field: 'deliveryRescheduleDate', prefix: 'delivery_reschedule_date:', kind: 'date' },
+  { field: 'onHoldReason', prefix: 'on_hold_reason:', kind: 'text' },
+  { field: 'cancellationReason', prefix: 'cancellation_reason:', kind: 'text' },
+  { field: 'pin', prefix: 'pin:', kind: 'pin' },
+];
+
+/** Every prefix the parser understands (canonical + legacy). */
+export const ORDER_WORKFLOW_TAG_PREFIXES: string[] = FIELD_SPECS.flatMap((spec) => [
+  spec.prefix,
+  ...(spec.aliases ?? []),
+]);
+
+const DATE_RE = /^(\d{4}-\d{2}-\d{2})(?:[T\s].*)?$/;
+
+function normalizeTags(tags: string[] | string | null | undefined): string[] {
+  if (!tags) return [];
+  if (Array.isArray(tags)) return tags.map((t) => String(t).trim()).filter(Boolean);
+  return tags.split(',').map((t) => t.trim()).filter(Boolean);
+}
+
+function matchSpec(tag: string): { spec: FieldSpec; value: string } | null {
+  const low = tag.toLowerCase();
+  for (const spec of FIELD_SPECS) {
+    for (const prefix of [spec.prefix, ...(spec.aliases ?? [])]) {
+      if (low.startsWith(prefix)) {
+        return { spec, value: tag.slice(prefix.length).trim() };
+      }
+    }
+  }
+  return null;
+}
+
+type ParsedValue = OrderWorkflowState[FieldSpec['field']];
+
+function parseValue(kind: FieldKind, value: string): { value: ParsedValue } | { error: string } {
+  if (!value) return { error: 'empty value' };
+
+  switch (kind) {
+    case 'date': {
+      const match = value.match(DATE_RE);
+      if (!match || Number.isNaN(new Date(`${match[1]}T00:00:00Z`).getTime())) {
+        return { error: `"${value}" is not a YYYY-MM-DD date` };
+      }
+      return { value: match[1] };
+    }
+    case 'money': {
+      const amount = Number(value);
+      if (!Number.isFinite(amount) || amount < 0) {
+        return { error: `"${value}" is not a non-negative amount` };
+      }
+      return { value: amount };
+    }
+    case 'count': {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 1) {
+        return { error: `"${value}" is not a positive whole number` };
+      }
+      return { value: count };
+    }
+    case 'shippingMethod': {
+      const method = value.toLowerCase().replace('_', '-') as OrderShippingMethod;
+      if (!SHIPPING_METHODS.includes(method)) {
+        return { error: `unknown shipping method "${value}"` };
+      }
+      return { value: method };
+    }
+    case 'pin': {
+      const parts = value.split(/[,;\s|/]+/).filter(Boolean);
+      const lat = Number(parts[0]);
+      const lng = Number(parts[1]);
+      if (parts.length < 2 || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+        return { error: `"${value}" is not "lat;lng"` };
+      }
+      if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return { error: `"${value}" is out of range` };
+      }
+      return { value: { lat, lng } };
+    }
+    case 'text':
+    default:
+      return { value };
+  }
+}
+
+function formatValue(kind: FieldKind, value: NonNullable<ParsedValue>): string {
+  switch (kind) {
+    case 'money':
+    case 'count':
+      return String(value);
+    case 'pin': {
+      const pin = value as { lat: number; lng: number };
+      // `;` not `,` — Shopify splits tags on commas
+      return `${pin.lat};${pin.lng}`;
+    }
+    default:
+      return String(value);
+  }
+}
+
+export function emptyOrderWorkflowState(): OrderWorkflowState {
+  return { statusFlags: [], otherTags: [] };
+}
+
+/** Parse order tags into a typed state. Never throws; malformed values are reported in `issues`. */
+export function parseOrderWorkflowState(tags: string[] | string | null | undefined): {
+  state: OrderWorkflowState;
+  issues: OrderWorkflowTagIssue[];
+} {
+  const state = emptyOrderWorkflowState();
+  const issues: OrderWorkflowTagIssue[] = [];
+
+  for (const tag of normalizeTags(tags)) {
+    const low = tag.toLowerCase();
+    const status = STATUS_TAG_ALIASES[low] ?? (STATUS_PRECEDENCE as string[]).find((s) => s === low);
+    if (status) {
+      const flag = status as Exclude<OrderWorkflowStatus, 'pending'>;
+      if (!state.statusFlags.includes(flag)) state.statusFlags.push(flag);
+      continue;
+    }
+
+    const match = matchSpec(tag);
+    if (!match) {
+      state.otherTags.push(tag);
+      continue;
+    }
+
+    const { spec, value } = match;
+    const parsed = parseValue(spec.kind, value);
+    if ('error' in parsed) {
+      issues.push({ tag, field: spec.field, message: parsed.error });
+      state.otherTags.push(tag);
+      continue;
+    }
+
+    if (state[spec.field] !== undefined) {
+      issues.push({ tag, field: spec.field, message: 'duplicate tag kept as a raw tag' });
+      state.otherTags.push(tag);
+      continue;
+    }
+    (state as unknown as Record<string, ParsedValue>)[spec.field] = parsed.value;
+  }
+
+  return { state, issues };
+}
+
+/** Parse and ignore issues — for read-only callers (badges, filters, reports). */
+export function readOrderWorkflowState(tags: string[] | string | null | undefined): OrderWorkflowState {
+  return parseOrderWorkflowState(tags).state;
+}
+
+export function validateOrderWorkflowState(state: OrderWorkflowState): OrderWorkflowTagIssue[] {
+  const issues: OrderWorkflowTagIssue[] = [];
+  for (const spec of FIELD_SPECS) {
+    const value = state[spec.field];
+    if (value === undefined) continue;
+    const formatted = formatValue(spec.kind, value);
+    const parsed = parseValue(spec.kind, formatted);
+    if ('error' in parsed) {
+      issues.push({ tag: `${spec.prefix}${formatted}`, field: spec.field, message: parsed.error });
+    }
+  }
+  return issues;
+}
+
+/** Serialize a state back to tags (canonical prefixes). Throws OrderWorkflowValidationError on bad values. */
+export function serializeOrderWorkflowState(state: OrderWorkflowState): string[] {
+  const issues = validateOrderWorkflowState(state);
+  if (issues.length > 0) throw new OrderWorkflowValidationError(issues);
+
+  const tags = [...state.otherTags, ...state.statusFlags];
+  for (const spec of FIELD_SPECS) {
+    const value = state[spec.field];
+    if (value === undefined) continue;
+    tags.push(`${spec.prefix}${formatValue(spec.kind, value)}`);
+  }
+  return tags;
+}
+
+/**
+ * Apply a partial update to a tag list. Pass `undefined` for a field to clear it.
+ * Legacy prefixes in the input (e.g. `shipping_date:`) come back under the canonical one.
+ */
+export function updateOrderWorkflowTags(
+  tags: string[] | string | null | undefined,
+  patch: Partial<OrderWorkflowState>
+): string[] {
+  const { state } = parseOrderWorkflowState(tags);
+  const next = { ...state } as unknown as Record<string, unknown>;
+  for (const [key, value] of Object.entries(patch)) {
+    if (value !== undefined) next[key] = value;
+    else if (key === 'statusFlags' || key === 'otherTags') next[key] = [];
+    else delete next[key];
+  }
+  return serializeOrderWorkflowState(next as unknown as OrderWorkflowState);
+}
+
+/** Current pipeline status: highest-precedence status flag, else pending. */
+export function getOrderWorkflowStatus(state: Pick<OrderWorkflowState, 'statusFlags'>): OrderWorkflowStatus {
+  return STATUS_PRECEDENCE.find((status) => state.statusFlags.includes(status)) ?? 'pending';
+}
+
+export function getOrderWorkflowStatusFromTags(tags: string[] | string | null | undefined): OrderWorkflowStatus {
+  return getOrderWorkflowStatus(readOrderWorkflowState(tags));
+}
@@ -0,0 +1,35 @@
+/**
+ * Packing order for batch printing (AWB labels): orders grouped by their
+ * `shipping_route:` tag, routes A→Z as on the Orders page routes tab, orders
+ * without a route last. Within a route the caller's order is kept.
+ */
+
+import { readOrderWorkflowState } from './orderWorkflowState';
+
+export type PackingSort = 'route' | 'selection';
+
+export interface PackingItem {
+  tags: string[] | string | null | undefined;
+}
+
+export function getPackingRoute(tags: PackingItem['tags']): string | null {
+  return readOrderWorkflowState(tags).shippingRoute?.trim() || null;
+}
+
+/** Sorted copy of `items`; 'selection' keeps them as given. */
+export function sortForPacking<T extends PackingItem>(items: T[], sort: PackingSort = 'route'): T[] {
+  if (sort === 'selection') return [...items];
+
+  return items
+    .map((item, index) => ({ item, index, route: getPackingRoute(item.tags) }))
+    .sort((a, b) => {
+      if (a.route !== b.route) {
+        if (a.route === null) return 1;
+        if (b.route === null) return -1;
+        const byName = a.route.localeCompare(b.route, undefined, { sensitivity: 'base' });
+        if (byName !== 0) return byName;
+      }
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
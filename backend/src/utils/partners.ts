@@ -0,0 +1,192 @@
+/**
+ * Partner money: splitting shared expenses by ownership, each partner's running
+ * balance (what they fronted or put in vs what they took out) and the transfers
+ * that bring every partner back to their ownership share of the combined balance.
+ */
+import {
+  FinancialExpense,
+  Partner,
+  PartnerLedger,
+  PartnerLedgerEntry,
+  PartnerPosition,
+  PartnerSettlement,
+  SettlementSuggestion,
+} from '../types/financial';
+
+export const BUSINESS_PAYER = 'Business';
+export const SHARED_PAYER = 'Shared';
+
+type Ownership = Pick<Partner, 'name' | 'ownership_percent'>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Split `amount` by ownership (evenly when no one owns anything); cents go to the largest share. */
+export function splitByOwnership(amount: number, partners: Ownership[]): Record<string, number> {
+  if (partners.length === 0) return {};
+  const totalPercent = partners.reduce((sum, p) => sum + (Number(p.ownership_percent) || 0), 0);
+  const weight = (p: Ownership) =>
+    totalPercent > 0 ? (Number(p.ownership_percent) || 0) / totalPercent : 1 / partners.length;
+
+  const split: Record<string, number> = {};
+  for (const partner of partners) split[partner.name] = roundMoney(amount * weight(partner));
+
+  const remainder = roundMoney(amount - Object.values(split).reduce((sum, value) => sum + value, 0));
+  if (remainder !== 0) {
+    const largest = partners.reduce((a, b) => (weight(b) > weight(a) ? b : a));
+    split[largest.name] = roundMoney(split[largest.name] + remainder);
+  }
+  return split;
+}
+
+/** What `partner` fronted for an expense: all of it, their split of a shared one, or nothing. */
+export function partnerShareOfExpense(
+  expense: Pick<FinancialExpense, 'amount' | 'paid_by' | 'split_payment'>,
+  partner: string
+): number {
+  if (expense.paid_by === partner) return Number(expense.amount) || 0;
+  if (expense.paid_by !== SHARED_PAYER) return 0;
+  return Number(expense.split_payment?.[partner]) || 0;
+}
+
+/** Still owed to `partner` for this expense: their share unless they were paid back. */
+export function partnerOwedForExpense(
+  expense: Pick<FinancialExpense, 'amount' | 'paid_by' | 'split_payment' | 'settled' | 'settled_partners'>,
+  partner: string
+): number {
+  if (expense.settled || (expense.settled_partners ?? []).includes(partner)) return 0;
+  return partnerShareOfExpense(expense, partner);
+}
+
+/** Partners that still have to be paid back for a shared expense. */
+export function partnersToSettle(expense: Pick<FinancialExpense, 'paid_by' | 'split_payment'>): string[] {
+  if (expense.paid_by === BUSINESS_PAYER) return [];
+  if (expense.paid_by !== SHARED_PAYER) return [expense.paid_by];
+  return Object.entries(expense.split_payment ?? {})
+    .filter(([, amount]) => Number(amount) > 0)
+    .map(([name]) => name);
+}
+
+/** Signed effect of a settlement row on `partner`'s balance. */
+function settlementAmountFor(settlement: PartnerSettlement, partner: string): number {
+  const amount = Number(settlement.amount) || 0;
+  if (settlement.kind === 'transfer' && settlement.counterparty === partner) return -amount;
+  if (settlement.partner !== partner) return 0;
+  return settlement.kind === 'contribution' || settlement.kind === 'transfer' ? amount : -amount;
+}
+
+function settlementDescription(settlement: PartnerSettlement, partner: string): string {
+  const note = settlement.note ? ` — ${settlement.note}` : '';
+  switch (settlement.kind) {
+    case 'draw':
+      return `Draw${note}`;
+    case 'contribution':
+      return `Contribution${note}`;
+    case 'transfer':
+      return settlement.partner === partner
+        ? `Paid ${settlement.counterparty}${note}`
+        : `Received from ${settlement.partner}${note}`;
+    default:
+      return `Paid back by the business${note}`;
+  }
+}
+
+/**
+ * Every expense and settlement touching `partner`, oldest first, with a running balance.
+ * Expenses flagged as paid back without a reimbursement row (settled before the
+ * settle button recorded one) are left out, so they are not owed twice.
+ */
+export function buildPartnerLedger(
+  partner: string,
+  expenses: FinancialExpense[],
+  settlements: PartnerSettlement[]
+): PartnerLedger {
+  const entries: Omit<PartnerLedgerEntry, 'balance'>[] = [];
+  const reimbursed = new Set(
+    settlements
+      .filter((s) => (s.kind ?? 'reimbursement') === 'reimbursement' && s.partner === partner)
+      .flatMap((s) => s.expense_ids ?? [])
+  );
+
+  for (const expense of expenses) {
+    const share = partnerShareOfExpense(expense, partner);
+    if (share === 0) continue;
+    if (partnerOwedForExpense(expense, partner) === 0 && !reimbursed.has(expense.id)) continue;
+    entries.push({
+      date: expense.date.substring(0, 10),
+      kind: 'expense',
+      description: expense.notes ? `${expense.category} — ${expense.notes}` : expense.category,
+      amount: roundMoney(share),
+      expense_id: expense.id,
+    });
+  }
+
+  for (const settlement of settlements) {
+    const amount = settlementAmountFor(settlement, partner);
+    if (amount === 0) continue;
+    entries.push({
+      date: settlement.date.substring(0, 10),
+      kind: settlement.kind ?? 'reimbursement',
+      description: settlementDescription(settlement, partner),
+      amount: roundMoney(amount),
+      settlement_id: settlement.id,
+    });
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  let fronted = 0;
+  let takenOut = 0;
+  const withBalance = entries.map((entry) => {
+    balance = roundMoney(balance + entry.amount);
+    if (entry.amount > 0) fronted += entry.amount;
+    else takenOut -= entry.amount;
+    return { ...entry, balance };
+  });
+
+  return { partner, fronted: roundMoney(fronted), taken_out: roundMoney(takenOut), balance, entries: withBalance };
+}
+
+/** Each partner's balance against their ownership share of the combined balance. */
+export function partnerPositions(partners: Ownership[], balances: Record<string, number>): PartnerPosition[] {
+  const totalBalance = partners.reduce((sum, p) => sum + (balances[p.name] ?? 0), 0);
+  const targets = splitByOwnership(totalBalance, partners);
+  return partners.map((partner) => {
+    const balance = roundMoney(balances[partner.name] ?? 0);
+    const target = targets[partner.name] ?? 0;
+    return {
+      partner: partner.name,
+      ownership_percent: Number(partner.ownership_percent) || 0,
+      balance,
+      target,
+      difference: roundMoney(balance - target),
+    };
+  });
+}
+
+/** Fewest transfers, largest first, from partners below their share to partners above it. */
+export function suggestSettlements(positions: PartnerPosition[]): SettlementSuggestion[] {
+  const debtors = positions
+    .filter((p) => p.difference < -0.005)
+    .map((p) => ({ name: p.partner, amount: -p.difference }))
+    .sort((a, b) => b.amount - a.amount);
+  const creditors = positions
+    .filter((p) => p.difference > 0.005)
+    .map((p) => ({ name: p.partner, amount: p.difference }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const suggestions: SettlementSuggestion[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = roundMoney(Math.min(debtors[d].amount, creditors[c].amount));
+    if (amount >= 0.01) suggestions.push({ from: debtors[d].name, to: creditors[c].name, amount });
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount < 0.005) d += 1;
+    if (creditors[c].amount < 0.005) c += 1;
+  }
+  return suggestions;
+}
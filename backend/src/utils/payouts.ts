@@ -0,0 +1,80 @@
+/**
+ * Monthly payouts from the Distributable Profit Pool: media buyer, ops and CRM
+ * commissions, then owner pay (fixed or percent), the rest stays in the business.
+ */
+import { MonthlyPayout, MonthlyProfit, PayoutConfig } from '../types/financial';
+
+export interface PayoutAmounts {
+  dpp: number;
+  media_buyer_amount: number;
+  ops_amount: number;
+  crm_amount: number;
+  owner_amount: number;
+  net_business_profit: number;
+}
+
+const PAYOUT_CONFIG_NUMBER_FIELDS = ['media_buyer_percent', 'ops_percent', 'crm_percent', 'owner_pay_value'] as const;
+type PayoutConfigNumberField = (typeof PAYOUT_CONFIG_NUMBER_FIELDS)[number];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** The config version in force for `month` (YYYY-MM): latest effective_from on or before it. */
+export function payoutConfigForMonth(versions: PayoutConfig[], month: string): PayoutConfig | null {
+  let effective: PayoutConfig | null = null;
+  for (const version of versions) {
+    if (version.effective_from > month) continue;
+    if (!effective || version.effective_from > effective.effective_from) effective = version;
+  }
+  return effective;
+}
+
+/**
+ * Percent payouts are shares of a positive pool only; a fixed owner pay is owed
+ * regardless, so a weak month can end with a negative net business profit.
+ */
+export function calculatePayoutAmounts(
+  profit: Pick<MonthlyProfit, 'dpp' | 'cash_dpp'>,
+  config: Pick<
+    PayoutConfig,
+    'basis' | 'media_buyer_percent' | 'ops_percent' | 'crm_percent' | 'owner_pay_type' | 'owner_pay_value'
+  >
+): PayoutAmounts {
+  const dpp = round2(Number(config.basis === 'cash_dpp' ? profit.cash_dpp : profit.dpp) || 0);
+  const pool = Math.max(dpp, 0);
+  const share = (percent: number) => round2((pool * (Number(percent) || 0)) / 100);
+
+  const mediaBuyer = share(config.media_buyer_percent);
+  const ops = share(config.ops_percent);
+  const crm = share(config.crm_percent);
+  const owner =
+    config.owner_pay_type === 'fixed' ? round2(Number(config.owner_pay_value) || 0) : share(config.owner_pay_value);
+
+  return {
+    dpp,
+    media_buyer_amount: mediaBuyer,
+    ops_amount: ops,
+    crm_amount: crm,
+    owner_amount: owner,
+    net_business_profit: round2(dpp - mediaBuyer - ops - crm - owner),
+  };
+}
+
+/**
+ * Was the draft calculated from this profit and this config? Editing a config in its
+ * own month keeps the version id, so the copied fields and every amount are compared.
+ */
+export function isPayoutDraftCurrent(
+  draft: Pick<MonthlyPayout, 'config_id' | 'basis' | 'owner_pay_type' | keyof PayoutAmounts | PayoutConfigNumberField>,
+  config: PayoutConfig,
+  profit: Pick<MonthlyProfit, 'dpp' | 'cash_dpp'>
+): boolean {
+  if (draft.config_id !== config.id || draft.basis !== config.basis || draft.owner_pay_type !== config.owner_pay_type) {
+    return false;
+  }
+  if (PAYOUT_CONFIG_NUMBER_FIELDS.some((field) => Number(draft[field]) !== Number(config[field]))) return false;
+
+  const amounts = calculatePayoutAmounts(profit, config);
+  return (Object.keys(amounts) as Array<keyof PayoutAmounts>).every((key) => Number(draft[key]) === amounts[key]);
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-product unit costs, versioned by effective date, and accrual COGS
+ * (units sold × the unit cost in effect on the day each order was paid).
+ */
+import { ProductCost } from '../types/financial';
+import { readOrderWorkflowState } from './orderWorkflowState';
+import { isPriorityMakingLineItem, normalizeShopifyNumericId } from './priorityMakingRush';
+
+export const PRODUCT_COST_COMPONENTS = [
+  'crochet_labor_per_unit',
+  'yarn_cost_per_unit',
+  'helper_colors_cost_per_unit',
+  'laser_felt_cost_per_unit',
+  'packaging_per_unit',
+] as const;
+
+export type ProductCostComponent = (typeof PRODUCT_COST_COMPONENTS)[number];
+
+export interface CogsOrder {
+  name?: string;
+  created_at?: string;
+  tags?: string[] | string | null;
+  line_items?: Array<{ title: string; quantity: number; product_id?: number | string | null }>;
+}
+
+export interface CogsResult {
+  cogs: number;
+  units: number;
+  /** Units sold with no cost version in effect on the paid date. */
+  uncostedUnits: number;
+  /** Products (by title) missing a cost; shown so the config can be completed. */
+  uncostedProducts: string[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function unitCostTotal(cost: Pick<ProductCost, ProductCostComponent>): number {
+  return round2(PRODUCT_COST_COMPONENTS.reduce((sum, field) => sum + (Number(cost[field]) || 0), 0));
+}
+
+/** The version of a product's cost in effect on `date` (YYYY-MM-DD): latest effective_from on or before it. */
+export function effectiveProductCost(versions: ProductCost[], productId: string, date: string): ProductCost | null {
+  let effective: ProductCost | null = null;
+  for (const version of versions) {
+    if (version.product_id !== productId || version.effective_from > date) continue;
+    if (!effective || version.effective_from > effective.effective_from) effective = version;
+  }
+  return effective;
+}
+
+/** One row per product: the version in effect on `date`. */
+export function effectiveProductCosts(versions: ProductCost[], date: string): ProductCost[] {
+  const productIds = Array.from(new Set(versions.map((version) => version.product_id)));
+  return productIds
+    .map((productId) => effectiveProductCost(versions, productId, date))
+    .filter((cost): cost is ProductCost => cost !== null);
+}
+
+/** Accrual COGS for paid orders, costed on each order's paid date (created date when it has none). */
+export function calculateCogs(orders: CogsOrder[], versions: ProductCost[]): CogsResult {
+  let cogs = 0;
+  let units = 0;
+  let uncostedUnits = 0;
+  const uncosted = new Set<string>();
+
+  for (const order of orders) {
+    const state = readOrderWorkflowState(order.tags);
+    const date = (state.paidDate ?? order.created_at ?? '').substring(0, 10);
+
+    for (const item of order.line_items || []) {
+      // Priority Making is a service fee, not a product we make
+      if (!item.product_id || isPriorityMakingLineItem(item)) continue;
+      units += item.quantity;
+      const cost = effectiveProductCost(versions, normalizeShopifyNumericId(item.product_id), date);
+      if (!cost) {
+        uncostedUnits += item.quantity;
+        uncosted.add(item.title);
+        continue;
+      }
+      cogs += unitCostTotal(cost) * item.quantity;
+    }
+  }
+
+  return { cogs: round2(cogs), units, uncostedUnits, uncostedProducts: Array.from(uncosted).sort() };
+}
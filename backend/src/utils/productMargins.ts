@@ -0,0 +1,210 @@
+/**
+ * Product and variant margins for a period: paid units, selling price net of
+ * discounts, unit cost at the version in effect on each paid date, and the
+ * trend against the period before.
+ */
+import {
+  ProductCost,
+  ProductMarginData,
+  ProductMarginMetrics,
+  ProductMarginsReport,
+  ProductMarginTrend,
+  ProductVariantMarginData,
+} from '../types/financial';
+import { readOrderWorkflowState } from './orderWorkflowState';
+import { isPriorityMakingLineItem, normalizeShopifyNumericId } from './priorityMakingRush';
+import { effectiveProductCost, unitCostTotal } from './productCosts';
+
+export interface MarginOrder {
+  name?: string;
+  created_at?: string;
+  tags?: string[] | string | null;
+  line_items?: Array<{
+    title: string;
+    quantity: number;
+    price?: string | number;
+    /** Discounts allocated to the line; older finance snapshots don't carry it. */
+    total_discount?: string | number;
+    variant_title?: string | null;
+    product_id?: number | string | null;
+    variant_id?: number | string | null;
+  }>;
+}
+
+export interface MarginPeriod {
+  from: string;
+  to: string;
+  previousFrom: string;
+  previousTo: string;
+}
+
+interface Totals {
+  units: number;
+  revenue: number;
+  costedUnits: number;
+  costedRevenue: number;
+  cost: number;
+}
+
+interface ProductTotals extends Totals {
+  name: string;
+  variants: Map<string, Totals & { title: string }>;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyTotals(): Totals {
+  return { units: 0, revenue: 0, costedUnits: 0, costedRevenue: 0, cost: 0 };
+}
+
+function addSale(totals: Totals, units: number, revenue: number, unitCost: number | null): void {
+  totals.units += units;
+  totals.revenue += revenue;
+  if (unitCost === null) return;
+  totals.costedUnits += units;
+  totals.costedRevenue += revenue;
+  totals.cost += unitCost * units;
+}
+
+/** Per-product totals keyed by product ID, each with its variants keyed by variant ID. */
+function collectTotals(orders: MarginOrder[], versions: ProductCost[]): Map<string, ProductTotals> {
+  const products = new Map<string, ProductTotals>();
+
+  for (const order of orders) {
+    const state = readOrderWorkflowState(order.tags);
+    const date = (state.paidDate ?? order.created_at ?? '').substring(0, 10);
+
+    for (const item of order.line_items || []) {
+      // Priority Making is a service fee, not a product we make
+      if (!item.product_id || isPriorityMakingLineItem(item) || item.quantity <= 0) continue;
+      const productId = normalizeShopifyNumericId(item.product_id);
+      const variantId = item.variant_id ? normalizeShopifyNumericId(item.variant_id) : '';
+      const revenue = (Number(item.price) || 0) * item.quantity - (Number(item.total_discount) || 0);
+      const cost = effectiveProductCost(versions, productId, date);
+      const unitCost = cost ? unitCostTotal(cost) : null;
+
+      let product = products.get(productId);
+      if (!product) {
+        product = { ...emptyTotals(), name: item.title, variants: new Map() };
+        products.set(productId, product);
+      }
+      let variant = product.variants.get(variantId);
+      if (!variant) {
+        variant = { ...emptyTotals(), title: item.variant_title || 'Default' };
+        product.variants.set(variantId, variant);
+      }
+
+      addSale(product, item.quantity, revenue, unitCost);
+      addSale(variant, item.quantity, revenue, unitCost);
+    }
+  }
+
+  return products;
+}
+
+function toMetrics(totals: Totals, periodRevenue: number): ProductMarginMetrics {
+  const hasCost = totals.costedUnits > 0;
+  return {
+    units_sold: totals.units,
+    total_revenue: round2(totals.revenue),
+    average_selling_price: totals.units > 0 ? round2(totals.revenue / totals.units) : 0,
+    total_cost: round2(totals.cost),
+    cost_per_unit: hasCost ? round2(totals.cost / totals.costedUnits) : null,
+    margin_percent:
+      hasCost && totals.costedRevenue > 0
+        ? round1(((totals.costedRevenue - totals.cost) / totals.costedRevenue) * 100)
+        : null,
+    gross_profit: hasCost ? round2(totals.costedRevenue - totals.cost) : null,
+    revenue_share: periodRevenue > 0 ? round1((totals.revenue / periodRevenue) * 100) : 0,
+    uncosted_units: totals.units - totals.costedUnits,
+    trend: null,
+  };
+}
+
+function percentChange(current: number, previous: number): number {
+  return previous !== 0 ? round1(((current - previous) / Math.abs(previous)) * 100) : 0;
+}
+
+/** How `current` moved against the same product (or variant) in the previous period. */
+export function marginTrend(current: ProductMarginMetrics, previous: ProductMarginMetrics | undefined): ProductMarginTrend | null {
+  if (!previous || previous.units_sold === 0) return null;
+  return {
+    previous_units_sold: previous.units_sold,
+    previous_average_selling_price: previous.average_selling_price,
+    previous_margin_percent: previous.margin_percent,
+    units_sold_change_percent: percentChange(current.units_sold, previous.units_sold),
+    average_selling_price_change_percent: percentChange(
+      current.average_selling_price,
+      previous.average_selling_price
+    ),
+    margin_percent_change:
+      current.margin_percent !== null && previous.margin_percent !== null
+        ? round1(current.margin_percent - previous.margin_percent)
+        : null,
+  };
+}
+
+/** One row per product sold in `orders`, highest revenue first, variants nested the same way. */
+export function calculateProductMargins(orders: MarginOrder[], versions: ProductCost[]): ProductMarginData[] {
+  const products = collectTotals(orders, versions);
+  const periodRevenue = Array.from(products.values()).reduce((sum, product) => sum + product.revenue, 0);
+
+  return Array.from(products, ([productId, product]): ProductMarginData => {
+    const variants = Array.from(
+      product.variants,
+      ([variantId, variant]): ProductVariantMarginData => ({
+        variant_id: variantId,
+        variant_title: variant.title,
+        ...toMetrics(variant, periodRevenue),
+      })
+    ).sort((a, b) => b.total_revenue - a.total_revenue);
+
+    return {
+      product_id: productId,
+      product_name: product.name,
+      ...toMetrics(product, periodRevenue),
+      variants,
+    };
+  }).sort((a, b) => b.total_revenue - a.total_revenue);
+}
+
+/** Margins for the period's paid orders with each product and variant compared to the previous period. */
+export function buildProductMarginsReport(
+  period: MarginPeriod,
+  orders: MarginOrder[],
+  previousOrders: MarginOrder[],
+  versions: ProductCost[]
+): ProductMarginsReport {
+  const products = calculateProductMargins(orders, versions);
+  const previous = new Map(
+    calculateProductMargins(previousOrders, versions).map((product) => [product.product_id, product])
+  );
+
+  for (const product of products) {
+    const before = previous.get(product.product_id);
+    product.trend = marginTrend(product, before);
+    for (const variant of product.variants) {
+      variant.trend = marginTrend(
+        variant,
+        before?.variants.find((candidate) => candidate.variant_id === variant.variant_id)
+      );
+    }
+  }
+
+  return {
+    from: period.from,
+    to: period.to,
+    previous_from: period.previousFrom,
+    previous_to: period.previousTo,
+    total_revenue: round2(products.reduce((sum, product) => sum + product.total_revenue, 0)),
+    total_units: products.reduce((sum, product) => sum + product.units_sold, 0),
+    uncosted_units: products.reduce((sum, product) => sum + product.uncosted_units, 0),
+    products,
+  };
+}
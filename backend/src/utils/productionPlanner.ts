@@ -0,0 +1,296 @@
+/**
+ * Production capacity planner: fills each working day's maker capacity with the
+ * orders waiting to be made and proposes start/due dates for them.
+ *
+ * - Capacity is in hours per working day (use hoursPerUnit: 1 to plan in units).
+ * - Priority Making orders (and the `priority` tag) jump the queue.
+ * - Orders whose dates were set by hand are locked: they keep their dates and
+ *   consume capacity from their start date; only planner-scheduled orders reflow.
+ * - An order is infeasible when its planned finish falls after its due date.
+ */
+import type { ShopifyOrder } from '../services/shopify';
+import { parseOrderTags } from './financeMonth';
+import { detectLegacyMakingTime } from './orderListQuery';
+import { getOrderWorkflowStatusFromTags, readOrderWorkflowState } from './orderWorkflowState';
+import { analyzePriorityMakingLineItems, isPriorityMakingLineItem } from './priorityMakingRush';
+
+/** Marks dates written by the planner; manual date edits remove it (the order becomes locked). */
+export const PLANNER_SCHEDULED_TAG = 'planner_scheduled';
+
+/** How far ahead the planner looks for free capacity. */
+const MAX_PLANNING_DAYS = 365;
+
+export interface ProductionProductType {
+  /** Shown in the settings UI. */
+  name: string;
+  /** Case-insensitive substring of the line item title (or variant title). */
+  match: string;
+  hoursPerUnit: number;
+  /** Calendar days from start to due for orders containing this product. */
+  makingDays: number;
+}
+
+export interface ProductionPlannerSettings {
+  /** Maker hours available per working day. */
+  dailyCapacityHours: number;
+  /** Weekdays off, 0 = Sunday … 6 = Saturday (Friday = 5). */
+  weeklyDaysOff: number[];
+  /** YYYY-MM-DD days off. */
+  holidays: string[];
+  /** YYYY-MM-DD → hours, for days with more or fewer makers than usual. */
+  capacityOverrides: Record<string, number>;
+  productTypes: ProductionProductType[];
+  defaultHoursPerUnit: number;
+  defaultMakingDays: number;
+  priorityMakingDays: number;
+  /** Days from ready to delivered (storefront delivery estimates). */
+  shippingDays: number;
+  /** Write proposed dates on new orders as they arrive. */
+  autoAssign: boolean;
+}
+
+export const DEFAULT_PRODUCTION_PLANNER_SETTINGS: ProductionPlannerSettings = {
+  dailyCapacityHours: 8,
+  weeklyDaysOff: [5],
+  holidays: [],
+  capacityOverrides: {},
+  productTypes: [],
+  defaultHoursPerUnit: 2.5,
+  defaultMakingDays: 7,
+  priorityMakingDays: 3,
+  shippingDays: 2,
+  autoAssign: false,
+};
+
+export interface ProductionPlanEntry {
+  orderId: number;
+  orderName: string;
+  hours: number;
+  priority: boolean;
+  /** Dates set by hand; the planner never moves them. */
+  locked: boolean;
+  plannedStart: string | null;
+  plannedFinish: string | null;
+  plannedDue: string | null;
+  currentStart: string | null;
+  currentDue: string | null;
+  /** False when the order cannot be finished by its due date (or at all within the horizon). */
+  feasible: boolean;
+}
+
+export interface ProductionPlanDay {
+  date: string;
+  capacityHours: number;
+  usedHours: number;
+}
+
+export interface ProductionPlan {
+  today: string;
+  entries: ProductionPlanEntry[];
+  days: ProductionPlanDay[];
+}
+
+/**
+ * Still to be made: pending, or customer_confirmed (in production) without an
+ * `order_ready_date:` — confirmed orders only leave the queue once they are ready.
+ */
+export function isAwaitingProduction(tags: ShopifyOrder['tags']): boolean {
+  const status = getOrderWorkflowStatusFromTags(tags);
+  if (status === 'pending') return true;
+  return status === 'customer_confirmed' && !readOrderWorkflowState(tags).orderReadyDate;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function isDateString(value: string | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value.substring(0, 10)) && !Number.isNaN(Date.parse(value.substring(0, 10)));
+}
+
+export function capacityForDay(date: string, settings: ProductionPlannerSettings): number {
+  if (settings.holidays.includes(date)) return 0;
+  if (settings.capacityOverrides[date] !== undefined) return Math.max(0, settings.capacityOverrides[date]);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return settings.weeklyDaysOff.includes(weekday) ? 0 : Math.max(0, settings.dailyCapacityHours);
+}
+
+type LineItem = ShopifyOrder['line_items'][number];
+
+function productTypeFor(item: LineItem, settings: ProductionPlannerSettings): ProductionProductType | null {
+  const text = `${item.title || ''} ${item.variant_title || ''}`.toLowerCase();
+  return settings.productTypes.find((type) => type.match && text.includes(type.match.toLowerCase())) ?? null;
+}
+
+/** Line items that are made by hand (skips Priority Making and making-time add-ons). */
+function madeLineItems(order: ShopifyOrder): LineItem[] {
+  return (order.line_items || []).filter(
+    (item) => !isPriorityMakingLineItem(item) && detectLegacyMakingTime([item]) === null
+  );
+}
+
+export function getOrderMakingHours(order: ShopifyOrder, settings: ProductionPlannerSettings): number {
+  return madeLineItems(order).reduce((sum, item) => {
+    const hoursPerUnit = productTypeFor(item, settings)?.hoursPerUnit ?? settings.defaultHoursPerUnit;
+    return sum + (Number(item.quantity) || 0) * hoursPerUnit;
+  }, 0);
+}
+
+export function isPriorityMakingOrder(order: ShopifyOrder): boolean {
+  const pm = analyzePriorityMakingLineItems(order.line_items || []);
+  if (pm.hasPriorityMaking && pm.quantitiesMatch) return true;
+  if (detectLegacyMakingTime(order.line_items || []) === 3) return true;
+  return parseOrderTags(order.tags).some((tag) => tag.toLowerCase() === 'priority');
+}
+
+/** Calendar making days: Priority Making, else the slowest product type, else the default. */
+export function getOrderMakingDays(order: ShopifyOrder, settings: ProductionPlannerSettings): number {
+  if (isPriorityMakingOrder(order)) return settings.priorityMakingDays;
+  const typeDays = madeLineItems(order)
+    .map((item) => productTypeFor(item, settings)?.makingDays)
+    .filter((days): days is number => typeof days === 'number');
+  return typeDays.length > 0 ? Math.max(...typeDays) : settings.defaultMakingDays;
+}
+
+class CapacityCalendar {
+  private used = new Map<string, number>();
+
+  constructor(
+    private readonly settings: ProductionPlannerSettings,
+    readonly today: string
+  ) {}
+
+  /**
+   * Consume `hours` from `from` onward (never before today).
+   * Returns the first and last day used, or null when the horizon runs out.
+   */
+  consume(hours: number, from: string): { start: string; finish: string } | null {
+    let day = from > this.today ? from : this.today;
+    let remaining = hours;
+    let start: string | null = null;
+
+    for (let i = 0; i < MAX_PLANNING_DAYS; i++, day = addDays(day, 1)) {
+      const free = capacityForDay(day, this.settings) - (this.used.get(day) ?? 0);
+      if (free <= 0) continue;
+      start = start ?? day;
+      if (remaining <= 0) return { start, finish: day };
+      const take = Math.min(free, remaining);
+      this.used.set(day, (this.used.get(day) ?? 0) + take);
+      remaining -= take;
+      if (remaining <= 1e-9) return { start, finish: day };
+    }
+    return null;
+  }
+
+  days(until: string): ProductionPlanDay[] {
+    const result: ProductionPlanDay[] = [];
+    for (let day = this.today; day <= until; day = addDays(day, 1)) {
+      result.push({ date: day, capacityHours: capacityForDay(day, this.settings), usedHours: this.used.get(day) ?? 0 });
+    }
+    return result;
+  }
+}
+
+/**
+ * Plan `orders` (the ones still to be made) starting `today` (YYYY-MM-DD, Cairo).
+ * Entries come back in queue order.
+ */
+export function planProduction(
+  orders: ShopifyOrder[],
+  settings: ProductionPlannerSettings,
+  today: string
+): ProductionPlan {
+  const calendar = new CapacityCalendar(settings, today);
+
+  const candidates = orders.map((order) => {
+    const tags = parseOrderTags(order.tags);
+    const state = readOrderWorkflowState(tags);
+    const currentStart = isDateString(state.customStartDate) ? state.customStartDate.substring(0, 10) : null;
+    const currentDue = isDateString(state.customDueDate) ? state.customDueDate.substring(0, 10) : null;
+    const plannerScheduled = tags.some((tag) => tag.toLowerCase() === PLANNER_SCHEDULED_TAG);
+    return {
+      order,
+      hours: getOrderMakingHours(order, settings),
+      makingDays: getOrderMakingDays(order, settings),
+      priority: isPriorityMakingOrder(order),
+      locked: !plannerScheduled && (currentStart !== null || currentDue !== null),
+      currentStart,
+      currentDue,
+    };
+  });
+
+  // Queue: priority first, then first come first served
+  const queueKey = (c: (typeof candidates)[number]) => c.currentStart ?? c.order.created_at ?? '';
+  const queue = [...candidates].sort((a, b) => {
+    if (a.priority !== b.priority) return a.priority ? -1 : 1;
+    const byDate = queueKey(a).localeCompare(queueKey(b));
+    return byDate !== 0 ? byDate : a.order.id - b.order.id;
+  });
+
+  const entries = new Map<number, ProductionPlanEntry>();
+
+  // Locked orders hold their own days first
+  for (const c of queue.filter((c) => c.locked)) {
+    const slot = calendar.consume(c.hours, c.currentStart ?? today);
+    const due = c.currentDue ?? (c.currentStart ? addDays(c.currentStart, c.makingDays) : null);
+    entries.set(c.order.id, {
+      orderId: c.order.id,
+      orderName: c.order.name,
+      hours: c.hours,
+      priority: c.priority,
+      locked: true,
+      plannedStart: c.currentStart ?? slot?.start ?? null,
+      plannedFinish: slot?.finish ?? null,
+      plannedDue: due,
+      currentStart: c.currentStart,
+      currentDue: c.currentDue,
+      feasible: !!slot && (!due || slot.finish <= due),
+    });
+  }
+
+  for (const c of queue.filter((c) => !c.locked)) {
+    const slot = calendar.consume(c.hours, today);
+    const due = slot ? [slot.finish, addDays(slot.start, c.makingDays)].sort()[1] : null;
+    entries.set(c.order.id, {
+      orderId: c.order.id,
+      orderName: c.order.name,
+      hours: c.hours,
+      priority: c.priority,
+      locked: false,
+      plannedStart: slot?.start ?? null,
+      plannedFinish: slot?.finish ?? null,
+      plannedDue: due,
+      currentStart: c.currentStart,
+      currentDue: c.currentDue,
+      // A reflow moves the date, but the one already promised cannot be met
+      feasible: !!slot && (!c.currentDue || slot.finish <= c.currentDue),
+    });
+  }
+
+  const ordered = queue.map((c) => entries.get(c.order.id)!);
+  const lastFinish = ordered.reduce((max, e) => (e.plannedFinish && e.plannedFinish > max ? e.plannedFinish : max), today);
+  return { today, entries: ordered, days: calendar.days(lastFinish) };
+}
+
+/** Tags after applying a planned entry (null when nothing changes). */
+export function applyPlannedDates(tags: string[], entry: ProductionPlanEntry): string[] | null {
+  if (entry.locked || !entry.plannedStart || !entry.plannedDue) return null;
+  if (
+    entry.currentStart === entry.plannedStart &&
+    entry.currentDue === entry.plannedDue &&
+    tags.some((tag) => tag.toLowerCase() === PLANNER_SCHEDULED_TAG)
+  ) {
+    return null;
+  }
+  return [
+    ...tags.filter((tag) => {
+      const lc = tag.toLowerCase();
+      return !lc.startsWith('custom_start_date:') && !lc.startsWith('custom_due_date:') && lc !== PLANNER_SCHEDULED_TAG;
+    }),
+    `custom_start_date:${entry.plannedStart}`,
+    `custom_due_date:${entry.plannedDue}`,
+    PLANNER_SCHEDULED_TAG,
+  ];
+}
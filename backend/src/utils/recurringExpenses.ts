@@ -0,0 +1,88 @@
+/**
+ * Occurrence dates for recurring expense templates and how each one stands
+ * (scheduled, adjusted, skipped, posted). The scheduler job posts due ones as
+ * financial_expenses rows through services/financial/recurringExpenseService.
+ */
+import {
+  RecurringExpense,
+  RecurringExpenseCadence,
+  RecurringExpenseOccurrence,
+  RecurringOccurrencePreview,
+} from '../types/financial';
+import { shiftFinanceMonth } from './financeMonth';
+
+export const CADENCE_MONTHS: Record<RecurringExpenseCadence, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+type Schedule = Pick<RecurringExpense, 'cadence' | 'day_of_month' | 'start_date' | 'end_date'>;
+
+/** `day` of YYYY-MM, or the month's last day when it is shorter. */
+export function occurrenceDateInMonth(month: string, day: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return `${month}-${String(Math.min(Math.max(day, 1), lastDay)).padStart(2, '0')}`;
+}
+
+/** Occurrence dates (YYYY-MM-DD) between `from` and `to` inclusive, oldest first. */
+export function occurrenceDates(schedule: Schedule, from: string, to: string): string[] {
+  const step = CADENCE_MONTHS[schedule.cadence] ?? 1;
+  const last = schedule.end_date && schedule.end_date < to ? schedule.end_date : to;
+  const dates: string[] = [];
+
+  for (let month = schedule.start_date.substring(0, 7); month <= last.substring(0, 7); month = shiftFinanceMonth(month, step)) {
+    const date = occurrenceDateInMonth(month, schedule.day_of_month);
+    if (date < schedule.start_date || date < from || date > last) continue;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * First date the scheduler posts for a template: the day it was created, so a start
+ * date in the past does not re-enter expenses already recorded by hand, unless
+ * `backfill` asks for the earlier occurrences too.
+ */
+export function firstPostableDate(template: Pick<RecurringExpense, 'start_date' | 'created_at' | 'backfill'>): string {
+  const created = template.created_at.substring(0, 10);
+  return template.backfill || created < template.start_date ? template.start_date : created;
+}
+
+/** Every occurrence of `templates` from `from` to `to`, with any skip, adjustment or posting applied. */
+export function previewOccurrences(
+  templates: RecurringExpense[],
+  occurrences: RecurringExpenseOccurrence[],
+  from: string,
+  to: string,
+  today: string
+): RecurringOccurrencePreview[] {
+  const byKey = new Map(occurrences.map((o) => [`${o.recurring_expense_id}:${o.occurrence_date}`, o]));
+  const rows: RecurringOccurrencePreview[] = [];
+
+  for (const template of templates) {
+    const postableFrom = firstPostableDate(template);
+    for (const date of occurrenceDates(template, from, to)) {
+      const occurrence = byKey.get(`${template.id}:${date}`);
+      // Never posted by the scheduler; only listed when something was recorded for it
+      if (date < postableFrom && !occurrence) continue;
+      let status: RecurringOccurrencePreview['status'] = date <= today ? 'due' : 'scheduled';
+      if (occurrence?.status === 'posted') status = 'posted';
+      else if (occurrence?.status === 'skipped') status = 'skipped';
+      else if (occurrence?.amount != null && date > today) status = 'adjusted';
+
+      rows.push({
+        recurring_expense_id: template.id,
+        name: template.name,
+        category: template.category,
+        date,
+        amount: Number(occurrence?.amount ?? template.amount),
+        status,
+        expense_id: occurrence?.expense_id ?? null,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
@@ -5,6 +5,7 @@ type RawLineItem = {
   currentQuantity?: number;
   current_quantity?: number;
   price?: string;
+  total_discount?: string;
   variant_title?: string | null;
   product_id?: number;
   variant_id?: number;
@@ -56,3 +57,9 @@ export function normalizeShopifyOrder<T extends RawOrder>(order: T): T {
     ...(shippingSet ? { total_shipping_price_set: shippingSet } : {}),
   };
 }
+
+/** Sum of a line item's discount allocations (REST `discount_allocations`) as a decimal string. */
+export function lineItemDiscountTotal(allocations: Array<{ amount?: string | number | null }> | undefined | null): string {
+  const total = (allocations ?? []).reduce((sum, allocation) => sum + (Number(allocation.amount) || 0), 0);
+  return String(Math.round(total * 100) / 100);
+}
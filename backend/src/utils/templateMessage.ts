@@ -7,6 +7,7 @@ export type TemplatePlaceholderData = {
   order_number: string;
   shipping_price?: string;
   total_price?: string;
+  delivery_attempt?: string;
 };
 
 export function applyTemplatePlaceholders(
@@ -22,6 +23,7 @@ export function applyTemplatePlaceholders(
     .replace(/\{\{order_number\}\}/g, data.order_number)
     .replace(/\{\{shipping_price\}\}/g, data.shipping_price ?? '—')
     .replace(/\{\{total_price\}\}/g, data.total_price ?? '—')
+    .replace(/\{\{delivery_attempt\}\}/g, data.delivery_attempt ?? '—')
     .replace(/\{\{1\}\}/g, data.customer_first_name)
     .replace(/\{\{2\}\}/g, data.order_number);
 }
@@ -7,6 +7,8 @@ import Finance from './pages/Finance';
 import WhatsAppInbox from './pages/WhatsAppInbox';
 import WhatsAppTemplates from './pages/WhatsAppTemplates';
 import WhatsAppWebConnect from './pages/WhatsAppWebConnect';
+import Makers from './pages/Makers';
+import Materials from './pages/Materials';
 import { Layout } from './components/layout/Layout';
 
 const queryClient = new QueryClient({
@@ -66,6 +68,8 @@ function App() {
             <Route path="/orders" element={<Orders />} />
             <Route path="/courier-map" element={<CourierMap />} />
             <Route path="/finance" element={<Finance />} />
+            <Route path="/makers" element={<Makers />} />
+            <Route path="/materials" element={<Materials />} />
             <Route path="/whatsapp" element={<WhatsAppInbox />} />
             <Route path="/whatsapp/templates" element={<WhatsAppTemplates />} />
             <Route path="/whatsapp/connect" element={<WhatsAppWebConnect />} />
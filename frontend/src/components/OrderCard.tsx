@@ -5,10 +5,15 @@ import { UserIcon, CurrencyDollarIcon, ExclamationTriangleIcon, PencilIcon, Star
 import { StarIcon as StarIconSolid, PhoneArrowUpRightIcon } from '@heroicons/react/24/solid';
 import { convertToCairoTime, calculateDaysRemaining } from '../utils/dateUtils';
 import { getDaysSinceShipped } from '../utils/orderShippedDate';
+import { readOrderWorkflowState } from '../utils/orderWorkflowState';
+import { apiJsonHeaders } from '../utils/apiHeaders';
 import { getActiveLineItems } from '../utils/orderLineItems';
+import type { ProductionPlanEntry } from '../services/productionService';
+import { makerLineItemKey, type Maker, type MakerAssignment } from '../services/makersService';
 import { Menu, Dialog } from '@headlessui/react';
 import { format } from 'date-fns';
 import LocationDialog, { Zone, SubZone } from './ui/LocationDialog';
+import OrderTimeline from './OrderTimeline';
 import { locationData } from '../data/locations';
 import { toast } from 'react-hot-toast';
 import DatePicker from 'react-datepicker';
@@ -64,6 +69,12 @@ export interface OrderCardProps {
   onUpdateStartDate?: (orderId: number, date: string) => void;
   /** When set (e.g. map pin popup), shows Add to route / Remove from route control. */
   mapRoutePicker?: OrderCardMapRoutePicker;
+  /** Production planner entry; shows a warning when the due date can't be met. */
+  productionPlan?: ProductionPlanEntry;
+  /** Makers to assign line items to (shown while the order is in production). */
+  makers?: Maker[];
+  makerAssignments?: MakerAssignment[];
+  onAssignMaker?: (order: { id: number; name: string }, item: any, makerId: string | null) => void;
 }
 
 // Add new ShippingStatus component
@@ -248,6 +259,10 @@ const OrderCard: React.FC<OrderCardProps> = ({
   onUpdateDueDate,
   onUpdateStartDate,
   mapRoutePicker,
+  productionPlan,
+  makers,
+  makerAssignments,
+  onAssignMaker,
 }) => {
   const navigate = useNavigate();
   const [showNoteDialog, setShowNoteDialog] = useState(false);
@@ -259,6 +274,7 @@ const OrderCard: React.FC<OrderCardProps> = ({
   const [tempLocationSelections, setTempLocationSelections] = useState<LocationSelections | null>(null);
   const [showLocationDialog, setShowLocationDialog] = useState(false);
   const [showPinDialog, setShowPinDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
   const [pinInput, setPinInput] = useState('');
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
   const [isWhatsAppModalOpen, setIsWhatsAppModalOpen] = useState(false);
@@ -301,6 +317,7 @@ const OrderCard: React.FC<OrderCardProps> = ({
   
   // Ensure all tags are trimmed before searching
   const trimmedTags = tags.map((tag: string) => tag.trim());
+  const workflowState = readOrderWorkflowState(trimmedTags);
   const customAttributes = Array.isArray(order.custom_attributes) ? order.custom_attributes : [];
   const customAttrMap = customAttributes.reduce<Record<string, string>>((acc, attr) => {
     const key = String(attr?.key || '').trim().toLowerCase();
@@ -1345,25 +1362,13 @@ Your order is being picked up by the shipping company and should be arriving to
     };
   }, [isNoteModalOpen, isWhatsAppModalOpen, isShippedModalOpen]);
 
-  // Update the getShippingDate function
-  const getShippingDate = () => {
-    const shippingDateTag = trimmedTags.find((tag: string) => tag.trim().startsWith('shipping_date:'));
-    if (shippingDateTag) {
-      const dateStr = shippingDateTag.trim().split(':')[1]?.trim();
-      if (dateStr) {
-        return dateStr;
-      }
-    }
-    return null;
-  };
+  // shipped_date: (or legacy shipping_date:) as YYYY-MM-DD
+  const getShippingDate = () => workflowState.shippedDate ?? null;
 
   const isOrderCancelled = trimmedTags.some((tag: string) => tag.trim() === 'cancelled');
   
   // Get cancellation reason from tags
-  const getCancellationReason = () => {
-    const reasonTag = trimmedTags.find((tag: string) => tag.trim().toLowerCase().startsWith('cancellation_reason:'));
-    return reasonTag ? reasonTag.split(':')[1]?.trim() : null;
-  };
+  const getCancellationReason = () => workflowState.cancellationReason ?? null;
   
   const cancellationReasonText = getCancellationReason();
   
@@ -1675,7 +1680,7 @@ Your order is being picked up by the shipping company and should be arriving to
     }
 
     const webSecret = import.meta.env.VITE_WHATSAPP_WEB_ADMIN_SECRET as string | undefined;
-    const headers: HeadersInit = { 'Content-Type': 'application/json' };
+    const headers: Record<string, string> = apiJsonHeaders();
     if (webSecret) {
       headers['X-WhatsApp-Web-Secret'] = webSecret;
     }
@@ -2264,6 +2269,21 @@ Your order is being picked up by the shipping company and should be arriving to
                             </button>
                           )}
                         </Menu.Item>
+                        {/* History - who changed what (order_events) */}
+                        <Menu.Item>
+                          {({ active }) => (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setShowHistoryDialog(true);
+                              }}
+                              className={`${active ? 'bg-gray-100' : ''} flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700`}
+                            >
+                              <ClockIcon className="w-4 h-4" />
+                              History
+                            </button>
+                          )}
+                        </Menu.Item>
                         {!isOrderCancelled && (
                           <>
                             {(currentStatus === 'pending' || currentStatus === 'order-ready') && (
@@ -2848,6 +2868,21 @@ Your order is being picked up by the shipping company and should be arriving to
           </div>
         )}
 
+        {/* Failed delivery attempts (carrier) and the day the customer asked for */}
+        {!isOrderCancelled && workflowState.deliveryAttempts && (
+          <div className={`${mapRoutePicker ? 'mb-1.5 p-2' : 'mb-4 p-3'} rounded-lg border border-red-200 bg-red-50`}>
+            <div className="flex items-center gap-2">
+              <TruckIcon className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm font-medium text-red-800">
+                {workflowState.deliveryAttempts} failed delivery attempt{workflowState.deliveryAttempts === 1 ? '' : 's'}
+                {workflowState.deliveryRescheduleDate
+                  ? ` · customer asked for ${format(new Date(`${workflowState.deliveryRescheduleDate}T00:00:00`), 'EEE, MMM d')}`
+                  : ' · waiting for customer reply'}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Order Notes - only show if not cancelled */}
         {!isOrderCancelled && order.note && order.note.trim() && (
           <div 
@@ -2980,6 +3015,22 @@ Your order is being picked up by the shipping company and should be arriving to
                             {priorityMakingAnalysis.plushieQty})
                           </span>
                         )}
+                      {makers && onAssignMaker && currentStatus === 'pending' && !isPriorityMakingLineItem(item) && (
+                        <select
+                          value={makerAssignments?.find((a) => a.line_item_key === makerLineItemKey(item))?.maker_id ?? ''}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => onAssignMaker(order, item, e.target.value || null)}
+                          className="mt-0.5 block max-w-full rounded border border-gray-200 bg-white py-0 pl-1 pr-6 text-xs text-gray-600 focus:border-gray-400 focus:outline-none"
+                          aria-label="Maker"
+                        >
+                          <option value="">No maker</option>
+                          {makers.map((maker) => (
+                            <option key={maker.id} value={maker.id}>
+                              {maker.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
                     </span>
                     <span
                       className={`flex-shrink-0 rounded-md px-2 py-0.5 text-xs font-semibold ${
@@ -3073,6 +3124,26 @@ Your order is being picked up by the shipping company and should be arriving to
               <ClockIcon className="w-4 h-4" />
               <span className="text-[10px] font-medium">{getDaysLeftText()}</span>
             </div>
+
+            {/* Production planner: due date can't be met with current capacity */}
+            {productionPlan && !productionPlan.feasible && (
+              <>
+                <div className="h-3 w-px bg-gray-300" />
+                <div
+                  className="flex flex-col items-center justify-center gap-1 py-2 px-2 rounded-md border min-w-[60px] bg-red-50 border-red-200"
+                  title={
+                    productionPlan.plannedFinish
+                      ? `At current capacity this order is ready ${productionPlan.plannedFinish}, after its due date`
+                      : 'No maker capacity left for this order'
+                  }
+                >
+                  <ExclamationTriangleIcon className="w-4 h-4 text-red-600" />
+                  <span className="text-[10px] font-medium text-red-700">
+                    {productionPlan.plannedFinish ? `Ready ${productionPlan.plannedFinish.substring(5)}` : 'No capacity'}
+                  </span>
+                </div>
+              </>
+            )}
             
             {/* Order Ready Days - Only show if order_ready_date tag exists and order is in order-ready status */}
             {daysInOrderReady !== null && currentStatus === 'order-ready' && (
@@ -3332,6 +3403,36 @@ Your order is being picked up by the shipping company and should be arriving to
           shippingAddress={order.shipping_address}
           readOnly
         />
+        <Dialog open={showHistoryDialog} onClose={() => setShowHistoryDialog(false)} className="relative z-50">
+          <div className="fixed inset-0 bg-black/40" aria-hidden="true" />
+          <div className="fixed inset-0 flex items-center justify-center p-4">
+            <Dialog.Panel className="w-full max-w-md rounded-xl bg-white p-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+              <Dialog.Title className="text-base font-semibold text-gray-900 mb-3">
+                {order.name} history
+              </Dialog.Title>
+              {showHistoryDialog && (
+                <OrderTimeline
+                  createdAt={startDate.toISOString()}
+                  dueDate={dueDate.toISOString()}
+                  isCustom={!!dueDateTag}
+                  orderName={order.name}
+                  orderId={order.id}
+                  onUpdateStartDate={handleStartDateSelect}
+                  onUpdateDueDate={handleDateSelect}
+                />
+              )}
+              <div className="mt-4 flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => setShowHistoryDialog(false)}
+                  className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  Close
+                </button>
+              </div>
+            </Dialog.Panel>
+          </div>
+        </Dialog>
         <Dialog open={showPinDialog} onClose={() => setShowPinDialog(false)} className="relative z-50">
           <div className="fixed inset-0 bg-black/40" aria-hidden="true" />
           <div className="fixed inset-0 flex items-center justify-center p-4">
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { ClockIcon, CalendarIcon } from '@heroicons/react/24/outline';
 import { convertToCairoTime, calculateDaysRemaining } from '../utils/dateUtils';
 import DatePicker from 'react-datepicker';
@@ -10,18 +11,100 @@ interface OrderTimelineProps {
   dueDate: string;
   isCustom?: boolean;
   orderName?: string;
+  /** When set, the change history (GET /api/orders/:id/history) is listed under the timeline. */
+  orderId?: number;
   onUpdateStartDate?: (date: Date) => void;
   onUpdateDueDate?: (date: Date) => void;
 }
 
+/** Row from the order_events audit log. */
+interface OrderHistoryEvent {
+  id: number;
+  event_type: string;
+  source: string;
+  actor: string | null;
+  from_status: string | null;
+  to_status: string | null;
+  added_tags?: string[];
+  removed_tags?: string[];
+  note: string | null;
+  created_at: string;
+}
+
+/** Carrier status seen by the shipping status checker (shipment_tracking_events). */
+interface ShipmentTrackingEvent {
+  id: number;
+  barcode: string;
+  provider: string;
+  status: string;
+  action: string;
+  attempts: number | null;
+  carrier_updated_at: string | null;
+  recorded_at: string;
+}
+
+const TRACKING_ACTION_STYLES: Record<string, string> = {
+  shipped: 'bg-blue-50 text-blue-700',
+  fulfilled: 'bg-green-50 text-green-700',
+  returned: 'bg-red-50 text-red-700',
+  failed_attempt: 'bg-amber-50 text-amber-700',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  dashboard: 'Dashboard',
+  courier_map: 'Courier map',
+  cron: 'Scheduled job',
+  whatsapp_button: 'WhatsApp button',
+  discord: 'Discord',
+  payment_import: 'Payment import',
+  shopify: 'Shopify',
+  system: 'System',
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  tags: 'Tags updated',
+  status: 'Status changed',
+  note: 'Note updated',
+  due_date: 'Due date changed',
+  start_date: 'Start date changed',
+  priority: 'Priority changed',
+  fulfillment: 'Fulfilled in Shopify',
+  delete: 'Order deleted',
+};
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
 const OrderTimeline: React.FC<OrderTimelineProps> = ({ 
   createdAt, 
   dueDate, 
   isCustom, 
   orderName,
+  orderId,
   onUpdateStartDate,
   onUpdateDueDate 
 }) => {
+  const { data: history = [], isLoading: historyLoading, isError: historyError } = useQuery({
+    queryKey: ['order-history', orderId],
+    queryFn: async () => {
+      const res = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/history`);
+      if (!res.ok) throw new Error('Failed to load order history');
+      const json = await res.json();
+      return (json.events || []) as OrderHistoryEvent[];
+    },
+    enabled: orderId !== undefined,
+  });
+
+  const { data: tracking = [] } = useQuery({
+    queryKey: ['shipment-tracking', orderId],
+    queryFn: async () => {
+      const res = await fetch(`${import.meta.env.VITE_API_URL}/api/shipping/orders/${orderId}/tracking-history`);
+      if (!res.ok) throw new Error('Failed to load tracking history');
+      const json = await res.json();
+      return (json.events || []) as ShipmentTrackingEvent[];
+    },
+    enabled: orderId !== undefined,
+  });
+
   // Ensure dates are in Cairo timezone
   const start = convertToCairoTime(new Date(createdAt));
   const end = convertToCairoTime(new Date(dueDate));
@@ -145,6 +228,78 @@ const OrderTimeline: React.FC<OrderTimelineProps> = ({
           )}
         </div>
       </div>
+
+      {/* Carrier tracking (only once the checker has seen the package) */}
+      {tracking.length > 0 && (
+        <div className="border-t border-gray-100 pt-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+            Carrier tracking · {tracking[tracking.length - 1].barcode}
+          </h4>
+          <ol className="space-y-1.5 max-h-48 overflow-y-auto">
+            {[...tracking].reverse().map((event) => (
+              <li key={event.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="flex items-center gap-1.5 min-w-0">
+                  <span className={`truncate rounded px-1.5 py-0.5 ${TRACKING_ACTION_STYLES[event.action] || 'bg-gray-50 text-gray-700'}`}>
+                    {event.status}
+                  </span>
+                  {event.attempts ? <span className="text-gray-400">attempt {event.attempts}</span> : null}
+                </span>
+                <span className="text-gray-400 whitespace-nowrap">
+                  {format(convertToCairoTime(new Date(event.carrier_updated_at || event.recorded_at)), 'MMM d, HH:mm')}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Change History */}
+      {orderId !== undefined && (
+        <div className="border-t border-gray-100 pt-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">History</h4>
+          {historyLoading ? (
+            <p className="text-xs text-gray-400">Loading history…</p>
+          ) : historyError ? (
+            <p className="text-xs text-red-600">Failed to load history</p>
+          ) : history.length === 0 ? (
+            <p className="text-xs text-gray-400">No recorded changes yet</p>
+          ) : (
+            <ol className="space-y-2 max-h-72 overflow-y-auto">
+              {history.map((event) => (
+                <li key={event.id} className="text-xs border-l-2 border-gray-200 pl-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-800">
+                      {event.event_type === 'status' && event.from_status && event.to_status
+                        ? `${formatStatus(event.from_status)} → ${formatStatus(event.to_status)}`
+                        : EVENT_LABELS[event.event_type] || event.event_type}
+                    </span>
+                    <span className="text-gray-400 whitespace-nowrap">
+                      {format(convertToCairoTime(new Date(event.created_at)), 'MMM d, HH:mm')}
+                    </span>
+                  </div>
+                  <div className="text-gray-500">
+                    {SOURCE_LABELS[event.source] || event.source}
+                    {event.actor ? ` · ${event.actor}` : ''}
+                  </div>
+                  {((event.added_tags?.length ?? 0) > 0 || (event.removed_tags?.length ?? 0) > 0) && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {event.added_tags?.map((tag) => (
+                        <span key={`+${tag}`} className="rounded bg-green-50 px-1.5 py-0.5 text-green-700">+{tag}</span>
+                      ))}
+                      {event.removed_tags?.map((tag) => (
+                        <span key={`-${tag}`} className="rounded bg-red-50 px-1.5 py-0.5 text-red-700 line-through">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                  {event.event_type === 'note' && event.note && (
+                    <p className="mt-1 text-gray-600 whitespace-pre-wrap">{event.note}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
     </div>
   );
 };
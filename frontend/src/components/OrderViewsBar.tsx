@@ -0,0 +1,283 @@
+import { Fragment, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, Menu, Transition } from '@headlessui/react';
+import {
+  BookmarkIcon,
+  ChevronDownIcon,
+  LinkIcon,
+  StarIcon,
+  TrashIcon,
+  ArrowPathIcon,
+} from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { toast } from 'react-hot-toast';
+import {
+  orderViewShareUrl,
+  orderViewsService,
+  type OrderView,
+  type OrderViewFilters,
+} from '../services/orderViewsService';
+
+interface OrderViewsBarProps {
+  username: string | null;
+  /** Current Orders page filters (saved as-is). */
+  currentFilters: OrderViewFilters;
+  activeViewId: string | null;
+  onApply: (view: OrderView) => void;
+}
+
+export const ORDER_VIEWS_QUERY_KEY = ['order-views'] as const;
+
+/**
+ * Saved views row in the Orders header: pinned views as chips, plus a menu to
+ * save the current filters, share a link, pin, set my default, or delete.
+ */
+export default function OrderViewsBar({ username, currentFilters, activeViewId, onApply }: OrderViewsBarProps) {
+  const queryClient = useQueryClient();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const [newViewPinned, setNewViewPinned] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: [...ORDER_VIEWS_QUERY_KEY, username],
+    queryFn: () => orderViewsService.list(),
+    staleTime: 60_000,
+  });
+  const views = data?.views ?? [];
+  const defaultViewId = data?.defaultViewId ?? null;
+  const activeView = views.find((view) => view.id === activeViewId) ?? null;
+  const pinnedViews = views.filter((view) => view.pinned);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ORDER_VIEWS_QUERY_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      orderViewsService.create({ name: newViewName.trim(), filters: currentFilters, pinned: newViewPinned }),
+    onSuccess: (view) => {
+      toast.success(`Saved view "${view.name}"`);
+      setIsSaveOpen(false);
+      setNewViewName('');
+      setNewViewPinned(false);
+      refresh();
+      onApply(view);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ viewId, input }: { viewId: string; input: Parameters<typeof orderViewsService.update>[1] }) =>
+      orderViewsService.update(viewId, input),
+    onSuccess: () => refresh(),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (viewId: string) => orderViewsService.remove(viewId),
+    onSuccess: () => {
+      toast.success('View deleted');
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: (viewId: string | null) => orderViewsService.setDefault(viewId),
+    onSuccess: (_data, viewId) => {
+      toast.success(viewId ? 'Default view set' : 'Default view cleared');
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const copyLink = async (view: OrderView) => {
+    try {
+      await navigator.clipboard.writeText(orderViewShareUrl(view.id));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy link');
+    }
+  };
+
+  const menuItemClass = (active: boolean) =>
+    `${active ? 'bg-gray-100' : ''} flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm text-gray-700 disabled:opacity-50`;
+
+  return (
+    <div className="flex items-center gap-1.5 overflow-x-auto px-3 sm:px-4 py-1.5 bg-white [scrollbar-width:none] [&::-webkit-scrollbar]:hidden">
+      {pinnedViews.map((view) => (
+        <button
+          key={view.id}
+          type="button"
+          onClick={() => onApply(view)}
+          className={`shrink-0 rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+            view.id === activeViewId
+              ? 'border-gray-900 bg-gray-900 text-white'
+              : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {view.id === defaultViewId && <StarSolidIcon className="mr-1 inline h-3 w-3 align-[-1px]" aria-hidden />}
+          {view.name}
+        </button>
+      ))}
+
+      <Menu as="div" className="relative ml-auto shrink-0">
+        <Menu.Button className="inline-flex items-center gap-1 rounded-lg border border-gray-200 bg-white px-2.5 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50">
+          <BookmarkIcon className="h-4 w-4" aria-hidden />
+          <span className="max-w-[10rem] truncate">{activeView ? activeView.name : 'Views'}</span>
+          <ChevronDownIcon className="h-3 w-3" aria-hidden />
+        </Menu.Button>
+        <Transition
+          as={Fragment}
+          enter="transition ease-out duration-100"
+          enterFrom="transform opacity-0 scale-95"
+          enterTo="transform opacity-100 scale-100"
+          leave="transition ease-in duration-75"
+          leaveFrom="transform opacity-100 scale-100"
+          leaveTo="transform opacity-0 scale-95"
+        >
+          <Menu.Items className="fixed right-3 z-50 mt-1 w-64 origin-top-right rounded-md bg-white p-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+            {views.map((view) => (
+              <Menu.Item key={view.id}>
+                {({ active }) => (
+                  <button type="button" className={menuItemClass(active)} onClick={() => onApply(view)}>
+                    {view.id === defaultViewId ? (
+                      <StarSolidIcon className="h-4 w-4 text-amber-500" aria-hidden />
+                    ) : (
+                      <span className="h-4 w-4" />
+                    )}
+                    <span className={`truncate ${view.id === activeViewId ? 'font-semibold' : ''}`}>{view.name}</span>
+                  </button>
+                )}
+              </Menu.Item>
+            ))}
+            {views.length === 0 && <p className="px-2 py-1.5 text-xs text-gray-500">No saved views yet</p>}
+
+            <div className="my-1 border-t border-gray-100" />
+            <Menu.Item>
+              {({ active }) => (
+                <button type="button" className={menuItemClass(active)} onClick={() => setIsSaveOpen(true)}>
+                  <BookmarkIcon className="h-4 w-4" aria-hidden /> Save current filters as…
+                </button>
+              )}
+            </Menu.Item>
+
+            {activeView && (
+              <>
+                <Menu.Item>
+                  {({ active }) => (
+                    <button
+                      type="button"
+                      className={menuItemClass(active)}
+                      onClick={() =>
+                        updateMutation.mutate(
+                          { viewId: activeView.id, input: { filters: currentFilters } },
+                          { onSuccess: () => toast.success(`Updated "${activeView.name}"`) }
+                        )
+                      }
+                    >
+                      <ArrowPathIcon className="h-4 w-4" aria-hidden /> Update "{activeView.name}"
+                    </button>
+                  )}
+                </Menu.Item>
+                <Menu.Item>
+                  {({ active }) => (
+                    <button type="button" className={menuItemClass(active)} onClick={() => copyLink(activeView)}>
+                      <LinkIcon className="h-4 w-4" aria-hidden /> Copy link
+                    </button>
+                  )}
+                </Menu.Item>
+                <Menu.Item>
+                  {({ active }) => (
+                    <button
+                      type="button"
+                      className={menuItemClass(active)}
+                      onClick={() => updateMutation.mutate({ viewId: activeView.id, input: { pinned: !activeView.pinned } })}
+                    >
+                      <BookmarkIcon className="h-4 w-4" aria-hidden /> {activeView.pinned ? 'Unpin' : 'Pin to header'}
+                    </button>
+                  )}
+                </Menu.Item>
+                {username && (
+                  <Menu.Item>
+                    {({ active }) => (
+                      <button
+                        type="button"
+                        className={menuItemClass(active)}
+                        onClick={() => defaultMutation.mutate(activeView.id === defaultViewId ? null : activeView.id)}
+                      >
+                        <StarIcon className="h-4 w-4" aria-hidden />
+                        {activeView.id === defaultViewId ? 'Clear my default' : 'Make my default'}
+                      </button>
+                    )}
+                  </Menu.Item>
+                )}
+                <Menu.Item>
+                  {({ active }) => (
+                    <button
+                      type="button"
+                      className={`${menuItemClass(active)} text-red-600`}
+                      onClick={() => {
+                        if (window.confirm(`Delete the saved view "${activeView.name}" for everyone?`)) {
+                          deleteMutation.mutate(activeView.id);
+                        }
+                      }}
+                    >
+                      <TrashIcon className="h-4 w-4" aria-hidden /> Delete view
+                    </button>
+                  )}
+                </Menu.Item>
+              </>
+            )}
+          </Menu.Items>
+        </Transition>
+      </Menu>
+
+      <Transition appear show={isSaveOpen} as={Fragment}>
+        <Dialog as="div" className="relative z-50" onClose={() => setIsSaveOpen(false)}>
+          <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+          <div className="fixed inset-0 flex items-center justify-center p-4">
+            <Dialog.Panel className="w-full max-w-sm rounded-lg bg-white p-5 shadow-xl">
+              <Dialog.Title className="text-base font-semibold text-gray-900">Save view</Dialog.Title>
+              <form
+                className="mt-3 space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (newViewName.trim()) createMutation.mutate();
+                }}
+              >
+                <input
+                  type="text"
+                  value={newViewName}
+                  onChange={(e) => setNewViewName(e.target.value)}
+                  placeholder="e.g. Cairo scooter this week"
+                  maxLength={80}
+                  autoFocus
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-gray-500 focus:outline-none"
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={newViewPinned} onChange={(e) => setNewViewPinned(e.target.checked)} />
+                  Pin to header
+                </label>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsSaveOpen(false)}
+                    className="rounded-md px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!newViewName.trim() || createMutation.isPending}
+                    className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </form>
+            </Dialog.Panel>
+          </div>
+        </Dialog>
+      </Transition>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, Transition } from '@headlessui/react';
+import { ExclamationTriangleIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'react-hot-toast';
+import {
+  productionService,
+  type ProductionPlannerSettings,
+  type ProductionReflowResult,
+} from '../services/productionService';
+
+interface ProductionPlannerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const PRODUCTION_PLAN_QUERY_KEY = ['production-plan'] as const;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function reflowSummary(result: ProductionReflowResult): string {
+  const parts = [`${result.updated.length} order(s) rescheduled`];
+  if (result.failed.length) parts.push(`${result.failed.length} failed`);
+  if (result.infeasible.length) parts.push(`${result.infeasible.length} can't make their due date`);
+  return parts.join(', ');
+}
+
+/**
+ * Maker capacity settings for the production planner. Saving reflows the
+ * planner-scheduled orders; hand-set dates are never moved.
+ */
+export default function ProductionPlannerDialog({ isOpen, onClose }: ProductionPlannerDialogProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ProductionPlannerSettings | null>(null);
+  const [holidaysText, setHolidaysText] = useState('');
+
+  const { data: settings } = useQuery({
+    queryKey: ['production-settings'],
+    queryFn: productionService.getSettings,
+    enabled: isOpen,
+  });
+  const { data: plan } = useQuery({
+    queryKey: PRODUCTION_PLAN_QUERY_KEY,
+    queryFn: productionService.getPlan,
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (isOpen && settings) {
+      setDraft(settings);
+      setHolidaysText(settings.holidays.join('\n'));
+    }
+  }, [isOpen, settings]);
+
+  const afterReflow = (result: ProductionReflowResult) => {
+    toast.success(reflowSummary(result));
+    queryClient.invalidateQueries({ queryKey: PRODUCTION_PLAN_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (next: ProductionPlannerSettings) => productionService.saveSettings(next),
+    onSuccess: ({ reflow }) => {
+      queryClient.invalidateQueries({ queryKey: ['production-settings'] });
+      afterReflow(reflow);
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => productionService.reflow(true),
+    onSuccess: afterReflow,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const update = (patch: Partial<ProductionPlannerSettings>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const save = () => {
+    if (!draft) return;
+    const holidays = holidaysText
+      .split(/[\s,]+/)
+      .map((day) => day.trim())
+      .filter(Boolean);
+    saveMutation.mutate({ ...draft, holidays });
+  };
+
+  const infeasible = plan?.entries.filter((entry) => !entry.feasible) ?? [];
+  const unscheduled = plan?.entries.filter((entry) => !entry.currentStart && !entry.currentDue).length ?? 0;
+  const numberInput = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none';
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Dialog.Panel className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-white p-5 shadow-xl">
+            <Dialog.Title className="text-base font-semibold text-gray-900">Production planner</Dialog.Title>
+            <p className="mt-1 text-xs text-gray-500">
+              Start and due dates are proposed from maker capacity. Priority Making orders go first; dates you set by
+              hand stay put.
+            </p>
+
+            {infeasible.length > 0 && (
+              <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+                <div className="flex items-center gap-1 font-medium">
+                  <ExclamationTriangleIcon className="h-4 w-4" aria-hidden />
+                  {infeasible.length} order(s) can't be finished by their due date
+                </div>
+                <p className="mt-1">
+                  {infeasible
+                    .slice(0, 10)
+                    .map((entry) => `${entry.orderName} (ready ${entry.plannedFinish ?? '—'}, due ${entry.currentDue ?? '—'})`)
+                    .join(', ')}
+                </p>
+              </div>
+            )}
+
+            {!draft ? (
+              <p className="mt-4 text-sm text-gray-500">Loading…</p>
+            ) : (
+              <div className="mt-4 space-y-4 text-sm">
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="space-y-1">
+                    <span className="text-xs text-gray-600">Maker hours per day</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={draft.dailyCapacityHours}
+                      onChange={(e) => update({ dailyCapacityHours: Number(e.target.value) })}
+                      className={numberInput}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-gray-600">Default hours per item</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.25}
+                      value={draft.defaultHoursPerUnit}
+                      onChange={(e) => update({ defaultHoursPerUnit: Number(e.target.value) })}
+                      className={numberInput}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-gray-600">Default making days</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.defaultMakingDays}
+                      onChange={(e) => update({ defaultMakingDays: Number(e.target.value) })}
+                      className={numberInput}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-gray-600">Priority Making days</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.priorityMakingDays}
+                      onChange={(e) => update({ priorityMakingDays: Number(e.target.value) })}
+                      className={numberInput}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-gray-600">Shipping days (storefront estimate)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.shippingDays}
+                      onChange={(e) => update({ shippingDays: Number(e.target.value) })}
+                      className={numberInput}
+                    />
+                  </label>
+                </div>
+
+                <div>
+                  <span className="text-xs text-gray-600">Days off</span>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {WEEKDAYS.map((label, day) => {
+                      const off = draft.weeklyDaysOff.includes(day);
+                      return (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() =>
+                            update({
+                              weeklyDaysOff: off
+                                ? draft.weeklyDaysOff.filter((d) => d !== day)
+                                : [...draft.weeklyDaysOff, day],
+                            })
+                          }
+                          className={`rounded-full border px-2.5 py-0.5 text-xs ${
+                            off ? 'border-gray-900 bg-gray-900 text-white' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <label className="block space-y-1">
+                  <span className="text-xs text-gray-600">Holidays (YYYY-MM-DD, one per line)</span>
+                  <textarea
+                    rows={3}
+                    value={holidaysText}
+                    onChange={(e) => setHolidaysText(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-2 py-1 font-mono text-xs focus:border-gray-500 focus:outline-none"
+                  />
+                </label>
+
+                <div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-600">Product types (title contains → hours per item, making days)</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update({
+                          productTypes: [
+                            ...draft.productTypes,
+                            { name: '', match: '', hoursPerUnit: draft.defaultHoursPerUnit, makingDays: draft.defaultMakingDays },
+                          ],
+                        })
+                      }
+                      className="inline-flex items-center gap-1 text-xs text-gray-700 hover:text-gray-900"
+                    >
+                      <PlusIcon className="h-3.5 w-3.5" aria-hidden /> Add
+                    </button>
+                  </div>
+                  <div className="mt-1 space-y-1">
+                    {draft.productTypes.map((type, index) => {
+                      const setType = (patch: Partial<typeof type>) =>
+                        update({
+                          productTypes: draft.productTypes.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+                        });
+                      return (
+                        <div key={index} className="grid grid-cols-[1fr_4.5rem_4.5rem_auto] items-center gap-1">
+                          <input
+                            type="text"
+                            placeholder="e.g. keychain"
+                            value={type.match}
+                            onChange={(e) => setType({ match: e.target.value, name: e.target.value })}
+                            className={numberInput}
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.25}
+                            title="Hours per item"
+                            value={type.hoursPerUnit}
+                            onChange={(e) => setType({ hoursPerUnit: Number(e.target.value) })}
+                            className={numberInput}
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            title="Making days"
+                            value={type.makingDays}
+                            onChange={(e) => setType({ makingDays: Number(e.target.value) })}
+                            className={numberInput}
+                          />
+                          <button
+                            type="button"
+                            aria-label="Remove product type"
+                            onClick={() => update({ productTypes: draft.productTypes.filter((_, i) => i !== index) })}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                          >
+                            <TrashIcon className="h-4 w-4" aria-hidden />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.autoAssign}
+                    onChange={(e) => update({ autoAssign: e.target.checked })}
+                  />
+                  Propose dates for new orders automatically
+                </label>
+              </div>
+            )}
+
+            <div className="mt-5 flex items-center justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => scheduleMutation.mutate()}
+                disabled={unscheduled === 0 || scheduleMutation.isPending}
+                className="rounded-md border border-gray-200 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Schedule {unscheduled} undated order(s)
+              </button>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="rounded-md px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={!draft || saveMutation.isPending}
+                  className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+                >
+                  Save &amp; reflow
+                </button>
+              </div>
+            </div>
+          </Dialog.Panel>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowPathIcon, ChevronDownIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  dismissShipmentFailure,
+  getShipmentsNeedingAttention,
+  retryShipment,
+} from '../services/shipping';
+
+export const SHIPMENT_FAILURES_QUERY_KEY = ['shipment-failures'] as const;
+
+/**
+ * Orders page banner for ready-to-ship orders whose Mylerz shipment could not
+ * be created automatically. Expands into the list with Retry and Dismiss.
+ */
+export default function ShipmentIssuesBanner() {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: failures = [] } = useQuery({
+    queryKey: SHIPMENT_FAILURES_QUERY_KEY,
+    queryFn: getShipmentsNeedingAttention,
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: SHIPMENT_FAILURES_QUERY_KEY });
+
+  const retryMutation = useMutation({
+    mutationFn: (orderId: number) => retryShipment(orderId),
+    onSuccess: (outcome) => {
+      if (outcome.status === 'created') {
+        toast.success(`Shipment created (${outcome.barcode})`);
+        queryClient.invalidateQueries({ queryKey: ['orders'] });
+      } else if (outcome.status === 'skipped') {
+        toast.success(outcome.reason);
+      } else {
+        toast.error(outcome.reason);
+      }
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to retry shipment'),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (orderId: number) => dismissShipmentFailure(orderId),
+    onSuccess: () => {
+      toast.success('Removed from the list');
+      refresh();
+    },
+    onError: () => toast.error('Failed to dismiss'),
+  });
+
+  if (failures.length === 0) return null;
+
+  return (
+    <div className="mx-2 sm:mx-4 mt-2 rounded-xl border border-amber-200 bg-amber-50 text-amber-900">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm font-medium"
+      >
+        <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-500" aria-hidden />
+        <span className="flex-1">
+          {failures.length} shipment{failures.length === 1 ? '' : 's'} need attention
+        </span>
+        <ChevronDownIcon className={`h-4 w-4 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} aria-hidden />
+      </button>
+
+      {isOpen && (
+        <ul className="divide-y divide-amber-200 border-t border-amber-200">
+          {failures.map((failure) => {
+            const busy =
+              (retryMutation.isPending && retryMutation.variables === failure.order_id) ||
+              (dismissMutation.isPending && dismissMutation.variables === failure.order_id);
+            return (
+              <li key={failure.order_id} className="flex items-start gap-3 px-3 py-2 text-xs">
+                <div className="min-w-0 flex-1">
+                  <p className="font-semibold">{failure.order_name}</p>
+                  <p className="break-words text-amber-800">{failure.reason}</p>
+                  <p className="text-amber-700/80">
+                    {failure.permanent ? 'Needs an order fix' : `${failure.attempts} attempt${failure.attempts === 1 ? '' : 's'}`}
+                    {' · '}last tried {format(new Date(failure.last_failed_at), 'MMM d, HH:mm')}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => retryMutation.mutate(failure.order_id)}
+                  className="inline-flex shrink-0 items-center gap-1 rounded-lg border border-amber-300 bg-white px-2 py-1 font-medium hover:bg-amber-100 disabled:opacity-50"
+                >
+                  <ArrowPathIcon className="h-4 w-4" aria-hidden />
+                  Retry
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => dismissMutation.mutate(failure.order_id)}
+                  className="inline-flex shrink-0 items-center gap-1 rounded-lg px-2 py-1 font-medium text-amber-700 hover:bg-amber-100 disabled:opacity-50"
+                  title="Stop retrying (e.g. shipped another way)"
+                >
+                  <XMarkIcon className="h-4 w-4" aria-hidden />
+                  Dismiss
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { toast } from 'react-hot-toast';
+import { apiJsonHeaders } from '../../utils/apiHeaders';
+
+/** POST /api/operations/:id/revert response */
+export interface BulkOperationRevertResult {
+  operationId: string;
+  reverted: number[];
+  conflicts: Array<{ orderId: number; orderName: string | null }>;
+  failed: Array<{ orderId: number; error: string }>;
+  /** Shipments booked after the operation whose orders went back before ready to ship. */
+  shipments: Array<{ orderId: number; orderName: string | null; barcode: string; cancelled: boolean; error?: string }>;
+  status: 'applied' | 'reverted' | 'partially_reverted';
+}
+
+export async function revertBulkOperation(operationId: string, force = false): Promise<BulkOperationRevertResult> {
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/operations/${operationId}/revert`, {
+    method: 'POST',
+    headers: apiJsonHeaders(),
+    body: JSON.stringify({ force }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to undo bulk operation');
+  }
+  return response.json();
+}
+
+const shipmentLabel = (s: BulkOperationRevertResult['shipments'][number]) => `${s.orderName || s.orderId} (${s.barcode})`;
+
+/** Shipments the undo cancelled, and the ones still booked with the carrier. */
+function showShipmentCancellations(shipments: BulkOperationRevertResult['shipments']) {
+  const cancelled = shipments.filter((s) => s.cancelled);
+  const stillBooked = shipments.filter((s) => !s.cancelled);
+  if (cancelled.length > 0) {
+    toast.success(`Cancelled shipment${cancelled.length > 1 ? 's' : ''}: ${cancelled.map(shipmentLabel).join(', ')}`);
+  }
+  if (stillBooked.length > 0) {
+    toast.error(
+      `Could not cancel shipment${stillBooked.length > 1 ? 's' : ''} — cancel with the carrier: ${stillBooked
+        .map(shipmentLabel)
+        .join(', ')}`,
+      { duration: 15000 }
+    );
+  }
+}
+
+/**
+ * Success toast with an Undo button for a bulk operation.
+ * Orders changed again since the operation are only restored after a confirm.
+ */
+export function showUndoToast(message: string, operationId: string, onReverted: () => void | Promise<void>) {
+  const undo = async (toastId: string) => {
+    toast.dismiss(toastId);
+    const pending = toast.loading('Undoing...');
+    try {
+      let result = await revertBulkOperation(operationId);
+      if (
+        result.conflicts.length > 0 &&
+        window.confirm(
+          `${result.conflicts.length} order${result.conflicts.length > 1 ? 's were' : ' was'} changed after this update (${result.conflicts
+            .map((c) => c.orderName || c.orderId)
+            .join(', ')}).\n\nUndo ${result.conflicts.length > 1 ? 'them' : 'it'} anyway?`
+        )
+      ) {
+        const forced = await revertBulkOperation(operationId, true);
+        result = {
+          ...forced,
+          reverted: [...result.reverted, ...forced.reverted],
+          shipments: [...result.shipments, ...forced.shipments],
+        };
+      }
+      toast.dismiss(pending);
+      if (result.failed.length > 0) {
+        toast.error(`Undid ${result.reverted.length} order${result.reverted.length === 1 ? '' : 's'}, ${result.failed.length} failed`);
+      } else {
+        toast.success(`Undid ${result.reverted.length} order${result.reverted.length === 1 ? '' : 's'}`);
+      }
+      showShipmentCancellations(result.shipments);
+      await onReverted();
+    } catch (error: any) {
+      toast.dismiss(pending);
+      toast.error(error.message || 'Failed to undo bulk operation');
+    }
+  };
+
+  toast.success(
+    (t) => (
+      <span className="flex items-center gap-3">
+        <span>{message}</span>
+        <button
+          type="button"
+          onClick={() => undo(t.id)}
+          className="rounded-md px-2 py-1 text-sm font-semibold text-blue-600 hover:bg-blue-50"
+        >
+          Undo
+        </button>
+      </span>
+    ),
+    { duration: 10000 }
+  );
+}
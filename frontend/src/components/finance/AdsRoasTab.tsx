@@ -0,0 +1,333 @@
+import { useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ArrowUpTrayIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { financialService, CampaignPerformance } from '../../services/financialService';
+import { SkeletonTable } from '../common/SkeletonLoader';
+
+const RANGE_OPTIONS = [
+  { months: 1, label: 'This month' },
+  { months: 3, label: 'Last 3 months' },
+  { months: 6, label: 'Last 6 months' },
+  { months: 12, label: 'Last 12 months' },
+];
+
+interface AdsRoasTabProps {
+  selectedMonth: string;
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return format(new Date(year, monthIndex - 1 + delta, 1), 'yyyy-MM');
+}
+
+const formatCurrency = (value: number | null) =>
+  value === null
+    ? '—'
+    : new Intl.NumberFormat('en-EG', {
+        style: 'currency',
+        currency: 'EGP',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(value);
+
+const formatRoas = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}x`);
+
+const formatMonthDisplay = (monthStr: string) => {
+  const [year, month] = monthStr.split('-');
+  return format(new Date(parseInt(year), parseInt(month) - 1, 1), 'MMMM yyyy');
+};
+
+function roasClass(value: number | null): string {
+  if (value === null) return 'text-gray-400';
+  if (value >= 3) return 'text-green-600';
+  if (value >= 1.5) return 'text-yellow-600';
+  return 'text-red-600';
+}
+
+function PerformanceRow({ row, isTotal }: { row: CampaignPerformance; isTotal?: boolean }) {
+  return (
+    <tr className={isTotal ? 'bg-gray-50 font-semibold' : 'hover:bg-gray-50'}>
+      <td className="px-4 py-2 text-sm text-gray-900">
+        {isTotal ? 'All campaigns' : row.campaign ?? <span className="italic text-gray-500">Not attributed</span>}
+      </td>
+      <td className="px-4 py-2 text-sm text-right">{formatCurrency(row.spend)}</td>
+      <td className="px-4 py-2 text-sm text-right">{row.results || '—'}</td>
+      <td className="px-4 py-2 text-sm text-right">{row.orders}</td>
+      <td className="px-4 py-2 text-sm text-right">{row.confirmed_orders}</td>
+      <td className="px-4 py-2 text-sm text-right">{row.paid_orders}</td>
+      <td className="px-4 py-2 text-sm text-right">{formatCurrency(row.revenue)}</td>
+      <td className={`px-4 py-2 text-sm text-right ${roasClass(row.roas)}`}>{formatRoas(row.roas)}</td>
+      <td className={`px-4 py-2 text-sm text-right ${roasClass(row.paid_roas)}`}>{formatRoas(row.paid_roas)}</td>
+      <td className="px-4 py-2 text-sm text-right">{formatCurrency(row.cost_per_confirmed_order)}</td>
+      <td className="px-4 py-2 text-sm text-right">{formatCurrency(row.cost_per_paid_order)}</td>
+    </tr>
+  );
+}
+
+export default function AdsRoasTab({ selectedMonth }: AdsRoasTabProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rangeMonths, setRangeMonths] = useState(1);
+  const [newCode, setNewCode] = useState('');
+  const [newCodeCampaign, setNewCodeCampaign] = useState('');
+
+  const fromMonth = shiftMonth(selectedMonth, 1 - rangeMonths);
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['ad-performance', fromMonth, selectedMonth],
+    queryFn: () => financialService.getAdPerformance(fromMonth, selectedMonth),
+  });
+  const { data: imports = [] } = useQuery({
+    queryKey: ['ad-imports'],
+    queryFn: financialService.getAdImports,
+  });
+  const { data: discountCodes = [] } = useQuery({
+    queryKey: ['ad-discount-codes'],
+    queryFn: financialService.getAdDiscountCodes,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['ad-performance'] });
+    queryClient.invalidateQueries({ queryKey: ['ad-imports'] });
+    queryClient.invalidateQueries({ queryKey: ['ad-discount-codes'] });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => financialService.importAdSpend(file),
+    onSuccess: (result) => {
+      invalidate();
+      toast.success(`Imported ${result.imported} spend row(s)`);
+      if (result.errors.length > 0) {
+        toast.error(
+          `${result.errors.length} row(s) skipped: ${result.errors
+            .slice(0, 3)
+            .map((e) => `row ${e.row} (${e.reason})`)
+            .join('; ')}`,
+          { duration: 8000 }
+        );
+      }
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteImportMutation = useMutation({
+    mutationFn: (id: string) => financialService.deleteAdImport(id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Import removed');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const saveCodeMutation = useMutation({
+    mutationFn: ({ code, campaign }: { code: string; campaign: string }) =>
+      financialService.saveAdDiscountCode(code, campaign),
+    onSuccess: () => {
+      invalidate();
+      setNewCode('');
+      setNewCodeCampaign('');
+      toast.success('Discount code mapped');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteCodeMutation = useMutation({
+    mutationFn: (code: string) => financialService.deleteAdDiscountCode(code),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const months = useMemo(() => (report?.totals ?? []).map((total) => total.month), [report]);
+  const campaignNames = useMemo(
+    () => [...new Set((report?.campaigns ?? []).map((row) => row.campaign).filter((name): name is string => !!name))].sort(),
+    [report]
+  );
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    event.target.value = '';
+  };
+
+  const periodLabel = rangeMonths > 1
+    ? `${formatMonthDisplay(fromMonth)} – ${formatMonthDisplay(selectedMonth)}`
+    : formatMonthDisplay(selectedMonth);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <SkeletonTable />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Ads & ROAS</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Meta spend against orders placed in {periodLabel}, attributed by discount code or landing page UTM. Cancelled orders are excluded.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={rangeMonths}
+            onChange={(e) => setRangeMonths(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.months} value={option.months}>{option.label}</option>
+            ))}
+          </select>
+          <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <ArrowUpTrayIcon className="h-5 w-5" />
+            {importMutation.isPending ? 'Importing…' : 'Import Ads Manager export'}
+          </button>
+        </div>
+      </div>
+
+      {months.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-sm text-gray-500">
+          No spend or orders for this period. Export from Ads Manager with a "Day" breakdown and the "Amount spent" column, then import it here.
+        </div>
+      ) : (
+        months.map((month) => {
+          const total = report?.totals.find((row) => row.month === month);
+          const rows = (report?.campaigns ?? []).filter((row) => row.month === month);
+          return (
+            <div key={month} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                <h4 className="font-medium text-gray-900">{formatMonthDisplay(month)}</h4>
+                {total && (
+                  <span className="text-sm text-gray-600">
+                    Spend {formatCurrency(total.spend)} · ROAS <span className={roasClass(total.roas)}>{formatRoas(total.roas)}</span>
+                  </span>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Campaign</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spend</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Meta results</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Orders</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Confirmed</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Paid</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Revenue</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">ROAS</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Paid ROAS</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost / confirmed</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost / paid</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map((row) => (
+                      <PerformanceRow key={row.campaign ?? ''} row={row} />
+                    ))}
+                    {total && <PerformanceRow row={total} isTotal />}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-1">Discount codes</h4>
+          <p className="text-xs text-gray-500 mb-3">Orders using a mapped code count for its campaign, ahead of their UTM.</p>
+          <div className="flex gap-2 mb-3">
+            <input
+              value={newCode}
+              onChange={(e) => setNewCode(e.target.value)}
+              placeholder="Code"
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm uppercase"
+            />
+            <input
+              value={newCodeCampaign}
+              onChange={(e) => setNewCodeCampaign(e.target.value)}
+              placeholder="Campaign name"
+              list="ad-campaign-names"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <datalist id="ad-campaign-names">
+              {campaignNames.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <button
+              onClick={() => saveCodeMutation.mutate({ code: newCode, campaign: newCodeCampaign })}
+              disabled={!newCode.trim() || !newCodeCampaign.trim() || saveCodeMutation.isPending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Map
+            </button>
+          </div>
+          {discountCodes.length === 0 ? (
+            <p className="text-sm text-gray-400">No codes mapped.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {discountCodes.map((code) => (
+                <li key={code.code} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    <span className="font-mono font-medium">{code.code}</span>
+                    <span className="text-gray-500"> → {code.campaign_name}</span>
+                  </span>
+                  <button
+                    onClick={() => deleteCodeMutation.mutate(code.code)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove mapping"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-3">Imports</h4>
+          {imports.length === 0 ? (
+            <p className="text-sm text-gray-400">Nothing imported yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {imports.map((item) => (
+                <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{item.filename}</p>
+                    <p className="text-xs text-gray-500">
+                      {item.date_from} – {item.date_to} · {item.row_count} row(s) · {formatCurrency(item.total_spend)}
+                      {item.imported_by ? ` · ${item.imported_by}` : ''}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Remove ${item.filename} and the spend rows it imported?`)) {
+                        deleteImportMutation.mutate(item.id);
+                      }
+                    }}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove import"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { financialService, FinancialExpense, FinancialExpenseCategory, ExpenseType } from '../../services/financialService';
+import { financialService, FinancialExpense, FinancialExpenseCategory, ExpenseType, ExpensePaidBy, ExpensePartner } from '../../services/financialService';
 import { format, subMonths } from 'date-fns';
 import { TrashIcon, PencilIcon, XMarkIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
 import { SkeletonCard } from '../common/SkeletonLoader';
 import { PieChart, Pie, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import toast from 'react-hot-toast';
+import RecurringExpensesPanel from './RecurringExpensesPanel';
 
 const EXPENSE_CATEGORIES: FinancialExpenseCategory[] = [
   "Ads",
@@ -23,6 +24,7 @@ const EXPENSE_CATEGORIES: FinancialExpenseCategory[] = [
   "Other"
 ];
 
+
 interface FinancialExpensesTabProps {
   selectedMonth: string;
   setSelectedMonth: (month: string) => void;
@@ -31,6 +33,36 @@ interface FinancialExpensesTabProps {
   onAddModalClose?: () => void;
 }
 
+/** Who paid, with a settle action for partner-paid expenses not yet paid back. */
+function PaidByCell({ expense, onSettle }: { expense: FinancialExpense; onSettle: (partner?: ExpensePartner) => void }) {
+  const paidBy = expense.paid_by ?? 'Business';
+  if (paidBy === 'Business') return <>Business</>;
+  if (expense.settled) return <span className="text-green-700">{paidBy} · paid back</span>;
+
+  const shared = paidBy === 'Shared';
+  const pending = shared
+    ? Object.entries(expense.split_payment ?? {})
+        .filter(([partner, amount]) => amount > 0 && !(expense.settled_partners ?? []).includes(partner))
+        .map(([partner]) => partner)
+    : [paidBy];
+  return (
+    <span className="inline-flex items-center gap-2">
+      {paidBy}
+      {pending.map(partner => (
+        <button
+          key={partner}
+          type="button"
+          onClick={() => onSettle(shared ? partner : undefined)}
+          className="rounded border border-amber-300 bg-amber-50 px-1.5 py-0.5 text-xs text-amber-800 hover:bg-amber-100"
+          title={`Mark as paid back to ${partner}`}
+        >
+          Settle{shared ? ` ${partner}` : ''}
+        </button>
+      ))}
+    </span>
+  );
+}
+
 export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth, onBack, openAddModal, onAddModalClose }: FinancialExpensesTabProps) {
   const queryClient = useQueryClient();
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -55,6 +87,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
     amount: '',
     date: format(new Date(), 'yyyy-MM-dd'),
     notes: '',
+    paid_by: 'Business' as ExpensePaidBy,
   });
   const [searchQuery, setSearchQuery] = useState('');
 
@@ -94,6 +127,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
           product_name: newExpense.product_name,
           quantity: newExpense.quantity,
           unit_cost: newExpense.unit_cost,
+          paid_by: newExpense.paid_by,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         };
@@ -159,6 +193,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
         amount: '',
         date: format(new Date(), 'yyyy-MM-dd'),
         notes: '',
+        paid_by: 'Business',
       });
       toast.success('Expense added successfully');
     },
@@ -178,6 +213,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
         amount: parseFloat(data.amount!),
         date: data.date!,
         notes: data.notes,
+        paid_by: data.paid_by,
       }),
     onMutate: async ({ id, data }) => {
       await queryClient.cancelQueries({ queryKey: ['financial-expenses', selectedMonth] });
@@ -248,6 +284,34 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
     },
   });
 
+  const settleMutation = useMutation({
+    mutationFn: ({ id, partner }: { id: string; partner?: ExpensePartner }) =>
+      financialService.settleExpense(id, partner),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['financial-expenses', selectedMonth], (old: FinancialExpense[] = []) =>
+        old.map(exp => (exp.id === data.id ? data : exp))
+      );
+      queryClient.invalidateQueries({ queryKey: ['partner-balances'] });
+      toast.success('Marked as paid back');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to settle expense');
+    },
+  });
+
+  const { data: partners = [] } = useQuery({
+    queryKey: ['partners'],
+    queryFn: () => financialService.getPartners(),
+  });
+  const activePartners = partners.filter(partner => partner.active);
+  const paidByOptions: ExpensePaidBy[] = ['Business', ...activePartners.map(partner => partner.name), 'Shared'];
+
+  const { data: partnerBalances = [] } = useQuery({
+    queryKey: ['partner-balances', activePartners.map(partner => partner.name)],
+    queryFn: () => Promise.all(activePartners.map(partner => financialService.getPartnerBalance(partner.name))),
+    enabled: activePartners.length > 0,
+  });
+
   // Get last 6 months for trend - computed from cached expenses, no API calls
   const trendData = useMemo(() => {
     const months = [];
@@ -298,6 +362,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
       date: formData.date,
       notes: formData.notes || undefined,
       expense_type: 'operating' as ExpenseType, // Default to operating for manual entries
+      paid_by: formData.paid_by,
     };
     createMutation.mutate(expenseData);
   };
@@ -309,6 +374,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
       amount: expense.amount.toString(),
       date: expense.date,
       notes: expense.notes || '',
+      paid_by: expense.paid_by ?? 'Business',
     });
     setIsEditModalOpen(true);
   };
@@ -464,6 +530,16 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
         </div>
       )}
 
+      {partnerBalances.some(balance => balance.owed_amount > 0) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 text-sm text-amber-800">
+          Owed back to partners:{' '}
+          {partnerBalances
+            .filter(balance => balance.owed_amount > 0)
+            .map(balance => `${balance.partner} ${formatCurrency(balance.owed_amount)}`)
+            .join(' · ')}
+        </div>
+      )}
+
       {/* Expenses Table */}
       <div className="bg-white shadow-sm border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
@@ -479,6 +555,9 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Amount
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Paid by
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Notes
                 </th>
@@ -500,6 +579,9 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
                       {formatCurrency(expense.amount)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      <PaidByCell expense={expense} onSettle={(partner) => settleMutation.mutate({ id: expense.id, partner })} />
+                    </td>
                     <td className="px-6 py-4 text-sm text-gray-500">
                       {expense.notes || '-'}
                     </td>
@@ -525,7 +607,7 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
                 ))
               ) : (
                 <tr>
-                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
                     {searchQuery 
                       ? `No expenses found matching "${searchQuery}"`
                       : `No expenses found for ${formatMonthDisplay(selectedMonth)}`}
@@ -537,6 +619,8 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
         </div>
       </div>
 
+      <RecurringExpensesPanel categories={EXPENSE_CATEGORIES} paidByOptions={paidByOptions} />
+
       {/* Add Expense Modal */}
       {isAddModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -592,6 +676,22 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
                   className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Paid by
+                </label>
+                <select
+                  value={formData.paid_by}
+                  onChange={(e) => setFormData({ ...formData, paid_by: e.target.value as ExpensePaidBy })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  {paidByOptions.map(option => (
+                    <option key={option} value={option}>
+                      {option === 'Shared' ? 'Shared (split by ownership)' : option}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Notes
@@ -679,6 +779,22 @@ export default function FinancialExpensesTab({ selectedMonth, setSelectedMonth,
                   className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Paid by
+                </label>
+                <select
+                  value={formData.paid_by}
+                  onChange={(e) => setFormData({ ...formData, paid_by: e.target.value as ExpensePaidBy })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  {paidByOptions.map(option => (
+                    <option key={option} value={option}>
+                      {option === 'Shared' ? 'Shared (split by ownership)' : option}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Notes
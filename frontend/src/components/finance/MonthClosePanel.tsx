@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { CheckCircleIcon, ExclamationTriangleIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { financialService } from '../../services/financialService';
+import { useAuth } from '../../contexts/AuthContext';
+import { isPastFinanceMonth } from '../../utils/financeMonthQuery';
+
+function formatDate(value: string | null) {
+  return value ? format(new Date(value), 'd MMM yyyy, HH:mm') : '';
+}
+
+interface MonthClosePanelProps {
+  selectedMonth: string;
+}
+
+/**
+ * Close a finished month once every paid order has its shipping cost. A closed
+ * month is pinned by a checksum and rejects edits until reopened with a reason.
+ */
+export default function MonthClosePanel({ selectedMonth }: MonthClosePanelProps) {
+  const queryClient = useQueryClient();
+  const { username } = useAuth();
+  const [showCheck, setShowCheck] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['finance-month-close', selectedMonth],
+    queryFn: () => financialService.getMonthClose(selectedMonth),
+    enabled: isPastFinanceMonth(selectedMonth),
+  });
+  const isClosed = data?.close?.status === 'closed';
+
+  const { data: check, isFetching: isChecking } = useQuery({
+    queryKey: ['finance-month-close-check', selectedMonth],
+    queryFn: () => financialService.checkMonthClose(selectedMonth),
+    enabled: showCheck && !isClosed,
+  });
+  const { data: verification } = useQuery({
+    queryKey: ['finance-month-close-verify', selectedMonth],
+    queryFn: () => financialService.verifyMonthClose(selectedMonth),
+    enabled: isClosed,
+  });
+
+  const refresh = () => {
+    setShowCheck(false);
+    queryClient.invalidateQueries({ queryKey: ['finance-month-close', selectedMonth] });
+    queryClient.invalidateQueries({ queryKey: ['finance-month-close-check', selectedMonth] });
+    queryClient.invalidateQueries({ queryKey: ['finance-month-close-verify', selectedMonth] });
+    queryClient.invalidateQueries({ queryKey: ['finance-month', selectedMonth] });
+    queryClient.invalidateQueries({ queryKey: ['payouts', selectedMonth] });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: () => financialService.closeMonth(selectedMonth, username),
+    onSuccess: () => {
+      toast.success(`${selectedMonth} closed`);
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: (reason: string) => financialService.reopenMonth(selectedMonth, reason, username),
+    onSuccess: () => {
+      toast.success(`${selectedMonth} reopened`);
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (!isPastFinanceMonth(selectedMonth)) return null;
+
+  const close = data?.close;
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900">Month close</h4>
+          <p className="text-xs text-gray-500">
+            {isLoading
+              ? 'Loading…'
+              : isClosed
+              ? `Closed${close?.closed_by ? ` by ${close.closed_by}` : ''}${
+                  close?.closed_at ? ` on ${formatDate(close.closed_at)}` : ''
+                } — expenses, shipping records and recalculation are blocked`
+              : close?.reopened_at
+              ? `Reopened${close.reopened_by ? ` by ${close.reopened_by}` : ''}: ${close.reopen_reason}`
+              : 'Open — close it once every paid order has its shipping cost'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isClosed ? (
+            <>
+              <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                <LockClosedIcon className="h-3.5 w-3.5" aria-hidden /> Closed
+              </span>
+              <button
+                type="button"
+                onClick={() => {
+                  const reason = window.prompt(`Why does ${selectedMonth} need to be reopened?`);
+                  if (reason?.trim()) reopenMutation.mutate(reason.trim());
+                }}
+                disabled={reopenMutation.isPending}
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Reopen
+              </button>
+            </>
+          ) : showCheck && check?.canClose ? (
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm(`Close ${selectedMonth}? Its figures will be frozen until reopened.`)) {
+                  closeMutation.mutate();
+                }
+              }}
+              disabled={closeMutation.isPending}
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              {closeMutation.isPending ? 'Closing…' : 'Close month'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setShowCheck(true)}
+              disabled={isChecking}
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isChecking ? 'Checking…' : 'Check & close'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isClosed && verification && (
+        <p
+          className={`mt-2 inline-flex items-center gap-1 text-xs ${
+            verification.matches ? 'text-green-700' : 'text-red-600'
+          }`}
+        >
+          {verification.matches ? (
+            <CheckCircleIcon className="h-4 w-4" aria-hidden />
+          ) : (
+            <ExclamationTriangleIcon className="h-4 w-4" aria-hidden />
+          )}
+          {verification.matches
+            ? `Figures match the close checksum (${close?.checksum?.slice(0, 12)})`
+            : 'Stored figures no longer match the close checksum'}
+        </p>
+      )}
+
+      {showCheck && !isClosed && check && !check.canClose && (
+        <div className="mt-3 rounded-md bg-amber-50 p-3 text-xs text-amber-800">
+          <ul className="list-disc pl-4">
+            {check.problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+          {check.missingShippingCost.length > 0 && (
+            <p className="mt-1">
+              Missing shipping cost: {check.missingShippingCost.map((order) => order.name).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {data && data.events.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-100 border-t border-gray-100 text-xs text-gray-600">
+          {data.events.map((event) => (
+            <li key={event.id} className="py-1">
+              <strong className="text-gray-800">{event.action === 'close' ? 'Closed' : 'Reopened'}</strong>{' '}
+              {formatDate(event.created_at)}
+              {event.actor ? ` by ${event.actor}` : ''}
+              {event.reason ? ` — ${event.reason}` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,382 @@
+import { Fragment, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  financialService,
+  type Partner,
+  type PartnerSettlementInput,
+  type PartnerSettlementKind,
+} from '../../services/financialService';
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none';
+
+const KIND_LABELS: Record<PartnerSettlementKind, string> = {
+  reimbursement: 'Paid back by the business',
+  draw: 'Draw (took money out)',
+  contribution: 'Contribution (put money in)',
+  transfer: 'Paid another partner',
+};
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat('en-EG', {
+    style: 'currency',
+    currency: 'EGP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+function PartnerLedgerTable({ partner }: { partner: string }) {
+  const { data: ledger, isLoading } = useQuery({
+    queryKey: ['partner-ledger', partner],
+    queryFn: () => financialService.getPartnerLedger(partner),
+  });
+
+  if (isLoading) return <p className="px-3 py-2 text-xs text-gray-500">Loading ledger…</p>;
+  if (!ledger || ledger.entries.length === 0) {
+    return <p className="px-3 py-2 text-xs text-gray-500">Nothing recorded for {partner} yet.</p>;
+  }
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead className="text-left text-gray-500">
+        <tr>
+          <th className="px-3 py-1 font-medium">Date</th>
+          <th className="px-3 py-1 font-medium">Entry</th>
+          <th className="px-3 py-1 text-right font-medium">Amount</th>
+          <th className="px-3 py-1 text-right font-medium">Balance</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {[...ledger.entries].reverse().map((entry, index) => (
+          <tr key={entry.expense_id ?? entry.settlement_id ?? index}>
+            <td className="px-3 py-1 whitespace-nowrap text-gray-600">{format(new Date(entry.date), 'dd MMM yyyy')}</td>
+            <td className="px-3 py-1 text-gray-800">{entry.description}</td>
+            <td className={`px-3 py-1 text-right ${entry.amount < 0 ? 'text-red-600' : 'text-green-700'}`}>
+              {entry.amount > 0 ? '+' : ''}
+              {formatCurrency(entry.amount)}
+            </td>
+            <td className="px-3 py-1 text-right text-gray-800">{formatCurrency(entry.balance)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Partners and their ownership, each partner's running balance (fronted or put
+ * in vs taken out) and the transfers that would bring everyone back to their share.
+ */
+export default function PartnersTab() {
+  const queryClient = useQueryClient();
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [newPartner, setNewPartner] = useState({ name: '', ownership_percent: '' });
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [movement, setMovement] = useState<PartnerSettlementInput>({
+    partner: '',
+    kind: 'draw',
+    amount: 0,
+    date: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  const { data: partners = [] } = useQuery({
+    queryKey: ['partners'],
+    queryFn: () => financialService.getPartners(),
+  });
+
+  const { data: report } = useQuery({
+    queryKey: ['partner-balances-report'],
+    queryFn: () => financialService.getPartnerBalances(),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['partners'] });
+    queryClient.invalidateQueries({ queryKey: ['partner-balances-report'] });
+    queryClient.invalidateQueries({ queryKey: ['partner-balances'] });
+    queryClient.invalidateQueries({ queryKey: ['partner-ledger'] });
+  };
+
+  const savePartnerMutation = useMutation({
+    mutationFn: financialService.savePartner,
+    onSuccess: (partner) => {
+      invalidate();
+      setShares((prev) => {
+        const next = { ...prev };
+        delete next[partner.id];
+        return next;
+      });
+      setNewPartner({ name: '', ownership_percent: '' });
+      toast.success(`${partner.name} saved`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const settlementMutation = useMutation({
+    mutationFn: financialService.createSettlement,
+    onSuccess: () => {
+      invalidate();
+      setMovement((prev) => ({ ...prev, amount: 0, note: '' }));
+      toast.success('Recorded');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const saveShare = (partner: Partner) => {
+    const value = shares[partner.id];
+    if (value === undefined) return;
+    savePartnerMutation.mutate({ id: partner.id, ownership_percent: Number(value) });
+  };
+
+  const ownershipTotal =
+    report?.ownership_total ?? partners.filter((p) => p.active).reduce((sum, p) => sum + Number(p.ownership_percent), 0);
+
+  return (
+    <div className="space-y-4">
+      <section className="rounded-lg border border-gray-200 bg-white p-4">
+        <h3 className="text-sm font-semibold text-gray-900">Partners and ownership</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          Shared expenses are split by ownership. Active shares add up to {ownershipTotal}%
+          {ownershipTotal !== 100 && <span className="text-amber-700"> — they should add up to 100%</span>}.
+        </p>
+        <div className="mt-3 divide-y divide-gray-100">
+          {partners.map((partner) => (
+            <div key={partner.id} className="flex flex-wrap items-center gap-2 py-2">
+              <span className={`w-32 text-sm ${partner.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                {partner.name}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={shares[partner.id] ?? String(Number(partner.ownership_percent))}
+                onChange={(e) => setShares({ ...shares, [partner.id]: e.target.value })}
+                className={`${inputClass} w-24`}
+              />
+              <span className="text-sm text-gray-500">%</span>
+              {shares[partner.id] !== undefined && (
+                <button
+                  type="button"
+                  onClick={() => saveShare(partner)}
+                  disabled={savePartnerMutation.isPending}
+                  className="rounded-md bg-gray-900 px-2 py-1 text-xs text-white hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => savePartnerMutation.mutate({ id: partner.id, active: !partner.active })}
+                className="ml-auto text-xs text-gray-500 hover:text-gray-800"
+              >
+                {partner.active ? 'Deactivate' : 'Reactivate'}
+              </button>
+            </div>
+          ))}
+        </div>
+        <form
+          className="mt-3 flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            savePartnerMutation.mutate({
+              name: newPartner.name.trim(),
+              ownership_percent: Number(newPartner.ownership_percent) || 0,
+            });
+          }}
+        >
+          <input
+            placeholder="New partner or investor"
+            value={newPartner.name}
+            onChange={(e) => setNewPartner({ ...newPartner, name: e.target.value })}
+            className={`${inputClass} w-48`}
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="0.01"
+            placeholder="%"
+            value={newPartner.ownership_percent}
+            onChange={(e) => setNewPartner({ ...newPartner, ownership_percent: e.target.value })}
+            className={`${inputClass} w-24`}
+          />
+          <button
+            type="submit"
+            disabled={!newPartner.name.trim() || savePartnerMutation.isPending}
+            className="rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Add partner
+          </button>
+        </form>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-4">
+        <h3 className="text-sm font-semibold text-gray-900">Balances</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          Balance is what a partner fronted or put in minus what they took out. Together the partners are in for{' '}
+          {formatCurrency(report?.total_balance ?? 0)}; each partner's fair part follows their ownership.
+        </p>
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-xs text-gray-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Partner</th>
+                <th className="py-1 pr-3 text-right font-medium">Share</th>
+                <th className="py-1 pr-3 text-right font-medium">Balance</th>
+                <th className="py-1 pr-3 text-right font-medium">Fair part</th>
+                <th className="py-1 text-right font-medium">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(report?.positions ?? []).map((position) => (
+                <Fragment key={position.partner}>
+                  <tr
+                    className="cursor-pointer border-t border-gray-100 hover:bg-gray-50"
+                    onClick={() => setExpanded(expanded === position.partner ? null : position.partner)}
+                  >
+                    <td className="py-1.5 pr-3 text-gray-900">{position.partner}</td>
+                    <td className="py-1.5 pr-3 text-right text-gray-600">{position.ownership_percent}%</td>
+                    <td className="py-1.5 pr-3 text-right">{formatCurrency(position.balance)}</td>
+                    <td className="py-1.5 pr-3 text-right text-gray-600">{formatCurrency(position.target)}</td>
+                    <td
+                      className={`py-1.5 text-right ${
+                        position.difference > 0 ? 'text-green-700' : position.difference < 0 ? 'text-red-600' : 'text-gray-500'
+                      }`}
+                    >
+                      {position.difference > 0 ? '+' : ''}
+                      {formatCurrency(position.difference)}
+                    </td>
+                  </tr>
+                  {expanded === position.partner && (
+                    <tr>
+                      <td colSpan={5} className="bg-gray-50">
+                        <PartnerLedgerTable partner={position.partner} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {report && report.suggestions.length > 0 && (
+          <div className="mt-4 rounded-md border border-amber-200 bg-amber-50 p-3">
+            <h4 className="text-xs font-semibold text-amber-900">To settle up</h4>
+            <ul className="mt-2 space-y-1">
+              {report.suggestions.map((suggestion) => (
+                <li key={`${suggestion.from}-${suggestion.to}`} className="flex items-center gap-2 text-sm text-amber-900">
+                  <span>
+                    {suggestion.from} pays {suggestion.to} {formatCurrency(suggestion.amount)}
+                  </span>
+                  <button
+                    type="button"
+                    disabled={settlementMutation.isPending}
+                    onClick={() =>
+                      settlementMutation.mutate({
+                        partner: suggestion.from,
+                        kind: 'transfer',
+                        counterparty: suggestion.to,
+                        amount: suggestion.amount,
+                        date: format(new Date(), 'yyyy-MM-dd'),
+                        note: 'Settle-up',
+                      })
+                    }
+                    className="rounded border border-amber-300 bg-white px-1.5 py-0.5 text-xs hover:bg-amber-100 disabled:opacity-50"
+                  >
+                    Record
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-4">
+        <h3 className="text-sm font-semibold text-gray-900">Record money in or out</h3>
+        <form
+          className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            settlementMutation.mutate({ ...movement, counterparty: movement.kind === 'transfer' ? movement.counterparty : undefined });
+          }}
+        >
+          <select
+            value={movement.partner}
+            onChange={(e) => setMovement({ ...movement, partner: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Partner…</option>
+            {partners.map((partner) => (
+              <option key={partner.id} value={partner.name}>
+                {partner.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={movement.kind}
+            onChange={(e) => setMovement({ ...movement, kind: e.target.value as PartnerSettlementKind })}
+            className={inputClass}
+          >
+            {(Object.keys(KIND_LABELS) as PartnerSettlementKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+          {movement.kind === 'transfer' ? (
+            <select
+              value={movement.counterparty ?? ''}
+              onChange={(e) => setMovement({ ...movement, counterparty: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">To partner…</option>
+              {partners
+                .filter((partner) => partner.name !== movement.partner)
+                .map((partner) => (
+                  <option key={partner.id} value={partner.name}>
+                    {partner.name}
+                  </option>
+                ))}
+            </select>
+          ) : (
+            <span />
+          )}
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Amount"
+            value={movement.amount || ''}
+            onChange={(e) => setMovement({ ...movement, amount: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={movement.date}
+            onChange={(e) => setMovement({ ...movement, date: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            placeholder="Note"
+            value={movement.note ?? ''}
+            onChange={(e) => setMovement({ ...movement, note: e.target.value })}
+            className={inputClass}
+          />
+          <div className="sm:col-span-3">
+            <button
+              type="submit"
+              disabled={!movement.partner || !movement.amount || settlementMutation.isPending}
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              Record
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
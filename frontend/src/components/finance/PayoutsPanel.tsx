@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import {
+  financialService,
+  type MonthlyPayout,
+  type PayoutBasis,
+  type PayoutConfig,
+  type PayoutConfigInput,
+} from '../../services/financialService';
+import { useAuth } from '../../contexts/AuthContext';
+import { getCurrentFinanceMonth, isPastFinanceMonth } from '../../utils/financeMonthQuery';
+
+const BASIS_LABELS: Record<PayoutBasis, string> = {
+  dpp: 'DPP (accrual)',
+  cash_dpp: 'Net profit (cash)',
+};
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none';
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat('en-EG', {
+    style: 'currency',
+    currency: 'EGP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+function configDraft(config: PayoutConfig | null | undefined): PayoutConfigInput {
+  return {
+    effective_from: getCurrentFinanceMonth(),
+    basis: config?.basis ?? 'dpp',
+    media_buyer_percent: config?.media_buyer_percent ?? 3,
+    ops_percent: config?.ops_percent ?? 10,
+    crm_percent: config?.crm_percent ?? 7.5,
+    owner_pay_type: config?.owner_pay_type ?? 'percent',
+    owner_pay_value: config?.owner_pay_value ?? 0,
+  };
+}
+
+function payoutRows(payout: MonthlyPayout) {
+  return [
+    { label: `Media buyer (${Number(payout.media_buyer_percent)}%)`, amount: payout.media_buyer_amount },
+    { label: `Ops (${Number(payout.ops_percent)}%)`, amount: payout.ops_amount },
+    { label: `CRM (${Number(payout.crm_percent)}%)`, amount: payout.crm_amount },
+    {
+      label: payout.owner_pay_type === 'fixed' ? 'Owner (fixed)' : `Owner (${Number(payout.owner_pay_value)}%)`,
+      amount: payout.owner_amount,
+    },
+  ];
+}
+
+interface PayoutsPanelProps {
+  selectedMonth: string;
+}
+
+/**
+ * Who gets paid what from the month's profit pool. A draft can be recalculated
+ * until it is approved; approval locks the month's payouts and profit.
+ */
+export default function PayoutsPanel({ selectedMonth }: PayoutsPanelProps) {
+  const queryClient = useQueryClient();
+  const { username } = useAuth();
+  const [showSettings, setShowSettings] = useState(false);
+  const [draft, setDraft] = useState<PayoutConfigInput | null>(null);
+
+  const { data: payout, isLoading } = useQuery({
+    queryKey: ['payouts', selectedMonth],
+    queryFn: () => financialService.getPayout(selectedMonth),
+  });
+  const { data: configHistory = [] } = useQuery({
+    queryKey: ['payout-config-history'],
+    queryFn: financialService.getPayoutConfigHistory,
+    enabled: showSettings,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['payouts', selectedMonth] });
+    queryClient.invalidateQueries({ queryKey: ['finance-month', selectedMonth] });
+  };
+
+  const calculateMutation = useMutation({
+    mutationFn: () => financialService.calculatePayouts(selectedMonth),
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: () => financialService.approvePayouts(selectedMonth, username),
+    onSuccess: () => {
+      toast.success(`Payouts for ${selectedMonth} approved and locked`);
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const saveConfigMutation = useMutation({
+    mutationFn: (input: PayoutConfigInput) => financialService.savePayoutConfig(input, username),
+    onSuccess: (config) => {
+      toast.success(`Payout config saved from ${config.effective_from}`);
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ['payout-config-history'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const isApproved = payout?.status === 'approved';
+  const form = draft ?? configDraft(configHistory[0]);
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900">Payouts</h4>
+          <p className="text-xs text-gray-500">
+            {isApproved
+              ? `Approved${payout?.approved_by ? ` by ${payout.approved_by}` : ''}${
+                  payout?.approved_at ? ` on ${format(new Date(payout.approved_at), 'd MMM yyyy')}` : ''
+                } — this month is locked`
+              : payout
+              ? `Draft from ${BASIS_LABELS[payout.basis]} — recalculate after profit changes, then approve`
+              : 'Not calculated yet'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isApproved ? (
+            <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+              <LockClosedIcon className="h-3.5 w-3.5" aria-hidden /> Locked
+            </span>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => calculateMutation.mutate()}
+                disabled={calculateMutation.isPending}
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {payout ? 'Recalculate' : 'Calculate'}
+              </button>
+              {payout && isPastFinanceMonth(selectedMonth) && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Approve payouts for ${selectedMonth}? The month will be locked.`)) {
+                      approveMutation.mutate();
+                    }
+                  }}
+                  disabled={approveMutation.isPending}
+                  className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+                >
+                  Approve &amp; lock
+                </button>
+              )}
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowSettings(!showSettings)}
+            className="text-xs text-blue-600 hover:text-blue-700"
+          >
+            {showSettings ? 'Hide settings' : 'Settings'}
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="mt-3 text-sm text-gray-500">Loading…</p>
+      ) : payout ? (
+        <table className="mt-3 w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            <tr>
+              <td className="py-1.5 text-gray-700">Profit pool — {BASIS_LABELS[payout.basis]}</td>
+              <td className="py-1.5 text-right font-medium text-gray-900">{formatCurrency(payout.dpp)}</td>
+            </tr>
+            {payoutRows(payout).map((row) => (
+              <tr key={row.label}>
+                <td className="py-1.5 pl-3 text-gray-600">{row.label}</td>
+                <td className="py-1.5 text-right text-gray-700">−{formatCurrency(row.amount)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td className="py-1.5 font-semibold text-gray-900">Net business profit</td>
+              <td
+                className={`py-1.5 text-right font-semibold ${
+                  payout.net_business_profit >= 0 ? 'text-green-700' : 'text-red-600'
+                }`}
+              >
+                {formatCurrency(payout.net_business_profit)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      ) : null}
+
+      {showSettings && (
+        <div className="mt-4 border-t border-gray-100 pt-3">
+          <h5 className="text-xs font-semibold text-gray-700">New config version</h5>
+          <p className="mt-0.5 text-xs text-gray-500">
+            Applies from the chosen month on; earlier months keep the config they were calculated with.
+          </p>
+          <form
+            className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveConfigMutation.mutate(form);
+            }}
+          >
+            <label className="space-y-1">
+              <span className="text-xs text-gray-600">From month</span>
+              <input
+                type="month"
+                value={form.effective_from}
+                onChange={(e) => setDraft({ ...form, effective_from: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-gray-600">Pool</span>
+              <select
+                value={form.basis}
+                onChange={(e) => setDraft({ ...form, basis: e.target.value as PayoutBasis })}
+                className={inputClass}
+              >
+                {Object.entries(BASIS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {(
+              [
+                ['media_buyer_percent', 'Media buyer %'],
+                ['ops_percent', 'Ops %'],
+                ['crm_percent', 'CRM %'],
+              ] as const
+            ).map(([field, label]) => (
+              <label key={field} className="space-y-1">
+                <span className="text-xs text-gray-600">{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={form[field]}
+                  onChange={(e) => setDraft({ ...form, [field]: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <label className="space-y-1">
+              <span className="text-xs text-gray-600">Owner pay</span>
+              <div className="flex gap-1">
+                <select
+                  value={form.owner_pay_type}
+                  onChange={(e) => setDraft({ ...form, owner_pay_type: e.target.value as PayoutConfigInput['owner_pay_type'] })}
+                  className={inputClass}
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">EGP</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.owner_pay_value}
+                  onChange={(e) => setDraft({ ...form, owner_pay_value: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </label>
+            <div className="col-span-2 flex items-end justify-end sm:col-span-2">
+              <button
+                type="submit"
+                disabled={!form.effective_from || saveConfigMutation.isPending}
+                className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+              >
+                Save version
+              </button>
+            </div>
+          </form>
+
+          {configHistory.length > 0 && (
+            <ul className="mt-3 divide-y divide-gray-100 text-xs text-gray-600">
+              {configHistory.map((config) => (
+                <li key={config.id} className="py-1">
+                  <strong className="text-gray-800">From {config.effective_from}</strong>: {BASIS_LABELS[config.basis]} · media
+                  buyer {Number(config.media_buyer_percent)}% · ops {Number(config.ops_percent)}% · CRM{' '}
+                  {Number(config.crm_percent)}% · owner{' '}
+                  {config.owner_pay_type === 'fixed'
+                    ? formatCurrency(Number(config.owner_pay_value))
+                    : `${Number(config.owner_pay_value)}%`}
+                  {config.created_by ? ` · by ${config.created_by}` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,264 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { financialService, type ProductCost, type ProductCostInput } from '../../services/financialService';
+import { materialsService } from '../../services/materialsService';
+
+const COMPONENTS: Array<{ field: keyof ProductCostInput & `${string}_per_unit`; label: string }> = [
+  { field: 'crochet_labor_per_unit', label: 'Labor' },
+  { field: 'yarn_cost_per_unit', label: 'Yarn' },
+  { field: 'helper_colors_cost_per_unit', label: 'Helper colors' },
+  { field: 'laser_felt_cost_per_unit', label: 'Laser felt' },
+  { field: 'packaging_per_unit', label: 'Packaging' },
+];
+
+type CostDraft = Record<(typeof COMPONENTS)[number]['field'], string> & {
+  product_id: string;
+  product_name: string;
+  effective_from: string;
+};
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none';
+
+function emptyDraft(): CostDraft {
+  return {
+    product_id: '',
+    product_name: '',
+    crochet_labor_per_unit: '',
+    yarn_cost_per_unit: '',
+    helper_colors_cost_per_unit: '',
+    laser_felt_cost_per_unit: '',
+    packaging_per_unit: '',
+    effective_from: format(new Date(), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Unit cost per product, versioned by effective date. The profit engine costs
+ * each paid order at the version in effect on its paid date (accrual COGS), and
+ * maker statements use the labor component as the per-unit rate.
+ */
+export default function ProductCostsTab() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CostDraft>(emptyDraft);
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+
+  const { data: costs = [], isLoading } = useQuery({
+    queryKey: ['product-costs'],
+    queryFn: () => financialService.getProductCosts(),
+  });
+  const { data: products = [] } = useQuery({
+    queryKey: ['material-products'],
+    queryFn: materialsService.listProducts,
+    staleTime: 5 * 60_000,
+  });
+  const { data: history = [] } = useQuery({
+    queryKey: ['product-cost-history', historyProductId],
+    queryFn: () => financialService.getProductCostHistory(historyProductId!),
+    enabled: !!historyProductId,
+  });
+
+  // One entry per product seen on orders
+  const productOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const product of products) if (!byId.has(product.product_id)) byId.set(product.product_id, product.title);
+    return Array.from(byId, ([id, title]) => ({ id, title }));
+  }, [products]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['product-costs'] });
+    queryClient.invalidateQueries({ queryKey: ['product-cost-history'] });
+    queryClient.invalidateQueries({ queryKey: ['product-margins'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      financialService.createProductCost({
+        product_id: draft.product_id,
+        product_name: draft.product_name,
+        effective_from: draft.effective_from,
+        ...Object.fromEntries(COMPONENTS.map(({ field }) => [field, Number(draft[field]) || 0])),
+      } as ProductCostInput),
+    onSuccess: (cost) => {
+      toast.success(`Saved ${cost.product_name} from ${cost.effective_from}`);
+      setDraft(emptyDraft());
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (cost: ProductCost) => financialService.deleteProductCost(cost.id),
+    onSuccess: () => refresh(),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const startChange = (cost: ProductCost) => {
+    setDraft({
+      product_id: cost.product_id,
+      product_name: cost.product_name,
+      effective_from: format(new Date(), 'yyyy-MM-dd'),
+      ...(Object.fromEntries(COMPONENTS.map(({ field }) => [field, String(cost[field])])) as Record<
+        (typeof COMPONENTS)[number]['field'],
+        string
+      >),
+    });
+  };
+
+  const draftTotal = COMPONENTS.reduce((sum, { field }) => sum + (Number(draft[field]) || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <section className="rounded-lg border border-gray-200 bg-white p-4">
+        <h3 className="text-sm font-semibold text-gray-900">Set a product cost</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          A new cost applies to orders paid from its effective date; earlier orders keep the cost they had.
+        </p>
+        <form
+          className="mt-3 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_10rem]">
+            <select
+              value={draft.product_id}
+              onChange={(e) => {
+                const option = productOptions.find((product) => product.id === e.target.value);
+                setDraft({ ...draft, product_id: e.target.value, product_name: option?.title ?? '' });
+              }}
+              className={inputClass}
+            >
+              <option value="">Choose a product…</option>
+              {draft.product_id && !productOptions.some((product) => product.id === draft.product_id) && (
+                <option value={draft.product_id}>{draft.product_name}</option>
+              )}
+              {productOptions.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.title}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={draft.effective_from}
+              onChange={(e) => setDraft({ ...draft, effective_from: e.target.value })}
+              className={inputClass}
+              title="Effective from"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+            {COMPONENTS.map(({ field, label }) => (
+              <label key={field} className="space-y-1">
+                <span className="text-xs text-gray-600">{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={draft[field]}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-700">
+              Unit cost: <strong>{draftTotal.toLocaleString()} EGP</strong>
+            </span>
+            <button
+              type="submit"
+              disabled={!draft.product_id || !draft.effective_from || createMutation.isPending}
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white">
+        <h3 className="border-b border-gray-100 px-4 py-2 text-sm font-semibold text-gray-900">Current costs</h3>
+        {isLoading ? (
+          <p className="px-4 py-3 text-sm text-gray-500">Loading…</p>
+        ) : costs.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-gray-500">No product costs yet — COGS is 0 until they are set.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-500">
+                <tr>
+                  <th className="px-4 py-1.5 font-medium">Product</th>
+                  {COMPONENTS.map(({ field, label }) => (
+                    <th key={field} className="px-2 py-1.5 text-right font-medium">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="px-2 py-1.5 text-right font-medium">Total</th>
+                  <th className="px-2 py-1.5 font-medium">Since</th>
+                  <th className="px-4 py-1.5" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {costs.map((cost) => (
+                  <tr key={cost.id}>
+                    <td className="px-4 py-1.5 text-gray-900">{cost.product_name}</td>
+                    {COMPONENTS.map(({ field }) => (
+                      <td key={field} className="px-2 py-1.5 text-right text-gray-600">
+                        {Number(cost[field])}
+                      </td>
+                    ))}
+                    <td className="px-2 py-1.5 text-right font-medium text-gray-900">{Number(cost.total_unit_cost)}</td>
+                    <td className="px-2 py-1.5 text-gray-500">{cost.effective_from}</td>
+                    <td className="whitespace-nowrap px-4 py-1.5 text-right text-xs">
+                      <button type="button" onClick={() => startChange(cost)} className="text-blue-600 hover:text-blue-700">
+                        Change
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setHistoryProductId(historyProductId === cost.product_id ? null : cost.product_id)}
+                        className="ml-3 text-gray-600 hover:text-gray-900"
+                      >
+                        History
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {historyProductId && (
+          <div className="border-t border-gray-100 px-4 py-2">
+            <h4 className="text-xs font-semibold text-gray-700">Versions</h4>
+            <ul className="mt-1 divide-y divide-gray-100 text-sm">
+              {history.map((version) => (
+                <li key={version.id} className="flex items-center justify-between gap-2 py-1">
+                  <span className="text-gray-700">
+                    From {version.effective_from}: <strong>{Number(version.total_unit_cost)} EGP</strong>
+                  </span>
+                  <button
+                    type="button"
+                    aria-label={`Delete the version from ${version.effective_from}`}
+                    onClick={() => {
+                      if (window.confirm(`Delete the ${version.effective_from} cost of ${version.product_name}?`)) {
+                        deleteMutation.mutate(version);
+                      }
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <TrashIcon className="h-4 w-4" aria-hidden />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { financialService, ProductCost } from '../../services/financialService';
+import { financialService } from '../../services/financialService';
 import { format } from 'date-fns';
 import { 
   MagnifyingGlassIcon,
@@ -13,160 +13,65 @@ import { SkeletonTable } from '../common/SkeletonLoader';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import toast from 'react-hot-toast';
 
-interface ProductMarginData {
-  product_id: string;
-  product_name: string;
-  cost_per_unit: number;
-  average_selling_price: number;
-  margin_percent: number;
-  units_sold: number;
-  total_revenue: number;
-  total_cost: number;
-}
-
 type SortField = 'product_name' | 'margin_percent' | 'units_sold' | 'total_revenue' | 'average_selling_price';
 type SortDirection = 'asc' | 'desc';
 
+const RANGE_OPTIONS = [
+  { months: 1, label: 'This month' },
+  { months: 3, label: 'Last 3 months' },
+  { months: 6, label: 'Last 6 months' },
+  { months: 12, label: 'Last 12 months' },
+];
+
 interface ProductMarginsTabProps {
   selectedMonth: string;
   setSelectedMonth: (month: string) => void;
   onBack: () => void;
 }
 
-export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onBack }: ProductMarginsTabProps) {
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return format(new Date(year, monthIndex - 1 + delta, 1), 'yyyy-MM');
+}
+
+function TrendBadge({ value, suffix }: { value: number | null | undefined; suffix: string }) {
+  if (value === null || value === undefined || value === 0) return null;
+  return (
+    <span className={`ml-1 text-xs ${value > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {value > 0 ? '▲' : '▼'} {Math.abs(value).toFixed(1)}{suffix}
+    </span>
+  );
+}
+
+export default function ProductMarginsTab({ selectedMonth }: ProductMarginsTabProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [sortField, setSortField] = useState<SortField>('margin_percent');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [marginRange, setMarginRange] = useState<[number, number]>([0, 100]);
   const [showFilters, setShowFilters] = useState(false);
+  const [rangeMonths, setRangeMonths] = useState(1);
+  const [expandedProductId, setExpandedProductId] = useState<string | null>(null);
 
-  const { data: productCosts, isLoading: costsLoading } = useQuery({
-    queryKey: ['product-costs'],
-    queryFn: () => financialService.getProductCosts(),
-  });
+  const fromMonth = shiftMonth(selectedMonth, 1 - rangeMonths);
 
-  const { data: orders, isLoading: ordersLoading } = useQuery({
-    queryKey: ['orders'],
-    queryFn: async () => {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders`);
-      if (!response.ok) throw new Error('Failed to fetch orders');
-      return response.json();
-    },
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['product-margins', fromMonth, selectedMonth],
+    queryFn: () => financialService.getProductMargins(fromMonth, selectedMonth),
   });
 
-  // Calculate product margins
-  const calculateMargins = (): ProductMarginData[] => {
-    if (!orders || !productCosts) return [];
-
-    const fulfilledOrders = orders.filter((order: any) => {
-      const tags = Array.isArray(order.tags)
-        ? order.tags
-        : typeof order.tags === 'string'
-          ? order.tags.split(',').map((t: string) => t.trim())
-          : [];
-
-      // Use 'paid' tag - ONLY use paid tag, no fallback
-      const isPaid = tags.some((tag: string) => tag.trim().toLowerCase() === 'paid');
-      const isCancelled = tags.some((tag: string) => tag.trim().toLowerCase() === 'cancelled');
-      if (!isPaid || isCancelled) return false;
-
-      // Get paid_date - ONLY use paid_date, no fallback
-      const paidDateTag = tags.find((tag: string) => tag.trim().startsWith('paid_date:'));
-      if (!paidDateTag) return false;
-      
-      const dateStr = paidDateTag.split(':')[1]?.trim();
-      if (dateStr) {
-        const orderMonth = dateStr.substring(0, 7);
-        return orderMonth === selectedMonth;
-      }
-      return false;
-    });
-
-    const productMap = new Map<string, {
-      product_id: string;
-      product_name: string;
-      total_quantity: number;
-      total_revenue: number;
-      items: Array<{ price: number; quantity: number }>;
-    }>();
-
-    fulfilledOrders.forEach((order: any) => {
-      if (order.line_items && Array.isArray(order.line_items)) {
-        order.line_items.forEach((item: any) => {
-          let productId = item.product_id?.toString() || item.variant_id?.toString() || '';
-          let productCost: ProductCost | undefined;
-
-          if (productId) {
-            productCost = productCosts.find((pc: ProductCost) => pc.product_id === productId);
-          }
-
-          if (!productCost && item.title) {
-            productCost = productCosts.find((pc: ProductCost) => 
-              pc.product_name.toLowerCase().includes(item.title.toLowerCase()) ||
-              item.title.toLowerCase().includes(pc.product_name.toLowerCase())
-            );
-            if (productCost) {
-              productId = productCost.product_id;
-            }
-          }
-
-          if (!productCost) return;
-
-          const itemPrice = parseFloat(item.price || '0');
-          const quantity = item.quantity || 0;
-
-          if (!productMap.has(productId)) {
-            productMap.set(productId, {
-              product_id: productId,
-              product_name: productCost.product_name,
-              total_quantity: 0,
-              total_revenue: 0,
-              items: [],
-            });
-          }
-
-          const productData = productMap.get(productId)!;
-          productData.total_quantity += quantity;
-          productData.total_revenue += itemPrice * quantity;
-          productData.items.push({ price: itemPrice, quantity });
-        });
-      }
-    });
-
-    const margins: ProductMarginData[] = Array.from(productMap.values()).map((data) => {
-      const productCost = productCosts.find((pc: ProductCost) => pc.product_id === data.product_id);
-      if (!productCost) return null;
-
-      const costPerUnit = productCost.total_unit_cost;
-      const totalCost = costPerUnit * data.total_quantity;
-      const averageSellingPrice = data.total_quantity > 0 ? data.total_revenue / data.total_quantity : 0;
-      const marginPercent = averageSellingPrice > 0
-        ? ((averageSellingPrice - costPerUnit) / averageSellingPrice) * 100
-        : 0;
-
-      return {
-        product_id: data.product_id,
-        product_name: data.product_name,
-        cost_per_unit: costPerUnit,
-        average_selling_price: averageSellingPrice,
-        margin_percent: marginPercent,
-        units_sold: data.total_quantity,
-        total_revenue: data.total_revenue,
-        total_cost: totalCost,
-      };
-    }).filter((m): m is ProductMarginData => m !== null);
-
-    return margins;
-  };
-
-  const allMargins = useMemo(() => calculateMargins(), [orders, productCosts, selectedMonth]);
+  const allMargins = useMemo(() => report?.products ?? [], [report]);
+  const marginFilterActive = marginRange[0] > 0 || marginRange[1] < 100;
 
   // Filter and sort margins
   const filteredAndSortedMargins = useMemo(() => {
     let filtered = allMargins.filter(margin => {
       const matchesSearch = margin.product_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                            margin.product_id.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesMarginRange = margin.margin_percent >= marginRange[0] && margin.margin_percent <= marginRange[1];
+      // Products without a cost have no margin; they only show while the range is unfiltered
+      const matchesMarginRange =
+        margin.margin_percent === null
+          ? !marginFilterActive
+          : margin.margin_percent >= marginRange[0] && margin.margin_percent <= marginRange[1];
       return matchesSearch && matchesMarginRange;
     });
 
@@ -181,8 +86,8 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
           bVal = b.product_name;
           break;
         case 'margin_percent':
-          aVal = a.margin_percent;
-          bVal = b.margin_percent;
+          aVal = a.margin_percent ?? -Infinity;
+          bVal = b.margin_percent ?? -Infinity;
           break;
         case 'units_sold':
           aVal = a.units_sold;
@@ -212,7 +117,7 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
     });
 
     return filtered;
-  }, [allMargins, searchQuery, marginRange, sortField, sortDirection]);
+  }, [allMargins, searchQuery, marginRange, marginFilterActive, sortField, sortDirection]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -246,37 +151,42 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
   };
 
   const exportToCSV = () => {
-    const headers = ['Product Name', 'Product ID', 'Cost/Unit', 'Avg Price', 'Margin %', 'Units Sold', 'Total Revenue', 'Total Cost', 'Profit'];
-    const rows = filteredAndSortedMargins.map(m => [
-      m.product_name,
-      m.product_id,
-      m.cost_per_unit.toFixed(2),
-      m.average_selling_price.toFixed(2),
-      m.margin_percent.toFixed(1),
-      m.units_sold,
-      m.total_revenue.toFixed(2),
-      m.total_cost.toFixed(2),
-      (m.total_revenue - m.total_cost).toFixed(2),
-    ]);
+    const headers = ['Product Name', 'Product ID', 'Variant', 'Cost/Unit', 'Avg Price', 'Margin %', 'Units Sold', 'Revenue Share %', 'Total Revenue', 'Total Cost', 'Profit'];
+    const rows = filteredAndSortedMargins.flatMap(m => [m, ...m.variants.map(v => ({ ...v, product_name: m.product_name, product_id: m.product_id }))].map(row => [
+      `"${row.product_name.replace(/"/g, '""')}"`,
+      row.product_id,
+      'variant_title' in row ? `"${row.variant_title.replace(/"/g, '""')}"` : '',
+      row.cost_per_unit?.toFixed(2) ?? '',
+      row.average_selling_price.toFixed(2),
+      row.margin_percent?.toFixed(1) ?? '',
+      row.units_sold,
+      row.revenue_share.toFixed(1),
+      row.total_revenue.toFixed(2),
+      row.total_cost.toFixed(2),
+      row.gross_profit?.toFixed(2) ?? '',
+    ]));
 
     const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `product-margins-${selectedMonth}.csv`;
+    a.download = rangeMonths > 1 ? `product-margins-${fromMonth}-to-${selectedMonth}.csv` : `product-margins-${selectedMonth}.csv`;
     a.click();
     URL.revokeObjectURL(url);
     toast.success('Exported to CSV');
   };
 
   // Prepare chart data
-  const chartData = filteredAndSortedMargins.slice(0, 10).map(m => ({
+  const chartData = filteredAndSortedMargins.filter(m => m.margin_percent !== null).slice(0, 10).map(m => ({
     name: m.product_name.length > 15 ? m.product_name.substring(0, 15) + '...' : m.product_name,
-    margin: m.margin_percent,
+    margin: m.margin_percent ?? 0,
     revenue: m.total_revenue,
   }));
 
+  const costedMargins = filteredAndSortedMargins.filter(m => m.margin_percent !== null);
+  const totalProfit = filteredAndSortedMargins.reduce((sum, m) => sum + (m.gross_profit ?? 0), 0);
+
   const getMarginColor = (margin: number) => {
     if (margin >= 50) return '#10b981';
     if (margin >= 30) return '#3b82f6';
@@ -284,7 +194,19 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
     return '#ef4444';
   };
 
-  if (costsLoading || ordersLoading) {
+  const getMarginTextClass = (margin: number | null) => {
+    if (margin === null) return 'text-gray-400';
+    if (margin >= 50) return 'text-green-600';
+    if (margin >= 30) return 'text-blue-600';
+    if (margin >= 10) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  const periodLabel = rangeMonths > 1
+    ? `${formatMonthDisplay(fromMonth)} – ${formatMonthDisplay(selectedMonth)}`
+    : formatMonthDisplay(selectedMonth);
+
+  if (isLoading) {
     return (
       <div className="space-y-6">
         <SkeletonTable />
@@ -296,7 +218,14 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
     <div className="space-y-6">
       <div className="mb-6">
         <h3 className="text-xl font-semibold text-gray-900">Product Margins</h3>
-        <p className="text-sm text-gray-500 mt-1">Analyze profitability by product for {formatMonthDisplay(selectedMonth)}</p>
+        <p className="text-sm text-gray-500 mt-1">
+          Paid orders for {periodLabel}, net of discounts; trends compare with the {rangeMonths > 1 ? `previous ${rangeMonths} months` : 'previous month'}.
+        </p>
+        {report && report.uncosted_units > 0 && (
+          <p className="mt-1 text-xs text-amber-700">
+            {report.uncosted_units} unit(s) sold without a product cost — their margin is unknown until costs are set.
+          </p>
+        )}
       </div>
 
       {/* Search and Filters */}
@@ -312,6 +241,15 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
+          <select
+            value={rangeMonths}
+            onChange={(e) => setRangeMonths(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.months} value={option.months}>{option.label}</option>
+            ))}
+          </select>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center gap-2 px-4 py-2 rounded-md border transition-colors ${
@@ -379,15 +317,15 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
             <div className="bg-gradient-to-br from-green-50 to-green-100 border-2 border-green-200 rounded-lg p-6">
               <h4 className="text-sm font-medium text-gray-700">Avg Margin</h4>
               <p className="mt-2 text-3xl font-bold text-green-700">
-                {filteredAndSortedMargins.length > 0
-                  ? (filteredAndSortedMargins.reduce((sum, m) => sum + m.margin_percent, 0) / filteredAndSortedMargins.length).toFixed(1)
+                {costedMargins.length > 0
+                  ? (costedMargins.reduce((sum, m) => sum + (m.margin_percent ?? 0), 0) / costedMargins.length).toFixed(1)
                   : '0.0'}%
               </p>
             </div>
             <div className="bg-gradient-to-br from-purple-50 to-purple-100 border-2 border-purple-200 rounded-lg p-6">
               <h4 className="text-sm font-medium text-gray-700">Total Profit</h4>
               <p className="mt-2 text-3xl font-bold text-purple-700">
-                {formatCurrency(filteredAndSortedMargins.reduce((sum, m) => sum + (m.total_revenue - m.total_cost), 0))}
+                {formatCurrency(totalProfit)}
               </p>
             </div>
           </div>
@@ -444,47 +382,84 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
                     >
                       Revenue <SortIcon field="total_revenue" />
                     </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Share</th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Profit</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filteredAndSortedMargins.map((margin) => (
-                    <tr key={margin.product_id} className="hover:bg-gray-50 transition-colors">
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{margin.product_name}</div>
-                        <div className="text-xs text-gray-500">ID: {margin.product_id}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                        {formatCurrency(margin.cost_per_unit)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                        {formatCurrency(margin.average_selling_price)}
-                      </td>
-                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${
-                        margin.margin_percent >= 50 ? 'text-green-600' :
-                        margin.margin_percent >= 30 ? 'text-blue-600' :
-                        margin.margin_percent >= 10 ? 'text-yellow-600' :
-                        'text-red-600'
-                      }`}>
-                        {margin.margin_percent.toFixed(1)}%
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                        {margin.units_sold}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900 font-medium">
-                        {formatCurrency(margin.total_revenue)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
-                        {formatCurrency(margin.total_cost)}
-                      </td>
-                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${
-                        (margin.total_revenue - margin.total_cost) >= 0 ? 'text-green-600' : 'text-red-600'
-                      }`}>
-                        {formatCurrency(margin.total_revenue - margin.total_cost)}
-                      </td>
-                    </tr>
-                  ))}
+                  {filteredAndSortedMargins.map((margin) => {
+                    const expanded = expandedProductId === margin.product_id;
+                    const rows = [
+                      { key: margin.product_id, label: margin.product_name, detail: `ID: ${margin.product_id}`, metrics: margin, isVariant: false },
+                      ...(expanded
+                        ? margin.variants.map((variant) => ({
+                            key: `${margin.product_id}:${variant.variant_id}`,
+                            label: variant.variant_title,
+                            detail: variant.variant_id ? `Variant ${variant.variant_id}` : '',
+                            metrics: variant,
+                            isVariant: true,
+                          }))
+                        : []),
+                    ];
+                    return rows.map(({ key, label, detail, metrics, isVariant }) => (
+                      <tr key={key} className={`${isVariant ? 'bg-gray-50/60' : 'hover:bg-gray-50'} transition-colors`}>
+                        <td className={`${isVariant ? 'pl-12' : 'pl-6'} pr-6 py-4 whitespace-nowrap`}>
+                          {isVariant ? (
+                            <div className="text-sm text-gray-700">{label}</div>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => setExpandedProductId(expanded ? null : margin.product_id)}
+                              className="text-left"
+                            >
+                              <div className="text-sm font-medium text-gray-900">
+                                {label}
+                                {margin.variants.length > 1 && (
+                                  <span className="ml-2 text-xs font-normal text-blue-600">
+                                    {expanded ? 'Hide' : `${margin.variants.length}`} variants
+                                  </span>
+                                )}
+                              </div>
+                            </button>
+                          )}
+                          {detail && <div className="text-xs text-gray-500">{detail}</div>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                          {metrics.cost_per_unit !== null ? formatCurrency(metrics.cost_per_unit) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                          {formatCurrency(metrics.average_selling_price)}
+                          <TrendBadge value={metrics.trend?.average_selling_price_change_percent} suffix="%" />
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${getMarginTextClass(metrics.margin_percent)}`}>
+                          {metrics.margin_percent !== null ? `${metrics.margin_percent.toFixed(1)}%` : 'No cost'}
+                          <TrendBadge value={metrics.trend?.margin_percent_change} suffix="pt" />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                          {metrics.units_sold}
+                          <TrendBadge value={metrics.trend?.units_sold_change_percent} suffix="%" />
+                          {metrics.uncosted_units > 0 && metrics.cost_per_unit !== null && (
+                            <div className="text-xs text-amber-700">{metrics.uncosted_units} uncosted</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900 font-medium">
+                          {formatCurrency(metrics.total_revenue)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                          {metrics.revenue_share.toFixed(1)}%
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                          {formatCurrency(metrics.total_cost)}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${
+                          metrics.gross_profit === null ? 'text-gray-400' : metrics.gross_profit >= 0 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {metrics.gross_profit !== null ? formatCurrency(metrics.gross_profit) : '—'}
+                        </td>
+                      </tr>
+                    ));
+                  })}
                 </tbody>
                 <tfoot className="bg-gray-50 font-semibold">
                   <tr>
@@ -496,14 +471,14 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
                       {formatCurrency(filteredAndSortedMargins.reduce((sum, m) => sum + m.total_revenue, 0))}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {filteredAndSortedMargins.reduce((sum, m) => sum + m.revenue_share, 0).toFixed(1)}%
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
                       {formatCurrency(filteredAndSortedMargins.reduce((sum, m) => sum + m.total_cost, 0))}
                     </td>
-                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
-                      filteredAndSortedMargins.reduce((sum, m) => sum + (m.total_revenue - m.total_cost), 0) >= 0
-                        ? 'text-green-600' : 'text-red-600'
-                    }`}>
-                      {formatCurrency(filteredAndSortedMargins.reduce((sum, m) => sum + (m.total_revenue - m.total_cost), 0))}
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(totalProfit)}
                     </td>
                   </tr>
                 </tfoot>
@@ -515,11 +490,9 @@ export default function ProductMarginsTab({ selectedMonth, setSelectedMonth, onB
         <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
           <p className="text-gray-600 font-medium text-lg">No product margin data found</p>
           <p className="mt-2 text-sm text-gray-500">
-            {searchQuery || marginRange[0] > 0 || marginRange[1] < 100
+            {searchQuery || marginFilterActive
               ? 'Try adjusting your search or filters.'
-              : !productCosts || productCosts.length === 0
-              ? 'Configure product costs in Settings first.'
-              : 'No fulfilled orders found for this month, or product costs are not configured for the products sold.'}
+              : 'No paid orders found for this period.'}
           </p>
         </div>
       )}
@@ -15,6 +15,8 @@ import {
   CubeIcon
 } from '@heroicons/react/24/outline';
 import { SkeletonCard, SkeletonChart } from '../common/SkeletonLoader';
+import PayoutsPanel from './PayoutsPanel';
+import MonthClosePanel from './MonthClosePanel';
 import { 
   LineChart, 
   Line, 
@@ -456,9 +458,17 @@ export default function ProfitOverviewTab({ selectedMonth, setSelectedMonth, onN
               <p className="mt-2 text-xs text-purple-600">
                 Revenue − expenses − shipping
               </p>
+              {profit && profit.cogs > 0 && (
+                <p className="mt-1 text-xs text-purple-600">
+                  Gross profit after COGS: {formatCurrency(profit.gross_profit)} (COGS {formatCurrency(profit.cogs)})
+                </p>
+              )}
             </div>
           </div>
 
+          <PayoutsPanel selectedMonth={selectedMonth} />
+
+          <MonthClosePanel selectedMonth={selectedMonth} />
 
           {/* Charts Section - Lazy Loaded */}
           {!showCharts ? (
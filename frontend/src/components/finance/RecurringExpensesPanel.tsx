@@ -0,0 +1,404 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { ArrowPathIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  financialService,
+  type ExpensePaidBy,
+  type FinancialExpenseCategory,
+  type RecurringExpense,
+  type RecurringExpenseCadence,
+  type RecurringExpenseInput,
+  type RecurringOccurrencePreview,
+} from '../../services/financialService';
+
+const CADENCE_LABELS: Record<RecurringExpenseCadence, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Every 3 months',
+  yearly: 'Yearly',
+};
+
+const STATUS_STYLES: Record<RecurringOccurrencePreview['status'], string> = {
+  scheduled: 'text-gray-500',
+  adjusted: 'text-blue-700',
+  skipped: 'text-gray-400 line-through',
+  posted: 'text-green-700',
+  due: 'text-amber-700',
+};
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none';
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat('en-EG', {
+    style: 'currency',
+    currency: 'EGP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+function emptyDraft(): RecurringExpenseInput & { id?: string } {
+  return {
+    name: '',
+    category: 'Utilities & Rent',
+    amount: 0,
+    cadence: 'monthly',
+    day_of_month: 1,
+    start_date: format(new Date(), 'yyyy-MM-dd'),
+    end_date: null,
+    paid_by: 'Business',
+    notes: '',
+    backfill: false,
+  };
+}
+
+interface RecurringExpensesPanelProps {
+  categories: FinancialExpenseCategory[];
+  paidByOptions: ExpensePaidBy[];
+}
+
+/**
+ * Recurring expense templates and their upcoming occurrences. A nightly job
+ * posts due occurrences as expenses; any single one can be skipped or given a
+ * different amount before it posts.
+ */
+export default function RecurringExpensesPanel({ categories, paidByOptions }: RecurringExpensesPanelProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<(RecurringExpenseInput & { id?: string }) | null>(null);
+  const [adjusting, setAdjusting] = useState<{ key: string; amount: string } | null>(null);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['recurring-expenses'],
+    queryFn: () => financialService.getRecurringExpenses(),
+  });
+
+  const { data: preview = [] } = useQuery({
+    queryKey: ['recurring-expenses-preview'],
+    queryFn: () => financialService.getRecurringPreview(3),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['recurring-expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['recurring-expenses-preview'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: financialService.saveRecurringExpense,
+    onSuccess: (saved) => {
+      invalidate();
+      setDraft(null);
+      toast.success(`${saved.name} saved`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: financialService.deleteRecurringExpense,
+    onSuccess: () => {
+      invalidate();
+      toast.success('Recurring expense removed — posted expenses are kept');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const occurrenceMutation = useMutation({
+    mutationFn: ({ id, date, change }: { id: string; date: string; change: Parameters<typeof financialService.setRecurringOccurrence>[2] }) =>
+      financialService.setRecurringOccurrence(id, date, change),
+    onSuccess: () => {
+      setAdjusting(null);
+      queryClient.invalidateQueries({ queryKey: ['recurring-expenses-preview'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: financialService.runRecurringExpenses,
+    onSuccess: (result) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['financial-expenses'] });
+      if (result.blocked.length > 0) {
+        toast.error(`${result.blocked.length} not posted: ${result.blocked[0].reason}`);
+      }
+      toast.success(result.posted > 0 ? `Posted ${result.posted} expense${result.posted === 1 ? '' : 's'}` : 'Nothing due');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const edit = (template: RecurringExpense) =>
+    setDraft({
+      id: template.id,
+      name: template.name,
+      category: template.category,
+      amount: Number(template.amount),
+      cadence: template.cadence,
+      day_of_month: template.day_of_month,
+      start_date: template.start_date,
+      end_date: template.end_date ?? null,
+      paid_by: template.paid_by,
+      notes: template.notes ?? '',
+      active: template.active,
+      backfill: template.backfill,
+    });
+
+  return (
+    <div className="bg-white shadow-sm border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Recurring expenses</h4>
+          <p className="text-xs text-gray-500">Posted automatically on their day each period.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            className="inline-flex items-center gap-1 rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${runMutation.isPending ? 'animate-spin' : ''}`} />
+            Post due now
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft(emptyDraft())}
+            className="rounded-md bg-gray-900 px-3 py-1 text-sm text-white hover:bg-gray-700"
+          >
+            Add recurring
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <form
+          className="grid grid-cols-1 gap-2 rounded-md border border-gray-200 bg-gray-50 p-3 sm:grid-cols-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate({ ...draft, end_date: draft.end_date || null });
+          }}
+        >
+          <input
+            placeholder="Name (e.g. Workshop rent)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={`${inputClass} sm:col-span-2`}
+          />
+          <select
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value as FinancialExpenseCategory })}
+            className={inputClass}
+          >
+            {categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Amount"
+            value={draft.amount || ''}
+            onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <select
+            value={draft.cadence}
+            onChange={(e) => setDraft({ ...draft, cadence: e.target.value as RecurringExpenseCadence })}
+            className={inputClass}
+          >
+            {(Object.keys(CADENCE_LABELS) as RecurringExpenseCadence[]).map((cadence) => (
+              <option key={cadence} value={cadence}>
+                {CADENCE_LABELS[cadence]}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Day
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={draft.day_of_month}
+              onChange={(e) => setDraft({ ...draft, day_of_month: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            From
+            <input
+              type="date"
+              value={draft.start_date}
+              onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Until
+            <input
+              type="date"
+              value={draft.end_date ?? ''}
+              onChange={(e) => setDraft({ ...draft, end_date: e.target.value || null })}
+              className={inputClass}
+            />
+          </label>
+          <select
+            value={draft.paid_by}
+            onChange={(e) => setDraft({ ...draft, paid_by: e.target.value })}
+            className={inputClass}
+          >
+            {paidByOptions.map((option) => (
+              <option key={option} value={option}>
+                Paid by {option}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-600 sm:col-span-4">
+            <input
+              type="checkbox"
+              checked={!!draft.backfill}
+              onChange={(e) => setDraft({ ...draft, backfill: e.target.checked })}
+            />
+            Also post occurrences that were due before this template was created
+          </label>
+          <input
+            placeholder="Notes on each posted expense"
+            value={draft.notes ?? ''}
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            className={`${inputClass} sm:col-span-3`}
+          />
+          <div className="flex gap-2 sm:col-span-4">
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.amount || saveMutation.isPending}
+              className="rounded-md bg-gray-900 px-3 py-1 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {templates.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {templates.map((template) => (
+            <li key={template.id} className="flex flex-wrap items-center gap-2 py-2">
+              <button type="button" onClick={() => edit(template)} className="font-medium text-gray-900 hover:underline">
+                {template.name}
+              </button>
+              <span className="text-gray-500">
+                {formatCurrency(Number(template.amount))} · {CADENCE_LABELS[template.cadence]} on day {template.day_of_month} ·{' '}
+                {template.category}
+                {template.end_date ? ` · until ${format(new Date(template.end_date), 'dd MMM yyyy')}` : ''}
+              </span>
+              {!template.active && <span className="text-xs text-gray-400">(paused)</span>}
+              <span className="ml-auto flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => saveMutation.mutate({ ...template, active: !template.active })}
+                  className="text-xs text-gray-500 hover:text-gray-800"
+                >
+                  {template.active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Remove ${template.name}? Expenses it already posted are kept.`)) {
+                      deleteMutation.mutate(template.id);
+                    }
+                  }}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {preview.length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Upcoming</h5>
+          <table className="mt-2 min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {preview.map((row) => {
+                const key = `${row.recurring_expense_id}:${row.date}`;
+                const editable = row.status !== 'posted';
+                return (
+                  <tr key={key}>
+                    <td className="py-1.5 pr-3 whitespace-nowrap text-gray-600">{format(new Date(row.date), 'dd MMM yyyy')}</td>
+                    <td className="py-1.5 pr-3 text-gray-900">{row.name}</td>
+                    <td className="py-1.5 pr-3 text-right">
+                      {adjusting?.key === key ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          autoFocus
+                          value={adjusting.amount}
+                          onChange={(e) => setAdjusting({ key, amount: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              occurrenceMutation.mutate({
+                                id: row.recurring_expense_id,
+                                date: row.date,
+                                change: { amount: Number(adjusting.amount) },
+                              });
+                            }
+                            if (e.key === 'Escape') setAdjusting(null);
+                          }}
+                          className={`${inputClass} w-28 text-right`}
+                        />
+                      ) : (
+                        formatCurrency(row.amount)
+                      )}
+                    </td>
+                    <td className={`py-1.5 pr-3 text-xs capitalize ${STATUS_STYLES[row.status]}`}>{row.status}</td>
+                    <td className="py-1.5 text-right text-xs whitespace-nowrap">
+                      {editable && row.status !== 'skipped' && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => setAdjusting({ key, amount: String(row.amount) })}
+                            className="mr-2 text-gray-500 hover:text-gray-900"
+                          >
+                            Adjust
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              occurrenceMutation.mutate({ id: row.recurring_expense_id, date: row.date, change: { skip: true } })
+                            }
+                            className="text-gray-500 hover:text-gray-900"
+                          >
+                            Skip
+                          </button>
+                        </>
+                      )}
+                      {(row.status === 'skipped' || row.status === 'adjusted') && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            occurrenceMutation.mutate({ id: row.recurring_expense_id, date: row.date, change: null })
+                          }
+                          className="ml-2 text-gray-500 hover:text-gray-900"
+                        >
+                          Undo
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
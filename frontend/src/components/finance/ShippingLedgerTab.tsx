@@ -246,6 +246,10 @@ export default function ShippingLedgerTab({ selectedMonth, setSelectedMonth, onB
       } else {
         toast.success(`Successfully imported ${result.summary.successful} shipping costs`);
       }
+      if (result.summary.movedMonth > 0) {
+        toast(`${result.summary.movedMonth} already-paid order(s) moved to ${transactionDate.substring(0, 7)}. Check console for details.`);
+        console.log('Orders moved to another month:', result.results.movedMonth);
+      }
       
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['orders'] });
@@ -3,12 +3,14 @@ import { Link, useLocation } from 'react-router-dom';
 import { 
   ShoppingBagIcon, 
   CurrencyDollarIcon, 
-  ChatBubbleLeftRightIcon 
+  ChatBubbleLeftRightIcon,
+  UserGroupIcon
 } from '@heroicons/react/24/outline';
 import { 
   ShoppingBagIcon as ShoppingBagIconSolid, 
   CurrencyDollarIcon as CurrencyDollarIconSolid, 
-  ChatBubbleLeftRightIcon as ChatBubbleLeftRightIconSolid 
+  ChatBubbleLeftRightIcon as ChatBubbleLeftRightIconSolid,
+  UserGroupIcon as UserGroupIconSolid
 } from '@heroicons/react/24/solid';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '../../contexts/AuthContext';
@@ -55,6 +57,12 @@ const BottomNavigation: React.FC = () => {
       icon: CurrencyDollarIcon,
       iconSolid: CurrencyDollarIconSolid
     },
+    {
+      name: 'Makers',
+      href: '/makers',
+      icon: UserGroupIcon,
+      iconSolid: UserGroupIconSolid
+    },
     { 
       name: 'WhatsApp', 
       href: '/whatsapp',
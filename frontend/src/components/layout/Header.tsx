@@ -5,7 +5,8 @@ import { useQuery } from '@tanstack/react-query';
 import { 
   ShoppingBagIcon, 
   CurrencyDollarIcon, 
-  ChatBubbleLeftRightIcon 
+  ChatBubbleLeftRightIcon,
+  UserGroupIcon
 } from '@heroicons/react/24/outline';
 
 interface HeaderProps {
@@ -56,6 +57,11 @@ export const Header: React.FC<HeaderProps> = () => {
       href: '/finance',
       icon: CurrencyDollarIcon
     },
+    {
+      name: 'Makers',
+      href: '/makers',
+      icon: UserGroupIcon
+    },
     { 
       name: 'WhatsApp', 
       href: '/whatsapp',
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { apiIdentityHeaders } from '../utils/apiHeaders';
 
 // Get the API URL from environment variables
 const API_URL = import.meta.env.VITE_API_URL || 'https://localhost:3000';
@@ -11,5 +12,13 @@ export const api = axios.create({
   }
 });
 
+// Identify the caller on every request (order history "updated by")
+api.interceptors.request.use((config) => {
+  for (const [name, value] of Object.entries(apiIdentityHeaders())) {
+    config.headers.set(name, value);
+  }
+  return config;
+});
+
 // Export the base URL for use in other parts of the application
 export const getApiUrl = () => API_URL; 
\ No newline at end of file
@@ -6,6 +6,8 @@ export type AppRole = 'admin' | 'courier';
 interface AuthContextType {
   isAuthenticated: boolean;
   role: AppRole | null;
+  /** Signed-in user (admin username, or "courier"); keys per-user settings like the default order view. */
+  username: string | null;
   login: (params: { role: AppRole; username?: string; password?: string }) => boolean;
   logout: () => void;
 }
@@ -19,6 +21,7 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [role, setRole] = useState<AppRole | null>(null);
+  const [username, setUsername] = useState<string | null>(null);
 
   // Check for authentication cookie on initial load
   useEffect(() => {
@@ -27,6 +30,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (isLoggedIn === 'true' && (savedRole === 'admin' || savedRole === 'courier')) {
       setIsAuthenticated(true);
       setRole(savedRole);
+      setUsername(Cookies.get('appUser') || savedRole);
     }
   }, []);
 
@@ -34,16 +38,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (role === 'courier') {
       setIsAuthenticated(true);
       setRole('courier');
+      setUsername('courier');
       Cookies.set('isLoggedIn', 'true', { expires: 7 });
       Cookies.set('appRole', 'courier', { expires: 7 });
+      Cookies.set('appUser', 'courier', { expires: 7 });
       return true;
     }
 
     if (username === 'ocd' && password === 'hani2003') {
       setIsAuthenticated(true);
       setRole('admin');
+      setUsername(username);
       Cookies.set('isLoggedIn', 'true', { expires: 7 });
       Cookies.set('appRole', 'admin', { expires: 7 });
+      Cookies.set('appUser', username, { expires: 7 });
       return true;
     }
 
@@ -53,12 +61,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = () => {
     setIsAuthenticated(false);
     setRole(null);
+    setUsername(null);
     Cookies.remove('isLoggedIn');
     Cookies.remove('appRole');
+    Cookies.remove('appUser');
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, role, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, role, username, login, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -53,6 +53,9 @@ export default function CourierMap() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          // Recorded in the order history (order_events)
+          'X-Order-Source': 'courier_map',
+          'X-Order-Actor': 'courier',
         },
         body: JSON.stringify({ tags: newTags }),
       });
@@ -3,21 +3,33 @@ import { useQueryClient } from "@tanstack/react-query";
 import ProfitOverviewTab from "../components/finance/ProfitOverviewTab";
 import ShippingPerformanceTab from "../components/finance/ShippingPerformanceTab";
 import FinancialExpensesTab from "../components/finance/FinancialExpensesTab";
+import ProductCostsTab from "../components/finance/ProductCostsTab";
+import PartnersTab from "../components/finance/PartnersTab";
+import AdsRoasTab from "../components/finance/AdsRoasTab";
+import ProductMarginsTab from "../components/finance/ProductMarginsTab";
 import { 
   ArrowTrendingUpIcon, 
   CurrencyDollarIcon, 
   TruckIcon, 
   ArrowPathIcon,
-  PlusIcon
+  PlusIcon,
+  TagIcon,
+  ChartBarIcon,
+  UsersIcon,
+  MegaphoneIcon
 } from "@heroicons/react/24/outline";
 import MonthNavigator from "../components/finance/MonthNavigator";
 
-type TabType = 'profit-overview' | 'expenses' | 'shipping';
+type TabType = 'profit-overview' | 'expenses' | 'shipping' | 'margins' | 'costs' | 'partners' | 'ads';
 
 const tabOptions = [
   { value: 'profit-overview', label: 'Profit Overview', icon: ArrowTrendingUpIcon, color: 'emerald' },
   { value: 'expenses', label: 'Expenses', icon: CurrencyDollarIcon, color: 'orange' },
   { value: 'shipping', label: 'Shipping', icon: TruckIcon, color: 'blue' },
+  { value: 'margins', label: 'Product Margins', icon: ChartBarIcon, color: 'gray' },
+  { value: 'costs', label: 'Product Costs', icon: TagIcon, color: 'gray' },
+  { value: 'partners', label: 'Partners', icon: UsersIcon, color: 'gray' },
+  { value: 'ads', label: 'Ads & ROAS', icon: MegaphoneIcon, color: 'gray' },
 ];
 
 const getTabIcon = (tabValue: string, className: string) => {
@@ -83,6 +95,9 @@ export default function Finance() {
         queryClient.invalidateQueries({ queryKey: ['finance-month', selectedMonth] }),
         queryClient.invalidateQueries({ queryKey: ['shipping-records', selectedMonth] }),
         queryClient.invalidateQueries({ queryKey: ['financial-expenses', selectedMonth] }),
+        queryClient.invalidateQueries({ queryKey: ['product-margins'] }),
+        queryClient.invalidateQueries({ queryKey: ['ad-performance'] }),
+        queryClient.invalidateQueries({ queryKey: ['payouts', selectedMonth] }),
       ]);
     } catch (error) {
       console.error('Error refreshing finance data:', error);
@@ -198,6 +213,16 @@ export default function Finance() {
             onBack={handleBack}
           />
         )}
+        {selectedTab === 'margins' && (
+          <ProductMarginsTab
+            selectedMonth={selectedMonth}
+            setSelectedMonth={setSelectedMonth}
+            onBack={handleBack}
+          />
+        )}
+        {selectedTab === 'costs' && <ProductCostsTab />}
+        {selectedTab === 'partners' && <PartnersTab />}
+        {selectedTab === 'ads' && <AdsRoasTab selectedMonth={selectedMonth} />}
       </div>
     </div>
   );
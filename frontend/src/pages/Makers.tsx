@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { CubeIcon, PlusIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+import MonthNavigator from '../components/finance/MonthNavigator';
+import { useAuth } from '../contexts/AuthContext';
+import { makersService, type Maker } from '../services/makersService';
+
+function previousMonth(): string {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return format(date, 'yyyy-MM');
+}
+
+/**
+ * Makers: each crocheter's queue (line items assigned from the order cards)
+ * and monthly labor statement, which can be posted as a Production Labor expense.
+ * `?maker=<id>` opens one maker's view (shareable with the maker).
+ */
+export default function Makers() {
+  const queryClient = useQueryClient();
+  const { username } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [month, setMonth] = useState(previousMonth);
+  const [newName, setNewName] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  const { data: makers = [] } = useQuery({
+    queryKey: ['makers', 'all'],
+    queryFn: () => makersService.list(true),
+  });
+  const selectedId = searchParams.get('maker') ?? makers.find((maker) => maker.active)?.id ?? null;
+  const selected = makers.find((maker) => maker.id === selectedId) ?? null;
+
+  const { data: queue = [], isPending: queueLoading } = useQuery({
+    queryKey: ['maker-queue', selectedId],
+    queryFn: () => makersService.getQueue(selectedId!),
+    enabled: !!selectedId,
+  });
+  const { data: statement } = useQuery({
+    queryKey: ['maker-statement', selectedId, month],
+    queryFn: () => makersService.getStatement(selectedId!, month),
+    enabled: !!selectedId,
+  });
+
+  const refreshMakers = () => queryClient.invalidateQueries({ queryKey: ['makers'] });
+
+  const createMutation = useMutation({
+    mutationFn: () => makersService.create({ name: newName.trim(), default_rate_per_unit: Number(newRate) || 0 }),
+    onSuccess: (maker) => {
+      toast.success(`Added ${maker.name}`);
+      setNewName('');
+      setNewRate('');
+      refreshMakers();
+      setSearchParams({ maker: maker.id });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ maker, input }: { maker: Maker; input: Parameters<typeof makersService.update>[1] }) =>
+      makersService.update(maker.id, input),
+    onSuccess: () => refreshMakers(),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const postMutation = useMutation({
+    mutationFn: () => makersService.postStatement(selectedId!, month, username),
+    onSuccess: () => {
+      toast.success('Labor statement posted to expenses');
+      queryClient.invalidateQueries({ queryKey: ['maker-statement', selectedId, month] });
+      queryClient.invalidateQueries({ queryKey: ['financial-expenses'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const editRate = (maker: Maker) => {
+    const value = window.prompt(`Default labor rate per unit for ${maker.name} (EGP)`, String(maker.default_rate_per_unit));
+    if (value === null) return;
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate < 0) {
+      toast.error('Enter a valid rate');
+      return;
+    }
+    updateMutation.mutate({ maker, input: { default_rate_per_unit: rate } });
+  };
+
+  const currentMonth = format(new Date(), 'yyyy-MM');
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-4 p-3 sm:p-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <UserGroupIcon className="h-6 w-6 text-gray-700" aria-hidden />
+          <h1 className="text-lg font-semibold text-gray-900">Makers</h1>
+        </div>
+        <Link
+          to="/materials"
+          className="inline-flex items-center gap-1 rounded-md border border-gray-200 bg-white px-2.5 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+        >
+          <CubeIcon className="h-4 w-4" aria-hidden />
+          Materials
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {makers.map((maker) => (
+          <button
+            key={maker.id}
+            type="button"
+            onClick={() => setSearchParams({ maker: maker.id })}
+            className={`rounded-full border px-3 py-1 text-sm ${
+              maker.id === selectedId
+                ? 'border-gray-900 bg-gray-900 text-white'
+                : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+            } ${maker.active ? '' : 'opacity-50'}`}
+          >
+            {maker.name}
+          </button>
+        ))}
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newName.trim()) createMutation.mutate();
+          }}
+        >
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New maker"
+            className="w-32 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none"
+          />
+          <input
+            type="number"
+            min={0}
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            placeholder="EGP/unit"
+            className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || createMutation.isPending}
+            className="rounded-md bg-gray-900 p-1.5 text-white hover:bg-gray-800 disabled:opacity-50"
+            aria-label="Add maker"
+          >
+            <PlusIcon className="h-4 w-4" aria-hidden />
+          </button>
+        </form>
+      </div>
+
+      {!selected ? (
+        <p className="text-sm text-gray-500">Add a maker, then assign order items to them from the order cards.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+            <span>
+              Default rate: <strong className="text-gray-900">{selected.default_rate_per_unit} EGP</strong> per unit
+            </span>
+            <button type="button" onClick={() => editRate(selected)} className="text-blue-600 hover:text-blue-700">
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => updateMutation.mutate({ maker: selected, input: { active: !selected.active } })}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              {selected.active ? 'Deactivate' : 'Reactivate'}
+            </button>
+          </div>
+
+          <section className="rounded-lg border border-gray-200 bg-white">
+            <h2 className="border-b border-gray-100 px-4 py-2 text-sm font-semibold text-gray-900">
+              Queue ({queue.reduce((sum, item) => sum + item.quantity, 0)} units)
+            </h2>
+            {queueLoading ? (
+              <p className="px-4 py-3 text-sm text-gray-500">Loading…</p>
+            ) : queue.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">Nothing assigned.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {queue.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                    <span className="min-w-0">
+                      <span className="font-medium text-gray-900">{item.order_name}</span>{' '}
+                      <span className="text-gray-700">
+                        {item.title}
+                        {item.variant_title ? ` (${item.variant_title})` : ''}
+                      </span>
+                    </span>
+                    <span className="flex shrink-0 items-center gap-2">
+                      {item.due_date && <span className="text-xs text-gray-500">due {item.due_date}</span>}
+                      <span className="rounded-md bg-blue-100 px-2 py-0.5 text-xs font-semibold text-blue-700">
+                        ×{item.quantity}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="rounded-lg border border-gray-200 bg-white">
+            <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-100 px-4 py-2">
+              <h2 className="text-sm font-semibold text-gray-900">Labor statement</h2>
+              <MonthNavigator selectedMonth={month} onMonthChange={setMonth} showDatePicker={false} />
+            </div>
+            {!statement ? (
+              <p className="px-4 py-3 text-sm text-gray-500">Loading…</p>
+            ) : (
+              <>
+                {statement.lines.length === 0 ? (
+                  <p className="px-4 py-3 text-sm text-gray-500">No completed units this month.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-xs text-gray-500">
+                      <tr>
+                        <th className="px-4 py-1.5 font-medium">Done</th>
+                        <th className="px-2 py-1.5 font-medium">Order</th>
+                        <th className="px-2 py-1.5 font-medium">Item</th>
+                        <th className="px-2 py-1.5 text-right font-medium">Units</th>
+                        <th className="px-2 py-1.5 text-right font-medium">Rate</th>
+                        <th className="px-4 py-1.5 text-right font-medium">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {statement.lines.map((line) => (
+                        <tr key={line.assignmentId}>
+                          <td className="px-4 py-1.5 text-gray-500">{line.completedOn.substring(5)}</td>
+                          <td className="px-2 py-1.5">{line.orderName}</td>
+                          <td className="px-2 py-1.5">
+                            {line.title}
+                            {line.variantTitle ? ` (${line.variantTitle})` : ''}
+                          </td>
+                          <td className="px-2 py-1.5 text-right">{line.quantity}</td>
+                          <td className="px-2 py-1.5 text-right" title={line.defaultRate ? "Maker's default rate" : 'Product labor cost'}>
+                            {line.ratePerUnit}
+                            {line.defaultRate ? '*' : ''}
+                          </td>
+                          <td className="px-4 py-1.5 text-right">{line.amount.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t border-gray-100 px-4 py-2 text-sm">
+                  <span>
+                    {statement.totalUnits} units ·{' '}
+                    <strong className="text-gray-900">{statement.totalAmount.toLocaleString()} EGP</strong>
+                  </span>
+                  {statement.posted ? (
+                    <span className="text-xs text-emerald-700">
+                      Posted {format(new Date(statement.posted.posted_at), 'd MMM yyyy')}
+                      {statement.posted.posted_by ? ` by ${statement.posted.posted_by}` : ''}
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (window.confirm(`Post ${statement.totalAmount} EGP as Production Labor for ${month}?`)) {
+                          postMutation.mutate();
+                        }
+                      }}
+                      disabled={month >= currentMonth || statement.totalAmount <= 0 || postMutation.isPending}
+                      title={month >= currentMonth ? 'Only finished months can be posted' : undefined}
+                      className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+                    >
+                      Post as expense
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
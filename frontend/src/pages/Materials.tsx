@@ -0,0 +1,455 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { CubeIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  availableQuantity,
+  MATERIAL_KINDS,
+  MATERIAL_UNITS,
+  materialsService,
+  type Material,
+  type MaterialInput,
+  type MaterialKind,
+  type MaterialUnit,
+} from '../services/materialsService';
+
+const inputClass = 'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none';
+
+function materialLabel(material: Material): string {
+  return [material.name, material.color, material.weight].filter(Boolean).join(' · ');
+}
+
+function isLow(material: Material): boolean {
+  return material.low_stock_threshold !== null && availableQuantity(material) <= Number(material.low_stock_threshold);
+}
+
+/**
+ * Materials inventory: stock per material (reserved for confirmed orders,
+ * consumed when orders are made), purchase receipts (recorded as production
+ * expenses) and the bill of materials per product or variant.
+ */
+export default function Materials() {
+  const queryClient = useQueryClient();
+  const { username } = useAuth();
+  const [draft, setDraft] = useState<{ name: string; kind: MaterialKind; color: string; weight: string; unit: MaterialUnit }>({
+    name: '',
+    kind: 'yarn',
+    color: '',
+    weight: '',
+    unit: 'g',
+  });
+  const [purchase, setPurchase] = useState<{ material: Material; quantity: string; amount: string; date: string } | null>(null);
+  const [bomKey, setBomKey] = useState('');
+  const [bomDraft, setBomDraft] = useState<Array<{ material_id: string; quantity_per_unit: string }> | null>(null);
+
+  const { data: materials = [], isPending } = useQuery({
+    queryKey: ['materials', 'all'],
+    queryFn: () => materialsService.list(true),
+  });
+  const { data: products = [] } = useQuery({
+    queryKey: ['material-products'],
+    queryFn: materialsService.listProducts,
+    staleTime: 5 * 60_000,
+  });
+  const { data: boms = [] } = useQuery({
+    queryKey: ['material-boms'],
+    queryFn: materialsService.getBoms,
+  });
+
+  const refreshMaterials = () => queryClient.invalidateQueries({ queryKey: ['materials'] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      materialsService.create({
+        name: draft.name.trim(),
+        kind: draft.kind,
+        color: draft.color.trim() || null,
+        weight: draft.weight.trim() || null,
+        unit: draft.unit,
+      }),
+    onSuccess: (material) => {
+      toast.success(`Added ${material.name}`);
+      setDraft((prev) => ({ ...prev, name: '', color: '', weight: '' }));
+      refreshMaterials();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ material, input }: { material: Material; input: MaterialInput }) =>
+      materialsService.update(material.id, input),
+    onSuccess: () => refreshMaterials(),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const countMutation = useMutation({
+    mutationFn: ({ material, counted }: { material: Material; counted: number }) =>
+      materialsService.countStock(material.id, counted, username),
+    onSuccess: () => refreshMaterials(),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: () =>
+      materialsService.recordPurchase(
+        purchase!.material.id,
+        { quantity: Number(purchase!.quantity), amount: Number(purchase!.amount), date: purchase!.date },
+        username
+      ),
+    onSuccess: () => {
+      toast.success('Purchase recorded and added to expenses');
+      setPurchase(null);
+      refreshMaterials();
+      queryClient.invalidateQueries({ queryKey: ['financial-expenses'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  // BOM targets: each product (all variants) followed by its variants
+  const bomTargets = useMemo(() => {
+    const targets: Array<{ key: string; productId: string; variantId: string | null; label: string }> = [];
+    const seen = new Set<string>();
+    for (const product of products) {
+      if (!seen.has(product.product_id)) {
+        seen.add(product.product_id);
+        targets.push({ key: `${product.product_id}:`, productId: product.product_id, variantId: null, label: `${product.title} — all variants` });
+      }
+      if (product.variant_id && product.variant_title) {
+        targets.push({
+          key: `${product.product_id}:${product.variant_id}`,
+          productId: product.product_id,
+          variantId: product.variant_id,
+          label: `${product.title} — ${product.variant_title}`,
+        });
+      }
+    }
+    return targets;
+  }, [products]);
+  const bomTarget = bomTargets.find((target) => target.key === bomKey) ?? null;
+  const savedBomLines = bomTarget
+    ? boms.filter((line) => line.product_id === bomTarget.productId && line.variant_id === (bomTarget.variantId ?? ''))
+    : [];
+  const bomLines =
+    bomDraft ?? savedBomLines.map((line) => ({ material_id: line.material_id, quantity_per_unit: String(line.quantity_per_unit) }));
+  const productsWithBom = new Set(boms.map((line) => `${line.product_id}:${line.variant_id}`));
+
+  const saveBomMutation = useMutation({
+    mutationFn: () =>
+      materialsService.saveBom(
+        bomTarget!.productId,
+        bomTarget!.variantId,
+        bomLines
+          .filter((line) => line.material_id && Number(line.quantity_per_unit) > 0)
+          .map((line) => ({ material_id: line.material_id, quantity_per_unit: Number(line.quantity_per_unit) }))
+      ),
+    onSuccess: () => {
+      toast.success('Bill of materials saved');
+      setBomDraft(null);
+      queryClient.invalidateQueries({ queryKey: ['material-boms'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const promptNumber = (label: string, current: number | null): number | null | undefined => {
+    const value = window.prompt(label, current === null ? '' : String(current));
+    if (value === null) return undefined;
+    if (value.trim() === '') return null;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      toast.error('Enter a valid number');
+      return undefined;
+    }
+    return number;
+  };
+
+  const activeMaterials = materials.filter((material) => material.active);
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-4 p-3 sm:p-6">
+      <div className="flex items-center gap-2">
+        <CubeIcon className="h-6 w-6 text-gray-700" aria-hidden />
+        <h1 className="text-lg font-semibold text-gray-900">Materials</h1>
+      </div>
+
+      <form
+        className="flex flex-wrap items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (draft.name.trim()) createMutation.mutate();
+        }}
+      >
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="New material"
+          className={`w-40 ${inputClass}`}
+        />
+        <select
+          value={draft.kind}
+          onChange={(e) => setDraft({ ...draft, kind: e.target.value as MaterialKind })}
+          className={inputClass}
+        >
+          {MATERIAL_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {kind}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.color}
+          onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+          placeholder="Colour"
+          className={`w-24 ${inputClass}`}
+        />
+        <input
+          type="text"
+          value={draft.weight}
+          onChange={(e) => setDraft({ ...draft, weight: e.target.value })}
+          placeholder="Weight"
+          className={`w-20 ${inputClass}`}
+        />
+        <select
+          value={draft.unit}
+          onChange={(e) => setDraft({ ...draft, unit: e.target.value as MaterialUnit })}
+          className={inputClass}
+        >
+          {MATERIAL_UNITS.map((unit) => (
+            <option key={unit} value={unit}>
+              {unit}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!draft.name.trim() || createMutation.isPending}
+          className="rounded-md bg-gray-900 p-1.5 text-white hover:bg-gray-800 disabled:opacity-50"
+          aria-label="Add material"
+        >
+          <PlusIcon className="h-4 w-4" aria-hidden />
+        </button>
+      </form>
+
+      <section className="rounded-lg border border-gray-200 bg-white">
+        <h2 className="border-b border-gray-100 px-4 py-2 text-sm font-semibold text-gray-900">Stock</h2>
+        {isPending ? (
+          <p className="px-4 py-3 text-sm text-gray-500">Loading…</p>
+        ) : materials.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-gray-500">Add the yarns, felt, zippers and cards you make products from.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-500">
+                <tr>
+                  <th className="px-4 py-1.5 font-medium">Material</th>
+                  <th className="px-2 py-1.5 text-right font-medium">On hand</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Reserved</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Available</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Alert at</th>
+                  <th className="px-4 py-1.5 text-right font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {materials.map((material) => (
+                  <tr key={material.id} className={material.active ? '' : 'opacity-50'}>
+                    <td className="px-4 py-1.5">
+                      <span className="text-gray-900">{materialLabel(material)}</span>{' '}
+                      <span className="text-xs text-gray-500">{material.kind}</span>
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      {Number(material.on_hand)} {material.unit}
+                    </td>
+                    <td className="px-2 py-1.5 text-right text-gray-500">{Number(material.reserved) || '—'}</td>
+                    <td className={`px-2 py-1.5 text-right font-medium ${isLow(material) ? 'text-red-600' : 'text-gray-900'}`}>
+                      {availableQuantity(material)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const threshold = promptNumber(
+                            `Alert when ${material.name} available stock drops to (${material.unit}, empty for no alert)`,
+                            material.low_stock_threshold
+                          );
+                          if (threshold !== undefined) updateMutation.mutate({ material, input: { low_stock_threshold: threshold } });
+                        }}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {material.low_stock_threshold ?? '—'}
+                      </button>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-1.5 text-right text-xs">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setPurchase({ material, quantity: '', amount: '', date: format(new Date(), 'yyyy-MM-dd') })
+                        }
+                        className="text-blue-600 hover:text-blue-700"
+                      >
+                        Purchase
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const counted = promptNumber(`Counted ${material.name} on hand (${material.unit})`, Number(material.on_hand));
+                          if (counted !== undefined && counted !== null) countMutation.mutate({ material, counted });
+                        }}
+                        className="ml-3 text-gray-600 hover:text-gray-900"
+                      >
+                        Count
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateMutation.mutate({ material, input: { active: !material.active } })}
+                        className="ml-3 text-gray-500 hover:text-gray-700"
+                      >
+                        {material.active ? 'Archive' : 'Restore'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {purchase && (
+          <form
+            className="flex flex-wrap items-center gap-2 border-t border-gray-100 px-4 py-2 text-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              purchaseMutation.mutate();
+            }}
+          >
+            <span className="font-medium text-gray-900">Purchase {purchase.material.name}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={purchase.quantity}
+              onChange={(e) => setPurchase({ ...purchase, quantity: e.target.value })}
+              placeholder={`Qty (${purchase.material.unit})`}
+              className={`w-28 ${inputClass}`}
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={purchase.amount}
+              onChange={(e) => setPurchase({ ...purchase, amount: e.target.value })}
+              placeholder="Paid (EGP)"
+              className={`w-28 ${inputClass}`}
+            />
+            <input
+              type="date"
+              value={purchase.date}
+              onChange={(e) => setPurchase({ ...purchase, date: e.target.value })}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={!(Number(purchase.quantity) > 0) || purchase.amount === '' || purchaseMutation.isPending}
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              Record
+            </button>
+            <button type="button" onClick={() => setPurchase(null)} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </form>
+        )}
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white">
+        <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-100 px-4 py-2">
+          <h2 className="text-sm font-semibold text-gray-900">Bill of materials</h2>
+          <select
+            value={bomKey}
+            onChange={(e) => {
+              setBomKey(e.target.value);
+              setBomDraft(null);
+            }}
+            className={`max-w-full ${inputClass}`}
+          >
+            <option value="">Choose a product…</option>
+            {bomTargets.map((target) => (
+              <option key={target.key} value={target.key}>
+                {productsWithBom.has(`${target.productId}:${target.variantId ?? ''}`) ? '✓ ' : ''}
+                {target.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!bomTarget ? (
+          <p className="px-4 py-3 text-sm text-gray-500">
+            Materials used per unit. A variant's own list replaces the product's list for that variant.
+          </p>
+        ) : (
+          <div className="space-y-1 px-4 py-3 text-sm">
+            {bomLines.map((line, index) => {
+              const setLine = (patch: Partial<typeof line>) =>
+                setBomDraft(bomLines.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+              const unit = materials.find((material) => material.id === line.material_id)?.unit;
+              return (
+                <div key={index} className="grid grid-cols-[1fr_6rem_2rem_auto] items-center gap-1">
+                  <select
+                    value={line.material_id}
+                    onChange={(e) => setLine({ material_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Material…</option>
+                    {materials
+                      .filter((material) => material.active || material.id === line.material_id)
+                      .map((material) => (
+                        <option key={material.id} value={material.id}>
+                          {materialLabel(material)}
+                        </option>
+                      ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={line.quantity_per_unit}
+                    onChange={(e) => setLine({ quantity_per_unit: e.target.value })}
+                    className={inputClass}
+                  />
+                  <span className="text-xs text-gray-500">{unit ?? ''}</span>
+                  <button
+                    type="button"
+                    aria-label="Remove material"
+                    onClick={() => setBomDraft(bomLines.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <TrashIcon className="h-4 w-4" aria-hidden />
+                  </button>
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-between pt-1">
+              <button
+                type="button"
+                onClick={() => setBomDraft([...bomLines, { material_id: '', quantity_per_unit: '' }])}
+                disabled={activeMaterials.length === 0}
+                className="inline-flex items-center gap-1 text-xs text-gray-700 hover:text-gray-900 disabled:opacity-50"
+              >
+                <PlusIcon className="h-3.5 w-3.5" aria-hidden /> Add material
+              </button>
+              <button
+                type="button"
+                onClick={() => saveBomMutation.mutate()}
+                disabled={!bomDraft || saveBomMutation.isPending}
+                className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
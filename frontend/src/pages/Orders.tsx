@@ -5,7 +5,7 @@ import OrderTimeline from '../components/OrderTimeline';
 import OrderCard from '../components/OrderCard';
 import { OrdersMapPanel } from '../components/OrdersMapPanel';
 import OrdersSearchBar from '../components/OrdersSearchBar';
-import { ViewColumnsIcon, ArrowUpIcon, ChevronDownIcon, CheckIcon, ArrowPathIcon, ArrowUpCircleIcon, Squares2X2Icon, MapPinIcon, CalendarDaysIcon, TruckIcon, BoltIcon, ClockIcon, SparklesIcon, PauseCircleIcon, HandThumbUpIcon, PaperAirplaneIcon, CheckBadgeIcon, BanknotesIcon, XCircleIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { ViewColumnsIcon, ArrowUpIcon, ChevronDownIcon, CheckIcon, ArrowPathIcon, ArrowUpCircleIcon, Squares2X2Icon, MapPinIcon, CalendarDaysIcon, TruckIcon, BoltIcon, ClockIcon, SparklesIcon, PauseCircleIcon, HandThumbUpIcon, PaperAirplaneIcon, CheckBadgeIcon, BanknotesIcon, XCircleIcon, DocumentArrowDownIcon, PrinterIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Dialog, Menu, Popover, Transition } from '@headlessui/react';
@@ -21,7 +21,10 @@ import {
 import type { OrderForMapSummary } from '../utils/orderMapSummary';
 import { getOrderTotalAmountForExport } from '../utils/orderPayment';
 import {
+  fetchOrdersListPages,
   ordersApiUrl,
+  ordersListParams,
+  ORDERS_SEARCH_MAX_RESULTS,
   resolveOrdersFetchScope,
   type OrdersFetchScope,
 } from '../utils/ordersFetchScope';
@@ -29,7 +32,18 @@ import { getShippingMethodFromTags, SHIPPING_METHOD_ORDER } from '../utils/shipp
 import { COURIER_ASSIGNED_TAG, stripShippingRouteTags } from '../utils/shippingRouteTags';
 import BulkShippingCostImportDialog from '../components/finance/BulkShippingCostImportDialog';
 import { getDaysSinceShipped } from '../utils/orderShippedDate';
+import { readOrderWorkflowState } from '../utils/orderWorkflowState';
 import { financialService } from '../services/financialService';
+import { showUndoToast } from '../components/common/UndoToast';
+import OrderViewsBar, { ORDER_VIEWS_QUERY_KEY } from '../components/OrderViewsBar';
+import ShipmentIssuesBanner from '../components/ShipmentIssuesBanner';
+import { printAwbBatch } from '../services/shipping';
+import { apiIdentityHeaders, apiJsonHeaders } from '../utils/apiHeaders';
+import { orderViewsService, type OrderView, type OrderViewFilters } from '../services/orderViewsService';
+import ProductionPlannerDialog, { PRODUCTION_PLAN_QUERY_KEY } from '../components/ProductionPlannerDialog';
+import { productionService, type ProductionPlanEntry } from '../services/productionService';
+import { makersService, type MakerAssignment } from '../services/makersService';
+import { materialsService, type MaterialLineItem } from '../services/materialsService';
 // Province mapping from English to Arabic
 const provinceMapping: { [key: string]: string } = {
   'Cairo': 'القاهرة',
@@ -204,6 +218,8 @@ interface Order {
     quantity: number;
     price: string;
     variant_title: string | null;
+    product_id?: number;
+    variant_id?: number;
     properties?: Array<{
       name: string;
       value: string;
@@ -211,6 +227,19 @@ interface Order {
   }[];
 }
 
+/** PUT /api/orders/bulk/status response; `from` is set when the status rules rejected the move. */
+interface BulkStatusUpdateResponse {
+  success: boolean;
+  successful: number;
+  failed: number;
+  details: {
+    successful: number[];
+    failed: Array<{ orderId: number; error: string; from?: string; to?: string }>;
+  };
+  /** Bulk operation to undo via POST /api/operations/:id/revert; null when nothing changed. */
+  operationId: string | null;
+}
+
 const SHIPPING_ROUTE_TAG_PREFIX = 'shipping_route:';
 
 function normalizeOrderTagsArray(tags: string[] | string | null | undefined): string[] {
@@ -356,20 +385,8 @@ const findOldestShippedOrderDate = (orders: Order[]): Date => {
   // Get shipping dates from tags
   const shippingDates = shippedButNotFulfilledOrders
     .map(order => {
-      const tags = Array.isArray(order.tags) ? 
-        order.tags : 
-        typeof order.tags === 'string' ? 
-          order.tags.split(',').map(t => t.trim()) : 
-          [];
-      
-      const shippingDateTag = tags.find(tag => tag.trim().startsWith('shipping_date:'));
-      if (shippingDateTag) {
-        const dateStr = shippingDateTag.trim().split(':')[1]?.trim();
-        if (dateStr) {
-          return new Date(dateStr);
-        }
-      }
-      return null;
+      const dateStr = readOrderWorkflowState(order.tags).shippedDate;
+      return dateStr ? new Date(dateStr) : null;
     })
     .filter((date): date is Date => date !== null);
 
@@ -417,10 +434,13 @@ const Orders = () => {
   const [selectedCancelledReasons, setSelectedCancelledReasons] = useState<Set<string>>(new Set());
   const [isQuickFilterExpanded, setIsQuickFilterExpanded] = useState(false);
   const [isBulkShippingImportOpen, setIsBulkShippingImportOpen] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
   const queryClient = useQueryClient();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, username, role } = useAuth();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const initialViewAppliedRef = useRef(false);
 
   // Handle scroll to show/hide scroll-to-top button
   useEffect(() => {
@@ -473,6 +493,140 @@ const Orders = () => {
     setDebouncedSearchQuery(query);
   }, []);
 
+  // Saved views: current filters in the shape stored by /api/order-views
+  const currentViewFilters = useMemo((): OrderViewFilters => {
+    const quickFilters: OrderViewFilters['quickFilters'] = {};
+    const selections = {
+      production: selectedProductionItems,
+      city: selectedCities,
+      routes: selectedRoutes,
+      days: selectedDayRanges,
+      shipping: selectedShippingMethods,
+      rushed: selectedRushTypes,
+      fulfillment_status: selectedFulfillmentStatuses,
+      fulfillment_month: selectedFulfillmentMonths,
+      paid_month: selectedPaidMonths,
+      cancelled_calendar: selectedCancelledMonths,
+      cancelled_reason: selectedCancelledReasons,
+    };
+    for (const [key, values] of Object.entries(selections)) {
+      if (values.size > 0) quickFilters[key as keyof typeof selections] = Array.from(values);
+    }
+    const search = debouncedSearchQuery.trim();
+    return {
+      status: isSearchOverridingFilter ? previousStatusFilter : statusFilter,
+      ...(search ? { search } : {}),
+      quickFilters,
+    };
+  }, [
+    statusFilter,
+    previousStatusFilter,
+    isSearchOverridingFilter,
+    debouncedSearchQuery,
+    selectedProductionItems,
+    selectedCities,
+    selectedRoutes,
+    selectedDayRanges,
+    selectedShippingMethods,
+    selectedRushTypes,
+    selectedFulfillmentStatuses,
+    selectedFulfillmentMonths,
+    selectedPaidMonths,
+    selectedCancelledMonths,
+    selectedCancelledReasons,
+  ]);
+
+  const applyOrderView = useCallback((view: OrderView) => {
+    const quick = view.filters.quickFilters || {};
+    const toSet = (values?: string[]) => new Set(values ?? []);
+    setStatusFilter(view.filters.status || 'pending');
+    setPreviousStatusFilter(view.filters.status || 'pending');
+    setSelectedProductionItems(toSet(quick.production));
+    setSelectedCities(toSet(quick.city));
+    setSelectedRoutes(toSet(quick.routes));
+    setSelectedDayRanges(toSet(quick.days));
+    setSelectedShippingMethods(toSet(quick.shipping));
+    setSelectedRushTypes(toSet(quick.rushed));
+    setSelectedFulfillmentStatuses(toSet(quick.fulfillment_status));
+    setSelectedFulfillmentMonths(toSet(quick.fulfillment_month));
+    setSelectedPaidMonths(toSet(quick.paid_month));
+    setSelectedCancelledMonths(toSet(quick.cancelled_calendar));
+    setSelectedCancelledReasons(toSet(quick.cancelled_reason));
+    if (view.filters.search) {
+      setSearchSeed(view.filters.search);
+    }
+    setActiveViewId(view.id);
+  }, []);
+
+  // Capacity plan for orders still being made (infeasible due date warnings on the cards)
+  const { data: productionPlan } = useQuery({
+    queryKey: PRODUCTION_PLAN_QUERY_KEY,
+    queryFn: productionService.getPlan,
+    staleTime: 60_000,
+    enabled: isAuthenticated,
+  });
+  const productionPlanByOrderId = useMemo(
+    () => new Map<number, ProductionPlanEntry>((productionPlan?.entries ?? []).map((entry) => [entry.orderId, entry])),
+    [productionPlan]
+  );
+
+  // Makers and the line items assigned to them (orders still in production)
+  const { data: makers } = useQuery({
+    queryKey: ['makers'],
+    queryFn: () => makersService.list(),
+    enabled: isAuthenticated,
+  });
+  const { data: makerAssignments } = useQuery({
+    queryKey: ['maker-assignments'],
+    queryFn: makersService.getOpenAssignments,
+    staleTime: 60_000,
+    enabled: isAuthenticated,
+  });
+  const makerAssignmentsByOrderId = useMemo(() => {
+    const byOrder = new Map<number, MakerAssignment[]>();
+    for (const assignment of makerAssignments ?? []) {
+      byOrder.set(assignment.order_id, [...(byOrder.get(assignment.order_id) ?? []), assignment]);
+    }
+    return byOrder;
+  }, [makerAssignments]);
+  const assignMakerMutation = useMutation({
+    mutationFn: ({ order, item, makerId }: { order: { id: number; name: string }; item: any; makerId: string | null }) =>
+      makersService.assign(order, item, makerId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['maker-assignments'] }),
+    onError: (error: Error) => toast.error(error.message),
+  });
+  const { mutate: assignMaker } = assignMakerMutation;
+  const handleAssignMaker = useCallback(
+    (order: { id: number; name: string }, item: any, makerId: string | null) => assignMaker({ order, item, makerId }),
+    [assignMaker]
+  );
+
+  const { data: orderViewsData } = useQuery({
+    queryKey: [...ORDER_VIEWS_QUERY_KEY, username],
+    queryFn: () => orderViewsService.list(),
+    staleTime: 60_000,
+    enabled: isAuthenticated,
+  });
+
+  // Shared link (?view=<id>) wins over the user's default view
+  useEffect(() => {
+    const viewParam = searchParams.get('view');
+    if (!viewParam) return;
+    initialViewAppliedRef.current = true;
+    setSearchParams({}, { replace: true });
+    orderViewsService
+      .get(viewParam)
+      .then(applyOrderView)
+      .catch((error: Error) => toast.error(error.message));
+  }, [searchParams, setSearchParams, applyOrderView]);
+
+  useEffect(() => {
+    if (initialViewAppliedRef.current || !orderViewsData) return;
+    initialViewAppliedRef.current = true;
+    const defaultView = orderViewsData.views.find((view) => view.id === orderViewsData.defaultViewId);
+    if (defaultView) applyOrderView(defaultView);
+  }, [orderViewsData, applyOrderView]);
+
   // Switch to All tab only after debounced search (not on every keystroke)
   useEffect(() => {
     if (debouncedSearchQuery.trim()) {
@@ -495,11 +649,18 @@ const Orders = () => {
     [statusFilter, loadAllOrders]
   );
 
+  // Searches run server-side across every order instead of filtering the loaded scope
+  const searchTerm = debouncedSearchQuery.trim();
+  const listParams = useMemo(() => ordersListParams(statusFilter, searchTerm), [statusFilter, searchTerm]);
+
   const ordersQueryKey = useMemo(
-    () => ['orders', ordersFetchScope] as const,
-    [ordersFetchScope]
+    () => (listParams ? (['orders', 'list', listParams] as const) : (['orders', ordersFetchScope] as const)),
+    [ordersFetchScope, listParams]
   );
 
+  // Matches beyond ORDERS_SEARCH_MAX_RESULTS are not loaded; the page says so
+  const [searchMatches, setSearchMatches] = useState<{ term: string; total: number; loaded: number } | null>(null);
+
   useEffect(() => {
     if (statusFilter !== 'all') {
       setLoadAllOrders(false);
@@ -515,6 +676,14 @@ const Orders = () => {
   const { data: orders, isLoading: ordersLoading, error, refetch, isFetching: ordersFetching } = useQuery<Order[]>({
     queryKey: ordersQueryKey,
     queryFn: async (): Promise<Order[]> => {
+      if (listParams) {
+        const { orders: listed, total } = await fetchOrdersListPages<Order>(
+          listParams,
+          searchTerm ? ORDERS_SEARCH_MAX_RESULTS : undefined
+        );
+        if (searchTerm) setSearchMatches({ term: searchTerm, total, loaded: listed.length });
+        return listed;
+      }
       const ordersResponse = await fetch(ordersApiUrl(ordersFetchScope), {
         cache: 'no-store',
         headers: { 'Cache-Control': 'no-cache' },
@@ -587,9 +756,7 @@ const Orders = () => {
     mutationFn: async ({ orderId, dueDate }: { orderId: number; dueDate: string }) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/due-date`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: apiJsonHeaders(),
         body: JSON.stringify({ custom_due_date: dueDate }),
       });
       if (!response.ok) {
@@ -614,9 +781,7 @@ const Orders = () => {
     mutationFn: async ({ orderId, startDate }: { orderId: number; startDate: string }) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/start-date`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: apiJsonHeaders(),
         body: JSON.stringify({ custom_start_date: startDate }),
       });
       if (!response.ok) {
@@ -641,9 +806,7 @@ const Orders = () => {
     mutationFn: async ({ orderId, note }: { orderId: number; note: string }) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/note`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: apiJsonHeaders(),
         body: JSON.stringify({ note }),
       });
       if (!response.ok) {
@@ -667,9 +830,7 @@ const Orders = () => {
     mutationFn: async ({ orderId, isPriority }: { orderId: number; isPriority: boolean }) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/priority`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: apiJsonHeaders(),
         body: JSON.stringify({ isPriority }),
       });
       if (!response.ok) {
@@ -700,7 +861,7 @@ const Orders = () => {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: number; status: string }) => {
+    mutationFn: async ({ orderId, status, override }: { orderId: number; status: string; override?: boolean }) => {
       // Normalize frontend status values to backend-expected tags (trimmed and case-insensitive)
       let serverStatus = status.trim();
       if (status.trim().toLowerCase() === 'confirmed') serverStatus = 'customer_confirmed';
@@ -708,13 +869,20 @@ const Orders = () => {
       else if (status.trim().toLowerCase() === 'order-ready') serverStatus = 'order_ready';
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/status`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ status: serverStatus }),
+        headers: apiJsonHeaders(),
+        body: JSON.stringify({ status: serverStatus, override }),
       });
       if (!response.ok) {
-        throw new Error('Failed to update order status');
+        const errorData = await response.json().catch(() => ({}));
+        // 409 with `from` = the status rules do not allow this move (e.g. cancelled → shipped);
+        // without it the order's paid month is closed, which no override lifts
+        const error = new Error(errorData.error || 'Failed to update order status') as Error & {
+          status?: number;
+          from?: string;
+        };
+        error.status = response.status;
+        error.from = errorData.from;
+        throw error;
       }
       return response.json();
     },
@@ -753,15 +921,23 @@ const Orders = () => {
       });
       return { previous };
     },
-    onError: (error, _vars, context) => {
+    onError: (error: Error & { status?: number; from?: string }, vars, context) => {
       if (context?.previous) queryClient.setQueryData(ordersQueryKey, context.previous);
       console.error('Error updating order status:', error);
+      // Only admins may force a move the status rules reject
+      if (error.status === 409 && error.from && !vars.override && role === 'admin') {
+        if (window.confirm(`${error.message}.\n\nOverride the status rules and apply this change anyway?`)) {
+          updateStatusMutation.mutate({ ...vars, override: true });
+        }
+        return;
+      }
+      toast.error(error.message || 'Failed to update order status');
     },
     // Intentionally no background refresh to avoid fetching after each single update
   });
 
   const bulkUpdateStatusMutation = useMutation({
-    mutationFn: async ({ orderIds, status }: { orderIds: number[]; status: string }) => {
+    mutationFn: async ({ orderIds, status, override }: { orderIds: number[]; status: string; override?: boolean }) => {
       // Normalize frontend status values to backend-expected tags (trimmed and case-insensitive)
       let serverStatus = status.trim();
       if (status.trim().toLowerCase() === 'confirmed') serverStatus = 'customer_confirmed';
@@ -770,10 +946,8 @@ const Orders = () => {
       
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/bulk/status`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ orderIds, status: serverStatus }),
+        headers: apiJsonHeaders(),
+        body: JSON.stringify({ orderIds, status: serverStatus, override }),
       });
       if (!response.ok) {
         const errorData = await response.json();
@@ -833,9 +1007,7 @@ const Orders = () => {
     mutationFn: async (orderId: number) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/fulfill`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        }
+        headers: apiJsonHeaders()
       });
       
       if (!response.ok) {
@@ -879,6 +1051,7 @@ const Orders = () => {
     mutationFn: async (orderId: number) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}`, {
         method: 'DELETE',
+        headers: apiIdentityHeaders(),
       });
       if (!response.ok) {
         const errorData = await response.json();
@@ -915,16 +1088,7 @@ const Orders = () => {
 
   // Helper function to check if an order matches all current filters (status + quick filters + search)
   const matchesAllFilters = (order: Order): boolean => {
-    const query = debouncedSearchQuery.toLowerCase();
-    const nameStr = (order.name || '').toLowerCase();
-    const customerNameStr = `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.toLowerCase();
-    const phoneStr = (order.customer?.phone || '').toLowerCase();
-
-    const matchesSearch = query === '' ||
-      nameStr.includes(query) ||
-      customerNameStr.includes(query) ||
-      phoneStr.includes(query);
-    
+    // Free-text search is applied by the server (see ordersQueryKey)
     const matchesStatus = filterOrdersByStatus(order);
     
     // Quick filter: Production items
@@ -1097,19 +1261,13 @@ const Orders = () => {
     const matchesSummaryItems = selectedSummaryItems.size === 0 || 
       Array.from(selectedSummaryItems).some(itemTitle => orderContainsItem(order, itemTitle));
     
-    return matchesSearch && matchesStatus && matchesSummaryItems;
+    return matchesStatus && matchesSummaryItems;
   };
 
   // Returns true if order matches status + all quick filters EXCEPT the one for excludeTab.
   // Used so each quick filter tab shows counts for "currently displayed" orders (combined filters).
   const orderMatchesOtherQuickFilters = (order: Order, excludeTab: string): boolean => {
-    const query = debouncedSearchQuery.toLowerCase();
-    const nameStr = (order.name || '').toLowerCase();
-    const customerNameStr = `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.toLowerCase();
-    const phoneStr = (order.customer?.phone || '').toLowerCase();
-    const matchesSearch = query === '' || nameStr.includes(query) || customerNameStr.includes(query) || phoneStr.includes(query);
-    const matchesStatus = filterOrdersByStatus(order);
-    if (!matchesSearch || !matchesStatus) return false;
+    if (!filterOrdersByStatus(order)) return false;
 
     if (excludeTab !== 'production' && selectedProductionItems.size > 0) {
       if (!Array.from(selectedProductionItems).some(itemTitle => orderContainsItem(order, itemTitle))) return false;
@@ -1209,9 +1367,29 @@ const Orders = () => {
     bulkUpdateStatusMutation.mutate(
       { orderIds: selectedOrders, status },
       {
-        onSuccess: () => {
+        onSuccess: (data: BulkStatusUpdateResponse) => {
     setSelectedOrders([]);
-          toast.success(`Successfully updated ${selectedOrders.length} order${selectedOrders.length > 1 ? 's' : ''}`);
+          if (!data.failed) {
+            const message = `Successfully updated ${selectedOrders.length} order${selectedOrders.length > 1 ? 's' : ''}`;
+            if (data.operationId) {
+              showUndoToast(message, data.operationId, () => queryClient.invalidateQueries({ queryKey: ['orders'] }));
+            } else {
+              toast.success(message);
+            }
+            return;
+          }
+          toast.error(`${data.failed} of ${data.failed + data.successful} orders were not updated`);
+          // Orders the status rules rejected can be forced through with the admin override
+          const rejected = data.details.failed.filter((f) => f.from);
+          if (
+            role === 'admin' &&
+            rejected.length > 0 &&
+            window.confirm(
+              `${rejected.length} order${rejected.length > 1 ? 's' : ''} cannot move to ${status} (${rejected[0].error}).\n\nOverride the status rules for ${rejected.length > 1 ? 'them' : 'it'}?`
+            )
+          ) {
+            bulkUpdateStatusMutation.mutate({ orderIds: rejected.map((f) => f.orderId), status, override: true });
+          }
         },
         onError: (error: any) => {
           toast.error(error.message || 'Failed to bulk update orders');
@@ -1419,17 +1597,8 @@ const Orders = () => {
   };
 
   const getShippingDate = (order: Order) => {
-    const tags = Array.isArray(order.tags) ? order.tags : 
-                typeof order.tags === 'string' ? order.tags.split(',').map(t => t.trim()) :
-                [];
-    const shippingDateTag = tags.find(tag => tag.trim().startsWith('shipping_date:'));
-    if (shippingDateTag) {
-      const dateStr = shippingDateTag.split(':')[1]?.trim();
-      if (dateStr) {
-        return new Date(dateStr);
-      }
-    }
-    return null;
+    const dateStr = readOrderWorkflowState(order.tags).shippedDate;
+    return dateStr ? new Date(dateStr) : null;
   };
 
   // Helper function to check if an order contains a specific item
@@ -1844,9 +2013,7 @@ const Orders = () => {
     }) => {
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders/${orderId}/tags`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: apiJsonHeaders(),
         body: JSON.stringify({
           tags: newTags,
           ...(reviewBulkIndex !== undefined ? { reviewBulkIndex } : {})
@@ -2022,6 +2189,47 @@ const Orders = () => {
       .sort((a, b) => b.quantity - a.quantity);
   };
 
+  // Materials check for the production summary: every line item (not just plushies), merged per variant
+  const getProductionMaterialItems = (): MaterialLineItem[] => {
+    if (!orders) return [];
+
+    const ordersToProcess = selectedOrders.length > 0
+      ? orders.filter(order => selectedOrders.includes(order.id))
+      : orders.filter(order => filterOrdersByStatus(order) && orderMatchesOtherQuickFilters(order, 'production'));
+
+    const items = new Map<string, MaterialLineItem>();
+    ordersToProcess.forEach(order => {
+      order.line_items?.forEach(item => {
+        if (isPriorityMakingLineItem(item as { product_id?: unknown; title?: string })) return;
+        const key = `${item.product_id ?? item.title}:${item.variant_id ?? item.variant_title ?? ''}`;
+        const existing = items.get(key);
+        if (existing) {
+          existing.quantity += item.quantity;
+        } else {
+          items.set(key, {
+            title: item.title,
+            variant_title: item.variant_title,
+            quantity: item.quantity,
+            product_id: item.product_id ?? null,
+            variant_id: item.variant_id ?? null,
+          });
+        }
+      });
+    });
+    return Array.from(items.values());
+  };
+  const productionMaterialItems = activeQuickFilterTab === 'production' ? getProductionMaterialItems() : [];
+  const { data: productionMaterials } = useQuery({
+    queryKey: [
+      'materials-availability',
+      productionMaterialItems.map(item => `${item.product_id}:${item.variant_id}:${item.quantity}`).sort().join(','),
+    ],
+    queryFn: () => materialsService.checkAvailability(productionMaterialItems),
+    staleTime: 60_000,
+    enabled: isAuthenticated && productionMaterialItems.length > 0,
+  });
+  const productionMaterialsChecked = Object.keys(productionMaterials?.requirements ?? {}).length > 0;
+
   // Calculate data for city tab (counts reflect current displayed orders)
   const getCityData = () => {
     if (!orders) return [];
@@ -2497,9 +2705,17 @@ const Orders = () => {
       if (result.summary.failed > 0) {
         toast.error(`${result.summary.successful} succeeded, ${result.summary.failed} failed. Check console for details.`);
         console.log('Failed entries:', result.results.failed);
+      } else if (result.operationId) {
+        showUndoToast(`Successfully imported ${result.summary.successful} shipping costs`, result.operationId, () =>
+          queryClient.invalidateQueries({ queryKey: ['orders'] })
+        );
       } else {
         toast.success(`Successfully imported ${result.summary.successful} shipping costs`);
       }
+      if (result.summary.movedMonth > 0) {
+        toast(`${result.summary.movedMonth} already-paid order(s) moved to ${transactionDate.substring(0, 7)}. Check console for details.`);
+        console.log('Orders moved to another month:', result.results.movedMonth);
+      }
       await queryClient.invalidateQueries({ queryKey: ['orders'] });
     },
     [queryClient]
@@ -2866,6 +3082,36 @@ const Orders = () => {
       }
     }, [selectedOrdersForExport]);
 
+    const [isPrintingAwbs, setIsPrintingAwbs] = useState(false);
+    const handlePrintSelectedAwbs = useCallback(async () => {
+      if (selectedOrders.length === 0) return;
+      setIsPrintingAwbs(true);
+      try {
+        const { pdf, included, failed } = await printAwbBatch(selectedOrders);
+        if (pdf) {
+          const url = URL.createObjectURL(pdf);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `awb-batch-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+          link.click();
+          URL.revokeObjectURL(url);
+          toast.success(`${included} label${included === 1 ? '' : 's'} ready`);
+        }
+        if (failed.length > 0) {
+          toast.error(
+            `No label for ${failed.length} order${failed.length === 1 ? '' : 's'}:\n` +
+              failed.map((f) => `${f.orderName ?? f.orderId}: ${f.reason}`).join('\n'),
+            { duration: 10000 }
+          );
+        }
+      } catch (error) {
+        console.error('Failed to print AWB labels:', error);
+        toast.error('Failed to print AWB labels');
+      } finally {
+        setIsPrintingAwbs(false);
+      }
+    }, [selectedOrders]);
+
     const getBulkStatusColor = (status: string) => {
       switch (status) {
         case 'pending': return 'bg-yellow-100 text-yellow-800';
@@ -2908,6 +3154,16 @@ const Orders = () => {
                 <DocumentArrowDownIcon className="w-5 h-5" />
               </button>
             )}
+            {selectedOrders.length > 0 && (
+              <button
+                onClick={handlePrintSelectedAwbs}
+                disabled={isPrintingAwbs}
+                className="inline-flex items-center justify-center rounded-lg p-1.5 bg-white text-purple-700 border border-purple-200 hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                title="Print shipping labels (AWB) for selected orders, in route order"
+              >
+                <PrinterIcon className={`w-5 h-5 ${isPrintingAwbs ? 'animate-pulse' : ''}`} />
+              </button>
+            )}
             <button
               onClick={handleSelectAll}
               className={`
@@ -3076,6 +3332,45 @@ const Orders = () => {
               </button>
             </div>
           )}
+          {activeQuickFilterTab === 'production' && productionMaterials && productionMaterialItems.length > 0 && (
+            <div
+              className={`rounded-md border px-3 py-2 text-xs ${
+                !productionMaterialsChecked
+                  ? 'border-gray-200 bg-gray-50 text-gray-600'
+                  : productionMaterials.canMake
+                    ? 'border-emerald-200 bg-emerald-50 text-emerald-800'
+                    : 'border-red-200 bg-red-50 text-red-700'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">
+                  {!productionMaterialsChecked
+                    ? 'No bills of materials for these items yet'
+                    : productionMaterials.canMake
+                      ? 'Enough materials in stock to make these'
+                      : `Short on ${productionMaterials.shortages.length} material(s)`}
+                </p>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); navigate('/materials'); }}
+                  className="shrink-0 underline hover:no-underline"
+                >
+                  Materials
+                </button>
+              </div>
+              {productionMaterials.shortages.map(shortage => (
+                <p key={shortage.materialId}>
+                  {shortage.name}: need {shortage.required} {shortage.unit}, have {shortage.available}
+                </p>
+              ))}
+              {productionMaterialsChecked && productionMaterials.missingBom.length > 0 && (
+                <p className="mt-1 text-gray-600">
+                  Not checked (no bill of materials): {productionMaterials.missingBom.slice(0, 5).join(', ')}
+                  {productionMaterials.missingBom.length > 5 ? ` +${productionMaterials.missingBom.length - 5} more` : ''}
+                </p>
+              )}
+            </div>
+          )}
           {currentData.length === 0 && emptyMessage ? (
             <div className="text-center py-8">
               <p className="text-sm text-gray-600">{emptyMessage}</p>
@@ -3256,8 +3551,28 @@ const Orders = () => {
               <span className="hidden sm:inline">Map</span>
             </button>
           </div>
+          <button
+            type="button"
+            onClick={() => setIsPlannerOpen(true)}
+            className="inline-flex shrink-0 items-center gap-1 rounded-xl border border-gray-200 bg-white px-2 sm:px-2.5 py-2 text-xs font-medium text-gray-600 shadow-sm hover:bg-gray-50"
+            title="Production planner"
+          >
+            <CalendarDaysIcon className="h-5 w-5 shrink-0" aria-hidden />
+            <span className="hidden sm:inline">Planner</span>
+          </button>
         </div>
 
+        {/* Saved views: pinned chips + views menu */}
+        <OrderViewsBar
+          username={username}
+          currentFilters={currentViewFilters}
+          activeViewId={activeViewId}
+          onApply={applyOrderView}
+        />
+
+        {/* Ready-to-ship orders whose carrier shipment could not be created */}
+        <ShipmentIssuesBanner />
+
         {/* Filter Icons - One line, horizontal scroll if needed; box/icon sizes fixed; scrollbar hidden */}
         <div className="pl-16 sm:pl-5 sm:pr-4 py-2 bg-white overflow-x-auto overflow-y-hidden [scrollbar-width:none] [&::-webkit-scrollbar]:hidden">
           <div className="flex items-center justify-center gap-1 flex-nowrap">
@@ -3376,11 +3691,18 @@ const Orders = () => {
           </div>
         </div>
 
-        {statusFilter === 'all' && !loadAllOrders && (
+        {searchTerm && searchMatches?.term === searchTerm && searchMatches.total > searchMatches.loaded && (
+          <div className="border-t border-amber-100 bg-amber-50 px-3 py-2 sm:px-4">
+            <p className="text-xs sm:text-sm text-amber-900">
+              Showing the first {searchMatches.loaded} of {searchMatches.total} matches — narrow the search to see the rest.
+            </p>
+          </div>
+        )}
+
+        {statusFilter === 'all' && !loadAllOrders && !searchTerm && (
           <div className="flex flex-wrap items-center justify-between gap-2 border-t border-amber-100 bg-amber-50 px-3 py-2 sm:px-4">
             <p className="text-xs sm:text-sm text-amber-900">
               Showing active orders only (excluding fulfilled, cancelled, and deleted).
-              {debouncedSearchQuery.trim() ? ' Search applies to this set.' : ''}
             </p>
             <button
               type="button"
@@ -3411,6 +3733,10 @@ const Orders = () => {
                 onUpdateStatus={handleUpdateStatus}
                 onDeleteOrder={handleDeleteOrder}
                 onUpdateTags={handleUpdateTags}
+                productionPlan={productionPlanByOrderId.get(order.id)}
+                makers={makers && makers.length > 0 ? makers : undefined}
+                makerAssignments={makerAssignmentsByOrderId.get(order.id)}
+                onAssignMaker={handleAssignMaker}
               />
             ))}
           </div>
@@ -3452,6 +3778,8 @@ const Orders = () => {
         onImport={handleBulkShippingCostImport}
       />
 
+      <ProductionPlannerDialog isOpen={isPlannerOpen} onClose={() => setIsPlannerOpen(false)} />
+
     </div>
   );
 };
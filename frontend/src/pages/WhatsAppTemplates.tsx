@@ -273,7 +273,8 @@ const WhatsAppTemplates: React.FC = () => {
                   <code className="bg-gray-100 px-1 rounded">{'{{items_list_simple}}'}</code>,{' '}
                   <code className="bg-gray-100 px-1 rounded">{'{{shipping_price}}'}</code>,{' '}
                   <code className="bg-gray-100 px-1 rounded">{'{{total_price}}'}</code>,{' '}
-                  <code className="bg-gray-100 px-1 rounded">{'{{order_number}}'}</code>
+                  <code className="bg-gray-100 px-1 rounded">{'{{order_number}}'}</code>,{' '}
+                  <code className="bg-gray-100 px-1 rounded">{'{{delivery_attempt}}'}</code> (delivery_failed only)
                 </p>
               </div>
               <div className="flex justify-end gap-2 pt-2">
@@ -344,7 +345,8 @@ const WhatsAppTemplates: React.FC = () => {
                   <code className="bg-gray-100 px-1 rounded">{'{{items_list}}'}</code>,{' '}
                   <code className="bg-gray-100 px-1 rounded">{'{{shipping_price}}'}</code>,{' '}
                   <code className="bg-gray-100 px-1 rounded">{'{{total_price}}'}</code>,{' '}
-                  <code className="bg-gray-100 px-1 rounded">{'{{order_number}}'}</code>
+                  <code className="bg-gray-100 px-1 rounded">{'{{order_number}}'}</code>,{' '}
+                  <code className="bg-gray-100 px-1 rounded">{'{{delivery_attempt}}'}</code> (delivery_failed only)
                 </p>
               </div>
               <div className="flex justify-end gap-2 pt-2">
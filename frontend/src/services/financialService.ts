@@ -13,6 +13,8 @@ export interface ProductCost {
   laser_felt_cost_per_unit: number;
   packaging_per_unit: number;
   total_unit_cost: number;
+  /** YYYY-MM-DD: this version applies to orders paid on or after it. */
+  effective_from: string;
   updated_at: string;
   created_at: string;
 }
@@ -25,6 +27,7 @@ export interface ProductCostInput {
   helper_colors_cost_per_unit: number;
   laser_felt_cost_per_unit: number;
   packaging_per_unit: number;
+  effective_from?: string;
 }
 
 export type FinancialExpenseCategory = 
@@ -43,6 +46,10 @@ export type FinancialExpenseCategory =
   | "Other";
 export type ExpenseType = "production" | "operating";
 
+// Who paid an expense: 'Business', 'Shared' (split between partners) or a partner name
+export type ExpensePartner = string;
+export type ExpensePaidBy = string;
+
 export interface FinancialExpense {
   id: string;
   category: FinancialExpenseCategory;
@@ -55,10 +62,127 @@ export interface FinancialExpense {
   product_name?: string;
   quantity?: number;
   unit_cost?: number;
+  paid_by?: ExpensePaidBy; // Missing on rows created before the unified ledger
+  split_payment?: Record<ExpensePartner, number> | null;
+  settled?: boolean;
+  settled_at?: string | null;
+  settled_partners?: ExpensePartner[];
   created_at: string;
   updated_at: string;
 }
 
+export interface PartnerBalance {
+  partner: ExpensePartner;
+  owed_amount: number;
+  settled_amount: number;
+  last_settlement: string | null;
+}
+
+export type RecurringExpenseCadence = "monthly" | "quarterly" | "yearly";
+
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  category: FinancialExpenseCategory;
+  amount: number;
+  expense_type: ExpenseType;
+  paid_by: ExpensePaidBy;
+  cadence: RecurringExpenseCadence;
+  day_of_month: number;
+  start_date: string;
+  end_date?: string | null;
+  notes?: string | null;
+  active: boolean;
+  backfill: boolean; // Also post occurrences due before the template was created
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringExpenseInput {
+  name: string;
+  category: FinancialExpenseCategory;
+  amount: number;
+  expense_type?: ExpenseType;
+  paid_by?: ExpensePaidBy;
+  cadence?: RecurringExpenseCadence;
+  day_of_month: number;
+  start_date: string;
+  end_date?: string | null;
+  notes?: string | null;
+  active?: boolean;
+  backfill?: boolean;
+}
+
+export interface RecurringOccurrencePreview {
+  recurring_expense_id: string;
+  name: string;
+  category: FinancialExpenseCategory;
+  date: string;
+  amount: number;
+  status: "scheduled" | "adjusted" | "skipped" | "posted" | "due";
+  expense_id?: string | null;
+}
+
+export interface RecurringMaterializeResult {
+  posted: number;
+  skipped: number;
+  blocked: { recurring_expense_id: string; date: string; reason: string }[];
+}
+
+export interface Partner {
+  id: string;
+  name: string;
+  ownership_percent: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PartnerSettlementKind = "reimbursement" | "draw" | "contribution" | "transfer";
+
+export interface PartnerSettlementInput {
+  partner: ExpensePartner;
+  kind?: PartnerSettlementKind;
+  counterparty?: ExpensePartner;
+  amount: number;
+  date: string;
+  expense_ids?: string[];
+  note?: string;
+}
+
+export interface PartnerLedgerEntry {
+  date: string;
+  kind: "expense" | PartnerSettlementKind;
+  description: string;
+  amount: number; // + fronted / put in, − taken out
+  balance: number;
+  expense_id?: string;
+  settlement_id?: string;
+}
+
+export interface PartnerLedger {
+  partner: ExpensePartner;
+  fronted: number;
+  taken_out: number;
+  balance: number;
+  entries: PartnerLedgerEntry[];
+}
+
+export interface PartnerPosition {
+  partner: ExpensePartner;
+  ownership_percent: number;
+  balance: number;
+  target: number;
+  difference: number;
+}
+
+export interface PartnerBalancesReport {
+  total_balance: number;
+  ownership_total: number;
+  positions: PartnerPosition[];
+  suggestions: { from: ExpensePartner; to: ExpensePartner; amount: number }[];
+}
+
 export interface FinancialExpenseInput {
   category: FinancialExpenseCategory;
   amount: number;
@@ -69,6 +193,8 @@ export interface FinancialExpenseInput {
   product_name?: string;
   quantity?: number;
   unit_cost?: number;
+  paid_by?: ExpensePaidBy;
+  split_payment?: Record<ExpensePartner, number> | null;
 }
 
 export type ShippingType = "Company" | "Uber";
@@ -138,6 +264,174 @@ export interface MonthlyProfit {
   updated_at: string;
 }
 
+export type PayoutBasis = "dpp" | "cash_dpp";
+export type OwnerPayType = "fixed" | "percent";
+
+export interface PayoutConfig {
+  id: string;
+  effective_from: string; // YYYY-MM
+  basis: PayoutBasis;
+  media_buyer_percent: number;
+  ops_percent: number;
+  crm_percent: number;
+  owner_pay_type: OwnerPayType;
+  owner_pay_value: number;
+  created_by: string | null;
+  updated_at: string;
+}
+
+export interface PayoutConfigInput {
+  effective_from?: string;
+  basis?: PayoutBasis;
+  media_buyer_percent: number;
+  ops_percent: number;
+  crm_percent: number;
+  owner_pay_type: OwnerPayType;
+  owner_pay_value: number;
+}
+
+export interface MonthlyPayout {
+  id: string;
+  month: string;
+  basis: PayoutBasis;
+  config_id: string | null;
+  media_buyer_percent: number;
+  ops_percent: number;
+  crm_percent: number;
+  owner_pay_type: OwnerPayType;
+  owner_pay_value: number;
+  dpp: number;
+  media_buyer_amount: number;
+  ops_amount: number;
+  crm_amount: number;
+  owner_amount: number;
+  net_business_profit: number;
+  status: "draft" | "approved"; // approved = month locked
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FinanceMonthClose {
+  month: string;
+  status: "closed" | "open";
+  checksum: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  reopened_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+}
+
+export interface FinanceMonthCloseEvent {
+  id: string;
+  month: string;
+  action: "close" | "reopen";
+  actor: string | null;
+  reason: string | null;
+  checksum: string | null;
+  created_at: string;
+}
+
+export interface FinanceMonthCloseCheck {
+  month: string;
+  canClose: boolean;
+  problems: string[];
+  missingShippingCost: Array<{ id: number | string; name: string }>;
+}
+
+export interface ProductMarginTrend {
+  previous_units_sold: number;
+  previous_average_selling_price: number;
+  previous_margin_percent: number | null;
+  units_sold_change_percent: number;
+  average_selling_price_change_percent: number;
+  margin_percent_change: number | null; // Percentage points
+}
+
+export interface ProductMarginMetrics {
+  units_sold: number;
+  total_revenue: number; // Net of discounts
+  average_selling_price: number; // Net of discounts
+  total_cost: number; // Costed units only
+  cost_per_unit: number | null;
+  margin_percent: number | null;
+  gross_profit: number | null;
+  revenue_share: number;
+  uncosted_units: number;
+  trend: ProductMarginTrend | null;
+}
+
+export interface ProductVariantMarginData extends ProductMarginMetrics {
+  variant_id: string;
+  variant_title: string;
+}
+
+export interface ProductMarginData extends ProductMarginMetrics {
+  product_id: string;
+  product_name: string;
+  variants: ProductVariantMarginData[];
+}
+
+export interface ProductMarginsReport {
+  from: string;
+  to: string;
+  previous_from: string;
+  previous_to: string;
+  total_revenue: number;
+  total_units: number;
+  uncosted_units: number;
+  products: ProductMarginData[];
+}
+
+export interface AdSpendImport {
+  id: string;
+  platform: "meta";
+  filename: string;
+  row_count: number;
+  date_from: string | null;
+  date_to: string | null;
+  total_spend: number;
+  imported_by?: string | null;
+  created_at: string;
+}
+
+export interface AdSpendImportResult {
+  import: AdSpendImport;
+  imported: number;
+  errors: { row: number; reason: string }[];
+}
+
+export interface AdDiscountCode {
+  code: string;
+  campaign_name: string;
+  created_at: string;
+}
+
+export interface CampaignPerformance {
+  campaign: string | null; // null: orders not attributed to any campaign
+  month: string; // YYYY-MM
+  spend: number;
+  results: number;
+  orders: number;
+  confirmed_orders: number;
+  paid_orders: number;
+  revenue: number;
+  paid_revenue: number;
+  roas: number | null;
+  paid_roas: number | null;
+  cost_per_confirmed_order: number | null;
+  cost_per_paid_order: number | null;
+}
+
+export interface AdPerformanceReport {
+  from: string;
+  to: string;
+  campaigns: CampaignPerformance[];
+  totals: CampaignPerformance[]; // One per month (campaign 'All')
+}
+
 // API Functions
 export const financialService = {
   // Product Costs
@@ -150,6 +444,16 @@ export const financialService = {
     return response.json();
   },
 
+  /** Every cost version of a product, newest first. */
+  async getProductCostHistory(productId: string): Promise<ProductCost[]> {
+    const response = await fetch(`${API_URL}/api/financial/product-costs/history/${productId}`, {
+      cache: 'no-store',
+      headers: { 'Cache-Control': 'no-cache' }
+    });
+    if (!response.ok) throw new Error('Failed to fetch product cost history');
+    return response.json();
+  },
+
   async getProductCost(id: string): Promise<ProductCost> {
     const response = await fetch(`${API_URL}/api/financial/product-costs/${id}`, {
       cache: 'no-store',
@@ -165,7 +469,10 @@ export const financialService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input),
     });
-    if (!response.ok) throw new Error('Failed to create product cost');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to create product cost');
+    }
     return response.json();
   },
 
@@ -175,7 +482,10 @@ export const financialService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input),
     });
-    if (!response.ok) throw new Error('Failed to update product cost');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to update product cost');
+    }
     return response.json();
   },
 
@@ -205,7 +515,10 @@ export const financialService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input),
     });
-    if (!response.ok) throw new Error('Failed to create expense');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to create expense');
+    }
     return response.json();
   },
 
@@ -215,15 +528,155 @@ export const financialService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input),
     });
-    if (!response.ok) throw new Error('Failed to update expense');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to update expense');
+    }
+    return response.json();
+  },
+
+  async settleExpense(id: string, partner?: ExpensePartner): Promise<FinancialExpense> {
+    const response = await fetch(`${API_URL}/api/financial/expenses/${id}/settle`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ partner }),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to settle expense');
+    }
+    return response.json();
+  },
+
+  async getPartnerBalance(partner: ExpensePartner): Promise<PartnerBalance> {
+    const response = await fetch(`${API_URL}/api/financial/partners/${encodeURIComponent(partner)}/balance`);
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to fetch partner balance');
+    }
+    return response.json();
+  },
+
+  // Recurring expenses
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    const response = await fetch(`${API_URL}/api/financial/recurring-expenses`);
+    if (!response.ok) throw new Error('Failed to fetch recurring expenses');
+    return response.json();
+  },
+
+  async saveRecurringExpense(input: RecurringExpenseInput & { id?: string }): Promise<RecurringExpense> {
+    const { id, ...body } = input;
+    const response = await fetch(`${API_URL}/api/financial/recurring-expenses${id ? `/${id}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to save recurring expense');
+    }
+    return response.json();
+  },
+
+  async deleteRecurringExpense(id: string): Promise<void> {
+    const response = await fetch(`${API_URL}/api/financial/recurring-expenses/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to delete recurring expense');
+    }
+  },
+
+  async getRecurringPreview(months = 3): Promise<RecurringOccurrencePreview[]> {
+    const response = await fetch(`${API_URL}/api/financial/recurring-expenses/preview?months=${months}`);
+    if (!response.ok) throw new Error('Failed to preview recurring expenses');
+    return response.json();
+  },
+
+  /** Skip one occurrence (`{ skip: true }`), adjust it (`{ amount, notes }`) or reset it (`null`). */
+  async setRecurringOccurrence(
+    id: string,
+    date: string,
+    change: { skip?: boolean; amount?: number | null; notes?: string | null } | null
+  ): Promise<void> {
+    const response = await fetch(`${API_URL}/api/financial/recurring-expenses/${id}/occurrences/${date}`, {
+      method: change ? 'PUT' : 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: change ? JSON.stringify(change) : undefined,
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to update occurrence');
+    }
+  },
+
+  async runRecurringExpenses(): Promise<RecurringMaterializeResult> {
+    const response = await fetch(`${API_URL}/api/financial/recurring-expenses/run`, { method: 'POST' });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to post recurring expenses');
+    }
+    return response.json();
+  },
+
+  // Partners
+  async getPartners(): Promise<Partner[]> {
+    const response = await fetch(`${API_URL}/api/financial/partners`);
+    if (!response.ok) throw new Error('Failed to fetch partners');
+    return response.json();
+  },
+
+  async savePartner(input: { id?: string; name?: string; ownership_percent?: number; active?: boolean }): Promise<Partner> {
+    const { id, ...body } = input;
+    const response = await fetch(`${API_URL}/api/financial/partners${id ? `/${id}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to save partner');
+    }
     return response.json();
   },
 
+  async getPartnerBalances(): Promise<PartnerBalancesReport> {
+    const response = await fetch(`${API_URL}/api/financial/partners/balances`);
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to fetch partner balances');
+    }
+    return response.json();
+  },
+
+  async getPartnerLedger(partner: ExpensePartner): Promise<PartnerLedger> {
+    const response = await fetch(`${API_URL}/api/financial/partners/${encodeURIComponent(partner)}/ledger`);
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to fetch partner ledger');
+    }
+    return response.json();
+  },
+
+  async createSettlement(input: PartnerSettlementInput): Promise<void> {
+    const response = await fetch(`${API_URL}/api/financial/settlements`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to record settlement');
+    }
+  },
+
   async deleteExpense(id: string): Promise<void> {
     const response = await fetch(`${API_URL}/api/financial/expenses/${id}`, {
       method: 'DELETE',
     });
-    if (!response.ok) throw new Error('Failed to delete expense');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to delete expense');
+    }
   },
 
   // Shipping Records
@@ -245,7 +698,10 @@ export const financialService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input),
     });
-    if (!response.ok) throw new Error('Failed to create shipping record');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to create shipping record');
+    }
     return response.json();
   },
 
@@ -255,7 +711,10 @@ export const financialService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input),
     });
-    if (!response.ok) throw new Error('Failed to update shipping record');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to update shipping record');
+    }
     return response.json();
   },
 
@@ -263,7 +722,10 @@ export const financialService = {
     const response = await fetch(`${API_URL}/api/financial/shipping/${id}`, {
       method: 'DELETE',
     });
-    if (!response.ok) throw new Error('Failed to delete shipping record');
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to delete shipping record');
+    }
   },
 
   // Profit Engine
@@ -337,6 +799,116 @@ export const financialService = {
     return response.json();
   },
 
+  // Payouts
+  async getPayoutConfig(month?: string): Promise<PayoutConfig | null> {
+    const response = await fetch(`${API_URL}/api/financial/payout-config${month ? `?month=${month}` : ''}`, {
+      cache: 'no-store',
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error('Failed to fetch payout config');
+    return response.json();
+  },
+
+  async getPayoutConfigHistory(): Promise<PayoutConfig[]> {
+    const response = await fetch(`${API_URL}/api/financial/payout-config/history`, { cache: 'no-store' });
+    if (!response.ok) throw new Error('Failed to fetch payout config history');
+    return response.json();
+  },
+
+  async savePayoutConfig(input: PayoutConfigInput, user: string | null): Promise<PayoutConfig> {
+    const response = await fetch(`${API_URL}/api/financial/payout-config`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(user ? { 'X-Order-Actor': user } : {}) },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to save payout config');
+    }
+    return response.json();
+  },
+
+  async getPayout(month: string): Promise<MonthlyPayout | null> {
+    const response = await fetch(`${API_URL}/api/financial/payouts?month=${month}`, { cache: 'no-store' });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error('Failed to fetch payouts');
+    return response.json();
+  },
+
+  async calculatePayouts(month: string): Promise<MonthlyPayout> {
+    const response = await fetch(`${API_URL}/api/financial/payouts/calculate?month=${month}`, { method: 'POST' });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to calculate payouts');
+    }
+    return response.json();
+  },
+
+  async approvePayouts(month: string, user: string | null): Promise<MonthlyPayout> {
+    const response = await fetch(`${API_URL}/api/financial/payouts/${month}/approve`, {
+      method: 'POST',
+      headers: user ? { 'X-Order-Actor': user } : {},
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to approve payouts');
+    }
+    return response.json();
+  },
+
+  // Month close
+  async getMonthClose(month: string): Promise<{ month: string; close: FinanceMonthClose | null; events: FinanceMonthCloseEvent[] }> {
+    const response = await fetch(`${API_URL}/api/financial/month/${month}/close`);
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to fetch month close');
+    }
+    return response.json();
+  },
+
+  async checkMonthClose(month: string): Promise<FinanceMonthCloseCheck> {
+    const response = await fetch(`${API_URL}/api/financial/month/${month}/close-check`);
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to check month close');
+    }
+    return response.json();
+  },
+
+  async verifyMonthClose(month: string): Promise<{ month: string; checksum: string; matches: boolean }> {
+    const response = await fetch(`${API_URL}/api/financial/month/${month}/close/verify`);
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to verify month close');
+    }
+    return response.json();
+  },
+
+  async closeMonth(month: string, user: string | null): Promise<FinanceMonthClose> {
+    const response = await fetch(`${API_URL}/api/financial/month/${month}/close`, {
+      method: 'POST',
+      headers: user ? { 'X-Order-Actor': user } : {},
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to close month');
+    }
+    return response.json();
+  },
+
+  async reopenMonth(month: string, reason: string, user: string | null): Promise<FinanceMonthClose> {
+    const response = await fetch(`${API_URL}/api/financial/month/${month}/reopen`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(user ? { 'X-Order-Actor': user } : {}) },
+      body: JSON.stringify({ reason }),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to reopen month');
+    }
+    return response.json();
+  },
+
   // Dashboard
   async getShippingPerformance(month: string): Promise<any> {
     const response = await fetch(`${API_URL}/api/financial/dashboard/shipping-performance?month=${month}`, {
@@ -347,6 +919,88 @@ export const financialService = {
     return response.json();
   },
 
+  async getProductMargins(from: string, to: string = from): Promise<ProductMarginsReport> {
+    const response = await fetch(`${API_URL}/api/financial/dashboard/product-margins?from=${from}&to=${to}`, {
+      cache: 'no-store',
+      headers: { 'Cache-Control': 'no-cache' }
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to fetch product margins');
+    }
+    return response.json();
+  },
+
+  // Ad spend and ROAS
+  async importAdSpend(file: File): Promise<AdSpendImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await fetch(`${API_URL}/api/financial/ads/import`, {
+      method: 'POST',
+      body: formData,
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to import ad spend');
+    }
+    return response.json();
+  },
+
+  async getAdImports(): Promise<AdSpendImport[]> {
+    const response = await fetch(`${API_URL}/api/financial/ads/imports`);
+    if (!response.ok) throw new Error('Failed to fetch ad spend imports');
+    return response.json();
+  },
+
+  async deleteAdImport(id: string): Promise<void> {
+    const response = await fetch(`${API_URL}/api/financial/ads/imports/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to delete import');
+    }
+  },
+
+  async getAdDiscountCodes(): Promise<AdDiscountCode[]> {
+    const response = await fetch(`${API_URL}/api/financial/ads/discount-codes`);
+    if (!response.ok) throw new Error('Failed to fetch discount codes');
+    return response.json();
+  },
+
+  async saveAdDiscountCode(code: string, campaignName: string): Promise<AdDiscountCode> {
+    const response = await fetch(`${API_URL}/api/financial/ads/discount-codes/${encodeURIComponent(code)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaign_name: campaignName }),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to save discount code');
+    }
+    return response.json();
+  },
+
+  async deleteAdDiscountCode(code: string): Promise<void> {
+    const response = await fetch(`${API_URL}/api/financial/ads/discount-codes/${encodeURIComponent(code)}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to delete discount code');
+    }
+  },
+
+  async getAdPerformance(from: string, to: string = from): Promise<AdPerformanceReport> {
+    const response = await fetch(`${API_URL}/api/financial/ads/performance?from=${from}&to=${to}`, {
+      cache: 'no-store',
+      headers: { 'Cache-Control': 'no-cache' }
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to fetch ad performance');
+    }
+    return response.json();
+  },
+
   async getExpenseBreakdown(month: string): Promise<any[]> {
     const response = await fetch(`${API_URL}/api/financial/dashboard/expense-breakdown?month=${month}`, {
       cache: 'no-store',
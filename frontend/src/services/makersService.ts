@@ -0,0 +1,145 @@
+// Makers (crocheters) API (/api/makers)
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+export interface Maker {
+  id: string;
+  name: string;
+  phone: string | null;
+  default_rate_per_unit: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MakerAssignment {
+  id: string;
+  order_id: number;
+  order_name: string;
+  line_item_key: string;
+  title: string;
+  variant_title: string | null;
+  product_id: string | null;
+  quantity: number;
+  maker_id: string;
+  assigned_at: string;
+  completed_on: string | null;
+}
+
+export interface MakerQueueItem extends MakerAssignment {
+  status: string | null;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export interface MakerLaborStatement {
+  makerId: string;
+  month: string;
+  maker: Maker;
+  lines: Array<{
+    assignmentId: string;
+    orderId: number;
+    orderName: string;
+    title: string;
+    variantTitle: string | null;
+    quantity: number;
+    ratePerUnit: number;
+    defaultRate: boolean;
+    amount: number;
+    completedOn: string;
+  }>;
+  totalUnits: number;
+  totalAmount: number;
+  posted: { expense_id: string | null; posted_by: string | null; posted_at: string } | null;
+}
+
+/** Same key as backend utils/makerLabor.ts makerLineItemKey. */
+export function makerLineItemKey(item: { variant_id?: number | null; title?: string; variant_title?: string | null }): string {
+  if (item.variant_id) return `v:${item.variant_id}`;
+  return `t:${(item.title || '').trim().toLowerCase()}|${(item.variant_title || '').trim().toLowerCase()}`;
+}
+
+async function failed(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw new Error(error.error || fallback);
+}
+
+export const makersService = {
+  async list(includeInactive = false): Promise<Maker[]> {
+    const response = await fetch(`${API_URL}/api/makers${includeInactive ? '?includeInactive=1' : ''}`, {
+      cache: 'no-store',
+    });
+    if (!response.ok) return failed(response, 'Failed to fetch makers');
+    return (await response.json()).makers;
+  },
+
+  async create(input: { name: string; phone?: string; default_rate_per_unit?: number }): Promise<Maker> {
+    const response = await fetch(`${API_URL}/api/makers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to add maker');
+    return (await response.json()).maker;
+  },
+
+  async update(makerId: string, input: Partial<Pick<Maker, 'name' | 'phone' | 'default_rate_per_unit' | 'active'>>): Promise<Maker> {
+    const response = await fetch(`${API_URL}/api/makers/${makerId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to update maker');
+    return (await response.json()).maker;
+  },
+
+  /** In-production assignments (all orders still being made). */
+  async getOpenAssignments(): Promise<MakerAssignment[]> {
+    const response = await fetch(`${API_URL}/api/makers/assignments`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch maker assignments');
+    return (await response.json()).assignments;
+  },
+
+  async assign(
+    order: { id: number; name: string },
+    item: { title: string; variant_title?: string | null; variant_id?: number | null; product_id?: number | null; quantity: number },
+    makerId: string | null
+  ): Promise<MakerAssignment | null> {
+    const response = await fetch(`${API_URL}/api/makers/assignments/${order.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        orderName: order.name,
+        lineItemKey: makerLineItemKey(item),
+        title: item.title,
+        variantTitle: item.variant_title ?? null,
+        productId: item.product_id ?? null,
+        quantity: item.quantity,
+        makerId,
+      }),
+    });
+    if (!response.ok) return failed(response, 'Failed to assign maker');
+    return (await response.json()).assignment;
+  },
+
+  async getQueue(makerId: string): Promise<MakerQueueItem[]> {
+    const response = await fetch(`${API_URL}/api/makers/${makerId}/queue`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch maker queue');
+    return (await response.json()).items;
+  },
+
+  async getStatement(makerId: string, month: string): Promise<MakerLaborStatement> {
+    const response = await fetch(`${API_URL}/api/makers/${makerId}/statement?month=${month}`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch labor statement');
+    return response.json();
+  },
+
+  async postStatement(makerId: string, month: string, user: string | null): Promise<void> {
+    const response = await fetch(`${API_URL}/api/makers/${makerId}/statement/post`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(user ? { 'X-Order-Actor': user } : {}) },
+      body: JSON.stringify({ month }),
+    });
+    if (!response.ok) return failed(response, 'Failed to post labor statement');
+  },
+};
@@ -0,0 +1,183 @@
+// Materials inventory API (/api/materials)
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+export type MaterialKind = 'yarn' | 'felt' | 'zipper' | 'card' | 'packaging' | 'other';
+export type MaterialUnit = 'g' | 'm' | 'pcs';
+
+export const MATERIAL_KINDS: MaterialKind[] = ['yarn', 'felt', 'zipper', 'card', 'packaging', 'other'];
+export const MATERIAL_UNITS: MaterialUnit[] = ['g', 'm', 'pcs'];
+
+export interface Material {
+  id: string;
+  name: string;
+  kind: MaterialKind;
+  color: string | null;
+  weight: string | null;
+  unit: MaterialUnit;
+  on_hand: number;
+  reserved: number;
+  low_stock_threshold: number | null;
+  unit_cost: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MaterialInput = Partial<
+  Pick<Material, 'name' | 'kind' | 'color' | 'weight' | 'unit' | 'low_stock_threshold' | 'unit_cost' | 'active'>
+>;
+
+export interface MaterialBomLine {
+  id: string;
+  product_id: string;
+  /** '' applies to every variant of the product. */
+  variant_id: string;
+  material_id: string;
+  quantity_per_unit: number;
+}
+
+export interface MaterialProduct {
+  product_id: string;
+  variant_id: string | null;
+  title: string;
+  variant_title: string | null;
+}
+
+export interface MaterialMovement {
+  id: string;
+  material_id: string;
+  kind: 'purchase' | 'reserve' | 'release' | 'consume' | 'adjust';
+  quantity: number;
+  order_id: number | null;
+  expense_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface MaterialAvailability {
+  canMake: boolean;
+  requirements: Record<string, number>;
+  shortages: Array<{ materialId: string; name: string; unit: MaterialUnit; required: number; available: number }>;
+  /** Line items without a bill of materials (not checked). */
+  missingBom: string[];
+}
+
+export interface MaterialLineItem {
+  title: string;
+  variant_title?: string | null;
+  quantity: number;
+  product_id?: number | string | null;
+  variant_id?: number | string | null;
+}
+
+/** Available = on hand minus reserved for confirmed orders. */
+export function availableQuantity(material: Pick<Material, 'on_hand' | 'reserved'>): number {
+  return Math.round((Number(material.on_hand) - Number(material.reserved)) * 1000) / 1000;
+}
+
+async function failed(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw new Error(error.error || fallback);
+}
+
+function actorHeaders(user: string | null): Record<string, string> {
+  return { 'Content-Type': 'application/json', ...(user ? { 'X-Order-Actor': user } : {}) };
+}
+
+export const materialsService = {
+  async list(includeInactive = false): Promise<Material[]> {
+    const response = await fetch(`${API_URL}/api/materials${includeInactive ? '?includeInactive=1' : ''}`, {
+      cache: 'no-store',
+    });
+    if (!response.ok) return failed(response, 'Failed to fetch materials');
+    return (await response.json()).materials;
+  },
+
+  async create(input: MaterialInput): Promise<Material> {
+    const response = await fetch(`${API_URL}/api/materials`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to add material');
+    return (await response.json()).material;
+  },
+
+  async update(materialId: string, input: MaterialInput): Promise<Material> {
+    const response = await fetch(`${API_URL}/api/materials/${materialId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to update material');
+    return (await response.json()).material;
+  },
+
+  async getMovements(materialId: string): Promise<MaterialMovement[]> {
+    const response = await fetch(`${API_URL}/api/materials/${materialId}/movements`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch stock movements');
+    return (await response.json()).movements;
+  },
+
+  /** Purchase receipt; also creates a production expense. */
+  async recordPurchase(
+    materialId: string,
+    input: { quantity: number; amount: number; date: string; notes?: string },
+    user: string | null
+  ): Promise<void> {
+    const response = await fetch(`${API_URL}/api/materials/${materialId}/purchases`, {
+      method: 'POST',
+      headers: actorHeaders(user),
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to record purchase');
+  },
+
+  async countStock(materialId: string, counted: number, user: string | null): Promise<Material> {
+    const response = await fetch(`${API_URL}/api/materials/${materialId}/count`, {
+      method: 'POST',
+      headers: actorHeaders(user),
+      body: JSON.stringify({ counted }),
+    });
+    if (!response.ok) return failed(response, 'Failed to record stock count');
+    return (await response.json()).material;
+  },
+
+  async listProducts(): Promise<MaterialProduct[]> {
+    const response = await fetch(`${API_URL}/api/materials/products`);
+    if (!response.ok) return failed(response, 'Failed to list products');
+    return (await response.json()).products;
+  },
+
+  async getBoms(): Promise<MaterialBomLine[]> {
+    const response = await fetch(`${API_URL}/api/materials/boms`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch bills of materials');
+    return (await response.json()).boms;
+  },
+
+  async saveBom(
+    productId: string,
+    variantId: string | null,
+    lines: Array<{ material_id: string; quantity_per_unit: number }>
+  ): Promise<MaterialBomLine[]> {
+    const response = await fetch(`${API_URL}/api/materials/boms/${productId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ variantId, lines }),
+    });
+    if (!response.ok) return failed(response, 'Failed to save bill of materials');
+    return (await response.json()).boms;
+  },
+
+  async checkAvailability(lineItems: MaterialLineItem[]): Promise<MaterialAvailability> {
+    const response = await fetch(`${API_URL}/api/materials/availability`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lineItems }),
+    });
+    if (!response.ok) return failed(response, 'Failed to check material availability');
+    return response.json();
+  },
+};
@@ -0,0 +1,104 @@
+// Saved Orders page views API (/api/order-views)
+
+import { apiIdentityHeaders, apiJsonHeaders } from '../utils/apiHeaders';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+/** Quick filter tab keys, as used by the Orders page and GET /api/orders. */
+export type OrderViewQuickFilter =
+  | 'production'
+  | 'city'
+  | 'routes'
+  | 'days'
+  | 'shipping'
+  | 'rushed'
+  | 'fulfillment_status'
+  | 'fulfillment_month'
+  | 'paid_month'
+  | 'cancelled_calendar'
+  | 'cancelled_reason';
+
+export interface OrderViewFilters {
+  status: string;
+  search?: string;
+  quickFilters: Partial<Record<OrderViewQuickFilter, string[]>>;
+}
+
+export interface OrderView {
+  id: string;
+  name: string;
+  filters: OrderViewFilters;
+  pinned: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+async function failed(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw new Error(error.error || fallback);
+}
+
+/** Link that opens the Orders page with this view applied. */
+export function orderViewShareUrl(viewId: string): string {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ view: viewId }).toString();
+  url.hash = '';
+  return url.toString();
+}
+
+export const orderViewsService = {
+  /** Views plus the signed-in user's default (keyed by X-Order-Actor). */
+  async list(): Promise<{ views: OrderView[]; defaultViewId: string | null }> {
+    const response = await fetch(`${API_URL}/api/order-views`, {
+      cache: 'no-store',
+      headers: apiIdentityHeaders(),
+    });
+    if (!response.ok) return failed(response, 'Failed to fetch saved views');
+    return response.json();
+  },
+
+  async get(viewId: string): Promise<OrderView> {
+    const response = await fetch(`${API_URL}/api/order-views/${viewId}`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Saved view not found');
+    return (await response.json()).view;
+  },
+
+  async create(input: { name: string; filters: OrderViewFilters; pinned?: boolean }): Promise<OrderView> {
+    const response = await fetch(`${API_URL}/api/order-views`, {
+      method: 'POST',
+      headers: apiJsonHeaders(),
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to save view');
+    return (await response.json()).view;
+  },
+
+  async update(viewId: string, input: Partial<{ name: string; filters: OrderViewFilters; pinned: boolean }>): Promise<OrderView> {
+    const response = await fetch(`${API_URL}/api/order-views/${viewId}`, {
+      method: 'PUT',
+      headers: apiJsonHeaders(),
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return failed(response, 'Failed to update view');
+    return (await response.json()).view;
+  },
+
+  async remove(viewId: string): Promise<void> {
+    const response = await fetch(`${API_URL}/api/order-views/${viewId}`, {
+      method: 'DELETE',
+      headers: apiIdentityHeaders(),
+    });
+    if (!response.ok) return failed(response, 'Failed to delete view');
+  },
+
+  /** Pass null to clear the signed-in user's default. */
+  async setDefault(viewId: string | null): Promise<void> {
+    const response = await fetch(`${API_URL}/api/order-views/default`, {
+      method: 'PUT',
+      headers: apiJsonHeaders(),
+      body: JSON.stringify({ viewId }),
+    });
+    if (!response.ok) return failed(response, 'Failed to set default view');
+  },
+};
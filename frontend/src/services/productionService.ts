@@ -0,0 +1,94 @@
+// Production capacity planner API (/api/production)
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+export interface ProductionProductType {
+  name: string;
+  /** Case-insensitive substring of the line item title or variant. */
+  match: string;
+  hoursPerUnit: number;
+  makingDays: number;
+}
+
+export interface ProductionPlannerSettings {
+  dailyCapacityHours: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weeklyDaysOff: number[];
+  holidays: string[];
+  capacityOverrides: Record<string, number>;
+  productTypes: ProductionProductType[];
+  defaultHoursPerUnit: number;
+  defaultMakingDays: number;
+  priorityMakingDays: number;
+  /** Ready → delivered, for storefront delivery estimates. */
+  shippingDays: number;
+  autoAssign: boolean;
+}
+
+export interface ProductionPlanEntry {
+  orderId: number;
+  orderName: string;
+  hours: number;
+  priority: boolean;
+  locked: boolean;
+  plannedStart: string | null;
+  plannedFinish: string | null;
+  plannedDue: string | null;
+  currentStart: string | null;
+  currentDue: string | null;
+  feasible: boolean;
+}
+
+export interface ProductionPlan {
+  today: string;
+  entries: ProductionPlanEntry[];
+  days: Array<{ date: string; capacityHours: number; usedHours: number }>;
+}
+
+export interface ProductionReflowResult {
+  updated: Array<{ orderId: number; orderName: string; start: string; due: string }>;
+  failed: Array<{ orderId: number; error: string }>;
+  infeasible: ProductionPlanEntry[];
+}
+
+async function failed(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw new Error(error.error || fallback);
+}
+
+export const productionService = {
+  async getSettings(): Promise<ProductionPlannerSettings> {
+    const response = await fetch(`${API_URL}/api/production/settings`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch planner settings');
+    return (await response.json()).settings;
+  },
+
+  /** Saves and reflows planner-scheduled orders. */
+  async saveSettings(
+    settings: Partial<ProductionPlannerSettings>
+  ): Promise<{ settings: ProductionPlannerSettings; reflow: ProductionReflowResult }> {
+    const response = await fetch(`${API_URL}/api/production/settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(settings),
+    });
+    if (!response.ok) return failed(response, 'Failed to save planner settings');
+    return response.json();
+  },
+
+  async getPlan(): Promise<ProductionPlan> {
+    const response = await fetch(`${API_URL}/api/production/plan`, { cache: 'no-store' });
+    if (!response.ok) return failed(response, 'Failed to fetch production plan');
+    return response.json();
+  },
+
+  async reflow(includeUnscheduled: boolean): Promise<ProductionReflowResult> {
+    const response = await fetch(`${API_URL}/api/production/reflow`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ includeUnscheduled }),
+    });
+    if (!response.ok) return failed(response, 'Failed to reflow production plan');
+    return response.json();
+  },
+};
@@ -1,4 +1,5 @@
 import { api, getApiUrl } from '../config/api';
+import { apiJsonHeaders } from '../utils/apiHeaders';
 
 const API_URL = getApiUrl();
 
@@ -225,9 +226,7 @@ export const addBulkAddressTags = async (orders: ShopifyOrder[]): Promise<Addres
   try {
     const response = await fetch(`${API_URL}/api/orders/bulk-add-address-tags`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: apiJsonHeaders(),
       body: JSON.stringify({ orders }),
     });
 
@@ -316,4 +315,67 @@ export const createShippingOrder = async (order: any) => {
     console.error('Error creating shipping order:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+export interface ShipmentFailure {
+  order_id: number;
+  order_name: string;
+  provider: string;
+  reason: string;
+  attempts: number;
+  permanent: boolean;
+  first_failed_at: string;
+  last_failed_at: string;
+  dismissed_at: string | null;
+}
+
+export type ShipmentCreationOutcome =
+  | { status: 'created'; barcode: string }
+  | { status: 'skipped'; reason: string }
+  | { status: 'needs_attention'; reason: string };
+
+// Ready-to-ship orders whose carrier shipment could not be created automatically
+export const getShipmentsNeedingAttention = async (): Promise<ShipmentFailure[]> => {
+  const response = await api.get('/api/shipping/needs-attention');
+  return response.data;
+};
+
+export const retryShipment = async (orderId: number): Promise<ShipmentCreationOutcome> => {
+  const response = await api.post(`/api/shipping/orders/${orderId}/shipment`);
+  return response.data;
+};
+
+export const dismissShipmentFailure = async (orderId: number): Promise<void> => {
+  await api.delete(`/api/shipping/needs-attention/${orderId}`);
+};
+
+export interface AwbBatchFailure {
+  orderId: number;
+  orderName: string | null;
+  reason: string;
+}
+
+/** One merged AWB PDF for the given orders, in route order, plus the orders that failed. */
+export const printAwbBatch = async (
+  orderIds: number[]
+): Promise<{ pdf: Blob | null; included: number; failed: AwbBatchFailure[] }> => {
+  try {
+    // The PDF comes back base64-encoded next to the report
+    const response = await api.post<{ included: number; failed: AwbBatchFailure[]; pdf: string }>(
+      '/api/shipping/awb/batch',
+      { orderIds }
+    );
+    const bytes = Uint8Array.from(atob(response.data.pdf), (char) => char.charCodeAt(0));
+    return {
+      pdf: new Blob([bytes], { type: 'application/pdf' }),
+      included: response.data.included,
+      failed: response.data.failed,
+    };
+  } catch (error: any) {
+    // 422: no label could be fetched; the body carries the report
+    if (error.response?.status === 422) {
+      return { pdf: null, included: 0, failed: error.response.data?.failed ?? [] };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import Cookies from 'js-cookie';
+
+/**
+ * Who is calling, read from the login cookies. X-Order-Actor is recorded as "updated by"
+ * in the order history; X-App-Role (admin | courier) gates status overrides to admins.
+ */
+export function apiIdentityHeaders(): Record<string, string> {
+  const role = Cookies.get('appRole');
+  const user = Cookies.get('appUser');
+  return {
+    ...(role ? { 'X-App-Role': role } : {}),
+    ...(user ? { 'X-Order-Actor': user } : {}),
+  };
+}
+
+/** JSON headers for dashboard API writes, with the caller identity. */
+export function apiJsonHeaders(): Record<string, string> {
+  return { 'Content-Type': 'application/json', ...apiIdentityHeaders() };
+}
@@ -1,4 +1,4 @@
-import type { FinancialExpense, MonthlyProfit, ShippingRecord } from '../services/financialService';
+import type { FinanceMonthClose, FinancialExpense, MonthlyProfit, ShippingRecord } from '../services/financialService';
 
 export type FinanceMonthBundle = {
   month: string;
@@ -20,6 +20,7 @@ export type FinanceMonthBundle = {
   isFinalized: boolean;
   fromCache: boolean;
   needsCalculation: boolean;
+  close: FinanceMonthClose | null;
 };
 
 export function getCurrentFinanceMonth(): string {
@@ -1,21 +1,9 @@
 import { convertToCairoTime } from './dateUtils';
+import { readOrderWorkflowState } from './orderWorkflowState';
 
-function normalizeTags(tags: string | string[] | undefined | null): string[] {
-  if (!tags) return [];
-  if (Array.isArray(tags)) return tags.map((t) => t.trim());
-  return tags.split(',').map((t) => t.trim());
-}
-
-/** Parse shipped_date:YYYY-MM-DD or shipping_date:YYYY-MM-DD from order tags. */
+/** Parse shipped_date:YYYY-MM-DD (or legacy shipping_date:) from order tags. */
 export function parseShippedDateFromTags(tags: string | string[] | undefined | null): Date | null {
-  const shippedDateTag = normalizeTags(tags).find(
-    (tag) =>
-      tag.toLowerCase().startsWith('shipped_date:') ||
-      tag.toLowerCase().startsWith('shipping_date:')
-  );
-  if (!shippedDateTag) return null;
-
-  const dateStr = shippedDateTag.split(':').slice(1).join(':').trim();
+  const dateStr = readOrderWorkflowState(tags).shippedDate;
   if (!dateStr) return null;
 
   const shippedDate = convertToCairoTime(new Date(dateStr));
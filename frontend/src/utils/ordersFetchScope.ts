@@ -14,3 +14,56 @@ export function resolveOrdersFetchScope(
 export function ordersApiUrl(scope: OrdersFetchScope): string {
   return `${import.meta.env.VITE_API_URL}/api/orders?scope=${scope}`;
 }
+
+/** Page size when walking GET /api/orders list pages (the server maximum). */
+export const ORDERS_LIST_PAGE_SIZE = 500;
+
+/** Search hits loaded before the page asks for a narrower search. */
+export const ORDERS_SEARCH_MAX_RESULTS = 2000;
+
+/** Page shape returned by GET /api/orders when list params (q, status, facets, cursor…) are sent. */
+export interface OrdersListPage<T> {
+  orders: T[];
+  nextCursor: string | null;
+  total: number;
+  facets: Record<string, Record<string, number>>;
+}
+
+/**
+ * List-endpoint params for views the server can narrow better than a scope:
+ * searches (every order, matched server-side) and the fulfilled tab (fulfilled
+ * but not yet paid, instead of every fulfilled order ever). Null = load the scope.
+ */
+export function ordersListParams(statusFilter: string, searchTerm: string): Record<string, string> | null {
+  if (searchTerm) return { status: 'all', q: searchTerm };
+  if (statusFilter === 'fulfilled') return { status: 'fulfilled' };
+  return null;
+}
+
+/** Follow nextCursor until every match (or `maxOrders`) is loaded. */
+export async function fetchOrdersListPages<T>(
+  params: Record<string, string>,
+  maxOrders = Number.POSITIVE_INFINITY
+): Promise<{ orders: T[]; total: number }> {
+  const orders: T[] = [];
+  let cursor: string | null = null;
+  let total = 0;
+
+  do {
+    const query = new URLSearchParams({ ...params, limit: String(ORDERS_LIST_PAGE_SIZE) });
+    if (cursor) query.set('cursor', cursor);
+    const response = await fetch(`${import.meta.env.VITE_API_URL}/api/orders?${query.toString()}`, {
+      cache: 'no-store',
+      headers: { 'Cache-Control': 'no-cache' },
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch orders');
+    }
+    const page: OrdersListPage<T> = await response.json();
+    orders.push(...page.orders);
+    total = page.total;
+    cursor = page.nextCursor;
+  } while (cursor && orders.length < maxOrders);
+
+  return { orders: orders.slice(0, maxOrders), total };
+}
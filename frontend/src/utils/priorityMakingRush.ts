@@ -1,4 +1,7 @@
-/** Priority Making product + tracked plushie variants (rush detection & UI hiding). */
+/**
+ * Priority Making product + tracked plushie variants (rush detection & UI hiding).
+ * Same file in backend/src/utils and frontend/src/utils — keep them identical.
+ */
 
 export const PRIORITY_MAKING_PRODUCT_ID = '10411161747637';
 
@@ -15,7 +18,7 @@ export function isPriorityMakingLineItem(item: { product_id?: unknown; title?: s
   return t === 'priority making';
 }
 
-export function isPlushieLineItem(item: { title?: string; variant_title?: string }): boolean {
+export function isPlushieLineItem(item: { title?: string; variant_title?: string | null }): boolean {
   const title = (item.title || '').toLowerCase();
   const variantTitle = (item.variant_title || '').toLowerCase();
   return title.includes('plushie') || variantTitle.includes('plushie');
@@ -29,7 +32,7 @@ export interface PriorityMakingAnalysis {
 }
 
 export function analyzePriorityMakingLineItems(
-  lineItems: Array<{ product_id?: unknown; quantity?: number; title?: string; variant_title?: string }> | undefined
+  lineItems: Array<{ product_id?: unknown; quantity?: number; title?: string; variant_title?: string | null }> | undefined
 ): PriorityMakingAnalysis {
   const items = lineItems || [];
   let priorityQty = 0;